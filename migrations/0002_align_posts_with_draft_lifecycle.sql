@@ -0,0 +1,44 @@
+-- Migration: Align posts table with the PostDraft lifecycle
+-- Created: 2025-01-20
+--
+-- PostDraft uses draft/approved/publishing/published/failed and a version number
+-- for optimistic concurrency. SQLite cannot alter a CHECK constraint in place,
+-- so the table is rebuilt and legacy statuses are mapped onto the new ones.
+
+CREATE TABLE IF NOT EXISTS posts_next (
+    id TEXT PRIMARY KEY,
+    theme TEXT NOT NULL,
+    brand_voice TEXT NOT NULL,
+    product TEXT,
+    image_prompt TEXT,
+    target_persona TEXT,
+    user_id TEXT,
+    content TEXT,
+    image_url TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'publishing', 'published', 'failed')),
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now'))
+);
+
+INSERT INTO posts_next (
+    id, theme, brand_voice, product, image_prompt, target_persona, user_id,
+    content, image_url, status, version, created_at, updated_at
+)
+SELECT
+    id, theme, brand_voice, product, image_prompt, target_persona, user_id,
+    content, image_url,
+    CASE status
+        WHEN 'processing' THEN 'publishing'
+        WHEN 'completed' THEN 'published'
+        ELSE status
+    END,
+    1, created_at, updated_at
+FROM posts;
+
+DROP TABLE posts;
+ALTER TABLE posts_next RENAME TO posts;
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_id ON posts(user_id);
+CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status);
+CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at);
@@ -0,0 +1,8 @@
+-- Migration: Track image generation results on posts
+-- Created: 2025-01-27
+--
+-- The image queue consumer stores the R2 object key in image_url and records
+-- whether generation finished or failed, with the last error message.
+
+ALTER TABLE posts ADD COLUMN image_status TEXT CHECK (image_status IN ('done', 'failed'));
+ALTER TABLE posts ADD COLUMN image_error TEXT;
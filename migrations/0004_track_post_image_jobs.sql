@@ -0,0 +1,43 @@
+-- Migration: Track the full image job lifecycle on posts
+-- Created: 2025-02-03
+--
+-- Image jobs are now recorded as queued/running/done/failed together with the
+-- scheduler's job id. SQLite cannot relax the CHECK constraint added in 0003,
+-- so the table is rebuilt the same way as in 0002.
+
+CREATE TABLE IF NOT EXISTS posts_next (
+    id TEXT PRIMARY KEY,
+    theme TEXT NOT NULL,
+    brand_voice TEXT NOT NULL,
+    product TEXT,
+    image_prompt TEXT,
+    target_persona TEXT,
+    user_id TEXT,
+    content TEXT,
+    image_url TEXT,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'publishing', 'published', 'failed')),
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    updated_at TEXT DEFAULT (datetime('now')),
+    image_status TEXT CHECK (image_status IN ('queued', 'running', 'done', 'failed')),
+    image_error TEXT,
+    image_job_id TEXT
+);
+
+INSERT INTO posts_next (
+    id, theme, brand_voice, product, image_prompt, target_persona, user_id,
+    content, image_url, status, version, created_at, updated_at,
+    image_status, image_error
+)
+SELECT
+    id, theme, brand_voice, product, image_prompt, target_persona, user_id,
+    content, image_url, status, version, created_at, updated_at,
+    image_status, image_error
+FROM posts;
+
+DROP TABLE posts;
+ALTER TABLE posts_next RENAME TO posts;
+
+CREATE INDEX IF NOT EXISTS idx_posts_user_id ON posts(user_id);
+CREATE INDEX IF NOT EXISTS idx_posts_status ON posts(status);
+CREATE INDEX IF NOT EXISTS idx_posts_created_at ON posts(created_at);
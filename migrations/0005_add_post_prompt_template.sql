@@ -0,0 +1,11 @@
+-- Migration: Record the prompt template used to generate each post
+-- Created: 2025-02-10
+--
+-- Drafts generated with a registry template keep the template id and version
+-- so that marketers can compare results across prompt revisions. Both columns
+-- stay NULL for drafts generated with the built-in prompt.
+
+ALTER TABLE posts ADD COLUMN prompt_template_id TEXT;
+ALTER TABLE posts ADD COLUMN prompt_template_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_posts_prompt_template ON posts(prompt_template_id, prompt_template_version);
@@ -0,0 +1,10 @@
+-- Migration: Target platform for each post
+-- Created: 2025-02-17
+--
+-- Drafts can now be generated for Instagram, X, Threads, LinkedIn or TikTok.
+-- Existing rows were all written for Instagram, which is also the default.
+
+ALTER TABLE posts ADD COLUMN platform TEXT NOT NULL DEFAULT 'instagram'
+  CHECK (platform IN ('instagram', 'x', 'threads', 'linkedin', 'tiktok'));
+
+CREATE INDEX IF NOT EXISTS idx_posts_platform ON posts(platform);
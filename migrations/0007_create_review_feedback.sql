@@ -0,0 +1,19 @@
+-- Migration: Review feedback for draft approval
+-- Created: 2025-02-24
+--
+-- Every approve / request-rework decision appends one row, so the history shows
+-- what a draft went through before it was accepted. draft_id has no foreign key
+-- because drafts may be stored in KV only (DRAFT_STORAGE = "kv").
+
+CREATE TABLE IF NOT EXISTS review_feedback (
+    id TEXT PRIMARY KEY,
+    draft_id TEXT NOT NULL,
+    reviewer_id TEXT NOT NULL,
+    comments TEXT,
+    tags TEXT NOT NULL DEFAULT '[]',
+    resolution TEXT NOT NULL CHECK (resolution IN ('accepted', 'rework')),
+    draft_version INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_feedback_draft_id ON review_feedback(draft_id, created_at);
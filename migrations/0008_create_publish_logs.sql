@@ -0,0 +1,25 @@
+-- Migration: Publishing results and attempt log
+-- Created: 2025-03-03
+--
+-- Approved drafts are now published through the Meta Graph API. The latest
+-- outcome is kept on posts, and every attempt (including rate-limited ones)
+-- appends a row to publish_logs. As with review_feedback, draft_id has no
+-- foreign key because drafts may be stored in KV only.
+
+ALTER TABLE posts ADD COLUMN published_media_id TEXT;
+ALTER TABLE posts ADD COLUMN published_at TEXT;
+ALTER TABLE posts ADD COLUMN publish_error TEXT;
+
+CREATE TABLE IF NOT EXISTS publish_logs (
+    id TEXT PRIMARY KEY,
+    draft_id TEXT NOT NULL,
+    publisher TEXT NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('published', 'failed')),
+    media_id TEXT,
+    error_code TEXT CHECK (error_code IN ('rate_limited', 'rejected', 'unavailable')),
+    error_message TEXT,
+    draft_version INTEGER NOT NULL,
+    attempted_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_publish_logs_draft_id ON publish_logs(draft_id, attempted_at);
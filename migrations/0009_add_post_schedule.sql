@@ -0,0 +1,13 @@
+-- Migration: Scheduled posting
+-- Created: 2025-03-10
+--
+-- Drafts can be scheduled for a future time. scheduled_at is stored in UTC
+-- (ISO 8601) so that it compares correctly as text; schedule_timezone keeps the
+-- zone the time was entered in. The cron dispatcher sets dispatched_at when it
+-- enqueues a draft, so the same draft is not enqueued twice.
+
+ALTER TABLE posts ADD COLUMN scheduled_at TEXT;
+ALTER TABLE posts ADD COLUMN schedule_timezone TEXT;
+ALTER TABLE posts ADD COLUMN dispatched_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_schedule ON posts(status, scheduled_at) WHERE dispatched_at IS NULL;
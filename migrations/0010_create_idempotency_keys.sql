@@ -0,0 +1,20 @@
+-- Migration: Idempotency keys claimed by a unique row
+-- Created: 2025-03-12
+--
+-- The first request with an Idempotency-Key inserts the row; a duplicate
+-- loses the insert on the primary key instead of racing a KV read-after-write.
+-- key is the SHA-256 of method, path, brand ID and Idempotency-Key, and
+-- fingerprint is the SHA-256 of the request body. response holds the stored
+-- 2xx response ({status, contentType?, body}) as JSON once completed.
+-- expires_at is epoch milliseconds; an expired row is taken over by the next
+-- claim and swept by later claims.
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    key TEXT PRIMARY KEY,
+    fingerprint TEXT NOT NULL,
+    state TEXT NOT NULL CHECK (state IN ('in_flight', 'completed')),
+    response TEXT,
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys (expires_at);
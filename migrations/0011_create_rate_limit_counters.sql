@@ -0,0 +1,16 @@
+-- Migration: Rate limit and generation quota counters
+-- Created: 2025-03-14
+--
+-- Counters are incremented with a single upsert so that concurrent requests
+-- each see their own count, instead of racing a KV read-then-put. key is the
+-- key built by the rate limit middleware (ratelimit:{clientId}:{window} or
+-- quota:{clientId}:{date}). expires_at is epoch milliseconds; an expired row
+-- counts from zero again on the next increment and is swept by later ones.
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL CHECK (count >= 0),
+    expires_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires_at ON rate_limit_counters (expires_at);
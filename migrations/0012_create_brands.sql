@@ -0,0 +1,27 @@
+-- Migration: Brands and brand-scoped posts
+-- Created: 2025-03-17
+--
+-- One deployment serves several brands. A brand keeps the voice, default
+-- hashtags, banned words and default persona that used to be typed on every
+-- request; the two lists are stored as JSON arrays.
+--
+-- Every post created for a brand records brand_id, and reads are filtered by
+-- it. Posts created before brands existed keep brand_id NULL and are only
+-- visible to requests that do not name a brand.
+
+CREATE TABLE IF NOT EXISTS brands (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    voice TEXT NOT NULL,
+    default_hashtags TEXT NOT NULL DEFAULT '[]',
+    banned_words TEXT NOT NULL DEFAULT '[]',
+    default_persona TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_brands_name ON brands(name);
+
+ALTER TABLE posts ADD COLUMN brand_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_brand_created_at ON posts(brand_id, created_at);
@@ -0,0 +1,18 @@
+-- Migration: Saved brand-voice and persona presets
+-- Created: 2025-03-20
+--
+-- Users pick the brand voice and target persona for a generation from saved
+-- presets instead of retyping them. A preset belongs to the brand named by
+-- the request that saved it (brand_id NULL for requests without a brand) and
+-- is only listed for that brand.
+
+CREATE TABLE IF NOT EXISTS generation_presets (
+    id TEXT PRIMARY KEY,
+    brand_id TEXT,
+    kind TEXT NOT NULL CHECK (kind IN ('brandVoice', 'targetPersona')),
+    label TEXT NOT NULL,
+    value TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_generation_presets_brand_kind ON generation_presets(brand_id, kind, label);
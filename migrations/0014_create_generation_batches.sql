@@ -0,0 +1,36 @@
+-- Migration: Bulk draft generation from CSV or JSON briefs
+-- Created: 2025-03-24
+--
+-- A monthly plan of posts is uploaded as one batch. Each brief becomes a row
+-- that is generated by its own queue message, so a large upload never runs
+-- inside a single request. Rows are updated independently by the consumer;
+-- the batch status is derived from the row statuses when it is read.
+--
+-- draft_id is assigned when the batch is created so a redelivered message
+-- never creates a second draft. Rows that failed validation at upload keep
+-- request NULL and are stored as failed without being queued. error holds
+-- the API error object ({message, code?, fields?}) as JSON.
+--
+-- quota_key is the generation quota counter the upload reserved its queued
+-- rows on; a row that fails gives its reservation back to that counter.
+
+CREATE TABLE IF NOT EXISTS generation_batches (
+    id TEXT PRIMARY KEY,
+    brand_id TEXT,
+    quota_key TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS generation_batch_rows (
+    batch_id TEXT NOT NULL,
+    row_index INTEGER NOT NULL,
+    theme TEXT,
+    request TEXT,
+    draft_id TEXT,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'succeeded', 'failed')),
+    caption TEXT,
+    hashtags TEXT,
+    error TEXT,
+    completed_at TEXT,
+    PRIMARY KEY (batch_id, row_index)
+);
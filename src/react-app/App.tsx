@@ -1,11 +1,25 @@
+import { useState } from "react";
 import "./App.css";
+import { BatchGenerationFeature } from "./features/batchGeneration";
 import { DraftGenerationFeature } from "./features/draftGeneration";
 import { Toaster } from "@components/ui/sonner";
 
+type Page = "single" | "batch";
+
 function App() {
+  const [page, setPage] = useState<Page>("single");
+
   return (
     <>
-      <DraftGenerationFeature />
+      <nav className="app-nav" aria-label="生成の方法">
+        <button type="button" aria-pressed={page === "single"} onClick={() => setPage("single")}>
+          単体生成
+        </button>
+        <button type="button" aria-pressed={page === "batch"} onClick={() => setPage("batch")}>
+          一括生成
+        </button>
+      </nav>
+      {page === "single" ? <DraftGenerationFeature /> : <BatchGenerationFeature />}
       <Toaster position="top-right" richColors />
     </>
   );
@@ -1,9 +1,11 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
-import { render, screen } from "@testing-library/react";
+import { act, render, screen, within } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import "@testing-library/jest-dom";
 import App from "../App";
-import type { DraftGenerationRequest, DraftGenerationResponse } from "@/shared/types/draft";
+import type { DraftGenerationRequest, DraftGenerationResponse } from "@/shared/contracts/draft";
+import type { GenerationPresetDto } from "@/shared/contracts/generationPreset";
+import type { GenerationBatchDto } from "@/shared/contracts/generationBatch";
 
 declare global {
   interface Window {
@@ -17,6 +19,7 @@ describe("App", () => {
     draft: {
       id: "draft-123",
       status: "draft",
+      platform: "instagram",
       caption: "最高の履き心地を体験しよう",
       hashtags: ["sneakers", "spring"],
       altText: "街でスニーカーを見せる若者",
@@ -24,17 +27,32 @@ describe("App", () => {
     },
   };
 
+  const jsonResponse = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+  let presets: GenerationPresetDto[];
+  /** プリセットAPI以外への応答（順に返し、最後の1件は繰り返す） */
+  let apiResponses: Array<() => Response>;
+
   beforeEach(() => {
-    vi.spyOn(window, "fetch").mockResolvedValue(
-      new Response(JSON.stringify(responseBody), {
-        status: 201,
-        headers: { "Content-Type": "application/json" },
-      })
-    );
+    presets = [];
+    apiResponses = [() => jsonResponse(responseBody, 201)];
+    vi.spyOn(window, "fetch").mockImplementation(async (input, init) => {
+      if (input === "/api/v1/presets") {
+        if (init?.method === "POST") {
+          const request = JSON.parse(String(init.body)) as { kind: GenerationPresetDto["kind"]; value: string };
+          const preset = { id: "preset-new", label: request.value, createdAt: "2025-01-01T00:00:00.000Z", ...request };
+          return jsonResponse({ preset }, 201);
+        }
+        return jsonResponse({ items: presets }, 200);
+      }
+      return (apiResponses.length > 1 ? apiResponses.shift()! : apiResponses[0])();
+    });
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
   });
 
   // 正常系: フォーム入力を送信したときに期待どおりのAPIリクエストが発行されることを検証する
@@ -56,13 +74,14 @@ describe("App", () => {
       product: "AirFlex 2025 Edition",
       imagePrompt: "街を歩く若者がスニーカーを見せる",
       targetPersona: "20代のアクティブ層",
+      platform: "instagram",
     };
 
     expect(window.fetch).toHaveBeenCalledWith(
       "/api/v1/generate",
       expect.objectContaining({
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", "Idempotency-Key": expect.any(String) },
         body: JSON.stringify(requestBody),
       })
     );
@@ -82,4 +101,345 @@ describe("App", () => {
     expect(screen.getByText("最高の履き心地を体験しよう")).toBeInTheDocument();
     expect(screen.getByText("#sneakers #spring")).toBeInTheDocument();
   });
+
+  // 正常系: 生成結果のコンプライアンス違反を重大度・該当箇所・言い換えの提案とともに表示することを検証する
+  it("lists compliance violations of the generated draft", async () => {
+    const violation = {
+      ruleSetId: "premiums-and-representations",
+      ruleId: "superlative-claim",
+      field: "caption" as const,
+      start: 0,
+      end: 2,
+      text: "最高",
+      message: "最上級の表現は客観的な根拠を確認してください",
+    };
+    apiResponses = [
+      () =>
+        jsonResponse(
+          {
+            ...responseBody,
+            draft: {
+              ...responseBody.draft,
+              complianceViolations: [
+                { ...violation, severity: "warning", suggestion: "こだわりの" },
+                { ...violation, ruleSetId: "brand", ruleId: "banned-word", severity: "error", message: "ブランドの禁止語です", suggestion: "" },
+              ],
+            },
+          },
+          201
+        ),
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    const items = within(await screen.findByRole("region", { name: "表現チェック" })).getAllByRole("listitem");
+    expect(items.map((item) => item.getAttribute("data-severity"))).toEqual(["warning", "error"]);
+    expect(items[0]).toHaveTextContent("注意キャプションの「最高」: 最上級の表現は客観的な根拠を確認してください");
+    expect(items[0]).toHaveTextContent("言い換えの例: こだわりの");
+    expect(items[1]).toHaveTextContent("要修正");
+    expect(items[1]).toHaveTextContent("削除を推奨");
+    expect(screen.getByRole("alert")).toHaveTextContent("要修正の表現を直すまで承認できません");
+  });
+
+  // 異常系: 422のフィールドごとのエラーを該当する入力欄の横に表示し、入力し直すと消えることを検証する
+  it("shows field errors next to the matching inputs", async () => {
+    apiResponses = [
+      () =>
+        jsonResponse(
+          {
+            error: {
+              message: "theme must be a non-empty string; brandVoice must be a non-empty string",
+              code: "THEME_REQUIRED",
+              fields: [
+                { field: "theme", code: "THEME_REQUIRED", message: "theme must be a non-empty string" },
+                { field: "brandVoice", code: "BRAND_VOICE_REQUIRED", message: "brandVoice must be a non-empty string" },
+              ],
+            },
+          },
+          422
+        ),
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    const theme = screen.getByLabelText("テーマ");
+    expect(await screen.findByText("テーマを入力してください")).toBeInTheDocument();
+    expect(theme).toHaveAttribute("aria-invalid", "true");
+    expect(theme).toHaveAccessibleDescription("テーマを入力してください");
+    expect(screen.getByLabelText("ブランドトーン")).toHaveAccessibleDescription(
+      "ブランドトーンを入力するか、プリセットを選んでください"
+    );
+    expect(screen.queryByRole("alert")).not.toBeInTheDocument();
+
+    await user.type(theme, "！");
+    expect(screen.queryByText("テーマを入力してください")).not.toBeInTheDocument();
+    expect(screen.getByText("ブランドトーンを入力するか、プリセットを選んでください")).toBeInTheDocument();
+  });
+
+  // 異常系: 入力欄に対応しない障害はAPIのメッセージをバナーに表示することを検証する
+  it("shows infrastructure failures in the error banner", async () => {
+    apiResponses = [
+      () => jsonResponse({ error: { message: "Failed to save draft", code: "STORAGE_UNAVAILABLE" } }, 503),
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Failed to generate draft: Failed to save draft");
+    expect(screen.getByLabelText("テーマ")).not.toHaveAttribute("aria-invalid");
+  });
+
+  // 異常系: 共有コントラクトに合わないレスポンスはドラフトとして表示せず、バナーに表示することを検証する
+  it("rejects responses that do not match the contract", async () => {
+    apiResponses = [() => jsonResponse({ id: "draft-123", draft: { ...responseBody.draft, hashtags: "sneakers" } }, 201)];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent(
+      "Failed to generate draft: unexpected response (draft.hashtags must be an array)"
+    );
+    expect(screen.queryByText("最高の履き心地を体験しよう")).not.toBeInTheDocument();
+  });
+
+  // 正常系: 画像ジョブの完了をSSEで受け取りプレビューを表示することを検証する
+  it("shows a live image preview once the image job finishes", async () => {
+    class FakeEventSource {
+      static instances: FakeEventSource[] = [];
+      readonly listeners: Record<string, (event: MessageEvent<string>) => void> = {};
+      closed = false;
+
+      constructor(readonly url: string) {
+        FakeEventSource.instances.push(this);
+      }
+
+      addEventListener(type: string, listener: (event: MessageEvent<string>) => void) {
+        this.listeners[type] = listener;
+      }
+
+      close() {
+        this.closed = true;
+      }
+    }
+    vi.stubGlobal("EventSource", FakeEventSource);
+    apiResponses = [
+      () =>
+        jsonResponse(
+          { ...responseBody, draft: { ...responseBody.draft, image: { jobId: "draft-123-image", status: "queued" } } },
+          201
+        ),
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    expect(await screen.findByText("画像を生成中...")).toBeInTheDocument();
+    const [source] = FakeEventSource.instances;
+    expect(source.url).toBe("/api/v1/drafts/draft-123/image-status/stream");
+
+    act(() => {
+      source.listeners["image-status"](
+        new MessageEvent("image-status", {
+          data: JSON.stringify({
+            draftId: "draft-123",
+            image: { jobId: "draft-123-image", status: "done", url: "/api/v1/drafts/draft-123/image" },
+          }),
+        })
+      );
+    });
+
+    expect(screen.getByAltText("街でスニーカーを見せる若者")).toHaveAttribute("src", "/api/v1/drafts/draft-123/image");
+    expect(source.closed).toBe(true);
+  });
+
+  // 正常系: キャプション案を並べて表示し、選んだ案を採用できることを検証する
+  it("shows caption variants side by side and selects one", async () => {
+    const variants = [
+      { angle: "hook-first" as const, caption: "まだ知らない？春の新作", hashtags: ["spring"], altText: "スニーカー" },
+      { angle: "story" as const, caption: "春の新作と歩く毎日", hashtags: ["sneakers"], altText: "スニーカー" },
+    ];
+    apiResponses = [
+      () =>
+        jsonResponse(
+          {
+            ...responseBody,
+            draft: { ...responseBody.draft, caption: variants[0].caption, variants, selectedVariant: 0 },
+          },
+          201
+        ),
+      () =>
+        jsonResponse(
+          {
+            id: "draft-123",
+            draft: {
+              ...responseBody.draft,
+              caption: variants[1].caption,
+              hashtags: variants[1].hashtags,
+              variants,
+              selectedVariant: 1,
+              theme: "春の新作スニーカー",
+              brandVoice: "爽やかで親しみやすい",
+              version: 2,
+            },
+          },
+          200
+        ),
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.type(screen.getByLabelText("ブランドトーン"), "爽やかで親しみやすい");
+    await user.selectOptions(screen.getByLabelText("キャプション案の数"), "2");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    expect(await screen.findByRole("button", { name: "フック重視の案を採用" })).toHaveAttribute("aria-pressed", "true");
+    await user.click(screen.getByRole("button", { name: "ストーリーの案を採用" }));
+
+    expect(window.fetch).toHaveBeenLastCalledWith(
+      "/api/v1/drafts/draft-123/variants/select",
+      expect.objectContaining({ method: "POST", body: JSON.stringify({ index: 1 }) })
+    );
+    expect(await screen.findByRole("button", { name: "ストーリーの案を採用" })).toHaveAttribute("aria-pressed", "true");
+    expect(screen.getAllByText("春の新作と歩く毎日")).toHaveLength(2);
+  });
+
+  // 正常系: 保存済みプリセットを選び、1回だけ書き換えて送信し、手入力の値を新しいプリセットとして保存できることを検証する
+  it("picks, overrides and saves brand voice presets", async () => {
+    presets = [
+      { id: "voice-1", kind: "brandVoice", label: "親しみ", value: "親しみやすい", createdAt: "2025-01-01T00:00:00.000Z" },
+    ];
+    const user = userEvent.setup();
+    render(<App />);
+
+    await user.type(screen.getByLabelText("テーマ"), "春の新作スニーカー");
+    await user.selectOptions(await screen.findByLabelText("ブランドトーンのプリセット"), "voice-1");
+    expect(screen.getByLabelText("ブランドトーン")).toHaveValue("親しみやすい");
+
+    await user.type(screen.getByLabelText("ブランドトーン"), "、絵文字多め");
+    expect(screen.getByLabelText("ブランドトーンのプリセット")).toHaveValue("");
+    await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
+
+    expect(window.fetch).toHaveBeenCalledWith(
+      "/api/v1/generate",
+      expect.objectContaining({
+        body: JSON.stringify({ theme: "春の新作スニーカー", brandVoice: "親しみやすい、絵文字多め", platform: "instagram" }),
+      })
+    );
+
+    await user.click(screen.getByRole("button", { name: "ブランドトーンをプリセットに保存" }));
+
+    expect(window.fetch).toHaveBeenCalledWith(
+      "/api/v1/presets",
+      expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ kind: "brandVoice", value: "親しみやすい、絵文字多め" }),
+      })
+    );
+    expect(await screen.findByRole("option", { name: "親しみやすい、絵文字多め" })).toBeInTheDocument();
+    expect(screen.getByLabelText("ブランドトーンのプリセット")).toHaveValue("preset-new");
+  });
+
+  // 正常系: ブリーフのCSVをアップロードし、全ての行が終わるまで進捗を更新することを検証する
+  it("uploads a brief file and polls the batch progress", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const running: GenerationBatchDto = {
+      id: "batch-1",
+      status: "running",
+      total: 2,
+      succeeded: 0,
+      failed: 1,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rows: [
+        { index: 0, theme: "春の新作", status: "queued", draftId: "draft-1" },
+        { index: 1, status: "failed", error: { message: "theme must be a non-empty string", code: "THEME_REQUIRED" } },
+      ],
+    };
+    const completed: GenerationBatchDto = {
+      ...running,
+      status: "completed",
+      succeeded: 1,
+      completedAt: "2025-01-01T00:01:00.000Z",
+      rows: [{ ...running.rows[0], status: "succeeded", caption: "春の新作が登場", hashtags: ["spring"] }, running.rows[1]],
+    };
+    apiResponses = [() => jsonResponse({ batch: running }, 202), () => jsonResponse({ batch: completed }, 200)];
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<App />);
+
+    await user.click(screen.getByRole("button", { name: "一括生成" }));
+    const csv = "theme,brandVoice\n春の新作,爽やか\n,爽やか\n";
+    // jsdom の File は text() を実装していないため、読み取り結果を与える
+    const file = Object.assign(new File([csv], "briefs.csv", { type: "text/csv" }), { text: async () => csv });
+    await user.upload(screen.getByLabelText("ブリーフのファイル"), file);
+    await user.click(screen.getByRole("button", { name: "アップロード" }));
+
+    expect(await screen.findByText("theme must be a non-empty string")).toBeInTheDocument();
+    expect(window.fetch).toHaveBeenCalledWith("/api/v1/generate/batch", {
+      method: "POST",
+      headers: { "Content-Type": "text/csv" },
+      body: csv,
+    });
+    expect(screen.getByRole("status")).toHaveTextContent("生成中: 生成済み 0 件 / 失敗 1 件 / 全 2 件");
+
+    await act(() => vi.advanceTimersByTimeAsync(3_000));
+
+    expect(window.fetch).toHaveBeenLastCalledWith("/api/v1/generate/batch/batch-1");
+    expect(await screen.findByText("春の新作が登場")).toBeInTheDocument();
+    expect(screen.getByRole("status")).toHaveTextContent("完了: 生成済み 1 件 / 失敗 1 件 / 全 2 件");
+    expect(screen.getByRole("button", { name: "結果をダウンロード（CSV）" })).toBeInTheDocument();
+    vi.useRealTimers();
+  });
+
+  // 異常系: 終わらないバッチの進捗は間隔を延ばしながら確認し、15分を過ぎたら確認をやめてエラーを表示することを検証する
+  it("stops polling a batch that does not finish", async () => {
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    const running: GenerationBatchDto = {
+      id: "batch-1",
+      status: "running",
+      total: 1,
+      succeeded: 0,
+      failed: 0,
+      createdAt: "2025-01-01T00:00:00.000Z",
+      rows: [{ index: 0, theme: "春の新作", status: "queued", draftId: "draft-1" }],
+    };
+    apiResponses = [() => jsonResponse({ batch: running }, 202)];
+    const user = userEvent.setup({ advanceTimers: vi.advanceTimersByTime });
+    render(<App />);
+
+    await user.click(screen.getByRole("button", { name: "一括生成" }));
+    const json = JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }]);
+    const file = Object.assign(new File([json], "briefs.json", { type: "application/json" }), { text: async () => json });
+    await user.upload(screen.getByLabelText("ブリーフのファイル"), file);
+    await user.click(screen.getByRole("button", { name: "アップロード" }));
+    await screen.findByRole("status");
+
+    const polls = () =>
+      vi.mocked(window.fetch).mock.calls.filter(([input]) => input === "/api/v1/generate/batch/batch-1").length;
+    await act(() => vi.advanceTimersByTimeAsync(15 * 60_000));
+
+    expect(await screen.findByRole("alert")).toHaveTextContent("Batch batch-1 is still running after 15 minutes");
+    // 3秒間隔のままなら300回になるところ、30秒まで延ばした間隔で40回未満に収まる
+    const count = polls();
+    expect(count).toBeLessThan(40);
+    await act(() => vi.advanceTimersByTimeAsync(60_000));
+    expect(polls()).toBe(count);
+    vi.useRealTimers();
+  });
 });
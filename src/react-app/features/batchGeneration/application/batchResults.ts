@@ -0,0 +1,23 @@
+import { toCsv } from "@/shared/csv";
+import type { GenerationBatchDto } from "@/shared/contracts/generationBatch";
+
+/** 結果のCSVの見出し（row はアップロードしたファイルのデータ行の番号、1始まり） */
+const RESULT_COLUMNS = ["row", "theme", "status", "draftId", "caption", "hashtags", "error"];
+
+/**
+ * バッチの結果のCSVへの変換
+ *
+ * スプレッドシートで開いたときに日本語が文字化けしないよう、先頭にBOMを付ける。
+ */
+export function toBatchResultsCsv(batch: GenerationBatchDto): string {
+  const rows = batch.rows.map((row) => [
+    String(row.index + 1),
+    row.theme ?? "",
+    row.status,
+    row.draftId ?? "",
+    row.caption ?? "",
+    (row.hashtags ?? []).map((tag) => `#${tag}`).join(" "),
+    row.error?.message ?? "",
+  ]);
+  return "\uFEFF" + toCsv([RESULT_COLUMNS, ...rows]);
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  GENERATION_BATCH_CSV_CONTENT_TYPE,
+  generationBatchResponseSchema,
+  type GenerationBatchDto,
+} from "@/shared/contracts/generationBatch";
+import { apiErrorResponseSchema } from "@/shared/contracts/error";
+import { formatIssues } from "@/shared/schema";
+import type { BatchGenerationViewModel } from "../types";
+import { toBatchResultsCsv } from "./batchResults";
+
+/** バッチの進捗の最初の確認間隔（ミリ秒） */
+const BATCH_POLL_INTERVAL_MS = 3_000;
+
+/** 確認間隔の上限（ミリ秒）。確認のたびに間隔を1.5倍に延ばす */
+const BATCH_POLL_MAX_INTERVAL_MS = 30_000;
+
+/** 進捗の確認を打ち切るまでの時間（ミリ秒） */
+const BATCH_POLL_TIMEOUT_MS = 15 * 60_000;
+
+/**
+ * ブリーフのファイルのContent-Type
+ *
+ * 拡張子が .csv のファイルはCSV、それ以外はJSONの配列として送る。
+ */
+function contentTypeOf(file: File): string {
+  return file.name.toLowerCase().endsWith(".csv") || file.type === GENERATION_BATCH_CSV_CONTENT_TYPE
+    ? GENERATION_BATCH_CSV_CONTENT_TYPE
+    : "application/json";
+}
+
+/**
+ * バッチを返すレスポンスの読み取り
+ *
+ * 失敗したレスポンスはエラーレスポンスのメッセージ（読み取れない場合はステータスの説明）で、
+ * 共有コントラクトのスキーマに合わないボディは見つかった問題で例外にする。
+ */
+async function readBatchResponse(response: Response, action: string): Promise<GenerationBatchDto> {
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok) {
+    const parsed = apiErrorResponseSchema.parse(body);
+    throw new Error(`${action}: ${parsed.ok ? parsed.value.error.message : response.statusText}`);
+  }
+
+  const parsed = generationBatchResponseSchema.parse(body);
+  if (!parsed.ok) {
+    throw new Error(`${action}: unexpected response (${formatIssues(parsed.issues)})`);
+  }
+  return parsed.value.batch;
+}
+
+/**
+ * 一括生成の状態管理
+ *
+ * ブリーフのファイルをアップロードしてバッチを作成し、全ての行が終わるまで進捗を確認する。
+ * 確認の間隔は徐々に延ばし、BATCH_POLL_TIMEOUT_MS を過ぎても終わらない場合は確認をやめてエラーを表示する。
+ *
+ * @returns 画面の表示内容と、ファイルの選択・アップロード・結果のダウンロードの操作
+ */
+export function useBatchGeneration(): {
+  viewModel: BatchGenerationViewModel;
+  selectFile: (file: File | null) => void;
+  uploadBatch: () => Promise<void>;
+  downloadResults: () => void;
+} {
+  const [file, setFile] = useState<File | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [batch, setBatch] = useState<GenerationBatchDto | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const batchId = batch?.id;
+  const running = batch?.status === "running";
+
+  // 全ての行が終わるまで、間隔を延ばしながら進捗を確認する
+  useEffect(() => {
+    if (!batchId || !running) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const startedAt = Date.now();
+
+    const schedule = (interval: number) => {
+      if (Date.now() - startedAt + interval > BATCH_POLL_TIMEOUT_MS) {
+        const minutes = BATCH_POLL_TIMEOUT_MS / 60_000;
+        setError(`Batch ${batchId} is still running after ${minutes} minutes; reload the page later to check its progress`);
+        return;
+      }
+      timer = setTimeout(() => void poll(interval), interval);
+    };
+
+    const poll = async (interval: number) => {
+      try {
+        const response = await fetch(`/api/v1/generate/batch/${encodeURIComponent(batchId)}`);
+        const latest = await readBatchResponse(response, "Failed to load batch progress");
+        if (!cancelled) setBatch(latest);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        if (!cancelled) setError(message);
+      }
+      if (!cancelled) schedule(Math.min(interval * 1.5, BATCH_POLL_MAX_INTERVAL_MS));
+    };
+
+    schedule(BATCH_POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [batchId, running]);
+
+  const selectFile = useCallback((selected: File | null) => {
+    setFile(selected);
+    setError(null);
+  }, []);
+
+  const uploadBatch = useCallback(async () => {
+    if (!file || isUploading) return;
+
+    setIsUploading(true);
+    setError(null);
+    setBatch(null);
+
+    try {
+      const response = await fetch("/api/v1/generate/batch", {
+        method: "POST",
+        headers: { "Content-Type": contentTypeOf(file) },
+        body: await file.text(),
+      });
+      setBatch(await readBatchResponse(response, "Failed to upload briefs"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setError(message);
+    } finally {
+      setIsUploading(false);
+    }
+  }, [file, isUploading]);
+
+  // 表示中の進捗を結果のCSVとして保存する
+  const downloadResults = useCallback(() => {
+    if (!batch) return;
+
+    const url = URL.createObjectURL(new Blob([toBatchResultsCsv(batch)], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `batch-${batch.id}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [batch]);
+
+  const viewModel: BatchGenerationViewModel = {
+    fileName: file?.name ?? null,
+    canUpload: file !== null,
+    isUploading,
+    batch,
+    error,
+  };
+
+  return { viewModel, selectFile, uploadBatch, downloadResults };
+}
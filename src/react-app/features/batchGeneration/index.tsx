@@ -0,0 +1,15 @@
+import { BatchGenerationView } from "./presentation/BatchGenerationView";
+import { useBatchGeneration } from "./application/useBatchGeneration";
+
+export function BatchGenerationFeature() {
+  const { viewModel, selectFile, uploadBatch, downloadResults } = useBatchGeneration();
+
+  return (
+    <BatchGenerationView
+      viewModel={viewModel}
+      onSelectFile={selectFile}
+      onUpload={uploadBatch}
+      onDownload={downloadResults}
+    />
+  );
+}
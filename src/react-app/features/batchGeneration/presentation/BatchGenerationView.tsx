@@ -0,0 +1,83 @@
+import type { FormEvent } from "react";
+import type { GenerationBatchDto } from "@/shared/contracts/generationBatch";
+import { type BatchFileSelectHandler, type BatchGenerationViewModel, batchRowStatusLabels } from "../types";
+
+function BatchProgress({ batch, onDownload }: { batch: GenerationBatchDto; onDownload: () => void }) {
+  return (
+    <div className="batch-progress" aria-busy={batch.status === "running"}>
+      <p role="status">
+        {batch.status === "running" ? "生成中" : "完了"}: 生成済み {batch.succeeded} 件 / 失敗 {batch.failed} 件 / 全{" "}
+        {batch.total} 件
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">行</th>
+            <th scope="col">テーマ</th>
+            <th scope="col">状態</th>
+            <th scope="col">結果</th>
+          </tr>
+        </thead>
+        <tbody>
+          {batch.rows.map((row) => (
+            <tr key={row.index} data-status={row.status}>
+              <td>{row.index + 1}</td>
+              <td>{row.theme ?? ""}</td>
+              <td>{batchRowStatusLabels[row.status]}</td>
+              <td>{row.status === "failed" ? row.error?.message : (row.caption ?? "")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button type="button" onClick={onDownload}>
+        結果をダウンロード（CSV）
+      </button>
+    </div>
+  );
+}
+
+export type BatchGenerationViewProps = {
+  viewModel: BatchGenerationViewModel;
+  onSelectFile: BatchFileSelectHandler;
+  onUpload: () => Promise<void>;
+  onDownload: () => void;
+};
+
+export function BatchGenerationView({ viewModel, onSelectFile, onUpload, onDownload }: BatchGenerationViewProps) {
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void onUpload();
+  };
+
+  return (
+    <main className="app">
+      <section className="card">
+        <h1>SNS投稿ドラフト一括生成</h1>
+        <form className="form" onSubmit={handleSubmit}>
+          <div className="form-field">
+            <label htmlFor="batch-file">ブリーフのファイル</label>
+            <input
+              id="batch-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(event) => onSelectFile(event.target.files?.[0] ?? null)}
+            />
+            <p className="field-hint">
+              CSVは1行目に theme, brandVoice, product などの列名を書き、1行に1投稿分を記入します。JSONは生成リクエストの配列です。
+            </p>
+          </div>
+          <button type="submit" disabled={!viewModel.canUpload || viewModel.isUploading}>
+            {viewModel.isUploading ? "アップロード中..." : "アップロード"}
+          </button>
+        </form>
+
+        {viewModel.batch && <BatchProgress batch={viewModel.batch} onDownload={onDownload} />}
+        {viewModel.error && (
+          <p role="alert" className="error">
+            {viewModel.error}
+          </p>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,19 @@
+import type { GenerationBatchDto, GenerationBatchRowStatus } from "@/shared/contracts/generationBatch";
+
+export type BatchGenerationViewModel = {
+  /** 選択中のブリーフのファイル名 */
+  fileName: string | null;
+  canUpload: boolean;
+  isUploading: boolean;
+  batch: GenerationBatchDto | null;
+  error: string | null;
+};
+
+export const batchRowStatusLabels: Record<GenerationBatchRowStatus, string> = {
+  queued: "生成待ち",
+  succeeded: "生成済み",
+  failed: "失敗",
+};
+
+/** file が null の場合は選択を解除する */
+export type BatchFileSelectHandler = (file: File | null) => void;
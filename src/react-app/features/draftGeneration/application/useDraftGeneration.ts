@@ -1,71 +1,269 @@
-import { useCallback, useMemo, useState } from "react";
-import type { DraftGenerationRequest, DraftGenerationResponse } from "@/shared/contracts/draft";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  draftDetailResponseSchema,
+  draftGenerationRequestSchema,
+  draftGenerationResponseSchema,
+  draftImageStatusResponseSchema,
+  type DraftGenerationRequest,
+  type DraftImageState,
+} from "@/shared/contracts/draft";
+import {
+  generationPresetListResponseSchema,
+  generationPresetResponseSchema,
+  type CreateGenerationPresetRequest,
+  type GenerationPresetDto,
+} from "@/shared/contracts/generationPreset";
+import { apiErrorResponseSchema, type ApiFieldError } from "@/shared/contracts/error";
+import { formatIssues, type ParseResult, type Schema } from "@/shared/schema";
 import {
   type DraftGenerationViewModel,
+  type FieldErrors,
   type GenerationFormValues,
+  type PresetField,
   initialFormValues,
+  isFormField,
+  validationErrorMessages,
+  withFieldValue,
 } from "../types";
 
-function toRequestPayload(values: GenerationFormValues): DraftGenerationRequest {
-  const trim = (value: string) => value.trim();
-  const optional = (value: string) => {
-    const trimmed = trim(value);
-    return trimmed.length > 0 ? trimmed : undefined;
-  };
+/**
+ * フォームの値の生成リクエストへの変換
+ *
+ * トリムや空の入力欄の省略はワーカーと同じ共有コントラクトのスキーマで行う。
+ */
+function toRequestPayload(values: GenerationFormValues): ParseResult<DraftGenerationRequest> {
+  return draftGenerationRequestSchema.parse({
+    theme: values.theme,
+    brandVoice: values.brandVoice.value,
+    product: values.product,
+    imagePrompt: values.imagePrompt,
+    targetPersona: values.targetPersona.value,
+    platform: values.platform,
+    variants: Number(values.variants) > 1 ? Number(values.variants) : undefined,
+  });
+}
+
+/**
+ * フィールドごとのエラーの入力欄ごとのメッセージへの変換
+ *
+ * @returns 入力欄ごとのメッセージと、入力欄に対応しないエラーが残ったか
+ */
+function toFieldErrors(errors: readonly Partial<ApiFieldError>[]): { fieldErrors: FieldErrors; unmatched: boolean } {
+  const fieldErrors: FieldErrors = {};
+  let unmatched = false;
+  for (const { field, code, message } of errors) {
+    if (field !== undefined && isFormField(field)) {
+      fieldErrors[field] = (code && validationErrorMessages[code]) ?? message;
+    } else {
+      unmatched = true;
+    }
+  }
+  return { fieldErrors, unmatched };
+}
+
+/**
+ * 成功したレスポンスのボディの読み取り
+ *
+ * ワーカーとの仕様の乖離に気づけるよう、共有コントラクトのスキーマに合わないボディはエラーにする。
+ */
+async function readResponse<T>(response: Response, schema: Schema<T>, action: string): Promise<T> {
+  const result = schema.parse(await response.json());
+  if (!result.ok) {
+    throw new Error(`${action}: unexpected response (${formatIssues(result.issues)})`);
+  }
+  return result.value;
+}
+
+/**
+ * 失敗したレスポンスのエラーの読み取り
+ *
+ * 入力欄に対応するフィールドのエラーは入力欄ごとのメッセージにし、
+ * 入力欄に対応しないエラーが残る場合だけバナーに表示するメッセージを返す。
+ * エラーレスポンスの形でないボディはステータスの説明で代替する。
+ */
+async function readErrorResponse(
+  response: Response,
+  action: string
+): Promise<{ message: string | null; fieldErrors: FieldErrors }> {
+  const parsed = apiErrorResponseSchema.parse(await response.json().catch(() => null));
+  const body = parsed.ok ? parsed.value : null;
+  const { fieldErrors, unmatched } = toFieldErrors(body?.error.fields ?? []);
 
+  const hasFieldErrors = Object.keys(fieldErrors).length > 0;
   return {
-    theme: trim(values.theme),
-    brandVoice: trim(values.brandVoice),
-    product: optional(values.product),
-    imagePrompt: optional(values.imagePrompt),
-    targetPersona: optional(values.targetPersona),
+    message: hasFieldErrors && !unmatched ? null : `${action}: ${body?.error.message ?? response.statusText}`,
+    fieldErrors,
   };
 }
 
+function isImagePending(image: DraftImageState | undefined): boolean {
+  return image?.status === "queued" || image?.status === "running";
+}
+
 export function useDraftGeneration(): {
   viewModel: DraftGenerationViewModel;
   handleFieldChange: (field: keyof GenerationFormValues, value: string) => void;
+  selectPreset: (field: PresetField, presetId: string | null) => void;
+  savePreset: (field: PresetField) => Promise<void>;
   submitDraft: (input?: DraftGenerationRequest) => Promise<void>;
+  selectVariant: (index: number) => Promise<void>;
   reset: () => void;
 } {
   const [formValues, setFormValues] = useState<GenerationFormValues>(initialFormValues);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [draft, setDraft] = useState<DraftGenerationViewModel["draft"]>(null);
+  const [presets, setPresets] = useState<GenerationPresetDto[]>([]);
 
   const canSubmit = useMemo(() => {
-    return formValues.theme.trim().length > 0 && formValues.brandVoice.trim().length > 0;
+    return formValues.theme.trim().length > 0 && formValues.brandVoice.value.trim().length > 0;
   }, [formValues.theme, formValues.brandVoice]);
 
+  // 保存済みのブランドトーン・ペルソナのプリセットを読み込む
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPresets = async () => {
+      try {
+        const response = await fetch("/api/v1/presets");
+        if (!response.ok) {
+          throw new Error(`Failed to load presets: ${response.statusText}`);
+        }
+
+        const data = await readResponse(response, generationPresetListResponseSchema, "Failed to load presets");
+        if (!cancelled) setPresets(data.items);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        if (!cancelled) setError(message);
+      }
+    };
+
+    void loadPresets();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const draftId = draft?.id;
+  const imagePending = isImagePending(draft?.image);
+
+  // 画像生成ジョブが完了するまでSSEで状態を追跡する
+  useEffect(() => {
+    if (!draftId || !imagePending || typeof EventSource === "undefined") return;
+
+    const source = new EventSource(`/api/v1/drafts/${encodeURIComponent(draftId)}/image-status/stream`);
+    source.addEventListener("image-status", (event) => {
+      const parsed = draftImageStatusResponseSchema.parse(JSON.parse((event as MessageEvent<string>).data));
+      // 形の合わないイベントは無視し、次のイベントを待つ
+      if (!parsed.ok) return;
+
+      const data = parsed.value;
+      setDraft((prev) => (prev && prev.id === data.draftId ? { ...prev, image: data.image ?? undefined } : prev));
+      if (!isImagePending(data.image ?? undefined)) {
+        source.close();
+      }
+    });
+
+    return () => source.close();
+  }, [draftId, imagePending]);
+
   const handleFieldChange = useCallback(
     (field: keyof GenerationFormValues, value: string) => {
-      setFormValues((prev) => ({ ...prev, [field]: value }));
+      setFormValues((prev) => withFieldValue(prev, field, value));
+      // 書き換えた入力欄のエラーは、次の送信で再検証されるまで表示しない
+      setFieldErrors((prev) => (prev[field] === undefined ? prev : { ...prev, [field]: undefined }));
     },
     []
   );
 
+  // プリセットの選択：未選択（null）に戻した場合は表示中の値を手入力として残す
+  const selectPreset = useCallback(
+    (field: PresetField, presetId: string | null) => {
+      const preset = presets.find((candidate) => candidate.id === presetId && candidate.kind === field);
+      setFormValues((prev) => ({
+        ...prev,
+        [field]: preset
+          ? { source: "preset", presetId: preset.id, value: preset.value }
+          : { source: "custom", value: prev[field].value },
+      }));
+    },
+    [presets]
+  );
+
+  // 手入力の値をプリセットとして保存し、保存したプリセットを選択状態にする
+  const savePreset = useCallback(
+    async (field: PresetField) => {
+      const current = formValues[field];
+      const value = current.value.trim();
+      if (current.source !== "custom" || value.length === 0) return;
+
+      setError(null);
+      try {
+        const payload: CreateGenerationPresetRequest = { kind: field, value };
+        const response = await fetch("/api/v1/presets", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to save preset: ${response.statusText}`);
+        }
+
+        const { preset } = await readResponse(response, generationPresetResponseSchema, "Failed to save preset");
+        setPresets((prev) => [...prev, preset]);
+        // 保存中に入力が変わった場合は、新しい入力を優先する
+        setFormValues((prev) =>
+          prev[field].value === current.value
+            ? { ...prev, [field]: { source: "preset", presetId: preset.id, value: preset.value } }
+            : prev
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        setError(message);
+      }
+    },
+    [formValues]
+  );
+
   const submitDraft = useCallback(
     async (input?: DraftGenerationRequest) => {
       if (isSubmitting) return;
 
-      const payload = input ?? toRequestPayload(formValues);
+      const parsed = input ? { ok: true as const, value: input } : toRequestPayload(formValues);
+      if (!parsed.ok) {
+        // 送信前に見つかった入力の誤りは、ワーカーの422と同じく入力欄ごとに表示する
+        const { fieldErrors: invalid, unmatched } = toFieldErrors(
+          parsed.issues.map(({ path, code, message }) => ({ field: path, code, message }))
+        );
+        setFieldErrors(invalid);
+        setError(unmatched ? formatIssues(parsed.issues) : null);
+        return;
+      }
+      const payload = parsed.value;
 
       setIsSubmitting(true);
       setError(null);
+      setFieldErrors({});
       setDraft(null);
 
       try {
+        // 回線の不調で同じ送信が再送されても、ワーカーが1件のドラフトとして扱えるよう送信ごとにキーを付ける
         const response = await fetch("/api/v1/generate", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", "Idempotency-Key": crypto.randomUUID() },
           body: JSON.stringify(payload),
         });
 
         if (!response.ok) {
-          throw new Error(`Failed to generate draft: ${response.statusText}`);
+          const failure = await readErrorResponse(response, "Failed to generate draft");
+          setFieldErrors(failure.fieldErrors);
+          setError(failure.message);
+          return;
         }
 
-        const data = (await response.json()) as DraftGenerationResponse;
+        const data = await readResponse(response, draftGenerationResponseSchema, "Failed to generate draft");
         setDraft(data.draft);
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unknown error";
@@ -77,9 +275,37 @@ export function useDraftGeneration(): {
     [formValues, isSubmitting]
   );
 
+  // キャプション案の採用：採用後のドラフトで表示中の本文を置き換える
+  const selectVariant = useCallback(
+    async (index: number) => {
+      if (!draftId) return;
+
+      setError(null);
+      try {
+        const response = await fetch(`/api/v1/drafts/${encodeURIComponent(draftId)}/variants/select`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ index }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to select caption variant: ${response.statusText}`);
+        }
+
+        const data = await readResponse(response, draftDetailResponseSchema, "Failed to select caption variant");
+        setDraft((prev) => (prev && prev.id === data.id ? { ...prev, ...data.draft } : prev));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        setError(message);
+      }
+    },
+    [draftId]
+  );
+
   const reset = useCallback(() => {
     setFormValues(initialFormValues);
     setError(null);
+    setFieldErrors({});
     setDraft(null);
   }, []);
 
@@ -89,12 +315,17 @@ export function useDraftGeneration(): {
     isSubmitting,
     draft,
     error,
+    fieldErrors,
+    presets,
   };
 
   return {
     viewModel,
     handleFieldChange,
+    selectPreset,
+    savePreset,
     submitDraft,
+    selectVariant,
     reset,
   };
 }
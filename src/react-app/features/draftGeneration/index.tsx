@@ -2,13 +2,16 @@ import { DraftGenerationView } from "./presentation/DraftGenerationView";
 import { useDraftGeneration } from "./application/useDraftGeneration";
 
 export function DraftGenerationFeature() {
-  const { viewModel, handleFieldChange, submitDraft } = useDraftGeneration();
+  const { viewModel, handleFieldChange, selectPreset, savePreset, submitDraft, selectVariant } = useDraftGeneration();
 
   return (
     <DraftGenerationView
       viewModel={viewModel}
       onFieldChange={handleFieldChange}
+      onSelectPreset={selectPreset}
+      onSavePreset={savePreset}
       onSubmit={submitDraft}
+      onSelectVariant={selectVariant}
     />
   );
 }
@@ -0,0 +1,39 @@
+import type { CaptionVariantDto } from "@/shared/contracts/draft";
+import { Button } from "@components/ui/Button";
+import { type CaptionVariantSelectHandler, captionAngleLabels } from "../types";
+
+export type CaptionVariantListProps = {
+  variants: CaptionVariantDto[];
+  selectedIndex: number;
+  onSelect: CaptionVariantSelectHandler;
+};
+
+export function CaptionVariantList({ variants, selectedIndex, onSelect }: CaptionVariantListProps) {
+  return (
+    <ul className="caption-variants" aria-label="キャプション案">
+      {variants.map((variant, index) => {
+        const selected = index === selectedIndex;
+        const label = captionAngleLabels[variant.angle];
+
+        return (
+          <li key={variant.angle} className="caption-variant" data-selected={selected}>
+            <h3>{label}</h3>
+            <p>{variant.caption}</p>
+            {variant.hashtags.length > 0 && <p>{variant.hashtags.map((tag) => `#${tag}`).join(" ")}</p>}
+            <Button
+              type="button"
+              variant={selected ? "secondary" : "outline"}
+              size="sm"
+              aria-pressed={selected}
+              aria-label={`${label}の案を採用`}
+              disabled={selected}
+              onClick={() => void onSelect(index)}
+            >
+              {selected ? "採用中" : "この案を採用"}
+            </Button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
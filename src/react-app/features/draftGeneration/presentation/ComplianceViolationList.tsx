@@ -0,0 +1,34 @@
+import type { ComplianceViolationDto } from "@/shared/contracts/draft";
+import { complianceFieldLabels, complianceSeverityLabels } from "../types";
+
+export type ComplianceViolationListProps = {
+  violations: ComplianceViolationDto[];
+};
+
+export function ComplianceViolationList({ violations }: ComplianceViolationListProps) {
+  const blocking = violations.some((violation) => violation.severity === "error");
+
+  return (
+    <section className="compliance" aria-label="表現チェック">
+      <h3>表現チェック</h3>
+      {blocking && <p role="alert">要修正の表現を直すまで承認できません</p>}
+      <ul className="compliance-violations">
+        {violations.map((violation) => (
+          <li
+            key={`${violation.field}-${violation.start}-${violation.ruleSetId}-${violation.ruleId}`}
+            className="compliance-violation"
+            data-severity={violation.severity}
+          >
+            <span className="compliance-violation__severity">{complianceSeverityLabels[violation.severity]}</span>
+            <p>
+              {complianceFieldLabels[violation.field]}の「<mark>{violation.text}</mark>」: {violation.message}
+            </p>
+            <p>
+              {violation.suggestion ? `言い換えの例: ${violation.suggestion}` : "削除を推奨"}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
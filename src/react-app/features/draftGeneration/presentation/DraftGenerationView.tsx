@@ -1,5 +1,11 @@
 import type { DraftGenerationRequest } from "@/shared/contracts/draft";
-import type { DraftGenerationViewModel, GenerationFormValues } from "../types";
+import type {
+  CaptionVariantSelectHandler,
+  DraftGenerationViewModel,
+  GenerationFormValues,
+  PresetSaveHandler,
+  PresetSelectHandler,
+} from "../types";
 import { DraftSummaryCard } from "./DraftSummaryCard";
 import { ErrorBanner } from "./ErrorBanner";
 import { GenerationForm } from "./GenerationForm";
@@ -7,23 +13,37 @@ import { GenerationForm } from "./GenerationForm";
 export type DraftGenerationViewProps = {
   viewModel: DraftGenerationViewModel;
   onFieldChange: (field: keyof GenerationFormValues, value: string) => void;
+  onSelectPreset: PresetSelectHandler;
+  onSavePreset: PresetSaveHandler;
   onSubmit: (input: DraftGenerationRequest) => Promise<void>;
+  onSelectVariant: CaptionVariantSelectHandler;
 };
 
-export function DraftGenerationView({ viewModel, onFieldChange, onSubmit }: DraftGenerationViewProps) {
+export function DraftGenerationView({
+  viewModel,
+  onFieldChange,
+  onSelectPreset,
+  onSavePreset,
+  onSubmit,
+  onSelectVariant,
+}: DraftGenerationViewProps) {
   return (
     <main className="app">
       <section className="card">
-        <h1>Instagram投稿ドラフト生成</h1>
+        <h1>SNS投稿ドラフト生成</h1>
         <GenerationForm
           values={viewModel.formValues}
           canSubmit={viewModel.canSubmit}
           isSubmitting={viewModel.isSubmitting}
+          fieldErrors={viewModel.fieldErrors}
+          presets={viewModel.presets}
           onChange={onFieldChange}
+          onSelectPreset={onSelectPreset}
+          onSavePreset={onSavePreset}
           onSubmit={onSubmit}
         />
 
-        {viewModel.draft && <DraftSummaryCard draft={viewModel.draft} />}
+        {viewModel.draft && <DraftSummaryCard draft={viewModel.draft} onSelectVariant={onSelectVariant} />}
         {viewModel.error && <ErrorBanner message={viewModel.error} />}
       </section>
     </main>
@@ -1,19 +1,70 @@
-import type { DraftSummary } from "@/shared/contracts/draft";
+import type { DraftImageState, DraftStatus, DraftSummary } from "@/shared/contracts/draft";
+import { type CaptionVariantSelectHandler, platformLabels } from "../types";
+import { CaptionVariantList } from "./CaptionVariantList";
+import { ComplianceViolationList } from "./ComplianceViolationList";
+
+const statusLabels: Record<DraftStatus, string> = {
+  draft: "下書き",
+  approved: "承認済み",
+  publishing: "投稿処理中",
+  published: "投稿済み",
+  failed: "投稿失敗",
+};
+
+function DraftImagePreview({ image, altText }: { image: DraftImageState; altText: string }) {
+  switch (image.status) {
+    case "queued":
+    case "running":
+      return (
+        <div className="draft-image draft-image--pending" aria-busy="true">
+          画像を生成中...
+        </div>
+      );
+    case "done":
+      return image.url ? <img className="draft-image" src={image.url} alt={altText} /> : null;
+    case "failed":
+      return (
+        <p className="draft-image draft-image--failed" role="alert">
+          画像の生成に失敗しました{image.error ? `: ${image.error}` : ""}
+        </p>
+      );
+  }
+}
 
 export type DraftSummaryCardProps = {
   draft: DraftSummary;
+  onSelectVariant: CaptionVariantSelectHandler;
 };
 
-export function DraftSummaryCard({ draft }: DraftSummaryCardProps) {
+export function DraftSummaryCard({ draft, onSelectVariant }: DraftSummaryCardProps) {
   const formattedHashtags = draft.hashtags.length > 0 ? draft.hashtags.map((tag) => `#${tag}`).join(" ") : null;
 
   return (
     <div role="status" className="success">
       <p>ドラフトID: {draft.id}</p>
       <div className="draft-summary">
+        {draft.image && <DraftImagePreview image={draft.image} altText={draft.altText} />}
         {draft.caption && <p>{draft.caption}</p>}
         {formattedHashtags && <p>{formattedHashtags}</p>}
+        {draft.complianceViolations && draft.complianceViolations.length > 0 && (
+          <ComplianceViolationList violations={draft.complianceViolations} />
+        )}
+        {draft.variants && draft.variants.length > 1 && (
+          <CaptionVariantList
+            variants={draft.variants}
+            selectedIndex={draft.selectedVariant ?? 0}
+            onSelect={onSelectVariant}
+          />
+        )}
         <dl>
+          <div>
+            <dt>ステータス</dt>
+            <dd data-status={draft.status}>{statusLabels[draft.status]}</dd>
+          </div>
+          <div>
+            <dt>投稿先</dt>
+            <dd data-platform={draft.platform}>{platformLabels[draft.platform]}</dd>
+          </div>
           <div>
             <dt>代替テキスト</dt>
             <dd>{draft.altText}</dd>
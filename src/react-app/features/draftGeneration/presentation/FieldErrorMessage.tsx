@@ -0,0 +1,15 @@
+export type FieldErrorMessageProps = {
+  /** 入力欄の aria-describedby から参照するID */
+  id: string;
+  message?: string;
+};
+
+export function FieldErrorMessage({ id, message }: FieldErrorMessageProps) {
+  if (!message) return null;
+
+  return (
+    <p id={id} className="field-error">
+      {message}
+    </p>
+  );
+}
@@ -1,22 +1,52 @@
 import { type FormEvent } from "react";
-import type { DraftGenerationRequest } from "@shared/types/draft";
+import type { DraftGenerationRequest } from "@/shared/contracts/draft";
+import type { GenerationPresetDto } from "@/shared/contracts/generationPreset";
 import { Button } from "@components/ui/Button";
-import type { GenerationFormValues } from "../types";
+import {
+  type FieldErrors,
+  type GenerationFormValues,
+  type PresetSaveHandler,
+  type PresetSelectHandler,
+  platformLabels,
+} from "../types";
+import { FieldErrorMessage } from "./FieldErrorMessage";
+import { PresetInput } from "./PresetInput";
 
 export type GenerationFormProps = {
   values: GenerationFormValues;
   canSubmit: boolean;
   isSubmitting: boolean;
+  /** 送信後にAPIが返した入力欄ごとのエラー */
+  fieldErrors?: FieldErrors;
+  presets: GenerationPresetDto[];
   onChange: (field: keyof GenerationFormValues, value: string) => void;
+  onSelectPreset: PresetSelectHandler;
+  onSavePreset: PresetSaveHandler;
   onSubmit: (input: DraftGenerationRequest) => Promise<void>;
 };
 
+/** エラーのある入力欄をエラーメッセージと関連付ける属性 */
+const errorAttributes = (field: keyof GenerationFormValues, fieldErrors: FieldErrors) =>
+  fieldErrors[field]
+    ? { "aria-invalid": true, "aria-describedby": `${field}-error` }
+    : {};
+
 const asOptional = (value: string): string | undefined => {
   const trimmed = value.trim();
   return trimmed.length > 0 ? trimmed : undefined;
 };
 
-export function GenerationForm({ values, canSubmit, isSubmitting, onChange, onSubmit }: GenerationFormProps) {
+export function GenerationForm({
+  values,
+  canSubmit,
+  isSubmitting,
+  fieldErrors = {},
+  presets,
+  onChange,
+  onSelectPreset,
+  onSavePreset,
+  onSubmit,
+}: GenerationFormProps) {
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!canSubmit || isSubmitting) {
@@ -25,17 +55,37 @@ export function GenerationForm({ values, canSubmit, isSubmitting, onChange, onSu
 
     const payload: DraftGenerationRequest = {
       theme: values.theme.trim(),
-      brandVoice: values.brandVoice.trim(),
+      brandVoice: values.brandVoice.value.trim(),
       product: asOptional(values.product),
       imagePrompt: asOptional(values.imagePrompt),
-      targetPersona: asOptional(values.targetPersona),
+      targetPersona: asOptional(values.targetPersona.value),
+      platform: values.platform,
+      variants: Number(values.variants) > 1 ? Number(values.variants) : undefined,
     };
 
     await onSubmit(payload);
   };
 
   return (
-    <form onSubmit={handleSubmit} className="form" aria-label="instagram post generator">
+    <form onSubmit={handleSubmit} className="form" aria-label="sns post generator">
+      <div className="form-field">
+        <label htmlFor="platform">投稿先</label>
+        <select
+          id="platform"
+          name="platform"
+          value={values.platform}
+          onChange={(event) => onChange("platform", event.target.value)}
+          {...errorAttributes("platform", fieldErrors)}
+        >
+          {Object.entries(platformLabels).map(([platform, label]) => (
+            <option key={platform} value={platform}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <FieldErrorMessage id="platform-error" message={fieldErrors.platform} />
+      </div>
+
       <div className="form-field">
         <label htmlFor="theme">テーマ</label>
         <input
@@ -45,20 +95,22 @@ export function GenerationForm({ values, canSubmit, isSubmitting, onChange, onSu
           onChange={(event) => onChange("theme", event.target.value)}
           placeholder="例: 春の新作スニーカー"
           required
+          {...errorAttributes("theme", fieldErrors)}
         />
+        <FieldErrorMessage id="theme-error" message={fieldErrors.theme} />
       </div>
 
-      <div className="form-field">
-        <label htmlFor="brandVoice">ブランドトーン</label>
-        <input
-          id="brandVoice"
-          name="brandVoice"
-          value={values.brandVoice}
-          onChange={(event) => onChange("brandVoice", event.target.value)}
-          placeholder="例: 爽やかで親しみやすい"
-          required
-        />
-      </div>
+      <PresetInput
+        field="brandVoice"
+        value={values.brandVoice}
+        presets={presets.filter((preset) => preset.kind === "brandVoice")}
+        placeholder="例: 爽やかで親しみやすい"
+        required
+        error={fieldErrors.brandVoice}
+        onChange={(value) => onChange("brandVoice", value)}
+        onSelectPreset={(presetId) => onSelectPreset("brandVoice", presetId)}
+        onSavePreset={() => onSavePreset("brandVoice")}
+      />
 
       <div className="form-field">
         <label htmlFor="product">商品情報</label>
@@ -68,7 +120,9 @@ export function GenerationForm({ values, canSubmit, isSubmitting, onChange, onSu
           value={values.product}
           onChange={(event) => onChange("product", event.target.value)}
           placeholder="例: AirFlex 2025 Edition"
+          {...errorAttributes("product", fieldErrors)}
         />
+        <FieldErrorMessage id="product-error" message={fieldErrors.product} />
       </div>
 
       <div className="form-field">
@@ -80,18 +134,36 @@ export function GenerationForm({ values, canSubmit, isSubmitting, onChange, onSu
           onChange={(event) => onChange("imagePrompt", event.target.value)}
           placeholder="例: 街を歩く若者がスニーカーを見せる"
           rows={3}
+          {...errorAttributes("imagePrompt", fieldErrors)}
         />
+        <FieldErrorMessage id="imagePrompt-error" message={fieldErrors.imagePrompt} />
       </div>
 
+      <PresetInput
+        field="targetPersona"
+        value={values.targetPersona}
+        presets={presets.filter((preset) => preset.kind === "targetPersona")}
+        placeholder="例: 20代のアクティブ層"
+        error={fieldErrors.targetPersona}
+        onChange={(value) => onChange("targetPersona", value)}
+        onSelectPreset={(presetId) => onSelectPreset("targetPersona", presetId)}
+        onSavePreset={() => onSavePreset("targetPersona")}
+      />
+
       <div className="form-field">
-        <label htmlFor="targetPersona">ターゲットペルソナ</label>
-        <input
-          id="targetPersona"
-          name="targetPersona"
-          value={values.targetPersona}
-          onChange={(event) => onChange("targetPersona", event.target.value)}
-          placeholder="例: 20代のアクティブ層"
-        />
+        <label htmlFor="variants">キャプション案の数</label>
+        <select
+          id="variants"
+          name="variants"
+          value={values.variants}
+          onChange={(event) => onChange("variants", event.target.value)}
+          {...errorAttributes("variants", fieldErrors)}
+        >
+          <option value="1">1案</option>
+          <option value="2">2案で比較</option>
+          <option value="3">3案で比較</option>
+        </select>
+        <FieldErrorMessage id="variants-error" message={fieldErrors.variants} />
       </div>
 
       <Button type="submit" disabled={!canSubmit || isSubmitting}>
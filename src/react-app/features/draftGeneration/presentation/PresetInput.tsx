@@ -0,0 +1,75 @@
+import type { GenerationPresetDto } from "@/shared/contracts/generationPreset";
+import { Button } from "@components/ui/Button";
+import { type PresetField, type PresetFieldValue, presetFieldLabels } from "../types";
+import { FieldErrorMessage } from "./FieldErrorMessage";
+
+export type PresetInputProps = {
+  field: PresetField;
+  value: PresetFieldValue;
+  presets: GenerationPresetDto[];
+  placeholder: string;
+  required?: boolean;
+  /** 送信後にAPIが返したこの入力欄のエラー */
+  error?: string;
+  onChange: (value: string) => void;
+  onSelectPreset: (presetId: string | null) => void;
+  onSavePreset: () => Promise<void>;
+};
+
+export function PresetInput({
+  field,
+  value,
+  presets,
+  placeholder,
+  required,
+  error,
+  onChange,
+  onSelectPreset,
+  onSavePreset,
+}: PresetInputProps) {
+  const label = presetFieldLabels[field];
+  const canSave = value.source === "custom" && value.value.trim().length > 0;
+  const errorId = `${field}-error`;
+
+  return (
+    <div className="form-field">
+      <label htmlFor={field}>{label}</label>
+      {presets.length > 0 && (
+        <select
+          aria-label={`${label}のプリセット`}
+          value={value.source === "preset" ? value.presetId : ""}
+          onChange={(event) => onSelectPreset(event.target.value || null)}
+        >
+          <option value="">カスタム</option>
+          {presets.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      )}
+      <input
+        id={field}
+        name={field}
+        value={value.value}
+        onChange={(event) => onChange(event.target.value)}
+        placeholder={placeholder}
+        required={required}
+        aria-invalid={error ? true : undefined}
+        aria-describedby={error ? errorId : undefined}
+      />
+      <FieldErrorMessage id={errorId} message={error} />
+      {canSave && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          aria-label={`${label}をプリセットに保存`}
+          onClick={() => void onSavePreset()}
+        >
+          プリセットに保存
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -3,15 +3,19 @@ import { render, screen } from "@testing-library/react";
 import userEvent from "@testing-library/user-event";
 import { useState } from "react";
 import type { DraftGenerationRequest } from "@/shared/contracts/draft";
+import type { GenerationPresetDto } from "@/shared/contracts/generationPreset";
+import { type GenerationFormValues, withFieldValue } from "../../types";
 import { GenerationForm } from "../GenerationForm";
 
 describe("GenerationForm", () => {
-  const baseValues: DraftGenerationRequest = {
+  const baseValues: GenerationFormValues = {
     theme: "",
-    brandVoice: "",
+    brandVoice: { source: "custom", value: "" },
     product: "",
     imagePrompt: "",
-    targetPersona: "",
+    targetPersona: { source: "custom", value: "" },
+    platform: "instagram",
+    variants: "1",
   };
 
   it("disables submit button until required fields are filled", async () => {
@@ -19,14 +23,17 @@ describe("GenerationForm", () => {
 
     const Harness = () => {
       const [values, setValues] = useState(baseValues);
-      const canSubmit = values.theme.trim().length > 0 && values.brandVoice.trim().length > 0;
+      const canSubmit = values.theme.trim().length > 0 && values.brandVoice.value.trim().length > 0;
 
       return (
         <GenerationForm
           values={values}
           canSubmit={canSubmit}
           isSubmitting={false}
-          onChange={(field, value) => setValues((prev) => ({ ...prev, [field]: value }))}
+          presets={[]}
+          onChange={(field, value) => setValues((prev) => withFieldValue(prev, field, value))}
+          onSelectPreset={() => undefined}
+          onSavePreset={async () => undefined}
           onSubmit={async () => undefined}
         />
       );
@@ -45,18 +52,21 @@ describe("GenerationForm", () => {
 
   it("submits trimmed field values", async () => {
     const user = userEvent.setup();
-    const handleSubmit = vi.fn(async (input: DraftGenerationRequest) => input);
+    const handleSubmit = vi.fn<(input: DraftGenerationRequest) => Promise<void>>(async () => undefined);
 
     const Harness = () => {
       const [values, setValues] = useState(baseValues);
-      const canSubmit = values.theme.trim().length > 0 && values.brandVoice.trim().length > 0;
+      const canSubmit = values.theme.trim().length > 0 && values.brandVoice.value.trim().length > 0;
 
       return (
         <GenerationForm
           values={values}
           canSubmit={canSubmit}
           isSubmitting={false}
-          onChange={(field, value) => setValues((prev) => ({ ...prev, [field]: value }))}
+          presets={[]}
+          onChange={(field, value) => setValues((prev) => withFieldValue(prev, field, value))}
+          onSelectPreset={() => undefined}
+          onSavePreset={async () => undefined}
           onSubmit={handleSubmit}
         />
       );
@@ -69,6 +79,8 @@ describe("GenerationForm", () => {
     await user.type(screen.getByLabelText("商品情報"), " AirFlex 2025 Edition ");
     await user.type(screen.getByLabelText("画像プロンプト"), " 街を歩く若者がスニーカーを見せる ");
     await user.type(screen.getByLabelText("ターゲットペルソナ"), " 20代のアクティブ層 ");
+    await user.selectOptions(screen.getByLabelText("投稿先"), "x");
+    await user.selectOptions(screen.getByLabelText("キャプション案の数"), "3");
 
     await user.click(screen.getByRole("button", { name: "ドラフト生成" }));
 
@@ -78,6 +90,70 @@ describe("GenerationForm", () => {
       product: "AirFlex 2025 Edition",
       imagePrompt: "街を歩く若者がスニーカーを見せる",
       targetPersona: "20代のアクティブ層",
+      platform: "x",
+      variants: 3,
     });
   });
+
+  it("shows field errors next to the matching inputs", () => {
+    render(
+      <GenerationForm
+        values={baseValues}
+        canSubmit={false}
+        isSubmitting={false}
+        fieldErrors={{ brandVoice: "ブランドトーンを入力してください", variants: "キャプション案の数が不正です" }}
+        presets={[]}
+        onChange={() => undefined}
+        onSelectPreset={() => undefined}
+        onSavePreset={async () => undefined}
+        onSubmit={async () => undefined}
+      />
+    );
+
+    expect(screen.getByLabelText("ブランドトーン")).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByLabelText("ブランドトーン")).toHaveAccessibleDescription("ブランドトーンを入力してください");
+    expect(screen.getByLabelText("キャプション案の数")).toHaveAccessibleDescription("キャプション案の数が不正です");
+    expect(screen.getByLabelText("テーマ")).not.toHaveAttribute("aria-invalid");
+    expect(screen.getByLabelText("テーマ")).not.toHaveAccessibleDescription();
+  });
+
+  it("offers saved presets and saving a typed value as a preset", async () => {
+    const user = userEvent.setup();
+    const presets: GenerationPresetDto[] = [
+      { id: "voice-1", kind: "brandVoice", label: "親しみ", value: "親しみやすい", createdAt: "2025-01-01T00:00:00.000Z" },
+      { id: "persona-1", kind: "targetPersona", label: "20代", value: "20代のアクティブ層", createdAt: "2025-01-01T00:00:00.000Z" },
+    ];
+    const handleSelectPreset = vi.fn();
+    const handleSavePreset = vi.fn(async () => undefined);
+
+    const Harness = () => {
+      const [values, setValues] = useState(baseValues);
+
+      return (
+        <GenerationForm
+          values={values}
+          canSubmit={false}
+          isSubmitting={false}
+          presets={presets}
+          onChange={(field, value) => setValues((prev) => withFieldValue(prev, field, value))}
+          onSelectPreset={handleSelectPreset}
+          onSavePreset={handleSavePreset}
+          onSubmit={async () => undefined}
+        />
+      );
+    };
+
+    render(<Harness />);
+
+    const voicePresets = screen.getByLabelText("ブランドトーンのプリセット");
+    expect(screen.getAllByRole("option", { name: "親しみ" })).toHaveLength(1);
+    expect(screen.queryByRole("button", { name: "ブランドトーンをプリセットに保存" })).not.toBeInTheDocument();
+
+    await user.selectOptions(voicePresets, "voice-1");
+    expect(handleSelectPreset).toHaveBeenCalledWith("brandVoice", "voice-1");
+
+    await user.type(screen.getByLabelText("ターゲットペルソナ"), "30代の会社員");
+    await user.click(screen.getByRole("button", { name: "ターゲットペルソナをプリセットに保存" }));
+    expect(handleSavePreset).toHaveBeenCalledWith("targetPersona");
+  });
 });
@@ -1,19 +1,114 @@
-import type { DraftGenerationRequest, DraftSummary } from "@/shared/contracts/draft";
+import type {
+  CaptionAngle,
+  ComplianceSeverity,
+  ComplianceViolationDto,
+  DraftGenerationRequest,
+  DraftSummary,
+  SocialPlatform,
+} from "@/shared/contracts/draft";
+import type { GenerationPresetDto, GenerationPresetKind } from "@/shared/contracts/generationPreset";
+import type { ValidationErrorCode } from "@/shared/contracts/error";
+
+/** プリセットから選べるフィールド */
+export type PresetField = GenerationPresetKind;
+
+/**
+ * プリセットを選んだ値、または手入力の値
+ *
+ * プリセットを選んだ後に入力を書き換えると手入力に切り替わり、プリセット自体は変更しない。
+ */
+export type PresetFieldValue =
+  | { source: "preset"; presetId: string; value: string }
+  | { source: "custom"; value: string };
 
 export type GenerationFormValues = {
   theme: string;
-  brandVoice: string;
+  brandVoice: PresetFieldValue;
   product: string;
   imagePrompt: string;
-  targetPersona: string;
+  targetPersona: PresetFieldValue;
+  platform: SocialPlatform;
+  /** 生成するキャプション案の数（"1" の場合は案を作らない） */
+  variants: string;
 };
 
 export const initialFormValues: GenerationFormValues = {
   theme: "",
-  brandVoice: "",
+  brandVoice: { source: "custom", value: "" },
   product: "",
   imagePrompt: "",
-  targetPersona: "",
+  targetPersona: { source: "custom", value: "" },
+  platform: "instagram",
+  variants: "1",
+};
+
+const presetFields: readonly PresetField[] = ["brandVoice", "targetPersona"];
+
+/**
+ * 入力欄の変更をフォームの値に反映する
+ *
+ * プリセットを選べるフィールドは手入力の値として扱う。
+ */
+export function withFieldValue(
+  values: GenerationFormValues,
+  field: keyof GenerationFormValues,
+  value: string
+): GenerationFormValues {
+  if (presetFields.includes(field as PresetField)) {
+    return { ...values, [field]: { source: "custom", value } };
+  }
+  return { ...values, [field]: value };
+}
+
+export const presetFieldLabels: Record<PresetField, string> = {
+  brandVoice: "ブランドトーン",
+  targetPersona: "ターゲットペルソナ",
+};
+
+export const platformLabels: Record<SocialPlatform, string> = {
+  instagram: "Instagram",
+  x: "X",
+  threads: "Threads",
+  linkedin: "LinkedIn",
+  tiktok: "TikTok",
+};
+
+export const captionAngleLabels: Record<CaptionAngle, string> = {
+  "hook-first": "フック重視",
+  story: "ストーリー",
+  list: "リスト",
+};
+
+export const complianceSeverityLabels: Record<ComplianceSeverity, string> = {
+  error: "要修正",
+  warning: "注意",
+};
+
+export const complianceFieldLabels: Record<ComplianceViolationDto["field"], string> = {
+  caption: "キャプション",
+  hashtags: "ハッシュタグ",
+  altText: "代替テキスト",
+};
+
+/** 入力欄ごとのエラーメッセージ（エラーのない入力欄は含まない） */
+export type FieldErrors = Partial<Record<keyof GenerationFormValues, string>>;
+
+/** APIのエラーが指すフィールドがフォームの入力欄かの判定 */
+export function isFormField(field: string): field is keyof GenerationFormValues {
+  return Object.prototype.hasOwnProperty.call(initialFormValues, field);
+}
+
+/** 入力欄の横に表示する、検証エラーのコードごとのメッセージ */
+export const validationErrorMessages: Record<ValidationErrorCode, string> = {
+  THEME_REQUIRED: "テーマを入力してください",
+  BRAND_VOICE_REQUIRED: "ブランドトーンを入力するか、プリセットを選んでください",
+  PLATFORM_UNSUPPORTED: "対応していない投稿先です",
+  CAPTION_TOO_LONG: "キャプションが投稿先の文字数の上限を超えています",
+  LINKS_NOT_ALLOWED: "この投稿先ではキャプションにリンクを含められません",
+  HASHTAG_LIMIT_EXCEEDED: "ハッシュタグが投稿先の上限数を超えています",
+  HASHTAG_TOO_LONG: "30文字を超えるハッシュタグがあります",
+  ALT_TEXT_TOO_LONG: "代替テキストが投稿先の文字数の上限を超えています",
+  CAPTION_VARIANT_INVALID: "キャプション案の数は1〜3案から選んでください",
 };
 
 export type DraftGenerationViewModel = {
@@ -22,6 +117,15 @@ export type DraftGenerationViewModel = {
   isSubmitting: boolean;
   draft: DraftSummary | null;
   error: string | null;
+  fieldErrors: FieldErrors;
+  presets: GenerationPresetDto[];
 };
 
 export type DraftGenerationSubmitHandler = (input: DraftGenerationRequest) => Promise<void>;
+
+export type CaptionVariantSelectHandler = (index: number) => Promise<void>;
+
+/** presetId が null の場合は手入力に切り替える */
+export type PresetSelectHandler = (field: PresetField, presetId: string | null) => void;
+
+export type PresetSaveHandler = (field: PresetField) => Promise<void>;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { CsvSyntaxError, parseCsv, parseCsvRecords, toCsv } from "../csv";
+
+describe("csv", () => {
+  // 正常系: 引用符内のカンマ・改行・二重引用符とCRLF・LFの改行を読み取り、BOMと空行を読み飛ばすことを検証する
+  it("parses quoted fields and mixed line endings", () => {
+    const text = '\uFEFFtheme,product\r\n"春の新作, スニーカー","AirFlex\n""2025"""\n\nsummer,\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["theme", "product"],
+      ["春の新作, スニーカー", 'AirFlex\n"2025"'],
+      ["summer", ""],
+    ]);
+  });
+
+  // 正常系: 見出しをキーにしたレコードにし、空の見出しの列と空の値を含めないことを検証する
+  it("maps rows to records by header", () => {
+    const text = " theme , brandVoice,\n春の新作,,memo\n夏の新作,爽やか\n";
+
+    expect(parseCsvRecords(text)).toEqual([{ theme: "春の新作" }, { theme: "夏の新作", brandVoice: "爽やか" }]);
+    expect(parseCsvRecords("theme\n")).toEqual([]);
+  });
+
+  // 正常系: 必要なフィールドだけを引用して書き出し、読み戻すと同じ値になることを検証する
+  it("writes fields that round-trip", () => {
+    const rows = [
+      ["theme", "caption"],
+      ["春の新作", 'Say "hi",\nfriends'],
+    ];
+    const csv = toCsv(rows);
+
+    expect(csv).toBe('theme,caption\r\n春の新作,"Say ""hi"",\nfriends"\r\n');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+
+  // 異常系: 閉じられていない引用符と引用符の後の余分な文字を構文エラーにすることを検証する
+  it.each(['theme\n"春の新作', 'theme\n"春の"新作'])("rejects %j", (text) => {
+    expect(() => parseCsv(text)).toThrow(CsvSyntaxError);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import * as s from "../schema";
+import { draftGenerationRequestSchema } from "../contracts/draft";
+
+describe("schema", () => {
+  const schema = s
+    .object({
+      theme: s.text({ code: "THEME_REQUIRED" }),
+      product: s.text().optional(),
+      hashtags: s.array(s.string()).optional(),
+      variants: s.integer({ min: 1, max: 3 }).optional(),
+    })
+    .refine((value) => value.product !== undefined || value.variants === undefined, {
+      path: "variants",
+      message: "variants requires product",
+    });
+
+  // 正常系: 文字列をトリムし、空の任意フィールドと定義されていないキーを結果から除くことを検証する
+  it("normalizes values and drops empty optional fields", () => {
+    const result = schema.parse({ theme: "  春の新作 ", product: " ", unknown: 1 });
+
+    expect(result).toEqual({ ok: true, value: { theme: "春の新作" } });
+  });
+
+  // 異常系: 全ての問題をパス付きのメッセージで返し、必須項目の欠落にだけコードを付けることを検証する
+  it("collects issues with paths and codes", () => {
+    const result = schema.parse({ theme: " ", hashtags: ["ok", 1], variants: 5 });
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: "theme", message: "theme must be a non-empty string", code: "THEME_REQUIRED" },
+        { path: "hashtags[1]", message: "hashtags[1] must be a string" },
+        { path: "variants", message: "variants must be an integer between 1 and 3" },
+      ],
+    });
+    expect(s.formatIssues(result.ok ? [] : result.issues)).toBe(
+      "theme must be a non-empty string; hashtags[1] must be a string; variants must be an integer between 1 and 3"
+    );
+  });
+
+  // 異常系: フィールドをまたぐ規則はフィールドの検証に通った後に確認することを検証する
+  it("checks refinements after the fields are valid", () => {
+    expect(schema.parse({ theme: "春", variants: 2 })).toEqual({
+      ok: false,
+      issues: [{ path: "variants", message: "variants requires product" }],
+    });
+    expect(schema.parse(["not", "an", "object"])).toEqual({
+      ok: false,
+      issues: [{ path: "", message: "Payload must be an object" }],
+    });
+  });
+
+  // 正常系: 別のフィールドが指定されている場合だけ必須項目を省略できることを検証する
+  it("allows a field to be omitted when another field is present", () => {
+    expect(draftGenerationRequestSchema.parse({ theme: "春", brandId: "brand-1" })).toEqual({
+      ok: true,
+      value: { theme: "春", brandId: "brand-1" },
+    });
+    expect(draftGenerationRequestSchema.parse({ theme: "春" })).toMatchObject({
+      ok: false,
+      issues: [{ path: "brandVoice", code: "BRAND_VOICE_REQUIRED" }],
+    });
+  });
+
+  // 正常系: 同じ定義からOpenAPI用のJSON Schemaを作ることを検証する
+  it("converts to JSON Schema", () => {
+    expect(schema.toJSONSchema()).toEqual({
+      type: "object",
+      properties: {
+        theme: { type: "string", minLength: 1 },
+        product: { type: "string", minLength: 1 },
+        hashtags: { type: "array", items: { type: "string" } },
+        variants: { type: "integer", minimum: 1, maximum: 3 },
+      },
+      required: ["theme"],
+    });
+    expect(draftGenerationRequestSchema.toJSONSchema()).toMatchObject({
+      required: ["theme"],
+      anyOf: [{ required: ["brandVoice"] }, { required: ["brandId"] }],
+    });
+  });
+});
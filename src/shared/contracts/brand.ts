@@ -0,0 +1,70 @@
+/**
+ * @fileoverview ブランド管理APIの共有コントラクト型定義
+ *
+ * 管理画面・運用スクリプトとワーカー間のAPI境界を記述します。
+ * ドラフトの生成・参照は X-Brand-ID ヘッダー（生成時はリクエストの brandId でも可）でブランドを指定します。
+ */
+
+import * as s from "../schema";
+
+/**
+ * ブランドを指定するヘッダー名
+ */
+export const BRAND_ID_HEADER = "X-Brand-ID";
+
+/**
+ * ブランド
+ */
+export const brandSchema = s.object({
+  id: s.string(),
+  name: s.string(),
+  voice: s.string().describe("ブランドボイスの説明。生成リクエストで brandVoice を省略した場合に使われる"),
+  defaultHashtags: s.array(s.string()).describe("生成したドラフトに必ず付けるハッシュタグ（先頭の#なし）"),
+  bannedWords: s.array(s.string()).describe("投稿に使わない語句"),
+  defaultPersona: s.string().optional().describe("生成リクエストで targetPersona を省略した場合に使われるペルソナ"),
+  createdAt: s.string({ format: "date-time" }),
+  updatedAt: s.string({ format: "date-time" }).optional().describe("最終更新日時（未編集の場合は省略）"),
+});
+
+export type BrandDto = s.Infer<typeof brandSchema>;
+
+/**
+ * ブランド作成（POST /api/v1/brands）のペイロード
+ * 値の正規化（トリム・重複除去・# の除去）と空文字列のチェックはワーカーのドメインで行う
+ */
+export const createBrandRequestSchema = s.object({
+  name: s.string(),
+  voice: s.string(),
+  defaultHashtags: s.array(s.string()).optional(),
+  bannedWords: s.array(s.string()).optional(),
+  defaultPersona: s.string().optional(),
+});
+
+export type CreateBrandRequest = s.Infer<typeof createBrandRequestSchema>;
+
+/**
+ * ブランド編集（PATCH /api/v1/brands/:id）のペイロード
+ * 指定したフィールドのみ上書きされる
+ */
+export const updateBrandRequestSchema = createBrandRequestSchema.partial();
+
+export type UpdateBrandRequest = s.Infer<typeof updateBrandRequestSchema>;
+
+/**
+ * ブランド単体を返すエンドポイントのHTTPレスポンス形状
+ */
+export const brandResponseSchema = s.object({
+  brand: brandSchema,
+});
+
+export type BrandResponse = s.Infer<typeof brandResponseSchema>;
+
+/**
+ * ブランド一覧（GET /api/v1/brands）のHTTPレスポンス形状
+ * 名前の昇順で並ぶ
+ */
+export const brandListResponseSchema = s.object({
+  items: s.array(brandSchema),
+});
+
+export type BrandListResponse = s.Infer<typeof brandListResponseSchema>;
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview ドラフト生成ワークフローの共有コントラクト型定義
+ *
+ * これらのDTOはフロントエンドとワーカー間のAPI境界を記述します。
+ * 共有モジュールに配置することで、両端の仕様の乖離を防ぎます。
+ * 型はスキーマから導出し、ワーカーはリクエストの検証に、フロントエンドはレスポンスの検証に同じスキーマを使います。
+ */
+
+import * as s from "../schema";
+
+/**
+ * 投稿先プラットフォーム
+ * ワーカードメインのSocialPlatformと一致
+ */
+export const SOCIAL_PLATFORMS = ["instagram", "x", "threads", "linkedin", "tiktok"] as const;
+
+export const socialPlatformSchema = s.enumeration(SOCIAL_PLATFORMS);
+
+export type SocialPlatform = s.Infer<typeof socialPlatformSchema>;
+
+/**
+ * 1回の生成で作れるキャプション案の上限
+ * ワーカードメインのMAX_CAPTION_VARIANTSと一致
+ */
+export const MAX_CAPTION_VARIANT_COUNT = 3;
+
+/**
+ * ドラフト生成エンドポイントが受け取るペイロード
+ * ワーカーワークフローのDraftGenerationInputと対応
+ */
+export const draftGenerationRequestSchema = s
+  .object({
+    theme: s.text({ code: "THEME_REQUIRED" }),
+    brandVoice: s.text({ code: "BRAND_VOICE_REQUIRED" }).describe("ブランドボイス（ブランド指定時は省略でき、ブランドのボイスが使われる）"),
+    brandId: s.text().optional().describe("所属させるブランドのID（X-Brand-ID ヘッダーでも指定できる）"),
+    platform: socialPlatformSchema.optional().describe("投稿先プラットフォーム（未指定時は instagram）"),
+    product: s.text().optional(),
+    imagePrompt: s.text().optional(),
+    targetPersona: s.text().optional(),
+    promptTemplateId: s
+      .text()
+      .optional()
+      .describe("生成に使うプロンプトテンプレートのID（未指定時は生成器の既定プロンプト）"),
+    promptTemplateVersion: s.integer({ min: 1 }).optional().describe("テンプレートのバージョン（未指定時は有効バージョン）"),
+    variants: s
+      .integer({ min: 1, max: MAX_CAPTION_VARIANT_COUNT })
+      .optional()
+      .describe("生成するキャプション案の数（切り口は hook-first・story・list の順）。未指定時は案を作らない"),
+  })
+  .optionalWhen("brandVoice", "brandId")
+  .refine((request) => request.promptTemplateVersion === undefined || request.promptTemplateId !== undefined, {
+    path: "promptTemplateVersion",
+    message: "promptTemplateVersion requires promptTemplateId",
+  });
+
+export type DraftGenerationRequest = s.Infer<typeof draftGenerationRequestSchema>;
+
+/**
+ * キャプションの切り口
+ * ワーカードメインのCaptionAngleと一致
+ */
+export const captionAngleSchema = s.enumeration(["hook-first", "story", "list"]);
+
+export type CaptionAngle = s.Infer<typeof captionAngleSchema>;
+
+/**
+ * コンプライアンス違反の重大度
+ * ワーカードメインのComplianceSeverityと一致
+ */
+export const complianceSeveritySchema = s.enumeration(["warning", "error"]);
+
+export type ComplianceSeverity = s.Infer<typeof complianceSeveritySchema>;
+
+/**
+ * コンプライアンスチェックで検出した違反
+ * ワーカードメインのComplianceViolationと一致
+ */
+export const complianceViolationSchema = s.object({
+  ruleSetId: s.string(),
+  ruleId: s.string(),
+  severity: complianceSeveritySchema.describe("error の違反が残っている間は承認できない"),
+  field: s.enumeration(["caption", "hashtags", "altText"]),
+  start: s
+    .integer({ min: 0 })
+    .describe("該当箇所の位置（ハッシュタグは `#tag1 #tag2` に連結した文字列の添字）"),
+  end: s.integer({ min: 0 }),
+  text: s.string(),
+  message: s.string(),
+  suggestion: s.string().describe("言い換えの提案（空文字列は削除を提案する）"),
+});
+
+export type ComplianceViolationDto = s.Infer<typeof complianceViolationSchema>;
+
+/**
+ * キャプション案
+ */
+export const captionVariantSchema = s.object({
+  angle: captionAngleSchema,
+  caption: s.string(),
+  hashtags: s.array(s.string()),
+  altText: s.string(),
+  complianceViolations: s
+    .array(complianceViolationSchema)
+    .optional()
+    .describe("案のコンプライアンスチェックの結果（チェックしていない場合は省略）"),
+});
+
+export type CaptionVariantDto = s.Infer<typeof captionVariantSchema>;
+
+/**
+ * 生成に使われたプロンプトテンプレートの参照
+ */
+export const promptTemplateReferenceSchema = s.object({
+  id: s.string(),
+  version: s.integer({ min: 1 }),
+});
+
+export type PromptTemplateReference = s.Infer<typeof promptTemplateReferenceSchema>;
+
+/**
+ * ドラフトのライフサイクル状態
+ * ワーカードメインのDraftStatusと一致
+ */
+export const DRAFT_STATUSES = ["draft", "approved", "publishing", "published", "failed"] as const;
+
+export const draftStatusSchema = s.enumeration(DRAFT_STATUSES);
+
+export type DraftStatus = s.Infer<typeof draftStatusSchema>;
+
+/**
+ * 画像生成ジョブの状態
+ * ワーカードメインのDraftImageStatusと一致
+ */
+export const draftImageStatusSchema = s.enumeration(["queued", "running", "done", "failed"]);
+
+export type DraftImageStatus = s.Infer<typeof draftImageStatusSchema>;
+
+/**
+ * ドラフトに紐づく画像生成ジョブの状態
+ */
+export const draftImageStateSchema = s.object({
+  jobId: s.string().optional(),
+  status: draftImageStatusSchema,
+  url: s.string().optional().describe("生成済み画像の取得URL（status が done の場合のみ）"),
+  error: s.string().optional().describe("失敗理由（status が failed の場合のみ）"),
+});
+
+export type DraftImageState = s.Infer<typeof draftImageStateSchema>;
+
+/**
+ * ドラフトの公開結果
+ */
+export const draftPublicationStateSchema = s.object({
+  mediaId: s.string().optional().describe("公開先が発行した投稿ID（公開済みの場合のみ）"),
+  publishedAt: s.string({ format: "date-time" }).optional().describe("公開日時（公開済みの場合のみ）"),
+  error: s.string().optional().describe("直近の公開の失敗理由（status が failed の場合のみ）"),
+});
+
+export type DraftPublicationState = s.Infer<typeof draftPublicationStateSchema>;
+
+/**
+ * ドラフトの予約投稿の設定
+ */
+export const draftScheduleStateSchema = s.object({
+  scheduledAt: s.string({ format: "date-time" }).describe("予約日時（UTCのISO 8601）"),
+  timezone: s.string().describe("予約したタイムゾーン（IANA名）"),
+  dispatchedAt: s.string({ format: "date-time" }).optional().describe("公開キューへ投入した日時（投入前は省略）"),
+});
+
+export type DraftScheduleState = s.Infer<typeof draftScheduleStateSchema>;
+
+/**
+ * バックエンドから返される生成されたドラフトの概要
+ * ワーカーユースケースのCreateDraftResultと一致
+ */
+export const draftSummarySchema = s.object({
+  id: s.string(),
+  brandId: s.string().optional().describe("所属するブランドのID（ブランドを指定せずに作成した場合は省略）"),
+  status: draftStatusSchema,
+  platform: socialPlatformSchema,
+  caption: s.string(),
+  hashtags: s.array(s.string()),
+  altText: s.string(),
+  createdAt: s.string({ format: "date-time" }),
+  image: draftImageStateSchema.optional().describe("画像生成ジョブの状態（ジョブ未投入の場合は省略）"),
+  variants: s.array(captionVariantSchema).optional().describe("キャプション案（案を生成しなかった場合は省略）"),
+  selectedVariant: s.integer({ min: 0 }).optional().describe("採用中の案の番号（variants の添字）"),
+  publication: draftPublicationStateSchema.optional().describe("公開結果（公開を試みていない場合は省略）"),
+  schedule: draftScheduleStateSchema.optional().describe("予約投稿の設定（予約していない場合は省略）"),
+  complianceViolations: s
+    .array(complianceViolationSchema)
+    .optional()
+    .describe("現在の本文のコンプライアンスチェックの結果（チェックしていない場合は省略）"),
+});
+
+export type DraftSummary = s.Infer<typeof draftSummarySchema>;
+
+/**
+ * ドラフト生成エンドポイントのHTTPレスポンス形状
+ */
+export const draftGenerationResponseSchema = s.object({
+  id: s.string(),
+  draft: draftSummarySchema,
+});
+
+export type DraftGenerationResponse = s.Infer<typeof draftGenerationResponseSchema>;
+
+/**
+ * 保存済みドラフトの詳細
+ * 生成時の入力パラメータと生成結果の両方を含む
+ */
+export const draftDetailSchema = draftSummarySchema.extend({
+  theme: s.string(),
+  brandVoice: s.string(),
+  product: s.string().optional(),
+  imagePrompt: s.string().optional(),
+  targetPersona: s.string().optional(),
+  updatedAt: s.string({ format: "date-time" }).optional().describe("最終更新日時（未編集の場合は省略）"),
+  version: s.integer({ min: 1 }).describe("楽観的排他制御用のバージョン番号。ETagとしても返却される"),
+  promptTemplate: promptTemplateReferenceSchema
+    .optional()
+    .describe("生成に使われたプロンプトテンプレート（既定プロンプトの場合は省略）"),
+});
+
+export type DraftDetail = s.Infer<typeof draftDetailSchema>;
+
+/**
+ * ドラフト取得エンドポイント（GET /api/v1/drafts/:id）のHTTPレスポンス形状
+ */
+export const draftDetailResponseSchema = s.object({
+  id: s.string(),
+  draft: draftDetailSchema,
+});
+
+export type DraftDetailResponse = s.Infer<typeof draftDetailResponseSchema>;
+
+/**
+ * ドラフト編集エンドポイント（PATCH /api/v1/drafts/:id）が受け取るペイロード
+ * 指定したフィールドのみ上書きされる。If-Matchヘッダーで編集元のバージョンを指定する。
+ * 値の正規化と不変条件（必須項目・プラットフォームのルール）はワーカーのドメインで検証する
+ */
+export const draftUpdateRequestSchema = s
+  .object({
+    theme: s.string().optional(),
+    brandVoice: s.string().optional(),
+    platform: socialPlatformSchema.optional(),
+    product: s.string().optional(),
+    imagePrompt: s.string().optional(),
+    targetPersona: s.string().optional(),
+    caption: s.string().optional(),
+    hashtags: s.array(s.string()).optional(),
+    altText: s.string().optional(),
+  })
+  .refine((request) => Object.keys(request).length > 0, {
+    path: "",
+    message: "Payload must contain at least one editable field",
+  });
+
+export type DraftUpdateRequest = s.Infer<typeof draftUpdateRequestSchema>;
+
+/**
+ * キャプション案採用エンドポイント（POST /api/v1/drafts/:id/variants/select）が受け取るペイロード
+ */
+export const selectCaptionVariantRequestSchema = s.object({
+  index: s.integer({ min: 0 }),
+});
+
+export type SelectCaptionVariantRequest = s.Infer<typeof selectCaptionVariantRequestSchema>;
+
+/**
+ * 予約設定エンドポイント（PUT /api/v1/drafts/:id/schedule）が受け取るペイロード
+ * 予約済みの場合は日時を置き換える。取り消しは DELETE /api/v1/drafts/:id/schedule。
+ * どちらもIf-Matchヘッダーで確認したバージョンを指定できる
+ */
+export const draftScheduleRequestSchema = s.object({
+  scheduledAt: s
+    .text()
+    .describe("オフセット付きのISO 8601（例: 2025-03-01T09:00:00+09:00）、またはtimezoneの壁時計時刻（例: 2025-03-01T09:00）"),
+  timezone: s.text().describe("IANAタイムゾーン名（例: Asia/Tokyo）"),
+});
+
+export type DraftScheduleRequest = s.Infer<typeof draftScheduleRequestSchema>;
+
+/**
+ * ドラフト一覧の1ページあたりの件数の上限
+ * ワーカーユースケースのMAX_DRAFT_PAGE_SIZEと一致
+ */
+export const MAX_DRAFT_LIST_LIMIT = 100;
+
+/**
+ * ドラフト一覧エンドポイント（GET /api/v1/drafts）のクエリパラメータ
+ * 作成日時はUTCのISO 8601に正規化する
+ */
+export const draftListQuerySchema = s.object({
+  status: draftStatusSchema.optional(),
+  theme: s.text().optional().describe("テーマの部分一致"),
+  brandVoice: s.text().optional().describe("ブランドボイスの部分一致"),
+  createdFrom: s.dateTime().optional().describe("作成日時の下限（ISO 8601）"),
+  createdTo: s.dateTime().optional().describe("作成日時の上限（ISO 8601）"),
+  limit: s
+    .integer({ min: 1, max: MAX_DRAFT_LIST_LIMIT, coerce: true })
+    .optional()
+    .describe("1ページあたりの件数（既定20）"),
+  cursor: s.text().optional().describe("前ページのレスポンスで返されたnextCursor"),
+});
+
+export type DraftListQuery = s.Infer<typeof draftListQuerySchema>;
+
+/**
+ * ドラフト一覧エンドポイントのHTTPレスポンス形状
+ * 作成日時の降順で並ぶ。続きがない場合nextCursorはnull
+ */
+export const draftListResponseSchema = s.object({
+  items: s.array(draftDetailSchema),
+  nextCursor: s.string().nullable(),
+});
+
+export type DraftListResponse = s.Infer<typeof draftListResponseSchema>;
+
+/**
+ * 画像ジョブ状態エンドポイント（GET /api/v1/drafts/:id/image-status）のHTTPレスポンス形状
+ * SSEストリーム（/image-status/stream）の image-status イベントのデータも同じ形状
+ */
+export const draftImageStatusResponseSchema = s.object({
+  draftId: s.string(),
+  image: draftImageStateSchema.nullable(),
+});
+
+export type DraftImageStatusResponse = s.Infer<typeof draftImageStatusResponseSchema>;
@@ -0,0 +1,72 @@
+/**
+ * @fileoverview エラーレスポンスの共有コントラクト型定義
+ *
+ * APIが返すエラーレスポンスの形と、クライアントが分岐に使うエラーコードを定義します。
+ */
+
+import * as s from "../schema";
+
+/**
+ * 入力値の検証エラーのコード
+ * ワーカードメインのDomainValidationErrorCodeと一致
+ */
+export const VALIDATION_ERROR_CODES = [
+  "THEME_REQUIRED",
+  "BRAND_VOICE_REQUIRED",
+  "PLATFORM_UNSUPPORTED",
+  "CAPTION_TOO_LONG",
+  "LINKS_NOT_ALLOWED",
+  "HASHTAG_LIMIT_EXCEEDED",
+  "HASHTAG_TOO_LONG",
+  "ALT_TEXT_TOO_LONG",
+  "CAPTION_VARIANT_INVALID",
+] as const;
+
+export type ValidationErrorCode = (typeof VALIDATION_ERROR_CODES)[number];
+
+/**
+ * APIのエラーコード
+ *
+ * - 422: ValidationErrorCode
+ * - 409: 現在の状態では実行できない操作（ワーカードメインのDomainErrorCodeと一致）
+ * - 503: 保存先・キューの障害（ワーカーのInfrastructureErrorCodeと一致）
+ * - 500: INTERNAL_ERROR
+ */
+export type ApiErrorCode =
+  | ValidationErrorCode
+  | "DRAFT_TRANSITION_INVALID"
+  | "DRAFT_NOT_EDITABLE"
+  | "COMPLIANCE_VIOLATION_BLOCKING"
+  | "STORAGE_UNAVAILABLE"
+  | "QUEUE_UNAVAILABLE"
+  | "INTERNAL_ERROR";
+
+/**
+ * フィールド単位のエラー
+ */
+export const apiFieldErrorSchema = s.object({
+  field: s.string().describe("リクエストのフィールド名（例: theme, hashtags）"),
+  code: s.enumeration(VALIDATION_ERROR_CODES),
+  message: s.string(),
+});
+
+export type ApiFieldError = s.Infer<typeof apiFieldErrorSchema>;
+
+/**
+ * エラーレスポンス
+ *
+ * 422 の場合は fields にフィールドごとのエラーを含む。
+ * リクエストの形式の誤り（400）や存在しないリソース（404）などはコードを持たず、message のみ。
+ */
+export const apiErrorResponseSchema = s.object({
+  error: s.object({
+    message: s.string(),
+    code: s
+      .string()
+      .optional()
+      .describe("ApiErrorCode、または署名検証（signature_*）・公開（rate_limited など）のエラーコード"),
+    fields: s.array(apiFieldErrorSchema).optional(),
+  }),
+});
+
+export type ApiErrorResponse = s.Infer<typeof apiErrorResponseSchema>;
@@ -0,0 +1,93 @@
+/**
+ * @fileoverview 一括生成APIの共有コントラクト型定義
+ *
+ * スプレッドシートのブリーフから複数のドラフトをまとめて生成するバッチについて、
+ * フロントエンドとワーカー間のAPI境界を記述します。
+ * バッチは作成したリクエストの X-Brand-ID のブランドに属し、同じブランドのリクエストからだけ参照できます。
+ */
+
+import * as s from "../schema";
+import { draftGenerationRequestSchema } from "./draft";
+import { apiErrorResponseSchema } from "./error";
+
+/**
+ * 1つのバッチに含められる行の上限
+ * ワーカードメインのMAX_GENERATION_BATCH_ROWSと一致
+ */
+export const MAX_GENERATION_BATCH_ROWS = 100;
+
+/**
+ * CSVでアップロードする場合のContent-Type
+ *
+ * 1行目の見出しに DraftGenerationRequest のフィールド名（theme, brandVoice, product など）を書く。
+ * 空のセルは未指定として扱い、知らない列は無視する。
+ */
+export const GENERATION_BATCH_CSV_CONTENT_TYPE = "text/csv";
+
+/**
+ * 一括生成（POST /api/v1/generate/batch）のJSONペイロード
+ *
+ * 行ごとに検証し、不正な行は他の行を止めずに failed として記録する。
+ * 配列でない場合・行がない場合・上限を超える場合のみリクエスト全体を拒否する。
+ */
+export const generationBatchRequestSchema = s
+  .array(draftGenerationRequestSchema)
+  .describe(`生成リクエストの配列（${MAX_GENERATION_BATCH_ROWS}件まで）`);
+
+export type GenerationBatchRequest = s.Infer<typeof generationBatchRequestSchema>;
+
+/**
+ * バッチの行の状態
+ * ワーカードメインのGenerationBatchRowStatusと一致
+ */
+export const generationBatchRowStatusSchema = s.enumeration(["queued", "succeeded", "failed"]);
+
+export type GenerationBatchRowStatus = s.Infer<typeof generationBatchRowStatusSchema>;
+
+/**
+ * バッチの状態（全ての行が succeeded か failed になると completed）
+ */
+export const generationBatchStatusSchema = s.enumeration(["running", "completed"]);
+
+export type GenerationBatchStatus = s.Infer<typeof generationBatchStatusSchema>;
+
+/**
+ * バッチの行ごとの結果
+ */
+export const generationBatchRowSchema = s.object({
+  index: s.integer({ min: 0 }).describe("アップロードした行の番号（0始まり、CSVの見出し行は含めない）"),
+  theme: s.string().optional().describe("行のテーマ（指定されていない場合は省略）"),
+  status: generationBatchRowStatusSchema,
+  draftId: s.string().optional().describe("作成する（作成した）ドラフトのID（検証に失敗した行は省略）"),
+  caption: s.string().optional().describe("生成したキャプション（succeeded の場合のみ）"),
+  hashtags: s.array(s.string()).optional().describe("生成したハッシュタグ（succeeded の場合のみ）"),
+  error: apiErrorResponseSchema.shape.error.optional().describe("失敗理由（failed の場合のみ）"),
+  completedAt: s.string({ format: "date-time" }).optional(),
+});
+
+export type GenerationBatchRow = s.Infer<typeof generationBatchRowSchema>;
+
+/**
+ * バッチの進捗
+ */
+export const generationBatchSchema = s.object({
+  id: s.string(),
+  status: generationBatchStatusSchema,
+  total: s.integer({ min: 0 }),
+  succeeded: s.integer({ min: 0 }),
+  failed: s.integer({ min: 0 }),
+  createdAt: s.string({ format: "date-time" }),
+  completedAt: s.string({ format: "date-time" }).optional().describe("最後の行が終わった日時（completed の場合のみ）"),
+  rows: s.array(generationBatchRowSchema).describe("行の番号順"),
+});
+
+export type GenerationBatchDto = s.Infer<typeof generationBatchSchema>;
+
+/**
+ * 一括生成・バッチの進捗（GET /api/v1/generate/batch/:id）のHTTPレスポンス形状
+ */
+export const generationBatchResponseSchema = s.object({
+  batch: generationBatchSchema,
+});
+
+export type GenerationBatchResponse = s.Infer<typeof generationBatchResponseSchema>;
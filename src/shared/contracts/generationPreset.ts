@@ -0,0 +1,70 @@
+/**
+ * @fileoverview 生成プリセットAPIの共有コントラクト型定義
+ *
+ * 生成フォームで選ぶブランドトーン・ターゲットペルソナのプリセットについて、
+ * フロントエンドとワーカー間のAPI境界を記述します。
+ * プリセットは保存したリクエストの X-Brand-ID のブランドに属し、同じブランドの一覧にだけ含まれます。
+ */
+
+import * as s from "../schema";
+
+/**
+ * プリセットを適用する生成リクエストのフィールド
+ * ワーカードメインのGenerationPresetKindと一致
+ */
+export const generationPresetKindSchema = s.enumeration(["brandVoice", "targetPersona"]);
+
+export type GenerationPresetKind = s.Infer<typeof generationPresetKindSchema>;
+
+/**
+ * 生成プリセット
+ */
+export const generationPresetSchema = s.object({
+  id: s.string(),
+  kind: generationPresetKindSchema,
+  label: s.string().describe("選択肢に表示する名前"),
+  value: s.string().describe("生成リクエストのフィールドに入れる値"),
+  createdAt: s.string({ format: "date-time" }),
+});
+
+export type GenerationPresetDto = s.Infer<typeof generationPresetSchema>;
+
+/**
+ * プリセット保存（POST /api/v1/presets）のペイロード
+ * 空の値や長さの上限はワーカーのドメインで検証する
+ */
+export const createGenerationPresetRequestSchema = s.object({
+  kind: generationPresetKindSchema,
+  label: s.string().optional().describe("省略した場合は値をそのまま名前にする"),
+  value: s.string(),
+});
+
+export type CreateGenerationPresetRequest = s.Infer<typeof createGenerationPresetRequestSchema>;
+
+/**
+ * プリセット一覧（GET /api/v1/presets）のクエリパラメータ
+ */
+export const generationPresetListQuerySchema = s.object({
+  kind: generationPresetKindSchema.optional().describe("指定した種類のプリセットだけを返す"),
+});
+
+export type GenerationPresetListQuery = s.Infer<typeof generationPresetListQuerySchema>;
+
+/**
+ * プリセット単体を返すエンドポイントのHTTPレスポンス形状
+ */
+export const generationPresetResponseSchema = s.object({
+  preset: generationPresetSchema,
+});
+
+export type GenerationPresetResponse = s.Infer<typeof generationPresetResponseSchema>;
+
+/**
+ * プリセット一覧（GET /api/v1/presets）のHTTPレスポンス形状
+ * 種類ごとに名前の昇順で並ぶ
+ */
+export const generationPresetListResponseSchema = s.object({
+  items: s.array(generationPresetSchema),
+});
+
+export type GenerationPresetListResponse = s.Infer<typeof generationPresetListResponseSchema>;
@@ -0,0 +1,88 @@
+/**
+ * @fileoverview 投稿ワークフロー（SnsPostWorkflow）の共有コントラクト型定義
+ *
+ * 生成・保存・画像生成・レビュー待ちをステップごとに再試行する永続ワークフローの
+ * 開始・状態確認・レビュー判断送信エンドポイントのDTOを定義します。
+ */
+
+import * as s from "../schema";
+import { draftGenerationRequestSchema, draftSummarySchema } from "./draft";
+import { reviewDecisionRequestSchema } from "./review";
+
+/**
+ * 投稿ワークフロー開始エンドポイント（POST /api/v1/post-workflows）が受け取るペイロード
+ */
+export const postWorkflowStartRequestSchema = draftGenerationRequestSchema.extend({
+  awaitReview: s
+    .boolean()
+    .optional()
+    .describe("trueの場合、ドラフト作成後にレビュー判断（POST /api/v1/post-workflows/:id/review）を待つ"),
+});
+
+export type PostWorkflowStartRequest = s.Infer<typeof postWorkflowStartRequestSchema>;
+
+/**
+ * ワークフローインスタンスの状態
+ * Cloudflare Workflows の InstanceStatus と一致
+ */
+export const postWorkflowStatusSchema = s.enumeration([
+  "queued",
+  "running",
+  "paused",
+  "errored",
+  "terminated",
+  "complete",
+  "waiting",
+  "waitingForPause",
+  "unknown",
+]);
+
+export type PostWorkflowStatus = s.Infer<typeof postWorkflowStatusSchema>;
+
+/**
+ * レビュー待ちの結果（ReviewResolution に timed_out・blocked を加えたもの）
+ *
+ * - accepted / rework: 期限内に届いた判断をドラフトに反映した
+ * - timed_out: 期限内に判断が届かなかった（ドラフトは draft のまま）
+ * - blocked: 承認の判断が届いたが、修正が必要なコンプライアンス違反が残っていた（ドラフトは draft のまま）
+ */
+export const postWorkflowReviewOutcomeSchema = s.enumeration(["accepted", "rework", "timed_out", "blocked"]);
+
+export type PostWorkflowReviewOutcome = s.Infer<typeof postWorkflowReviewOutcomeSchema>;
+
+/**
+ * 完了したワークフローの出力
+ */
+export const postWorkflowOutputSchema = s.object({
+  draft: draftSummarySchema.describe("最後のステップ完了時点のドラフト"),
+  review: postWorkflowReviewOutcomeSchema.optional().describe("レビュー待ちの結果（レビューを待たなかった場合は省略）"),
+});
+
+export type PostWorkflowOutput = s.Infer<typeof postWorkflowOutputSchema>;
+
+/**
+ * 開始・状態確認エンドポイントのHTTPレスポンス形状
+ */
+export const postWorkflowInstanceResponseSchema = s.object({
+  instanceId: s.string(),
+  status: postWorkflowStatusSchema,
+  error: s.string().optional().describe("errored の場合の失敗理由"),
+  output: postWorkflowOutputSchema.optional().describe("complete の場合の出力"),
+});
+
+export type PostWorkflowInstanceResponse = s.Infer<typeof postWorkflowInstanceResponseSchema>;
+
+/**
+ * レビュー判断送信エンドポイント（POST /api/v1/post-workflows/:id/review）が受け取るペイロード
+ * ワークフローのステップ内で不正な判断を再試行し続けないよう、差し戻し（rework）の必須コメントもここで検証する
+ */
+export const postWorkflowReviewRequestSchema = reviewDecisionRequestSchema
+  .extend({
+    decision: s.enumeration(["approve", "rework"]),
+  })
+  .refine((request) => request.decision !== "rework" || Boolean(request.comments?.trim()), {
+    path: "comments",
+    message: "comments are required when requesting rework",
+  });
+
+export type PostWorkflowReviewRequest = s.Infer<typeof postWorkflowReviewRequestSchema>;
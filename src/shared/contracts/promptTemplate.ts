@@ -0,0 +1,83 @@
+/**
+ * @fileoverview プロンプトテンプレート管理APIの共有コントラクト型定義
+ *
+ * 管理画面・運用スクリプトとワーカー間のAPI境界を記述します。
+ * テンプレート本文では {theme}・{brandVoice}・{product}・{targetPersona} を差し込めます。
+ */
+
+import * as s from "../schema";
+
+/**
+ * テンプレートの1バージョン
+ */
+export const promptTemplateVersionSchema = s.object({
+  templateId: s.string(),
+  version: s.integer({ min: 1 }),
+  body: s.string(),
+  description: s.string().optional(),
+  createdAt: s.string({ format: "date-time" }),
+});
+
+export type PromptTemplateVersionDto = s.Infer<typeof promptTemplateVersionSchema>;
+
+/**
+ * テンプレートの概要
+ */
+export const promptTemplateSummarySchema = s.object({
+  id: s.string(),
+  activeVersion: s.integer({ min: 1 }),
+  latestVersion: s.integer({ min: 1 }),
+  canRollback: s.boolean().describe("ロールバックで戻せる有効バージョンがあるか"),
+  createdAt: s.string({ format: "date-time" }),
+  updatedAt: s.string({ format: "date-time" }),
+});
+
+export type PromptTemplateSummary = s.Infer<typeof promptTemplateSummarySchema>;
+
+/**
+ * テンプレートの詳細（全バージョンを含む）
+ */
+export const promptTemplateDetailSchema = promptTemplateSummarySchema.extend({
+  versions: s.array(promptTemplateVersionSchema),
+});
+
+export type PromptTemplateDetail = s.Infer<typeof promptTemplateDetailSchema>;
+
+/**
+ * バージョン作成（POST /api/v1/admin/prompt-templates/:id/versions）のペイロード
+ * テンプレートが存在しない場合は作成し、バージョン1を有効にする
+ */
+export const createPromptTemplateVersionRequestSchema = s.object({
+  body: s.string(),
+  description: s.string().optional(),
+  activate: s.boolean().optional().describe("trueの場合、作成したバージョンを即座に有効にする"),
+});
+
+export type CreatePromptTemplateVersionRequest = s.Infer<typeof createPromptTemplateVersionRequestSchema>;
+
+/**
+ * バージョン有効化（POST /api/v1/admin/prompt-templates/:id/activate）のペイロード
+ */
+export const activatePromptTemplateRequestSchema = s.object({
+  version: s.integer({ min: 1 }),
+});
+
+export type ActivatePromptTemplateRequest = s.Infer<typeof activatePromptTemplateRequestSchema>;
+
+/**
+ * テンプレート単体を返すエンドポイントのHTTPレスポンス形状
+ */
+export const promptTemplateResponseSchema = s.object({
+  template: promptTemplateDetailSchema,
+});
+
+export type PromptTemplateResponse = s.Infer<typeof promptTemplateResponseSchema>;
+
+/**
+ * テンプレート一覧（GET /api/v1/admin/prompt-templates）のHTTPレスポンス形状
+ */
+export const promptTemplateListResponseSchema = s.object({
+  items: s.array(promptTemplateSummarySchema),
+});
+
+export type PromptTemplateListResponse = s.Infer<typeof promptTemplateListResponseSchema>;
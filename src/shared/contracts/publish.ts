@@ -0,0 +1,59 @@
+/**
+ * @fileoverview ドラフト公開の共有コントラクト型定義
+ *
+ * 公開エンドポイントと公開ログエンドポイントのDTOを定義します。
+ */
+
+import * as s from "../schema";
+import { draftDetailSchema, draftPublicationStateSchema, draftStatusSchema } from "./draft";
+
+/**
+ * 公開失敗の分類
+ * ワーカーユースケースのPublishErrorCodeと一致
+ */
+export const publishErrorCodeSchema = s.enumeration(["rate_limited", "rejected", "unavailable"]);
+
+export type PublishErrorCode = s.Infer<typeof publishErrorCodeSchema>;
+
+/**
+ * 公開の試行記録
+ */
+export const publishLogSchema = s.object({
+  id: s.string(),
+  draftId: s.string(),
+  publisher: s.string().describe("公開に使ったPublisherの識別名（例: meta-graph）"),
+  outcome: s.enumeration(["published", "failed"]),
+  mediaId: s.string().optional().describe("公開先が発行した投稿ID（outcome が published の場合のみ）"),
+  errorCode: publishErrorCodeSchema.optional().describe("失敗の分類（outcome が failed の場合のみ）"),
+  errorMessage: s.string().optional(),
+  draftVersion: s.integer({ min: 1 }).describe("公開を試みたドラフトのバージョン"),
+  attemptedAt: s.string({ format: "date-time" }),
+});
+
+export type PublishLogDto = s.Infer<typeof publishLogSchema>;
+
+/**
+ * 公開エンドポイント（POST /api/v1/drafts/:id/publish）のHTTPレスポンス形状
+ * If-Matchヘッダーで公開を確認したバージョンを指定できる。
+ * 投稿先が公開を受け付けなかった場合は、レート制限なら429（Retry-Afterヘッダー付き）、
+ * それ以外は502で error.code に PublishErrorCode を返す
+ */
+export const publishDraftResponseSchema = s.object({
+  draft: draftDetailSchema,
+  attempt: publishLogSchema,
+});
+
+export type PublishDraftResponse = s.Infer<typeof publishDraftResponseSchema>;
+
+/**
+ * 公開ログエンドポイント（GET /api/v1/drafts/:id/publish-logs）のHTTPレスポンス形状
+ * 試行日時の昇順に並ぶ
+ */
+export const publishLogListResponseSchema = s.object({
+  draftId: s.string(),
+  status: draftStatusSchema.describe("ドラフトの現在の状態"),
+  publication: draftPublicationStateSchema.optional().describe("直近の公開結果（公開を試みていない場合は省略）"),
+  items: s.array(publishLogSchema),
+});
+
+export type PublishLogListResponse = s.Infer<typeof publishLogListResponseSchema>;
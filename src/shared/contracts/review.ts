@@ -0,0 +1,67 @@
+/**
+ * @fileoverview ドラフトレビューの共有コントラクト型定義
+ *
+ * 承認・差し戻しエンドポイントとレビュー履歴エンドポイントのDTOを定義します。
+ */
+
+import * as s from "../schema";
+import { draftDetailSchema, draftStatusSchema } from "./draft";
+
+/**
+ * レビューの判断
+ * ワーカードメインのReviewResolutionと一致
+ */
+export const reviewResolutionSchema = s.enumeration(["accepted", "rework"]);
+
+export type ReviewResolution = s.Infer<typeof reviewResolutionSchema>;
+
+/**
+ * 承認（POST /api/v1/drafts/:id/review/approve）・
+ * 差し戻し（POST /api/v1/drafts/:id/review/rework）が受け取るペイロード
+ * 差し戻しではcommentsが必須（ワーカーのドメインで検証する）。If-Matchヘッダーでレビューしたバージョンを指定できる
+ */
+export const reviewDecisionRequestSchema = s.object({
+  reviewerId: s.text(),
+  comments: s.string().optional(),
+  tags: s.array(s.string()).optional().describe("指摘の分類（例: tone, cta）"),
+});
+
+export type ReviewDecisionRequest = s.Infer<typeof reviewDecisionRequestSchema>;
+
+/**
+ * 記録されたレビューフィードバック
+ */
+export const reviewFeedbackSchema = s.object({
+  id: s.string(),
+  draftId: s.string(),
+  reviewerId: s.string(),
+  comments: s.string().optional(),
+  tags: s.array(s.string()),
+  resolution: reviewResolutionSchema,
+  draftVersion: s.integer({ min: 1 }).describe("判断の対象になったドラフトのバージョン"),
+  createdAt: s.string({ format: "date-time" }),
+});
+
+export type ReviewFeedbackDto = s.Infer<typeof reviewFeedbackSchema>;
+
+/**
+ * 承認・差し戻しエンドポイントのHTTPレスポンス形状
+ */
+export const reviewDecisionResponseSchema = s.object({
+  draft: draftDetailSchema,
+  feedback: reviewFeedbackSchema,
+});
+
+export type ReviewDecisionResponse = s.Infer<typeof reviewDecisionResponseSchema>;
+
+/**
+ * レビュー履歴エンドポイント（GET /api/v1/drafts/:id/reviews）のHTTPレスポンス形状
+ * 記録日時の昇順に並ぶ
+ */
+export const reviewHistoryResponseSchema = s.object({
+  draftId: s.string(),
+  status: draftStatusSchema.describe("ドラフトの現在の状態"),
+  items: s.array(reviewFeedbackSchema),
+});
+
+export type ReviewHistoryResponse = s.Infer<typeof reviewHistoryResponseSchema>;
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview CSVの読み書き
+ *
+ * 一括生成でアップロードするブリーフのCSVの読み取りと、結果のCSVの書き出しに使う
+ * RFC 4180 形式のCSVの定義です。ワーカー（読み取り）とフロントエンド（書き出し）の両方から利用します。
+ *
+ * - 区切りはカンマ、改行は CRLF と LF のどちらも受け付ける
+ * - カンマ・改行・ダブルクォートを含むフィールドはダブルクォートで囲み、内部の `"` は `""` と書く
+ * - スプレッドシートが書き出す先頭のBOMは読み飛ばす
+ */
+
+/**
+ * CSVの構文エラー
+ *
+ * 閉じられていない引用符など、行とフィールドに分割できない場合に送出される。
+ */
+export class CsvSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CsvSyntaxError";
+  }
+}
+
+/**
+ * CSVの行とフィールドへの分割
+ *
+ * 空行は読み飛ばす。
+ *
+ * @param text CSVの内容
+ * @returns 行ごとのフィールド
+ * @throws CsvSyntaxError 引用符が閉じられていない、または引用符の後に区切り以外の文字がある場合
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let position = 0;
+
+  const endRow = () => {
+    row.push(field);
+    // 空行（フィールドが1つだけで空）は行として扱わない
+    if (row.length > 1 || row[0] !== "") rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  while (position < input.length) {
+    const char = input[position];
+
+    if (char === '"' && field === "") {
+      const closing = readQuoted(input, position + 1);
+      field = closing.value;
+      position = closing.end;
+      const next = input[position];
+      if (next !== undefined && next !== "," && next !== "\n" && next !== "\r") {
+        throw new CsvSyntaxError(`Unexpected character after a quoted field in row ${rows.length + 1}`);
+      }
+      continue;
+    }
+
+    if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      endRow();
+      if (char === "\r" && input[position + 1] === "\n") position++;
+    } else {
+      field += char;
+    }
+    position++;
+  }
+
+  if (field !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * 引用符で囲まれたフィールドの読み取り
+ *
+ * @param input CSVの内容
+ * @param start 開きの引用符の次の位置
+ * @returns フィールドの値と、閉じの引用符の次の位置
+ * @throws CsvSyntaxError 引用符が閉じられていない場合
+ */
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  let value = "";
+  let position = start;
+  while (position < input.length) {
+    const char = input[position];
+    if (char === '"') {
+      if (input[position + 1] !== '"') return { value, end: position + 1 };
+      value += '"';
+      position += 2;
+    } else {
+      value += char;
+      position++;
+    }
+  }
+  throw new CsvSyntaxError("CSV has an unterminated quoted field");
+}
+
+/**
+ * 見出し行付きCSVのレコードへの変換
+ *
+ * 1行目を見出しとし、2行目以降を見出しをキーにしたオブジェクトにする。
+ * 見出しの前後の空白は除き、空の見出しの列と、値が空のフィールドは含めない。
+ *
+ * @param text CSVの内容
+ * @returns 見出しをキーにしたレコード（見出し行のみの場合は空配列）
+ * @throws CsvSyntaxError CSVの構文が不正な場合
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((name) => name.trim());
+  return rows.map((row) =>
+    Object.fromEntries(
+      row.flatMap((value, index) => (columns[index] && value !== "" ? [[columns[index], value] as const] : []))
+    )
+  );
+}
+
+/**
+ * CSVへの書き出し
+ *
+ * @param rows 行ごとのフィールド（1行目を見出しにする場合は先頭に含める）
+ * @returns CRLF区切りのCSV
+ */
+export function toCsv(rows: readonly (readonly string[])[]): string {
+  return rows.map((row) => row.map(quoteField).join(",")).join("\r\n") + "\r\n";
+}
+
+/**
+ * 必要な場合のフィールドの引用
+ */
+function quoteField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
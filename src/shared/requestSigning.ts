@@ -0,0 +1,149 @@
+/**
+ * @fileoverview APIリクエストのHMAC署名
+ *
+ * ワーカーの署名検証ミドルウェアと、信頼されたサーバー間の呼び出し元が共有する署名の定義です。
+ * Web Crypto APIのみを使うため、Cloudflare Workers・Node.js 20以降のどちらからも利用できます。
+ *
+ * 署名対象の文字列は次の5行を改行で連結したものです。
+ * 1. X-Timestamp ヘッダーの値（UNIX秒）
+ * 2. HTTPメソッド（大文字）
+ * 3. パスとクエリ文字列（例: /api/v1/drafts?status=draft）
+ * 4. X-Client-ID ヘッダーの値（ない場合は空文字列）
+ * 5. リクエストボディ（ない場合は空文字列）
+ *
+ * クライアントIDを署名に含めるため、ワーカーは署名済みのクライアントIDをレート制限のティアの判定に使えます。
+ */
+
+/**
+ * クライアントIDのヘッダー名
+ */
+export const CLIENT_ID_HEADER = "X-Client-ID";
+
+/**
+ * 署名のヘッダー名（HMAC-SHA256の16進文字列）
+ */
+export const SIGNATURE_HEADER = "X-Signature";
+
+/**
+ * 署名時刻のヘッダー名（UNIX秒）
+ */
+export const TIMESTAMP_HEADER = "X-Timestamp";
+
+/**
+ * 署名するリクエスト
+ */
+export type SignableRequest = {
+  method: string;
+  /** 絶対URLまたはパス（クエリ文字列を含む） */
+  url: string;
+  /** X-Client-ID ヘッダーの値 */
+  clientId?: string;
+  body?: string;
+};
+
+/**
+ * 署名ヘッダー
+ */
+export type SignatureHeaders = {
+  [SIGNATURE_HEADER]: string;
+  [TIMESTAMP_HEADER]: string;
+};
+
+/**
+ * リクエストへの署名
+ *
+ * 呼び出し例：
+ * ```ts
+ * const body = JSON.stringify(payload);
+ * const headers = await signRequest(secret, { method: "POST", url: "/api/v1/generate", clientId: "partner-app", body });
+ * await fetch(`${baseUrl}/api/v1/generate`, {
+ *   method: "POST",
+ *   headers: { ...headers, "X-Client-ID": "partner-app", "Content-Type": "application/json" },
+ *   body,
+ * });
+ * ```
+ *
+ * @param secret ワーカーの API_SIGNING_SECRET と同じ秘密鍵
+ * @param request 署名するリクエスト
+ * @param timestamp 署名時刻のUNIX秒（未指定時は現在時刻）
+ * @returns リクエストに付けるヘッダー
+ */
+export async function signRequest(
+  secret: string,
+  request: SignableRequest,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Promise<SignatureHeaders> {
+  const key = await importSigningKey(secret);
+  const digest = await crypto.subtle.sign("HMAC", key, encode(canonicalRequest(String(timestamp), request)));
+  return {
+    [SIGNATURE_HEADER]: toHex(new Uint8Array(digest)),
+    [TIMESTAMP_HEADER]: String(timestamp),
+  };
+}
+
+/**
+ * 署名の照合
+ *
+ * 比較は crypto.subtle.verify に委ね、一致するまでの時間から署名を推測されないようにする。
+ *
+ * @param secret 秘密鍵
+ * @param signature X-Signature ヘッダーの値
+ * @param timestamp X-Timestamp ヘッダーの値
+ * @param request 受け取ったリクエスト
+ * @returns 署名が一致すればtrue
+ */
+export async function verifyRequestSignature(
+  secret: string,
+  signature: string,
+  timestamp: string,
+  request: SignableRequest
+): Promise<boolean> {
+  const bytes = fromHex(signature);
+  if (!bytes) {
+    return false;
+  }
+  const key = await importSigningKey(secret);
+  return crypto.subtle.verify("HMAC", key, bytes, encode(canonicalRequest(timestamp, request)));
+}
+
+/**
+ * 署名対象の文字列
+ */
+function canonicalRequest(timestamp: string, request: SignableRequest): string {
+  const url = new URL(request.url, "http://localhost");
+  return [
+    timestamp,
+    request.method.toUpperCase(),
+    `${url.pathname}${url.search}`,
+    request.clientId ?? "",
+    request.body ?? "",
+  ].join("\n");
+}
+
+function importSigningKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+function encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * 16進文字列のバイト列への変換
+ *
+ * @returns バイト列、16進文字列として不正な場合はnull
+ */
+function fromHex(value: string): Uint8Array | null {
+  if (!/^(?:[0-9a-f]{2})+$/i.test(value)) {
+    return null;
+  }
+  const bytes = new Uint8Array(value.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(value.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,470 @@
+/**
+ * @fileoverview APIコントラクトのスキーマ定義
+ *
+ * 共有コントラクトの型・実行時の検証・エラーメッセージ・OpenAPIのJSON Schemaを
+ * 1つの定義から得るための小さなスキーマ定義です。
+ * ワーカーはリクエストの検証に、フロントエンドはレスポンスの検証とリクエストの正規化に使います。
+ *
+ * 定義例：
+ * ```ts
+ * const requestSchema = s.object({
+ *   theme: s.text({ code: "THEME_REQUIRED" }),
+ *   variants: s.integer({ min: 1, max: 3 }).optional(),
+ * });
+ * type Request = s.Infer<typeof requestSchema>; // { theme: string; variants?: number }
+ * const result = requestSchema.parse(payload);   // { ok: true, value } | { ok: false, issues }
+ * ```
+ *
+ * 検証のきまり：
+ * - オブジェクトに定義されていないキーは無視し、検証結果に含めない
+ * - 省略されたフィールド（undefined）は検証結果に含めない
+ * - エラーメッセージは `<パス> must be ...` の形（ルートの場合は `Payload must be ...`）
+ */
+
+import type { ValidationErrorCode } from "./contracts/error";
+
+/**
+ * 検証で見つかった問題
+ */
+export type SchemaIssue = {
+  /** 問題のある値のパス（例: hashtags[1]）。ルートの場合は空文字列 */
+  path: string;
+  message: string;
+  /** 入力欄ごとに表示する検証エラーのコード（必須項目の欠落など。形式の誤りには付かない） */
+  code?: ValidationErrorCode;
+};
+
+/**
+ * 検証結果
+ */
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+/**
+ * JSON Schema（OpenAPI 3.1 のスキーマオブジェクト）
+ */
+export type JsonSchema = {
+  type?: "string" | "integer" | "boolean" | "array" | "object" | "null";
+  description?: string;
+  enum?: readonly string[];
+  format?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  anyOf?: JsonSchema[];
+};
+
+/**
+ * スキーマの実装
+ */
+type SchemaDefinition<T> = {
+  check: (input: unknown, path: string) => ParseResult<T>;
+  jsonSchema: () => JsonSchema;
+  /** 省略とみなす値か（optional で undefined として扱う） */
+  isAbsent?: (input: unknown) => boolean;
+};
+
+/**
+ * スキーマ
+ */
+export class Schema<T> {
+  readonly isOptional: boolean = false;
+  protected description?: string;
+
+  constructor(protected readonly definition: SchemaDefinition<T>) {}
+
+  /**
+   * 値の検証
+   *
+   * @param input 検証する値（JSONとして読み取った値など）
+   * @returns 正規化した値、または見つかった全ての問題
+   */
+  parse(input: unknown): ParseResult<T> {
+    return this.parseAt(input, "");
+  }
+
+  /**
+   * パスを指定した値の検証（オブジェクト・配列の要素の検証に使う）
+   */
+  parseAt(input: unknown, path: string): ParseResult<T> {
+    return this.definition.check(input, path);
+  }
+
+  /**
+   * 省略とみなす値か
+   */
+  isAbsent(input: unknown): boolean {
+    return this.definition.isAbsent ? this.definition.isAbsent(input) : input === undefined;
+  }
+
+  /**
+   * JSON Schemaへの変換
+   */
+  toJSONSchema(): JsonSchema {
+    const schema = this.definition.jsonSchema();
+    return this.description === undefined ? schema : { ...schema, description: this.description };
+  }
+
+  /**
+   * 説明の付与（OpenAPIドキュメントの description になる）
+   */
+  describe(description: string): this {
+    const described = Object.create(Object.getPrototypeOf(this)) as this;
+    Object.assign(described, this, { description });
+    return described;
+  }
+
+  /**
+   * 省略できるフィールドにする
+   */
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema(this);
+  }
+
+  /**
+   * null を許容する
+   */
+  nullable(): Schema<T | null> {
+    return new Schema<T | null>({
+      check: (input, path) => (input === null ? { ok: true, value: null } : this.parseAt(input, path)),
+      jsonSchema: () => ({ anyOf: [this.toJSONSchema(), { type: "null" }] }),
+    });
+  }
+}
+
+/**
+ * 省略できるスキーマ
+ */
+export class OptionalSchema<T> extends Schema<T | undefined> {
+  override readonly isOptional = true as const;
+
+  constructor(inner: Schema<T>) {
+    super({
+      check: (input, path) => (inner.isAbsent(input) ? { ok: true, value: undefined } : inner.parseAt(input, path)),
+      jsonSchema: () => inner.toJSONSchema(),
+    });
+  }
+}
+
+/**
+ * スキーマが表す値の型
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+/**
+ * オブジェクトのフィールド定義
+ */
+export type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/**
+ * オブジェクトのスキーマが表す値の型（省略できるフィールドは `?:` になる）
+ */
+export type InferObject<S extends Shape> = Simplify<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+    [K in OptionalKeys<S>]?: Exclude<Infer<S[K]>, undefined>;
+  }
+>;
+
+/**
+ * オブジェクト全体の規則
+ */
+type ObjectRules = {
+  /** 別のフィールドが指定されている場合だけ省略できるフィールド（フィールド → 別のフィールド） */
+  optionalWhen: Record<string, string>;
+  /** 全フィールドの検証に通った後に確認する規則 */
+  refinements: { predicate: (value: never) => boolean; issue: SchemaIssue }[];
+};
+
+/**
+ * オブジェクトのスキーマ
+ */
+export class ObjectSchema<S extends Shape> extends Schema<InferObject<S>> {
+  constructor(
+    readonly shape: S,
+    private readonly rules: ObjectRules = { optionalWhen: {}, refinements: [] }
+  ) {
+    super({
+      check: (input, path) => checkObject(shape, rules, input, path) as ParseResult<InferObject<S>>,
+      jsonSchema: () => objectJsonSchema(shape, rules),
+    });
+  }
+
+  /**
+   * フィールドの追加（同名のフィールドは置き換える）
+   */
+  extend<E extends Shape>(extension: E): ObjectSchema<Simplify<Omit<S, keyof E> & E>> {
+    return new ObjectSchema({ ...this.shape, ...extension } as Simplify<Omit<S, keyof E> & E>, this.rules);
+  }
+
+  /**
+   * 全フィールドを省略できるようにする（編集リクエストなど）
+   */
+  partial(): ObjectSchema<{ [K in keyof S]: OptionalSchema<Exclude<Infer<S[K]>, undefined>> }> {
+    const shape = Object.fromEntries(
+      Object.entries(this.shape).map(([key, schema]) => [key, schema.isOptional ? schema : schema.optional()])
+    );
+    return new ObjectSchema(shape as { [K in keyof S]: OptionalSchema<Exclude<Infer<S[K]>, undefined>> }, {
+      optionalWhen: {},
+      refinements: this.rules.refinements,
+    });
+  }
+
+  /**
+   * 別のフィールドが指定されている場合だけ省略できるフィールドの指定
+   *
+   * @param field 省略できるようにするフィールド
+   * @param present 指定されていれば field を省略できるフィールド
+   */
+  optionalWhen<K extends keyof S & string>(
+    field: K,
+    present: Exclude<keyof S & string, K>
+  ): ObjectSchema<Simplify<Omit<S, K> & { [P in K]: OptionalSchema<Infer<S[P]>> }>> {
+    return new ObjectSchema(this.shape as unknown as Simplify<Omit<S, K> & { [P in K]: OptionalSchema<Infer<S[P]>> }>, {
+      ...this.rules,
+      optionalWhen: { ...this.rules.optionalWhen, [field]: present },
+    });
+  }
+
+  /**
+   * フィールドをまたぐ規則の追加
+   *
+   * 全フィールドの検証に通った場合にだけ確認する。
+   *
+   * @param predicate 規則を満たす場合にtrueを返す関数
+   * @param failure 満たさない場合の問題（path はこのオブジェクトからの相対パス）
+   */
+  refine(predicate: (value: InferObject<S>) => boolean, failure: SchemaIssue): ObjectSchema<S> {
+    return new ObjectSchema(this.shape, {
+      ...this.rules,
+      refinements: [...this.rules.refinements, { predicate, issue: failure }],
+    });
+  }
+}
+
+/**
+ * エラーメッセージの主語
+ */
+function subject(path: string): string {
+  return path === "" ? "Payload" : path;
+}
+
+function issue(path: string, expectation: string, code?: ValidationErrorCode): ParseResult<never> {
+  const found: SchemaIssue = { path, message: `${subject(path)} must be ${expectation}` };
+  return { ok: false, issues: [code ? { ...found, code } : found] };
+}
+
+function childPath(path: string, key: string): string {
+  return path === "" ? key : `${path}.${key}`;
+}
+
+function checkObject(
+  shape: Shape,
+  rules: ObjectRules,
+  input: unknown,
+  path: string
+): ParseResult<Record<string, unknown>> {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return issue(path, "an object");
+  }
+
+  const record = input as Record<string, unknown>;
+  const value: Record<string, unknown> = {};
+  const issues: SchemaIssue[] = [];
+  for (const [key, schema] of Object.entries(shape)) {
+    const present = rules.optionalWhen[key];
+    const skippable = present !== undefined && !shape[present].isAbsent(record[present]);
+    if (skippable && schema.isAbsent(record[key])) continue;
+
+    const result = schema.parseAt(record[key], childPath(path, key));
+    if (!result.ok) {
+      issues.push(...result.issues);
+    } else if (result.value !== undefined) {
+      value[key] = result.value;
+    }
+  }
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  const broken = rules.refinements.filter((rule) => !rule.predicate(value as never));
+  if (broken.length > 0) {
+    return {
+      ok: false,
+      issues: broken.map((rule) => ({ ...rule.issue, path: path === "" ? rule.issue.path : childPath(path, rule.issue.path) })),
+    };
+  }
+  return { ok: true, value };
+}
+
+function objectJsonSchema(shape: Shape, rules: ObjectRules): JsonSchema {
+  const properties = Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.toJSONSchema()]));
+  const required = Object.entries(shape)
+    .filter(([key, schema]) => !schema.isOptional && rules.optionalWhen[key] === undefined)
+    .map(([key]) => key);
+  const alternatives = Object.entries(rules.optionalWhen).map(([field, present]) => ({
+    anyOf: [{ required: [field] }, { required: [present] }],
+  }));
+
+  const schema: JsonSchema = { type: "object", properties };
+  if (required.length > 0) schema.required = required;
+  // 条件付きで省略できるフィールドが1つの場合のみ anyOf で表す
+  if (alternatives.length === 1) schema.anyOf = alternatives[0].anyOf;
+  return schema;
+}
+
+/**
+ * 文字列（値はそのまま。空文字列も受け付ける）
+ *
+ * @param options.format JSON Schemaの format（例: date-time）。検証には使わない
+ */
+export function string(options: { format?: string } = {}): Schema<string> {
+  return new Schema({
+    check: (input, path) => (typeof input === "string" ? { ok: true, value: input } : issue(path, "a string")),
+    jsonSchema: () => (options.format ? { type: "string", format: options.format } : { type: "string" }),
+  });
+}
+
+/**
+ * 前後の空白を除いた空でない文字列
+ *
+ * 空白だけの文字列は省略とみなす（optional の場合は undefined になる）。
+ *
+ * @param options.code 省略された場合の問題に付ける検証エラーのコード
+ */
+export function text(options: { code?: ValidationErrorCode } = {}): Schema<string> {
+  return new Schema({
+    check: (input, path) => {
+      if (input !== undefined && typeof input !== "string") return issue(path, "a string");
+      const trimmed = input?.trim() ?? "";
+      return trimmed.length > 0 ? { ok: true, value: trimmed } : issue(path, "a non-empty string", options.code);
+    },
+    jsonSchema: () => ({ type: "string", minLength: 1 }),
+    isAbsent: (input) => input === undefined || (typeof input === "string" && input.trim().length === 0),
+  });
+}
+
+/**
+ * ISO 8601の日時（UTCのISO 8601に正規化する）
+ */
+export function dateTime(): Schema<string> {
+  return new Schema({
+    check: (input, path) => {
+      const date = typeof input === "string" ? new Date(input) : null;
+      return date && !Number.isNaN(date.getTime())
+        ? { ok: true, value: date.toISOString() }
+        : issue(path, "an ISO 8601 date");
+    },
+    jsonSchema: () => ({ type: "string", format: "date-time" }),
+  });
+}
+
+/**
+ * 整数
+ *
+ * @param options.min 下限（含む）
+ * @param options.max 上限（含む）
+ * @param options.coerce trueの場合、数字の文字列も受け付ける（クエリパラメータ用）
+ */
+export function integer(options: { min?: number; max?: number; coerce?: boolean } = {}): Schema<number> {
+  const { min, max, coerce } = options;
+  const expectation =
+    min !== undefined && max !== undefined
+      ? `an integer between ${min} and ${max}`
+      : min === 1
+        ? "a positive integer"
+        : min === 0
+          ? "a non-negative integer"
+          : "an integer";
+
+  return new Schema({
+    check: (input, path) => {
+      const value = coerce && typeof input === "string" && /^-?\d+$/.test(input.trim()) ? Number(input) : input;
+      const valid =
+        typeof value === "number" &&
+        Number.isInteger(value) &&
+        (min === undefined || value >= min) &&
+        (max === undefined || value <= max);
+      return valid ? { ok: true, value } : issue(path, expectation);
+    },
+    jsonSchema: () => ({
+      type: "integer",
+      ...(min !== undefined ? { minimum: min } : {}),
+      ...(max !== undefined ? { maximum: max } : {}),
+    }),
+  });
+}
+
+/**
+ * 真偽値
+ */
+export function boolean(): Schema<boolean> {
+  return new Schema({
+    check: (input, path) => (typeof input === "boolean" ? { ok: true, value: input } : issue(path, "a boolean")),
+    jsonSchema: () => ({ type: "boolean" }),
+  });
+}
+
+/**
+ * 列挙した文字列のいずれか
+ *
+ * @param values 受け付ける値
+ */
+export function enumeration<const V extends readonly [string, ...string[]]>(values: V): Schema<V[number]> {
+  return new Schema({
+    check: (input, path) =>
+      typeof input === "string" && (values as readonly string[]).includes(input)
+        ? { ok: true, value: input as V[number] }
+        : issue(path, `one of ${values.join(", ")}`),
+    jsonSchema: () => ({ type: "string", enum: values }),
+  });
+}
+
+/**
+ * 配列
+ *
+ * @param item 要素のスキーマ
+ */
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return new Schema({
+    check: (input, path) => {
+      if (!Array.isArray(input)) return issue(path, "an array");
+
+      const value: T[] = [];
+      const issues: SchemaIssue[] = [];
+      input.forEach((element, index) => {
+        const result = item.parseAt(element, `${subject(path)}[${index}]`);
+        if (result.ok) value.push(result.value);
+        else issues.push(...result.issues);
+      });
+      return issues.length > 0 ? { ok: false, issues } : { ok: true, value };
+    },
+    jsonSchema: () => ({ type: "array", items: item.toJSONSchema() }),
+  });
+}
+
+/**
+ * オブジェクト
+ *
+ * @param shape フィールドごとのスキーマ
+ */
+export function object<S extends Shape>(shape: S): ObjectSchema<S> {
+  return new ObjectSchema(shape);
+}
+
+/**
+ * 問題の一覧のメッセージへの変換
+ *
+ * @param issues 検証で見つかった問題
+ * @returns 各問題のメッセージを `; ` で連結した文字列
+ */
+export function formatIssues(issues: readonly SchemaIssue[]): string {
+  return issues.map((found) => found.message).join("; ");
+}
@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import { DraftBatchWorkflow } from "../workflows/draftBatchWorkflow";
+import { CreateDraftUseCase } from "../usecases/createDraftUseCase";
+import { GetDraftUseCase } from "../usecases/getDraftUseCase";
+import { ManageGenerationBatchesUseCase } from "../usecases/manageGenerationBatchesUseCase";
+import { InfrastructureError } from "../usecases/infrastructureError";
+import { D1DraftRepository } from "../infrastructure/d1DraftRepository";
+import { D1GenerationBatchRepository } from "../infrastructure/d1GenerationBatchRepository";
+import type { WorkerBindings } from "../types";
+import type { GenerationBatchDto } from "@/shared/contracts/generationBatch";
+import { D1RateLimitStore } from "../infrastructure/d1RateLimitStore";
+import { releaseGenerations } from "../middleware/rateLimit";
+import { createSqliteD1 } from "./support/sqliteD1";
+
+describe("batch generation routes", () => {
+  const env = {} as WorkerBindings;
+  const clock = { now: () => new Date("2025-03-01T00:00:00.000Z") };
+  let contentGenerator: { generate: ReturnType<typeof vi.fn> };
+  let imageScheduler: { schedule: ReturnType<typeof vi.fn> };
+  let queue: { enqueue: ReturnType<typeof vi.fn> };
+  let enqueued: { batchId: string; index: number }[];
+  let rowWorkflow: DraftBatchWorkflow;
+  let services: Parameters<typeof createApp>[1];
+  let workflow: DraftGenerationWorkflow;
+  let app: ReturnType<typeof createApp>;
+  let db: D1Database;
+
+  const request = (method: string, path: string, body?: string, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body,
+      }),
+      env
+    );
+
+  const upload = async (body: string, headers: Record<string, string> = {}) => {
+    const response = await request("POST", "/api/v1/generate/batch", body, headers);
+    return { status: response.status, body: (await response.json()) as { batch: GenerationBatchDto } };
+  };
+
+  /** 1日の生成回数の上限を設定したアプリに置き換え、クォータのカウンターを返す */
+  const withGenerationQuota = (dailyGenerations: number) => {
+    app = createApp(() => workflow, {
+      ...services,
+      rateLimits: () => ({
+        store: new D1RateLimitStore(db, clock),
+        tiers: { free: { requests: { limit: 100, windowSeconds: 60, algorithm: "fixed" }, dailyGenerations } },
+        tierOf: () => undefined,
+        clock,
+      }),
+    });
+    return () =>
+      db
+        .prepare("SELECT count FROM rate_limit_counters WHERE key = ?1")
+        .bind("quota:anonymous:2025-03-01")
+        .first<number>("count");
+  };
+
+  /** キューに投入された行をコンシューマーと同じように処理する */
+  const drainQueue = async () => {
+    for (const job of enqueued.splice(0)) {
+      await rowWorkflow.processRow(job);
+    }
+  };
+
+  beforeEach(async () => {
+    db = await createSqliteD1();
+    let sequence = 0;
+    const idProvider = { next: () => `id-${++sequence}` };
+    const drafts = new D1DraftRepository(db);
+    contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "春の新作です", hashtags: ["spring"], altText: "alt" }),
+    };
+    imageScheduler = { schedule: vi.fn().mockResolvedValue(undefined) };
+    enqueued = [];
+    queue = { enqueue: vi.fn(async (rows: { batchId: string; index: number }[]) => void enqueued.push(...rows)) };
+    const batches = new ManageGenerationBatchesUseCase(new D1GenerationBatchRepository(db), queue, idProvider, clock, {
+      release: (quotaKey, count) => releaseGenerations(new D1RateLimitStore(db, clock), quotaKey, count),
+    });
+    workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      imageScheduler,
+      new CreateDraftUseCase(drafts, idProvider, clock)
+    );
+    rowWorkflow = new DraftBatchWorkflow(workflow, batches);
+
+    services = {
+      getDraft: () => new GetDraftUseCase(drafts),
+      batches: () => batches,
+    };
+    app = createApp(() => workflow, services);
+  });
+
+  // 正常系: JSONの配列から行をキューに投入し、処理した行の結果が進捗とドラフトに反映されることを検証する
+  it("queues JSON rows and reports their results", async () => {
+    const { status, body } = await upload(
+      JSON.stringify([
+        { theme: "春の新作", brandVoice: "爽やか" },
+        { theme: "夏の新作", brandVoice: "元気", imagePrompt: "海辺のスニーカー" },
+      ])
+    );
+
+    expect(status).toBe(202);
+    expect(body.batch).toMatchObject({ status: "running", total: 2, succeeded: 0, failed: 0 });
+    expect(body.batch.rows.map((row) => row.status)).toEqual(["queued", "queued"]);
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+    expect(contentGenerator.generate).not.toHaveBeenCalled();
+
+    await drainQueue();
+
+    const progress = await request("GET", `/api/v1/generate/batch/${body.batch.id}`);
+    const { batch } = (await progress.json()) as { batch: GenerationBatchDto };
+    expect(batch).toMatchObject({
+      status: "completed",
+      succeeded: 2,
+      failed: 0,
+      completedAt: "2025-03-01T00:00:00.000Z",
+    });
+    expect(batch.rows[1]).toMatchObject({ index: 1, theme: "夏の新作", status: "succeeded", caption: "春の新作です" });
+    expect(imageScheduler.schedule).toHaveBeenCalledWith({ draftId: batch.rows[1].draftId, prompt: "海辺のスニーカー" });
+    expect((await request("GET", `/api/v1/drafts/${batch.rows[0].draftId}`)).status).toBe(200);
+  });
+
+  // 正常系: 見出し付きCSVを読み取り、不正な行は他の行を止めずに失敗として記録することを検証する
+  it("accepts CSV and records invalid rows as failed", async () => {
+    const csv = "theme,brandVoice,variants\r\n春の新作,爽やか,2\r\n,元気,\r\n夏の新作,,\r\n";
+
+    const { status, body } = await upload(csv, { "Content-Type": "text/csv; charset=utf-8" });
+
+    expect(status).toBe(202);
+    expect(body.batch.rows.map((row) => row.status)).toEqual(["queued", "failed", "failed"]);
+    expect(body.batch.rows[1].error?.message).toBeTruthy();
+    expect(body.batch.rows[2]).toMatchObject({ theme: "夏の新作", error: { code: "BRAND_VOICE_REQUIRED" } });
+    expect(queue.enqueue).toHaveBeenCalledWith([{ batchId: body.batch.id, index: 0 }]);
+
+    await drainQueue();
+
+    const { batch } = (await (await request("GET", `/api/v1/generate/batch/${body.batch.id}`)).json()) as {
+      batch: GenerationBatchDto;
+    };
+    expect(batch).toMatchObject({ status: "completed", succeeded: 1, failed: 2 });
+  });
+
+  // 正常系: 再配信された行は、処理済みの結果を上書きせずドラフトを重ねて作成しないことを検証する
+  it("ignores redelivered rows", async () => {
+    const { body } = await upload(JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }]));
+    const [job] = enqueued;
+
+    await drainQueue();
+    await rowWorkflow.processRow(job);
+
+    expect(contentGenerator.generate).toHaveBeenCalledTimes(1);
+    const { batch } = (await (await request("GET", `/api/v1/generate/batch/${body.batch.id}`)).json()) as {
+      batch: GenerationBatchDto;
+    };
+    expect(batch.succeeded).toBe(1);
+  });
+
+  // 異常系: 一時的な失敗は送出して再配信に任せ、上限到達時に行の失敗として記録することを検証する
+  it("rethrows transient failures until the row failure is recorded", async () => {
+    contentGenerator.generate.mockRejectedValue(new Error("model overloaded"));
+    const { body } = await upload(JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }]));
+    const [job] = enqueued;
+
+    await expect(rowWorkflow.processRow(job)).rejects.toThrow("model overloaded");
+    await rowWorkflow.recordRowFailure(job, new Error("model overloaded"));
+
+    const { batch } = (await (await request("GET", `/api/v1/generate/batch/${body.batch.id}`)).json()) as {
+      batch: GenerationBatchDto;
+    };
+    expect(batch).toMatchObject({ status: "completed", failed: 1 });
+    expect(batch.rows[0].error).toEqual({ message: "model overloaded", code: "INTERNAL_ERROR" });
+  });
+
+  // 異常系: キューへの投入に失敗した場合は生成待ちの行を失敗として記録し、503を返すことを検証する
+  it("fails queued rows when they cannot be enqueued", async () => {
+    queue.enqueue.mockRejectedValue(new InfrastructureError("QUEUE_UNAVAILABLE", "queue is down"));
+
+    const response = await request("POST", "/api/v1/generate/batch", JSON.stringify([{ theme: "春", brandVoice: "爽やか" }]));
+
+    expect(response.status).toBe(503);
+  });
+
+  // 正常系: 生成クォータはキューに入れた行の数だけ消費し、不正な行は数えないことを検証する
+  it("charges the generation quota per queued row", async () => {
+    const quotaUsed = withGenerationQuota(3);
+    const csv = "theme,brandVoice\r\n春の新作,爽やか\r\n,元気\r\n夏の新作,元気\r\n";
+
+    const { status, body } = await upload(csv, { "Content-Type": "text/csv" });
+
+    expect(status).toBe(202);
+    expect(body.batch.rows.map((row) => row.status)).toEqual(["queued", "failed", "queued"]);
+    expect(await quotaUsed()).toBe(2);
+  });
+
+  // 異常系: 生成に失敗した行の分の生成クォータを戻し、再配信された失敗では二重に戻さないことを検証する
+  it("releases the generation quota of rows that fail", async () => {
+    const quotaUsed = withGenerationQuota(3);
+    contentGenerator.generate.mockRejectedValueOnce(new Error("model overloaded"));
+    await upload(JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }, { theme: "夏の新作", brandVoice: "元気" }]));
+    const [failing] = enqueued;
+    expect(await quotaUsed()).toBe(2);
+
+    await expect(rowWorkflow.processRow(failing)).rejects.toThrow("model overloaded");
+    await rowWorkflow.recordRowFailure(failing, new Error("model overloaded"));
+    await rowWorkflow.recordRowFailure(failing, new Error("model overloaded"));
+    await drainQueue();
+
+    expect(await quotaUsed()).toBe(1);
+  });
+
+  // 異常系: 残りの生成クォータが生成する行数に満たない場合は429で拒否し、バッチを作成しないことを検証する
+  it("rejects batches larger than the remaining generation quota", async () => {
+    const quotaUsed = withGenerationQuota(3);
+    await upload(JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }]));
+    queue.enqueue.mockClear();
+
+    const response = await request(
+      "POST",
+      "/api/v1/generate/batch",
+      JSON.stringify(Array.from({ length: 3 }, () => ({ theme: "夏の新作", brandVoice: "元気" })))
+    );
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).not.toBeNull();
+    expect(await response.json()).toMatchObject({ error: { code: "quota_exceeded" } });
+    expect(queue.enqueue).not.toHaveBeenCalled();
+    expect(await quotaUsed()).toBe(1);
+  });
+
+  // 異常系: バッチを作成できなかった場合は予約した生成クォータを戻すことを検証する
+  it("releases the generation quota when the batch cannot be created", async () => {
+    const quotaUsed = withGenerationQuota(3);
+    queue.enqueue.mockRejectedValue(new InfrastructureError("QUEUE_UNAVAILABLE", "queue is down"));
+
+    const response = await request("POST", "/api/v1/generate/batch", JSON.stringify([{ theme: "春", brandVoice: "爽やか" }]));
+
+    expect(response.status).toBe(503);
+    expect(await quotaUsed()).toBe(0);
+  });
+
+  // 正常系: バッチは作成したブランドからだけ参照できることを検証する
+  it("keeps batches per brand", async () => {
+    const { body } = await upload(JSON.stringify([{ theme: "春の新作", brandVoice: "爽やか" }]), {
+      "X-Brand-ID": "acme",
+    });
+
+    expect((await request("GET", `/api/v1/generate/batch/${body.batch.id}`, undefined, { "X-Brand-ID": "acme" })).status).toBe(200);
+    expect((await request("GET", `/api/v1/generate/batch/${body.batch.id}`)).status).toBe(404);
+    expect((await request("GET", `/api/v1/generate/batch/${body.batch.id}`, undefined, { "X-Brand-ID": "other" })).status).toBe(404);
+  });
+
+  // 異常系: 配列でないJSON・不正なCSV・空のバッチ・上限を超える行数に対し400を返すことを検証する
+  it.each([
+    ["application/json", JSON.stringify({ theme: "春の新作" })],
+    ["text/csv", 'theme\n"春の新作'],
+    ["application/json", "[]"],
+    ["application/json", JSON.stringify(Array.from({ length: 101 }, () => ({ theme: "春", brandVoice: "爽やか" })))],
+  ])("returns 400 for %s payload %#", async (contentType, payload) => {
+    expect((await request("POST", "/api/v1/generate/batch", payload, { "Content-Type": contentType })).status).toBe(400);
+    expect(queue.enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import { CreateDraftUseCase } from "../usecases/createDraftUseCase";
+import { GetDraftUseCase } from "../usecases/getDraftUseCase";
+import { ListDraftsUseCase } from "../usecases/listDraftsUseCase";
+import { ManageBrandsUseCase } from "../usecases/manageBrandsUseCase";
+import { D1DraftRepository } from "../infrastructure/d1DraftRepository";
+import { D1BrandRepository } from "../infrastructure/d1BrandRepository";
+import { KvUsedSignatureStore } from "../infrastructure/kvUsedSignatureStore";
+import type { WorkerBindings } from "../types";
+import { createMemoryKv } from "./support/memoryKv";
+import { createSqliteD1 } from "./support/sqliteD1";
+
+describe("brand routes", () => {
+  const env = {} as WorkerBindings;
+  const clock = { now: () => new Date("2025-03-01T00:00:00.000Z") };
+  let contentGenerator: { generate: ReturnType<typeof vi.fn> };
+  let clientBrands: Record<string, readonly string[] | "*">;
+  let app: ReturnType<typeof createApp>;
+
+  /** Cloudflare Access で認証したクライアント（JWTの代わりにメールアドレスを送り、検証の偽実装がそのまま返す） */
+  const request = (
+    method: string,
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+    user = "admin@example.com"
+  ) =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", "Cf-Access-Jwt-Assertion": user, ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      env
+    );
+
+  const createBrand = async (name: string, voice: string) => {
+    const response = await request("POST", "/api/v1/brands", { name, voice, defaultHashtags: ["#" + name] });
+    return ((await response.json()) as { brand: { id: string } }).brand.id;
+  };
+
+  beforeEach(async () => {
+    const db = await createSqliteD1();
+    let sequence = 0;
+    const idProvider = { next: () => `id-${++sequence}` };
+    const drafts = new D1DraftRepository(db);
+    const brands = new ManageBrandsUseCase(new D1BrandRepository(db), idProvider, clock);
+    contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "春の新作です", hashtags: ["spring"], altText: "alt" }),
+    };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockResolvedValue(undefined) },
+      new CreateDraftUseCase(drafts, idProvider, clock),
+      undefined,
+      undefined,
+      brands
+    );
+
+    clientBrands = { "access:admin@example.com": "*" };
+    app = createApp(() => workflow, {
+      getDraft: () => new GetDraftUseCase(drafts),
+      listDrafts: () => new ListDraftsUseCase(drafts),
+      brands: () => brands,
+      signatures: () => ({
+        secret: undefined,
+        allowUnsigned: false,
+        access: { verify: async (token) => token },
+        usedSignatures: new KvUsedSignatureStore(createMemoryKv().kv),
+        clock,
+      }),
+      brandAccess: () => ({
+        brandsOf: (clientId) => clientBrands[clientId],
+        isAdmin: (clientId) => clientId === "access:admin@example.com",
+      }),
+    });
+  });
+
+  // 正常系: ブランドの作成・一覧・取得・編集・削除ができることを検証する
+  it("creates, lists, updates and deletes brands", async () => {
+    const created = await request("POST", "/api/v1/brands", {
+      name: " Acme ",
+      voice: "親しみやすい",
+      defaultHashtags: ["#acme", "acme", "spring"],
+      bannedWords: ["最安"],
+    });
+    expect(created.status).toBe(201);
+    const { brand } = (await created.json()) as { brand: { id: string } };
+    expect(brand).toEqual({
+      id: "id-1",
+      name: "Acme",
+      voice: "親しみやすい",
+      defaultHashtags: ["acme", "spring"],
+      bannedWords: ["最安"],
+      createdAt: "2025-03-01T00:00:00.000Z",
+    });
+
+    const updated = await request("PATCH", `/api/v1/brands/${brand.id}`, { defaultPersona: "30代の会社員" });
+    expect(updated.status).toBe(200);
+    expect(await updated.json()).toMatchObject({ brand: { name: "Acme", defaultPersona: "30代の会社員" } });
+
+    const list = await request("GET", "/api/v1/brands");
+    expect(await list.json()).toMatchObject({ items: [{ id: brand.id, name: "Acme" }] });
+
+    expect((await request("DELETE", `/api/v1/brands/${brand.id}`)).status).toBe(204);
+    expect((await request("GET", `/api/v1/brands/${brand.id}`)).status).toBe(404);
+    expect((await request("DELETE", `/api/v1/brands/${brand.id}`)).status).toBe(404);
+  });
+
+  // 異常系: 型の不正・空の必須項目は400、存在しないブランドの編集は404を返すことを検証する
+  it("rejects invalid brand payloads", async () => {
+    expect((await request("POST", "/api/v1/brands", { name: "Acme" })).status).toBe(400);
+    expect((await request("POST", "/api/v1/brands", { name: "Acme", voice: "  " })).status).toBe(400);
+    expect((await request("POST", "/api/v1/brands", { name: "Acme", voice: "v", bannedWords: "最安" })).status).toBe(
+      400
+    );
+    expect((await request("PATCH", "/api/v1/brands/missing", { voice: "v" })).status).toBe(404);
+  });
+
+  // 正常系: ブランドのプロフィールで生成し、ドラフトを作成したブランド以外から参照できないことを検証する
+  it("scopes generated drafts to the brand", async () => {
+    const acme = await createBrand("acme", "親しみやすい");
+    const other = await createBrand("other", "落ち着いた");
+
+    const generated = await request("POST", "/api/v1/generate", { theme: "春の新作" }, { "X-Brand-ID": acme });
+    expect(generated.status).toBe(201);
+    const { id, draft } = (await generated.json()) as { id: string; draft: Record<string, unknown> };
+    expect(draft).toMatchObject({ brandId: acme, hashtags: ["acme", "spring"] });
+    expect(contentGenerator.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ brandVoice: "親しみやすい", brand: expect.objectContaining({ name: "acme" }) })
+    );
+
+    expect((await request("GET", `/api/v1/drafts/${id}`, undefined, { "X-Brand-ID": acme })).status).toBe(200);
+    expect((await request("GET", `/api/v1/drafts/${id}`, undefined, { "X-Brand-ID": other })).status).toBe(404);
+    expect((await request("GET", `/api/v1/drafts/${id}`)).status).toBe(404);
+
+    const acmeList = await request("GET", "/api/v1/drafts", undefined, { "X-Brand-ID": acme });
+    const otherList = await request("GET", "/api/v1/drafts", undefined, { "X-Brand-ID": other });
+    const unscopedList = await request("GET", "/api/v1/drafts");
+    expect(await acmeList.json()).toMatchObject({ items: [{ id }] });
+    expect(await otherList.json()).toEqual({ items: [], nextCursor: null });
+    expect(await unscopedList.json()).toEqual({ items: [], nextCursor: null });
+  });
+
+  // 異常系: ヘッダーとボディのブランドの不一致、存在しないブランドでの生成は400を返すことを検証する
+  it("rejects generation for a mismatched or unknown brand", async () => {
+    const acme = await createBrand("acme", "親しみやすい");
+
+    const mismatched = await request("POST", "/api/v1/generate", { theme: "春", brandId: "other" }, { "X-Brand-ID": acme });
+    const unknown = await request("POST", "/api/v1/generate", { theme: "春", brandId: "missing" });
+
+    expect(mismatched.status).toBe(400);
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({ error: { message: "Brand missing not found" } });
+    expect(contentGenerator.generate).not.toHaveBeenCalled();
+  });
+
+  // 異常系: ブランドの管理は管理者に限り、割り当てのないブランドはヘッダー・ボディのどちらで指定しても403を返すことを検証する
+  it("limits brands to the clients they are assigned to", async () => {
+    const acme = await createBrand("acme", "親しみやすい");
+    const other = await createBrand("other", "落ち着いた");
+    clientBrands["access:editor@example.com"] = [acme];
+    const asEditor = (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+      request(method, path, body, headers, "editor@example.com");
+
+    expect((await asEditor("GET", "/api/v1/brands")).status).toBe(403);
+    expect((await asEditor("POST", "/api/v1/brands", { name: "mine", voice: "v" })).status).toBe(403);
+    expect((await asEditor("DELETE", `/api/v1/brands/${other}`)).status).toBe(403);
+
+    const generated = await asEditor("POST", "/api/v1/generate", { theme: "春の新作" }, { "X-Brand-ID": acme });
+    const { id } = (await generated.json()) as { id: string };
+    expect(generated.status).toBe(201);
+    expect((await asEditor("GET", `/api/v1/drafts/${id}`, undefined, { "X-Brand-ID": acme })).status).toBe(200);
+
+    const forbidden = await asEditor("GET", "/api/v1/drafts", undefined, { "X-Brand-ID": other });
+    expect(forbidden.status).toBe(403);
+    expect(await forbidden.json()).toEqual({ error: { message: `This client is not allowed to use brand ${other}` } });
+    expect((await asEditor("POST", "/api/v1/generate", { theme: "春", brandId: other })).status).toBe(403);
+    const unassigned = await request("GET", "/api/v1/drafts", undefined, { "X-Brand-ID": acme }, "stranger@example.com");
+    expect(unassigned.status).toBe(403);
+    expect(contentGenerator.generate).toHaveBeenCalledTimes(1);
+  });
+});
@@ -13,20 +13,28 @@ describe("POST /api/v1/generate", () => {
     app = createApp(() => workflow as unknown as DraftGenerationWorkflow);
   });
 
-  // 異常系: 必須フィールドが欠けているリクエストに対し400を返すことを検証する
-  it("returns 400 when required fields are missing", async () => {
+  // 異常系: 必須フィールドが欠けているリクエストに対し、欠けたフィールドごとのエラーを422で返すことを検証する
+  it("returns 422 with field errors when required fields are missing", async () => {
     const response = await app.fetch(
       new Request("http://localhost/api/v1/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ brandVoice: "kind" }),
+        body: JSON.stringify({ theme: "  " }),
       }),
       env,
     );
 
-    expect(response.status).toBe(400);
-    const body = await response.json();
-    expect(body).toMatchObject({ error: { message: expect.stringContaining("theme") } });
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: {
+        message: "theme must be a non-empty string; brandVoice must be a non-empty string",
+        code: "THEME_REQUIRED",
+        fields: [
+          { field: "theme", code: "THEME_REQUIRED", message: "theme must be a non-empty string" },
+          { field: "brandVoice", code: "BRAND_VOICE_REQUIRED", message: "brandVoice must be a non-empty string" },
+        ],
+      },
+    });
     expect(workflow.run).not.toHaveBeenCalled();
   });
 
@@ -74,4 +82,20 @@ describe("POST /api/v1/generate", () => {
       },
     });
   });
+
+  // 異常系: キャプション案の数が範囲外のリクエストに対し400を返すことを検証する
+  it("returns 400 when variants is out of range", async () => {
+    const response = await app.fetch(
+      new Request("http://localhost/api/v1/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ theme: "春", brandVoice: "kind", variants: 4 }),
+      }),
+      env,
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { message: expect.stringContaining("variants") } });
+    expect(workflow.run).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { GetDraftUseCase } from "../usecases/getDraftUseCase";
+import type { WorkerBindings } from "../types";
+
+describe("GET /api/v1/drafts/:id", () => {
+  const env = {} as WorkerBindings;
+  let getDraft: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    getDraft = { execute: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      getDraft: () => getDraft as unknown as GetDraftUseCase,
+    });
+  });
+
+  // 正常系: 保存済みドラフトの詳細を返却することを検証する
+  it("returns the stored draft", async () => {
+    const draft = {
+      id: "draft-123",
+      status: "draft",
+      caption: "caption",
+      hashtags: ["sneakers"],
+      altText: "alt",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      theme: "春の新作スニーカー",
+      brandVoice: "爽やかで親しみやすい",
+    };
+    getDraft.execute.mockResolvedValue(draft);
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-123"), env);
+
+    expect(response.status).toBe(200);
+    expect(getDraft.execute).toHaveBeenCalledWith("draft-123");
+    expect(await response.json()).toEqual({ id: "draft-123", draft });
+  });
+
+  // 異常系: 存在しないドラフトに対し404を返すことを検証する
+  it("returns 404 when the draft does not exist", async () => {
+    getDraft.execute.mockResolvedValue(null);
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/missing"), env);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { message: "Draft not found" } });
+  });
+});
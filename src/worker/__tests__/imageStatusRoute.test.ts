@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { TrackImageJobUseCase } from "../usecases/trackImageJobUseCase";
+import type { GetDraftImageUseCase } from "../usecases/getDraftImageUseCase";
+import type { WorkerBindings } from "../types";
+
+describe("image status routes", () => {
+  const env = {} as WorkerBindings;
+  let imageJobs: { getStatus: ReturnType<typeof vi.fn> };
+  let draftImage: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    imageJobs = { getStatus: vi.fn() };
+    draftImage = { execute: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      imageJobs: () => imageJobs as unknown as TrackImageJobUseCase,
+      draftImage: () => draftImage as unknown as GetDraftImageUseCase,
+    });
+  });
+
+  // 正常系: 画像ジョブの現在の状態を返却することを検証する
+  it("returns the current image job state", async () => {
+    imageJobs.getStatus.mockResolvedValue({ image: { jobId: "draft-123-image", status: "running" } });
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-123/image-status"), env);
+
+    expect(response.status).toBe(200);
+    expect(imageJobs.getStatus).toHaveBeenCalledWith("draft-123");
+    expect(await response.json()).toEqual({
+      draftId: "draft-123",
+      image: { jobId: "draft-123-image", status: "running" },
+    });
+  });
+
+  // 異常系: 存在しないドラフトに対し404を返すことを検証する
+  it("returns 404 when the draft does not exist", async () => {
+    imageJobs.getStatus.mockResolvedValue(null);
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/missing/image-status"), env);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { message: "Draft not found" } });
+  });
+
+  // 正常系: ストリームが完了状態を通知して接続を閉じることを検証する
+  it("streams the state and closes once the job has finished", async () => {
+    const done = { jobId: "draft-123-image", status: "done", url: "/api/v1/drafts/draft-123/image" };
+    imageJobs.getStatus.mockResolvedValue({ image: done });
+
+    const response = await app.fetch(
+      new Request("http://localhost/api/v1/drafts/draft-123/image-status/stream"),
+      env
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    const body = await response.text();
+    expect(body).toContain("event: image-status");
+    expect(body).toContain(`data: ${JSON.stringify({ draftId: "draft-123", image: done })}`);
+  });
+
+  // 異常系: 存在しないドラフトのストリームは開始せず404を返すことを検証する
+  it("does not open a stream for a missing draft", async () => {
+    imageJobs.getStatus.mockResolvedValue(null);
+
+    const response = await app.fetch(
+      new Request("http://localhost/api/v1/drafts/missing/image-status/stream"),
+      env
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  // 正常系: 生成済み画像をContent-Type付きで配信することを検証する
+  it("serves the generated image", async () => {
+    draftImage.execute.mockResolvedValue({
+      body: new Response(new Uint8Array([1, 2, 3])).body,
+      contentType: "image/png",
+    });
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-123/image"), env);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  // 異常系: 画像が未生成の場合は404を返すことを検証する
+  it("returns 404 when the image has not been generated", async () => {
+    draftImage.execute.mockResolvedValue(null);
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-123/image"), env);
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: { message: "Image not found" } });
+  });
+});
@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { ListDraftsUseCase } from "../usecases/listDraftsUseCase";
+import type { WorkerBindings } from "../types";
+
+describe("GET /api/v1/drafts", () => {
+  const env = {} as WorkerBindings;
+  let listDrafts: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    listDrafts = { execute: vi.fn().mockResolvedValue({ items: [], nextCursor: null }) };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      listDrafts: () => listDrafts as unknown as ListDraftsUseCase,
+    });
+  });
+
+  // 正常系: クエリパラメータを検索条件に変換してユースケースへ委譲することを検証する
+  it("passes parsed filters to the use case", async () => {
+    const response = await app.fetch(
+      new Request(
+        "http://localhost/api/v1/drafts?status=approved&theme=%E6%98%A5&createdFrom=2025-01-01&limit=10&cursor=abc"
+      ),
+      env
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ items: [], nextCursor: null });
+    expect(listDrafts.execute).toHaveBeenCalledWith({
+      status: "approved",
+      theme: "春",
+      brandVoice: undefined,
+      createdFrom: "2025-01-01T00:00:00.000Z",
+      limit: 10,
+      cursor: "abc",
+      brandId: null,
+    });
+  });
+
+  // 異常系: 不正なクエリパラメータに対し400を返すことを検証する
+  it.each([["status=archived"], ["limit=0"], ["createdTo=yesterday"]])("returns 400 for %s", async (query) => {
+    const response = await app.fetch(new Request(`http://localhost/api/v1/drafts?${query}`), env);
+
+    expect(response.status).toBe(400);
+    expect(listDrafts.execute).not.toHaveBeenCalled();
+  });
+});
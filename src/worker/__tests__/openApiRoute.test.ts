@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { createApp, type AppServiceFactories } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { OpenApiDocument } from "../openapi";
+import { KvUsedSignatureStore } from "../infrastructure/kvUsedSignatureStore";
+import { createMemoryKv } from "./support/memoryKv";
+import type { WorkerBindings } from "../types";
+
+describe("GET /api/v1/openapi.json", () => {
+  const env = {} as WorkerBindings;
+  const workflow = { run: vi.fn() } as unknown as DraftGenerationWorkflow;
+
+  const fetchDocument = async (services: AppServiceFactories = {}) => {
+    const app = createApp(() => workflow, services);
+    const response = await app.fetch(new Request("http://localhost/api/v1/openapi.json"), env);
+    return { status: response.status, document: (await response.json()) as OpenApiDocument };
+  };
+
+  // 正常系: 生成エンドポイントのリクエスト・レスポンスのスキーマを共有コントラクトから返すことを検証する
+  it("describes the generate endpoint from the shared contract", async () => {
+    const { status, document } = await fetchDocument();
+
+    expect(status).toBe(200);
+    expect(document.openapi).toBe("3.1.0");
+    const generate = document.paths["/api/v1/generate"]?.post;
+    expect(generate?.requestBody?.content["application/json"].schema).toMatchObject({
+      type: "object",
+      required: ["theme"],
+      properties: {
+        theme: { type: "string", minLength: 1 },
+        variants: { type: "integer", minimum: 1, maximum: 3 },
+      },
+    });
+    expect(generate?.responses["201"].content?.["application/json"].schema?.properties?.draft.required).toContain(
+      "caption"
+    );
+    expect(generate?.responses["422"].content?.["application/json"].schema?.properties?.error.type).toBe("object");
+  });
+
+  // 正常系: 有効な機能のエンドポイントだけを含め、パスパラメータとクエリパラメータを記述することを検証する
+  it("includes only the endpoints of enabled features", async () => {
+    const { document } = await fetchDocument({ listDrafts: vi.fn(), getDraft: vi.fn() });
+
+    expect(Object.keys(document.paths)).toEqual(["/api/", "/api/v1/generate", "/api/v1/drafts", "/api/v1/drafts/{id}"]);
+    expect(document.paths["/api/v1/drafts/{id}"]?.get?.parameters).toContainEqual({
+      name: "id",
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    });
+    expect(document.paths["/api/v1/drafts"]?.get?.parameters).toContainEqual({
+      name: "limit",
+      in: "query",
+      required: false,
+      schema: { type: "integer", minimum: 1, maximum: 100, description: "1ページあたりの件数（既定20）" },
+    });
+  });
+
+  // 正常系: 一括生成のアップロードはJSONの配列とCSVの両方のリクエストボディを記述することを検証する
+  it("describes both upload formats of the batch endpoint", async () => {
+    const { document } = await fetchDocument({ batches: vi.fn() });
+
+    const upload = document.paths["/api/v1/generate/batch"]?.post;
+    expect(upload?.requestBody?.content["application/json"].schema).toMatchObject({ type: "array" });
+    expect(upload?.requestBody?.content["text/csv"].schema).toEqual({ type: "string" });
+    expect(upload?.responses["202"].content?.["application/json"].schema?.properties?.batch.required).toContain("rows");
+    expect(document.paths["/api/v1/generate/batch/{id}"]?.get?.responses["404"]).toBeDefined();
+  });
+
+  // 正常系: 署名検証を設定していても、ドキュメントは署名なしで取得できることを検証する
+  it("is served without a request signature", async () => {
+    const services: AppServiceFactories = {
+      signatures: () => ({
+        secret: "test-signing-secret",
+        allowUnsigned: false,
+        usedSignatures: new KvUsedSignatureStore(createMemoryKv().kv),
+        clock: { now: () => new Date() },
+      }),
+    };
+    const { status } = await fetchDocument(services);
+    const unsigned = await createApp(() => workflow, services).fetch(
+      new Request("http://localhost/api/v1/generate", { method: "POST", body: "{}" }),
+      env
+    );
+
+    expect(status).toBe(200);
+    expect(unsigned.status).toBe(401);
+  });
+});
@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { GetDraftUseCase } from "../usecases/getDraftUseCase";
+import type { WorkerBindings } from "../types";
+
+describe("/api/v1/post-workflows", () => {
+  const env = {} as WorkerBindings;
+  let launcher: {
+    start: ReturnType<typeof vi.fn>;
+    status: ReturnType<typeof vi.fn>;
+    sendReview: ReturnType<typeof vi.fn>;
+  };
+  let drafts: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const request = (method: "GET" | "POST", path: string, body?: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request(`http://localhost/api/v1/post-workflows${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    launcher = { start: vi.fn(), status: vi.fn(), sendReview: vi.fn() };
+    // instance-1 はブランドなし、instance-2 は brand-a のドラフトを作成済み
+    const stored: Record<string, { id: string; brandId?: string }> = {
+      "instance-1": { id: "instance-1" },
+      "instance-2": { id: "instance-2", brandId: "brand-a" },
+    };
+    drafts = { execute: vi.fn(async (id: string) => stored[id] ?? null) };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      postWorkflows: () => launcher,
+      getDraft: () => drafts as unknown as GetDraftUseCase,
+    });
+  });
+
+  // 正常系: 検証済みの要求事項でインスタンスを開始し、202で状態を返すことを検証する
+  it("starts an instance and polls its status", async () => {
+    launcher.start.mockResolvedValue({ instanceId: "instance-1", status: "queued" });
+    const output = { draft: { id: "instance-1", status: "approved" }, review: "accepted" };
+    launcher.status.mockResolvedValue({ instanceId: "instance-1", status: "complete", output });
+
+    const started = await request("POST", "", { theme: " 春の新作 ", brandVoice: "爽やか", awaitReview: true });
+    const polled = await request("GET", "/instance-1");
+
+    expect(started.status).toBe(202);
+    expect(await started.json()).toEqual({ instanceId: "instance-1", status: "queued" });
+    expect(launcher.start).toHaveBeenCalledWith(
+      expect.objectContaining({ theme: "春の新作", brandVoice: "爽やか", awaitReview: true })
+    );
+    expect(polled.status).toBe(200);
+    expect(await polled.json()).toEqual({ instanceId: "instance-1", status: "complete", output });
+  });
+
+  // 異常系: 必須の要求事項の欠落には422、awaitReviewの型の不正には400を返し、インスタンスを開始しないことを検証する
+  it("rejects invalid start payloads", async () => {
+    const missingTheme = await request("POST", "", { brandVoice: "爽やか" });
+    const invalidFlag = await request("POST", "", { theme: "春", brandVoice: "爽やか", awaitReview: "yes" });
+
+    expect(missingTheme.status).toBe(422);
+    expect(await missingTheme.json()).toMatchObject({
+      error: { code: "THEME_REQUIRED", fields: [{ field: "theme", code: "THEME_REQUIRED" }] },
+    });
+    expect(invalidFlag.status).toBe(400);
+    expect(await invalidFlag.json()).toEqual({ error: { message: "awaitReview must be a boolean" } });
+    expect(launcher.start).not.toHaveBeenCalled();
+  });
+
+  // 正常系: レビュー判断をインスタンスへ送信し、202を返すことを検証する
+  it("sends review decisions to the instance", async () => {
+    launcher.sendReview.mockResolvedValue(true);
+
+    const response = await request("POST", "/instance-1/review", {
+      decision: "rework",
+      reviewerId: "editor-1",
+      comments: "CTAを明確に",
+    });
+
+    expect(response.status).toBe(202);
+    expect(launcher.sendReview).toHaveBeenCalledWith("instance-1", {
+      decision: "rework",
+      reviewerId: "editor-1",
+      comments: "CTAを明確に",
+      tags: undefined,
+    });
+  });
+
+  // 異常系: 判断の種別・差し戻しコメントの欠落は400、存在しないインスタンスは404を返すことを検証する
+  it("rejects invalid review decisions and unknown instances", async () => {
+    launcher.sendReview.mockResolvedValue(false);
+    launcher.status.mockResolvedValue(null);
+
+    const unknownDecision = await request("POST", "/instance-1/review", { decision: "publish", reviewerId: "editor-1" });
+    const missingComments = await request("POST", "/instance-1/review", { decision: "rework", reviewerId: "editor-1" });
+    const unknownInstance = await request("POST", "/missing/review", { decision: "approve", reviewerId: "editor-1" });
+    const notWaiting = await request("POST", "/instance-1/review", { decision: "approve", reviewerId: "editor-1" });
+    const unknownStatus = await request("GET", "/missing");
+
+    expect(unknownDecision.status).toBe(400);
+    expect(missingComments.status).toBe(400);
+    expect(await missingComments.json()).toEqual({
+      error: { message: "comments are required when requesting rework" },
+    });
+    expect(unknownInstance.status).toBe(404);
+    expect(notWaiting.status).toBe(404);
+    expect(unknownStatus.status).toBe(404);
+    expect(launcher.sendReview).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 別のブランドのドラフトを作成したインスタンスへのレビュー判断は404を返し、送信しないことを検証する
+  it("rejects review decisions for another brand's instance", async () => {
+    launcher.sendReview.mockResolvedValue(true);
+    const decision = { decision: "approve", reviewerId: "editor-1" };
+
+    const otherBrand = await request("POST", "/instance-2/review", decision, { "X-Brand-ID": "brand-b" });
+    const noBrand = await request("POST", "/instance-2/review", decision);
+    const sameBrand = await request("POST", "/instance-2/review", decision, { "X-Brand-ID": "brand-a" });
+
+    expect(otherBrand.status).toBe(404);
+    expect(await otherBrand.json()).toEqual({ error: { message: "Workflow instance not found" } });
+    expect(noBrand.status).toBe(404);
+    expect(sameBrand.status).toBe(202);
+    expect(launcher.sendReview).toHaveBeenCalledTimes(1);
+    expect(launcher.sendReview).toHaveBeenCalledWith("instance-2", expect.objectContaining({ decision: "approve" }));
+  });
+});
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import { ManageGenerationPresetsUseCase } from "../usecases/manageGenerationPresetsUseCase";
+import { D1GenerationPresetRepository } from "../infrastructure/d1GenerationPresetRepository";
+import type { WorkerBindings } from "../types";
+import { createSqliteD1 } from "./support/sqliteD1";
+
+describe("preset routes", () => {
+  const env = {} as WorkerBindings;
+  const clock = { now: () => new Date("2025-03-01T00:00:00.000Z") };
+  let app: ReturnType<typeof createApp>;
+
+  const request = (method: string, path: string, body?: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(async () => {
+    let sequence = 0;
+    const presets = new ManageGenerationPresetsUseCase(
+      new D1GenerationPresetRepository(await createSqliteD1()),
+      { next: () => `preset-${++sequence}` },
+      clock
+    );
+    app = createApp(() => ({}) as DraftGenerationWorkflow, { presets: () => presets });
+  });
+
+  // 正常系: プリセットを保存し、種類・名前順の一覧と種類の絞り込み、削除ができることを検証する
+  it("saves, lists and deletes presets", async () => {
+    const saved = await request("POST", "/api/v1/presets", { kind: "brandVoice", label: "親しみ", value: " 親しみやすい " });
+    await request("POST", "/api/v1/presets", { kind: "targetPersona", value: "20代のアクティブ層" });
+    await request("POST", "/api/v1/presets", { kind: "brandVoice", label: "上品", value: "落ち着いた上品なトーン" });
+
+    expect(saved.status).toBe(201);
+    expect(await saved.json()).toEqual({
+      preset: {
+        id: "preset-1",
+        kind: "brandVoice",
+        label: "親しみ",
+        value: "親しみやすい",
+        createdAt: "2025-03-01T00:00:00.000Z",
+      },
+    });
+
+    const all = (await (await request("GET", "/api/v1/presets")).json()) as { items: { label: string }[] };
+    expect(all.items.map((preset) => preset.label)).toEqual(["上品", "親しみ", "20代のアクティブ層"]);
+    const personas = (await (await request("GET", "/api/v1/presets?kind=targetPersona")).json()) as { items: [] };
+    expect(personas.items).toHaveLength(1);
+
+    expect((await request("DELETE", "/api/v1/presets/preset-1")).status).toBe(204);
+    expect((await request("DELETE", "/api/v1/presets/preset-1")).status).toBe(404);
+  });
+
+  // 正常系: プリセットは保存したブランドの一覧にだけ含まれ、別のブランドからは削除できないことを検証する
+  it("keeps presets per brand", async () => {
+    await request("POST", "/api/v1/presets", { kind: "brandVoice", value: "親しみやすい" }, { "X-Brand-ID": "acme" });
+
+    expect(await (await request("GET", "/api/v1/presets", undefined, { "X-Brand-ID": "acme" })).json()).toMatchObject({
+      items: [{ id: "preset-1" }],
+    });
+    expect(await (await request("GET", "/api/v1/presets")).json()).toEqual({ items: [] });
+    expect((await request("DELETE", "/api/v1/presets/preset-1", undefined, { "X-Brand-ID": "other" })).status).toBe(404);
+  });
+
+  // 異常系: 不正な種類・空の値・型の不正に対し400を返すことを検証する
+  it.each([
+    [{ kind: "product", value: "AirFlex" }],
+    [{ kind: "brandVoice", value: "  " }],
+    [{ kind: "brandVoice", value: "親しみやすい", label: 1 }],
+  ])("returns 400 for %j", async (payload) => {
+    expect((await request("POST", "/api/v1/presets", payload)).status).toBe(400);
+  });
+});
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { createApp, type AppServiceFactories } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import { ManagePromptTemplatesUseCase } from "../usecases/managePromptTemplatesUseCase";
+import { KvPromptTemplateRepository } from "../infrastructure/kvPromptTemplateRepository";
+import { KvUsedSignatureStore } from "../infrastructure/kvUsedSignatureStore";
+import type { RequestSignatureSettings } from "../middleware/requestSignature";
+import { createMemoryKv } from "./support/memoryKv";
+import type { WorkerBindings } from "../types";
+import type { PromptTemplateResponse } from "@/shared/contracts/promptTemplate";
+
+describe("prompt template admin routes", () => {
+  const env = {} as WorkerBindings;
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  let useCase: ManagePromptTemplatesUseCase;
+  let app: ReturnType<typeof createApp>;
+
+  /** Cloudflare Access のJWT "editor-token" だけを受け付ける署名検証の設定 */
+  const signatures = (allowUnsigned = false): RequestSignatureSettings => ({
+    secret: "test-signing-secret",
+    allowUnsigned,
+    access: { verify: async (token) => (token === "editor-token" ? "editor@example.com" : null) },
+    usedSignatures: new KvUsedSignatureStore(createMemoryKv().kv),
+    clock,
+  });
+
+  const request = (path: string, init?: { method?: string; body?: unknown; token?: string | null }) =>
+    app.fetch(
+      new Request(`http://localhost/api/v1/admin/prompt-templates${path}`, {
+        method: init?.method ?? "GET",
+        headers: {
+          "Content-Type": "application/json",
+          ...(init?.token === null ? {} : { "Cf-Access-Jwt-Assertion": init?.token ?? "editor-token" }),
+        },
+        body: init?.body === undefined ? undefined : JSON.stringify(init.body),
+      }),
+      env
+    );
+
+  const createAppWith = (services: AppServiceFactories) => createApp(() => ({}) as DraftGenerationWorkflow, services);
+
+  beforeEach(() => {
+    useCase = new ManagePromptTemplatesUseCase(new KvPromptTemplateRepository(createMemoryKv().kv), clock);
+    app = createAppWith({ promptTemplates: () => useCase, signatures: () => signatures() });
+  });
+
+  // 正常系: バージョンの作成・有効化・ロールバック・一覧取得の一連の操作を検証する
+  it("creates, activates, rolls back and lists templates", async () => {
+    const created = await request("/spring/versions", { method: "POST", body: { body: "{theme}を紹介" } });
+    expect(created.status).toBe(201);
+
+    await request("/spring/versions", { method: "POST", body: { body: "{theme}を{brandVoice}に" } });
+    const activated = await request("/spring/activate", { method: "POST", body: { version: 2 } });
+    expect(activated.status).toBe(200);
+    expect(await activated.json()).toMatchObject({ template: { activeVersion: 2, latestVersion: 2 } });
+
+    const rolledBack = await request("/spring/rollback", { method: "POST" });
+    expect(await rolledBack.json()).toMatchObject({ template: { activeVersion: 1 } });
+
+    const list = await request("");
+    expect(await list.json()).toEqual({ items: [expect.objectContaining({ id: "spring", activeVersion: 1 })] });
+
+    const detail = await request("/spring");
+    expect(((await detail.json()) as PromptTemplateResponse).template.versions).toHaveLength(2);
+  });
+
+  // 異常系: 未知のプレースホルダー・存在しないテンプレート・履歴のないロールバックを検証する
+  it("maps template errors to HTTP statuses", async () => {
+    const invalid = await request("/spring/versions", { method: "POST", body: { body: "{theme} {price}" } });
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: { message: "unknown placeholders: {price}" } });
+
+    expect((await request("/missing")).status).toBe(404);
+    expect((await request("/missing/activate", { method: "POST", body: { version: 1 } })).status).toBe(404);
+
+    await request("/spring/versions", { method: "POST", body: { body: "{theme}" } });
+    expect((await request("/spring/rollback", { method: "POST" })).status).toBe(409);
+    expect((await request("/spring/activate", { method: "POST", body: { version: 0 } })).status).toBe(400);
+  });
+
+  // 異常系: 認証できないリクエストは、開発用に認証を省略した環境でも管理APIに届かないことを検証する
+  it("requires an authenticated client even when unsigned requests are allowed", async () => {
+    const forged = await request("/spring/versions", { method: "POST", body: { body: "{theme}" }, token: "forged" });
+
+    expect((await request("", { token: null })).status).toBe(401);
+    expect(forged.status).toBe(401);
+
+    app = createAppWith({ promptTemplates: () => useCase, signatures: () => signatures(true) });
+    const unsigned = await request("/spring/versions", { method: "POST", body: { body: "{theme}" }, token: null });
+
+    expect(unsigned.status).toBe(403);
+    expect((await request("", { token: null })).status).toBe(403);
+    expect(await useCase.list()).toEqual({ items: [] });
+  });
+
+  // 異常系: 署名検証を設定していないアプリには管理APIを登録しないことを検証する
+  it("is not routed without request authentication", async () => {
+    app = createAppWith({ promptTemplates: () => useCase });
+
+    expect((await request("")).status).toBe(404);
+  });
+});
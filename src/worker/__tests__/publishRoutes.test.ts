@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import {
+  DraftNotPublishableError,
+  PublishFailedError,
+  type PublishDraftUseCase,
+} from "../usecases/publishDraftUseCase";
+import type { WorkerBindings } from "../types";
+
+describe("publish routes", () => {
+  const env = {} as WorkerBindings;
+  let publishing: { execute: ReturnType<typeof vi.fn>; history: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const publish = (headers: Record<string, string> = {}) =>
+    app.fetch(new Request("http://localhost/api/v1/drafts/draft-1/publish", { method: "POST", headers }), env);
+
+  beforeEach(() => {
+    publishing = { execute: vi.fn(), history: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      publishing: () => publishing as unknown as PublishDraftUseCase,
+    });
+  });
+
+  // 正常系: 公開をユースケースへ委譲し、公開後のバージョンをETagで返すことを検証する
+  it("publishes the draft", async () => {
+    publishing.execute.mockResolvedValue({
+      draft: { id: "draft-1", status: "published", version: 5 },
+      attempt: { id: "log-1", outcome: "published", mediaId: "media-1" },
+    });
+
+    const response = await publish({ "If-Match": '"3"' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"5"');
+    expect(publishing.execute).toHaveBeenCalledWith({ draftId: "draft-1", expectedVersion: 3 });
+  });
+
+  // 異常系: レート制限は429とRetry-After、その他の投稿先のエラーは502を返すことを検証する
+  it("maps publisher failures", async () => {
+    publishing.execute.mockRejectedValueOnce(new PublishFailedError("rate_limited", "Too many calls", 120));
+    const limited = await publish();
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBe("120");
+    expect(await limited.json()).toEqual({ error: { message: "Too many calls", code: "rate_limited" } });
+
+    publishing.execute.mockRejectedValueOnce(new PublishFailedError("rejected", "Invalid image"));
+    const rejected = await publish();
+    expect(rejected.status).toBe(502);
+    expect(await rejected.json()).toEqual({ error: { message: "Invalid image", code: "rejected" } });
+  });
+
+  // 異常系: 公開できないドラフトは409、存在しないドラフトは404を返すことを検証する
+  it("rejects drafts that cannot be published", async () => {
+    publishing.execute.mockRejectedValueOnce(new DraftNotPublishableError("draft has no generated image to publish"));
+    expect((await publish()).status).toBe(409);
+
+    publishing.execute.mockResolvedValueOnce(null);
+    expect((await publish()).status).toBe(404);
+    expect((await publish({ "If-Match": "latest" })).status).toBe(400);
+
+    publishing.history.mockResolvedValueOnce(null);
+    const logs = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-1/publish-logs"), env);
+    expect(logs.status).toBe(404);
+  });
+});
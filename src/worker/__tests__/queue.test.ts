@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import { createQueueHandler } from "../queue";
+import type { GenerateDraftImageUseCase } from "../usecases/generateDraftImageUseCase";
+import { PublishFailedError, type PublishDraftUseCase } from "../usecases/publishDraftUseCase";
+import { DraftVersionConflictError } from "../usecases/updateDraftUseCase";
+import type { DraftBatchWorkflow } from "../workflows/draftBatchWorkflow";
+import type { WorkerBindings, WorkerQueuePayload } from "../types";
+
+describe("queue handler", () => {
+  const env = {} as WorkerBindings;
+
+  const createMessage = (attempts: number) => ({
+    body: { type: "generate_image", draftId: "draft-123", prompt: "街を歩く若者" } as WorkerQueuePayload,
+    attempts,
+    ack: vi.fn(),
+    retry: vi.fn(),
+  });
+
+  const createUseCase = () => ({
+    execute: vi.fn().mockResolvedValue({ status: "generated", imageKey: "drafts/draft-123/original.png" }),
+    recordFailure: vi.fn().mockResolvedValue(undefined),
+  });
+
+  const run = async (useCase: ReturnType<typeof createUseCase>, messages: ReturnType<typeof createMessage>[]) => {
+    const handler = createQueueHandler(() => useCase as unknown as GenerateDraftImageUseCase, {
+      maxAttempts: 3,
+      baseRetryDelaySeconds: 10,
+    });
+    await handler({ messages } as unknown as MessageBatch<WorkerQueuePayload>, env);
+  };
+
+  // 正常系: 画像生成ジョブを処理してackすることを検証する
+  it("acks messages after the image is generated", async () => {
+    const useCase = createUseCase();
+    const message = createMessage(1);
+
+    await run(useCase, [message]);
+
+    expect(useCase.execute).toHaveBeenCalledWith({ draftId: "draft-123", prompt: "街を歩く若者" });
+    expect(message.ack).toHaveBeenCalled();
+  });
+
+  // 異常系: 一時的な失敗は指数バックオフで再配信することを検証する
+  it("retries failed jobs with backoff before the attempt limit", async () => {
+    const useCase = createUseCase();
+    useCase.execute.mockRejectedValue(new Error("model overloaded"));
+    const message = createMessage(2);
+
+    await run(useCase, [message]);
+
+    expect(message.retry).toHaveBeenCalledWith({ delaySeconds: 20 });
+    expect(useCase.recordFailure).not.toHaveBeenCalled();
+  });
+
+  // 異常系: リトライ上限に達した場合は失敗を記録してackすることを検証する
+  it("records the failure and acks on the last attempt", async () => {
+    const useCase = createUseCase();
+    const error = new Error("model overloaded");
+    useCase.execute.mockRejectedValue(error);
+    const message = createMessage(3);
+
+    await run(useCase, [message]);
+
+    expect(useCase.recordFailure).toHaveBeenCalledWith("draft-123", error);
+    expect(message.ack).toHaveBeenCalled();
+    expect(message.retry).not.toHaveBeenCalled();
+  });
+
+  // 正常系・異常系: 公開タスクは投入時のバージョンで公開し、変更済み・拒否された公開失敗はack、一時的な失敗は再配信することを検証する
+  it("publishes scheduled drafts at the dispatched version", async () => {
+    const publishing = { execute: vi.fn().mockResolvedValue({}) };
+    const handler = createQueueHandler(
+      () => createUseCase() as unknown as GenerateDraftImageUseCase,
+      { maxAttempts: 3, baseRetryDelaySeconds: 10 },
+      () => publishing as unknown as PublishDraftUseCase
+    );
+    const messages = [1, 1, 1, 1, 2, 3].map((attempts) => ({
+      body: { type: "publish_draft", draftId: "draft-123", version: 4 } as WorkerQueuePayload,
+      attempts,
+      ack: vi.fn(),
+      retry: vi.fn(),
+    }));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    publishing.execute
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new DraftVersionConflictError(4, 5))
+      .mockRejectedValueOnce(new PublishFailedError("rejected", "Invalid media"))
+      .mockRejectedValueOnce(new Error("D1 unavailable"))
+      .mockRejectedValueOnce(new PublishFailedError("rate_limited", "Too many calls", 60))
+      .mockRejectedValueOnce(new PublishFailedError("unavailable", "Graph API is down"));
+
+    await handler({ messages } as unknown as MessageBatch<WorkerQueuePayload>, env);
+
+    expect(publishing.execute).toHaveBeenNthCalledWith(1, {
+      draftId: "draft-123",
+      expectedVersion: 4,
+      retryingFailure: false,
+    });
+    expect(publishing.execute).toHaveBeenNthCalledWith(5, {
+      draftId: "draft-123",
+      expectedVersion: 4,
+      retryingFailure: true,
+    });
+    expect(messages.map((message) => message.ack.mock.calls.length)).toEqual([1, 1, 1, 0, 0, 1]);
+    expect(messages[3].retry).toHaveBeenCalledWith({ delaySeconds: 10 });
+    expect(messages[4].retry).toHaveBeenCalledWith({ delaySeconds: 60 });
+    vi.restoreAllMocks();
+  });
+
+  // 正常系・異常系: 一括生成の行は処理後にack、失敗は再配信し、上限到達時に行の失敗を記録してackすることを検証する
+  it("processes batch rows and records the failure on the last attempt", async () => {
+    const rows = {
+      processRow: vi.fn().mockResolvedValue(undefined),
+      recordRowFailure: vi.fn().mockResolvedValue(undefined),
+    };
+    const handler = createQueueHandler(
+      () => createUseCase() as unknown as GenerateDraftImageUseCase,
+      { maxAttempts: 3, baseRetryDelaySeconds: 10 },
+      undefined,
+      () => rows as unknown as DraftBatchWorkflow
+    );
+    const messages = [1, 2, 3].map((attempts) => ({
+      body: { type: "generate_batch_row", batchId: "batch-1", index: attempts } as WorkerQueuePayload,
+      attempts,
+      ack: vi.fn(),
+      retry: vi.fn(),
+    }));
+    const error = new Error("model overloaded");
+    rows.processRow.mockResolvedValueOnce(undefined).mockRejectedValue(error);
+
+    await handler({ messages } as unknown as MessageBatch<WorkerQueuePayload>, env);
+
+    expect(rows.processRow).toHaveBeenCalledWith({ batchId: "batch-1", index: 1 });
+    expect(messages.map((message) => message.ack.mock.calls.length)).toEqual([1, 0, 1]);
+    expect(messages[1].retry).toHaveBeenCalledWith({ delaySeconds: 20 });
+    expect(rows.recordRowFailure).toHaveBeenCalledTimes(1);
+    expect(rows.recordRowFailure).toHaveBeenCalledWith({ batchId: "batch-1", index: 3 }, error);
+  });
+});
@@ -0,0 +1,83 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { ReviewDraftUseCase } from "../usecases/reviewDraftUseCase";
+import { InvalidDraftTransitionError } from "../domain/postDraft";
+import { InvalidReviewFeedbackError } from "../domain/reviewFeedback";
+import type { WorkerBindings } from "../types";
+
+describe("review routes", () => {
+  const env = {} as WorkerBindings;
+  let reviews: {
+    approve: ReturnType<typeof vi.fn>;
+    requestRework: ReturnType<typeof vi.fn>;
+    history: ReturnType<typeof vi.fn>;
+  };
+  let app: ReturnType<typeof createApp>;
+
+  const post = (action: string, body: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request(`http://localhost/api/v1/drafts/draft-1/review/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    reviews = { approve: vi.fn(), requestRework: vi.fn(), history: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      reviews: () => reviews as unknown as ReviewDraftUseCase,
+    });
+  });
+
+  // 正常系: 承認・差し戻しをユースケースへ委譲し、If-Matchのバージョンを渡すことを検証する
+  it("delegates approve and rework decisions", async () => {
+    const decision = { draft: { id: "draft-1", status: "approved", version: 3 }, feedback: { id: "review-1" } };
+    reviews.approve.mockResolvedValue(decision);
+    reviews.requestRework.mockResolvedValue(decision);
+
+    const approved = await post("approve", { reviewerId: "editor-1", tags: ["tone"] }, { "If-Match": '"2"' });
+    await post("rework", { reviewerId: "editor-1", comments: "トーンを柔らかく" });
+
+    expect(approved.status).toBe(200);
+    expect(approved.headers.get("ETag")).toBe('"3"');
+    expect(reviews.approve).toHaveBeenCalledWith({
+      draftId: "draft-1",
+      reviewerId: "editor-1",
+      comments: undefined,
+      tags: ["tone"],
+      expectedVersion: 2,
+    });
+    expect(reviews.requestRework).toHaveBeenCalledWith(
+      expect.objectContaining({ comments: "トーンを柔らかく", expectedVersion: undefined })
+    );
+  });
+
+  // 異常系: 入力不正は400、遷移できない状態は409、存在しないドラフトは404を返すことを検証する
+  it("maps invalid input, illegal transitions and missing drafts", async () => {
+    expect((await post("approve", { comments: "OK" })).status).toBe(400);
+
+    reviews.requestRework.mockRejectedValue(new InvalidReviewFeedbackError("comments are required"));
+    expect((await post("rework", { reviewerId: "editor-1" })).status).toBe(400);
+
+    reviews.approve.mockRejectedValueOnce(new InvalidDraftTransitionError("approved", "approved"));
+    const conflict = await post("approve", { reviewerId: "editor-1" });
+    expect(conflict.status).toBe(409);
+    expect(await conflict.json()).toMatchObject({ error: { status: "approved" } });
+
+    reviews.approve.mockResolvedValueOnce(null);
+    expect((await post("approve", { reviewerId: "editor-1" })).status).toBe(404);
+  });
+
+  // 正常系: レビュー履歴を返すことを検証する
+  it("returns the review history", async () => {
+    reviews.history.mockResolvedValue({ draftId: "draft-1", status: "approved", items: [] });
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-1/reviews"), env);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ draftId: "draft-1", status: "approved", items: [] });
+  });
+});
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { ScheduleDraftUseCase } from "../usecases/scheduleDraftUseCase";
+import { DraftVersionConflictError } from "../usecases/updateDraftUseCase";
+import { InvalidDraftScheduleError } from "../domain/draftSchedule";
+import type { WorkerBindings } from "../types";
+
+describe("/api/v1/drafts/:id/schedule", () => {
+  const env = {} as WorkerBindings;
+  let scheduling: { schedule: ReturnType<typeof vi.fn>; unschedule: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const request = (method: "PUT" | "DELETE", body?: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request("http://localhost/api/v1/drafts/draft-1/schedule", {
+        method,
+        headers: { "Content-Type": "application/json", ...headers },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    scheduling = { schedule: vi.fn(), unschedule: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      scheduling: () => scheduling as unknown as ScheduleDraftUseCase,
+    });
+  });
+
+  // 正常系: 予約の設定・取り消しをユースケースへ委譲し、新しいETagを返すことを検証する
+  it("reschedules and unschedules drafts", async () => {
+    const draft = {
+      id: "draft-1",
+      version: 4,
+      schedule: { scheduledAt: "2025-03-01T00:00:00.000Z", timezone: "Asia/Tokyo" },
+    };
+    scheduling.schedule.mockResolvedValue(draft);
+    scheduling.unschedule.mockResolvedValue({ ...draft, version: 5, schedule: undefined });
+
+    const scheduled = await request(
+      "PUT",
+      { scheduledAt: "2025-03-01T09:00", timezone: "Asia/Tokyo" },
+      { "If-Match": '"3"' }
+    );
+    const unscheduled = await request("DELETE");
+
+    expect(scheduled.status).toBe(200);
+    expect(scheduled.headers.get("ETag")).toBe('"4"');
+    expect(await scheduled.json()).toEqual({ id: "draft-1", draft });
+    expect(scheduling.schedule).toHaveBeenCalledWith({
+      draftId: "draft-1",
+      scheduledAt: "2025-03-01T09:00",
+      timezone: "Asia/Tokyo",
+      expectedVersion: 3,
+    });
+    expect(unscheduled.headers.get("ETag")).toBe('"5"');
+    expect(scheduling.unschedule).toHaveBeenCalledWith({ draftId: "draft-1", expectedVersion: undefined });
+  });
+
+  // 異常系: 入力不正・不正な予約は400、競合は409、存在しないドラフトは404を返すことを検証する
+  it("maps invalid schedules, conflicts and missing drafts", async () => {
+    expect((await request("PUT", { scheduledAt: "2025-03-01T09:00" })).status).toBe(400);
+
+    scheduling.schedule.mockRejectedValueOnce(new InvalidDraftScheduleError("scheduledAt must be in the future"));
+    const past = await request("PUT", { scheduledAt: "2020-01-01T09:00", timezone: "Asia/Tokyo" });
+    expect(past.status).toBe(400);
+    expect(await past.json()).toEqual({ error: { message: "scheduledAt must be in the future" } });
+
+    scheduling.unschedule.mockRejectedValueOnce(new DraftVersionConflictError(3, 4));
+    expect((await request("DELETE", undefined, { "If-Match": '"3"' })).status).toBe(409);
+
+    scheduling.unschedule.mockResolvedValueOnce(null);
+    expect((await request("DELETE")).status).toBe(404);
+  });
+});
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import type { SelectCaptionVariantUseCase } from "../usecases/selectCaptionVariantUseCase";
+import { InvalidCaptionVariantError } from "../domain/captionVariant";
+import type { WorkerBindings } from "../types";
+
+describe("POST /api/v1/drafts/:id/variants/select", () => {
+  const env = {} as WorkerBindings;
+  let selectVariant: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const select = (body: unknown) =>
+    app.fetch(
+      new Request("http://localhost/api/v1/drafts/draft-123/variants/select", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    selectVariant = { execute: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      selectVariant: () => selectVariant as unknown as SelectCaptionVariantUseCase,
+    });
+  });
+
+  // 正常系: 指定された案の番号をユースケースへ委譲し、採用後のドラフトを返すことを検証する
+  it("selects the variant and returns the updated draft", async () => {
+    selectVariant.execute.mockResolvedValue({ id: "draft-123", selectedVariant: 1, version: 3 });
+
+    const response = await select({ index: 1 });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"3"');
+    expect(selectVariant.execute).toHaveBeenCalledWith({ id: "draft-123", index: 1 });
+  });
+
+  // 異常系: 番号が不正な場合と存在しない案の場合に400を返すことを検証する
+  it("returns 400 for an invalid or unknown index", async () => {
+    expect((await select({ index: "1" })).status).toBe(400);
+    expect(selectVariant.execute).not.toHaveBeenCalled();
+
+    selectVariant.execute.mockRejectedValue(new InvalidCaptionVariantError("draft has no caption variant 5"));
+    const response = await select({ index: 5 });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { message: "draft has no caption variant 5" } });
+  });
+
+  // 異常系: ドラフトが存在しない場合に404を返すことを検証する
+  it("returns 404 when the draft does not exist", async () => {
+    selectVariant.execute.mockResolvedValue(null);
+
+    expect((await select({ index: 0 })).status).toBe(404);
+  });
+});
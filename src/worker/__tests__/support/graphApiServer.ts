@@ -0,0 +1,63 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+/**
+ * 代替サーバーが受け取ったリクエスト
+ */
+export type RecordedGraphRequest = {
+  method: string;
+  path: string;
+  authorization?: string;
+  params: Record<string, string>;
+};
+
+/**
+ * 代替サーバーが返す応答
+ */
+export type GraphApiReply = {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+};
+
+/**
+ * Meta Graph APIのローカル代替サーバー
+ *
+ * 127.0.0.1の空きポートで待ち受け、受け取ったフォームパラメータを記録する。
+ * エッジ名（media・media_publish）ごとに応答を差し替えられる。
+ */
+export async function startGraphApiServer(replies: Record<string, GraphApiReply>) {
+  const requests: RecordedGraphRequest[] = [];
+
+  const server: Server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? "/", "http://127.0.0.1").pathname;
+    requests.push({
+      method: req.method ?? "GET",
+      path,
+      authorization: req.headers.authorization,
+      params: Object.fromEntries(new URLSearchParams(await readBody(req))),
+    });
+
+    const reply = replies[path.split("/").pop() ?? ""] ?? { status: 404, body: { error: { message: "Unknown edge" } } };
+    res.writeHead(reply.status ?? 200, { "Content-Type": "application/json", ...reply.headers });
+    res.end(JSON.stringify(reply.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v21.0`,
+    requests,
+    replies,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
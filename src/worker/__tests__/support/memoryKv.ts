@@ -0,0 +1,46 @@
+/**
+ * KVNamespaceのメモリ内代替実装（テスト専用）
+ *
+ * リポジトリやミドルウェアが利用する get/put/delete/list を Map の上に実装する。
+ * list はプレフィックス一致のキーを名前順に返し、limit と cursor によるページングに対応する。
+ * expirationTtl は保存しておき、検証から参照できるようにする。
+ */
+
+export type MemoryKv = {
+  kv: KVNamespace;
+  store: Map<string, string>;
+  ttls: Map<string, number | undefined>;
+};
+
+export function createMemoryKv(): MemoryKv {
+  const store = new Map<string, string>();
+  const ttls = new Map<string, number | undefined>();
+
+  const kv = {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string, options?: { expirationTtl?: number }) => {
+      store.set(key, value);
+      ttls.set(key, options?.expirationTtl);
+    },
+    delete: async (key: string) => {
+      store.delete(key);
+      ttls.delete(key);
+    },
+    list: async (options: { prefix?: string; limit?: number; cursor?: string } = {}) => {
+      const names = Array.from(store.keys())
+        .filter((name) => name.startsWith(options.prefix ?? ""))
+        .sort();
+      const start = options.cursor ? Number(options.cursor) : 0;
+      const limit = options.limit ?? 1000;
+      const page = names.slice(start, start + limit);
+      const complete = start + limit >= names.length;
+      return {
+        keys: page.map((name) => ({ name })),
+        list_complete: complete,
+        cursor: complete ? undefined : String(start + limit),
+      };
+    },
+  } as unknown as KVNamespace;
+
+  return { kv, store, ttls };
+}
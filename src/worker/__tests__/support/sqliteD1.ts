@@ -0,0 +1,106 @@
+/**
+ * D1Databaseのローカル代替実装（テスト専用）
+ *
+ * sql.js（WASM版SQLite）の上に、リポジトリが利用するD1 APIの
+ * prepare/bind/first/all/run/batch/exec を実装する。
+ * migrations/ のSQLを順に適用した状態で返すため、本番と同じスキーマで検証できる。
+ */
+
+import initSqlJs, { type Database, type SqlValue } from "sql.js";
+
+const migrations = import.meta.glob<string>("/migrations/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+type BoundValue = string | number | boolean | null | ArrayBuffer;
+
+class SqlitePreparedStatement {
+  constructor(
+    private readonly db: Database,
+    private readonly query: string,
+    private readonly params: BoundValue[] = []
+  ) {}
+
+  bind(...values: BoundValue[]): SqlitePreparedStatement {
+    return new SqlitePreparedStatement(this.db, this.query, values);
+  }
+
+  async first<T>(column?: string): Promise<T | null> {
+    const [row] = this.select();
+    if (!row) return null;
+    return (column ? row[column] : row) as T;
+  }
+
+  async all<T>(): Promise<{ results: T[]; success: true; meta: { changes: number } }> {
+    return { results: this.select() as T[], success: true, meta: { changes: 0 } };
+  }
+
+  async run(): Promise<{ results: []; success: true; meta: { changes: number } }> {
+    return { results: [], success: true, meta: { changes: this.execute() } };
+  }
+
+  execute(): number {
+    this.db.run(this.query, this.sqlParams());
+    return this.db.getRowsModified();
+  }
+
+  private select(): Record<string, SqlValue>[] {
+    const statement = this.db.prepare(this.query);
+    try {
+      statement.bind(this.sqlParams());
+      const rows: Record<string, SqlValue>[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject());
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  private sqlParams(): SqlValue[] {
+    return this.params.map((value) => {
+      if (typeof value === "boolean") return value ? 1 : 0;
+      if (value instanceof ArrayBuffer) return new Uint8Array(value);
+      return value;
+    });
+  }
+}
+
+/**
+ * マイグレーション適用済みのD1代替インスタンスを生成する
+ */
+export async function createSqliteD1(): Promise<D1Database> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  for (const path of Object.keys(migrations).sort()) {
+    db.exec(migrations[path]);
+  }
+
+  const d1 = {
+    prepare: (query: string) => new SqlitePreparedStatement(db, query),
+    batch: async (statements: SqlitePreparedStatement[]) => {
+      db.exec("BEGIN");
+      try {
+        const results = [];
+        for (const statement of statements) {
+          results.push(await statement.run());
+        }
+        db.exec("COMMIT");
+        return results;
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+    exec: async (query: string) => {
+      db.exec(query);
+      return { count: 0, duration: 0 };
+    },
+  };
+
+  return d1 as unknown as D1Database;
+}
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../app";
+import type { DraftGenerationWorkflow } from "../workflows/draftGenerationWorkflow";
+import { DraftVersionConflictError, type UpdateDraftUseCase } from "../usecases/updateDraftUseCase";
+import { PlatformRuleViolationError } from "../domain/platformRules";
+import { DraftNotEditableError } from "../domain/postDraft";
+import type { WorkerBindings } from "../types";
+
+describe("PATCH /api/v1/drafts/:id", () => {
+  const env = {} as WorkerBindings;
+  let updateDraft: { execute: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const patch = (body: unknown, headers: Record<string, string> = {}) =>
+    app.fetch(
+      new Request("http://localhost/api/v1/drafts/draft-123", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    updateDraft = { execute: vi.fn() };
+    app = createApp(() => ({}) as DraftGenerationWorkflow, {
+      updateDraft: () => updateDraft as unknown as UpdateDraftUseCase,
+    });
+  });
+
+  // 正常系: If-MatchのETagから編集元バージョンを読み取りユースケースへ委譲することを検証する
+  it("applies edits and returns the new ETag", async () => {
+    updateDraft.execute.mockResolvedValue({ id: "draft-123", caption: "新キャプション", version: 3 });
+
+    const response = await patch({ caption: "新キャプション" }, { "If-Match": 'W/"2"' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"3"');
+    expect(updateDraft.execute).toHaveBeenCalledWith({
+      id: "draft-123",
+      expectedVersion: 2,
+      changes: { caption: "新キャプション" },
+    });
+  });
+
+  // 異常系: If-Matchヘッダーがない場合に428を返すことを検証する
+  it("returns 428 without If-Match", async () => {
+    const response = await patch({ caption: "新キャプション" });
+
+    expect(response.status).toBe(428);
+    expect(updateDraft.execute).not.toHaveBeenCalled();
+  });
+
+  // 異常系: 同時編集で先に保存されていた場合に409と最新バージョンを返すことを検証する
+  it("returns 409 on a version conflict", async () => {
+    updateDraft.execute.mockRejectedValue(new DraftVersionConflictError(1, 2));
+
+    const response = await patch({ caption: "新キャプション" }, { "If-Match": "1" });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: { currentVersion: 2 } });
+  });
+
+  // 異常系: 公開済みのドラフトの編集に対し409とエラーコードを返すことを検証する
+  it("returns 409 for drafts that can no longer be edited", async () => {
+    updateDraft.execute.mockRejectedValue(new DraftNotEditableError("published"));
+
+    const response = await patch({ caption: "新キャプション" }, { "If-Match": "4" });
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: { message: "Cannot edit a draft that is published", code: "DRAFT_NOT_EDITABLE" },
+    });
+  });
+
+  // 異常系: 編集後の内容がプラットフォームのルールに違反する場合に、フィールドごとのエラーを422で返すことを検証する
+  it("returns 422 with field errors for rule violations", async () => {
+    updateDraft.execute.mockRejectedValue(
+      new PlatformRuleViolationError("instagram", "caption", "caption with hashtags must be 2200 characters or fewer for Instagram")
+    );
+
+    const response = await patch({ caption: "長いキャプション" }, { "If-Match": "1" });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      error: { code: "CAPTION_TOO_LONG", fields: [{ field: "caption", code: "CAPTION_TOO_LONG" }] },
+    });
+  });
+
+  // 異常系: 型が不正なフィールドに対し400を返すことを検証する
+  it("returns 400 for invalid field types", async () => {
+    const response = await patch({ hashtags: "sneakers" }, { "If-Match": "1" });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { message: expect.stringContaining("hashtags") } });
+  });
+});
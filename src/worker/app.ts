@@ -13,9 +13,123 @@
 
 import { Hono } from "hono";
 import type { Context } from "hono";
-import type { DraftGenerationWorkflow, DraftGenerationInput } from "./workflows/draftGenerationWorkflow";
+import { streamSSE } from "hono/streaming";
+import type { DraftGenerationWorkflow } from "./workflows/draftGenerationWorkflow";
+import type { GetDraftUseCase } from "./usecases/getDraftUseCase";
+import type { TrackImageJobUseCase } from "./usecases/trackImageJobUseCase";
+import type { GetDraftImageUseCase } from "./usecases/getDraftImageUseCase";
+import {
+  PromptTemplateNotFoundError,
+  type ManagePromptTemplatesUseCase,
+} from "./usecases/managePromptTemplatesUseCase";
+import { InvalidPromptTemplateError } from "./domain/promptTemplate";
+import { InvalidDraftCursorError, type ListDraftsUseCase } from "./usecases/listDraftsUseCase";
+import { DraftVersionConflictError, type UpdateDraftUseCase } from "./usecases/updateDraftUseCase";
+import type { SelectCaptionVariantUseCase } from "./usecases/selectCaptionVariantUseCase";
+import type { ReviewDecisionInput, ReviewDraftUseCase } from "./usecases/reviewDraftUseCase";
+import type { ScheduleDraftUseCase } from "./usecases/scheduleDraftUseCase";
+import type { PostWorkflowLauncher } from "./workflows/snsPostPipeline";
+import { idempotency, type IdempotencyStore } from "./middleware/idempotency";
+import {
+  generationQuota,
+  quotaExceededResponse,
+  rateLimit,
+  reserveGenerations,
+  type RateLimitSettings,
+} from "./middleware/rateLimit";
+import {
+  requestSignature,
+  requireAuthenticatedClient,
+  type RequestSignatureSettings,
+} from "./middleware/requestSignature";
+import {
+  brandAccess,
+  brandForbiddenResponse,
+  canUseBrand,
+  draftBrandScope,
+  requestBrandId,
+  requireBrandAdmin,
+  type BrandAccessSettings,
+} from "./middleware/brandScope";
+import { errorMapping } from "./middleware/errorMapping";
+import { BrandNotFoundError, type ManageBrandsUseCase } from "./usecases/manageBrandsUseCase";
+import { InvalidBrandError } from "./domain/brand";
+import type { ManageGenerationPresetsUseCase } from "./usecases/manageGenerationPresetsUseCase";
+import { InvalidGenerationPresetError } from "./domain/generationPreset";
+import type {
+  GenerationBatchEntry,
+  ManageGenerationBatchesUseCase,
+} from "./usecases/manageGenerationBatchesUseCase";
+import { InvalidGenerationBatchError } from "./domain/generationBatch";
+import { InvalidDraftScheduleError } from "./domain/draftSchedule";
+import { InvalidReviewFeedbackError } from "./domain/reviewFeedback";
+import {
+  DraftNotPublishableError,
+  PublishFailedError,
+  type PublishDraftUseCase,
+} from "./usecases/publishDraftUseCase";
+import { InvalidCaptionVariantError } from "./domain/captionVariant";
+import { BlockingComplianceViolationError, InvalidDraftTransitionError } from "./domain/postDraft";
+import { DomainValidationError } from "./domain/errors";
+import { PlatformRuleViolationError } from "./domain/platformRules";
 import type { WorkerBindings } from "./types";
-import type { DraftGenerationResponse } from "@/shared/contracts/draft";
+import { createOpenApiDocument } from "./openapi";
+import { formatIssues, type Schema } from "@/shared/schema";
+import { CsvSyntaxError, parseCsvRecords } from "@/shared/csv";
+import {
+  draftGenerationRequestSchema,
+  draftListQuerySchema,
+  draftScheduleRequestSchema,
+  draftUpdateRequestSchema,
+  selectCaptionVariantRequestSchema,
+  type DraftDetail,
+  type DraftDetailResponse,
+  type DraftGenerationResponse,
+  type DraftImageStatusResponse,
+  type DraftListResponse,
+} from "@/shared/contracts/draft";
+import {
+  activatePromptTemplateRequestSchema,
+  createPromptTemplateVersionRequestSchema,
+  type PromptTemplateListResponse,
+  type PromptTemplateResponse,
+} from "@/shared/contracts/promptTemplate";
+import {
+  createBrandRequestSchema,
+  updateBrandRequestSchema,
+  type BrandListResponse,
+  type BrandResponse,
+} from "@/shared/contracts/brand";
+import {
+  createGenerationPresetRequestSchema,
+  generationPresetListQuerySchema,
+  type GenerationPresetListResponse,
+  type GenerationPresetResponse,
+} from "@/shared/contracts/generationPreset";
+import {
+  reviewDecisionRequestSchema,
+  type ReviewDecisionResponse,
+  type ReviewHistoryResponse,
+} from "@/shared/contracts/review";
+import type { PublishDraftResponse, PublishLogListResponse } from "@/shared/contracts/publish";
+import {
+  postWorkflowReviewRequestSchema,
+  postWorkflowStartRequestSchema,
+  type PostWorkflowInstanceResponse,
+} from "@/shared/contracts/postWorkflow";
+import {
+  GENERATION_BATCH_CSV_CONTENT_TYPE,
+  type GenerationBatchResponse,
+} from "@/shared/contracts/generationBatch";
+
+/** 画像ジョブ状態ストリームのポーリング間隔（ミリ秒） */
+const IMAGE_STATUS_POLL_INTERVAL_MS = 2_000;
+
+/** 画像ジョブ状態ストリームの最大接続時間（ミリ秒）。超過後はクライアントの再接続に任せる */
+const IMAGE_STATUS_STREAM_MAX_DURATION_MS = 60_000;
+
+/** 一括生成のCSVで整数として読み取る列（数字だけのセルを数値にする） */
+const CSV_INTEGER_COLUMNS = ["promptTemplateVersion", "variants"];
 
 /**
  * ワークフローファクトリー関数の型定義
@@ -26,6 +140,51 @@ import type { DraftGenerationResponse } from "@/shared/contracts/draft";
  */
 export type WorkflowFactory = (env: WorkerBindings) => DraftGenerationWorkflow;
 
+/**
+ * 追加機能のユースケースファクトリー群
+ * 
+ * ワークフロー以外のエンドポイントが利用するユースケースの構築関数。
+ * 指定されなかった機能のルートは登録しない。
+ */
+export type AppServiceFactories = {
+  /** ドラフト取得ユースケースのファクトリー（GET /api/v1/drafts/:id） */
+  getDraft?: (env: WorkerBindings) => GetDraftUseCase;
+  /** ドラフト一覧ユースケースのファクトリー（GET /api/v1/drafts） */
+  listDrafts?: (env: WorkerBindings) => ListDraftsUseCase;
+  /** ドラフト編集ユースケースのファクトリー（PATCH /api/v1/drafts/:id） */
+  updateDraft?: (env: WorkerBindings) => UpdateDraftUseCase;
+  /** キャプション案採用ユースケースのファクトリー（POST /api/v1/drafts/:id/variants/select） */
+  selectVariant?: (env: WorkerBindings) => SelectCaptionVariantUseCase;
+  /** ドラフトレビューユースケースのファクトリー（/api/v1/drafts/:id/review・/reviews） */
+  reviews?: (env: WorkerBindings) => ReviewDraftUseCase;
+  /** ドラフト公開ユースケースのファクトリー（/api/v1/drafts/:id/publish・/publish-logs） */
+  publishing?: (env: WorkerBindings) => PublishDraftUseCase;
+  /** 予約投稿設定ユースケースのファクトリー（PUT・DELETE /api/v1/drafts/:id/schedule） */
+  scheduling?: (env: WorkerBindings) => ScheduleDraftUseCase;
+  /** 画像ジョブ追跡ユースケースのファクトリー（GET /api/v1/drafts/:id/image-status） */
+  imageJobs?: (env: WorkerBindings) => TrackImageJobUseCase;
+  /** ドラフト画像取得ユースケースのファクトリー（GET /api/v1/drafts/:id/image） */
+  draftImage?: (env: WorkerBindings) => GetDraftImageUseCase;
+  /** プロンプトテンプレート管理ユースケースのファクトリー（/api/v1/admin/prompt-templates、signatures の設定が必要） */
+  promptTemplates?: (env: WorkerBindings) => ManagePromptTemplatesUseCase;
+  /** 冪等性キーストアのファクトリー（POST /api/v1/generate の Idempotency-Key） */
+  idempotency?: (env: WorkerBindings) => IdempotencyStore;
+  /** レート制限設定のファクトリー（/api/v1/* のリクエスト数と生成エンドポイントの1日あたりのクォータ） */
+  rateLimits?: (env: WorkerBindings) => RateLimitSettings;
+  /** 署名検証設定のファクトリー（/api/v1/* の X-Signature・X-Timestamp と Cf-Access-Jwt-Assertion） */
+  signatures?: (env: WorkerBindings) => RequestSignatureSettings;
+  /** 投稿ワークフロー操作のファクトリー（/api/v1/post-workflows、レビュー判断は getDraft の設定が必要） */
+  postWorkflows?: (env: WorkerBindings) => PostWorkflowLauncher;
+  /** ブランド管理ユースケースのファクトリー（/api/v1/brands、signatures・brandAccess の設定が必要） */
+  brands?: (env: WorkerBindings) => ManageBrandsUseCase;
+  /** ブランドの利用権限の設定のファクトリー（X-Brand-ID・ボディの brandId の照合とブランド管理者、signatures の設定が必要） */
+  brandAccess?: (env: WorkerBindings) => BrandAccessSettings;
+  /** 生成プリセット管理ユースケースのファクトリー（/api/v1/presets） */
+  presets?: (env: WorkerBindings) => ManageGenerationPresetsUseCase;
+  /** 一括生成バッチ管理ユースケースのファクトリー（/api/v1/generate/batch） */
+  batches?: (env: WorkerBindings) => ManageGenerationBatchesUseCase;
+};
+
 /**
  * Honoアプリケーションの作成
  * 
@@ -34,17 +193,81 @@ export type WorkflowFactory = (env: WorkerBindings) => DraftGenerationWorkflow;
  * テスタビリティと設定の柔軟性を確保。
  * 
  * @param factory ワークフロー構築のためのファクトリー関数
+ * @param services 追加機能のユースケースファクトリー群
  * @returns 設定済みのHonoアプリケーションインスタンス
  */
-export function createApp(factory: WorkflowFactory) {
+export function createApp(factory: WorkflowFactory, services: AppServiceFactories = {}) {
   const app = new Hono<{ Bindings: WorkerBindings }>();
 
+  /**
+   * エラーマッピング
+   * 
+   * ルートが処理しなかったエラーを、入力値の検証エラーは422（フィールドごとのエラー付き）、
+   * 状態による操作の拒否は409、保存先・キューの障害は503、それ以外は500のレスポンスに変換する。
+   */
+  app.onError(errorMapping());
+
   /**
    * ヘルスチェックエンドポイント
    * アプリケーションの稼働状態を確認するためのシンプルなエンドポイント
    */
   app.get("/api/", (c) => c.json({ name: "Cloudflare" }));
 
+  /**
+   * OpenAPIドキュメント
+   * 
+   * 有効な機能のエンドポイントのリクエスト・レスポンスのスキーマを、ルートの検証と同じ共有コントラクトから返す。
+   * 公開情報のため、署名検証・レート制限より前に登録して誰でも取得できるようにする。
+   */
+  const openApiDocument = createOpenApiDocument(Object.keys(services) as (keyof AppServiceFactories)[]);
+  app.get("/api/v1/openapi.json", (c) => c.json(openApiDocument));
+
+  /**
+   * リクエストの認証（HMAC署名・Cloudflare Access）
+   * 
+   * /api/v1/* への署名のない・改ざんされた・5分以上古い・再利用されたリクエストを401で拒否する。
+   * 自前のUIからのリクエストは Cloudflare Access のJWTで認証する。
+   * レート制限より前に置き、認証できないリクエストではカウンターを更新しない。
+   */
+  if (services.signatures) {
+    app.use("/api/v1/*", requestSignature(services.signatures));
+  }
+
+  /**
+   * レート制限と生成クォータ
+   * 
+   * /api/v1/* のリクエスト数を、認証済みのクライアント（未認証は接続元IP）ごとに制限する。
+   * 生成を伴うエンドポイントは、冪等性キーの判定を通過したリクエストだけを1日あたりのクォータで数える。
+   */
+  const { rateLimits } = services;
+  if (rateLimits) {
+    app.use("/api/v1/*", rateLimit(rateLimits));
+  }
+
+  /**
+   * ブランドの利用権限
+   * 
+   * X-Brand-ID は自己申告のため、認証済みのクライアントに割り当てたブランド以外の指定を403で拒否する。
+   */
+  const brandAccessSettings = services.signatures ? services.brandAccess : undefined;
+  if (brandAccessSettings) {
+    app.use("/api/v1/*", brandAccess(brandAccessSettings));
+  }
+
+  /**
+   * ドラフト生成の冪等性キー
+   * 
+   * 再送された生成リクエストでドラフトと画像ジョブが重複しないよう、
+   * Idempotency-Key ヘッダー付きのリクエストには24時間、最初のレスポンスを返す。
+   */
+  if (services.idempotency) {
+    app.use("/api/v1/generate", idempotency(services.idempotency));
+  }
+  if (rateLimits) {
+    app.use("/api/v1/generate", generationQuota(rateLimits));
+    app.use("/api/v1/post-workflows", generationQuota(rateLimits));
+  }
+
   /**
    * ドラフト生成エンドポイント
    * 
@@ -58,142 +281,1017 @@ export function createApp(factory: WorkflowFactory) {
   app.post("/api/v1/generate", async (c) => {
     // リクエストボディの読み取りとバリデーション
     const body = await readJson(c);
-    if (body.error) {
-      return c.json(body.error, 400);
+    const parsed = body.ok ? validateGenerationRequest(draftGenerationRequestSchema, body.value, requestBrandId(c)) : body;
+    if (!parsed.ok) {
+      return c.json({ error: { message: parsed.error } }, 400);
+    }
+    const forbidden = forbiddenBrandResponse(c, brandAccessSettings, [parsed.value.brandId]);
+    if (forbidden) {
+      return forbidden;
     }
 
     try {
       // 依存関係の解決とワークフロー実行
       const workflow = factory(c.env);
-      const result = await workflow.run(body.value);
+      const result = await workflow.run(parsed.value);
       const responseBody: DraftGenerationResponse = { id: result.id, draft: result };
       
       // 成功レスポンスの生成
       return c.json(responseBody, 201);
     } catch (error) {
-      // エラーレスポンスの生成
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return c.json({ error: { message } }, 400);
+      // 指定されたブランド・テンプレートが存在しない場合はリクエストの誤りとして扱う
+      if (error instanceof BrandNotFoundError || error instanceof PromptTemplateNotFoundError) {
+        return c.json({ error: { message: error.message } }, 400);
+      }
+      // 入力値の検証エラー（422）・基盤の障害（503）はエラーマッピングに委ねる
+      throw error;
     }
   });
 
+  /**
+   * ドラフト一覧エンドポイント
+   * 
+   * 状態・テーマ・ブランドボイス・作成日時の範囲で絞り込み、
+   * 作成日時の降順で返す。続きはレスポンスのnextCursorをcursorに指定して取得する。
+   */
+  const { listDrafts } = services;
+  if (listDrafts) {
+    app.get("/api/v1/drafts", async (c) => {
+      const parsed = validateQuery(draftListQuerySchema, c.req.query());
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        // X-Brand-ID のないリクエストにはブランドに属さないドラフトだけを返す
+        const responseBody: DraftListResponse = await listDrafts(c.env).execute({
+          ...parsed.value,
+          brandId: requestBrandId(c) ?? null,
+        });
+        return c.json(responseBody, 200);
+      } catch (error) {
+        if (error instanceof InvalidDraftCursorError) {
+          return c.json({ error: { message: error.message } }, 400);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * ドラフト取得エンドポイント
+   * 
+   * 保存済みドラフトをIDで取得する。
+   * 存在しない（またはTTL切れの）ドラフトには404を返す。
+   */
+  const { getDraft } = services;
+  if (getDraft) {
+    /**
+     * ドラフトのブランドスコープ
+     * 
+     * /api/v1/drafts/:id 以下の全エンドポイントで、X-Brand-ID と異なるブランドのドラフトを404として扱う。
+     */
+    app.use("/api/v1/drafts/:id/*", draftBrandScope(getDraft));
+
+    app.get("/api/v1/drafts/:id", async (c) => {
+      const draft = await getDraft(c.env).execute(c.req.param("id"));
+      if (!draft) {
+        return c.json({ error: { message: "Draft not found" } }, 404);
+      }
+
+      const responseBody: DraftDetailResponse = { id: draft.id, draft };
+      c.header("ETag", toETag(draft.version));
+      return c.json(responseBody, 200);
+    });
+  }
+
+  /**
+   * ドラフト編集エンドポイント
+   * 
+   * キャプション・ハッシュタグ等の手直しを反映する。
+   * If-Matchヘッダー（バージョン番号またはGETで返したETag）で編集元を指定し、
+   * 他のユーザーが先に編集していた場合は409を返す。
+   */
+  const { updateDraft } = services;
+  if (updateDraft) {
+    app.patch("/api/v1/drafts/:id", async (c) => {
+      const expectedVersion = parseIfMatch(c.req.header("If-Match"));
+      if (expectedVersion === null) {
+        return c.json({ error: { message: "If-Match header with the draft version is required" } }, 428);
+      }
+
+      const parsed = await readRequestBody(c, draftUpdateRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const draft = await updateDraft(c.env).execute({
+          id: c.req.param("id"),
+          expectedVersion,
+          changes: parsed.value,
+        });
+        if (!draft) {
+          return c.json({ error: { message: "Draft not found" } }, 404);
+        }
+
+        const responseBody: DraftDetailResponse = { id: draft.id, draft };
+        c.header("ETag", toETag(draft.version));
+        return c.json(responseBody, 200);
+      } catch (error) {
+        if (error instanceof DraftVersionConflictError) {
+          // 同時編集の検出：クライアントは最新版を取得し直して再編集する
+          return c.json(
+            { error: { message: error.message, currentVersion: error.currentVersion } },
+            409
+          );
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * キャプション案採用エンドポイント
+   * 
+   * 生成時に作られたキャプション案のうち、指定された番号の案を本文に反映する。
+   * 案が存在しない場合や、案が現在のプラットフォームのルールに合わない場合は400を返す。
+   */
+  const { selectVariant } = services;
+  if (selectVariant) {
+    app.post("/api/v1/drafts/:id/variants/select", async (c) => {
+      const parsed = await readRequestBody(c, selectCaptionVariantRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const draft = await selectVariant(c.env).execute({ id: c.req.param("id"), index: parsed.value.index });
+        if (!draft) {
+          return c.json({ error: { message: "Draft not found" } }, 404);
+        }
+
+        const responseBody: DraftDetailResponse = { id: draft.id, draft };
+        c.header("ETag", toETag(draft.version));
+        return c.json(responseBody, 200);
+      } catch (error) {
+        if (error instanceof InvalidCaptionVariantError || error instanceof PlatformRuleViolationError) {
+          return c.json({ error: { message: error.message } }, 400);
+        }
+        if (error instanceof DraftVersionConflictError) {
+          return c.json({ error: { message: error.message, currentVersion: error.currentVersion } }, 409);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * レビューエンドポイント
+   * 
+   * approve は draft → approved、rework は approved / failed → draft に状態を進め、
+   * 判断ごとのフィードバックを記録する。差し戻しにはコメントが必須。
+   * If-Matchヘッダーを指定した場合、レビューしたバージョンが最新でなければ409を返す。
+   * 修正が必要なコンプライアンス違反が残っているドラフトの承認は、違反の一覧とともに409を返す。
+   * 履歴エンドポイントは承認に至るまでのフィードバックを記録順に返す。
+   */
+  const { reviews } = services;
+  if (reviews) {
+    const decisions = {
+      approve: (useCase: ReviewDraftUseCase, input: ReviewDecisionInput) => useCase.approve(input),
+      rework: (useCase: ReviewDraftUseCase, input: ReviewDecisionInput) => useCase.requestRework(input),
+    };
+
+    for (const [action, decide] of Object.entries(decisions)) {
+      app.post(`/api/v1/drafts/:id/review/${action}`, async (c) => {
+        const ifMatch = c.req.header("If-Match");
+        const expectedVersion = ifMatch === undefined ? undefined : parseIfMatch(ifMatch);
+        if (expectedVersion === null) {
+          return c.json({ error: { message: "If-Match header must be a draft version" } }, 400);
+        }
+
+        const parsed = await readRequestBody(c, reviewDecisionRequestSchema);
+        if (!parsed.ok) {
+          return c.json({ error: { message: parsed.error } }, 400);
+        }
+
+        try {
+          const responseBody: ReviewDecisionResponse | null = await decide(reviews(c.env), {
+            ...parsed.value,
+            draftId: c.req.param("id"),
+            expectedVersion,
+          });
+          if (!responseBody) {
+            return c.json({ error: { message: "Draft not found" } }, 404);
+          }
+
+          c.header("ETag", toETag(responseBody.draft.version));
+          return c.json(responseBody, 200);
+        } catch (error) {
+          if (error instanceof InvalidReviewFeedbackError) {
+            return c.json({ error: { message: error.message } }, 400);
+          }
+          if (error instanceof InvalidDraftTransitionError) {
+            return c.json({ error: { message: error.message, status: error.from } }, 409);
+          }
+          if (error instanceof BlockingComplianceViolationError) {
+            return c.json({ error: { message: error.message, violations: error.violations } }, 409);
+          }
+          if (error instanceof DraftVersionConflictError) {
+            return c.json({ error: { message: error.message, currentVersion: error.currentVersion } }, 409);
+          }
+          throw error;
+        }
+      });
+    }
+
+    app.get("/api/v1/drafts/:id/reviews", async (c) => {
+      const responseBody: ReviewHistoryResponse | null = await reviews(c.env).history(c.req.param("id"));
+      if (!responseBody) {
+        return c.json({ error: { message: "Draft not found" } }, 404);
+      }
+      return c.json(responseBody, 200);
+    });
+  }
+
+  /**
+   * 公開エンドポイント
+   * 
+   * 承認済み（または公開失敗）のドラフトを生成画像とともにSNSへ投稿する。
+   * 投稿先のレート制限は429（Retry-Afterヘッダー付き）、その他の投稿先のエラーは502を返す。
+   * いずれの場合もドラフトは failed として保存され、公開ログに試行が記録される。
+   * 公開ログエンドポイントは試行の履歴を記録順に返す。
+   */
+  const { publishing } = services;
+  if (publishing) {
+    app.post("/api/v1/drafts/:id/publish", async (c) => {
+      const ifMatch = c.req.header("If-Match");
+      const expectedVersion = ifMatch === undefined ? undefined : parseIfMatch(ifMatch);
+      if (expectedVersion === null) {
+        return c.json({ error: { message: "If-Match header must be a draft version" } }, 400);
+      }
+
+      try {
+        const responseBody: PublishDraftResponse | null = await publishing(c.env).execute({
+          draftId: c.req.param("id"),
+          expectedVersion,
+        });
+        if (!responseBody) {
+          return c.json({ error: { message: "Draft not found" } }, 404);
+        }
+
+        c.header("ETag", toETag(responseBody.draft.version));
+        return c.json(responseBody, 200);
+      } catch (error) {
+        if (error instanceof PublishFailedError) {
+          if (error.code === "rate_limited") {
+            if (error.retryAfterSeconds !== undefined) {
+              c.header("Retry-After", String(error.retryAfterSeconds));
+            }
+            return c.json({ error: { message: error.message, code: error.code } }, 429);
+          }
+          return c.json({ error: { message: error.message, code: error.code } }, 502);
+        }
+        if (error instanceof InvalidDraftTransitionError) {
+          return c.json({ error: { message: error.message, status: error.from } }, 409);
+        }
+        if (error instanceof DraftNotPublishableError) {
+          return c.json({ error: { message: error.message } }, 409);
+        }
+        if (error instanceof DraftVersionConflictError) {
+          return c.json({ error: { message: error.message, currentVersion: error.currentVersion } }, 409);
+        }
+        throw error;
+      }
+    });
+
+    app.get("/api/v1/drafts/:id/publish-logs", async (c) => {
+      const responseBody: PublishLogListResponse | null = await publishing(c.env).history(c.req.param("id"));
+      if (!responseBody) {
+        return c.json({ error: { message: "Draft not found" } }, 404);
+      }
+      return c.json(responseBody, 200);
+    });
+  }
+
+  /**
+   * 予約投稿エンドポイント
+   * 
+   * PUT は予約日時の設定・変更、DELETE は取り消しを行う。
+   * 予約日時を迎えた承認済みのドラフトはCronトリガーで公開キューへ投入される。
+   * 過去の日時・不明なタイムゾーン・公開処理中または公開済みのドラフトには400を返す。
+   */
+  const { scheduling } = services;
+  if (scheduling) {
+    app.put("/api/v1/drafts/:id/schedule", async (c) => {
+      const ifMatch = c.req.header("If-Match");
+      const expectedVersion = ifMatch === undefined ? undefined : parseIfMatch(ifMatch);
+      if (expectedVersion === null) {
+        return c.json({ error: { message: "If-Match header must be a draft version" } }, 400);
+      }
+
+      const parsed = await readRequestBody(c, draftScheduleRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      return respondWithSchedule(c, () =>
+        scheduling(c.env).schedule({ ...parsed.value, draftId: c.req.param("id"), expectedVersion })
+      );
+    });
+
+    app.delete("/api/v1/drafts/:id/schedule", async (c) => {
+      const ifMatch = c.req.header("If-Match");
+      const expectedVersion = ifMatch === undefined ? undefined : parseIfMatch(ifMatch);
+      if (expectedVersion === null) {
+        return c.json({ error: { message: "If-Match header must be a draft version" } }, 400);
+      }
+
+      return respondWithSchedule(c, () =>
+        scheduling(c.env).unschedule({ draftId: c.req.param("id"), expectedVersion })
+      );
+    });
+  }
+
+  /**
+   * 画像ジョブ状態エンドポイント
+   * 
+   * 画像生成ジョブの状態（queued / running / done / failed）を返す。
+   * ストリーム版はServer-Sent Eventsで状態の変化を通知し、
+   * done または failed になった時点で接続を閉じる。
+   */
+  const { imageJobs } = services;
+  if (imageJobs) {
+    app.get("/api/v1/drafts/:id/image-status", async (c) => {
+      const draftId = c.req.param("id");
+      const status = await imageJobs(c.env).getStatus(draftId);
+      if (!status) {
+        return c.json({ error: { message: "Draft not found" } }, 404);
+      }
+
+      const responseBody: DraftImageStatusResponse = { draftId, image: status.image };
+      return c.json(responseBody, 200);
+    });
+
+    app.get("/api/v1/drafts/:id/image-status/stream", async (c) => {
+      const draftId = c.req.param("id");
+      const useCase = imageJobs(c.env);
+      const initial = await useCase.getStatus(draftId);
+      if (!initial) {
+        return c.json({ error: { message: "Draft not found" } }, 404);
+      }
+
+      return streamSSE(c, async (stream) => {
+        const deadline = Date.now() + IMAGE_STATUS_STREAM_MAX_DURATION_MS;
+        let status: { image: DraftImageStatusResponse["image"] } | null = initial;
+        let lastSent: string | undefined;
+
+        while (status && !stream.aborted) {
+          const data: DraftImageStatusResponse = { draftId, image: status.image };
+          const serialized = JSON.stringify(data);
+          // 変化があったときだけ通知する
+          if (serialized !== lastSent) {
+            await stream.writeSSE({ event: "image-status", data: serialized });
+            lastSent = serialized;
+          }
+
+          const finished = status.image?.status === "done" || status.image?.status === "failed";
+          if (finished || Date.now() >= deadline) {
+            break;
+          }
+
+          await stream.sleep(IMAGE_STATUS_POLL_INTERVAL_MS);
+          status = await useCase.getStatus(draftId);
+        }
+      });
+    });
+  }
+
+  /**
+   * ドラフト画像エンドポイント
+   * 
+   * 生成済みの画像をR2から配信する。未生成の場合は404を返す。
+   */
+  const { draftImage } = services;
+  if (draftImage) {
+    app.get("/api/v1/drafts/:id/image", async (c) => {
+      const image = await draftImage(c.env).execute(c.req.param("id"));
+      if (!image) {
+        return c.json({ error: { message: "Image not found" } }, 404);
+      }
+
+      return c.body(image.body, 200, {
+        "Content-Type": image.contentType,
+        "Cache-Control": "private, max-age=3600",
+      });
+    });
+  }
+
+  /**
+   * プロンプトテンプレート管理エンドポイント
+   * 
+   * マーケターがデプロイなしで生成プロンプトを調整するための管理API。
+   * 本文を変更するたびにバージョンを追加し、生成に使うバージョンを有効化・ロールバックで切り替える。
+   * 生成の指示を書き換えられるため、署名検証を設定した場合だけ登録し、認証済みのクライアントに限る。
+   */
+  const { promptTemplates } = services;
+  if (promptTemplates && services.signatures) {
+    const basePath = "/api/v1/admin/prompt-templates";
+    app.use(basePath, requireAuthenticatedClient());
+    app.use(`${basePath}/*`, requireAuthenticatedClient());
+
+    app.get(basePath, async (c) => {
+      const responseBody: PromptTemplateListResponse = await promptTemplates(c.env).list();
+      return c.json(responseBody, 200);
+    });
+
+    app.get(`${basePath}/:id`, async (c) => {
+      const template = await promptTemplates(c.env).get(c.req.param("id"));
+      if (!template) {
+        return c.json({ error: { message: "Prompt template not found" } }, 404);
+      }
+      const responseBody: PromptTemplateResponse = { template };
+      return c.json(responseBody, 200);
+    });
+
+    app.post(`${basePath}/:id/versions`, async (c) => {
+      const parsed = await readRequestBody(c, createPromptTemplateVersionRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const template = await promptTemplates(c.env).createVersion({ ...parsed.value, templateId: c.req.param("id") });
+        const responseBody: PromptTemplateResponse = { template };
+        return c.json(responseBody, 201);
+      } catch (error) {
+        return promptTemplateErrorResponse(c, error, 400);
+      }
+    });
+
+    app.post(`${basePath}/:id/activate`, async (c) => {
+      const parsed = await readRequestBody(c, activatePromptTemplateRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const template = await promptTemplates(c.env).activate(c.req.param("id"), parsed.value.version);
+        const responseBody: PromptTemplateResponse = { template };
+        return c.json(responseBody, 200);
+      } catch (error) {
+        return promptTemplateErrorResponse(c, error, 400);
+      }
+    });
+
+    app.post(`${basePath}/:id/rollback`, async (c) => {
+      try {
+        const template = await promptTemplates(c.env).rollback(c.req.param("id"));
+        const responseBody: PromptTemplateResponse = { template };
+        return c.json(responseBody, 200);
+      } catch (error) {
+        // 戻れる履歴がない場合は現在の状態と矛盾する要求として扱う
+        return promptTemplateErrorResponse(c, error, 409);
+      }
+    });
+  }
+
+  /**
+   * ブランド管理エンドポイント
+   * 
+   * 複数ブランドを運用するための管理API。
+   * ブランドのトーン・既定のハッシュタグ・禁止語・既定のペルソナは、X-Brand-ID を指定した生成に反映される。
+   * すべてのブランドを参照・変更できるため、署名検証と利用権限を設定した場合だけ登録し、ブランド管理者に限る。
+   */
+  const { brands } = services;
+  if (brands && brandAccessSettings) {
+    const basePath = "/api/v1/brands";
+    for (const path of [basePath, `${basePath}/*`]) {
+      app.use(path, requireAuthenticatedClient());
+      app.use(path, requireBrandAdmin(brandAccessSettings));
+    }
+
+    app.get(basePath, async (c) => {
+      const responseBody: BrandListResponse = await brands(c.env).list();
+      return c.json(responseBody, 200);
+    });
+
+    app.post(basePath, async (c) => {
+      const parsed = await readRequestBody(c, createBrandRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const responseBody: BrandResponse = { brand: await brands(c.env).create(parsed.value) };
+        return c.json(responseBody, 201);
+      } catch (error) {
+        return brandErrorResponse(c, error);
+      }
+    });
+
+    app.get(`${basePath}/:id`, async (c) => {
+      const brand = await brands(c.env).get(c.req.param("id"));
+      if (!brand) {
+        return c.json({ error: { message: "Brand not found" } }, 404);
+      }
+      const responseBody: BrandResponse = { brand };
+      return c.json(responseBody, 200);
+    });
+
+    app.patch(`${basePath}/:id`, async (c) => {
+      const parsed = await readRequestBody(c, updateBrandRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const responseBody: BrandResponse = { brand: await brands(c.env).update(c.req.param("id"), parsed.value) };
+        return c.json(responseBody, 200);
+      } catch (error) {
+        return brandErrorResponse(c, error);
+      }
+    });
+
+    app.delete(`${basePath}/:id`, async (c) => {
+      const deleted = await brands(c.env).delete(c.req.param("id"));
+      if (!deleted) {
+        return c.json({ error: { message: "Brand not found" } }, 404);
+      }
+      return c.body(null, 204);
+    });
+  }
+
+  /**
+   * 生成プリセットエンドポイント
+   * 
+   * 生成フォームで選ぶブランドトーン・ターゲットペルソナのプリセットの一覧・保存・削除。
+   * プリセットは X-Brand-ID のブランド（未指定の場合はブランドなし）ごとに分かれる。
+   */
+  const { presets } = services;
+  if (presets) {
+    const basePath = "/api/v1/presets";
+
+    app.get(basePath, async (c) => {
+      const parsed = validateQuery(generationPresetListQuerySchema, c.req.query());
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      const responseBody: GenerationPresetListResponse = await presets(c.env).list(
+        requestBrandId(c) ?? null,
+        parsed.value.kind
+      );
+      return c.json(responseBody, 200);
+    });
+
+    app.post(basePath, async (c) => {
+      const parsed = await readRequestBody(c, createGenerationPresetRequestSchema);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      try {
+        const preset = await presets(c.env).create(requestBrandId(c) ?? null, parsed.value);
+        const responseBody: GenerationPresetResponse = { preset };
+        return c.json(responseBody, 201);
+      } catch (error) {
+        if (error instanceof InvalidGenerationPresetError) {
+          return c.json({ error: { message: error.message } }, 400);
+        }
+        throw error;
+      }
+    });
+
+    app.delete(`${basePath}/:id`, async (c) => {
+      const deleted = await presets(c.env).delete(requestBrandId(c) ?? null, c.req.param("id"));
+      if (!deleted) {
+        return c.json({ error: { message: "Preset not found" } }, 404);
+      }
+      return c.body(null, 204);
+    });
+  }
+
+  /**
+   * 一括生成エンドポイント
+   * 
+   * JSONの配列、または見出し行付きのCSV（Content-Type: text/csv）でアップロードした生成リクエストからバッチを作成し、
+   * 行ごとにキューで生成する。1回のリクエストで全行を生成しないため、行数が多くてもタイムアウトしない。
+   * 不正な行は他の行を止めずに failed として記録し、作成したバッチを202で返す。
+   * 進捗エンドポイントは行ごとの成功（作成したドラフト）・失敗（理由）を返す。
+   * バッチは X-Brand-ID のブランド（未指定の場合はブランドなし）ごとに分かれる。
+   * 生成クォータは生成する行ごとに1回分を数え、残りが行数に満たない場合は429で拒否する。
+   */
+  const { batches } = services;
+  if (batches) {
+    const basePath = "/api/v1/generate/batch";
+
+    app.post(basePath, async (c) => {
+      const parsed = await readBatchRows(c);
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+
+      const brandId = requestBrandId(c);
+      const entries = parsed.value.map((row) => toBatchEntry(row, brandId));
+      const forbidden = forbiddenBrandResponse(
+        c,
+        brandAccessSettings,
+        entries.map((entry) => ("request" in entry ? entry.request.brandId : undefined))
+      );
+      if (forbidden) {
+        return forbidden;
+      }
+
+      // 生成する（キューに入れる）行の数だけクォータを予約し、足りない場合はバッチを作成しない
+      const generations = entries.filter((entry) => "request" in entry).length;
+      const reservation =
+        rateLimits && generations > 0 ? await reserveGenerations(c, rateLimits(c.env), generations) : undefined;
+      if (reservation && !reservation.ok) {
+        return quotaExceededResponse(c, reservation);
+      }
+
+      try {
+        const quotaKey = reservation?.ok ? reservation.key : undefined;
+        const batch = await batches(c.env).create(brandId ?? null, entries, quotaKey);
+        const responseBody: GenerationBatchResponse = { batch };
+        return c.json(responseBody, 202);
+      } catch (error) {
+        await reservation?.release();
+        if (error instanceof InvalidGenerationBatchError) {
+          return c.json({ error: { message: error.message } }, 400);
+        }
+        throw error;
+      }
+    });
+
+    app.get(`${basePath}/:id`, async (c) => {
+      const batch = await batches(c.env).get(requestBrandId(c) ?? null, c.req.param("id"));
+      if (!batch) {
+        return c.json({ error: { message: "Batch not found" } }, 404);
+      }
+      const responseBody: GenerationBatchResponse = { batch };
+      return c.json(responseBody, 200);
+    });
+  }
+
+  /**
+   * 投稿ワークフローエンドポイント
+   * 
+   * 生成・保存・画像スケジューリング・レビュー待ちを永続ワークフロー（SnsPostWorkflow）で実行する。
+   * 開始エンドポイントは202を返し、クライアントは状態確認エンドポイントで完了を追跡する。
+   * awaitReview を指定したインスタンスには、レビュー判断エンドポイントから承認・差し戻しを届ける。
+   * レビュー判断は、インスタンスが作成したドラフトと同じブランドのリクエストだけを受け付ける。
+   */
+  const { postWorkflows } = services;
+  if (postWorkflows) {
+    const basePath = "/api/v1/post-workflows";
+
+    app.post(basePath, async (c) => {
+      const body = await readJson(c);
+      const parsed = body.ok
+        ? validateGenerationRequest(postWorkflowStartRequestSchema, body.value, requestBrandId(c))
+        : body;
+      if (!parsed.ok) {
+        return c.json({ error: { message: parsed.error } }, 400);
+      }
+      const forbidden = forbiddenBrandResponse(c, brandAccessSettings, [parsed.value.brandId]);
+      if (forbidden) {
+        return forbidden;
+      }
+
+      const responseBody: PostWorkflowInstanceResponse = await postWorkflows(c.env).start(parsed.value);
+      return c.json(responseBody, 202);
+    });
+
+    app.get(`${basePath}/:id`, async (c) => {
+      const responseBody: PostWorkflowInstanceResponse | null = await postWorkflows(c.env).status(c.req.param("id"));
+      // 完了したインスタンスの出力は、作成したドラフトと同じブランドのリクエストにだけ返す
+      if (!responseBody || (responseBody.output && responseBody.output.draft.brandId !== requestBrandId(c))) {
+        return c.json({ error: { message: "Workflow instance not found" } }, 404);
+      }
+      return c.json(responseBody, 200);
+    });
+
+    // レビュー判断はドラフトのブランドと照合するため、ドラフト取得を設定した場合だけ受け付ける
+    const { getDraft } = services;
+    if (getDraft) {
+      app.post(`${basePath}/:id/review`, async (c) => {
+        const parsed = await readRequestBody(c, postWorkflowReviewRequestSchema);
+        if (!parsed.ok) {
+          return c.json({ error: { message: parsed.error } }, 400);
+        }
+
+        // インスタンスIDは作成したドラフトのIDと同じ。保存前のインスタンスはレビューを待っていない
+        const instanceId = c.req.param("id");
+        const draft = await getDraft(c.env).execute(instanceId);
+        if (!draft || draft.brandId !== requestBrandId(c)) {
+          return c.json({ error: { message: "Workflow instance not found" } }, 404);
+        }
+
+        const sent = await postWorkflows(c.env).sendReview(instanceId, parsed.value);
+        if (!sent) {
+          return c.json({ error: { message: "Workflow instance not found" } }, 404);
+        }
+        return c.body(null, 202);
+      });
+    }
+  }
+
   return app;
 }
 
 /**
- * JSONリード処理の結果型
+ * プロンプトテンプレート管理のエラーレスポンス生成
  * 
- * 成功時は値を、失敗時はエラーオブジェクトを返すユニオン型。
- * 型安全なエラーハンドリングを実現する。
+ * @param c Honoのコンテキストオブジェクト
+ * @param error 送出されたエラー
+ * @param invalidStatus ビジネスルール違反に使うステータスコード
+ * @returns エラーレスポンス
+ * @throws それ以外のエラー（エラーマッピングに委ねる）
  */
-type ReadResult = { value: DraftGenerationInput; error?: never } | { value?: never; error: { error: { message: string } } };
+function promptTemplateErrorResponse(
+  c: Context<{ Bindings: WorkerBindings }>,
+  error: unknown,
+  invalidStatus: 400 | 409
+) {
+  if (error instanceof PromptTemplateNotFoundError) {
+    return c.json({ error: { message: error.message } }, 404);
+  }
+  if (error instanceof InvalidPromptTemplateError) {
+    return c.json({ error: { message: error.message } }, invalidStatus);
+  }
+  throw error;
+}
 
 /**
- * リクエストボディのJSON読み取り・バリデーション
+ * 生成に使うブランドの利用権限の確認
  * 
- * HTTPリクエストからJSONを読み取り、ドメインオブジェクトに変換する。
- * 型安全性とバリデーションを統合した処理。
+ * ボディで指定した brandId は X-Brand-ID の照合（brandAccess ミドルウェア）を通らないため、ルートで確認する。
  * 
  * @param c Honoのコンテキストオブジェクト
- * @returns パースされた入力データまたはエラー情報
+ * @param settings ブランドの利用権限の設定のファクトリー（未設定の場合は確認しない）
+ * @param brandIds 生成に使うブランドID
+ * @returns 利用できないブランドがある場合は403レスポンス、それ以外はundefined
  */
-async function readJson(c: Context<{ Bindings: WorkerBindings }>): Promise<ReadResult> {
+function forbiddenBrandResponse(
+  c: Context<{ Bindings: WorkerBindings }>,
+  settings: ((env: WorkerBindings) => BrandAccessSettings) | undefined,
+  brandIds: (string | undefined)[]
+): Response | undefined {
+  if (!settings) {
+    return undefined;
+  }
+  const access = settings(c.env);
+  const denied = brandIds.find((brandId) => brandId && !canUseBrand(c, access, brandId));
+  return denied ? brandForbiddenResponse(c, denied) : undefined;
+}
+
+/**
+ * ブランド管理のエラーレスポンス生成
+ * 
+ * @param c Honoのコンテキストオブジェクト
+ * @param error 送出されたエラー
+ * @returns エラーレスポンス
+ * @throws それ以外のエラー（エラーマッピングに委ねる）
+ */
+function brandErrorResponse(c: Context<{ Bindings: WorkerBindings }>, error: unknown) {
+  if (error instanceof BrandNotFoundError) {
+    return c.json({ error: { message: "Brand not found" } }, 404);
+  }
+  if (error instanceof InvalidBrandError) {
+    return c.json({ error: { message: error.message } }, 400);
+  }
+  throw error;
+}
+
+/**
+ * 予約投稿の設定・取り消しのレスポンス生成
+ * 
+ * @param c Honoのコンテキストオブジェクト
+ * @param run ユースケースの呼び出し
+ * @returns 変更後のドラフト（ETag付き）またはエラーレスポンス
+ * @throws 予約・バージョン競合以外のエラー（エラーマッピングに委ねる）
+ */
+async function respondWithSchedule(
+  c: Context<{ Bindings: WorkerBindings }>,
+  run: () => Promise<DraftDetail | null>
+) {
   try {
-    // JSONペイロードの読み取り
-    const payload = await c.req.json();
-    
-    // ドメインオブジェクトへの変換・バリデーション
-    const parsed = validateDraftGenerationInput(payload);
-    if (!parsed.ok) {
-      return { error: { error: { message: parsed.error } } };
+    const draft = await run();
+    if (!draft) {
+      return c.json({ error: { message: "Draft not found" } }, 404);
     }
-    
-    return { value: parsed.value };
-  } catch {
-    // JSONパースエラーのハンドリング
-    return { error: { error: { message: "Invalid JSON payload" } } };
+
+    const responseBody: DraftDetailResponse = { id: draft.id, draft };
+    c.header("ETag", toETag(draft.version));
+    return c.json(responseBody, 200);
+  } catch (error) {
+    if (error instanceof InvalidDraftScheduleError) {
+      return c.json({ error: { message: error.message } }, 400);
+    }
+    if (error instanceof DraftVersionConflictError) {
+      return c.json({ error: { message: error.message, currentVersion: error.currentVersion } }, 409);
+    }
+    throw error;
   }
 }
 
 /**
- * バリデーション結果の型定義
+ * リクエスト検証結果の型定義
  * 
- * 成功時は値を、失敗時はエラーメッセージを返すディスクリミネートユニオン。
+ * 成功時は値を、失敗時は400で返すエラーメッセージを返すディスクリミネートユニオン。
  */
-type ValidationResult =
-  | { ok: true; value: DraftGenerationInput }
-  | { ok: false; error: string };
+type RequestValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
 
 /**
- * ドラフト生成入力データのバリデーション
- * 
- * 受信したJSONデータをDraftGenerationInputに変換する。
- * 必須フィールドの存在確認と型検証を実施。
+ * リクエストボディのJSON読み取り
  * 
- * @param raw バリデーション対象の生データ
- * @returns バリデーション済みデータまたはエラー情報
+ * @param c Honoのコンテキストオブジェクト
+ * @returns 読み取った値またはエラー情報
  */
-function validateDraftGenerationInput(raw: unknown): ValidationResult {
-  // 基本的な型チェック
-  if (typeof raw !== "object" || raw === null) {
-    return { ok: false, error: "Payload must be an object" };
+async function readJson(c: Context<{ Bindings: WorkerBindings }>): Promise<RequestValidationResult<unknown>> {
+  try {
+    return { ok: true, value: await c.req.json() };
+  } catch {
+    return { ok: false, error: "Invalid JSON payload" };
   }
+}
 
-  const payload = raw as Record<string, unknown>;
-  
-  // 必須フィールドのバリデーション
-  const theme = ensureString(payload.theme, "theme");
-  const brandVoice = ensureString(payload.brandVoice, "brandVoice");
+/**
+ * スキーマによるリクエストの検証
+ * 
+ * 型・形式の誤りは400で返すエラーメッセージにする。
+ * 必須項目の欠落などコード付きの問題だけが見つかった場合は、
+ * クライアントが入力欄ごとに表示できるよう DomainValidationError として送出する。
+ * 
+ * @param schema 共有コントラクトのスキーマ
+ * @param payload 検証する値
+ * @returns 正規化済みの値またはエラー情報
+ * @throws DomainValidationError コード付きの問題だけが見つかった場合（エラーマッピングで422になる）
+ */
+function validateRequest<T>(schema: Schema<T>, payload: unknown): RequestValidationResult<T> {
+  const result = schema.parse(payload);
+  if (result.ok) return result;
 
-  if (!theme.ok) return theme;
-  if (!brandVoice.ok) return brandVoice;
+  const malformed = result.issues.filter((issue) => issue.code === undefined);
+  if (malformed.length > 0) {
+    return { ok: false, error: formatIssues(malformed) };
+  }
+  throw new DomainValidationError(
+    result.issues.flatMap(({ path, code, message }) => (code ? [{ field: path, code, message }] : []))
+  );
+}
 
-  // バリデーション済みオブジェクトの構築
-  const value: DraftGenerationInput = {
-    theme: theme.value,
-    brandVoice: brandVoice.value,
-    product: asOptionalString(payload.product),
-    imagePrompt: asOptionalString(payload.imagePrompt),
-    targetPersona: asOptionalString(payload.targetPersona),
-  };
+/**
+ * JSONリクエストボディの読み取り・検証
+ * 
+ * @param c Honoのコンテキストオブジェクト
+ * @param schema 共有コントラクトのスキーマ
+ * @returns 正規化済みの値またはエラー情報
+ * @throws DomainValidationError コード付きの問題だけが見つかった場合
+ */
+async function readRequestBody<T>(
+  c: Context<{ Bindings: WorkerBindings }>,
+  schema: Schema<T>
+): Promise<RequestValidationResult<T>> {
+  const body = await readJson(c);
+  return body.ok ? validateRequest(schema, body.value) : body;
+}
 
-  return { ok: true, value };
+/**
+ * クエリパラメータの検証
+ * 
+ * 前後の空白を除き、空文字列のパラメータは未指定として扱う。
+ * 
+ * @param schema 共有コントラクトのスキーマ
+ * @param query クエリパラメータ
+ * @returns 正規化済みの値またはエラー情報
+ */
+function validateQuery<T>(schema: Schema<T>, query: Record<string, string>): RequestValidationResult<T> {
+  const present = Object.entries(query)
+    .map(([key, value]) => [key, value.trim()] as const)
+    .filter(([, value]) => value.length > 0);
+  return validateRequest(schema, Object.fromEntries(present));
 }
 
 /**
- * 文字列バリデーション結果の型定義
+ * ドラフト生成リクエストの検証
+ * 
+ * ブランドはヘッダーとボディの brandId のどちらでも指定でき、両方ある場合は一致しなければならない。
+ * ヘッダーのブランドはボディの brandId として検証し、ブランドボイスの省略を許可する。
+ * 
+ * @param schema 生成リクエスト（または投稿ワークフロー開始リクエスト）のスキーマ
+ * @param payload リクエストボディ
+ * @param headerBrandId X-Brand-ID ヘッダーで指定されたブランドID
+ * @returns 正規化済みの値またはエラー情報
+ * @throws DomainValidationError 必須フィールドが欠落している場合（エラーマッピングで422になる）
  */
-type StringResult = { ok: true; value: string } | { ok: false; error: string };
+function validateGenerationRequest<T>(
+  schema: Schema<T>,
+  payload: unknown,
+  headerBrandId?: string
+): RequestValidationResult<T> {
+  if (!headerBrandId || typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+    return validateRequest(schema, payload);
+  }
+
+  const bodyBrandId: unknown = (payload as Record<string, unknown>).brandId;
+  if (bodyBrandId !== undefined && !(typeof bodyBrandId === "string" && [headerBrandId, ""].includes(bodyBrandId.trim()))) {
+    return { ok: false, error: "brandId must match the X-Brand-ID header" };
+  }
+  return validateRequest(schema, { ...payload, brandId: headerBrandId });
+}
 
 /**
- * 必須文字列フィールドのバリデーション
+ * 一括生成の行の読み取り
  * 
- * 文字列型かつ空文字列でないことを確認する。
- * トリミング処理も同時に実行。
+ * Content-Type が text/csv の場合は見出し行をフィールド名とするCSV、それ以外はJSONの配列として読み取る。
  * 
- * @param value バリデーション対象の値
- * @param field フィールド名（エラーメッセージ用）
- * @returns バリデーション済み文字列またはエラー情報
+ * @param c Honoのコンテキストオブジェクト
+ * @returns 行ごとの値（未検証）またはエラー情報
  */
-function ensureString(value: unknown, field: string): StringResult {
-  if (typeof value !== "string" || value.trim().length === 0) {
-    return { ok: false, error: `${field} must be a non-empty string` };
+async function readBatchRows(c: Context<{ Bindings: WorkerBindings }>): Promise<RequestValidationResult<unknown[]>> {
+  const mediaType = c.req.header("Content-Type")?.split(";")[0].trim().toLowerCase();
+  if (mediaType === GENERATION_BATCH_CSV_CONTENT_TYPE) {
+    try {
+      const records = parseCsvRecords(await c.req.text());
+      return { ok: true, value: records.map(fromCsvRecord) };
+    } catch (error) {
+      if (error instanceof CsvSyntaxError) {
+        return { ok: false, error: error.message };
+      }
+      throw error;
+    }
   }
-  return { ok: true, value: value.trim() };
+
+  const body = await readJson(c);
+  if (!body.ok) return body;
+  return Array.isArray(body.value) ? { ok: true, value: body.value } : { ok: false, error: "Payload must be an array" };
+}
+
+/**
+ * CSVのレコードの生成リクエストの値への変換
+ * 
+ * CSVのセルは全て文字列のため、整数の列の数字だけのセルを数値にする（それ以外はスキーマの検証に任せる）。
+ */
+function fromCsvRecord(record: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(record).map(([column, value]) =>
+      CSV_INTEGER_COLUMNS.includes(column) && /^\d+$/.test(value.trim()) ? [column, Number(value)] : [column, value]
+    )
+  );
 }
 
 /**
- * オプション文字列フィールドの処理
+ * 一括生成の行の検証
  * 
- * 有効な文字列の場合はトリミング済み文字列を、
- * そうでなければundefinedを返す。
+ * 単体の生成と同じ規則で検証し、失敗した行は例外ではなく失敗理由を持つ行にする。
  * 
- * @param value 処理対象の値
- * @returns トリミング済み文字列またはundefined
+ * @param row 行の値
+ * @param headerBrandId X-Brand-ID ヘッダーで指定されたブランドID
+ * @returns 生成リクエスト、または失敗理由を持つ行
  */
-function asOptionalString(value: unknown): string | undefined {
-  if (typeof value === "string" && value.trim().length > 0) {
-    return value.trim();
+function toBatchEntry(row: unknown, headerBrandId?: string): GenerationBatchEntry {
+  const theme =
+    typeof row === "object" && row !== null && "theme" in row && typeof row.theme === "string"
+      ? row.theme.trim() || undefined
+      : undefined;
+  try {
+    const parsed = validateGenerationRequest(draftGenerationRequestSchema, row, headerBrandId);
+    return parsed.ok ? { request: parsed.value } : { theme, error: { message: parsed.error } };
+  } catch (error) {
+    if (error instanceof DomainValidationError) {
+      return { theme, error: { message: error.message, code: error.code, fields: [...error.fields] } };
+    }
+    throw error;
   }
-  return undefined;
+}
+
+/**
+ * バージョン番号からETagを生成
+ * 
+ * @param version ドラフトのバージョン番号
+ * @returns 強いETag形式の文字列（例: "3"）
+ */
+function toETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * If-Matchヘッダーの解析
+ * 
+ * バージョン番号そのもの（`3`）と、GETで返したETag（`"3"`、`W/"3"`）の両方を受け付ける。
+ * 
+ * @param header If-Matchヘッダーの値
+ * @returns 編集元のバージョン番号、未指定または不正な場合はnull
+ */
+function parseIfMatch(header: string | undefined): number | null {
+  if (!header) return null;
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(header.trim());
+  if (!match) return null;
+
+  const version = Number(match[1]);
+  return version >= 1 ? version : null;
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { ComplianceChecker, InvalidComplianceRuleError, parseComplianceRuleSets } from "../compliance";
+import { DEFAULT_COMPLIANCE_RULE_SETS } from "../complianceRules";
+
+describe("ComplianceChecker", () => {
+  const checker = new ComplianceChecker(DEFAULT_COMPLIANCE_RULE_SETS);
+
+  // 正常系: 薬機法・景表法の表現を該当箇所と言い換えの提案つきで検出することを検証する
+  it("reports matched spans with suggested rewrites", () => {
+    const caption = "飲むだけで痩せる！業界最安値";
+
+    const violations = checker.check({ caption });
+
+    expect(violations.map(({ ruleId, severity, start, end, text }) => ({ ruleId, severity, start, end, text }))).toEqual([
+      { ruleId: "immediate-effect", severity: "warning", start: 0, end: 5, text: "飲むだけで" },
+      { ruleId: "physiological-change", severity: "error", start: 5, end: 8, text: "痩せる" },
+      { ruleId: "lowest-price", severity: "error", start: 9, end: 14, text: "業界最安値" },
+    ]);
+    expect(caption.slice(violations[1].start, violations[1].end)).toBe("痩せる");
+    expect(violations[2]).toMatchObject({ ruleSetId: "premiums-and-representations", suggestion: "お求めやすい価格" });
+  });
+
+  // 正常系: 根拠の注記がある順位表示は検出せず、ハッシュタグは連結した文字列の位置で報告することを検証する
+  it("honours evidence notes and checks hashtags", () => {
+    expect(checker.check({ caption: "満足度No.1 ※2025年 自社調べ" })).toEqual([]);
+    expect(checker.check({ caption: "満足度ＮＯ．１" })).toMatchObject([{ ruleId: "ranking-claim" }]);
+
+    expect(checker.check({ hashtags: ["spring", "最強コスメ"] })).toMatchObject([
+      { field: "hashtags", ruleId: "superlative-claim", start: 9, end: 11, text: "最強" },
+    ]);
+  });
+
+  // 正常系: ブランドの禁止語を大文字小文字を区別せず error として検出し、削除を提案することを検証する
+  it("blocks brand banned words", () => {
+    expect(checker.check({ altText: "Cheap なスニーカー" }, ["cheap"])).toEqual([
+      {
+        ruleSetId: "brand",
+        ruleId: "banned-word",
+        severity: "error",
+        field: "altText",
+        start: 0,
+        end: 5,
+        text: "Cheap",
+        message: "ブランドの禁止語です",
+        suggestion: "",
+      },
+    ]);
+  });
+
+  // 正常系: 環境変数のJSONから独自のルールセットを読み込めることを検証する
+  it("parses custom rule sets", () => {
+    const ruleSets = parseComplianceRuleSets(
+      JSON.stringify([
+        {
+          id: "house",
+          label: "社内基準",
+          rules: [{ id: "no-sale", severity: "warning", message: "セール表記は避ける", suggestion: "特別価格", terms: ["SALE"] }],
+        },
+      ])
+    );
+
+    expect(new ComplianceChecker(ruleSets).check({ caption: "春のsale" })).toMatchObject([
+      { ruleSetId: "house", ruleId: "no-sale", text: "sale" },
+    ]);
+  });
+
+  // 異常系: 不正な正規表現・空文字列に当たるパターン・構造の不正を拒否することを検証する
+  it.each([
+    ["not json"],
+    [JSON.stringify({ id: "house" })],
+    [JSON.stringify([{ id: "house", label: "社内基準", rules: [{ id: "r", severity: "info", message: "m", suggestion: "", terms: ["a"] }] }])],
+    [JSON.stringify([{ id: "house", label: "社内基準", rules: [{ id: "r", severity: "error", message: "m", suggestion: "", pattern: "(" }] }])],
+    [JSON.stringify([{ id: "house", label: "社内基準", rules: [{ id: "r", severity: "error", message: "m", suggestion: "", pattern: "a*" }] }])],
+    [JSON.stringify([{ id: "house", label: "社内基準", rules: [{ id: "r", severity: "error", message: "m", suggestion: "", terms: [" "] }] }])],
+  ])("rejects invalid rule sets %#", (json) => {
+    expect(() => parseComplianceRuleSets(json)).toThrow(InvalidComplianceRuleError);
+  });
+});
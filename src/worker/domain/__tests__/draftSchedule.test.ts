@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { InvalidDraftScheduleError, resolveScheduledAt } from "../draftSchedule";
+import { PostDraft } from "../postDraft";
+
+describe("resolveScheduledAt", () => {
+  // 正常系: オフセットのない日時をタイムゾーンの壁時計時刻としてUTCに変換することを検証する
+  it("interprets local times in the given timezone", () => {
+    expect(resolveScheduledAt("2025-03-01T09:00", "Asia/Tokyo")).toBe("2025-03-01T00:00:00.000Z");
+    expect(resolveScheduledAt("2025-03-01T09:00:00+09:00", "America/New_York")).toBe("2025-03-01T00:00:00.000Z");
+    // 夏時間の前後でオフセットが変わる
+    expect(resolveScheduledAt("2025-03-08T09:00", "America/New_York")).toBe("2025-03-08T14:00:00.000Z");
+    expect(resolveScheduledAt("2025-03-10T09:00", "America/New_York")).toBe("2025-03-10T13:00:00.000Z");
+  });
+
+  // 異常系: 解釈できない日時やタイムゾーンを拒否することを検証する
+  it("rejects invalid dates and timezones", () => {
+    expect(() => resolveScheduledAt("2025-02-30T09:00", "Asia/Tokyo")).toThrowError(InvalidDraftScheduleError);
+    expect(() => resolveScheduledAt("明日の9時", "Asia/Tokyo")).toThrowError(/ISO 8601/);
+    expect(() => resolveScheduledAt("2025-03-01T09:00", "Mars/Olympus")).toThrowError(/unknown timezone/);
+  });
+});
+
+describe("PostDraft schedule", () => {
+  let now = new Date("2025-03-01T00:00:00.000Z");
+  const clock = { now: () => now };
+  const approved = () => PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).assignId("draft-1").approve(clock);
+
+  // 正常系: 予約日時を迎えるまでは配信対象にならず、投入後は再び対象にならないことを検証する
+  it("becomes due at the scheduled time until dispatched", () => {
+    now = new Date("2025-03-01T00:00:00.000Z");
+    const scheduled = approved().schedule("2025-03-01T01:00:00.000Z", "Asia/Tokyo", clock);
+
+    expect(scheduled.isDueForDispatch(new Date("2025-03-01T00:59:59.000Z"))).toBe(false);
+    now = new Date("2025-03-01T01:00:00.000Z");
+    expect(scheduled.isDueForDispatch(now)).toBe(true);
+
+    const dispatched = scheduled.markDispatched(clock);
+    expect(dispatched.isDueForDispatch(now)).toBe(false);
+    expect(() => dispatched.markDispatched(clock)).toThrowError(/already been dispatched/);
+    expect(dispatched.releaseDispatch(clock).isDueForDispatch(now)).toBe(true);
+    expect(dispatched.unschedule(clock).scheduledAt).toBeUndefined();
+  });
+
+  // 異常系: 過去の日時や公開処理中のドラフトの予約を拒否することを検証する
+  it("rejects past times and drafts being published", () => {
+    now = new Date("2025-03-01T00:00:00.000Z");
+    expect(() => approved().schedule("2025-02-28T23:59:00.000Z", "Asia/Tokyo", clock)).toThrowError(
+      /in the future/
+    );
+    expect(() =>
+      approved().markPublishing(clock).schedule("2025-03-02T00:00:00.000Z", "Asia/Tokyo", clock)
+    ).toThrowError(InvalidDraftScheduleError);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  InvalidHashtagError,
+  assertHashtagLengths,
+  classifyHashtag,
+  normalizeHashtag,
+  normalizeHashtags,
+  parseHashtagTierMix,
+  rankHashtags,
+} from "../hashtag";
+
+describe("hashtag", () => {
+  // 正常系: NFKC正規化・先頭の#・使えない文字・絵文字の除去を検証する
+  it("normalizes a hashtag", () => {
+    expect(normalizeHashtag("＃ｶﾌｪ")).toBe("カフェ");
+    expect(normalizeHashtag("#春コーデ🌸")).toBe("春コーデ");
+    expect(normalizeHashtag("##Summer Sale!")).toBe("SummerSale");
+    expect(normalizeHashtag("1️⃣位")).toBe("位");
+    expect(normalizeHashtag("ＡＩ・活用")).toBe("AI活用");
+    expect(normalizeHashtag("🎉✨")).toBe("");
+  });
+
+  // 正常系: 表記ゆれと大文字小文字の違いを重複として除き、最初の表記を残すことを検証する
+  it("dedupes with case folding", () => {
+    expect(normalizeHashtags(["#カフェ", "カフェ", "＃カフェ", "Spring", "spring", "ＳＰＲＩＮＧ", "  ", "🌸"])).toEqual([
+      "カフェ",
+      "Spring",
+    ]);
+  });
+
+  // 異常系: 上限の長さを超えるタグを拒否することを検証する
+  it("rejects tags longer than the limit", () => {
+    expect(() => assertHashtagLengths(["あ".repeat(30)])).not.toThrow();
+    expect(() => assertHashtagLengths(["あ".repeat(31)])).toThrow(InvalidHashtagError);
+  });
+
+  // 正常系: 規模ごとの配分で上限数まで選び、必須のタグを先頭に残すことを検証する
+  it("ranks candidates by tier mix within the limit", () => {
+    const candidates = ["東京カフェ巡り好きな人と繋がりたい", "カフェ", "カフェ巡り", "cafe", "週末カフェ", "コーヒー"];
+    expect(candidates.map(classifyHashtag)).toEqual(["niche", "big", "mid", "big", "mid", "big"]);
+
+    expect(rankHashtags(candidates, 3, { mix: { big: 1, mid: 1, niche: 1 } })).toEqual([
+      "東京カフェ巡り好きな人と繋がりたい",
+      "カフェ",
+      "カフェ巡り",
+    ]);
+    expect(rankHashtags(candidates, 3, { mix: { big: 0, mid: 1, niche: 0 } })).toEqual([
+      "東京カフェ巡り好きな人と繋がりたい",
+      "カフェ巡り",
+      "週末カフェ",
+    ]);
+    expect(rankHashtags(["#Acme", ...candidates], 2, { required: ["acme"] })).toEqual([
+      "acme",
+      "東京カフェ巡り好きな人と繋がりたい",
+    ]);
+    expect(rankHashtags(["a".repeat(31), "カフェ"], 5)).toEqual(["カフェ"]);
+  });
+
+  // 異常系: 配分の設定が不正な場合にエラーとなることを検証する
+  it("parses the tier mix", () => {
+    expect(parseHashtagTierMix(undefined)).toEqual({ big: 2, mid: 5, niche: 3 });
+    expect(parseHashtagTierMix('{"mid":1}')).toEqual({ big: 0, mid: 1, niche: 0 });
+    expect(() => parseHashtagTierMix('{"big":-1}')).toThrow(/big/);
+    expect(() => parseHashtagTierMix('{"big":0}')).toThrow();
+  });
+});
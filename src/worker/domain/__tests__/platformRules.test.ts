@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLATFORM_RULES,
+  PlatformRuleViolationError,
+  assertPlatformRules,
+  fitToPlatformRules,
+  measureText,
+} from "../platformRules";
+
+describe("platformRules", () => {
+  // 正常系: Xでは全角文字を2文字、URLを固定長で数えることを検証する
+  it("measures text with the weighted length of X", () => {
+    expect(measureText("春のセール", PLATFORM_RULES.x)).toBe(10);
+    expect(measureText("sale https://example.com/very/long/path", PLATFORM_RULES.x)).toBe(5 + 23);
+    expect(measureText("春のセール", PLATFORM_RULES.instagram)).toBe(5);
+  });
+
+  // 異常系: ルールごとに違反の種類が区別されることを検証する
+  it("reports which rule the content violates", () => {
+    const violation = (platform: "threads" | "tiktok" | "linkedin", content: Parameters<typeof assertPlatformRules>[1]) => {
+      try {
+        assertPlatformRules(platform, content);
+      } catch (error) {
+        return error instanceof PlatformRuleViolationError ? error.rule : error;
+      }
+      return null;
+    };
+
+    expect(violation("threads", { hashtags: ["a", "b"] })).toBe("hashtags");
+    expect(violation("tiktok", { caption: "https://example.com" })).toBe("links");
+    expect(violation("linkedin", { altText: "a".repeat(301) })).toBe("altText");
+    expect(violation("linkedin", { caption: "https://example.com", altText: "a".repeat(300) })).toBeNull();
+  });
+
+  // 正常系: 生成結果がプラットフォームのルールを満たす形に整えられることを検証する
+  it("fits generated content to the platform rules", () => {
+    const content = {
+      caption: `${"あ".repeat(200)} https://example.com`,
+      hashtags: ["spring", "sale", "sneakers", "fashion"],
+      altText: "スニーカーの写真",
+    };
+
+    const fitted = fitToPlatformRules("x", content);
+
+    expect(fitted.hashtags).toEqual(["spring", "sale", "sneakers"]);
+    expect(fitted.caption.endsWith("…")).toBe(true);
+    expect(() => assertPlatformRules("x", fitted)).not.toThrow();
+    expect(fitToPlatformRules("instagram", content).caption).not.toContain("https://");
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { PostDraft } from "../postDraft";
+import {
+  BlockingComplianceViolationError,
+  DraftNotEditableError,
+  InvalidDraftTransitionError,
+  PostDraft,
+  isDraftStatus,
+} from "../postDraft";
+import { PlatformRuleViolationError } from "../platformRules";
+import { InvalidCaptionVariantError } from "../captionVariant";
+import { InvalidHashtagError } from "../hashtag";
+import { DomainValidationError } from "../errors";
 
 describe("PostDraft", () => {
   // 正常系: 必須項目を満たす入力からドラフトが生成されることを検証する
@@ -37,4 +47,275 @@ describe("PostDraft", () => {
       )
     ).toThrowError(/theme/);
   });
+
+  // 異常系: 欠落した必須項目をフィールドごとの安定したコードでまとめて報告することを検証する
+  it("reports every missing required field with its error code", () => {
+    const create = () => PostDraft.create({ theme: " ", brandVoice: "" }, { now: () => new Date() });
+
+    expect(create).toThrowError(DomainValidationError);
+    try {
+      create();
+    } catch (error) {
+      expect((error as DomainValidationError).code).toBe("THEME_REQUIRED");
+      expect((error as DomainValidationError).fields.map((field) => [field.field, field.code])).toEqual([
+        ["theme", "THEME_REQUIRED"],
+        ["brandVoice", "BRAND_VOICE_REQUIRED"],
+      ]);
+    }
+  });
+
+  // 異常系: 破損した保存データの復元は入力の検証エラーとして扱わないことを検証する
+  it("does not report corrupted persisted props as a validation error", () => {
+    const restore = () =>
+      PostDraft.restore({
+        id: "draft-123",
+        theme: "",
+        brandVoice: "爽やか",
+        platform: "instagram",
+        status: "draft",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        version: 1,
+      });
+
+    expect(restore).toThrowError(/restored draft violates invariants: theme/);
+    expect(restore).not.toThrowError(DomainValidationError);
+  });
+
+  // 正常系: 永続化済みのプロパティからドラフトを復元できることを検証する
+  it("restores a draft from persisted props", () => {
+    const draft = PostDraft.restore({
+      id: "draft-123",
+      theme: "春の新作スニーカー",
+      brandVoice: "爽やかで親しみやすい",
+      hashtags: ["sneakers"],
+      platform: "instagram",
+      status: "draft",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      version: 1,
+    });
+
+    expect(draft.id).toBe("draft-123");
+    expect(draft.hashtags).toEqual(["sneakers"]);
+  });
+
+  // 異常系: IDのないプロパティからの復元でエラーが発生することを検証する
+  it("throws when restoring props without id", () => {
+    expect(() =>
+      PostDraft.restore({
+        theme: "春の新作スニーカー",
+        brandVoice: "爽やかで親しみやすい",
+        platform: "instagram",
+        status: "draft",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        version: 1,
+      })
+    ).toThrowError(/id/);
+  });
+
+  // 異常系: Objectから継承したプロパティ名を状態として受け付けないことを検証する
+  it("rejects inherited property names as a status", () => {
+    expect(isDraftStatus("approved")).toBe(true);
+    expect(isDraftStatus("toString")).toBe(false);
+    expect(isDraftStatus("__proto__")).toBe(false);
+  });
+
+  // 正常系: 編集内容が反映され更新日時とバージョンが進むことを検証する
+  it("applies edits and bumps the version", () => {
+    const draft = PostDraft.create(
+      { theme: "春の新作スニーカー", brandVoice: "爽やか", caption: "旧キャプション" },
+      { now: () => new Date("2025-01-01T00:00:00.000Z") }
+    ).assignId("draft-123");
+
+    const updated = draft.update(
+      { caption: " 新キャプション ", hashtags: [" sneakers ", ""] },
+      { now: () => new Date("2025-01-02T00:00:00.000Z") }
+    );
+
+    expect(updated.caption).toBe("新キャプション");
+    expect(updated.hashtags).toEqual(["sneakers"]);
+    expect(updated.theme).toBe("春の新作スニーカー");
+    expect(updated.version).toBe(2);
+    expect(updated.updatedAt).toBe("2025-01-02T00:00:00.000Z");
+    expect(draft.version).toBe(1);
+  });
+
+  // 正常系: 作成・編集時にハッシュタグの表記ゆれと重複を除き、長すぎるタグを拒否することを検証する
+  it("normalizes and dedupes hashtags", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create(
+      { theme: "春", brandVoice: "爽やか", hashtags: ["#カフェ", "＃カフェ", "カフェ", "Spring", "spring", "🌸"] },
+      clock
+    );
+
+    expect(draft.hashtags).toEqual(["カフェ", "Spring"]);
+    expect(draft.update({ hashtags: ["ＯＯＴＤ", "#ootd"] }, clock).hashtags).toEqual(["OOTD"]);
+    expect(() => draft.update({ hashtags: ["あ".repeat(31)] }, clock)).toThrowError(InvalidHashtagError);
+  });
+
+  // 異常系: 編集後の状態が不変条件に違反する場合にエラーが発生することを検証する
+  it("rejects edits that break invariants", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock);
+
+    expect(() => draft.update({ brandVoice: "  " }, clock)).toThrowError(/brandVoice/);
+    expect(() =>
+      draft.update({ hashtags: Array.from({ length: 26 }, (_, i) => `tag${i}`) }, clock)
+    ).toThrowError(/25/);
+  });
+
+  // 正常系: 承認済みのドラフトは内容を変更した場合だけドラフト状態へ戻り、レビューし直すことを検証する
+  it("returns approved drafts to review when their content changes", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const approved = PostDraft.create({ theme: "春", brandVoice: "爽やか", caption: "春の新作", hashtags: ["spring"] }, clock)
+      .assignId("draft-1")
+      .approve(clock);
+
+    expect(approved.update({ caption: "夏の新作" }, clock).status).toBe("draft");
+    expect(approved.update({ hashtags: ["summer"] }, clock).status).toBe("draft");
+    expect(approved.update({ caption: " 春の新作 ", hashtags: ["#spring"] }, clock).status).toBe("approved");
+    expect(PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).update({ caption: "夏" }, clock).status).toBe(
+      "draft"
+    );
+  });
+
+  // 異常系: 公開処理中・公開済みのドラフトの編集とキャプション案の採用を拒否することを検証する
+  it("rejects edits while publishing or after publishing", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const publishing = PostDraft.create({ theme: "春", brandVoice: "爽やか", caption: "春の新作" }, clock)
+      .assignId("draft-1")
+      .approve(clock)
+      .markPublishing(clock);
+    const published = publishing.markPublished("media-1", clock);
+
+    expect(() => publishing.update({ caption: "夏の新作" }, clock)).toThrowError(DraftNotEditableError);
+    expect(() => published.update({ caption: "夏の新作" }, clock)).toThrowError(DraftNotEditableError);
+    expect(() => published.selectVariant(0, clock)).toThrowError(DraftNotEditableError);
+  });
+
+  // 正常系: 承認から公開完了までのライフサイクルを辿れることを検証する
+  it("moves through the publishing lifecycle", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock);
+
+    const approved = draft.approve(clock);
+    const publishing = approved.markPublishing(clock);
+    const published = publishing.markPublished("media-1", clock);
+
+    expect([approved.status, publishing.status, published.status]).toEqual([
+      "approved",
+      "publishing",
+      "published",
+    ]);
+    expect(published.version).toBe(4);
+    expect([published.publishedMediaId, published.publishedAt]).toEqual(["media-1", "2025-01-01T00:00:00.000Z"]);
+    expect(publishing.markFailed("rate limited", clock).reopen(clock).status).toBe("draft");
+  });
+
+  // 異常系: 修正が必要なコンプライアンス違反が残っている間は承認できず、本文の編集で結果が破棄されることを検証する
+  it("blocks approval while blocking compliance violations remain", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const violation = {
+      ruleSetId: "pharmaceutical-affairs",
+      ruleId: "medical-efficacy",
+      severity: "error" as const,
+      field: "caption" as const,
+      start: 0,
+      end: 2,
+      text: "治る",
+      message: "化粧品・健康食品では病気の治療や治癒を表す表現は使えません",
+      suggestion: "すこやかに保つ",
+    };
+    const draft = PostDraft.create(
+      { theme: "春", brandVoice: "爽やか", caption: "治る美容液", complianceViolations: [violation] },
+      clock
+    );
+
+    expect(() => draft.approve(clock)).toThrowError(BlockingComplianceViolationError);
+    expect(draft.withComplianceViolations([{ ...violation, severity: "warning" }]).approve(clock).status).toBe("approved");
+    expect(draft.update({ theme: "夏" }, clock).complianceViolations).toEqual([violation]);
+    expect(draft.update({ caption: "すこやかに保つ美容液" }, clock).complianceViolations).toBeUndefined();
+  });
+
+  // 正常系: 公開失敗の理由を記録し、再試行の開始時に破棄することを検証する
+  it("records the publish error until the next attempt", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const failed = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock)
+      .approve(clock)
+      .markPublishing(clock)
+      .markFailed("rate limited", clock);
+
+    expect(failed.publishError).toBe("rate limited");
+    expect(failed.markPublishing(clock).publishError).toBeUndefined();
+  });
+
+  // 異常系: 許可されていない状態遷移で型付きのドメインエラーが発生することを検証する
+  it("rejects illegal transitions with a typed error", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock);
+
+    expect(() => draft.markPublished("media-1", clock)).toThrowError(InvalidDraftTransitionError);
+    const published = draft.approve(clock).markPublishing(clock).markPublished("media-1", clock);
+    expect(() => published.reopen(clock)).toThrowError(/published to draft/);
+  });
+
+  // 正常系: 画像ジョブが queued → running → done と進み、ジョブIDが保持されバージョンは進まないことを検証する
+  it("tracks the image job from queued to done", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).assignId("draft-1");
+
+    const queued = draft.queueImage("draft-1-image", clock);
+    const running = queued.markImageRunning(clock);
+    const done = running.attachImage("drafts/draft-1/original.png", clock);
+
+    expect([queued.imageStatus, running.imageStatus, done.imageStatus]).toEqual(["queued", "running", "done"]);
+    expect(done.imageJobId).toBe("draft-1-image");
+    expect(done.version).toBe(draft.version);
+    expect(running.markImageFailed("timeout", clock).toJSON()).toMatchObject({
+      imageStatus: "failed",
+      imageJobId: "draft-1-image",
+      imageError: "timeout",
+    });
+  });
+
+  // 異常系: 投稿先プラットフォームのルールで不変条件が検証されることを検証する
+  it("enforces the rules of the selected platform", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか", platform: "x" }, clock);
+
+    expect(draft.platform).toBe("x");
+    expect(() => draft.update({ hashtags: ["a", "b", "c", "d"] }, clock)).toThrowError(PlatformRuleViolationError);
+    expect(() => draft.update({ caption: "あ".repeat(141) }, clock)).toThrowError(/280/);
+    expect(() => draft.update({ platform: "instagram", caption: "詳細は https://example.com" }, clock)).toThrowError(
+      /links/
+    );
+    expect(draft.update({ platform: "instagram", hashtags: ["a", "b", "c", "d"] }, clock).platform).toBe("instagram");
+  });
+
+  // 正常系: キャプション案を保持し、選んだ案の内容が本文に反映されることを検証する
+  it("keeps caption variants and applies the selected one", () => {
+    const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+    const variants = [
+      { angle: "hook-first" as const, caption: "まだ知らない？", hashtags: ["spring"], altText: "靴" },
+      { angle: "story" as const, caption: " 春の毎日 ", hashtags: ["sneakers", "daily"], altText: "歩く人" },
+    ];
+    const draft = PostDraft.create(
+      { theme: "春", brandVoice: "爽やか", caption: "まだ知らない？", hashtags: ["spring"], altText: "靴", variants },
+      clock
+    );
+
+    expect(draft.selectedVariant).toBe(0);
+    const selected = draft.selectVariant(1, clock);
+
+    expect(selected.toJSON()).toMatchObject({
+      caption: "春の毎日",
+      hashtags: ["sneakers", "daily"],
+      altText: "歩く人",
+      selectedVariant: 1,
+      version: 2,
+    });
+    expect(() => selected.selectVariant(2, clock)).toThrowError(InvalidCaptionVariantError);
+    expect(() => PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).selectVariant(0, clock)).toThrowError(
+      InvalidCaptionVariantError
+    );
+  });
 });
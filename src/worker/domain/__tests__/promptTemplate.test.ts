@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { InvalidPromptTemplateError, PromptTemplate, PromptTemplateVersion } from "../promptTemplate";
+
+describe("PromptTemplate", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+
+  // 正常系: プレースホルダーに入力値を差し込み、未指定の項目は空にすることを検証する
+  it("renders placeholders with the request values", () => {
+    const version = PromptTemplateVersion.create({
+      templateId: "spring-campaign",
+      version: 1,
+      body: "{theme}を{brandVoice}に紹介。商品:{product} 対象:{targetPersona}",
+      createdAt: clock.now().toISOString(),
+    });
+
+    expect(version.render({ theme: "春の新作", brandVoice: "爽やか", product: " AirFlex " })).toBe(
+      "春の新作を爽やかに紹介。商品:AirFlex 対象:"
+    );
+  });
+
+  // 異常系: 未知のプレースホルダーや不正なIDを含むテンプレートを拒否することを検証する
+  it("rejects unknown placeholders and malformed ids", () => {
+    const base = { templateId: "spring", version: 1, createdAt: clock.now().toISOString() };
+
+    expect(() => PromptTemplateVersion.create({ ...base, body: "{theme} {price}" })).toThrowError(/\{price\}/);
+    expect(() => PromptTemplateVersion.create({ ...base, body: "   " })).toThrowError(InvalidPromptTemplateError);
+    expect(() => PromptTemplate.create("Spring Campaign", clock)).toThrowError(/template id/);
+  });
+
+  // 正常系: 有効化の履歴を辿ってロールバックできることを検証する
+  it("activates versions and rolls back through the activation history", () => {
+    const template = PromptTemplate.create("spring", clock).addVersion(clock).addVersion(clock);
+
+    const activated = template.activate(2, clock).activate(3, clock);
+    expect(activated.activeVersion).toBe(3);
+
+    const rolledBack = activated.rollback(clock);
+    expect(rolledBack.activeVersion).toBe(2);
+    expect(rolledBack.rollback(clock).activeVersion).toBe(1);
+    expect(() => rolledBack.rollback(clock).rollback(clock)).toThrowError(/no previous version/);
+    expect(() => template.activate(4, clock)).toThrowError(/no version 4/);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { InvalidReviewFeedbackError, ReviewFeedback } from "../reviewFeedback";
+import { InvalidDraftTransitionError, PostDraft } from "../postDraft";
+
+describe("ReviewFeedback", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  const base = { id: "review-1", draftId: "draft-1", reviewerId: " editor-1 ", draftVersion: 1 };
+
+  // 正常系: タグを正規化し、記録日時を付与してフィードバックを作成することを検証する
+  it("normalizes tags and records the time", () => {
+    const feedback = ReviewFeedback.create(
+      { ...base, tags: [" Tone", "tone", "CTA", " "], resolution: "accepted" },
+      clock
+    );
+
+    expect(feedback.toJSON()).toEqual({
+      ...base,
+      reviewerId: "editor-1",
+      comments: undefined,
+      tags: ["tone", "cta"],
+      resolution: "accepted",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+  });
+
+  // 異常系: コメントのない差し戻しやレビュアー未指定を拒否することを検証する
+  it("rejects rework without comments and a missing reviewer", () => {
+    expect(() => ReviewFeedback.create({ ...base, tags: [], resolution: "rework", comments: " " }, clock)).toThrowError(
+      InvalidReviewFeedbackError
+    );
+    expect(() => ReviewFeedback.create({ ...base, reviewerId: "", tags: [], resolution: "accepted" }, clock)).toThrowError(
+      /reviewerId/
+    );
+  });
+
+  // 正常系: 差し戻しで承認済みのドラフトがdraftに戻り、公開済みは差し戻せないことを検証する
+  it("moves drafts back to draft on rework", () => {
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock);
+
+    expect(draft.requestRework(clock)).toBe(draft);
+    expect(draft.approve(clock).requestRework(clock).status).toBe("draft");
+    const published = draft.approve(clock).markPublishing(clock).markPublished("media-1", clock);
+    expect(() => published.requestRework(clock)).toThrowError(InvalidDraftTransitionError);
+  });
+});
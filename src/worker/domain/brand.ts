@@ -0,0 +1,212 @@
+/**
+ * @fileoverview ドメイン層 - ブランド
+ *
+ * 1つのデプロイで複数のブランドを運用するためのドメインモデル。
+ * ブランドボイス・既定のハッシュタグ・禁止語・既定のペルソナをブランドのプロフィールとして保持し、
+ * 生成のたびに同じ内容を入力しなくても済むようにする。ドラフトは作成時のブランドに属する。
+ *
+ * 設計原則：
+ * - 不変性の保証：変更は新しいインスタンスとして返す
+ * - ビジネス不変条件の保護：名前とブランドボイスは必須、リストは正規化して保持
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import type { DraftClock } from "./postDraft";
+import { MAX_HASHTAG_LENGTH, normalizeHashtags } from "./hashtag";
+
+/** ブランド名の最大長 */
+export const MAX_BRAND_NAME_LENGTH = 100;
+
+/** 既定のハッシュタグの最大数（全プラットフォームの上限より多くは付けられない） */
+export const MAX_BRAND_HASHTAGS = 30;
+
+/** 禁止語の最大数 */
+export const MAX_BRAND_BANNED_WORDS = 200;
+
+/**
+ * 不正なブランドエラー
+ *
+ * 空の名前やブランドボイス、上限を超えるリストなど、
+ * ブランドの作成・編集がビジネスルールに違反した場合に送出される。
+ */
+export class InvalidBrandError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidBrandError";
+  }
+}
+
+/**
+ * ブランドのプロフィール
+ *
+ * 生成時にリクエストへ補う項目。
+ */
+export type BrandProfile = {
+  name: string;
+  /** ブランドボイスの説明（例: 親しみやすく、絵文字は控えめに） */
+  voice: string;
+  /** 生成したドラフトに必ず付けるハッシュタグ（先頭の#を付けない） */
+  defaultHashtags: string[];
+  /** 投稿に使わない語句 */
+  bannedWords: string[];
+  /** リクエストでペルソナを指定しない場合に使うターゲットペルソナ */
+  defaultPersona?: string;
+};
+
+/**
+ * ブランドのプロパティ
+ */
+export type BrandProps = BrandProfile & {
+  id: string;
+  createdAt: string;
+  /** 最終更新日時（未編集の場合は未定義） */
+  updatedAt?: string;
+};
+
+/**
+ * ブランド編集時の変更内容
+ * 指定されたフィールドのみを上書きする
+ */
+export type BrandChanges = Partial<BrandProfile>;
+
+/**
+ * プロフィールの正規化と検証
+ *
+ * - 名前・ブランドボイスは前後の空白を除き、空文字列不可
+ * - ハッシュタグは normalizeHashtags で正規化して重複を除き、1件 MAX_HASHTAG_LENGTH 文字まで
+ * - 禁止語は空白を除き、重複を除く
+ * - 既定のペルソナは空文字列を未指定として扱う
+ *
+ * @throws InvalidBrandError ビジネスルールに違反する場合
+ */
+function normalizeProfile(profile: BrandProfile): BrandProfile {
+  const name = profile.name?.trim();
+  const voice = profile.voice?.trim();
+  if (!name) {
+    throw new InvalidBrandError("name must be a non-empty string");
+  }
+  if (name.length > MAX_BRAND_NAME_LENGTH) {
+    throw new InvalidBrandError(`name must be at most ${MAX_BRAND_NAME_LENGTH} characters`);
+  }
+  if (!voice) {
+    throw new InvalidBrandError("voice must be a non-empty string");
+  }
+
+  const defaultHashtags = normalizeHashtags(profile.defaultHashtags);
+  if (defaultHashtags.length > MAX_BRAND_HASHTAGS) {
+    throw new InvalidBrandError(`defaultHashtags must have at most ${MAX_BRAND_HASHTAGS} items`);
+  }
+  if (defaultHashtags.some((tag) => Array.from(tag).length > MAX_HASHTAG_LENGTH)) {
+    throw new InvalidBrandError(`defaultHashtags must be at most ${MAX_HASHTAG_LENGTH} characters each`);
+  }
+  const bannedWords = unique(profile.bannedWords.map((word) => word.trim()));
+  if (bannedWords.length > MAX_BRAND_BANNED_WORDS) {
+    throw new InvalidBrandError(`bannedWords must have at most ${MAX_BRAND_BANNED_WORDS} items`);
+  }
+
+  return {
+    name,
+    voice,
+    defaultHashtags,
+    bannedWords,
+    defaultPersona: profile.defaultPersona?.trim() || undefined,
+  };
+}
+
+/**
+ * 空文字列と重複を除いたリスト（最初の出現順を保つ）
+ */
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean)));
+}
+
+/**
+ * ブランド アグリゲートルート
+ *
+ * ビジネスルール：
+ * - 名前とブランドボイスは必須
+ * - 既定のハッシュタグは MAX_BRAND_HASHTAGS 個、禁止語は MAX_BRAND_BANNED_WORDS 個まで
+ * - IDは作成後に変更しない（ドラフトはIDでブランドを参照する）
+ */
+export class Brand {
+  private constructor(private readonly props: BrandProps) {}
+
+  /**
+   * ファクトリメソッド：ブランドを生成
+   *
+   * @param id ユースケース層で払い出したID
+   * @param profile ブランドのプロフィール
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 不変条件を満たすBrandインスタンス
+   * @throws InvalidBrandError ビジネスルールに違反する場合
+   */
+  static create(id: string, profile: BrandProfile, clock: DraftClock): Brand {
+    return new Brand({ id, ...normalizeProfile(profile), createdAt: clock.now().toISOString() });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からブランドを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたBrandインスタンス
+   * @throws InvalidBrandError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: BrandProps): Brand {
+    if (!props.id) {
+      throw new InvalidBrandError("restored brand must have an id");
+    }
+    return new Brand({ ...props, ...normalizeProfile(props) });
+  }
+
+  /**
+   * 編集メソッド
+   *
+   * @param changes 上書きするフィールド
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 編集内容が反映された新しいBrandインスタンス
+   * @throws InvalidBrandError ビジネスルールに違反する場合
+   */
+  update(changes: BrandChanges, clock: DraftClock): Brand {
+    const profile = normalizeProfile({
+      name: changes.name ?? this.props.name,
+      voice: changes.voice ?? this.props.voice,
+      defaultHashtags: changes.defaultHashtags ?? this.props.defaultHashtags,
+      bannedWords: changes.bannedWords ?? this.props.bannedWords,
+      defaultPersona: changes.defaultPersona ?? this.props.defaultPersona,
+    });
+    return new Brand({ ...this.props, ...profile, updatedAt: clock.now().toISOString() });
+  }
+
+  /**
+   * 生成時に補うプロフィール
+   */
+  get profile(): BrandProfile {
+    return {
+      name: this.props.name,
+      voice: this.props.voice,
+      defaultHashtags: [...this.props.defaultHashtags],
+      bannedWords: [...this.props.bannedWords],
+      defaultPersona: this.props.defaultPersona,
+    };
+  }
+
+  toJSON(): BrandProps {
+    return { ...this.props, ...this.profile };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get name(): string {
+    return this.props.name;
+  }
+
+  get createdAt(): string {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): string | undefined {
+    return this.props.updatedAt;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview ドメイン層 - キャプション案
+ *
+ * コピーレビューで比較できるよう、1回の生成で切り口の異なる複数のキャプション案を作る。
+ * ドラフトは全ての案と採用中の案の番号を保持し、採用した案の内容を本文として扱う。
+ *
+ * 設計原則：
+ * - 切り口の固定：案ごとの切り口は CAPTION_ANGLES の順に割り当てる
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import { isComplianceViolation, type ComplianceViolation } from "./compliance";
+import { DomainValidationError } from "./errors";
+
+/**
+ * キャプションの切り口
+ *
+ * - hook-first: 冒頭の一文で興味を引く
+ * - story: 利用シーンや体験を物語として語る
+ * - list: ポイントを箇条書きで並べる
+ */
+export type CaptionAngle = "hook-first" | "story" | "list";
+
+/**
+ * 案を作る順に並べた切り口
+ */
+export const CAPTION_ANGLES: readonly CaptionAngle[] = ["hook-first", "story", "list"];
+
+/**
+ * 1回の生成で作れる案の最大数（切り口ごとに1案）
+ */
+export const MAX_CAPTION_VARIANTS = CAPTION_ANGLES.length;
+
+/**
+ * キャプション案
+ */
+export type CaptionVariant = {
+  angle: CaptionAngle;
+  caption: string;
+  hashtags: string[];
+  altText: string;
+  /** 生成時のコンプライアンスチェックの結果（チェックしていない場合は未定義） */
+  complianceViolations?: ComplianceViolation[];
+};
+
+/**
+ * 不正なキャプション案の指定エラー
+ *
+ * 存在しない案の番号が指定された場合などに送出されるドメインエラー。
+ */
+export class InvalidCaptionVariantError extends DomainValidationError {
+  constructor(message: string) {
+    super([{ field: "variants", code: "CAPTION_VARIANT_INVALID", message }]);
+    this.name = "InvalidCaptionVariantError";
+  }
+}
+
+/**
+ * 切り口の型ガード
+ *
+ * @param value 判定対象の値
+ * @returns CaptionAngleであればtrue
+ */
+export function isCaptionAngle(value: unknown): value is CaptionAngle {
+  return typeof value === "string" && (CAPTION_ANGLES as readonly string[]).includes(value);
+}
+
+/**
+ * キャプション案の型ガード
+ *
+ * 永続化データなど外部由来の値の構造を検証する。
+ *
+ * @param value 判定対象の値
+ * @returns CaptionVariantであればtrue
+ */
+export function isCaptionVariant(value: unknown): value is CaptionVariant {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    isCaptionAngle(record.angle) &&
+    typeof record.caption === "string" &&
+    typeof record.altText === "string" &&
+    Array.isArray(record.hashtags) &&
+    record.hashtags.every((tag) => typeof tag === "string") &&
+    (record.complianceViolations === undefined ||
+      (Array.isArray(record.complianceViolations) && record.complianceViolations.every(isComplianceViolation)))
+  );
+}
+
+/**
+ * 生成する案の切り口の決定
+ *
+ * @param count 案の数
+ * @returns 先頭から count 個の切り口
+ * @throws InvalidCaptionVariantError 1〜MAX_CAPTION_VARIANTS の整数でない場合
+ */
+export function captionAnglesFor(count: number): CaptionAngle[] {
+  if (!Number.isInteger(count) || count < 1 || count > MAX_CAPTION_VARIANTS) {
+    throw new InvalidCaptionVariantError(`variants must be an integer between 1 and ${MAX_CAPTION_VARIANTS}`);
+  }
+  return CAPTION_ANGLES.slice(0, count);
+}
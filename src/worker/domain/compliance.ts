@@ -0,0 +1,350 @@
+/**
+ * @fileoverview ドメイン層 - キャプションのコンプライアンスチェック
+ *
+ * 生成したキャプション・ハッシュタグ・代替テキストを、正規表現と語句辞書のルールで検査する。
+ * 化粧品・健康食品の広告で問題になる表現（薬機法・景表法）や、ブランドごとの禁止語を検出し、
+ * 該当箇所と言い換えの提案を違反として返す。
+ *
+ * 設計原則：
+ * - 設定可能なルール：ルールセットは組み込みの一覧に加えて外部から追加・置換できる
+ * - 二段階の重大度：warning は注意喚起、error は修正するまで承認できない
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+/**
+ * 違反の重大度
+ *
+ * - warning: 表現の確認を促す（承認は妨げない）
+ * - error: 修正するまで承認できない
+ */
+export type ComplianceSeverity = "warning" | "error";
+
+/**
+ * 検査対象のフィールド
+ *
+ * ハッシュタグは `#tag1 #tag2` の形に連結した文字列を検査する。
+ */
+export type ComplianceField = "caption" | "hashtags" | "altText";
+
+/**
+ * 検査ルール
+ *
+ * 正規表現（pattern）または語句の一覧（terms）のどちらかで該当箇所を探す。
+ */
+export type ComplianceRule = {
+  id: string;
+  severity: ComplianceSeverity;
+  /** 違反の理由 */
+  message: string;
+  /** 該当箇所の言い換えの提案（空文字列は削除を提案する） */
+  suggestion: string;
+  /** この正規表現が同じフィールドのどこかに当てはまる場合は検出しない（根拠の注記など） */
+  exceptWhen?: string;
+} & ({ pattern: string; flags?: string; terms?: never } | { terms: string[]; pattern?: never; flags?: never });
+
+/**
+ * 検査ルールの集合（法令・ブランド・運用者の定義ごと）
+ */
+export type ComplianceRuleSet = {
+  id: string;
+  /** 表示名（例: 薬機法） */
+  label: string;
+  rules: ComplianceRule[];
+};
+
+/**
+ * 検出した違反
+ */
+export type ComplianceViolation = {
+  ruleSetId: string;
+  ruleId: string;
+  severity: ComplianceSeverity;
+  field: ComplianceField;
+  /** 該当箇所の開始位置（フィールドの文字列の添字） */
+  start: number;
+  /** 該当箇所の終了位置（この位置の文字は含まない） */
+  end: number;
+  /** 該当した文字列 */
+  text: string;
+  message: string;
+  /** 言い換えの提案（空文字列は削除を提案する） */
+  suggestion: string;
+};
+
+/**
+ * 検査対象のコンテンツ
+ */
+export type ComplianceTarget = {
+  caption?: string;
+  hashtags?: string[];
+  altText?: string;
+};
+
+/** ブランドの禁止語から作るルールセットのID */
+export const BRAND_RULE_SET_ID = "brand";
+
+/**
+ * 不正な検査ルールエラー
+ *
+ * 正規表現として不正なパターンや空の語句一覧など、ルールの定義が不正な場合に送出される。
+ */
+export class InvalidComplianceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidComplianceRuleError";
+  }
+}
+
+/**
+ * 重大度の型ガード
+ */
+function isComplianceSeverity(value: unknown): value is ComplianceSeverity {
+  return value === "warning" || value === "error";
+}
+
+/**
+ * 違反の型ガード
+ *
+ * 永続化データなど外部由来の値の構造を検証する。
+ *
+ * @param value 判定対象の値
+ * @returns ComplianceViolationであればtrue
+ */
+export function isComplianceViolation(value: unknown): value is ComplianceViolation {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return (
+    typeof record.ruleSetId === "string" &&
+    typeof record.ruleId === "string" &&
+    isComplianceSeverity(record.severity) &&
+    (record.field === "caption" || record.field === "hashtags" || record.field === "altText") &&
+    Number.isInteger(record.start) &&
+    Number.isInteger(record.end) &&
+    typeof record.text === "string" &&
+    typeof record.message === "string" &&
+    typeof record.suggestion === "string"
+  );
+}
+
+/**
+ * 承認を妨げる違反があるかの判定
+ *
+ * @param violations 検出した違反
+ * @returns error の違反が1件以上あればtrue
+ */
+export function hasBlockingViolations(violations: readonly ComplianceViolation[] | undefined): boolean {
+  return violations?.some((violation) => violation.severity === "error") ?? false;
+}
+
+/**
+ * 正規表現の特殊文字のエスケープ
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * 正規表現のコンパイル
+ *
+ * 全件を走査するため g フラグを必ず付ける。
+ *
+ * @throws InvalidComplianceRuleError 正規表現として不正な場合
+ */
+function compile(ruleId: string, pattern: string, flags = ""): RegExp {
+  try {
+    return new RegExp(pattern, flags.includes("g") ? flags : `${flags}g`);
+  } catch {
+    throw new InvalidComplianceRuleError(`rule ${ruleId} has an invalid pattern`);
+  }
+}
+
+/**
+ * コンパイル済みのルール
+ */
+type CompiledRule = {
+  ruleSetId: string;
+  rule: ComplianceRule;
+  matcher: RegExp;
+  exception?: RegExp;
+};
+
+/**
+ * ルールのコンパイル
+ *
+ * 語句の一覧は長い語句を優先する選択の正規表現にまとめる（「最安値」を「最安」より先に当てる）。
+ *
+ * @throws InvalidComplianceRuleError ルールの定義が不正な場合
+ */
+function compileRule(ruleSetId: string, rule: ComplianceRule): CompiledRule {
+  let matcher: RegExp;
+  if (rule.terms !== undefined) {
+    const terms = rule.terms.map((term) => term.trim()).filter(Boolean);
+    if (terms.length === 0) {
+      throw new InvalidComplianceRuleError(`rule ${rule.id} must have at least one term`);
+    }
+    const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    matcher = compile(rule.id, alternatives.join("|"), "i");
+  } else {
+    matcher = compile(rule.id, rule.pattern, rule.flags);
+  }
+  if (matcher.test("")) {
+    throw new InvalidComplianceRuleError(`rule ${rule.id} must not match an empty string`);
+  }
+
+  return {
+    ruleSetId,
+    rule,
+    matcher,
+    exception: rule.exceptWhen === undefined ? undefined : compile(rule.id, rule.exceptWhen),
+  };
+}
+
+/**
+ * コンプライアンスチェッカー
+ *
+ * ルールセットはコンストラクタで検証・コンパイルし、検査のたびに再構築しない。
+ */
+export class ComplianceChecker {
+  private readonly rules: CompiledRule[];
+
+  /**
+   * @param ruleSets 適用するルールセット
+   * @throws InvalidComplianceRuleError ルールの定義が不正な場合
+   */
+  constructor(ruleSets: readonly ComplianceRuleSet[]) {
+    this.rules = ruleSets.flatMap((ruleSet) => ruleSet.rules.map((rule) => compileRule(ruleSet.id, rule)));
+  }
+
+  /**
+   * コンテンツの検査
+   *
+   * @param content 検査するキャプション・ハッシュタグ・代替テキスト
+   * @param bannedWords ブランドの禁止語（error として検出し、削除を提案する）
+   * @returns フィールド・位置の順に並んだ違反
+   */
+  check(content: ComplianceTarget, bannedWords: readonly string[] = []): ComplianceViolation[] {
+    const rules = [...this.rules, ...brandRules(bannedWords)];
+    const fields: [ComplianceField, string | undefined][] = [
+      ["caption", content.caption],
+      ["hashtags", content.hashtags?.map((tag) => `#${tag}`).join(" ")],
+      ["altText", content.altText],
+    ];
+
+    return fields.flatMap(([field, text]) => (text ? findViolations(field, text, rules) : []));
+  }
+}
+
+/**
+ * ブランドの禁止語のルール
+ */
+function brandRules(bannedWords: readonly string[]): CompiledRule[] {
+  const terms = bannedWords.map((word) => word.trim()).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+  return [
+    compileRule(BRAND_RULE_SET_ID, {
+      id: "banned-word",
+      severity: "error",
+      message: "ブランドの禁止語です",
+      suggestion: "",
+      terms,
+    }),
+  ];
+}
+
+/**
+ * 1フィールド分の違反の検出
+ *
+ * 同じルールの重なる該当は最初の1件だけを返す。
+ */
+function findViolations(field: ComplianceField, text: string, rules: CompiledRule[]): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+
+  for (const { ruleSetId, rule, matcher, exception } of rules) {
+    if (exception) {
+      exception.lastIndex = 0;
+      if (exception.test(text)) continue;
+    }
+
+    for (const match of text.matchAll(matcher)) {
+      violations.push({
+        ruleSetId,
+        ruleId: rule.id,
+        severity: rule.severity,
+        field,
+        start: match.index,
+        end: match.index + match[0].length,
+        text: match[0],
+        message: rule.message,
+        suggestion: rule.suggestion,
+      });
+    }
+  }
+
+  return violations.sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/**
+ * ルールセット定義（JSON）のパース
+ *
+ * 運用者が環境変数で追加するルールセットの読み込みに使う。
+ *
+ * @param json ルールセットの配列を表すJSON文字列
+ * @returns 検証済みのルールセット
+ * @throws InvalidComplianceRuleError JSONや定義が不正な場合
+ */
+export function parseComplianceRuleSets(json: string): ComplianceRuleSet[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new InvalidComplianceRuleError("compliance rule sets must be valid JSON");
+  }
+  if (!Array.isArray(value)) {
+    throw new InvalidComplianceRuleError("compliance rule sets must be an array");
+  }
+
+  const ruleSets = value.map((item, index) => {
+    const record = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>;
+    if (typeof record.id !== "string" || typeof record.label !== "string" || !Array.isArray(record.rules)) {
+      throw new InvalidComplianceRuleError(`compliance rule set ${index} must have id, label and rules`);
+    }
+    return { id: record.id, label: record.label, rules: record.rules.map(parseRule) };
+  });
+
+  // 定義の妥当性（正規表現・空の語句一覧）はコンパイルで検証する
+  new ComplianceChecker(ruleSets);
+  return ruleSets;
+}
+
+/**
+ * ルール定義の構造検証
+ */
+function parseRule(item: unknown): ComplianceRule {
+  const record = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>;
+  const { id, severity, message, suggestion, exceptWhen, pattern, flags, terms } = record;
+  if (typeof id !== "string" || typeof message !== "string" || typeof suggestion !== "string") {
+    throw new InvalidComplianceRuleError("compliance rule must have id, message and suggestion");
+  }
+  if (!isComplianceSeverity(severity)) {
+    throw new InvalidComplianceRuleError(`rule ${id} must have severity warning or error`);
+  }
+  if (exceptWhen !== undefined && typeof exceptWhen !== "string") {
+    throw new InvalidComplianceRuleError(`rule ${id} has an invalid exceptWhen`);
+  }
+
+  const base = { id, severity, message, suggestion, exceptWhen };
+  if (typeof pattern === "string" && terms === undefined) {
+    if (flags !== undefined && typeof flags !== "string") {
+      throw new InvalidComplianceRuleError(`rule ${id} has invalid flags`);
+    }
+    return { ...base, pattern, flags };
+  }
+  if (Array.isArray(terms) && terms.every((term) => typeof term === "string") && pattern === undefined) {
+    return { ...base, terms };
+  }
+  throw new InvalidComplianceRuleError(`rule ${id} must have either a pattern or terms`);
+}
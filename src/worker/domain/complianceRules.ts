@@ -0,0 +1,115 @@
+/**
+ * @fileoverview ドメイン層 - 組み込みのコンプライアンスルール
+ *
+ * 化粧品・健康食品の広告で問題になりやすい表現の一覧。
+ * 薬機法（医薬品的な効能効果・安全性の保証）と景表法（根拠のない優良・有利誤認）の観点で、
+ * 代表的な語句と言い換えの例をまとめる。法的な判断の代わりではなく、レビュー前の一次チェックに使う。
+ *
+ * 運用で語句を追加・変更する場合は、同じIDのルールセットを環境変数 COMPLIANCE_RULES で定義すると置き換えられる。
+ */
+
+import type { ComplianceRuleSet } from "./compliance";
+
+/** 根拠の注記（※ 自社調べ 等）がある場合は比較・順位の表現を許容する */
+const EVIDENCE_NOTE = "※.*(調べ|調査|出典|時点)";
+
+/**
+ * 薬機法：医薬品的な効能効果・安全性の保証
+ */
+export const PHARMACEUTICAL_AFFAIRS_RULE_SET: ComplianceRuleSet = {
+  id: "pharmaceutical-affairs",
+  label: "薬機法",
+  rules: [
+    {
+      id: "medical-efficacy",
+      severity: "error",
+      message: "化粧品・健康食品では病気の治療や治癒を表す表現は使えません",
+      suggestion: "すこやかに保つ",
+      terms: ["治る", "治す", "治療", "治癒", "完治", "効く", "特効"],
+    },
+    {
+      id: "physiological-change",
+      severity: "error",
+      message: "身体の構造・機能の変化を表す表現は使えません",
+      suggestion: "うるおいを与えて整える",
+      terms: ["若返る", "若返り", "シミが消える", "シミを消す", "シワが消える", "シワを消す", "細胞を活性化", "肌を再生", "痩せる", "やせる", "脂肪燃焼"],
+    },
+    {
+      id: "safety-guarantee",
+      severity: "error",
+      message: "安全性を保証する表現は使えません",
+      suggestion: "肌へのやさしさに配慮した",
+      terms: ["副作用なし", "副作用がない", "副作用ゼロ", "絶対安全", "100%安全"],
+    },
+    {
+      id: "medical-endorsement",
+      severity: "warning",
+      message: "医師・医療機関の推薦は誤認を招くおそれがあります",
+      suggestion: "専門家の知見を参考に開発した",
+      terms: ["医師も推薦", "医師推奨", "医師が推奨", "皮膚科医推奨", "病院でも使用"],
+    },
+    {
+      id: "immediate-effect",
+      severity: "warning",
+      message: "効果の速さを強調する表現は誤認を招くおそれがあります",
+      suggestion: "毎日のケアに",
+      terms: ["即効", "すぐに効果", "飲むだけで", "塗るだけで"],
+    },
+  ],
+};
+
+/**
+ * 景表法：根拠のない優良誤認・有利誤認
+ */
+export const PREMIUMS_AND_REPRESENTATIONS_RULE_SET: ComplianceRuleSet = {
+  id: "premiums-and-representations",
+  label: "景表法",
+  rules: [
+    {
+      id: "ranking-claim",
+      severity: "error",
+      message: "順位・No.1の表示には調査の出典（※ 〇〇調べ）を併記してください",
+      suggestion: "多くの方に選ばれている",
+      pattern: "[NＮ][OＯoｏ][.．]?\\s*[1１]|ナンバー(ワン|[1１])|第\\s*[1１]\\s*位|日本一|世界一|業界一",
+      flags: "i",
+      exceptWhen: EVIDENCE_NOTE,
+    },
+    {
+      id: "lowest-price",
+      severity: "error",
+      message: "最安の表示には比較の根拠（※ 〇〇時点 自社調べ）を併記してください",
+      suggestion: "お求めやすい価格",
+      terms: ["業界最安値", "業界最安", "最安値", "最安"],
+      exceptWhen: EVIDENCE_NOTE,
+    },
+    {
+      id: "absolute-claim",
+      severity: "warning",
+      message: "断定・誇張の表現は根拠を確認してください",
+      suggestion: "",
+      pattern: "絶対|完全|必ず|永久|[1１][0０]{2}\\s*[%％]",
+    },
+    {
+      id: "superlative-claim",
+      severity: "warning",
+      message: "最上級の表現は客観的な根拠を確認してください",
+      suggestion: "こだわりの",
+      terms: ["最高級", "最高", "最強", "究極"],
+    },
+    {
+      id: "limited-time",
+      severity: "warning",
+      message: "期間限定の表示は期間と条件を明記してください",
+      suggestion: "〇月〇日までの期間限定",
+      terms: ["今だけ", "本日限り", "期間限定"],
+    },
+  ],
+};
+
+/**
+ * 既定で適用するルールセット
+ */
+export const DEFAULT_COMPLIANCE_RULE_SETS: readonly ComplianceRuleSet[] = [
+  PHARMACEUTICAL_AFFAIRS_RULE_SET,
+  PREMIUMS_AND_REPRESENTATIONS_RULE_SET,
+];
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview ドメイン層 - 予約投稿の日時
+ *
+ * 予約投稿の日時とタイムゾーンを扱うドメインロジック。
+ * 予約日時はUTCの時刻として保存し、入力時のタイムゾーンを表示用に併せて保持する。
+ *
+ * 設計原則：
+ * - 外部依存の排除：タイムゾーンの解釈はランタイム標準のIntl APIのみを使用
+ * - 曖昧さの排除：オフセットのない日時は指定されたタイムゾーンの壁時計時刻として解釈する
+ */
+
+/**
+ * 不正な予約エラー
+ *
+ * 予約日時やタイムゾーンが解釈できない場合、過去の日時を指定した場合、
+ * 公開処理中・公開済みのドラフトを予約しようとした場合に送出される。
+ */
+export class InvalidDraftScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidDraftScheduleError";
+  }
+}
+
+/**
+ * オフセット付きのISO 8601日時（例: 2025-03-01T09:00:00+09:00、2025-03-01T00:00:00Z）
+ */
+const OFFSET_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * オフセットのない日時（例: 2025-03-01T09:00）
+ */
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * IANAタイムゾーン名の検証
+ *
+ * @param timeZone 判定対象のタイムゾーン名（例: Asia/Tokyo）
+ * @returns ランタイムが解釈できるタイムゾーンであればtrue
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 予約日時のUTCへの正規化
+ *
+ * オフセット付きの日時はそのまま時刻として解釈し、
+ * オフセットのない日時は timeZone の壁時計時刻としてUTCに変換する。
+ *
+ * @param value 予約日時の文字列
+ * @param timeZone 予約したタイムゾーン
+ * @returns UTCのISO 8601文字列
+ * @throws InvalidDraftScheduleError 日時またはタイムゾーンが解釈できない場合
+ */
+export function resolveScheduledAt(value: string, timeZone: string): string {
+  if (!isValidTimeZone(timeZone)) {
+    throw new InvalidDraftScheduleError(`unknown timezone: ${timeZone}`);
+  }
+
+  if (OFFSET_DATE_TIME.test(value)) {
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new InvalidDraftScheduleError(`invalid scheduledAt: ${value}`);
+    }
+    return new Date(time).toISOString();
+  }
+
+  const local = LOCAL_DATE_TIME.exec(value);
+  if (!local) {
+    throw new InvalidDraftScheduleError("scheduledAt must be an ISO 8601 date-time");
+  }
+
+  const [year, month, day, hour, minute, second] = local.slice(1).map((part) => Number(part ?? 0));
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const parsed = new Date(wallClock);
+  if (parsed.getUTCMonth() !== month - 1 || parsed.getUTCDate() !== day || hour > 23 || minute > 59 || second > 59) {
+    throw new InvalidDraftScheduleError(`invalid scheduledAt: ${value}`);
+  }
+
+  // 壁時計時刻からオフセットを引き、夏時間の切り替えをまたぐ場合に備えて求め直す
+  const firstGuess = wallClock - offsetOf(wallClock, timeZone);
+  return new Date(wallClock - offsetOf(firstGuess, timeZone)).toISOString();
+}
+
+/**
+ * タイムゾーンのUTCからのオフセット
+ *
+ * @param time UTCのエポックミリ秒
+ * @param timeZone タイムゾーン名
+ * @returns その時刻におけるオフセット（ミリ秒）
+ */
+function offsetOf(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
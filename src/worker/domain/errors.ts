@@ -0,0 +1,78 @@
+/**
+ * @fileoverview ドメイン層 - ドメインエラー
+ *
+ * ビジネスルール違反を表すエラーの基底クラスとエラーコード。
+ * HTTP層はエラーの種類ではなくクラス階層とコードでレスポンスを決めるため、
+ * コードは一度公開したら変更しない（クライアントが入力欄ごとの表示に使う）。
+ *
+ * - DomainValidationError: 入力値がルールを満たさない（どのフィールドの問題かを持つ）
+ * - DomainError: 現在の状態では実行できない操作（状態遷移・承認の拒否など）
+ */
+
+/**
+ * 入力値の検証エラーのコード
+ */
+export type DomainValidationErrorCode =
+  | "THEME_REQUIRED"
+  | "BRAND_VOICE_REQUIRED"
+  | "PLATFORM_UNSUPPORTED"
+  | "CAPTION_TOO_LONG"
+  | "LINKS_NOT_ALLOWED"
+  | "HASHTAG_LIMIT_EXCEEDED"
+  | "HASHTAG_TOO_LONG"
+  | "ALT_TEXT_TOO_LONG"
+  | "CAPTION_VARIANT_INVALID";
+
+/**
+ * ドメインエラーのコード
+ */
+export type DomainErrorCode =
+  | DomainValidationErrorCode
+  | "DRAFT_TRANSITION_INVALID"
+  | "DRAFT_NOT_EDITABLE"
+  | "COMPLIANCE_VIOLATION_BLOCKING";
+
+/**
+ * フィールド単位の検証エラー
+ */
+export type DomainFieldError = {
+  /** 入力のフィールド名（例: theme, hashtags） */
+  field: string;
+  code: DomainValidationErrorCode;
+  message: string;
+};
+
+/**
+ * ドメインエラー
+ *
+ * ビジネスルールにより操作を実行できない場合に送出されるエラーの基底クラス。
+ */
+export class DomainError extends Error {
+  constructor(
+    readonly code: DomainErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "DomainError";
+  }
+}
+
+/**
+ * 入力値の検証エラー
+ *
+ * 1つ以上のフィールドがルールを満たさない場合に送出される。
+ * 複数のフィールドの問題をまとめて返し、フォームの全入力欄に一度に表示できるようにする。
+ */
+export class DomainValidationError extends DomainError {
+  declare readonly code: DomainValidationErrorCode;
+  readonly fields: readonly DomainFieldError[];
+
+  /**
+   * @param fields フィールドごとのエラー（1件以上）。先頭のコードをエラー全体のコードとする
+   */
+  constructor(fields: readonly DomainFieldError[]) {
+    super(fields[0].code, fields.map((field) => field.message).join("; "));
+    this.name = "DomainValidationError";
+    this.fields = fields;
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * @fileoverview ドメイン層 - 一括生成バッチ
+ *
+ * スプレッドシートのブリーフ（1行が1件の生成リクエスト）からまとめてドラフトを生成するバッチのドメインモデル。
+ * 行はキューで1件ずつ処理され、行ごとに成功（作成したドラフト）か失敗（理由）を記録する。
+ *
+ * 設計原則：
+ * - 行の独立：行ごとに状態を持ち、1行の失敗が他の行の生成を止めない
+ * - 導出される状態：バッチ全体の状態・件数は行の状態から求め、別に保存しない
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import type { DomainFieldError } from "./errors";
+import type { DraftClock } from "./postDraft";
+
+/** 1つのバッチに含められる行の上限（1か月分の投稿計画を1回でアップロードできる数） */
+export const MAX_GENERATION_BATCH_ROWS = 100;
+
+/**
+ * 行の状態
+ *
+ * - queued: 生成待ち（キューに投入済み）
+ * - succeeded: ドラフトを作成した
+ * - failed: 検証・生成に失敗した
+ */
+export type GenerationBatchRowStatus = "queued" | "succeeded" | "failed";
+
+/**
+ * バッチ全体の状態
+ */
+export type GenerationBatchStatus = "running" | "completed";
+
+/**
+ * 行の失敗理由
+ * APIのエラーレスポンスの error と同じ形
+ */
+export type GenerationBatchRowError = {
+  message: string;
+  /** ドメインエラー・基盤の障害のコード（分類できない失敗は INTERNAL_ERROR） */
+  code?: string;
+  /** 入力値の検証エラーの場合のフィールドごとのエラー */
+  fields?: DomainFieldError[];
+};
+
+/**
+ * バッチの行
+ */
+export type GenerationBatchRow = {
+  /** アップロードした行の番号（0始まり） */
+  index: number;
+  /** 行のテーマ（結果の一覧で行を見分けるために保持する） */
+  theme?: string;
+  status: GenerationBatchRowStatus;
+  /** 作成するドラフトのID（作成時に払い出し、再配信で二重に作成しないようにする） */
+  draftId?: string;
+  caption?: string;
+  hashtags?: string[];
+  error?: GenerationBatchRowError;
+  completedAt?: string;
+};
+
+/**
+ * バッチ作成時の行の入力
+ *
+ * 検証に通った行は draftId を、通らなかった行は error を持つ。
+ */
+export type GenerationBatchRowInput =
+  | { theme?: string; draftId: string }
+  | { theme?: string; error: GenerationBatchRowError };
+
+/**
+ * バッチのプロパティ
+ */
+export type GenerationBatchProps = {
+  id: string;
+  /** 所属ブランド（ブランドを指定しないリクエストで作成した場合は未定義） */
+  brandId?: string;
+  createdAt: string;
+  /** 行の番号順 */
+  rows: GenerationBatchRow[];
+};
+
+/**
+ * 不正な一括生成バッチエラー
+ *
+ * 行のないバッチや上限を超えるバッチの作成、処理済みの行の更新など、
+ * ビジネスルールに違反した場合に送出される。
+ */
+export class InvalidGenerationBatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidGenerationBatchError";
+  }
+}
+
+/**
+ * 一括生成バッチ アグリゲートルート
+ *
+ * ビジネスルール：
+ * - 行は1件以上 MAX_GENERATION_BATCH_ROWS 件まで
+ * - 検証に失敗した行は作成時点で failed とし、キューに投入しない
+ * - 行は queued から succeeded・failed のどちらかへ一度だけ進む
+ * - 全ての行が終わった時点でバッチは completed になる
+ */
+export class GenerationBatch {
+  private constructor(private readonly props: GenerationBatchProps) {}
+
+  /**
+   * ファクトリメソッド：バッチを生成
+   *
+   * @param props バッチのIDと所属ブランド
+   * @param rows アップロードした順の行
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 不変条件を満たすGenerationBatchインスタンス
+   * @throws InvalidGenerationBatchError 行がない、または上限を超える場合
+   */
+  static create(
+    props: { id: string; brandId?: string },
+    rows: readonly GenerationBatchRowInput[],
+    clock: DraftClock
+  ): GenerationBatch {
+    const now = clock.now().toISOString();
+    return GenerationBatch.restore({
+      ...props,
+      createdAt: now,
+      rows: rows.map((row, index) =>
+        "error" in row
+          ? { index, theme: row.theme, status: "failed", error: row.error, completedAt: now }
+          : { index, theme: row.theme, status: "queued", draftId: row.draftId }
+      ),
+    });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からバッチを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたGenerationBatchインスタンス
+   * @throws InvalidGenerationBatchError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: GenerationBatchProps): GenerationBatch {
+    if (!props.id) {
+      throw new InvalidGenerationBatchError("batch must have an id");
+    }
+    if (props.rows.length === 0) {
+      throw new InvalidGenerationBatchError("batch must contain at least one row");
+    }
+    if (props.rows.length > MAX_GENERATION_BATCH_ROWS) {
+      throw new InvalidGenerationBatchError(`batch must contain at most ${MAX_GENERATION_BATCH_ROWS} rows`);
+    }
+    return new GenerationBatch({ ...props, rows: props.rows.map((row) => ({ ...row })) });
+  }
+
+  toJSON(): GenerationBatchProps {
+    return { ...this.props, rows: this.props.rows.map((row) => ({ ...row })) };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get brandId(): string | undefined {
+    return this.props.brandId;
+  }
+
+  get rows(): readonly GenerationBatchRow[] {
+    return this.props.rows;
+  }
+
+  /**
+   * キューに投入する（生成待ちの）行
+   */
+  get queuedRows(): GenerationBatchRow[] {
+    return this.props.rows.filter((row) => row.status === "queued");
+  }
+
+  get status(): GenerationBatchStatus {
+    return this.queuedRows.length === 0 ? "completed" : "running";
+  }
+
+  /**
+   * 最後の行が終わった日時（完了していない場合は未定義）
+   */
+  get completedAt(): string | undefined {
+    if (this.status !== "completed") {
+      return undefined;
+    }
+    return this.props.rows
+      .map((row) => row.completedAt ?? this.props.createdAt)
+      .reduce((latest, completedAt) => (completedAt > latest ? completedAt : latest));
+  }
+
+  /**
+   * 状態ごとの行数
+   */
+  count(status: GenerationBatchRowStatus): number {
+    return this.props.rows.filter((row) => row.status === status).length;
+  }
+}
+
+/**
+ * 行の成功の記録
+ *
+ * @param row 生成待ちの行
+ * @param draft 作成したドラフトのキャプションとハッシュタグ
+ * @param clock 時刻取得のための依存性注入されたサービス
+ * @returns succeeded になった行
+ * @throws InvalidGenerationBatchError 行が処理済みの場合
+ */
+export function succeedBatchRow(
+  row: GenerationBatchRow,
+  draft: { caption: string; hashtags: string[] },
+  clock: DraftClock
+): GenerationBatchRow {
+  assertQueued(row);
+  return {
+    ...row,
+    status: "succeeded",
+    caption: draft.caption,
+    hashtags: [...draft.hashtags],
+    completedAt: clock.now().toISOString(),
+  };
+}
+
+/**
+ * 行の失敗の記録
+ *
+ * @param row 生成待ちの行
+ * @param error 失敗理由
+ * @param clock 時刻取得のための依存性注入されたサービス
+ * @returns failed になった行
+ * @throws InvalidGenerationBatchError 行が処理済みの場合
+ */
+export function failBatchRow(
+  row: GenerationBatchRow,
+  error: GenerationBatchRowError,
+  clock: DraftClock
+): GenerationBatchRow {
+  assertQueued(row);
+  return { ...row, status: "failed", error, completedAt: clock.now().toISOString() };
+}
+
+/**
+ * 行が生成待ちであることの確認
+ *
+ * @throws InvalidGenerationBatchError 行が処理済みの場合
+ */
+function assertQueued(row: GenerationBatchRow): void {
+  if (row.status !== "queued") {
+    throw new InvalidGenerationBatchError(`row ${row.index} has already ${row.status}`);
+  }
+}
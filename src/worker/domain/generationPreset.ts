@@ -0,0 +1,136 @@
+/**
+ * @fileoverview ドメイン層 - 生成プリセット
+ *
+ * 生成フォームで繰り返し入力するブランドトーン・ターゲットペルソナを名前付きで保存するドメインモデル。
+ * 同じ表現を毎回手入力することによる生成結果のばらつきを防ぐ。
+ *
+ * 設計原則：
+ * - 不変性の保証：作成後は変更せず、内容を変える場合は別のプリセットとして保存する
+ * - ビジネス不変条件の保護：種類・名前・値の妥当性を作成時に検証
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import type { DraftClock } from "./postDraft";
+
+/**
+ * プリセットを適用する生成リクエストのフィールド
+ */
+export type GenerationPresetKind = "brandVoice" | "targetPersona";
+
+/** プリセット名の最大長 */
+export const MAX_PRESET_LABEL_LENGTH = 50;
+
+/** プリセットの値の最大長 */
+export const MAX_PRESET_VALUE_LENGTH = 500;
+
+/** プリセットを適用できるフィールド */
+export const GENERATION_PRESET_KINDS: readonly GenerationPresetKind[] = ["brandVoice", "targetPersona"];
+
+/**
+ * プリセットの種類の判定
+ *
+ * @param value 判定対象の値
+ * @returns 既知の種類の場合はtrue
+ */
+export function isGenerationPresetKind(value: unknown): value is GenerationPresetKind {
+  return GENERATION_PRESET_KINDS.includes(value as GenerationPresetKind);
+}
+
+/**
+ * 不正な生成プリセットエラー
+ *
+ * 空の値や上限を超える名前など、プリセットの作成がビジネスルールに違反した場合に送出される。
+ */
+export class InvalidGenerationPresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidGenerationPresetError";
+  }
+}
+
+/**
+ * 生成プリセットのプロパティ
+ */
+export type GenerationPresetProps = {
+  id: string;
+  /** 所属ブランド（ブランドを指定しないリクエストで保存した場合は未定義） */
+  brandId?: string;
+  kind: GenerationPresetKind;
+  label: string;
+  value: string;
+  createdAt: string;
+};
+
+/**
+ * 生成プリセット アグリゲートルート
+ *
+ * ビジネスルール：
+ * - 値は空文字列不可、MAX_PRESET_VALUE_LENGTH 文字まで
+ * - 名前は MAX_PRESET_LABEL_LENGTH 文字まで（省略時は値の先頭を使う）
+ */
+export class GenerationPreset {
+  private constructor(private readonly props: GenerationPresetProps) {}
+
+  /**
+   * ファクトリメソッド：プリセットを生成
+   *
+   * @param props 作成日時を除くプロパティ（名前は省略可）
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 不変条件を満たすGenerationPresetインスタンス
+   * @throws InvalidGenerationPresetError ビジネスルールに違反する場合
+   */
+  static create(
+    props: Omit<GenerationPresetProps, "label" | "createdAt"> & { label?: string },
+    clock: DraftClock
+  ): GenerationPreset {
+    const value = props.value?.trim();
+    return GenerationPreset.restore({
+      ...props,
+      value,
+      label: props.label?.trim() || value?.slice(0, MAX_PRESET_LABEL_LENGTH),
+      createdAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からプリセットを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたGenerationPresetインスタンス
+   * @throws InvalidGenerationPresetError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: GenerationPresetProps): GenerationPreset {
+    if (!props.id) {
+      throw new InvalidGenerationPresetError("preset must have an id");
+    }
+    if (!isGenerationPresetKind(props.kind)) {
+      throw new InvalidGenerationPresetError(`kind must be one of ${GENERATION_PRESET_KINDS.join(", ")}`);
+    }
+    if (!props.value) {
+      throw new InvalidGenerationPresetError("value must be a non-empty string");
+    }
+    if (props.value.length > MAX_PRESET_VALUE_LENGTH) {
+      throw new InvalidGenerationPresetError(`value must be at most ${MAX_PRESET_VALUE_LENGTH} characters`);
+    }
+    if (props.label.length > MAX_PRESET_LABEL_LENGTH) {
+      throw new InvalidGenerationPresetError(`label must be at most ${MAX_PRESET_LABEL_LENGTH} characters`);
+    }
+    return new GenerationPreset({ ...props });
+  }
+
+  toJSON(): GenerationPresetProps {
+    return { ...this.props };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get brandId(): string | undefined {
+    return this.props.brandId;
+  }
+
+  get kind(): GenerationPresetKind {
+    return this.props.kind;
+  }
+}
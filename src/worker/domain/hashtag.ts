@@ -0,0 +1,215 @@
+/**
+ * @fileoverview ドメイン層 - ハッシュタグ
+ *
+ * 生成器・編集・ブランド設定から入ってくるハッシュタグを同じ規則で正規化し、
+ * 投稿先の上限数に収まるよう規模の異なるタグを組み合わせて選ぶ。
+ *
+ * 正規化の規則：
+ * - NFKC 正規化（全角英数・全角＃・半角カナを統一する）
+ * - 先頭の # を除去し、空白・記号・絵文字など、タグとして使えない文字を除去する
+ * - 大文字小文字を区別せずに重複を除く（最初に現れた表記を残す）
+ *
+ * 設計原則：
+ * - 単一の規則：生成器とアグリゲートが同じ関数を使い、`#カフェ` と `カフェ` のような重複を残さない
+ * - 設定可能な配分：規模ごとの配分は組み込みの既定値を環境変数で上書きできる
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import { DomainValidationError } from "./errors";
+
+/** ハッシュタグ1件の最大長（# を除いた文字数） */
+export const MAX_HASHTAG_LENGTH = 30;
+
+/**
+ * ハッシュタグの規模
+ *
+ * - big: 投稿数の多い一般的なタグ（露出は大きいが埋もれやすい）
+ * - mid: 中規模のタグ
+ * - niche: 投稿数の少ない具体的なタグ（露出は小さいが上位に残りやすい）
+ */
+export type HashtagTier = "big" | "mid" | "niche";
+
+/** 規模の並び（配分の端数はこの順に割り当てる） */
+export const HASHTAG_TIERS: readonly HashtagTier[] = ["big", "mid", "niche"];
+
+/**
+ * 規模ごとの配分（比率。合計が1である必要はない）
+ */
+export type HashtagTierMix = Record<HashtagTier, number>;
+
+/** 既定の配分（中規模を中心に、一般的なタグと具体的なタグを混ぜる） */
+export const DEFAULT_HASHTAG_TIER_MIX: HashtagTierMix = { big: 2, mid: 5, niche: 3 };
+
+/**
+ * 不正なハッシュタグエラー
+ *
+ * 正規化後のハッシュタグが上限の長さを超える場合などに送出される。
+ */
+export class InvalidHashtagError extends DomainValidationError {
+  constructor(message: string) {
+    super([{ field: "hashtags", code: "HASHTAG_TOO_LONG", message }]);
+    this.name = "InvalidHashtagError";
+  }
+}
+
+/** タグとして使えない文字（文字・数字・結合文字・アンダースコア以外） */
+const INVALID_CHARACTERS = /[^\p{L}\p{N}\p{M}_]/gu;
+
+/** 絵文字（結合文字や数字と組み合わせて表示されるものを含む） */
+const EMOJI = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\p{Emoji_Modifier}|\u{FE0E}|\u{FE0F}|\u{200D}|\u{20E3}/gu;
+
+/**
+ * ハッシュタグ1件の正規化
+ *
+ * 絵文字は数字と組み合わせたキーキャップ（1️⃣）も含めて除去する。
+ *
+ * @param raw 入力されたハッシュタグ（# の有無は問わない）
+ * @returns 先頭の # を含まない正規化済みのタグ、使える文字が残らない場合は空文字列
+ */
+export function normalizeHashtag(raw: string): string {
+  return raw
+    .normalize("NFKC")
+    .replace(/[0-9#*]\u{FE0F}?\u{20E3}/gu, "")
+    .replace(EMOJI, "")
+    .replace(INVALID_CHARACTERS, "");
+}
+
+/**
+ * 重複判定のキー（大文字小文字を区別しない）
+ */
+function hashtagKey(tag: string): string {
+  return tag.toLowerCase();
+}
+
+/**
+ * ハッシュタグ一覧の正規化
+ *
+ * 正規化後に空になるタグと、大文字小文字を区別せずに重複するタグを除く。
+ *
+ * @param raws 入力されたハッシュタグ
+ * @returns 最初の出現順を保った正規化済みのタグ
+ */
+export function normalizeHashtags(raws: readonly string[]): string[] {
+  const tags = new Map<string, string>();
+  for (const raw of raws) {
+    const tag = normalizeHashtag(raw);
+    if (tag && !tags.has(hashtagKey(tag))) {
+      tags.set(hashtagKey(tag), tag);
+    }
+  }
+  return Array.from(tags.values());
+}
+
+/**
+ * ハッシュタグの長さの検証
+ *
+ * @param tags 正規化済みのタグ
+ * @throws InvalidHashtagError MAX_HASHTAG_LENGTH を超えるタグがある場合
+ */
+export function assertHashtagLengths(tags: readonly string[]): void {
+  const tooLong = tags.find((tag) => Array.from(tag).length > MAX_HASHTAG_LENGTH);
+  if (tooLong !== undefined) {
+    throw new InvalidHashtagError(`hashtag must be at most ${MAX_HASHTAG_LENGTH} characters: ${tooLong}`);
+  }
+}
+
+/**
+ * ハッシュタグの規模の推定
+ *
+ * 投稿数のデータを持たないため文字数で推定する。短い一般語ほど投稿数が多く、
+ * 複数の語をつないだ長いタグほど具体的で投稿数が少ない傾向に基づく。
+ *
+ * @param tag 正規化済みのタグ
+ * @returns 推定した規模
+ */
+export function classifyHashtag(tag: string): HashtagTier {
+  const length = Array.from(tag).length;
+  if (length <= 4) return "big";
+  if (length <= 10) return "mid";
+  return "niche";
+}
+
+/**
+ * 配分に従った規模ごとの枠数
+ *
+ * 最大剰余法で limit を比率に応じて割り当てる。
+ */
+function tierQuotas(limit: number, mix: HashtagTierMix): HashtagTierMix {
+  const total = HASHTAG_TIERS.reduce((sum, tier) => sum + mix[tier], 0);
+  const exact = HASHTAG_TIERS.map((tier) => (total > 0 ? (limit * mix[tier]) / total : 0));
+  const quotas = exact.map(Math.floor);
+  const byRemainder = HASHTAG_TIERS.map((_, index) => index).sort(
+    (a, b) => exact[b] - quotas[b] - (exact[a] - quotas[a])
+  );
+  // 切り捨てで余る枠は規模の数より少ないため、剰余の大きい順に1つずつ配る
+  const rest = limit - quotas.reduce((sum, quota) => sum + quota, 0);
+  byRemainder.slice(0, rest).forEach((index) => quotas[index]++);
+  return { big: quotas[0], mid: quotas[1], niche: quotas[2] };
+}
+
+/**
+ * 上限数に収まるハッシュタグの選択
+ *
+ * 候補を正規化・重複除去・長さ超過の除外をしたうえで、規模ごとの配分に従って選ぶ。
+ * 必須のタグ（ブランドの既定のタグなど）は先に選び、その規模の枠を消費する。
+ * 候補の足りない規模の枠は、残りの候補から元の順に埋める。
+ *
+ * @param candidates 候補のタグ（優先度の高い順）
+ * @param limit 選ぶ最大数（投稿先プラットフォームの上限）
+ * @param options 規模ごとの配分と必須のタグ
+ * @returns 必須のタグ、候補の元の順に並んだ選択済みのタグ
+ */
+export function rankHashtags(
+  candidates: readonly string[],
+  limit: number,
+  options: { mix?: HashtagTierMix; required?: readonly string[] } = {}
+): string[] {
+  const isValid = (tag: string) => Array.from(tag).length <= MAX_HASHTAG_LENGTH;
+  const tags = normalizeHashtags([...(options.required ?? []), ...candidates]).filter(isValid);
+  const requiredKeys = new Set(normalizeHashtags(options.required ?? []).map(hashtagKey));
+  const quotas = tierQuotas(limit, options.mix ?? DEFAULT_HASHTAG_TIER_MIX);
+  const selected = new Set<string>();
+
+  const take = (tag: string) => {
+    selected.add(tag);
+    quotas[classifyHashtag(tag)]--;
+  };
+  for (const tag of tags) {
+    if (selected.size < limit && requiredKeys.has(hashtagKey(tag))) take(tag);
+  }
+  for (const tag of tags) {
+    if (selected.size < limit && !selected.has(tag) && quotas[classifyHashtag(tag)] > 0) take(tag);
+  }
+  for (const tag of tags) {
+    if (selected.size < limit && !selected.has(tag)) take(tag);
+  }
+
+  return tags.filter((tag) => selected.has(tag));
+}
+
+/**
+ * 規模ごとの配分（wrangler vars の HASHTAG_TIER_MIX）の解釈
+ *
+ * @param raw 規模ごとの比率のJSON（例: {"big":1,"mid":2,"niche":1}）。省略した規模は0として扱う
+ * @returns 配分、未設定の場合は DEFAULT_HASHTAG_TIER_MIX
+ * @throws エラー JSONとして不正、または比率が0以上の数値でない場合
+ */
+export function parseHashtagTierMix(raw: string | undefined): HashtagTierMix {
+  if (!raw) {
+    return DEFAULT_HASHTAG_TIER_MIX;
+  }
+
+  const parsed = JSON.parse(raw) as Partial<Record<HashtagTier, unknown>>;
+  const mix = { big: 0, mid: 0, niche: 0 };
+  for (const tier of HASHTAG_TIERS) {
+    const weight = parsed[tier] ?? 0;
+    if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`HASHTAG_TIER_MIX has an invalid weight: ${tier}`);
+    }
+    mix[tier] = weight;
+  }
+  if (mix.big + mix.mid + mix.niche === 0) {
+    throw new Error("HASHTAG_TIER_MIX must have a positive weight");
+  }
+  return mix;
+}
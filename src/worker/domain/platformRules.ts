@@ -0,0 +1,328 @@
+/**
+ * @fileoverview ドメイン層 - 投稿先プラットフォームのルール
+ *
+ * 同じキャンペーンを複数のSNSに投稿するため、プラットフォームごとの
+ * 本文の長さ・ハッシュタグ数・リンクの扱い・代替テキストの長さをルール表として定義する。
+ * PostDraftアグリゲートはこの表で不変条件を検証し、コンテンツ生成器は出力をこの表に合わせる。
+ *
+ * 設計原則：
+ * - ルールの集約：プラットフォーム固有の数値はこのファイルにのみ記述する
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import { rankHashtags, type HashtagTierMix } from "./hashtag";
+import { DomainValidationError, type DomainValidationErrorCode } from "./errors";
+
+/**
+ * 投稿先プラットフォーム
+ */
+export type SocialPlatform = "instagram" | "x" | "threads" | "linkedin" | "tiktok";
+
+/**
+ * プラットフォーム未指定時の投稿先（複数プラットフォーム対応前のドラフトを含む）
+ */
+export const DEFAULT_PLATFORM: SocialPlatform = "instagram";
+
+/**
+ * 本文中のリンクの扱い
+ *
+ * - allowed: 本文にURLを含められる
+ * - forbidden: 本文のURLはリンクにならないため含めない（プロフィールのリンクに誘導する）
+ */
+export type LinkPolicy = "allowed" | "forbidden";
+
+/**
+ * プラットフォームごとの投稿ルール
+ */
+export type PlatformRules = {
+  /** 表示名 */
+  label: string;
+  /** 本文（ハッシュタグを含む）の最大長 */
+  maxCaptionLength: number;
+  /** ハッシュタグの最大数 */
+  maxHashtags: number;
+  /** 本文中のリンクの扱い */
+  links: LinkPolicy;
+  /** URL1件を何文字として数えるか（短縮URLに置き換えるプラットフォームのみ） */
+  urlLength?: number;
+  /** 全角文字などを2文字として数えるか（Xの重み付き文字数） */
+  weightedLength: boolean;
+  /** 代替テキストの最大長 */
+  maxAltTextLength: number;
+  /** ルールベース生成で付与するプラットフォーム標準のハッシュタグ */
+  standardHashtag?: string;
+};
+
+/**
+ * プラットフォームのルール表
+ *
+ * 各プラットフォームの公開仕様と運用上の推奨値に基づく。
+ * Instagramのハッシュタグ数は従来からの運用上限（25個）を維持する。
+ */
+export const PLATFORM_RULES: Record<SocialPlatform, PlatformRules> = {
+  instagram: {
+    label: "Instagram",
+    maxCaptionLength: 2200,
+    maxHashtags: 25,
+    links: "forbidden",
+    weightedLength: false,
+    maxAltTextLength: 1000,
+    standardHashtag: "instagram",
+  },
+  x: {
+    label: "X",
+    maxCaptionLength: 280,
+    maxHashtags: 3,
+    links: "allowed",
+    urlLength: 23,
+    weightedLength: true,
+    maxAltTextLength: 1000,
+  },
+  threads: {
+    label: "Threads",
+    maxCaptionLength: 500,
+    maxHashtags: 1,
+    links: "allowed",
+    weightedLength: false,
+    maxAltTextLength: 1000,
+  },
+  linkedin: {
+    label: "LinkedIn",
+    maxCaptionLength: 3000,
+    maxHashtags: 5,
+    links: "allowed",
+    weightedLength: false,
+    maxAltTextLength: 300,
+  },
+  tiktok: {
+    label: "TikTok",
+    maxCaptionLength: 2200,
+    maxHashtags: 10,
+    links: "forbidden",
+    weightedLength: false,
+    maxAltTextLength: 100,
+    standardHashtag: "tiktok",
+  },
+};
+
+/**
+ * 投稿先プラットフォームの型ガード
+ *
+ * @param value 判定対象の値
+ * @returns SocialPlatformであればtrue
+ */
+export function isSocialPlatform(value: unknown): value is SocialPlatform {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(PLATFORM_RULES, value);
+}
+
+/**
+ * プラットフォームのルールの種類
+ */
+type PlatformRule = "caption" | "hashtags" | "links" | "altText";
+
+/** ルールごとの入力フィールドとエラーコード（リンクは本文の問題として扱う） */
+const RULE_FIELD_ERRORS: Record<PlatformRule, { field: string; code: DomainValidationErrorCode }> = {
+  caption: { field: "caption", code: "CAPTION_TOO_LONG" },
+  hashtags: { field: "hashtags", code: "HASHTAG_LIMIT_EXCEEDED" },
+  links: { field: "caption", code: "LINKS_NOT_ALLOWED" },
+  altText: { field: "altText", code: "ALT_TEXT_TOO_LONG" },
+};
+
+/**
+ * プラットフォームのルール違反エラー
+ *
+ * 本文の長さ・ハッシュタグ数・リンク・代替テキストの長さが
+ * 選択されたプラットフォームのルールを満たさない場合に送出されるドメインエラー。
+ */
+export class PlatformRuleViolationError extends DomainValidationError {
+  constructor(
+    readonly platform: SocialPlatform,
+    readonly rule: PlatformRule,
+    message: string
+  ) {
+    super([{ ...RULE_FIELD_ERRORS[rule], message }]);
+    this.name = "PlatformRuleViolationError";
+  }
+}
+
+/** 本文中のURL */
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+/**
+ * 投稿される本文の組み立て
+ *
+ * 本文の後に空行を挟んでハッシュタグを並べる。
+ *
+ * @param caption 本文
+ * @param hashtags 先頭の#を含まないハッシュタグ
+ * @returns 投稿される文字列
+ */
+export function composePostText(caption: string, hashtags: readonly string[]): string {
+  const tags = hashtags.map((tag) => `#${tag}`).join(" ");
+  return [caption, tags].filter(Boolean).join("\n\n");
+}
+
+/**
+ * プラットフォームの数え方による文字数
+ *
+ * サロゲートペアは1文字として数える。重み付きのプラットフォームでは
+ * ラテン文字・一般的な記号以外（日本語など）を2文字として数え、URLは固定長で数える。
+ *
+ * @param text 対象の文字列
+ * @param rules プラットフォームのルール
+ * @returns 文字数
+ */
+export function measureText(text: string, rules: PlatformRules): number {
+  let length = 0;
+  let remaining = text;
+  if (rules.urlLength !== undefined) {
+    const urls = text.match(URL_PATTERN) ?? [];
+    length += urls.length * rules.urlLength;
+    remaining = text.replace(URL_PATTERN, "");
+  }
+
+  for (const char of remaining) {
+    length += charWidth(char, rules);
+  }
+  return length;
+}
+
+/**
+ * 1文字の幅
+ */
+function charWidth(char: string, rules: PlatformRules): number {
+  return rules.weightedLength && isWideChar(char) ? 2 : 1;
+}
+
+/**
+ * Xの重み付き文字数で2文字として数える文字か
+ *
+ * Xの公開設定（twitter-text）で重み1の範囲以外を2文字として扱う。
+ */
+function isWideChar(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  return !(
+    code <= 0x10ff ||
+    (code >= 0x2000 && code <= 0x200d) ||
+    (code >= 0x2010 && code <= 0x201f) ||
+    (code >= 0x2032 && code <= 0x2037)
+  );
+}
+
+/**
+ * 本文にURLが含まれるか
+ *
+ * @param text 対象の文字列
+ * @returns URLを含む場合はtrue
+ */
+export function containsUrl(text: string): boolean {
+  return new RegExp(URL_PATTERN.source).test(text);
+}
+
+/**
+ * プラットフォームのルールの検証
+ *
+ * @param platform 投稿先プラットフォーム
+ * @param content 検証対象のコンテンツ
+ * @throws PlatformRuleViolationError ルールに違反する場合
+ */
+export function assertPlatformRules(
+  platform: SocialPlatform,
+  content: { caption?: string; hashtags?: string[]; altText?: string }
+): void {
+  const rules = PLATFORM_RULES[platform];
+  const hashtags = content.hashtags ?? [];
+
+  if (hashtags.length > rules.maxHashtags) {
+    throw new PlatformRuleViolationError(
+      platform,
+      "hashtags",
+      `hashtags must be ${rules.maxHashtags} items or fewer for ${rules.label}`
+    );
+  }
+  if (rules.links === "forbidden" && content.caption && containsUrl(content.caption)) {
+    throw new PlatformRuleViolationError(
+      platform,
+      "links",
+      `caption must not contain links for ${rules.label}`
+    );
+  }
+  if (measureText(composePostText(content.caption ?? "", hashtags), rules) > rules.maxCaptionLength) {
+    throw new PlatformRuleViolationError(
+      platform,
+      "caption",
+      `caption with hashtags must be ${rules.maxCaptionLength} characters or fewer for ${rules.label}`
+    );
+  }
+  if (content.altText && measureText(content.altText, rules) > rules.maxAltTextLength) {
+    throw new PlatformRuleViolationError(
+      platform,
+      "altText",
+      `altText must be ${rules.maxAltTextLength} characters or fewer for ${rules.label}`
+    );
+  }
+}
+
+/**
+ * コンテンツをプラットフォームのルールに合わせる
+ *
+ * コンテンツ生成器の出力をアグリゲートの不変条件を満たす形に整える。
+ * - ハッシュタグは正規化し、規模ごとの配分に従って上限数までを選ぶ（rankHashtags）
+ * - リンク禁止のプラットフォームでは本文からURLを除去する
+ * - 本文・代替テキストは上限を超える場合に末尾を「…」で切り詰める
+ *
+ * @param platform 投稿先プラットフォーム
+ * @param content 生成されたコンテンツ
+ * @param hashtagOptions ハッシュタグの規模ごとの配分と、必ず残すタグ
+ * @returns ルールを満たすコンテンツ
+ */
+export function fitToPlatformRules<T extends { caption: string; hashtags: string[]; altText: string }>(
+  platform: SocialPlatform,
+  content: T,
+  hashtagOptions: { mix?: HashtagTierMix; required?: readonly string[] } = {}
+): T {
+  const rules = PLATFORM_RULES[platform];
+  const hashtags = rankHashtags(content.hashtags, rules.maxHashtags, hashtagOptions);
+
+  let caption = content.caption;
+  if (rules.links === "forbidden") {
+    caption = caption.replace(URL_PATTERN, "").replace(/[ \t]{2,}/g, " ").trim();
+  }
+
+  const tagsLength = hashtags.length > 0 ? measureText(composePostText("", hashtags), rules) + 2 : 0;
+  caption = truncate(caption, rules.maxCaptionLength - tagsLength, rules);
+
+  return {
+    ...content,
+    caption,
+    hashtags,
+    altText: truncate(content.altText, rules.maxAltTextLength, rules),
+  };
+}
+
+/**
+ * 文字数の上限までの切り詰め
+ *
+ * @param text 対象の文字列
+ * @param maxLength 上限（プラットフォームの数え方による）
+ * @param rules プラットフォームのルール
+ * @returns 上限以内の文字列（切り詰めた場合は末尾に「…」）
+ */
+function truncate(text: string, maxLength: number, rules: PlatformRules): string {
+  if (measureText(text, rules) <= maxLength) {
+    return text;
+  }
+
+  const ellipsis = "…";
+  const budget = maxLength - measureText(ellipsis, rules);
+  // URLの固定長は考慮せず1文字ずつ数える（URLは固定長以上になるため上限は超えない）
+  let result = "";
+  let used = 0;
+  for (const char of text) {
+    const width = charWidth(char, rules);
+    if (used + width > budget) break;
+    result += char;
+    used += width;
+  }
+  return `${result.trimEnd()}${ellipsis}`;
+}
@@ -11,6 +11,18 @@
  * - エンティティの一意性：IDによる識別
  */
 
+import { DEFAULT_PLATFORM, assertPlatformRules, isSocialPlatform, type SocialPlatform } from "./platformRules";
+import { InvalidDraftScheduleError, isValidTimeZone } from "./draftSchedule";
+import {
+  InvalidCaptionVariantError,
+  MAX_CAPTION_VARIANTS,
+  isCaptionVariant,
+  type CaptionVariant,
+} from "./captionVariant";
+import { hasBlockingViolations, isComplianceViolation, type ComplianceViolation } from "./compliance";
+import { assertHashtagLengths, normalizeHashtags } from "./hashtag";
+import { DomainError, DomainValidationError, type DomainFieldError } from "./errors";
+
 /**
  * 時計インターフェース
  * DI（依存性注入）を通じてテスタビリティを確保するためのポート
@@ -19,6 +31,117 @@ export type DraftClock = {
   now(): Date;
 };
 
+/**
+ * ドラフトのライフサイクル状態
+ * 
+ * draft → approved → publishing → published / failed の順に遷移する。
+ */
+export type DraftStatus = "draft" | "approved" | "publishing" | "published" | "failed";
+
+/**
+ * 許可された状態遷移の定義
+ * 
+ * キー：遷移元、値：遷移可能な遷移先の一覧。
+ * - approved / failed からは draft に差し戻せる（reopen）
+ * - failed からは再度 publishing に進める（リトライ）
+ * - published は終端状態
+ */
+const ALLOWED_TRANSITIONS: Record<DraftStatus, readonly DraftStatus[]> = {
+  draft: ["approved"],
+  approved: ["publishing", "draft"],
+  publishing: ["published", "failed"],
+  published: [],
+  failed: ["publishing", "draft"],
+};
+
+/**
+ * 編集で変更できる内容のフィールド
+ *
+ * 承認済みのドラフトでこれらが変わった場合はレビューし直す。
+ */
+const EDITABLE_FIELDS: readonly (keyof DraftProps)[] = [
+  "theme",
+  "brandVoice",
+  "product",
+  "imagePrompt",
+  "targetPersona",
+  "platform",
+  "caption",
+  "hashtags",
+  "altText",
+];
+
+/**
+ * ドラフト状態の型ガード
+ * 
+ * 永続化データなど外部由来の値がDraftStatusかを判定する。
+ * 
+ * @param value 判定対象の値
+ * @returns DraftStatusであればtrue
+ */
+export function isDraftStatus(value: unknown): value is DraftStatus {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ALLOWED_TRANSITIONS, value);
+}
+
+/**
+ * 不正な状態遷移エラー
+ * 
+ * 許可されていない状態遷移が要求された場合に送出されるドメインエラー。
+ */
+export class InvalidDraftTransitionError extends DomainError {
+  constructor(
+    readonly from: DraftStatus,
+    readonly to: DraftStatus
+  ) {
+    super("DRAFT_TRANSITION_INVALID", `Cannot transition draft from ${from} to ${to}`);
+    this.name = "InvalidDraftTransitionError";
+  }
+}
+
+/**
+ * コンプライアンス違反による承認拒否エラー
+ *
+ * 修正が必要な（severity が error の）違反が残っているドラフトを承認しようとした場合に送出される。
+ */
+export class BlockingComplianceViolationError extends DomainError {
+  constructor(readonly violations: readonly ComplianceViolation[]) {
+    super("COMPLIANCE_VIOLATION_BLOCKING", `Draft has ${violations.length} blocking compliance violation(s)`);
+    this.name = "BlockingComplianceViolationError";
+  }
+}
+
+/**
+ * 編集できない状態のエラー
+ *
+ * 公開処理中・公開済みのドラフトの本文やブリーフを編集しようとした場合に送出される。
+ */
+export class DraftNotEditableError extends DomainError {
+  constructor(readonly status: DraftStatus) {
+    super("DRAFT_NOT_EDITABLE", `Cannot edit a draft that is ${status}`);
+    this.name = "DraftNotEditableError";
+  }
+}
+
+/**
+ * 画像生成ジョブの状態
+ * 
+ * - queued: ジョブをキューに投入済み
+ * - running: コンシューマーが生成中
+ * - done: 画像が生成されストレージに保存済み
+ * - failed: リトライ上限まで生成に失敗
+ */
+export type DraftImageStatus = "queued" | "running" | "done" | "failed";
+
+/**
+ * 画像生成ジョブ状態の型ガード
+ * 
+ * @param value 判定対象の値
+ * @returns DraftImageStatusであればtrue
+ */
+export function isDraftImageStatus(value: unknown): value is DraftImageStatus {
+  return value === "queued" || value === "running" || value === "done" || value === "failed";
+}
+
 /**
  * 投稿コンテンツのバリューオブジェクト
  * AIによって生成される投稿の内容を表現
@@ -35,35 +158,228 @@ export type DraftContent = {
  */
 export type DraftProps = {
   id?: string;
+  /** 所属するブランドのID（ブランドを指定せずに作成した場合は未定義）。作成後は変更しない */
+  brandId?: string;
   theme: string;
   brandVoice: string;
   product?: string;
   imagePrompt?: string;
   targetPersona?: string;
-  status: "draft";
+  /** 投稿先プラットフォーム（本文・ハッシュタグ等のルールを決める） */
+  platform: SocialPlatform;
+  status: DraftStatus;
   createdAt: string;
-} & DraftContent;
+  /** 最終更新日時（未編集の場合は未定義） */
+  updatedAt?: string;
+  /** 楽観的排他制御用のバージョン番号（作成時は1） */
+  version: number;
+  /** 画像生成ジョブの状態（ジョブ未投入の場合は未定義） */
+  imageStatus?: DraftImageStatus;
+  /** 画像生成ジョブのID */
+  imageJobId?: string;
+  /** 生成画像のストレージキー（例: drafts/{draftId}/original.png） */
+  imageKey?: string;
+  /** 画像生成に失敗した場合のエラーメッセージ */
+  imageError?: string;
+} & DraftContent &
+  DraftPromptTemplate &
+  DraftCaptionVariants &
+  DraftCompliance &
+  DraftPublication &
+  DraftSchedule;
+
+/**
+ * 生成に使われたプロンプトテンプレートの記録
+ * 既定プロンプトで生成した場合は未定義
+ */
+export type DraftPromptTemplate = {
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+};
+
+/**
+ * 生成されたキャプション案と採用中の案
+ * 案を生成しなかった場合は未定義
+ */
+export type DraftCaptionVariants = {
+  variants?: CaptionVariant[];
+  /** 採用中の案の番号（variants の添字） */
+  selectedVariant?: number;
+};
+
+/**
+ * 本文のコンプライアンスチェックの結果
+ * チェックしていない場合は未定義
+ */
+export type DraftCompliance = {
+  /** 現在の本文（caption・hashtags・altText）で検出した違反 */
+  complianceViolations?: ComplianceViolation[];
+};
+
+/**
+ * SNSへの公開結果
+ * 公開を試みていない場合は未定義
+ */
+export type DraftPublication = {
+  /** 公開先が発行した投稿ID（例: Instagramのメディア ID） */
+  publishedMediaId?: string;
+  /** 公開日時（ISO 8601形式） */
+  publishedAt?: string;
+  /** 直近の公開が失敗した場合のエラーメッセージ */
+  publishError?: string;
+};
+
+/**
+ * 予約投稿の設定
+ * 予約していない場合は未定義
+ */
+export type DraftSchedule = {
+  /** 予約日時（UTCのISO 8601形式） */
+  scheduledAt?: string;
+  /** 予約したタイムゾーン（IANA名、例: Asia/Tokyo） */
+  scheduleTimezone?: string;
+  /** 予約投稿を公開キューへ投入した日時（二重投入の防止に使う） */
+  dispatchedAt?: string;
+};
 
 /**
  * ドラフト作成時の入力データ
  * 外部からの入力を受け取るための型定義
  */
 type CreateDraftInput = {
+  brandId?: string;
   theme: string;
   brandVoice: string;
   product?: string;
   imagePrompt?: string;
   targetPersona?: string;
-} & DraftContent;
+  /** 未指定時は DEFAULT_PLATFORM */
+  platform?: SocialPlatform;
+} & DraftContent &
+  DraftPromptTemplate &
+  DraftCaptionVariants &
+  DraftCompliance;
+
+/**
+ * ドラフト編集時の変更内容
+ * 指定されたフィールドのみを上書きする
+ */
+export type DraftChanges = Partial<{
+  theme: string;
+  brandVoice: string;
+  product: string;
+  imagePrompt: string;
+  targetPersona: string;
+  platform: SocialPlatform;
+}> & DraftContent;
+
+/**
+ * 入力されたハッシュタグの正規化と長さの検証
+ *
+ * 作成・編集時のみ適用し、復元時は保存済みの表記をそのまま使う。
+ *
+ * @throws InvalidHashtagError MAX_HASHTAG_LENGTH を超えるタグがある場合
+ */
+function prepareHashtags(tags: readonly string[]): string[] {
+  const hashtags = normalizeHashtags(tags);
+  assertHashtagLengths(hashtags);
+  return hashtags;
+}
+
+/**
+ * 必須の要求事項のエラー
+ *
+ * テーマとブランドボイスの欠落をまとめて報告する。
+ *
+ * @param input 検証対象のテーマ・ブランドボイス
+ * @returns 欠落したフィールドごとのエラー（欠落がなければ空配列）
+ */
+export function draftRequirementErrors(input: { theme?: string; brandVoice?: string }): DomainFieldError[] {
+  const errors: DomainFieldError[] = [];
+  if (!input.theme?.trim()) {
+    errors.push({ field: "theme", code: "THEME_REQUIRED", message: "theme must be a non-empty string" });
+  }
+  if (!input.brandVoice?.trim()) {
+    errors.push({ field: "brandVoice", code: "BRAND_VOICE_REQUIRED", message: "brandVoice must be a non-empty string" });
+  }
+  return errors;
+}
+
+/**
+ * 必須の要求事項の検証
+ *
+ * ワークフローはコンテンツ生成の前にこの関数で入力を検証する。
+ *
+ * @param input 検証対象のテーマ・ブランドボイス
+ * @throws DomainValidationError どちらかが欠落または空文字列の場合
+ */
+export function assertDraftRequirements<T extends { theme?: string; brandVoice?: string }>(
+  input: T
+): asserts input is T & { theme: string; brandVoice: string } {
+  const errors = draftRequirementErrors(input);
+  if (errors.length > 0) {
+    throw new DomainValidationError(errors);
+  }
+}
+
+/**
+ * ビジネス不変条件の検証
+ *
+ * create・restore の双方から呼び出し、生成時と復元時で同じルールを適用する。
+ * - テーマは必須かつ空文字列不可
+ * - ブランドボイスは必須かつ空文字列不可
+ * - 本文の長さ・ハッシュタグ数・リンク・代替テキストの長さは投稿先プラットフォームのルールに従う
+ * - キャプション案は1〜MAX_CAPTION_VARIANTS件で、採用中の案の番号はその範囲内
+ *
+ * @throws DomainValidationError ビジネスルールに違反する場合
+ * @throws PlatformRuleViolationError プラットフォームのルールに違反する場合
+ */
+function assertInvariants(input: {
+  theme?: string;
+  brandVoice?: string;
+  platform: SocialPlatform;
+  caption?: string;
+  hashtags?: string[];
+  altText?: string;
+} & DraftCaptionVariants): void {
+  assertDraftRequirements(input);
+  if (!isSocialPlatform(input.platform)) {
+    throw new DomainValidationError([
+      { field: "platform", code: "PLATFORM_UNSUPPORTED", message: `unknown platform: ${String(input.platform)}` },
+    ]);
+  }
+  assertPlatformRules(input.platform, input);
+
+  const { variants, selectedVariant } = input;
+  if (variants === undefined) {
+    if (selectedVariant !== undefined) {
+      throw new InvalidCaptionVariantError("selectedVariant requires variants");
+    }
+    return;
+  }
+  if (variants.length < 1 || variants.length > MAX_CAPTION_VARIANTS || !variants.every(isCaptionVariant)) {
+    throw new InvalidCaptionVariantError(`variants must be 1 to ${MAX_CAPTION_VARIANTS} caption variants`);
+  }
+  if (
+    selectedVariant === undefined ||
+    !Number.isInteger(selectedVariant) ||
+    selectedVariant < 0 ||
+    selectedVariant >= variants.length
+  ) {
+    throw new InvalidCaptionVariantError("selectedVariant must refer to one of the variants");
+  }
+}
 
 /**
  * PostDraft アグリゲートルート
  * 
- * Instagram投稿のドラフトを表現するドメインエンティティ。
+ * SNS投稿のドラフトを表現するドメインエンティティ。
  * ビジネスルール：
  * - テーマとブランドボイスは必須
- * - ハッシュタグは最大25個まで
+ * - 本文・ハッシュタグ・代替テキストは投稿先プラットフォームのルールに従う
  * - 作成時刻の記録
+ * - 編集・状態遷移のたびにバージョン番号を進める
+ * - 状態遷移は ALLOWED_TRANSITIONS に従う
  * - 不変性の保証
  */
 export class PostDraft {
@@ -77,50 +393,112 @@ export class PostDraft {
    * ドメイン不変条件：
    * - テーマは必須かつ空文字列不可
    * - ブランドボイスは必須かつ空文字列不可
-   * - ハッシュタグは最大25個まで（Instagram仕様による制約）
+   * - 投稿先プラットフォームのルール（PLATFORM_RULES）を満たす
    * 
    * @param input ドラフト作成に必要な入力データ
    * @param clock 時刻取得のための依存性注入されたサービス
    * @returns 不変条件を満たすPostDraftインスタンス
-   * @throws エラー ビジネスルールに違反する場合
+   * @throws DomainValidationError ビジネスルールに違反する場合
    */
   static create(input: CreateDraftInput, clock: DraftClock): PostDraft {
     // 入力値の正規化（トリム処理）
     const trimmedTheme = input.theme?.trim();
     const trimmedVoice = input.brandVoice?.trim();
 
-    // ビジネス不変条件の検証
-    if (!trimmedTheme) {
-      throw new Error("theme must be a non-empty string");
-    }
-    if (!trimmedVoice) {
-      throw new Error("brandVoice must be a non-empty string");
-    }
+    // ハッシュタグの正規化（NFKC・先頭の#・使えない文字の除去と大文字小文字を区別しない重複除去）
+    const hashtags = input.hashtags && prepareHashtags(input.hashtags);
+    const platform = input.platform ?? DEFAULT_PLATFORM;
+    const caption = input.caption?.trim();
+    const altText = input.altText?.trim();
 
-    // ハッシュタグの正規化と検証
-    const hashtags = input.hashtags?.map((tag) => tag.trim()).filter(Boolean);
+    // キャプション案の正規化（未指定時は先頭の案を採用中とする）
+    const variants = input.variants?.map((variant) => ({
+      angle: variant.angle,
+      caption: variant.caption.trim(),
+      hashtags: prepareHashtags(variant.hashtags),
+      altText: variant.altText.trim(),
+      complianceViolations: variant.complianceViolations,
+    }));
+    const selectedVariant = variants ? (input.selectedVariant ?? 0) : input.selectedVariant;
 
-    // Instagram仕様による制約：ハッシュタグは最大25個
-    if (hashtags && hashtags.length > 25) {
-      throw new Error("hashtags must be 25 items or fewer");
-    }
+    // ビジネス不変条件の検証
+    assertInvariants({
+      theme: trimmedTheme,
+      brandVoice: trimmedVoice,
+      platform,
+      caption,
+      hashtags,
+      altText,
+      variants,
+      selectedVariant,
+    });
 
     // 不変条件を満たすインスタンスを生成
     return new PostDraft({
       id: undefined, // IDは後でユースケース層で割り当て
+      brandId: input.brandId,
       theme: trimmedTheme,
       brandVoice: trimmedVoice,
       product: input.product?.trim() ?? "",
       imagePrompt: input.imagePrompt?.trim() ?? "",
       targetPersona: input.targetPersona?.trim() ?? "",
-      caption: input.caption?.trim(),
+      caption,
       hashtags,
-      altText: input.altText?.trim(),
+      altText,
+      platform,
+      promptTemplateId: input.promptTemplateId,
+      promptTemplateVersion: input.promptTemplateVersion,
+      variants,
+      selectedVariant,
+      complianceViolations: input.complianceViolations,
       status: "draft", // 初期状態は常にドラフト
       createdAt: clock.now().toISOString(), // 作成時刻の記録
+      version: 1,
     });
   }
 
+  /**
+   * ファクトリメソッド：永続化済みの状態からドラフトを復元
+   *
+   * リポジトリから読み出したプロパティでアグリゲートを再構築する。
+   * 保存後にデータが破損していないか、create と同じ不変条件を再検証する。
+   *
+   * @param props 永続化されていたドラフトのプロパティ
+   * @returns 復元されたPostDraftインスタンス
+   * @throws エラー IDが欠落している場合、またはビジネスルールに違反する場合
+   */
+  static restore(props: DraftProps): PostDraft {
+    if (!props.id) {
+      throw new Error("restored draft must have an id");
+    }
+    if (!isDraftStatus(props.status)) {
+      throw new Error(`restored draft has unknown status: ${String(props.status)}`);
+    }
+    if (!Number.isInteger(props.version) || props.version < 1) {
+      throw new Error("restored draft must have a positive integer version");
+    }
+    if ((props.scheduledAt === undefined) !== (props.scheduleTimezone === undefined)) {
+      throw new Error("restored draft must have both scheduledAt and scheduleTimezone or neither");
+    }
+    if (props.dispatchedAt !== undefined && props.scheduledAt === undefined) {
+      throw new Error("restored draft cannot be dispatched without a schedule");
+    }
+    if (props.complianceViolations !== undefined && !props.complianceViolations.every(isComplianceViolation)) {
+      throw new Error("restored draft has invalid compliance violations");
+    }
+    try {
+      assertInvariants(props);
+    } catch (error) {
+      // 保存済みデータの破損は入力の誤りではないため、検証エラーとしては扱わない
+      if (error instanceof DomainValidationError) {
+        throw new Error(`restored draft violates invariants: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return new PostDraft({ ...props });
+  }
+
   /**
    * ID割り当てメソッド
    * 
@@ -134,6 +512,408 @@ export class PostDraft {
     return new PostDraft({ ...this.props, id });
   }
 
+  /**
+   * コンプライアンスチェック結果の記録
+   * 
+   * 本文を変更した編集と同じ保存で記録するため、バージョン番号は進めない。
+   * 
+   * @param violations 現在の本文で検出した違反
+   * @returns 結果が記録された新しいPostDraftインスタンス
+   */
+  withComplianceViolations(violations: ComplianceViolation[]): PostDraft {
+    return new PostDraft({ ...this.props, complianceViolations: violations });
+  }
+
+  /**
+   * 編集メソッド
+   * 
+   * エディターによる手直しを反映した新しいインスタンスを返す。
+   * 変更後の状態に対して不変条件を再検証し、
+   * 更新日時の記録とバージョン番号のインクリメントを行う。
+   * 本文（caption・hashtags・altText）を変更した場合、以前のコンプライアンスチェックの結果は破棄する。
+   * 承認済みのドラフトの内容を変更した場合は、レビューし直すためにドラフト状態へ戻す。
+   * 
+   * @param changes 上書きするフィールド
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 編集内容が反映された新しいPostDraftインスタンス
+   * @throws DraftNotEditableError 公開処理中・公開済みの場合
+   * @throws DomainValidationError ビジネスルールに違反する場合
+   */
+  update(changes: DraftChanges, clock: DraftClock): PostDraft {
+    this.assertEditable();
+    const trimOr = (value: string | undefined, current: string | undefined) =>
+      value === undefined ? current : value.trim();
+
+    const next: DraftProps = {
+      ...this.props,
+      theme: trimOr(changes.theme, this.props.theme)!,
+      brandVoice: trimOr(changes.brandVoice, this.props.brandVoice)!,
+      product: trimOr(changes.product, this.props.product),
+      imagePrompt: trimOr(changes.imagePrompt, this.props.imagePrompt),
+      targetPersona: trimOr(changes.targetPersona, this.props.targetPersona),
+      platform: changes.platform ?? this.props.platform,
+      caption: trimOr(changes.caption, this.props.caption),
+      hashtags: changes.hashtags ? prepareHashtags(changes.hashtags) : this.props.hashtags,
+      altText: trimOr(changes.altText, this.props.altText),
+      complianceViolations:
+        changes.caption === undefined && changes.hashtags === undefined && changes.altText === undefined
+          ? this.props.complianceViolations
+          : undefined,
+      updatedAt: clock.now().toISOString(),
+      version: this.props.version + 1,
+    };
+    next.status = this.statusAfterEdit(next);
+
+    assertInvariants(next);
+    return new PostDraft(next);
+  }
+
+  /**
+   * キャプション案の採用
+   * 
+   * 指定された案のキャプション・ハッシュタグ・代替テキストを本文に反映する。
+   * 採用前に手直しした本文は上書きされる。承認済みの場合は編集と同じくドラフト状態へ戻す。
+   * 
+   * @param index 採用する案の番号
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 案が採用された新しいPostDraftインスタンス
+   * @throws DraftNotEditableError 公開処理中・公開済みの場合
+   * @throws InvalidCaptionVariantError 指定された案が存在しない場合
+   * @throws PlatformRuleViolationError 案が現在のプラットフォームのルールに違反する場合
+   */
+  selectVariant(index: number, clock: DraftClock): PostDraft {
+    this.assertEditable();
+    const variant = this.props.variants?.[index];
+    if (!Number.isInteger(index) || !variant) {
+      throw new InvalidCaptionVariantError(`draft has no caption variant ${index}`);
+    }
+
+    const next: DraftProps = {
+      ...this.props,
+      caption: variant.caption,
+      hashtags: [...variant.hashtags],
+      altText: variant.altText,
+      complianceViolations: variant.complianceViolations,
+      selectedVariant: index,
+      updatedAt: clock.now().toISOString(),
+      version: this.props.version + 1,
+    };
+    next.status = this.statusAfterEdit(next);
+
+    assertInvariants(next);
+    return new PostDraft(next);
+  }
+
+  /**
+   * 編集できる状態かの検証
+   *
+   * 公開処理中・公開済みのドラフトは、公開先に送った内容と食い違うため編集させない。
+   */
+  private assertEditable(): void {
+    if (this.props.status === "publishing" || this.props.status === "published") {
+      throw new DraftNotEditableError(this.props.status);
+    }
+  }
+
+  /**
+   * 編集後の状態
+   *
+   * 承認済みのドラフトは、承認時から内容が変わった場合だけドラフト状態へ戻す。
+   *
+   * @param next 編集後のプロパティ
+   * @returns 編集後の状態
+   */
+  private statusAfterEdit(next: DraftProps): DraftStatus {
+    if (this.props.status !== "approved") {
+      return this.props.status;
+    }
+    const changed = EDITABLE_FIELDS.some((field) => JSON.stringify(next[field]) !== JSON.stringify(this.props[field]));
+    return changed ? "draft" : this.props.status;
+  }
+
+  /**
+   * 画像生成ジョブ投入の記録
+   * 
+   * @param jobId スケジューラーが発行したジョブID
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns ジョブが queued 状態で記録された新しいPostDraftインスタンス
+   */
+  queueImage(jobId: string, clock: DraftClock): PostDraft {
+    return this.withImageState({ imageStatus: "queued", imageJobId: jobId, imageError: undefined }, clock);
+  }
+
+  /**
+   * 画像生成開始の記録
+   * 
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns ジョブが running 状態の新しいPostDraftインスタンス
+   */
+  markImageRunning(clock: DraftClock): PostDraft {
+    return this.withImageState({ imageStatus: "running", imageError: undefined }, clock);
+  }
+
+  /**
+   * 生成画像の紐付け
+   * 
+   * 画像ストレージに保存した画像のキーを記録する。
+   * 以前の失敗情報は破棄する。
+   * 
+   * @param key 画像ストレージのキー
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 画像が紐付けられた新しいPostDraftインスタンス
+   */
+  attachImage(key: string, clock: DraftClock): PostDraft {
+    if (!key.trim()) {
+      throw new Error("image key must be a non-empty string");
+    }
+
+    return this.withImageState({ imageStatus: "done", imageKey: key, imageError: undefined }, clock);
+  }
+
+  /**
+   * 画像生成失敗の記録
+   * 
+   * @param error 失敗理由
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 失敗が記録された新しいPostDraftインスタンス
+   */
+  markImageFailed(error: string, clock: DraftClock): PostDraft {
+    return this.withImageState({ imageStatus: "failed", imageError: error }, clock);
+  }
+
+  /**
+   * 画像ジョブ状態更新の共通処理
+   * 
+   * 更新日時だけを進め、バージョンは進めない。
+   * 画像ジョブはエディターの編集と並行して進むため、編集元バージョンとの照合で409にしない。
+   */
+  private withImageState(
+    state: Pick<DraftProps, "imageStatus"> & Partial<Pick<DraftProps, "imageJobId" | "imageKey" | "imageError">>,
+    clock: DraftClock
+  ): PostDraft {
+    return new PostDraft({
+      ...this.props,
+      ...state,
+      updatedAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * 予約投稿の設定・変更
+   * 
+   * 予約済みの場合は日時を置き換え、キューへの投入記録を破棄する。
+   * 
+   * @param scheduledAt 予約日時（UTCに正規化済みのISO 8601文字列）
+   * @param timezone 予約したタイムゾーン
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 予約が反映された新しいPostDraftインスタンス
+   * @throws InvalidDraftScheduleError 過去の日時・不明なタイムゾーン・公開処理中または公開済みの場合
+   */
+  schedule(scheduledAt: string, timezone: string, clock: DraftClock): PostDraft {
+    this.assertSchedulable();
+    if (!isValidTimeZone(timezone)) {
+      throw new InvalidDraftScheduleError(`unknown timezone: ${timezone}`);
+    }
+    const time = Date.parse(scheduledAt);
+    if (Number.isNaN(time)) {
+      throw new InvalidDraftScheduleError(`invalid scheduledAt: ${scheduledAt}`);
+    }
+    if (time <= clock.now().getTime()) {
+      throw new InvalidDraftScheduleError("scheduledAt must be in the future");
+    }
+
+    return this.withSchedule(
+      { scheduledAt: new Date(time).toISOString(), scheduleTimezone: timezone, dispatchedAt: undefined },
+      clock
+    );
+  }
+
+  /**
+   * 予約投稿の取り消し
+   * 
+   * 予約していない場合は新しいインスタンスを作らない。
+   * 
+   * @throws InvalidDraftScheduleError 公開処理中・公開済みの場合
+   */
+  unschedule(clock: DraftClock): PostDraft {
+    if (this.props.scheduledAt === undefined) {
+      return this;
+    }
+    this.assertSchedulable();
+
+    return this.withSchedule({ scheduledAt: undefined, scheduleTimezone: undefined, dispatchedAt: undefined }, clock);
+  }
+
+  /**
+   * 予約投稿の公開キューへの投入の記録
+   * 
+   * @throws InvalidDraftScheduleError 予約していない場合、または投入済みの場合
+   */
+  markDispatched(clock: DraftClock): PostDraft {
+    if (this.props.scheduledAt === undefined) {
+      throw new InvalidDraftScheduleError("draft is not scheduled");
+    }
+    if (this.props.dispatchedAt !== undefined) {
+      throw new InvalidDraftScheduleError("scheduled draft has already been dispatched");
+    }
+
+    return this.withSchedule({ dispatchedAt: clock.now().toISOString() }, clock);
+  }
+
+  /**
+   * 公開キューへの投入記録の破棄
+   * 
+   * キューへの送信に失敗した場合に、次回の配信で再び対象になるよう戻す。
+   */
+  releaseDispatch(clock: DraftClock): PostDraft {
+    return this.withSchedule({ dispatchedAt: undefined }, clock);
+  }
+
+  /**
+   * 予約投稿の配信対象かの判定
+   * 
+   * 承認済みで、予約日時を過ぎ、まだ公開キューへ投入していない場合に対象となる。
+   * 
+   * @param now 判定時刻
+   * @returns 配信対象であればtrue
+   */
+  isDueForDispatch(now: Date): boolean {
+    const { status, scheduledAt, dispatchedAt } = this.props;
+    return (
+      status === "approved" &&
+      scheduledAt !== undefined &&
+      dispatchedAt === undefined &&
+      Date.parse(scheduledAt) <= now.getTime()
+    );
+  }
+
+  /**
+   * 予約を変更できる状態かの検証
+   */
+  private assertSchedulable(): void {
+    if (this.props.status === "publishing" || this.props.status === "published") {
+      throw new InvalidDraftScheduleError(`cannot schedule a draft that is ${this.props.status}`);
+    }
+  }
+
+  /**
+   * 予約状態更新の共通処理
+   * 
+   * 更新日時とバージョンを進める。
+   */
+  private withSchedule(schedule: DraftSchedule, clock: DraftClock): PostDraft {
+    return new PostDraft({
+      ...this.props,
+      ...schedule,
+      updatedAt: clock.now().toISOString(),
+      version: this.props.version + 1,
+    });
+  }
+
+  /**
+   * 承認：レビュー済みとして公開可能な状態にする（draft → approved）
+   * 
+   * @throws InvalidDraftTransitionError 現在の状態から遷移できない場合
+   * @throws BlockingComplianceViolationError 修正が必要なコンプライアンス違反が残っている場合
+   */
+  approve(clock: DraftClock): PostDraft {
+    const violations = this.props.complianceViolations ?? [];
+    if (hasBlockingViolations(violations)) {
+      throw new BlockingComplianceViolationError(violations.filter((violation) => violation.severity === "error"));
+    }
+    return this.transitionTo("approved", clock);
+  }
+
+  /**
+   * 公開処理の開始（approved / failed → publishing）
+   * 
+   * 前回の失敗理由は破棄する。
+   * 
+   * @throws InvalidDraftTransitionError 現在の状態から遷移できない場合
+   */
+  markPublishing(clock: DraftClock): PostDraft {
+    return this.transitionTo("publishing", clock, { publishError: undefined });
+  }
+
+  /**
+   * 公開完了（publishing → published）
+   * 
+   * @param mediaId 公開先が発行した投稿ID
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @throws InvalidDraftTransitionError 現在の状態から遷移できない場合
+   */
+  markPublished(mediaId: string, clock: DraftClock): PostDraft {
+    if (!mediaId.trim()) {
+      throw new Error("published media id must be a non-empty string");
+    }
+
+    return this.transitionTo("published", clock, {
+      publishedMediaId: mediaId,
+      publishedAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * 公開失敗（publishing → failed）
+   * 
+   * @param error 失敗理由
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @throws InvalidDraftTransitionError 現在の状態から遷移できない場合
+   */
+  markFailed(error: string, clock: DraftClock): PostDraft {
+    return this.transitionTo("failed", clock, { publishError: error });
+  }
+
+  /**
+   * 差し戻し：再編集のためにドラフト状態へ戻す（approved / failed → draft）
+   * 
+   * @throws InvalidDraftTransitionError 現在の状態から遷移できない場合
+   */
+  reopen(clock: DraftClock): PostDraft {
+    return this.transitionTo("draft", clock);
+  }
+
+  /**
+   * レビューでの差し戻し（draft / approved / failed → draft）
+   *
+   * レビュー前のドラフト（draft）はそのままの状態で手直しを待つため、新しいインスタンスを作らない。
+   *
+   * @throws InvalidDraftTransitionError 公開処理中・公開済みの場合
+   */
+  requestRework(clock: DraftClock): PostDraft {
+    return this.props.status === "draft" ? this : this.transitionTo("draft", clock);
+  }
+
+  /**
+   * 遷移可否の判定
+   * 
+   * @param to 遷移先の状態
+   * @returns 現在の状態から遷移可能であればtrue
+   */
+  canTransitionTo(to: DraftStatus): boolean {
+    return ALLOWED_TRANSITIONS[this.props.status].includes(to);
+  }
+
+  /**
+   * 状態遷移の共通処理
+   * 
+   * 遷移表で許可された遷移のみを受け付け、更新日時とバージョンを進める。
+   * 遷移に伴う公開結果の記録も同じインスタンスに反映する。
+   */
+  private transitionTo(to: DraftStatus, clock: DraftClock, publication: DraftPublication = {}): PostDraft {
+    if (!this.canTransitionTo(to)) {
+      throw new InvalidDraftTransitionError(this.props.status, to);
+    }
+
+    return new PostDraft({
+      ...this.props,
+      ...publication,
+      status: to,
+      updatedAt: clock.now().toISOString(),
+      version: this.props.version + 1,
+    });
+  }
+
   /**
    * JSON形式での状態出力
    * 
@@ -155,6 +935,13 @@ export class PostDraft {
     return this.props.id;
   }
 
+  /**
+   * 所属するブランドのID（ブランドを指定せずに作成した場合は未定義）
+   */
+  get brandId(): string | undefined {
+    return this.props.brandId;
+  }
+
   /**
    * 投稿のテーマ（必須項目）
    */
@@ -190,6 +977,13 @@ export class PostDraft {
     return this.props.targetPersona;
   }
 
+  /**
+   * 投稿先プラットフォーム
+   */
+  get platform(): SocialPlatform {
+    return this.props.platform;
+  }
+
   /**
    * AIが生成したキャプション
    */
@@ -198,12 +992,47 @@ export class PostDraft {
   }
 
   /**
-   * AIが生成したハッシュタグリスト（最大25個）
+   * AIが生成したハッシュタグリスト（上限はプラットフォームごと）
    */
   get hashtags(): string[] | undefined {
     return this.props.hashtags;
   }
 
+  /**
+   * 生成に使われたプロンプトテンプレートのID
+   */
+  get promptTemplateId(): string | undefined {
+    return this.props.promptTemplateId;
+  }
+
+  /**
+   * 生成に使われたプロンプトテンプレートのバージョン
+   */
+  get promptTemplateVersion(): number | undefined {
+    return this.props.promptTemplateVersion;
+  }
+
+  /**
+   * 生成されたキャプション案（案を生成しなかった場合は未定義）
+   */
+  get variants(): readonly CaptionVariant[] | undefined {
+    return this.props.variants;
+  }
+
+  /**
+   * 現在の本文で検出したコンプライアンス違反（チェックしていない場合は未定義）
+   */
+  get complianceViolations(): readonly ComplianceViolation[] | undefined {
+    return this.props.complianceViolations;
+  }
+
+  /**
+   * 採用中のキャプション案の番号
+   */
+  get selectedVariant(): number | undefined {
+    return this.props.selectedVariant;
+  }
+
   /**
    * AIが生成した画像の代替テキスト
    */
@@ -212,9 +1041,9 @@ export class PostDraft {
   }
 
   /**
-   * ドラフトの状態（現在は"draft"のみ）
+   * ドラフトのライフサイクル状態
    */
-  get status(): "draft" {
+  get status(): DraftStatus {
     return this.props.status;
   }
 
@@ -224,4 +1053,88 @@ export class PostDraft {
   get createdAt(): string {
     return this.props.createdAt;
   }
+
+  /**
+   * ドラフト最終更新日時（ISO 8601形式、未編集の場合は未定義）
+   */
+  get updatedAt(): string | undefined {
+    return this.props.updatedAt;
+  }
+
+  /**
+   * 楽観的排他制御用のバージョン番号
+   */
+  get version(): number {
+    return this.props.version;
+  }
+
+  /**
+   * 画像生成ジョブの状態（ジョブ未投入の場合は未定義）
+   */
+  get imageStatus(): DraftImageStatus | undefined {
+    return this.props.imageStatus;
+  }
+
+  /**
+   * 画像生成ジョブのID
+   */
+  get imageJobId(): string | undefined {
+    return this.props.imageJobId;
+  }
+
+  /**
+   * 生成画像のストレージキー
+   */
+  get imageKey(): string | undefined {
+    return this.props.imageKey;
+  }
+
+  /**
+   * 画像生成に失敗した場合のエラーメッセージ
+   */
+  get imageError(): string | undefined {
+    return this.props.imageError;
+  }
+
+  /**
+   * 公開先が発行した投稿ID（未公開の場合は未定義）
+   */
+  get publishedMediaId(): string | undefined {
+    return this.props.publishedMediaId;
+  }
+
+  /**
+   * 公開日時（ISO 8601形式、未公開の場合は未定義）
+   */
+  get publishedAt(): string | undefined {
+    return this.props.publishedAt;
+  }
+
+  /**
+   * 直近の公開が失敗した場合のエラーメッセージ
+   */
+  get publishError(): string | undefined {
+    return this.props.publishError;
+  }
+
+  /**
+   * 予約日時（UTCのISO 8601形式、予約していない場合は未定義）
+   */
+  get scheduledAt(): string | undefined {
+    return this.props.scheduledAt;
+  }
+
+  /**
+   * 予約したタイムゾーン
+   */
+  get scheduleTimezone(): string | undefined {
+    return this.props.scheduleTimezone;
+  }
+
+  /**
+   * 予約投稿を公開キューへ投入した日時
+   */
+  get dispatchedAt(): string | undefined {
+    return this.props.dispatchedAt;
+  }
 }
@@ -0,0 +1,338 @@
+/**
+ * @fileoverview ドメイン層 - プロンプトテンプレート
+ *
+ * マーケターがデプロイなしで生成プロンプトを調整できるようにするためのドメインモデル。
+ * テンプレートは名前付きで、本文を変更するたびに新しいバージョンが追加される。
+ * 生成時に使うバージョン（有効バージョン）は明示的に切り替え、直前の状態へ戻せる。
+ *
+ * 設計原則：
+ * - 不変性の保証：各バージョンの本文は作成後に変更しない
+ * - ビジネス不変条件の保護：プレースホルダーは既知の項目のみ許可
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import type { DraftClock } from "./postDraft";
+
+/**
+ * テンプレート本文で利用できるプレースホルダー
+ */
+export const PROMPT_TEMPLATE_PLACEHOLDERS = ["theme", "brandVoice", "product", "targetPersona"] as const;
+
+/**
+ * プレースホルダー名
+ */
+export type PromptTemplatePlaceholder = (typeof PROMPT_TEMPLATE_PLACEHOLDERS)[number];
+
+/**
+ * プレースホルダーに差し込む値
+ *
+ * 未指定のオプション項目は空文字列として差し込む。
+ */
+export type PromptTemplateValues = {
+  theme: string;
+  brandVoice: string;
+  product?: string;
+  targetPersona?: string;
+};
+
+/** テンプレートIDの形式（英小文字・数字・ハイフン・アンダースコア、64文字以内） */
+const TEMPLATE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** `{name}` 形式のプレースホルダー */
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * 不正なプロンプトテンプレートエラー
+ *
+ * IDの形式違反・空の本文・未知のプレースホルダーなど、
+ * テンプレートの作成や操作がビジネスルールに違反した場合に送出される。
+ */
+export class InvalidPromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidPromptTemplateError";
+  }
+}
+
+/**
+ * テンプレートIDの検証
+ *
+ * @param id 検証対象のID
+ * @throws InvalidPromptTemplateError 形式に違反する場合
+ */
+export function assertPromptTemplateId(id: string): void {
+  if (!TEMPLATE_ID_PATTERN.test(id)) {
+    throw new InvalidPromptTemplateError(
+      "template id must be 1-64 lowercase letters, digits, hyphens or underscores"
+    );
+  }
+}
+
+/**
+ * プロンプトテンプレートのバージョンのプロパティ
+ */
+export type PromptTemplateVersionProps = {
+  templateId: string;
+  version: number;
+  body: string;
+  description?: string;
+  createdAt: string;
+};
+
+/**
+ * プロンプトテンプレートのバージョン（バリューオブジェクト）
+ *
+ * 作成後に本文を変更しない。調整したい場合は新しいバージョンを追加する。
+ */
+export class PromptTemplateVersion {
+  private constructor(private readonly props: PromptTemplateVersionProps) {}
+
+  /**
+   * ファクトリメソッド：バージョンを生成
+   *
+   * @param props 新しいバージョンのプロパティ
+   * @returns 検証済みのバージョン
+   * @throws InvalidPromptTemplateError 本文が空、または未知のプレースホルダーを含む場合
+   */
+  static create(props: PromptTemplateVersionProps): PromptTemplateVersion {
+    const body = props.body.trim();
+    assertPromptTemplateId(props.templateId);
+    if (!body) {
+      throw new InvalidPromptTemplateError("template body must be a non-empty string");
+    }
+
+    const unknown = Array.from(body.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]).filter(
+      (name) => !(PROMPT_TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)
+    );
+    if (unknown.length > 0) {
+      throw new InvalidPromptTemplateError(
+        `unknown placeholders: ${unknown.map((name) => `{${name}}`).join(", ")}`
+      );
+    }
+
+    return new PromptTemplateVersion({ ...props, body, description: props.description?.trim() || undefined });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からバージョンを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたバージョン
+   * @throws InvalidPromptTemplateError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: PromptTemplateVersionProps): PromptTemplateVersion {
+    if (!Number.isInteger(props.version) || props.version < 1) {
+      throw new InvalidPromptTemplateError("template version must be a positive integer");
+    }
+    return PromptTemplateVersion.create(props);
+  }
+
+  /**
+   * プレースホルダーへの値の差し込み
+   *
+   * @param values 差し込む値
+   * @returns 差し込み済みのプロンプト
+   */
+  render(values: PromptTemplateValues): string {
+    return this.props.body.replace(PLACEHOLDER_PATTERN, (_placeholder, name: PromptTemplatePlaceholder) =>
+      (values[name] ?? "").trim()
+    );
+  }
+
+  toJSON(): PromptTemplateVersionProps {
+    return { ...this.props };
+  }
+
+  get templateId(): string {
+    return this.props.templateId;
+  }
+
+  get version(): number {
+    return this.props.version;
+  }
+
+  get body(): string {
+    return this.props.body;
+  }
+
+  get description(): string | undefined {
+    return this.props.description;
+  }
+
+  get createdAt(): string {
+    return this.props.createdAt;
+  }
+}
+
+/**
+ * プロンプトテンプレートのプロパティ
+ */
+export type PromptTemplateProps = {
+  id: string;
+  /** 最新のバージョン番号 */
+  latestVersion: number;
+  /** 生成時に使う有効バージョン */
+  activeVersion: number;
+  /** 過去の有効バージョン（末尾が直前）。ロールバックで末尾から戻す */
+  activationHistory: number[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * プロンプトテンプレート アグリゲートルート
+ *
+ * 名前付きテンプレートのバージョン番号と有効バージョンを管理する。
+ * ビジネスルール：
+ * - バージョン番号は1から連番で払い出す
+ * - 最初のバージョンは作成と同時に有効になる
+ * - 有効化できるのは払い出し済みのバージョンのみ
+ * - ロールバックは有効化の履歴を1つずつ遡る
+ */
+export class PromptTemplate {
+  private constructor(private readonly props: PromptTemplateProps) {}
+
+  /**
+   * ファクトリメソッド：最初のバージョンと共にテンプレートを生成
+   *
+   * @param id テンプレートID
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns バージョン1が有効なテンプレート
+   * @throws InvalidPromptTemplateError IDの形式に違反する場合
+   */
+  static create(id: string, clock: DraftClock): PromptTemplate {
+    assertPromptTemplateId(id);
+    const now = clock.now().toISOString();
+    return new PromptTemplate({
+      id,
+      latestVersion: 1,
+      activeVersion: 1,
+      activationHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からテンプレートを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたテンプレート
+   * @throws InvalidPromptTemplateError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: PromptTemplateProps): PromptTemplate {
+    assertPromptTemplateId(props.id);
+    const isVersion = (version: number) =>
+      Number.isInteger(version) && version >= 1 && version <= props.latestVersion;
+    if (!Number.isInteger(props.latestVersion) || props.latestVersion < 1) {
+      throw new InvalidPromptTemplateError(`stored template ${props.id} has invalid latestVersion`);
+    }
+    if (!isVersion(props.activeVersion) || !props.activationHistory.every(isVersion)) {
+      throw new InvalidPromptTemplateError(`stored template ${props.id} refers to an unknown version`);
+    }
+
+    return new PromptTemplate({ ...props, activationHistory: [...props.activationHistory] });
+  }
+
+  /**
+   * 新しいバージョン番号の払い出し
+   *
+   * 有効バージョンは変更しない。公開するには activate を呼ぶ。
+   *
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 最新バージョンが進んだ新しいインスタンス
+   */
+  addVersion(clock: DraftClock): PromptTemplate {
+    return new PromptTemplate({
+      ...this.props,
+      latestVersion: this.props.latestVersion + 1,
+      updatedAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * バージョンの有効化
+   *
+   * 現在の有効バージョンを履歴に積み、ロールバックで戻せるようにする。
+   *
+   * @param version 有効にするバージョン
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 有効バージョンが切り替わった新しいインスタンス
+   * @throws InvalidPromptTemplateError 存在しないバージョンの場合
+   */
+  activate(version: number, clock: DraftClock): PromptTemplate {
+    if (!this.hasVersion(version)) {
+      throw new InvalidPromptTemplateError(`template ${this.props.id} has no version ${version}`);
+    }
+    if (version === this.props.activeVersion) {
+      return this;
+    }
+
+    return new PromptTemplate({
+      ...this.props,
+      activeVersion: version,
+      activationHistory: [...this.props.activationHistory, this.props.activeVersion],
+      updatedAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * 直前の有効バージョンへのロールバック
+   *
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 有効バージョンが1つ前に戻った新しいインスタンス
+   * @throws InvalidPromptTemplateError 戻れる履歴がない場合
+   */
+  rollback(clock: DraftClock): PromptTemplate {
+    const history = [...this.props.activationHistory];
+    const previous = history.pop();
+    if (previous === undefined) {
+      throw new InvalidPromptTemplateError(`template ${this.props.id} has no previous version to roll back to`);
+    }
+
+    return new PromptTemplate({
+      ...this.props,
+      activeVersion: previous,
+      activationHistory: history,
+      updatedAt: clock.now().toISOString(),
+    });
+  }
+
+  /**
+   * 払い出し済みのバージョンかどうか
+   *
+   * @param version 判定対象のバージョン番号
+   * @returns 払い出し済みであればtrue
+   */
+  hasVersion(version: number): boolean {
+    return Number.isInteger(version) && version >= 1 && version <= this.props.latestVersion;
+  }
+
+  toJSON(): PromptTemplateProps {
+    return { ...this.props, activationHistory: [...this.props.activationHistory] };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get latestVersion(): number {
+    return this.props.latestVersion;
+  }
+
+  get activeVersion(): number {
+    return this.props.activeVersion;
+  }
+
+  get activationHistory(): readonly number[] {
+    return this.props.activationHistory;
+  }
+
+  get createdAt(): string {
+    return this.props.createdAt;
+  }
+
+  get updatedAt(): string {
+    return this.props.updatedAt;
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview ドメイン層 - レビューフィードバック
+ *
+ * ドラフトのレビューで下された判断（承認・差し戻し）とコメントを記録するドメインモデル。
+ * 1回の判断につき1件のフィードバックを追記し、承認に至るまでの経緯を後から辿れるようにする。
+ *
+ * 設計原則：
+ * - 追記のみ：作成後のフィードバックは変更しない
+ * - ビジネス不変条件の保護：差し戻しには理由のコメントを必須とする
+ * - 外部依存の排除：インフラストラクチャ層への依存を持たない
+ */
+
+import type { DraftClock } from "./postDraft";
+
+/**
+ * レビューの判断
+ *
+ * - accepted: 承認（ドラフトは approved に進む）
+ * - rework: 差し戻し（ドラフトは draft に戻る）
+ */
+export type ReviewResolution = "accepted" | "rework";
+
+/**
+ * レビューの判断の型ガード
+ *
+ * @param value 判定対象の値
+ * @returns ReviewResolutionであればtrue
+ */
+export function isReviewResolution(value: unknown): value is ReviewResolution {
+  return value === "accepted" || value === "rework";
+}
+
+/**
+ * 不正なレビューフィードバックエラー
+ *
+ * レビュアーの未指定や理由のない差し戻しなど、
+ * フィードバックがビジネスルールに違反した場合に送出される。
+ */
+export class InvalidReviewFeedbackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidReviewFeedbackError";
+  }
+}
+
+/**
+ * レビューフィードバックのプロパティ
+ */
+export type ReviewFeedbackProps = {
+  id: string;
+  draftId: string;
+  reviewerId: string;
+  /** コメント（承認時は省略可） */
+  comments?: string;
+  /** 指摘の分類（例: tone, cta） */
+  tags: string[];
+  resolution: ReviewResolution;
+  /** 判断の対象になったドラフトのバージョン */
+  draftVersion: number;
+  createdAt: string;
+};
+
+/**
+ * レビューフィードバック作成時の入力データ
+ */
+type CreateReviewFeedbackInput = Omit<ReviewFeedbackProps, "createdAt">;
+
+/**
+ * レビューフィードバック（エンティティ）
+ *
+ * ビジネスルール：
+ * - レビュアーIDは必須
+ * - 差し戻しにはコメントが必須
+ * - タグは前後の空白を除いて小文字に揃え、重複を除く
+ */
+export class ReviewFeedback {
+  private constructor(private readonly props: ReviewFeedbackProps) {}
+
+  /**
+   * ファクトリメソッド：フィードバックを生成
+   *
+   * @param input フィードバックの内容
+   * @param clock 時刻取得のための依存性注入されたサービス
+   * @returns 検証済みのフィードバック
+   * @throws InvalidReviewFeedbackError ビジネスルールに違反する場合
+   */
+  static create(input: CreateReviewFeedbackInput, clock: DraftClock): ReviewFeedback {
+    return ReviewFeedback.restore({ ...input, createdAt: clock.now().toISOString() });
+  }
+
+  /**
+   * ファクトリメソッド：永続化済みの状態からフィードバックを復元
+   *
+   * @param props 永続化されていたプロパティ
+   * @returns 復元されたフィードバック
+   * @throws InvalidReviewFeedbackError 保存データがビジネスルールに違反する場合
+   */
+  static restore(props: ReviewFeedbackProps): ReviewFeedback {
+    const reviewerId = props.reviewerId.trim();
+    const comments = props.comments?.trim() || undefined;
+    const tags = Array.from(new Set(props.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+    if (!reviewerId) {
+      throw new InvalidReviewFeedbackError("reviewerId must be a non-empty string");
+    }
+    if (!isReviewResolution(props.resolution)) {
+      throw new InvalidReviewFeedbackError(`unknown resolution: ${String(props.resolution)}`);
+    }
+    if (props.resolution === "rework" && !comments) {
+      throw new InvalidReviewFeedbackError("comments are required when requesting rework");
+    }
+
+    return new ReviewFeedback({ ...props, reviewerId, comments, tags });
+  }
+
+  toJSON(): ReviewFeedbackProps {
+    return { ...this.props, tags: [...this.props.tags] };
+  }
+
+  get id(): string {
+    return this.props.id;
+  }
+
+  get draftId(): string {
+    return this.props.draftId;
+  }
+
+  get reviewerId(): string {
+    return this.props.reviewerId;
+  }
+
+  get comments(): string | undefined {
+    return this.props.comments;
+  }
+
+  get tags(): readonly string[] {
+    return this.props.tags;
+  }
+
+  get resolution(): ReviewResolution {
+    return this.props.resolution;
+  }
+
+  get draftVersion(): number {
+    return this.props.draftVersion;
+  }
+
+  get createdAt(): string {
+    return this.props.createdAt;
+  }
+}
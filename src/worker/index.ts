@@ -12,20 +12,108 @@
  */
 
 import { createApp } from "./app";
-import { createDraftGenerationWorkflow } from "./workflow";
+import { createQueueHandler } from "./queue";
+import { createScheduledHandler } from "./scheduled";
+import { createSnsPostWorkflow } from "./snsPostWorkflow";
+import type { WorkerBindings, WorkerQueuePayload } from "./types";
+import {
+  createBrandAccessSettings,
+  createDispatchScheduledDraftsUseCase,
+  createDraftBatchWorkflow,
+  createDraftGenerationWorkflow,
+  createGenerateDraftImageUseCase,
+  createGetDraftImageUseCase,
+  createGetDraftUseCase,
+  createIdempotencyStore,
+  createListDraftsUseCase,
+  createManageBrandsUseCase,
+  createManageGenerationBatchesUseCase,
+  createManageGenerationPresetsUseCase,
+  createManagePromptTemplatesUseCase,
+  createPostWorkflowLauncher,
+  createPublishDraftUseCase,
+  createRateLimitSettings,
+  createRequestSignatureSettings,
+  createReviewDraftUseCase,
+  createScheduleDraftUseCase,
+  createSelectCaptionVariantUseCase,
+  createSnsPostPipeline,
+  createTrackImageJobUseCase,
+  createUpdateDraftUseCase,
+} from "./workflow";
 
 /**
- * Cloudflare Worker のデフォルトエクスポート
+ * HTTPアプリケーション
  * 
- * Cloudflare Workers ランタイムによって呼び出されるメインハンドラー。
+ * Cloudflare Workers ランタイムによって呼び出されるHTTPハンドラー。
  * 依存性注入パターンにより、環境バインディングからワークフローを構築し、
  * HTTPアプリケーションを初期化する。
  * 
  * アーキテクチャ構成：
- * 1. ワークフローファクトリーの注入
+ * 1. ワークフロー・ユースケースファクトリーの注入
  * 2. Honoアプリケーションの構築
  * 3. リクエスト処理の委譲
  */
-const app = createApp((env) => createDraftGenerationWorkflow(env));
+const app = createApp((env) => createDraftGenerationWorkflow(env), {
+  getDraft: (env) => createGetDraftUseCase(env),
+  listDrafts: (env) => createListDraftsUseCase(env),
+  updateDraft: (env) => createUpdateDraftUseCase(env),
+  selectVariant: (env) => createSelectCaptionVariantUseCase(env),
+  reviews: (env) => createReviewDraftUseCase(env),
+  publishing: (env) => createPublishDraftUseCase(env),
+  scheduling: (env) => createScheduleDraftUseCase(env),
+  imageJobs: (env) => createTrackImageJobUseCase(env),
+  draftImage: (env) => createGetDraftImageUseCase(env),
+  promptTemplates: (env) => createManagePromptTemplatesUseCase(env),
+  idempotency: (env) => createIdempotencyStore(env),
+  rateLimits: (env) => createRateLimitSettings(env),
+  signatures: (env) => createRequestSignatureSettings(env),
+  postWorkflows: (env) => createPostWorkflowLauncher(env),
+  brands: (env) => createManageBrandsUseCase(env),
+  brandAccess: (env) => createBrandAccessSettings(env),
+  presets: (env) => createManageGenerationPresetsUseCase(env),
+  batches: (env) => createManageGenerationBatchesUseCase(env),
+});
+
+/**
+ * キューのコンシューマー
+ * 
+ * `IMAGE_QUEUE` の generate_image ジョブ、`PUBLISH_QUEUE` の publish_draft ジョブ、
+ * `BATCH_QUEUE` の generate_batch_row ジョブを処理する。
+ */
+const queue = createQueueHandler(
+  (env) => createGenerateDraftImageUseCase(env),
+  {},
+  (env) => createPublishDraftUseCase(env),
+  (env) => createDraftBatchWorkflow(env)
+);
+
+/**
+ * 予約投稿の配信
+ * 
+ * Cronトリガー（wrangler.json の triggers.crons）で起動し、
+ * 予約日時を迎えた承認済みドラフトを `PUBLISH_QUEUE` に投入し、公開処理中のまま残ったドラフトを回復する。
+ */
+const scheduled = createScheduledHandler(
+  (env) => createDispatchScheduledDraftsUseCase(env),
+  (env) => createPublishDraftUseCase(env)
+);
 
-export default app;
+/**
+ * 投稿ワークフロー
+ * 
+ * wrangler.json の workflows（`POST_WORKFLOW`、class_name: SnsPostWorkflow）に登録する。
+ * 生成・保存・画像スケジューリング・レビュー待ちをステップごとに再試行する。
+ */
+export const SnsPostWorkflow = createSnsPostWorkflow((env) => createSnsPostPipeline(env));
+
+/**
+ * Cloudflare Worker のデフォルトエクスポート
+ * 
+ * fetch：HTTPリクエスト、queue：キューメッセージ、scheduled：Cronトリガーの各ハンドラーを公開する。
+ */
+export default {
+  fetch: app.fetch,
+  queue,
+  scheduled,
+} satisfies ExportedHandler<WorkerBindings, WorkerQueuePayload>;
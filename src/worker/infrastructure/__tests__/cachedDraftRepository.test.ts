@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import { CachedDraftRepository } from "../cachedDraftRepository";
+import { PostDraft } from "../../domain/postDraft";
+
+describe("CachedDraftRepository", () => {
+  const draft = PostDraft.create(
+    { theme: "春の新作スニーカー", brandVoice: "爽やか" },
+    { now: () => new Date("2025-01-01T00:00:00.000Z") }
+  ).assignId("draft-123");
+
+  const createRepository = () => ({
+    save: vi.fn().mockResolvedValue(undefined),
+    findById: vi.fn().mockResolvedValue(null),
+    list: vi.fn(),
+    saveImageState: vi.fn().mockResolvedValue(undefined),
+  });
+
+  /** メモリ上にエントリーを保持するキャッシュ */
+  const createCache = () => {
+    const entries = new Map<string, PostDraft>();
+    return {
+      entries,
+      findById: vi.fn(async (id: string) => entries.get(id) ?? null),
+      put: vi.fn(async (cached: PostDraft) => void entries.set(cached.id!, cached)),
+      delete: vi.fn(async (id: string) => void entries.delete(id)),
+    };
+  };
+
+  // 正常系: 正本への書き込みの前後でキャッシュを無効化し、書き込んだドラフトはキャッシュしないことを検証する
+  it("invalidates the cache before and after writing to the primary store", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+
+    await new CachedDraftRepository(primary, cache).save(draft);
+
+    expect(cache.delete).toHaveBeenCalledTimes(2);
+    expect(cache.delete).toHaveBeenCalledWith("draft-123");
+    expect(cache.delete.mock.invocationCallOrder[0]).toBeLessThan(primary.save.mock.invocationCallOrder[0]);
+    expect(cache.delete.mock.invocationCallOrder[1]).toBeGreaterThan(primary.save.mock.invocationCallOrder[0]);
+    expect(primary.save).toHaveBeenCalledWith(draft);
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  // 正常系: 画像ジョブの状態もキャッシュを無効化してから正本へ書き込むことを検証する
+  it("invalidates the cache before saving the image state", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    const queued = draft.queueImage("draft-123-image", { now: () => new Date("2025-01-01T00:01:00.000Z") });
+
+    await new CachedDraftRepository(primary, cache).saveImageState(queued);
+
+    expect(cache.delete).toHaveBeenCalledTimes(2);
+    expect(primary.saveImageState).toHaveBeenCalledWith(queued);
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  // 異常系: 正本への書き込みが失敗した場合はキャッシュを空のままにすることを検証する
+  it("leaves the cache empty when the primary write fails", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    primary.save.mockRejectedValue(new Error("D1 unavailable"));
+
+    await expect(new CachedDraftRepository(primary, cache).save(draft)).rejects.toThrowError("D1 unavailable");
+    expect(cache.delete).toHaveBeenCalledWith("draft-123");
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  // 異常系: キャッシュを無効化できない場合は正本へ書き込まないことを検証する
+  it("does not write to the primary store when the cache cannot be invalidated", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    cache.delete.mockRejectedValue(new Error("KV unavailable"));
+
+    await expect(new CachedDraftRepository(primary, cache).save(draft)).rejects.toThrowError("KV unavailable");
+    expect(primary.save).not.toHaveBeenCalled();
+  });
+
+  // 正常系: キャッシュミス時に正本から読み出してキャッシュを補充することを検証する
+  it("reads through to the primary store on a cache miss", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    primary.findById.mockResolvedValue(draft);
+
+    const found = await new CachedDraftRepository(primary, cache).findById("draft-123");
+
+    expect(found).toBe(draft);
+    expect(cache.put).toHaveBeenCalledWith(draft, 60);
+  });
+
+  // 異常系: 書き込み中の読み出しが正本の古い版で補充したキャッシュを、書き込み後に無効化することを検証する
+  it("drops a stale entry refilled while the primary write was in progress", async () => {
+    const clock = { now: () => new Date("2025-01-02T00:00:00.000Z") };
+    const edited = draft.update({ caption: "新キャプション" }, clock);
+    let stored = draft;
+    let finishWrite: () => void = () => {};
+    const primary = {
+      ...createRepository(),
+      findById: vi.fn(async () => stored),
+      save: vi.fn(async (next: PostDraft) => {
+        await new Promise<void>((resolve) => (finishWrite = resolve));
+        stored = next;
+      }),
+    };
+    const cache = createCache();
+    const repository = new CachedDraftRepository(primary, cache);
+
+    const saving = repository.save(edited);
+    await vi.waitFor(() => expect(primary.save).toHaveBeenCalled());
+    expect((await repository.findById("draft-123"))?.version).toBe(1);
+    finishWrite();
+    await saving;
+
+    expect(cache.entries.has("draft-123")).toBe(false);
+    expect((await repository.findById("draft-123"))?.version).toBe(2);
+  });
+
+  // 正常系: 書き込み後の無効化の失敗は保存の失敗にしないことを検証する
+  it("keeps the write when the cache cannot be invalidated afterwards", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    cache.delete.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error("KV unavailable"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(new CachedDraftRepository(primary, cache).save(draft)).resolves.toBeUndefined();
+    expect(primary.save).toHaveBeenCalledWith(draft);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  // 正常系: キャッシュへの補充の失敗は読み出しの失敗にしないことを検証する
+  it("returns the primary draft when refilling the cache fails", async () => {
+    const primary = createRepository();
+    const cache = createCache();
+    primary.findById.mockResolvedValue(draft);
+    cache.put.mockRejectedValue(new Error("KV unavailable"));
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(new CachedDraftRepository(primary, cache).findById("draft-123")).resolves.toBe(draft);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,82 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { CloudflareAccessVerifier } from "../cloudflareAccessVerifier";
+
+/**
+ * Base64URL文字列への変換
+ */
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+describe("CloudflareAccessVerifier", () => {
+  const now = new Date("2025-03-01T00:00:00.000Z");
+  const clock = { now: () => now };
+  const nowSeconds = now.getTime() / 1000;
+  let keys: CryptoKeyPair;
+  let publicJwk: JsonWebKey;
+  let sequence = 0;
+
+  /** 公開鍵を返すfetchと、テストごとに異なるチームのドメイン（公開鍵のキャッシュを分ける） */
+  const setup = () => {
+    const teamDomain = `team-${++sequence}.cloudflareaccess.com`;
+    const fetcher = vi.fn(async () => Response.json({ keys: [{ ...publicJwk, kid: "key-1" }] }));
+    const verifier = new CloudflareAccessVerifier(teamDomain, "app-aud", clock, fetcher as unknown as typeof fetch);
+    return { teamDomain, fetcher, verifier };
+  };
+
+  const issue = async (claims: Record<string, unknown>, kid = "key-1", signingKey = keys.privateKey) => {
+    const encode = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+    const unsigned = `${encode({ alg: "RS256", kid })}.${encode(claims)}`;
+    const signature = await crypto.subtle.sign("RSASSA-PKCS1-v1_5", signingKey, new TextEncoder().encode(unsigned));
+    return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+  };
+
+  beforeAll(async () => {
+    keys = (await crypto.subtle.generateKey(
+      { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+    publicJwk = (await crypto.subtle.exportKey("jwk", keys.publicKey)) as JsonWebKey;
+  });
+
+  // 正常系: チームの公開鍵で署名された有効なJWTから利用者のメールアドレスを返し、公開鍵を再利用することを検証する
+  it("returns the email of a valid token", async () => {
+    const { teamDomain, fetcher, verifier } = setup();
+    const token = await issue({
+      iss: `https://${teamDomain}`,
+      aud: ["app-aud"],
+      exp: nowSeconds + 60,
+      email: "editor@example.com",
+    });
+
+    await expect(verifier.verify(token)).resolves.toBe("editor@example.com");
+    await expect(verifier.verify(token)).resolves.toBe("editor@example.com");
+    expect(fetcher).toHaveBeenCalledWith(`https://${teamDomain}/cdn-cgi/access/certs`);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 発行元・対象・有効期限・署名のいずれかが正しくないJWTを拒否することを検証する
+  it("rejects tokens with invalid claims or signatures", async () => {
+    const { teamDomain, verifier } = setup();
+    const valid = { iss: `https://${teamDomain}`, aud: "app-aud", exp: nowSeconds + 60, email: "editor@example.com" };
+    const otherKeys = (await crypto.subtle.generateKey(
+      { name: "RSASSA-PKCS1-v1_5", modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: "SHA-256" },
+      true,
+      ["sign", "verify"]
+    )) as CryptoKeyPair;
+
+    await expect(
+      verifier.verify(await issue({ ...valid, iss: "https://other.cloudflareaccess.com" }))
+    ).resolves.toBeNull();
+    await expect(verifier.verify(await issue({ ...valid, aud: "other-aud" }))).resolves.toBeNull();
+    await expect(verifier.verify(await issue({ ...valid, exp: nowSeconds }))).resolves.toBeNull();
+    await expect(verifier.verify(await issue({ ...valid, email: undefined }))).resolves.toBeNull();
+    await expect(verifier.verify(await issue(valid, "key-1", otherKeys.privateKey))).resolves.toBeNull();
+    await expect(verifier.verify(await issue(valid, "unknown-key"))).resolves.toBeNull();
+    await expect(verifier.verify("not-a-jwt")).resolves.toBeNull();
+  });
+});
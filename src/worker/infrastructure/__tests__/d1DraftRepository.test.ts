@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { D1DraftRepository } from "../d1DraftRepository";
+import { PostDraft } from "../../domain/postDraft";
+import { DraftVersionConflictError } from "../../usecases/updateDraftUseCase";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+
+describe("D1DraftRepository", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  let db: D1Database;
+  let repository: D1DraftRepository;
+
+  const createDraft = () =>
+    PostDraft.create(
+      {
+        theme: "春の新作スニーカー",
+        brandVoice: "爽やかで親しみやすい",
+        product: "AirFlex",
+        caption: "最高の履き心地を体験しよう",
+        hashtags: ["sneakers", "spring"],
+        altText: "街でスニーカーを見せる若者",
+        promptTemplateId: "spring-campaign",
+        promptTemplateVersion: 2,
+        variants: [
+          {
+            angle: "hook-first",
+            caption: "最高の履き心地を体験しよう",
+            hashtags: ["sneakers", "spring"],
+            altText: "街でスニーカーを見せる若者",
+          },
+          { angle: "story", caption: "毎日の通勤が変わった", hashtags: ["sneakers"], altText: "通勤する人" },
+        ],
+      },
+      clock
+    ).assignId("draft-123");
+
+  beforeEach(async () => {
+    db = await createSqliteD1();
+    repository = new D1DraftRepository(db);
+  });
+
+  // 正常系: postsテーブルに保存したドラフトを読み戻せることを検証する
+  it("maps drafts to posts rows and back", async () => {
+    const draft = createDraft();
+
+    await repository.save(draft);
+    const row = await db.prepare("SELECT brand_voice, content FROM posts WHERE id = ?1").bind("draft-123").first<{
+      brand_voice: string;
+      content: string;
+    }>();
+    const restored = await repository.findById("draft-123");
+
+    expect(row?.brand_voice).toBe("爽やかで親しみやすい");
+    expect(JSON.parse(row!.content)).toEqual({
+      caption: "最高の履き心地を体験しよう",
+      hashtags: ["sneakers", "spring"],
+      altText: "街でスニーカーを見せる若者",
+      variants: draft.variants,
+      selectedVariant: 0,
+    });
+    expect(restored?.toJSON()).toEqual(draft.toJSON());
+  });
+
+  // 正常系: 編集・状態遷移後のドラフトで行が更新されることを検証する
+  it("updates the row when the next version is saved", async () => {
+    const draft = createDraft();
+    await repository.save(draft);
+
+    const edited = draft.update({ caption: "編集後" }, clock);
+    await repository.save(edited);
+    await repository.save(edited.approve(clock));
+    const restored = await repository.findById("draft-123");
+
+    expect(restored?.caption).toBe("編集後");
+    expect(restored?.status).toBe("approved");
+    expect(restored?.version).toBe(3);
+  });
+
+  // 異常系: 古い版を元にした保存が同時編集として拒否されることを検証する
+  it("rejects saves based on a stale version", async () => {
+    const draft = createDraft();
+    await repository.save(draft);
+    await repository.save(draft.update({ caption: "先行編集" }, clock));
+
+    await expect(repository.save(draft.update({ caption: "後続編集" }, clock))).rejects.toBeInstanceOf(
+      DraftVersionConflictError
+    );
+    expect((await repository.findById("draft-123"))?.caption).toBe("先行編集");
+  });
+
+  // 正常系: 存在しないIDに対してnullを返すことを検証する
+  it("returns null when the row does not exist", async () => {
+    await expect(repository.findById("missing")).resolves.toBeNull();
+  });
+
+  // 正常系: 条件で絞り込み作成日時の降順でページングできることを検証する
+  it("lists drafts newest first with filters and keyset pagination", async () => {
+    const at = (iso: string) => ({ now: () => new Date(iso) });
+    const seeds = [
+      { id: "a", theme: "春の新作スニーカー", createdAt: "2025-01-01T00:00:00.000Z" },
+      { id: "b", theme: "春のセール", createdAt: "2025-01-02T00:00:00.000Z" },
+      { id: "c", theme: "夏のキャンペーン", createdAt: "2025-01-03T00:00:00.000Z" },
+      { id: "d", theme: "春_限定", createdAt: "2025-01-04T00:00:00.000Z" },
+    ];
+    for (const seed of seeds) {
+      await repository.save(
+        PostDraft.create({ theme: seed.theme, brandVoice: "爽やか" }, at(seed.createdAt)).assignId(seed.id)
+      );
+    }
+
+    const first = await repository.list({ theme: "春", limit: 2 });
+    const second = await repository.list({ theme: "春", limit: 2, after: first.next });
+    const ranged = await repository.list({
+      createdFrom: "2025-01-02T00:00:00.000Z",
+      createdTo: "2025-01-03T00:00:00.000Z",
+      limit: 10,
+    });
+    const escaped = await repository.list({ theme: "_", limit: 10 });
+
+    expect(first.drafts.map((draft) => draft.id)).toEqual(["d", "b"]);
+    expect(first.next).toEqual({ createdAt: "2025-01-02T00:00:00.000Z", id: "b" });
+    expect(second.drafts.map((draft) => draft.id)).toEqual(["a"]);
+    expect(second.next).toBeUndefined();
+    expect(ranged.drafts.map((draft) => draft.id)).toEqual(["c", "b"]);
+    expect(escaped.drafts.map((draft) => draft.id)).toEqual(["d"]);
+  });
+
+  // 正常系: 画像ジョブの状態はバージョンを進めずに保存し、通常の保存で上書きされないことを検証する
+  it("saves the image state apart from the versioned draft", async () => {
+    const draft = createDraft();
+    await repository.save(draft);
+    const later = { now: () => new Date("2025-01-01T00:05:00.000Z") };
+
+    // エディターは画像ジョブの投入前のドラフトを読んで編集している
+    const imaged = draft.queueImage("draft-123-image", later).attachImage("drafts/draft-123/original.png", later);
+    await repository.saveImageState(imaged);
+    await repository.save(draft.update({ caption: "編集後のキャプション" }, later));
+
+    const restored = await repository.findById("draft-123");
+    expect(restored?.version).toBe(2);
+    expect(restored?.caption).toBe("編集後のキャプション");
+    expect(restored?.imageStatus).toBe("done");
+    expect(restored?.imageKey).toBe("drafts/draft-123/original.png");
+    expect(restored?.imageJobId).toBe("draft-123-image");
+  });
+
+  // 異常系: 構造が不正な行を読み飛ばし、続きの位置は読み飛ばした行から求めることを検証する
+  it("skips unreadable rows without shifting the next page", async () => {
+    const at = (iso: string) => ({ now: () => new Date(iso) });
+    for (const [id, createdAt] of [
+      ["a", "2025-01-01T00:00:00.000Z"],
+      ["b", "2025-01-02T00:00:00.000Z"],
+      ["c", "2025-01-03T00:00:00.000Z"],
+    ]) {
+      await repository.save(PostDraft.create({ theme: "春のセール", brandVoice: "爽やか" }, at(createdAt)).assignId(id));
+    }
+    await db.prepare("UPDATE posts SET content = '{' WHERE id = 'b'").run();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const first = await repository.list({ limit: 2 });
+    const second = await repository.list({ limit: 2, after: first.next });
+
+    expect(first.drafts.map((draft) => draft.id)).toEqual(["c"]);
+    expect(first.next).toEqual({ createdAt: "2025-01-02T00:00:00.000Z", id: "b" });
+    expect(second.drafts.map((draft) => draft.id)).toEqual(["a"]);
+    expect(console.warn).toHaveBeenCalledWith("Skipping unreadable draft b", expect.any(Error));
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it, vi } from "vitest";
+import { KvDraftRepository } from "../kvDraftRepository";
+import { PostDraft } from "../../domain/postDraft";
+
+/**
+ * Mapを使ったKVNamespaceの最小スタブ
+ */
+function createKvStub() {
+  const store = new Map<string, string>();
+  const kv = {
+    get: async (key: string) => store.get(key) ?? null,
+    put: async (key: string, value: string) => {
+      store.set(key, value);
+    },
+    list: async ({ prefix }: { prefix: string }) => ({
+      keys: [...store.keys()].filter((name) => name.startsWith(prefix)).map((name) => ({ name })),
+      list_complete: true,
+    }),
+  } as unknown as KVNamespace;
+  return { kv, store };
+}
+
+describe("KvDraftRepository", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+
+  // 正常系: 保存したドラフトをIDで読み戻しエンティティとして復元できることを検証する
+  it("restores a saved draft by id", async () => {
+    const { kv } = createKvStub();
+    const repository = new KvDraftRepository(kv);
+    const draft = PostDraft.create(
+      {
+        theme: "春の新作スニーカー",
+        brandVoice: "爽やかで親しみやすい",
+        caption: "最高の履き心地を体験しよう",
+        hashtags: ["sneakers", "spring"],
+        altText: "街でスニーカーを見せる若者",
+      },
+      clock
+    ).assignId("draft-123");
+
+    await repository.save(draft);
+    const restored = await repository.findById("draft-123");
+
+    expect(restored?.toJSON()).toEqual(draft.toJSON());
+  });
+
+  // 正常系: 存在しないキーに対してnullを返すことを検証する
+  it("returns null when the draft does not exist", async () => {
+    const { kv } = createKvStub();
+    const repository = new KvDraftRepository(kv);
+
+    await expect(repository.findById("missing")).resolves.toBeNull();
+  });
+
+  // 異常系: 保存データの構造が不正な場合にエラーとなることを検証する
+  it("throws when stored data is malformed", async () => {
+    const { kv, store } = createKvStub();
+    const repository = new KvDraftRepository(kv);
+    store.set("draft:broken", JSON.stringify({ id: "broken", theme: "春", status: "draft" }));
+    store.set("draft:not-json", "{");
+
+    await expect(repository.findById("broken")).rejects.toThrowError(/brandVoice/);
+    await expect(repository.findById("not-json")).rejects.toThrowError(/not valid JSON/);
+  });
+
+  // 正常系: キャッシュとしての保存は指定された期限（KVの下限以上）で失効させることを検証する
+  it("puts cache entries with the given expiration", async () => {
+    const { kv, store } = createKvStub();
+    const put = vi.spyOn(kv, "put");
+    const repository = new KvDraftRepository(kv);
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).assignId("draft-123");
+
+    await repository.put(draft, 120);
+    await repository.put(draft, 5);
+
+    expect(put.mock.calls.map(([, , options]) => options)).toEqual([{ expirationTtl: 120 }, { expirationTtl: 60 }]);
+    expect((await repository.findById("draft-123"))?.id).toBe("draft-123");
+    expect(store.has("draft:draft-123")).toBe(true);
+  });
+
+  // 正常系: 保存済みのドラフトに画像ジョブの状態だけを反映することを検証する
+  it("merges the image state into the stored draft", async () => {
+    const { kv } = createKvStub();
+    const repository = new KvDraftRepository(kv);
+    const draft = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).assignId("draft-123");
+    await repository.save(draft.update({ caption: "編集後" }, clock));
+
+    await repository.saveImageState(draft.queueImage("draft-123-image", clock));
+
+    const restored = await repository.findById("draft-123");
+    expect(restored?.caption).toBe("編集後");
+    expect(restored?.version).toBe(2);
+    expect(restored?.imageStatus).toBe("queued");
+    expect(restored?.imageJobId).toBe("draft-123-image");
+  });
+
+  // 正常系: 配信待ちの予約投稿はTTLなしで保存し、配信後は再びTTLを付けることを検証する
+  it("keeps scheduled drafts out of the TTL until they are dispatched", async () => {
+    const { kv } = createKvStub();
+    const put = vi.spyOn(kv, "put");
+    const repository = new KvDraftRepository(kv, 60);
+    const scheduled = PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock)
+      .assignId("draft-123")
+      .schedule("2025-03-01T09:00:00.000Z", "Asia/Tokyo", clock);
+
+    await repository.save(scheduled);
+    await repository.saveImageState(scheduled.queueImage("draft-123-image", clock));
+    await repository.save(scheduled.markDispatched(clock));
+
+    expect(put.mock.calls.map(([, , options]) => options)).toEqual([{}, {}, { expirationTtl: 60 }]);
+  });
+
+  // 異常系: 一覧では構造が不正な値を読み飛ばし、ページ全体を失敗させないことを検証する
+  it("skips malformed records when listing", async () => {
+    const { kv, store } = createKvStub();
+    const repository = new KvDraftRepository(kv);
+    await repository.save(PostDraft.create({ theme: "春", brandVoice: "爽やか" }, clock).assignId("draft-123"));
+    store.set("draft:not-json", "{");
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const page = await repository.list({ limit: 10 });
+
+    expect(page.drafts.map((draft) => draft.id)).toEqual(["draft-123"]);
+    expect(console.warn).toHaveBeenCalledWith("Skipping unreadable draft not-json", expect.any(Error));
+    vi.restoreAllMocks();
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MetaGraphPublisher } from "../metaGraphPublisher";
+import { PublishFailedError, type PublishablePost } from "../../usecases/publishDraftUseCase";
+import { startGraphApiServer } from "../../__tests__/support/graphApiServer";
+
+describe("MetaGraphPublisher", () => {
+  const post: PublishablePost = {
+    draftId: "draft-1",
+    platform: "instagram",
+    caption: "春の街へ、軽やかに。\n\n#sneakers #spring",
+    altText: "街でスニーカーを見せる若者",
+    imageKey: "drafts/draft-1/original.png",
+  };
+  let graph: Awaited<ReturnType<typeof startGraphApiServer>>;
+  let publisher: MetaGraphPublisher;
+
+  beforeEach(async () => {
+    graph = await startGraphApiServer({
+      media: { body: { id: "container-1" } },
+      media_publish: { body: { id: "media-1" } },
+    });
+    publisher = new MetaGraphPublisher({
+      accessToken: "token-1",
+      instagramAccountId: "ig-1",
+      imageBaseUrl: "https://images.example.com/",
+      apiBaseUrl: graph.baseUrl,
+    });
+  });
+
+  afterEach(async () => {
+    await graph.close();
+  });
+
+  /**
+   * 公開に失敗したときのエラーを取得する
+   */
+  const publishError = async () => {
+    const error = await publisher.publish(post).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(PublishFailedError);
+    return error as PublishFailedError;
+  };
+
+  // 正常系: コンテナ作成から公開までの2段階で投稿し、メディアIDを返すことを検証する
+  it("creates a media container and publishes it", async () => {
+    const result = await publisher.publish(post);
+
+    expect(result).toEqual({ mediaId: "media-1" });
+    expect(graph.requests).toEqual([
+      {
+        method: "POST",
+        path: "/v21.0/ig-1/media",
+        authorization: "Bearer token-1",
+        params: {
+          image_url: "https://images.example.com/drafts/draft-1/original.png",
+          caption: post.caption,
+          alt_text: post.altText,
+        },
+      },
+      {
+        method: "POST",
+        path: "/v21.0/ig-1/media_publish",
+        authorization: "Bearer token-1",
+        params: { creation_id: "container-1" },
+      },
+    ]);
+    expect(publisher.supports("instagram")).toBe(true);
+    expect(publisher.supports("x")).toBe(false);
+  });
+
+  // 異常系: HTTP 429 やレート制限のエラーコードを rate_limited に分類し、Retry-After を引き継ぐことを検証する
+  it("classifies rate limits", async () => {
+    graph.replies.media = {
+      status: 429,
+      headers: { "Retry-After": "120" },
+      body: { error: { message: "Too many calls", code: 4 } },
+    };
+    expect(await publishError()).toMatchObject({ code: "rate_limited", retryAfterSeconds: 120 });
+
+    graph.replies.media = { body: { id: "container-2" } };
+    graph.replies.media_publish = {
+      status: 400,
+      body: { error: { message: "Application request limit reached", code: 80002 } },
+    };
+    const error = await publishError();
+    expect(error.code).toBe("rate_limited");
+    expect(error.retryAfterSeconds).toBeUndefined();
+    expect(error.message).toMatch(/media_publish failed with 400: Application request limit reached/);
+  });
+
+  // 異常系: 拒否・障害・不正な応答・通信エラーをそれぞれ分類することを検証する
+  it("classifies rejections, outages and malformed responses", async () => {
+    graph.replies.media = { status: 400, body: { error: { message: "Invalid OAuth access token", code: 190 } } };
+    expect((await publishError()).code).toBe("rejected");
+
+    graph.replies.media = { status: 503, body: { error: { message: "Service unavailable", code: 2 } } };
+    expect((await publishError()).code).toBe("unavailable");
+
+    graph.replies.media = { body: {} };
+    expect(await publishError()).toMatchObject({ code: "unavailable", message: expect.stringMatching(/did not include an id/) });
+
+    publisher = new MetaGraphPublisher({
+      accessToken: "token-1",
+      instagramAccountId: "ig-1",
+      imageBaseUrl: "https://images.example.com",
+      fetch: async () => {
+        throw new TypeError("fetch failed");
+      },
+    });
+    expect(await publishError()).toMatchObject({ code: "unavailable", message: expect.stringMatching(/fetch failed/) });
+  });
+});
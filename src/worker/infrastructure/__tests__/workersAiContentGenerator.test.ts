@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import { WorkersAiContentGenerator } from "../workersAiContentGenerator";
+import { SimpleContentGenerator } from "../simpleContentGenerator";
+import type { ContentGenerationInput } from "../../workflows/draftGenerationWorkflow";
+
+describe("WorkersAiContentGenerator", () => {
+  const input: ContentGenerationInput = {
+    theme: "春の新作スニーカー",
+    brandVoice: "爽やかで親しみやすい",
+    platform: "instagram",
+    product: "AirFlex",
+    targetPersona: "20代のアクティブ層",
+  };
+
+  /**
+   * 指定した応答を返すスタブAIバインディング
+   */
+  const stubAi = (run: (...args: unknown[]) => Promise<unknown>) => {
+    const binding = { run: vi.fn(run) };
+    return { binding, ai: binding as unknown as Ai };
+  };
+
+  // 正常系: 入力からプロンプトを組み立て、JSON応答を検証済みコンテンツとして返すことを検証する
+  it("asks the model for JSON and returns the validated content", async () => {
+    const { binding, ai } = stubAi(async () => ({
+      response: JSON.stringify({
+        caption: "  春の街へ、軽やかに。  ",
+        hashtags: ["#sneakers", "spring style", "＃Sneakers✨", ""],
+        altText: "街でスニーカーを見せる若者",
+      }),
+    }));
+    const generator = new WorkersAiContentGenerator(ai);
+
+    const content = await generator.generate(input);
+
+    expect(content).toEqual({
+      caption: "春の街へ、軽やかに。",
+      hashtags: ["sneakers", "springstyle"],
+      altText: "街でスニーカーを見せる若者",
+    });
+    const [, options] = binding.run.mock.calls[0] as [string, { messages: { role: string; content: string }[]; response_format: { type: string } }];
+    expect(options.response_format.type).toBe("json_schema");
+    expect(options.messages[1].content).toContain("テーマ: 春の新作スニーカー");
+    expect(options.messages[1].content).toContain("商品: AirFlex");
+    expect(options.messages[1].content).toContain("ターゲットペルソナ: 20代のアクティブ層");
+  });
+
+  // 正常系: 解析済みオブジェクトやコードブロックで囲まれた応答も受け付けることを検証する
+  it("accepts parsed objects and fenced JSON", async () => {
+    const content = { caption: "caption", hashtags: ["tag"], altText: "alt" };
+
+    const parsed = new WorkersAiContentGenerator(stubAi(async () => ({ response: content })).ai);
+    const fenced = new WorkersAiContentGenerator(
+      stubAi(async () => ({ response: "```json\n" + JSON.stringify(content) + "\n```" })).ai
+    );
+
+    await expect(parsed.generate(input)).resolves.toEqual(content);
+    await expect(fenced.generate(input)).resolves.toEqual(content);
+  });
+
+  // 異常系: 不正な応答の場合はフォールバック生成器の結果を返すことを検証する
+  it.each([
+    ["non-JSON text", { response: "素敵な投稿をどうぞ！" }],
+    ["missing caption", { response: JSON.stringify({ hashtags: [], altText: "alt" }) }],
+    ["non-string hashtags", { response: JSON.stringify({ caption: "c", hashtags: [1, 2], altText: "alt" }) }],
+    ["empty response", {}],
+  ])("falls back when the model returns %s", async (_label, output) => {
+    const fallback = new SimpleContentGenerator();
+    const generator = new WorkersAiContentGenerator(stubAi(async () => output).ai, fallback);
+
+    await expect(generator.generate(input)).resolves.toEqual(await fallback.generate(input));
+  });
+
+  // 異常系: モデル呼び出しが失敗した場合もフォールバックすることを検証する
+  it("falls back when the model call fails", async () => {
+    const fallback = { generate: vi.fn().mockResolvedValue({ caption: "fallback", hashtags: [], altText: "alt" }) };
+    const generator = new WorkersAiContentGenerator(
+      stubAi(async () => {
+        throw new Error("capacity exceeded");
+      }).ai,
+      fallback
+    );
+
+    await expect(generator.generate(input)).resolves.toEqual({ caption: "fallback", hashtags: [], altText: "alt" });
+    expect(fallback.generate).toHaveBeenCalledWith(input);
+  });
+});
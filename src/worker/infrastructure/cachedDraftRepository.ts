@@ -0,0 +1,140 @@
+/**
+ * @fileoverview インフラストラクチャ層 - キャッシュ付きドラフトリポジトリ
+ * 
+ * 正本となるリポジトリ（D1）の読み出しを高速キャッシュ（KV）で補うデコレーター。
+ * 
+ * 設計原則：
+ * - デコレーターパターン：既存のDraftRepository実装を組み合わせて機能を追加
+ * - 正本優先：書き込みの前後にキャッシュを無効化し、次の読み出しで正本から補充する
+ * - リードスルー：キャッシュミス時は正本から読み出し、短い期限付きでキャッシュを補充
+ */
+
+import type { PostDraft } from "../domain/postDraft";
+import type { DraftListCriteria, DraftListPage, DraftRepository } from "../usecases/createDraftUseCase";
+
+/**
+ * キャッシュの既定の有効期限（秒）
+ *
+ * 無効化と補充が入れ違った場合に古い版を返し続ける時間の上限。KVのTTLの下限（60秒）に合わせる。
+ */
+const DEFAULT_CACHE_TTL_SECONDS = 60;
+
+/**
+ * ドラフトキャッシュポート
+ * 
+ * 期限付きでエントリーを補充し、正本への書き込みの前後にエントリーを無効化できるドラフトの保存先。
+ */
+export type DraftCache = Pick<DraftRepository, "findById"> & {
+  put(draft: PostDraft, ttlSeconds: number): Promise<void>;
+  delete(id: string): Promise<void>;
+};
+
+/**
+ * キャッシュ付きドラフトリポジトリ
+ * 
+ * 正本へ書き込む前にキャッシュのエントリーを削除し、書き込んだドラフトはキャッシュへ反映しない。
+ * 正本は画像ジョブの状態を通常の保存で上書きしないため、書き込んだドラフトが正本と一致するとは限らない。
+ * 書き込み中の読み出しが正本の古い版で補充した場合に備えて、書き込み後にもう一度削除する。
+ * それも失敗した場合に古い版を返し続けないよう、補充したエントリーは短い期限で失効させる。
+ * KVは結果整合のため、読み出した版が最新でない場合は
+ * 正本側の排他制御（バージョン照合）で検出される。
+ */
+export class CachedDraftRepository implements DraftRepository {
+  constructor(
+    private readonly primary: DraftRepository,
+    private readonly cache: DraftCache,
+    private readonly cacheTtlSeconds: number = DEFAULT_CACHE_TTL_SECONDS
+  ) {}
+
+  /**
+   * キャッシュを無効化してから正本へ保存し、保存後にもう一度無効化する
+   * 
+   * @param draft 永続化するドラフトエンティティ
+   * @throws キャッシュの無効化・正本への書き込みエラー
+   */
+  async save(draft: PostDraft): Promise<void> {
+    await this.invalidate(draft);
+    await this.primary.save(draft);
+    await this.invalidateAfterWrite(draft);
+  }
+
+  /**
+   * キャッシュを無効化してから正本へ画像ジョブの状態を保存し、保存後にもう一度無効化する
+   * 
+   * @param draft 画像ジョブの状態を更新したドラフトエンティティ
+   * @throws キャッシュの無効化・正本への書き込みエラー
+   */
+  async saveImageState(draft: PostDraft): Promise<void> {
+    await this.invalidate(draft);
+    await this.primary.saveImageState(draft);
+    await this.invalidateAfterWrite(draft);
+  }
+
+  /**
+   * キャッシュを優先して取得し、ミス時は正本から読み出して補充する
+   * 
+   * @param id 取得対象のドラフトID
+   * @returns 復元されたドラフト、存在しない場合はnull
+   */
+  async findById(id: string): Promise<PostDraft | null> {
+    const cached = await this.cache.findById(id);
+    if (cached) {
+      return cached;
+    }
+
+    const draft = await this.primary.findById(id);
+    if (draft) {
+      await this.refill(draft);
+    }
+    return draft;
+  }
+
+  /**
+   * 一覧検索は正本に委譲する
+   * 
+   * キャッシュは一部のドラフトしか保持しないため、検索には使わない。
+   * 
+   * @param criteria 検索条件
+   * @returns 正本の検索結果
+   */
+  async list(criteria: DraftListCriteria): Promise<DraftListPage> {
+    return this.primary.list(criteria);
+  }
+
+  /**
+   * キャッシュのエントリーの削除
+   * 
+   * 削除できない場合は正本へ書き込まず、キャッシュに古い版が残らないようにする。
+   */
+  private async invalidate(draft: PostDraft): Promise<void> {
+    if (draft.id) {
+      await this.cache.delete(draft.id);
+    }
+  }
+
+  /**
+   * 正本への書き込み後のキャッシュのエントリーの削除
+   * 
+   * 書き込みは完了しているため、失敗しても例外は送出しない（補充したエントリーは期限で失効する）。
+   */
+  private async invalidateAfterWrite(draft: PostDraft): Promise<void> {
+    try {
+      await this.invalidate(draft);
+    } catch (error) {
+      console.warn(`Failed to invalidate cached draft ${draft.id}`, error);
+    }
+  }
+
+  /**
+   * キャッシュへの反映
+   * 
+   * 失敗してもキャッシュミスになるだけのため、例外は送出しない。
+   */
+  private async refill(draft: PostDraft): Promise<void> {
+    try {
+      await this.cache.put(draft, this.cacheTtlSeconds);
+    } catch (error) {
+      console.warn(`Failed to cache draft ${draft.id}`, error);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare Access JWT検証
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * 署名検証ミドルウェアで定義されたAccessTokenVerifierポートを、
+ * Cloudflare Access が発行するJWT（RS256）の検証で実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：公開鍵の取得とJWTの検証をポートの背後に隠蔽
+ * - Web Crypto API：外部ライブラリを使わず crypto.subtle で署名を検証する
+ * - 鍵の再取得：未知の鍵ID（鍵のローテーション）を受けた場合だけ公開鍵を取り直す
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { AccessTokenVerifier } from "../middleware/requestSignature";
+
+/**
+ * Accessの公開鍵（JWK）
+ */
+type AccessSigningKey = JsonWebKey & { kid?: string };
+
+/**
+ * JWTのヘッダー
+ */
+type JwtHeader = {
+  alg?: unknown;
+  kid?: unknown;
+};
+
+/**
+ * JWTのクレーム
+ */
+type AccessClaims = {
+  iss?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  email?: unknown;
+};
+
+/** 公開鍵の取得先ごとのキャッシュ（ワーカーのインスタンス内で共有する） */
+const signingKeyCache = new Map<string, Promise<AccessSigningKey[]>>();
+
+/**
+ * Cloudflare Access JWT検証
+ *
+ * 技術的詳細：
+ * - 公開鍵：`https://{teamDomain}/cdn-cgi/access/certs` のJWKを鍵ID（kid）で選ぶ
+ * - クレーム：発行元（iss）がチームのドメイン、対象（aud）にアプリケーションのAUDタグを含み、有効期限内であること
+ * - 利用者：email クレームをIDとして返す（サービストークンなど email のないJWTは受け付けない）
+ */
+export class CloudflareAccessVerifier implements AccessTokenVerifier {
+  /**
+   * @param teamDomain Accessのチームのドメイン（例: example.cloudflareaccess.com）
+   * @param audience AccessアプリケーションのAUDタグ
+   * @param clock 有効期限の判定に使う時刻
+   * @param fetcher 公開鍵の取得に使うfetch（テストで置き換える）
+   */
+  constructor(
+    private readonly teamDomain: string,
+    private readonly audience: string,
+    private readonly clock: DraftClock,
+    private readonly fetcher: typeof fetch = fetch
+  ) {}
+
+  async verify(token: string): Promise<string | null> {
+    const parts = token.split(".");
+    if (parts.length !== 3) {
+      return null;
+    }
+    const header = decodeJson<JwtHeader>(parts[0]);
+    const claims = decodeJson<AccessClaims>(parts[1]);
+    const signature = decodeBase64Url(parts[2]);
+    if (!header || !claims || !signature || header.alg !== "RS256" || typeof header.kid !== "string") {
+      return null;
+    }
+
+    const jwk = await this.signingKey(header.kid);
+    if (!jwk) {
+      return null;
+    }
+    const key = await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, [
+      "verify",
+    ]);
+    const signed = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+    if (!(await crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, signed))) {
+      return null;
+    }
+
+    return this.acceptedClaims(claims) && typeof claims.email === "string" ? claims.email : null;
+  }
+
+  /**
+   * クレームの検証
+   */
+  private acceptedClaims(claims: AccessClaims): boolean {
+    const now = this.clock.now().getTime() / 1000;
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    return (
+      claims.iss === this.issuer &&
+      audiences.includes(this.audience) &&
+      typeof claims.exp === "number" &&
+      claims.exp > now &&
+      (claims.nbf === undefined || (typeof claims.nbf === "number" && claims.nbf <= now))
+    );
+  }
+
+  /**
+   * 鍵IDに対応する公開鍵
+   *
+   * キャッシュにない鍵IDを受けた場合は一度だけ取り直す。
+   */
+  private async signingKey(kid: string): Promise<AccessSigningKey | undefined> {
+    const url = `${this.issuer}/cdn-cgi/access/certs`;
+    const cached = signingKeyCache.get(url);
+    const found = cached ? (await cached.catch(() => [])).find((key) => key.kid === kid) : undefined;
+    if (found) {
+      return found;
+    }
+
+    const loading = this.fetchSigningKeys(url);
+    signingKeyCache.set(url, loading);
+    try {
+      return (await loading).find((key) => key.kid === kid);
+    } catch (error) {
+      signingKeyCache.delete(url);
+      throw error;
+    }
+  }
+
+  /**
+   * 公開鍵の取得
+   *
+   * @throws エラー 公開鍵を取得できない場合
+   */
+  private async fetchSigningKeys(url: string): Promise<AccessSigningKey[]> {
+    const response = await this.fetcher(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Cloudflare Access certificates: ${response.status}`);
+    }
+    const body = (await response.json()) as { keys?: AccessSigningKey[] };
+    return Array.isArray(body.keys) ? body.keys : [];
+  }
+
+  private get issuer(): string {
+    return `https://${this.teamDomain}`;
+  }
+}
+
+/**
+ * Base64URLのJSONの読み取り
+ *
+ * @returns オブジェクト、読み取れない場合はnull
+ */
+function decodeJson<T>(segment: string): T | null {
+  const bytes = decodeBase64Url(segment);
+  if (!bytes) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(bytes));
+    return typeof value === "object" && value !== null ? (value as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Base64URLのバイト列への変換
+ *
+ * @returns バイト列、Base64URLとして不正な場合はnull
+ */
+function decodeBase64Url(segment: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(segment)) {
+    return null;
+  }
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(segment.length / 4) * 4, "=");
+  try {
+    return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare Workflows 投稿ワークフロー操作
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ワークフロー層で定義されたPostWorkflowLauncherポートを、Workflowバインディング（`POST_WORKFLOW`）で実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：WorkflowInstance の状態をHTTPレスポンスのDTOに適応
+ * - 失敗の明示：バインディング未設定時はワークフローを開始できないためエラーとする
+ */
+
+import {
+  REVIEW_EVENT_TYPE,
+  type PostWorkflowLauncher,
+  type SnsPostWorkflowParams,
+} from "../workflows/snsPostPipeline";
+import type {
+  PostWorkflowInstanceResponse,
+  PostWorkflowOutput,
+  PostWorkflowReviewRequest,
+} from "@/shared/contracts/postWorkflow";
+
+/**
+ * Cloudflare Workflows 投稿ワークフロー操作
+ */
+export class CloudflarePostWorkflowLauncher implements PostWorkflowLauncher {
+  /**
+   * @param workflow Workflowバインディング（開発環境では未定義の場合あり）
+   */
+  constructor(private readonly workflow: Workflow<SnsPostWorkflowParams> | undefined) {}
+
+  /**
+   * インスタンスの開始
+   *
+   * @param params ユーザーが指定した投稿の要求事項
+   * @returns 開始したインスタンスのIDと状態
+   * @throws バインディングが未設定の場合
+   */
+  async start(params: SnsPostWorkflowParams): Promise<PostWorkflowInstanceResponse> {
+    const instance = await this.binding().create({ params });
+    return describe(instance);
+  }
+
+  /**
+   * インスタンスの状態確認
+   *
+   * @param instanceId インスタンスID
+   * @returns インスタンスの状態（完了時は出力付き）、存在しない場合はnull
+   */
+  async status(instanceId: string): Promise<PostWorkflowInstanceResponse | null> {
+    const instance = await this.find(instanceId);
+    return instance ? describe(instance) : null;
+  }
+
+  /**
+   * レビュー判断の送信
+   *
+   * レビュー待ちに入る前に送信した判断も、ランタイムが保持して待機開始時に届ける。
+   *
+   * @param instanceId インスタンスID
+   * @param decision レビュー判断
+   * @returns 送信した場合はtrue、インスタンスが存在しない場合はfalse
+   */
+  async sendReview(instanceId: string, decision: PostWorkflowReviewRequest): Promise<boolean> {
+    const instance = await this.find(instanceId);
+    if (!instance) {
+      return false;
+    }
+
+    await instance.sendEvent({ type: REVIEW_EVENT_TYPE, payload: decision });
+    return true;
+  }
+
+  /**
+   * バインディングの取得
+   *
+   * @throws バインディングが未設定の場合
+   */
+  private binding(): Workflow<SnsPostWorkflowParams> {
+    if (!this.workflow) {
+      throw new Error("POST_WORKFLOW is not configured");
+    }
+    return this.workflow;
+  }
+
+  /**
+   * インスタンスの取得
+   *
+   * 存在しないIDに対してランタイムは例外を送出するため、nullに変換する。
+   */
+  private async find(instanceId: string): Promise<WorkflowInstance | null> {
+    try {
+      return await this.binding().get(instanceId);
+    } catch (error) {
+      if (error instanceof Error && /not[_ ]found/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * インスタンスの状態のDTOへの変換
+ */
+async function describe(instance: WorkflowInstance): Promise<PostWorkflowInstanceResponse> {
+  const { status, error, output } = await instance.status();
+  return {
+    instanceId: instance.id,
+    status,
+    error: error || undefined,
+    output: status === "complete" ? (output as PostWorkflowOutput | undefined) : undefined,
+  };
+}
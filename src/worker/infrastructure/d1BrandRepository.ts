@@ -0,0 +1,119 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 ブランドリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（BrandRepository）を、
+ * Cloudflare D1の `brands` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - 永続性：ドラフトの保存先設定に関わらず、ブランドはD1に保存する
+ */
+
+import { Brand } from "../domain/brand";
+import type { BrandRepository } from "../usecases/manageBrandsUseCase";
+
+/**
+ * `brands` テーブルの行型
+ *
+ * migrations/0012 で定義されたカラムに対応する。
+ */
+type BrandRow = {
+  id: string;
+  name: string;
+  voice: string;
+  default_hashtags: string;
+  banned_words: string;
+  default_persona: string | null;
+  created_at: string;
+  updated_at: string | null;
+};
+
+const UPSERT_SQL = `
+INSERT INTO brands (
+  id, name, voice, default_hashtags, banned_words, default_persona, created_at, updated_at
+) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)
+ON CONFLICT(id) DO UPDATE SET
+  name = excluded.name,
+  voice = excluded.voice,
+  default_hashtags = excluded.default_hashtags,
+  banned_words = excluded.banned_words,
+  default_persona = excluded.default_persona,
+  updated_at = excluded.updated_at`;
+
+/**
+ * Cloudflare D1 ブランドリポジトリ
+ *
+ * 技術的詳細：
+ * - リスト：既定のハッシュタグ・禁止語はJSON配列で保存
+ * - 同時更新：管理操作は少人数・低頻度である前提で、後勝ちとする
+ */
+export class D1BrandRepository implements BrandRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async findById(id: string): Promise<Brand | null> {
+    const row = await this.db.prepare("SELECT * FROM brands WHERE id = ?1").bind(id).first<BrandRow>();
+    return row ? toBrand(row) : null;
+  }
+
+  async list(): Promise<Brand[]> {
+    const { results } = await this.db.prepare("SELECT * FROM brands ORDER BY name ASC, id ASC").all<BrandRow>();
+    return results.map(toBrand);
+  }
+
+  async save(brand: Brand): Promise<void> {
+    const json = brand.toJSON();
+    await this.db
+      .prepare(UPSERT_SQL)
+      .bind(
+        json.id,
+        json.name,
+        json.voice,
+        JSON.stringify(json.defaultHashtags),
+        JSON.stringify(json.bannedWords),
+        json.defaultPersona ?? null,
+        json.createdAt,
+        json.updatedAt ?? null
+      )
+      .run();
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.prepare("DELETE FROM brands WHERE id = ?1").bind(id).run();
+    return result.meta.changes > 0;
+  }
+}
+
+/**
+ * `brands` 行からブランドへの変換
+ *
+ * @throws リストのJSONが不正な場合
+ */
+function toBrand(row: BrandRow): Brand {
+  return Brand.restore({
+    id: row.id,
+    name: row.name,
+    voice: row.voice,
+    defaultHashtags: parseStringList(row, "default_hashtags"),
+    bannedWords: parseStringList(row, "banned_words"),
+    defaultPersona: row.default_persona ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+  });
+}
+
+/**
+ * JSON配列カラムのパースと構造検証
+ */
+function parseStringList(row: BrandRow, column: "default_hashtags" | "banned_words"): string[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(row[column]);
+  } catch {
+    throw new Error(`Stored brand ${row.id} has ${column} that is not valid JSON`);
+  }
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new Error(`Stored brand ${row.id} has invalid ${column}`);
+  }
+  return value;
+}
@@ -0,0 +1,457 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 ドラフトリポジトリ
+ * 
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（DraftRepository）を、
+ * Cloudflare D1（SQLite）の `posts` テーブルを使って具体的に実装する。
+ * 
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - スキーマ対応：PostDraftのプロパティを `posts` のカラムへマッピング
+ * - 楽観的排他制御：バージョン条件付きUPSERTにより同時編集を検出
+ * - 永続性：KVと異なりTTLを持たない長期保存先
+ */
+
+import { PostDraft, isDraftImageStatus, isDraftStatus, type DraftProps } from "../domain/postDraft";
+import { isSocialPlatform } from "../domain/platformRules";
+import { isCaptionVariant, type CaptionVariant } from "../domain/captionVariant";
+import { isComplianceViolation, type ComplianceViolation } from "../domain/compliance";
+import type { DraftListCriteria, DraftListPage, DraftRepository } from "../usecases/createDraftUseCase";
+import { DraftVersionConflictError } from "../usecases/updateDraftUseCase";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+
+/**
+ * `posts` テーブルの行型
+ * 
+ * migrations/0001〜0012 で定義されたカラムに対応する。
+ * 画像のストレージキーは `image_url` カラムに保存する。
+ */
+type PostRow = {
+  id: string;
+  brand_id: string | null;
+  theme: string;
+  brand_voice: string;
+  product: string | null;
+  image_prompt: string | null;
+  target_persona: string | null;
+  platform: string;
+  content: string | null;
+  image_url: string | null;
+  image_status: string | null;
+  image_job_id: string | null;
+  image_error: string | null;
+  prompt_template_id: string | null;
+  prompt_template_version: number | null;
+  published_media_id: string | null;
+  published_at: string | null;
+  publish_error: string | null;
+  scheduled_at: string | null;
+  schedule_timezone: string | null;
+  dispatched_at: string | null;
+  status: string;
+  version: number;
+  created_at: string;
+  updated_at: string | null;
+};
+
+/**
+ * `content` カラムに保存する生成コンテンツのJSON形状
+ * 
+ * キャプション案と採用中の案の番号、コンプライアンスチェックの結果も生成コンテンツの一部として保存する。
+ */
+type StoredContent = {
+  caption?: string;
+  hashtags?: string[];
+  altText?: string;
+  variants?: CaptionVariant[];
+  selectedVariant?: number;
+  complianceViolations?: ComplianceViolation[];
+};
+
+/**
+ * バージョン条件付きUPSERT
+ * 
+ * 新規作成時はINSERTし、既存行は保存済みバージョンが直前の版である場合のみ更新する。
+ * 所属するブランド（brand_id）は作成後に変わらないため、更新の対象に含めない。
+ * 画像ジョブの状態は IMAGE_STATE_SQL だけで更新し、編集前に読んだ古い状態で上書きしない。
+ * 条件に合わない場合は変更行数が0になり、同時編集として検出できる。
+ */
+const UPSERT_SQL = `
+INSERT INTO posts (
+  id, theme, brand_voice, product, image_prompt, target_persona,
+  content, status, version, created_at, updated_at,
+  image_url, image_status, image_error, image_job_id,
+  prompt_template_id, prompt_template_version, platform,
+  published_media_id, published_at, publish_error,
+  scheduled_at, schedule_timezone, dispatched_at, brand_id
+) VALUES (
+  ?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16, ?17, ?18, ?19, ?20, ?21, ?22, ?23, ?24, ?25
+)
+ON CONFLICT(id) DO UPDATE SET
+  theme = excluded.theme,
+  brand_voice = excluded.brand_voice,
+  product = excluded.product,
+  image_prompt = excluded.image_prompt,
+  target_persona = excluded.target_persona,
+  content = excluded.content,
+  status = excluded.status,
+  version = excluded.version,
+  updated_at = excluded.updated_at,
+  prompt_template_id = excluded.prompt_template_id,
+  prompt_template_version = excluded.prompt_template_version,
+  platform = excluded.platform,
+  published_media_id = excluded.published_media_id,
+  published_at = excluded.published_at,
+  publish_error = excluded.publish_error,
+  scheduled_at = excluded.scheduled_at,
+  schedule_timezone = excluded.schedule_timezone,
+  dispatched_at = excluded.dispatched_at
+WHERE posts.version = excluded.version - 1`;
+
+/**
+ * 画像ジョブの状態の更新
+ * 
+ * バージョンを照合・更新しないため、画像生成と並行した編集を競合させない。
+ */
+const IMAGE_STATE_SQL = `
+UPDATE posts
+SET image_url = ?2, image_status = ?3, image_error = ?4, image_job_id = ?5, updated_at = ?6
+WHERE id = ?1`;
+
+/**
+ * Cloudflare D1 ドラフトリポジトリ
+ * 
+ * DraftRepositoryポートのCloudflare D1実装。
+ * 
+ * 技術的詳細：
+ * - カラムマッピング：theme/brandVoice等の入力項目は個別カラム、
+ *   生成コンテンツ（caption/hashtags/altText・キャプション案）は `content` にJSONで保存
+ * - 排他制御：`version` カラムによる条件付き更新（画像ジョブの状態は対象外）
+ * - 一覧検索：`idx_posts_status`・`idx_posts_created_at`・`idx_posts_brand_created_at` を利用するキーセットページング
+ */
+export class D1DraftRepository implements DraftRepository {
+  constructor(private readonly db: D1Database) {}
+
+  /**
+   * ドラフトの永続化
+   * 
+   * @param draft 永続化するドラフトエンティティ
+   * @throws ID未設定の場合のエラー
+   * @throws DraftVersionConflictError 保存済みバージョンが直前の版でない場合
+   * @throws InfrastructureError D1への書き込みに失敗した場合
+   */
+  async save(draft: PostDraft): Promise<void> {
+    const json = draft.toJSON();
+
+    // 前提条件の検証：IDは必須
+    if (!json.id) {
+      throw new Error("Draft must have an id before persisting");
+    }
+
+    const content: StoredContent = {
+      caption: json.caption,
+      hashtags: json.hashtags,
+      altText: json.altText,
+      variants: json.variants,
+      selectedVariant: json.selectedVariant,
+      complianceViolations: json.complianceViolations,
+    };
+
+    const statement = this.db
+      .prepare(UPSERT_SQL)
+      .bind(
+        json.id,
+        json.theme,
+        json.brandVoice,
+        json.product ?? null,
+        json.imagePrompt ?? null,
+        json.targetPersona ?? null,
+        JSON.stringify(content),
+        json.status,
+        json.version,
+        json.createdAt,
+        json.updatedAt ?? null,
+        json.imageKey ?? null,
+        json.imageStatus ?? null,
+        json.imageError ?? null,
+        json.imageJobId ?? null,
+        json.promptTemplateId ?? null,
+        json.promptTemplateVersion ?? null,
+        json.platform,
+        json.publishedMediaId ?? null,
+        json.publishedAt ?? null,
+        json.publishError ?? null,
+        json.scheduledAt ?? null,
+        json.scheduleTimezone ?? null,
+        json.dispatchedAt ?? null,
+        json.brandId ?? null
+      );
+    const result = await guardInfrastructure("STORAGE_UNAVAILABLE", "save draft", () => statement.run());
+
+    // 変更行数0：既存行のバージョンが想定と異なる（同時編集）
+    if (result.meta.changes === 0) {
+      const current = await guardInfrastructure("STORAGE_UNAVAILABLE", "read draft version", () =>
+        this.db.prepare("SELECT version FROM posts WHERE id = ?1").bind(json.id).first<number>("version")
+      );
+      throw new DraftVersionConflictError(json.version - 1, current ?? 0);
+    }
+  }
+
+  /**
+   * 画像ジョブの状態の保存
+   * 
+   * @param draft 画像ジョブの状態を更新したドラフトエンティティ
+   * @throws ID未設定の場合のエラー
+   * @throws InfrastructureError D1への書き込みに失敗した場合
+   */
+  async saveImageState(draft: PostDraft): Promise<void> {
+    const json = draft.toJSON();
+    if (!json.id) {
+      throw new Error("Draft must have an id before persisting");
+    }
+
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "save draft image state", () =>
+      this.db
+        .prepare(IMAGE_STATE_SQL)
+        .bind(
+          json.id,
+          json.imageKey ?? null,
+          json.imageStatus ?? null,
+          json.imageError ?? null,
+          json.imageJobId ?? null,
+          json.updatedAt ?? null
+        )
+        .run()
+    );
+  }
+
+  /**
+   * ドラフトの取得
+   * 
+   * @param id 取得対象のドラフトID
+   * @returns 復元されたドラフト、行が存在しない場合はnull
+   * @throws 保存データの構造が不正な場合のエラー
+   * @throws InfrastructureError D1からの読み取りに失敗した場合
+   */
+  async findById(id: string): Promise<PostDraft | null> {
+    const row = await guardInfrastructure("STORAGE_UNAVAILABLE", "read draft", () =>
+      this.db.prepare("SELECT * FROM posts WHERE id = ?1").bind(id).first<PostRow>()
+    );
+    if (!row) {
+      return null;
+    }
+
+    return PostDraft.restore(toDraftProps(row));
+  }
+
+  /**
+   * ドラフトの一覧検索
+   * 
+   * 指定された条件のみをWHERE句に含め、作成日時の降順で取得する。
+   * 続きの有無を判定するため上限より1件多く読み出す。
+   * 構造が不正な行は1件のためにページ全体を失敗させないよう、警告を記録して読み飛ばす。
+   * 
+   * @param criteria 検索条件
+   * @returns 作成日時の降順に並んだ1ページ分のドラフト
+   * @throws InfrastructureError D1からの読み取りに失敗した場合
+   */
+  async list(criteria: DraftListCriteria): Promise<DraftListPage> {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const param = (value: string | number) => {
+      params.push(value);
+      return `?${params.length}`;
+    };
+
+    if (criteria.brandId === null) {
+      conditions.push("brand_id IS NULL");
+    } else if (criteria.brandId !== undefined) {
+      conditions.push(`brand_id = ${param(criteria.brandId)}`);
+    }
+    if (criteria.status) {
+      conditions.push(`status = ${param(criteria.status)}`);
+    }
+    if (criteria.theme) {
+      conditions.push(`theme LIKE ${param(`%${escapeLike(criteria.theme)}%`)} ESCAPE '\\'`);
+    }
+    if (criteria.brandVoice) {
+      conditions.push(`brand_voice LIKE ${param(`%${escapeLike(criteria.brandVoice)}%`)} ESCAPE '\\'`);
+    }
+    if (criteria.createdFrom) {
+      conditions.push(`created_at >= ${param(criteria.createdFrom)}`);
+    }
+    if (criteria.createdTo) {
+      conditions.push(`created_at <= ${param(criteria.createdTo)}`);
+    }
+    if (criteria.dueBefore) {
+      conditions.push(
+        `status = 'approved' AND dispatched_at IS NULL AND scheduled_at <= ${param(criteria.dueBefore)}`
+      );
+    }
+    if (criteria.after) {
+      const createdAt = param(criteria.after.createdAt);
+      const id = param(criteria.after.id);
+      conditions.push(`(created_at < ${createdAt} OR (created_at = ${createdAt} AND id < ${id}))`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = param(criteria.limit + 1);
+    const { results } = await guardInfrastructure("STORAGE_UNAVAILABLE", "list drafts", () =>
+      this.db
+        .prepare(`SELECT * FROM posts ${where} ORDER BY created_at DESC, id DESC LIMIT ${limit}`)
+        .bind(...params)
+        .all<PostRow>()
+    );
+
+    const rows = results.slice(0, criteria.limit);
+    const drafts = rows.flatMap((row) => {
+      const draft = restoreListedRow(row);
+      return draft ? [draft] : [];
+    });
+    // 読み取れない行を除いても続きの位置がずれないよう、最後の行から次ページの開始位置を求める
+    const last = rows[rows.length - 1];
+    return {
+      drafts,
+      next: results.length > criteria.limit && last ? { createdAt: last.created_at, id: last.id } : undefined,
+    };
+  }
+}
+
+/**
+ * 一覧の行の復元
+ * 
+ * @returns 復元されたドラフト、構造が不正な場合はnull
+ */
+function restoreListedRow(row: PostRow): PostDraft | null {
+  try {
+    return PostDraft.restore(toDraftProps(row));
+  } catch (error) {
+    console.warn(`Skipping unreadable draft ${row.id}`, error);
+    return null;
+  }
+}
+
+/**
+ * LIKE句のワイルドカード文字をエスケープ
+ * 
+ * @param value 検索キーワード
+ * @returns `%`・`_`・`\` をエスケープした文字列
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * `posts` 行からドラフトプロパティへの変換
+ * 
+ * @param row D1から読み出した行
+ * @returns 検証済みのドラフトプロパティ
+ * @throws 状態値や `content` のJSONが不正な場合
+ */
+function toDraftProps(row: PostRow): DraftProps {
+  if (!isDraftStatus(row.status)) {
+    throw new Error(`Stored draft ${row.id} has invalid status`);
+  }
+
+  const content = parseContent(row);
+
+  if (!isSocialPlatform(row.platform)) {
+    throw new Error(`Stored draft ${row.id} has invalid platform`);
+  }
+
+  if (row.image_status !== null && !isDraftImageStatus(row.image_status)) {
+    throw new Error(`Stored draft ${row.id} has invalid image_status`);
+  }
+
+  return {
+    id: row.id,
+    brandId: row.brand_id ?? undefined,
+    theme: row.theme,
+    brandVoice: row.brand_voice,
+    product: row.product ?? undefined,
+    imagePrompt: row.image_prompt ?? undefined,
+    targetPersona: row.target_persona ?? undefined,
+    platform: row.platform,
+    caption: content.caption,
+    hashtags: content.hashtags,
+    altText: content.altText,
+    variants: content.variants,
+    selectedVariant: content.selectedVariant,
+    complianceViolations: content.complianceViolations,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at ?? undefined,
+    version: row.version,
+    imageStatus: row.image_status ?? undefined,
+    imageJobId: row.image_job_id ?? undefined,
+    imageKey: row.image_url ?? undefined,
+    imageError: row.image_error ?? undefined,
+    promptTemplateId: row.prompt_template_id ?? undefined,
+    promptTemplateVersion: row.prompt_template_version ?? undefined,
+    publishedMediaId: row.published_media_id ?? undefined,
+    publishedAt: row.published_at ?? undefined,
+    publishError: row.publish_error ?? undefined,
+    scheduledAt: row.scheduled_at ?? undefined,
+    scheduleTimezone: row.schedule_timezone ?? undefined,
+    dispatchedAt: row.dispatched_at ?? undefined,
+  };
+}
+
+/**
+ * `content` カラムのパースと構造検証
+ * 
+ * @param row D1から読み出した行
+ * @returns 生成コンテンツ（未保存の場合は空オブジェクト）
+ * @throws JSONとして不正、またはフィールドの型が不正な場合
+ */
+function parseContent(row: PostRow): StoredContent {
+  if (row.content === null) {
+    return {};
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(row.content);
+  } catch {
+    throw new Error(`Stored draft ${row.id} has content that is not valid JSON`);
+  }
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Stored draft ${row.id} content must be an object`);
+  }
+
+  const record = value as Record<string, unknown>;
+  for (const field of ["caption", "altText"] as const) {
+    if (record[field] !== undefined && typeof record[field] !== "string") {
+      throw new Error(`Stored draft ${row.id} has invalid ${field}`);
+    }
+  }
+  const hashtags = record.hashtags;
+  if (hashtags !== undefined && !(Array.isArray(hashtags) && hashtags.every((tag) => typeof tag === "string"))) {
+    throw new Error(`Stored draft ${row.id} has invalid hashtags`);
+  }
+  const variants = record.variants;
+  if (variants !== undefined && !(Array.isArray(variants) && variants.every(isCaptionVariant))) {
+    throw new Error(`Stored draft ${row.id} has invalid variants`);
+  }
+  const selectedVariant = record.selectedVariant;
+  if (selectedVariant !== undefined && typeof selectedVariant !== "number") {
+    throw new Error(`Stored draft ${row.id} has invalid selectedVariant`);
+  }
+  const complianceViolations = record.complianceViolations;
+  if (
+    complianceViolations !== undefined &&
+    !(Array.isArray(complianceViolations) && complianceViolations.every(isComplianceViolation))
+  ) {
+    throw new Error(`Stored draft ${row.id} has invalid complianceViolations`);
+  }
+
+  return {
+    caption: record.caption as string | undefined,
+    hashtags: hashtags as string[] | undefined,
+    altText: record.altText as string | undefined,
+    variants: variants as CaptionVariant[] | undefined,
+    selectedVariant,
+    complianceViolations: complianceViolations as ComplianceViolation[] | undefined,
+  };
+}
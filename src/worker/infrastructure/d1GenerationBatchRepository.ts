@@ -0,0 +1,186 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 一括生成バッチリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（GenerationBatchRepository）を、
+ * Cloudflare D1の `generation_batches`・`generation_batch_rows` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - 行単位の更新：キューコンシューマーは行ごとに並行して結果を書き込むため、バッチ全体を書き換えない
+ */
+
+import { GenerationBatch, type GenerationBatchRow } from "../domain/generationBatch";
+import type { GenerationBatchRepository } from "../usecases/manageGenerationBatchesUseCase";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+import type { DraftGenerationRequest } from "@/shared/contracts/draft";
+
+/**
+ * `generation_batches` テーブルの行型
+ *
+ * migrations/0014 で定義されたカラムに対応する。
+ */
+type GenerationBatchRecord = {
+  id: string;
+  brand_id: string | null;
+  quota_key: string | null;
+  created_at: string;
+};
+
+/**
+ * `generation_batch_rows` テーブルの行型
+ *
+ * migrations/0014 で定義されたカラムに対応する。
+ */
+type GenerationBatchRowRecord = {
+  batch_id: string;
+  row_index: number;
+  theme: string | null;
+  request: string | null;
+  draft_id: string | null;
+  status: GenerationBatchRow["status"];
+  caption: string | null;
+  hashtags: string | null;
+  error: string | null;
+  completed_at: string | null;
+};
+
+const INSERT_ROW_SQL = `
+INSERT INTO generation_batch_rows (
+  batch_id, row_index, theme, request, draft_id, status, caption, hashtags, error, completed_at
+) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10)`;
+
+/** 行とバッチの生成クォータのカウンターのキー */
+const FIND_ROW_SQL = `
+SELECT r.*, b.quota_key
+FROM generation_batch_rows r
+JOIN generation_batches b ON b.id = r.batch_id
+WHERE r.batch_id = ?1 AND r.row_index = ?2`;
+
+const UPDATE_QUEUED_ROW_SQL = `
+UPDATE generation_batch_rows
+SET status = ?3, caption = ?4, hashtags = ?5, error = ?6, completed_at = ?7
+WHERE batch_id = ?1 AND row_index = ?2 AND status = 'queued'`;
+
+/**
+ * Cloudflare D1 一括生成バッチリポジトリ
+ *
+ * 技術的詳細：
+ * - 作成：バッチと全ての行を1回のD1バッチで書き込む
+ * - 行の更新：status = 'queued' を条件にした UPDATE で、処理済みの行を上書きしない
+ * - JSON列：生成リクエスト・ハッシュタグ・失敗理由はJSONで保存
+ * - クォータのキー：バッチに保存し、行の取得時に結合して返す
+ */
+export class D1GenerationBatchRepository implements GenerationBatchRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async create(
+    batch: GenerationBatch,
+    requests: ReadonlyMap<number, DraftGenerationRequest>,
+    quotaKey?: string
+  ): Promise<void> {
+    const json = batch.toJSON();
+    const statements = [
+      this.db
+        .prepare("INSERT INTO generation_batches (id, brand_id, quota_key, created_at) VALUES (?1, ?2, ?3, ?4)")
+        .bind(json.id, json.brandId ?? null, quotaKey ?? null, json.createdAt),
+      ...json.rows.map((row) => {
+        const request = requests.get(row.index);
+        return this.db
+          .prepare(INSERT_ROW_SQL)
+          .bind(
+            json.id,
+            row.index,
+            row.theme ?? null,
+            request ? JSON.stringify(request) : null,
+            ...rowResultValues(row)
+          );
+      }),
+    ];
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "save generation batch", () => this.db.batch(statements));
+  }
+
+  async findById(id: string): Promise<GenerationBatch | null> {
+    const batch = await guardInfrastructure("STORAGE_UNAVAILABLE", "read generation batch", () =>
+      this.db.prepare("SELECT * FROM generation_batches WHERE id = ?1").bind(id).first<GenerationBatchRecord>()
+    );
+    if (!batch) {
+      return null;
+    }
+
+    const { results } = await guardInfrastructure("STORAGE_UNAVAILABLE", "read generation batch rows", () =>
+      this.db
+        .prepare("SELECT * FROM generation_batch_rows WHERE batch_id = ?1 ORDER BY row_index ASC")
+        .bind(id)
+        .all<GenerationBatchRowRecord>()
+    );
+    return GenerationBatch.restore({
+      id: batch.id,
+      brandId: batch.brand_id ?? undefined,
+      createdAt: batch.created_at,
+      rows: results.map(toGenerationBatchRow),
+    });
+  }
+
+  async findRow(
+    batchId: string,
+    index: number
+  ): Promise<{ row: GenerationBatchRow; request?: DraftGenerationRequest; quotaKey?: string } | null> {
+    const record = await guardInfrastructure("STORAGE_UNAVAILABLE", "read generation batch row", () =>
+      this.db
+        .prepare(FIND_ROW_SQL)
+        .bind(batchId, index)
+        .first<GenerationBatchRowRecord & Pick<GenerationBatchRecord, "quota_key">>()
+    );
+    if (!record) {
+      return null;
+    }
+
+    return {
+      row: toGenerationBatchRow(record),
+      request: record.request ? (JSON.parse(record.request) as DraftGenerationRequest) : undefined,
+      quotaKey: record.quota_key ?? undefined,
+    };
+  }
+
+  async saveRow(batchId: string, row: GenerationBatchRow): Promise<boolean> {
+    const [, status, caption, hashtags, error, completedAt] = rowResultValues(row);
+    const result = await guardInfrastructure("STORAGE_UNAVAILABLE", "save generation batch row", () =>
+      this.db
+        .prepare(UPDATE_QUEUED_ROW_SQL)
+        .bind(batchId, row.index, status, caption, hashtags, error, completedAt)
+        .run()
+    );
+    return result.meta.changes > 0;
+  }
+}
+
+/**
+ * 行の状態・結果のカラムの値（draft_id 以降のカラムの順）
+ */
+function rowResultValues(row: GenerationBatchRow) {
+  return [
+    row.draftId ?? null,
+    row.status,
+    row.caption ?? null,
+    row.hashtags ? JSON.stringify(row.hashtags) : null,
+    row.error ? JSON.stringify(row.error) : null,
+    row.completedAt ?? null,
+  ] as const;
+}
+
+/**
+ * `generation_batch_rows` 行からバッチの行への変換
+ */
+function toGenerationBatchRow(record: GenerationBatchRowRecord): GenerationBatchRow {
+  return {
+    index: record.row_index,
+    theme: record.theme ?? undefined,
+    status: record.status,
+    draftId: record.draft_id ?? undefined,
+    caption: record.caption ?? undefined,
+    hashtags: record.hashtags ? (JSON.parse(record.hashtags) as string[]) : undefined,
+    error: record.error ? (JSON.parse(record.error) as GenerationBatchRow["error"]) : undefined,
+    completedAt: record.completed_at ?? undefined,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 生成プリセットリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（GenerationPresetRepository）を、
+ * Cloudflare D1の `generation_presets` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - 永続性：ドラフトの保存先設定に関わらず、プリセットはD1に保存する
+ */
+
+import { GenerationPreset, type GenerationPresetKind } from "../domain/generationPreset";
+import type { GenerationPresetRepository } from "../usecases/manageGenerationPresetsUseCase";
+
+/**
+ * `generation_presets` テーブルの行型
+ *
+ * migrations/0013 で定義されたカラムに対応する。
+ */
+type GenerationPresetRow = {
+  id: string;
+  brand_id: string | null;
+  kind: GenerationPresetKind;
+  label: string;
+  value: string;
+  created_at: string;
+};
+
+/**
+ * Cloudflare D1 生成プリセットリポジトリ
+ *
+ * 技術的詳細：
+ * - ブランド条件：brand_id の NULL を「ブランドなし」として `IS` で比較する
+ * - インデックス：idx_generation_presets_brand_kind で一覧の絞り込みと並び替えを行う
+ */
+export class D1GenerationPresetRepository implements GenerationPresetRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async list(brandId: string | null, kind?: GenerationPresetKind): Promise<GenerationPreset[]> {
+    const kindClause = kind ? " AND kind = ?2" : "";
+    const bindings: (string | null)[] = kind ? [brandId, kind] : [brandId];
+    const { results } = await this.db
+      .prepare(`SELECT * FROM generation_presets WHERE brand_id IS ?1${kindClause} ORDER BY kind ASC, label ASC, id ASC`)
+      .bind(...bindings)
+      .all<GenerationPresetRow>();
+    return results.map(toGenerationPreset);
+  }
+
+  async save(preset: GenerationPreset): Promise<void> {
+    const json = preset.toJSON();
+    await this.db
+      .prepare(
+        "INSERT INTO generation_presets (id, brand_id, kind, label, value, created_at) VALUES (?1, ?2, ?3, ?4, ?5, ?6)"
+      )
+      .bind(json.id, json.brandId ?? null, json.kind, json.label, json.value, json.createdAt)
+      .run();
+  }
+
+  async delete(id: string, brandId: string | null): Promise<boolean> {
+    const result = await this.db
+      .prepare("DELETE FROM generation_presets WHERE id = ?1 AND brand_id IS ?2")
+      .bind(id, brandId)
+      .run();
+    return result.meta.changes > 0;
+  }
+}
+
+/**
+ * `generation_presets` 行から生成プリセットへの変換
+ */
+function toGenerationPreset(row: GenerationPresetRow): GenerationPreset {
+  return GenerationPreset.restore({
+    id: row.id,
+    brandId: row.brand_id ?? undefined,
+    kind: row.kind,
+    label: row.label,
+    value: row.value,
+    createdAt: row.created_at,
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 冪等性キーストア
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * 冪等性キーミドルウェアで定義されたIdempotencyStoreポートを、
+ * Cloudflare D1の `idempotency_keys` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をストアインターフェイスの背後に隠蔽
+ * - 一意な行による取得：主キーへのINSERTで処理中の目印を取得し、同時に届いた重複を1件に絞る
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { IdempotencyRecord, IdempotencyStore, StoredResponse } from "../middleware/idempotency";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+
+/**
+ * `idempotency_keys` テーブルの行型
+ *
+ * migrations/0010 で定義されたカラムに対応する。
+ */
+type IdempotencyKeyRecord = {
+  key: string;
+  fingerprint: string;
+  state: IdempotencyRecord["state"];
+  response: string | null;
+  expires_at: number;
+};
+
+/** 記録のないキーと期限切れのキーだけに処理中の目印を保存する */
+const CLAIM_SQL = `
+INSERT INTO idempotency_keys (key, fingerprint, state, response, expires_at)
+VALUES (?1, ?2, 'in_flight', NULL, ?3)
+ON CONFLICT (key) DO UPDATE SET
+  fingerprint = excluded.fingerprint,
+  state = excluded.state,
+  response = NULL,
+  expires_at = excluded.expires_at
+WHERE idempotency_keys.expires_at <= ?4`;
+
+/**
+ * Cloudflare D1 冪等性キーストア
+ *
+ * 技術的詳細：
+ * - 取得：主キーが衝突したINSERTは変更0件になり、先に保存した1件だけが処理を受け持つ
+ * - 失効：期限（エポックミリ秒）を過ぎた記録は読み取り時に無視し、次の取得で上書き・掃除する
+ * - 不正な記録：読み取れないレスポンスは未使用のキーとして扱う
+ */
+export class D1IdempotencyStore implements IdempotencyStore {
+  constructor(
+    private readonly db: D1Database,
+    private readonly clock: DraftClock
+  ) {}
+
+  async get(key: string): Promise<IdempotencyRecord | null> {
+    const record = await guardInfrastructure("STORAGE_UNAVAILABLE", "read idempotency key", () =>
+      this.db
+        .prepare("SELECT * FROM idempotency_keys WHERE key = ?1 AND expires_at > ?2")
+        .bind(key, this.clock.now().getTime())
+        .first<IdempotencyKeyRecord>()
+    );
+    if (!record) {
+      return null;
+    }
+    if (record.state === "in_flight") {
+      return { state: "in_flight", fingerprint: record.fingerprint };
+    }
+    try {
+      const response = JSON.parse(record.response ?? "") as StoredResponse;
+      return { state: "completed", fingerprint: record.fingerprint, response };
+    } catch {
+      return null;
+    }
+  }
+
+  async claim(key: string, fingerprint: string, ttlSeconds: number): Promise<boolean> {
+    const now = this.clock.now().getTime();
+    const result = await guardInfrastructure("STORAGE_UNAVAILABLE", "claim idempotency key", async () => {
+      // 取得のたびに期限切れの記録を掃除する（他のキーの取得とは競合しない）
+      await this.db.prepare("DELETE FROM idempotency_keys WHERE expires_at <= ?1 AND key <> ?2").bind(now, key).run();
+      return this.db.prepare(CLAIM_SQL).bind(key, fingerprint, now + ttlSeconds * 1000, now).run();
+    });
+    return result.meta.changes > 0;
+  }
+
+  async complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void> {
+    const expiresAt = this.clock.now().getTime() + ttlSeconds * 1000;
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "save idempotent response", () =>
+      this.db
+        .prepare(
+          "UPDATE idempotency_keys SET state = 'completed', response = ?3, expires_at = ?4 WHERE key = ?1 AND fingerprint = ?2"
+        )
+        .bind(key, fingerprint, JSON.stringify(response), expiresAt)
+        .run()
+    );
+  }
+
+  async delete(key: string): Promise<void> {
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "delete idempotency key", () =>
+      this.db.prepare("DELETE FROM idempotency_keys WHERE key = ?1").bind(key).run()
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 公開ログリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（PublishLogRepository）を、
+ * Cloudflare D1の `publish_logs` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - 追記のみ：監査証跡として保持するため、更新・削除は行わない
+ */
+
+import type { PublishErrorCode, PublishLog, PublishLogRepository } from "../usecases/publishDraftUseCase";
+
+/**
+ * `publish_logs` テーブルの行型
+ *
+ * migrations/0008 で定義されたカラムに対応する。
+ */
+type PublishLogRow = {
+  id: string;
+  draft_id: string;
+  publisher: string;
+  outcome: string;
+  media_id: string | null;
+  error_code: string | null;
+  error_message: string | null;
+  draft_version: number;
+  attempted_at: string;
+};
+
+const INSERT_SQL = `
+INSERT INTO publish_logs (
+  id, draft_id, publisher, outcome, media_id, error_code, error_message, draft_version, attempted_at
+) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9)`;
+
+const ERROR_CODES: readonly string[] = ["rate_limited", "rejected", "unavailable"] satisfies PublishErrorCode[];
+
+/**
+ * Cloudflare D1 公開ログリポジトリ
+ *
+ * 技術的詳細：
+ * - 一覧：`idx_publish_logs_draft_id` を利用し、試行日時の昇順（同時刻はID順）で返す
+ */
+export class D1PublishLogRepository implements PublishLogRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async save(log: PublishLog): Promise<void> {
+    await this.db
+      .prepare(INSERT_SQL)
+      .bind(
+        log.id,
+        log.draftId,
+        log.publisher,
+        log.outcome,
+        log.mediaId ?? null,
+        log.errorCode ?? null,
+        log.errorMessage ?? null,
+        log.draftVersion,
+        log.attemptedAt
+      )
+      .run();
+  }
+
+  async listByDraft(draftId: string): Promise<PublishLog[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM publish_logs WHERE draft_id = ?1 ORDER BY attempted_at ASC, id ASC")
+      .bind(draftId)
+      .all<PublishLogRow>();
+    return results.map(toPublishLog);
+  }
+}
+
+/**
+ * `publish_logs` 行から公開ログへの変換
+ *
+ * @throws 結果や失敗の分類の値が不正な場合
+ */
+function toPublishLog(row: PublishLogRow): PublishLog {
+  if (row.outcome !== "published" && row.outcome !== "failed") {
+    throw new Error(`Stored publish log ${row.id} has invalid outcome`);
+  }
+  if (row.error_code !== null && !ERROR_CODES.includes(row.error_code)) {
+    throw new Error(`Stored publish log ${row.id} has invalid error_code`);
+  }
+
+  return {
+    id: row.id,
+    draftId: row.draft_id,
+    publisher: row.publisher,
+    outcome: row.outcome,
+    mediaId: row.media_id ?? undefined,
+    errorCode: (row.error_code as PublishErrorCode | null) ?? undefined,
+    errorMessage: row.error_message ?? undefined,
+    draftVersion: row.draft_version,
+    attemptedAt: row.attempted_at,
+  };
+}
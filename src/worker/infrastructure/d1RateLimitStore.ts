@@ -0,0 +1,61 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 レート制限カウンターストア
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * レート制限ミドルウェアで定義されたRateLimitStoreポートを、
+ * Cloudflare D1の `rate_limit_counters` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をストアインターフェイスの背後に隠蔽
+ * - アトミックな増減：1文のUPSERTで増減と増減後の件数の取得を行い、同時リクエストの数え漏らしを防ぐ
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { RateLimitStore } from "../middleware/rateLimit";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+
+/** 期限切れのカウンターは0から数え直し、件数は0未満にしない */
+const INCREMENT_SQL = `
+INSERT INTO rate_limit_counters (key, count, expires_at)
+VALUES (?1, MAX(?2, 0), ?3)
+ON CONFLICT (key) DO UPDATE SET
+  count = MAX(CASE WHEN rate_limit_counters.expires_at <= ?4 THEN 0 ELSE rate_limit_counters.count END + ?2, 0),
+  expires_at = excluded.expires_at
+RETURNING count`;
+
+/**
+ * Cloudflare D1 レート制限カウンターストア
+ *
+ * 技術的詳細：
+ * - キー戦略：ミドルウェアが組み立てたキー（`ratelimit:{clientId}:{window}`・`quota:{clientId}:{date}`）をそのまま使う
+ * - 失効：期限（エポックミリ秒）を過ぎたカウンターは読み取り時に0件として扱い、次の増減で上書き・掃除する
+ */
+export class D1RateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly db: D1Database,
+    private readonly clock: DraftClock
+  ) {}
+
+  async read(key: string): Promise<number> {
+    const count = await guardInfrastructure("STORAGE_UNAVAILABLE", "read rate limit counter", () =>
+      this.db
+        .prepare("SELECT count FROM rate_limit_counters WHERE key = ?1 AND expires_at > ?2")
+        .bind(key, this.clock.now().getTime())
+        .first<number>("count")
+    );
+    return count ?? 0;
+  }
+
+  async increment(key: string, delta: number, ttlSeconds: number): Promise<number> {
+    const now = this.clock.now().getTime();
+    const count = await guardInfrastructure("STORAGE_UNAVAILABLE", "update rate limit counter", async () => {
+      // 増減のたびに期限切れのカウンターを掃除する（他のキーの増減とは競合しない）
+      await this.db.prepare("DELETE FROM rate_limit_counters WHERE expires_at <= ?1 AND key <> ?2").bind(now, key).run();
+      return this.db
+        .prepare(INCREMENT_SQL)
+        .bind(key, delta, now + ttlSeconds * 1000, now)
+        .first<number>("count");
+    });
+    return count ?? 0;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare D1 レビューフィードバックリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（ReviewFeedbackRepository）を、
+ * Cloudflare D1の `review_feedback` テーブルを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：D1のSQL操作をドメインポートに適応
+ * - 追記のみ：監査証跡として保持するため、更新・削除は行わない
+ */
+
+import { ReviewFeedback, isReviewResolution } from "../domain/reviewFeedback";
+import type { ReviewFeedbackRepository } from "../usecases/reviewDraftUseCase";
+
+/**
+ * `review_feedback` テーブルの行型
+ *
+ * migrations/0007 で定義されたカラムに対応する。
+ */
+type ReviewFeedbackRow = {
+  id: string;
+  draft_id: string;
+  reviewer_id: string;
+  comments: string | null;
+  tags: string;
+  resolution: string;
+  draft_version: number;
+  created_at: string;
+};
+
+const INSERT_SQL = `
+INSERT INTO review_feedback (
+  id, draft_id, reviewer_id, comments, tags, resolution, draft_version, created_at
+) VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7, ?8)`;
+
+/**
+ * Cloudflare D1 レビューフィードバックリポジトリ
+ *
+ * 技術的詳細：
+ * - タグ：`tags` カラムにJSON配列で保存
+ * - 一覧：`idx_review_feedback_draft_id` を利用し、記録日時の昇順（同時刻はID順）で返す
+ */
+export class D1ReviewFeedbackRepository implements ReviewFeedbackRepository {
+  constructor(private readonly db: D1Database) {}
+
+  async save(feedback: ReviewFeedback): Promise<void> {
+    const json = feedback.toJSON();
+    await this.db
+      .prepare(INSERT_SQL)
+      .bind(
+        json.id,
+        json.draftId,
+        json.reviewerId,
+        json.comments ?? null,
+        JSON.stringify(json.tags),
+        json.resolution,
+        json.draftVersion,
+        json.createdAt
+      )
+      .run();
+  }
+
+  async listByDraft(draftId: string): Promise<ReviewFeedback[]> {
+    const { results } = await this.db
+      .prepare("SELECT * FROM review_feedback WHERE draft_id = ?1 ORDER BY created_at ASC, id ASC")
+      .bind(draftId)
+      .all<ReviewFeedbackRow>();
+    return results.map(toReviewFeedback);
+  }
+}
+
+/**
+ * `review_feedback` 行からフィードバックへの変換
+ *
+ * @throws 判断の値やタグのJSONが不正な場合
+ */
+function toReviewFeedback(row: ReviewFeedbackRow): ReviewFeedback {
+  if (!isReviewResolution(row.resolution)) {
+    throw new Error(`Stored review feedback ${row.id} has invalid resolution`);
+  }
+
+  let tags: unknown;
+  try {
+    tags = JSON.parse(row.tags);
+  } catch {
+    throw new Error(`Stored review feedback ${row.id} has tags that are not valid JSON`);
+  }
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+    throw new Error(`Stored review feedback ${row.id} has invalid tags`);
+  }
+
+  return ReviewFeedback.restore({
+    id: row.id,
+    draftId: row.draft_id,
+    reviewerId: row.reviewer_id,
+    comments: row.comments ?? undefined,
+    tags,
+    resolution: row.resolution,
+    draftVersion: row.draft_version,
+    createdAt: row.created_at,
+  });
+}
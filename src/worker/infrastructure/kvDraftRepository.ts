@@ -12,8 +12,18 @@
  * - 設定可能性：TTLなどの運用パラメータを注入可能
  */
 
-import type { DraftRepository } from "../usecases/createDraftUseCase";
-import type { PostDraft } from "../domain/postDraft";
+import type {
+  DraftListCriteria,
+  DraftListPage,
+  DraftListPosition,
+  DraftRepository,
+} from "../usecases/createDraftUseCase";
+import { PostDraft, isDraftImageStatus, isDraftStatus, type DraftProps } from "../domain/postDraft";
+import { DEFAULT_PLATFORM, isSocialPlatform } from "../domain/platformRules";
+import { isCaptionVariant, type CaptionVariant } from "../domain/captionVariant";
+import { isComplianceViolation, type ComplianceViolation } from "../domain/compliance";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+import type { DraftCache } from "./cachedDraftRepository";
 
 /**
  * デフォルトのTTL設定（7日間）
@@ -23,6 +33,9 @@ import type { PostDraft } from "../domain/postDraft";
  */
 const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 7;
 
+/** KVのTTLの最小値（秒） */
+const MIN_TTL_SECONDS = 60;
+
 /**
  * Cloudflare KV ドラフトリポジトリ
  * 
@@ -31,10 +44,13 @@ const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 7;
  * 
  * 技術的詳細：
  * - JSONシリアライゼーション：ドメインオブジェクトをKV形式に変換
- * - TTL管理：自動的なデータ削除によるストレージ効率化
+ * - TTL管理：自動的なデータ削除によるストレージ効率化（配信待ちの予約投稿は対象外）
  * - キー戦略：draft:${id}によるコンフリクト回避
+ * - 一覧検索：KVは二次インデックスを持たないため全件を読み出して絞り込む。
+ *   件数が増える運用ではD1（DRAFT_STORAGE=d1 / d1+kv）を使用する
+ * - 排他制御なし：保存は無条件の上書きのため、バージョン照合を伴う機能では使用しない
  */
-export class KvDraftRepository implements DraftRepository {
+export class KvDraftRepository implements DraftRepository, DraftCache {
   constructor(
     private readonly kv: KVNamespace, 
     private readonly ttlSeconds: number = DEFAULT_TTL_SECONDS
@@ -48,7 +64,7 @@ export class KvDraftRepository implements DraftRepository {
    * 
    * @param draft 永続化するドラフトエンティティ
    * @throws ID未設定の場合のエラー
-   * @throws KVストレージへの書き込みエラー
+   * @throws InfrastructureError KVストレージへの書き込みに失敗した場合
    */
   async save(draft: PostDraft): Promise<void> {
     // ドメインエンティティからJSONへの変換
@@ -59,9 +75,356 @@ export class KvDraftRepository implements DraftRepository {
       throw new Error("Draft must have an id before persisting");
     }
 
-    // KVストレージへの永続化（TTL付き）
-    await this.kv.put(`draft:${json.id}`, JSON.stringify(json), {
-      expirationTtl: this.ttlSeconds,
-    });
+    // KVストレージへの永続化（配信待ちの予約投稿を除きTTL付き）
+    const key = this.keyFor(json.id);
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "save draft", () =>
+      this.kv.put(key, JSON.stringify(json), this.putOptionsFor(json))
+    );
+  }
+
+  /**
+   * 画像ジョブの状態の保存
+   *
+   * 保存済みのJSONに画像ジョブの状態と更新日時だけを反映する。
+   * KVは比較交換を持たないため、読み出しから書き込みまでの間の保存は上書きされる。
+   *
+   * @param draft 画像ジョブの状態を更新したドラフトエンティティ
+   * @throws ID未設定の場合のエラー
+   * @throws 保存データがJSONとして不正な場合のエラー
+   * @throws InfrastructureError KVストレージの読み書きに失敗した場合
+   */
+  async saveImageState(draft: PostDraft): Promise<void> {
+    const json = draft.toJSON();
+    if (!json.id) {
+      throw new Error("Draft must have an id before persisting");
+    }
+
+    const key = this.keyFor(json.id);
+    const raw = await guardInfrastructure("STORAGE_UNAVAILABLE", "read draft", () => this.kv.get(key));
+    if (raw === null) {
+      return;
+    }
+
+    const stored = parseDraftProps(raw, json.id);
+    const merged: DraftProps = {
+      ...stored,
+      imageStatus: json.imageStatus,
+      imageJobId: json.imageJobId,
+      imageKey: json.imageKey,
+      imageError: json.imageError,
+      updatedAt: json.updatedAt,
+    };
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "save draft image state", () =>
+      this.kv.put(key, JSON.stringify(merged), this.putOptionsFor(merged))
+    );
+  }
+
+  /**
+   * ドラフトの取得
+   *
+   * KVストレージからJSONを読み出し、構造を検証したうえで
+   * ドメインエンティティとして復元する。
+   *
+   * @param id 取得対象のドラフトID
+   * @returns 復元されたドラフト、キーが存在しない場合はnull
+   * @throws 保存データの構造が不正な場合のエラー
+   * @throws InfrastructureError KVストレージからの読み取りに失敗した場合
+   */
+  async findById(id: string): Promise<PostDraft | null> {
+    const raw = await guardInfrastructure("STORAGE_UNAVAILABLE", "read draft", () => this.kv.get(this.keyFor(id)));
+    if (raw === null) {
+      return null;
+    }
+
+    return PostDraft.restore(parseDraftProps(raw, id));
+  }
+
+  /**
+   * 期限付きでのドラフトの保存
+   *
+   * キャッシュとして使う場合に、正本から読み出したドラフトを補充する。
+   * 配信待ちの予約投稿も含めて、指定された期限で失効させる。
+   *
+   * @param draft 正本から読み出したドラフトエンティティ
+   * @param ttlSeconds 失効までの秒数（KVの下限の60秒未満は60秒にする）
+   * @throws ID未設定の場合のエラー
+   * @throws InfrastructureError KVストレージへの書き込みに失敗した場合
+   */
+  async put(draft: PostDraft, ttlSeconds: number): Promise<void> {
+    const json = draft.toJSON();
+    if (!json.id) {
+      throw new Error("Draft must have an id before persisting");
+    }
+
+    const key = this.keyFor(json.id);
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "cache draft", () =>
+      this.kv.put(key, JSON.stringify(json), { expirationTtl: Math.max(MIN_TTL_SECONDS, ttlSeconds) })
+    );
+  }
+
+  /**
+   * ドラフトの削除
+   *
+   * キャッシュとして使う場合に、正本への書き込み前にエントリーを無効化する。
+   *
+   * @param id 削除対象のドラフトID
+   * @throws InfrastructureError KVストレージからの削除に失敗した場合
+   */
+  async delete(id: string): Promise<void> {
+    await guardInfrastructure("STORAGE_UNAVAILABLE", "delete draft", () => this.kv.delete(this.keyFor(id)));
+  }
+
+  /**
+   * ドラフトの一覧検索
+   * 
+   * `draft:` プレフィックスのキーを全件列挙して復元し、
+   * メモリ上で絞り込み・並べ替え・ページングを行う。
+   * 件数に比例して読み取りが増えるため、開発環境での確認に限って使う（一覧のルートはD1を必要とする）。
+   * 
+   * @param criteria 検索条件
+   * @returns 作成日時の降順に並んだ1ページ分のドラフト
+   * @throws InfrastructureError KVストレージからの読み取りに失敗した場合
+   */
+  async list(criteria: DraftListCriteria): Promise<DraftListPage> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await guardInfrastructure("STORAGE_UNAVAILABLE", "list drafts", () =>
+        this.kv.list({ prefix: "draft:", cursor })
+      );
+      names.push(...page.keys.map((key) => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    const drafts = await Promise.all(names.map((name) => this.findListed(name.slice("draft:".length))));
+    const matched = drafts
+      .filter((draft): draft is PostDraft => draft !== null && matchesCriteria(draft, criteria))
+      .sort((a, b) => compareNewestFirst(positionOf(a), positionOf(b)))
+      .filter((draft) => !criteria.after || compareNewestFirst(positionOf(draft), criteria.after) > 0);
+
+    const pageDrafts = matched.slice(0, criteria.limit);
+    const hasMore = matched.length > criteria.limit;
+    return {
+      drafts: pageDrafts,
+      next: hasMore ? positionOf(pageDrafts[pageDrafts.length - 1]) : undefined,
+    };
+  }
+
+  /**
+   * 一覧に含めるドラフトの取得
+   *
+   * 構造が不正な値は1件のためにページ全体を失敗させないよう、警告を記録して読み飛ばす。
+   *
+   * @param id 取得対象のドラフトID
+   * @returns 復元されたドラフト、キーが存在しない・構造が不正な場合はnull
+   * @throws InfrastructureError KVストレージからの読み取りに失敗した場合
+   */
+  private async findListed(id: string): Promise<PostDraft | null> {
+    const raw = await guardInfrastructure("STORAGE_UNAVAILABLE", "read draft", () => this.kv.get(this.keyFor(id)));
+    if (raw === null) {
+      return null;
+    }
+
+    try {
+      return PostDraft.restore(parseDraftProps(raw, id));
+    } catch (error) {
+      console.warn(`Skipping unreadable draft ${id}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存時のオプション
+   *
+   * 予約日時がTTLより先になりうるため、配信待ちの予約投稿は期限なしで保存する。
+   * 配信後・予約解除後の保存で再びTTLが付く。
+   *
+   * @param props 保存するドラフトのプロパティ
+   * @returns KVへの書き込みオプション
+   */
+  private putOptionsFor(props: DraftProps): KVNamespacePutOptions {
+    return props.scheduledAt && !props.dispatchedAt ? {} : { expirationTtl: this.ttlSeconds };
+  }
+
+  /**
+   * KVキーの生成
+   *
+   * @param id ドラフトID
+   * @returns `draft:${id}` 形式のキー
+   */
+  private keyFor(id: string): string {
+    return `draft:${id}`;
+  }
+}
+
+/**
+ * 検索条件との照合
+ * 
+ * テーマ・ブランドボイスは大文字小文字を区別しない部分一致（D1のLIKEと同じ挙動）。
+ */
+function matchesCriteria(draft: PostDraft, criteria: DraftListCriteria): boolean {
+  const contains = (value: string, keyword: string) => value.toLowerCase().includes(keyword.toLowerCase());
+
+  if (criteria.brandId !== undefined && (draft.brandId ?? null) !== criteria.brandId) return false;
+  if (criteria.status && draft.status !== criteria.status) return false;
+  if (criteria.theme && !contains(draft.theme, criteria.theme)) return false;
+  if (criteria.brandVoice && !contains(draft.brandVoice, criteria.brandVoice)) return false;
+  if (criteria.createdFrom && draft.createdAt < criteria.createdFrom) return false;
+  if (criteria.createdTo && draft.createdAt > criteria.createdTo) return false;
+  if (criteria.dueBefore && !draft.isDueForDispatch(new Date(criteria.dueBefore))) return false;
+  return true;
+}
+
+/**
+ * ドラフトのページ位置
+ */
+function positionOf(draft: PostDraft): DraftListPosition {
+  return { createdAt: draft.createdAt, id: draft.id! };
+}
+
+/**
+ * 作成日時の降順（同時刻はID降順）での比較
+ * 
+ * @returns aがbより前に並ぶ場合は負、後ろに並ぶ場合は正
+ */
+function compareNewestFirst(a: DraftListPosition, b: DraftListPosition): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  if (a.id !== b.id) return a.id < b.id ? 1 : -1;
+  return 0;
+}
+
+/**
+ * 保存済みJSONのパースと構造検証
+ *
+ * KVの値は外部データとして扱い、型アサーションに頼らず
+ * 各フィールドの型を確認してからDraftPropsを組み立てる。
+ *
+ * @param raw KVから読み出したJSON文字列
+ * @param id エラーメッセージ用のドラフトID
+ * @returns 検証済みのドラフトプロパティ
+ * @throws JSONとして不正、または必須フィールドの型が不正な場合
+ */
+function parseDraftProps(raw: string, id: string): DraftProps {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error(`Stored draft ${id} is not valid JSON`);
+  }
+
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Stored draft ${id} must be an object`);
+  }
+
+  const record = value as Record<string, unknown>;
+  const requiredStrings = ["id", "theme", "brandVoice", "createdAt"] as const;
+  for (const field of requiredStrings) {
+    if (typeof record[field] !== "string") {
+      throw new Error(`Stored draft ${id} has invalid ${field}`);
+    }
+  }
+  if (!isDraftStatus(record.status)) {
+    throw new Error(`Stored draft ${id} has invalid status`);
+  }
+
+  const optionalStrings = [
+    "brandId",
+    "product",
+    "imagePrompt",
+    "targetPersona",
+    "caption",
+    "altText",
+    "updatedAt",
+    "imageJobId",
+    "imageKey",
+    "imageError",
+    "promptTemplateId",
+    "publishedMediaId",
+    "publishedAt",
+    "publishError",
+    "scheduledAt",
+    "scheduleTimezone",
+    "dispatchedAt",
+  ] as const;
+  for (const field of optionalStrings) {
+    if (record[field] !== undefined && typeof record[field] !== "string") {
+      throw new Error(`Stored draft ${id} has invalid ${field}`);
+    }
+  }
+
+  const hashtags = record.hashtags;
+  if (hashtags !== undefined && !(Array.isArray(hashtags) && hashtags.every((tag) => typeof tag === "string"))) {
+    throw new Error(`Stored draft ${id} has invalid hashtags`);
   }
+
+  const imageStatus = record.imageStatus;
+  if (imageStatus !== undefined && !isDraftImageStatus(imageStatus)) {
+    throw new Error(`Stored draft ${id} has invalid imageStatus`);
+  }
+
+  // プラットフォーム導入前に保存されたドラフトはInstagram向けとして扱う
+  const platform = record.platform ?? DEFAULT_PLATFORM;
+  if (!isSocialPlatform(platform)) {
+    throw new Error(`Stored draft ${id} has invalid platform`);
+  }
+
+  const variants = record.variants;
+  if (variants !== undefined && !(Array.isArray(variants) && variants.every(isCaptionVariant))) {
+    throw new Error(`Stored draft ${id} has invalid variants`);
+  }
+  const selectedVariant = record.selectedVariant;
+  if (selectedVariant !== undefined && typeof selectedVariant !== "number") {
+    throw new Error(`Stored draft ${id} has invalid selectedVariant`);
+  }
+  const complianceViolations = record.complianceViolations;
+  if (
+    complianceViolations !== undefined &&
+    !(Array.isArray(complianceViolations) && complianceViolations.every(isComplianceViolation))
+  ) {
+    throw new Error(`Stored draft ${id} has invalid complianceViolations`);
+  }
+
+  const promptTemplateVersion = record.promptTemplateVersion;
+  if (promptTemplateVersion !== undefined && typeof promptTemplateVersion !== "number") {
+    throw new Error(`Stored draft ${id} has invalid promptTemplateVersion`);
+  }
+
+  // バージョン導入前に保存されたドラフトは初版として扱う
+  const version = record.version ?? 1;
+  if (typeof version !== "number") {
+    throw new Error(`Stored draft ${id} has invalid version`);
+  }
+
+  return {
+    id: record.id as string,
+    brandId: record.brandId as string | undefined,
+    theme: record.theme as string,
+    brandVoice: record.brandVoice as string,
+    product: record.product as string | undefined,
+    imagePrompt: record.imagePrompt as string | undefined,
+    targetPersona: record.targetPersona as string | undefined,
+    platform,
+    caption: record.caption as string | undefined,
+    hashtags: hashtags as string[] | undefined,
+    altText: record.altText as string | undefined,
+    status: record.status,
+    createdAt: record.createdAt as string,
+    updatedAt: record.updatedAt as string | undefined,
+    version,
+    imageStatus,
+    imageJobId: record.imageJobId as string | undefined,
+    imageKey: record.imageKey as string | undefined,
+    imageError: record.imageError as string | undefined,
+    promptTemplateId: record.promptTemplateId as string | undefined,
+    promptTemplateVersion,
+    variants: variants as CaptionVariant[] | undefined,
+    selectedVariant,
+    complianceViolations: complianceViolations as ComplianceViolation[] | undefined,
+    publishedMediaId: record.publishedMediaId as string | undefined,
+    publishedAt: record.publishedAt as string | undefined,
+    publishError: record.publishError as string | undefined,
+    scheduledAt: record.scheduledAt as string | undefined,
+    scheduleTimezone: record.scheduleTimezone as string | undefined,
+    dispatchedAt: record.dispatchedAt as string | undefined,
+  };
 }
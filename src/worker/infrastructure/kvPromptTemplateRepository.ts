@@ -0,0 +1,176 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare KV プロンプトテンプレートリポジトリ
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたポート（PromptTemplateRepository）を、
+ * Cloudflare KVストレージを使って具体的に実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：KV固有の操作をリポジトリインターフェイスの背後に隠蔽
+ * - 永続性：ドラフトと異なりTTLを持たない
+ */
+
+import type { PromptTemplateRepository } from "../usecases/managePromptTemplatesUseCase";
+import {
+  PromptTemplate,
+  PromptTemplateVersion,
+  type PromptTemplateProps,
+  type PromptTemplateVersionProps,
+} from "../domain/promptTemplate";
+
+/** テンプレートのキープレフィックス */
+const TEMPLATE_PREFIX = "prompt-template:";
+
+/** バージョン本文のキープレフィックス */
+const VERSION_PREFIX = "prompt-template-version:";
+
+/**
+ * Cloudflare KV プロンプトテンプレートリポジトリ
+ *
+ * 技術的詳細：
+ * - キー戦略：テンプレートは `prompt-template:{id}`、
+ *   バージョン本文は `prompt-template-version:{id}:{version}`
+ * - 同時更新：KVは比較交換を持たないため、同じテンプレートへの同時操作は後勝ちになる。
+ *   管理操作は少人数・低頻度である前提
+ */
+export class KvPromptTemplateRepository implements PromptTemplateRepository {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async findById(id: string): Promise<PromptTemplate | null> {
+    const raw = await this.kv.get(`${TEMPLATE_PREFIX}${id}`);
+    if (raw === null) {
+      return null;
+    }
+    return PromptTemplate.restore(parseTemplateProps(raw, id));
+  }
+
+  async list(): Promise<PromptTemplate[]> {
+    const names = await this.listKeys(TEMPLATE_PREFIX);
+    const templates = await Promise.all(names.map((name) => this.findById(name.slice(TEMPLATE_PREFIX.length))));
+    return templates
+      .filter((template): template is PromptTemplate => template !== null)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  async save(template: PromptTemplate): Promise<void> {
+    await this.kv.put(`${TEMPLATE_PREFIX}${template.id}`, JSON.stringify(template.toJSON()));
+  }
+
+  async findVersion(templateId: string, version: number): Promise<PromptTemplateVersion | null> {
+    const key = this.versionKey(templateId, version);
+    const raw = await this.kv.get(key);
+    if (raw === null) {
+      return null;
+    }
+    return PromptTemplateVersion.restore(parseVersionProps(raw, key));
+  }
+
+  async listVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+    const names = await this.listKeys(`${VERSION_PREFIX}${templateId}:`);
+    const versions = await Promise.all(
+      names.map(async (name) => {
+        const raw = await this.kv.get(name);
+        return raw === null ? null : PromptTemplateVersion.restore(parseVersionProps(raw, name));
+      })
+    );
+    return versions
+      .filter((version): version is PromptTemplateVersion => version !== null)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async saveVersion(version: PromptTemplateVersion): Promise<void> {
+    await this.kv.put(this.versionKey(version.templateId, version.version), JSON.stringify(version.toJSON()));
+  }
+
+  /**
+   * プレフィックスに一致するキーの全件列挙
+   */
+  private async listKeys(prefix: string): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix, cursor });
+      names.push(...page.keys.map((key) => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return names;
+  }
+
+  private versionKey(templateId: string, version: number): string {
+    return `${VERSION_PREFIX}${templateId}:${version}`;
+  }
+}
+
+/**
+ * 保存済みJSONのパース
+ *
+ * @throws JSONとして不正、またはオブジェクトでない場合
+ */
+function parseObject(raw: string, key: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new Error(`Stored prompt template ${key} is not valid JSON`);
+  }
+  if (typeof value !== "object" || value === null) {
+    throw new Error(`Stored prompt template ${key} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * テンプレートのパースと構造検証
+ */
+function parseTemplateProps(raw: string, id: string): PromptTemplateProps {
+  const record = parseObject(raw, id);
+  for (const field of ["id", "createdAt", "updatedAt"] as const) {
+    if (typeof record[field] !== "string") {
+      throw new Error(`Stored prompt template ${id} has invalid ${field}`);
+    }
+  }
+  for (const field of ["latestVersion", "activeVersion"] as const) {
+    if (typeof record[field] !== "number") {
+      throw new Error(`Stored prompt template ${id} has invalid ${field}`);
+    }
+  }
+  const history = record.activationHistory;
+  if (!Array.isArray(history) || !history.every((version) => typeof version === "number")) {
+    throw new Error(`Stored prompt template ${id} has invalid activationHistory`);
+  }
+
+  return {
+    id: record.id as string,
+    latestVersion: record.latestVersion as number,
+    activeVersion: record.activeVersion as number,
+    activationHistory: history as number[],
+    createdAt: record.createdAt as string,
+    updatedAt: record.updatedAt as string,
+  };
+}
+
+/**
+ * バージョン本文のパースと構造検証
+ */
+function parseVersionProps(raw: string, key: string): PromptTemplateVersionProps {
+  const record = parseObject(raw, key);
+  for (const field of ["templateId", "body", "createdAt"] as const) {
+    if (typeof record[field] !== "string") {
+      throw new Error(`Stored prompt template ${key} has invalid ${field}`);
+    }
+  }
+  if (typeof record.version !== "number") {
+    throw new Error(`Stored prompt template ${key} has invalid version`);
+  }
+  if (record.description !== undefined && typeof record.description !== "string") {
+    throw new Error(`Stored prompt template ${key} has invalid description`);
+  }
+
+  return {
+    templateId: record.templateId as string,
+    version: record.version,
+    body: record.body as string,
+    description: record.description as string | undefined,
+    createdAt: record.createdAt as string,
+  };
+}
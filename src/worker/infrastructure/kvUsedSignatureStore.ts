@@ -0,0 +1,35 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare KV 使用済み署名ストア
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * 署名検証ミドルウェアで定義されたUsedSignatureStoreポートを、Cloudflare KVで実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：KV固有の操作をストアインターフェイスの背後に隠蔽
+ * - 自動失効：記録はTTL付きで保存し、期限切れの記録を掃除する処理を持たない
+ */
+
+import type { UsedSignatureStore } from "../middleware/requestSignature";
+
+/** 使用済み署名のキープレフィックス */
+const SIGNATURE_PREFIX = "signature:";
+
+/**
+ * Cloudflare KV 使用済み署名ストア
+ *
+ * 技術的詳細：
+ * - キー戦略：`signature:{signature}`（署名は小文字の16進文字列）
+ * - 値：記録した時刻（ISO 8601）。存在の有無だけを判定に使う
+ */
+export class KvUsedSignatureStore implements UsedSignatureStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async remember(signature: string, ttlSeconds: number): Promise<boolean> {
+    const key = `${SIGNATURE_PREFIX}${signature}`;
+    if ((await this.kv.get(key)) !== null) {
+      return false;
+    }
+    await this.kv.put(key, new Date().toISOString(), { expirationTtl: ttlSeconds });
+    return true;
+  }
+}
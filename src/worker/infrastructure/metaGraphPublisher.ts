@@ -0,0 +1,180 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Meta Graph API パブリッシャー
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * Publisherポートの本番実装として、Instagram Graph APIのコンテンツ公開フローで投稿する。
+ *
+ * 公開フロー：
+ * 1. POST /{ig-user-id}/media：画像URLと本文からメディアコンテナを作成
+ * 2. POST /{ig-user-id}/media_publish：コンテナを公開し、メディアIDを受け取る
+ *
+ * 設計原則：
+ * - アダプターパターン：Graph APIのHTTP応答をPublishFailedErrorの分類に適応
+ * - テスタビリティ：APIのベースURLとfetchを差し替え、ローカルの代替サーバーで検証可能
+ */
+
+import type { SocialPlatform } from "../domain/platformRules";
+import {
+  PublishFailedError,
+  type PublishablePost,
+  type Publisher,
+  type PublishResult,
+} from "../usecases/publishDraftUseCase";
+
+/**
+ * 既定のGraph APIベースURL
+ */
+const DEFAULT_API_BASE_URL = "https://graph.facebook.com/v21.0";
+
+/**
+ * レート制限を示すGraph APIのエラーコード
+ *
+ * 4: アプリ単位、17: ユーザー単位、32: ページ単位、613: 呼び出し頻度、80002: Instagramアカウント単位
+ */
+const RATE_LIMIT_ERROR_CODES = new Set([4, 17, 32, 613, 80002]);
+
+/**
+ * Meta Graph API パブリッシャーの設定
+ */
+export type MetaGraphPublisherConfig = {
+  /** Instagramアカウントに投稿権限を持つアクセストークン */
+  accessToken: string;
+  /** 投稿先のInstagramビジネスアカウントID */
+  instagramAccountId: string;
+  /** 画像ストレージの公開URL（Graph APIが画像を取得するため、R2バケットの公開ドメインを指定する） */
+  imageBaseUrl: string;
+  /** Graph APIのベースURL（未指定時は DEFAULT_API_BASE_URL） */
+  apiBaseUrl?: string;
+  /** HTTPクライアント（未指定時はグローバルのfetch） */
+  fetch?: typeof fetch;
+};
+
+/**
+ * Graph APIのエラー応答
+ */
+type GraphError = {
+  message?: string;
+  code?: number;
+};
+
+/**
+ * Meta Graph API パブリッシャー
+ *
+ * Instagramの画像投稿のみに対応する。
+ * 画像コンテナは作成時に処理が完了する前提とし、動画・カルーセルの処理待ちは行わない。
+ */
+export class MetaGraphPublisher implements Publisher {
+  readonly name = "meta-graph";
+
+  private readonly apiBaseUrl: string;
+  private readonly fetcher: typeof fetch;
+
+  constructor(private readonly config: MetaGraphPublisherConfig) {
+    this.apiBaseUrl = (config.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    this.fetcher = config.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  supports(platform: SocialPlatform): boolean {
+    return platform === "instagram";
+  }
+
+  /**
+   * 画像投稿の公開
+   *
+   * @param post 公開内容
+   * @returns 公開されたメディアのID
+   * @throws PublishFailedError Graph APIがエラーを返した場合、または通信に失敗した場合
+   */
+  async publish(post: PublishablePost): Promise<PublishResult> {
+    const container = await this.call("media", {
+      image_url: this.imageUrl(post.imageKey),
+      caption: post.caption,
+      ...(post.altText ? { alt_text: post.altText } : {}),
+    });
+    const media = await this.call("media_publish", { creation_id: container.id });
+
+    return { mediaId: media.id };
+  }
+
+  /**
+   * 画像の公開URL
+   *
+   * キーの各セグメントをURLエンコードして画像ストレージの公開URLに連結する。
+   */
+  private imageUrl(key: string): string {
+    const path = key.split("/").map(encodeURIComponent).join("/");
+    return `${this.config.imageBaseUrl.replace(/\/+$/, "")}/${path}`;
+  }
+
+  /**
+   * Graph APIの呼び出し
+   *
+   * @param edge Instagramアカウント配下のエッジ名
+   * @param params フォームパラメータ
+   * @returns 作成されたオブジェクトのID
+   * @throws PublishFailedError エラー応答、IDを含まない応答、または通信エラーの場合
+   */
+  private async call(edge: string, params: Record<string, string>): Promise<{ id: string }> {
+    let response: Response;
+    try {
+      response = await this.fetcher(`${this.apiBaseUrl}/${this.config.instagramAccountId}/${edge}`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.accessToken}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams(params).toString(),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      throw new PublishFailedError("unavailable", `Graph API ${edge} request failed: ${message}`);
+    }
+
+    const body = (await response.json().catch(() => null)) as { id?: unknown; error?: GraphError } | null;
+    if (!response.ok || body?.error) {
+      throw toPublishFailedError(edge, response, body?.error);
+    }
+    if (typeof body?.id !== "string") {
+      throw new PublishFailedError("unavailable", `Graph API ${edge} response did not include an id`);
+    }
+
+    return { id: body.id };
+  }
+}
+
+/**
+ * Graph APIのエラー応答の分類
+ *
+ * - HTTP 429 またはレート制限のエラーコード：rate_limited
+ * - HTTP 5xx：unavailable
+ * - それ以外：rejected
+ */
+function toPublishFailedError(edge: string, response: Response, error: GraphError | undefined): PublishFailedError {
+  const message = `Graph API ${edge} failed with ${response.status}: ${error?.message ?? response.statusText}`;
+
+  if (response.status === 429 || (error?.code !== undefined && RATE_LIMIT_ERROR_CODES.has(error.code))) {
+    return new PublishFailedError("rate_limited", message, parseRetryAfter(response.headers.get("Retry-After")));
+  }
+  if (response.status >= 500) {
+    return new PublishFailedError("unavailable", message);
+  }
+  return new PublishFailedError("rejected", message);
+}
+
+/**
+ * Retry-Afterヘッダーの解釈
+ *
+ * @param header 秒数またはHTTP日付
+ * @returns 待機秒数、ヘッダーがない・解釈できない場合は未定義
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header.trim());
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
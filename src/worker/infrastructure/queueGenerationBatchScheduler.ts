@@ -0,0 +1,45 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare Queues 一括生成キュー
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたGenerationBatchQueueポートを、Cloudflare Queues（`BATCH_QUEUE`）で実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：Cloudflare Queues APIをユースケースのポートに適応
+ * - 失敗の明示：キュー未設定時に黙って捨てると行が生成待ちのまま残るため、予約投稿と同様にエラーとする
+ */
+
+import type { GenerationBatchQueue } from "../usecases/manageGenerationBatchesUseCase";
+import { guardInfrastructure } from "../usecases/infrastructureError";
+import type { WorkerQueuePayload } from "../types";
+
+/**
+ * Cloudflare Queues 一括生成キュー
+ *
+ * 技術的詳細：
+ * - 1行を1メッセージとし、sendBatch でまとめて送信する（1バッチの行数はsendBatchの上限の100件以内）
+ */
+export class QueueGenerationBatchScheduler implements GenerationBatchQueue {
+  /**
+   * @param queue Cloudflare Queuesバインディング（開発環境では未定義の場合あり）
+   */
+  constructor(private readonly queue: Queue<WorkerQueuePayload> | undefined) {}
+
+  /**
+   * 行の生成タスクの投入
+   *
+   * @param rows 生成する行
+   * @throws InfrastructureError キューが未設定の場合、またはキューへの送信に失敗した場合
+   */
+  async enqueue(rows: { batchId: string; index: number }[]): Promise<void> {
+    const queue = this.queue;
+    await guardInfrastructure("QUEUE_UNAVAILABLE", "enqueue batch rows", async () => {
+      if (!queue) {
+        throw new Error("BATCH_QUEUE is not configured");
+      }
+      await queue.sendBatch(
+        rows.map((row) => ({ body: { type: "generate_batch_row", batchId: row.batchId, index: row.index } }))
+      );
+    });
+  }
+}
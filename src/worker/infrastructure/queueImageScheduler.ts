@@ -8,19 +8,19 @@
  * 設計原則：
  * - アダプターパターン：Cloudflare Queues APIをドメインポートに適応
  * - 非同期処理：時間のかかる画像生成をバックグラウンドで実行
- * - 堅牢性：キューが利用できない環境でも動作（開発時等）
  * - スケーラビリティ：メッセージキューによる負荷分散対応
  */
 
 import type { ImageScheduler } from "../workflows/draftGenerationWorkflow";
+import { guardInfrastructure } from "../usecases/infrastructureError";
 
 /**
  * Cloudflare Queuesバインディングの型定義
  * 
  * 画像生成タスク用のキューバインディング。
- * 開発環境では未定義の場合があるためオプショナル型として定義。
+ * 開発環境など未定義の場合は、ファクトリーがスケジューラーを構築せず画像生成を行わない。
  */
-type QueueBinding = Queue<{ type: "generate_image"; draftId: string; prompt: string }> | undefined;
+type QueueBinding = Queue<{ type: "generate_image"; draftId: string; prompt: string }>;
 
 /**
  * Cloudflare Queues 画像スケジューラ
@@ -32,14 +32,13 @@ type QueueBinding = Queue<{ type: "generate_image"; draftId: string; prompt: str
  * 非同期処理戦略：
  * - メッセージキューイング：画像生成リクエストをキューに送信
  * - 負荷分散：複数のワーカーで画像生成処理を分散
- * - 障害耐性：キュー未設定時もエラーを出さずに動作
- * - ジョブ追跡：生成されたジョブIDで進捗追跡可能
+ * - ジョブ追跡：ジョブIDはドラフトIDから導出し、送信前にドラフトへ記録済み
  */
 export class QueueImageScheduler implements ImageScheduler {
   /**
    * コンストラクタ
    * 
-   * @param queue Cloudflare Queuesバインディング（開発環境では未定義の場合あり）
+   * @param queue Cloudflare Queuesバインディング
    */
   constructor(private readonly queue: QueueBinding) {}
 
@@ -49,25 +48,12 @@ export class QueueImageScheduler implements ImageScheduler {
    * 画像生成リクエストをCloudflare Queuesに送信し、
    * バックグラウンドワーカーでの非同期処理をスケジューリングする。
    * 
-   * 処理フロー：
-   * 1. キューが利用可能かチェック
-   * 2. 画像生成メッセージをキューに送信
-   * 3. ジョブIDを生成して返却
-   * 
-   * 堅牢性の考慮：
-   * - キュー未設定時もエラーを発生させない（開発環境対応）
-   * - ジョブIDは常に生成（進捗追跡のため）
-   * 
    * @param input 画像生成に必要なパラメータ
-   * @returns 生成されたジョブID
+   * @throws InfrastructureError キューへの送信に失敗した場合
    */
-  async schedule(input: { draftId: string; prompt: string }): Promise<{ imageJobId: string }> {
-    // キューが設定されている場合のみメッセージを送信
-    if (this.queue) {
-      await this.queue.send({ type: "generate_image", draftId: input.draftId, prompt: input.prompt });
-    }
-
-    // ジョブIDを生成して返却（キューの有無に関わらず）
-    return { imageJobId: `${input.draftId}-image` };
+  async schedule(input: { draftId: string; prompt: string }): Promise<void> {
+    await guardInfrastructure("QUEUE_UNAVAILABLE", "enqueue image generation", () =>
+      this.queue.send({ type: "generate_image", draftId: input.draftId, prompt: input.prompt })
+    );
   }
 }
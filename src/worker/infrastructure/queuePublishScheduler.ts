@@ -0,0 +1,37 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Cloudflare Queues 公開キュー
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ユースケース層で定義されたPublishQueueポートを、Cloudflare Queues（`PUBLISH_QUEUE`）で実装する。
+ *
+ * 設計原則：
+ * - アダプターパターン：Cloudflare Queues APIをユースケースのポートに適応
+ * - 失敗の明示：画像生成と異なり、キュー未設定時に黙って捨てると予約投稿が失われるためエラーとする
+ */
+
+import type { PublishQueue } from "../usecases/dispatchScheduledDraftsUseCase";
+import type { WorkerQueuePayload } from "../types";
+
+/**
+ * Cloudflare Queues 公開キュー
+ */
+export class QueuePublishScheduler implements PublishQueue {
+  /**
+   * @param queue Cloudflare Queuesバインディング（開発環境では未定義の場合あり）
+   */
+  constructor(private readonly queue: Queue<WorkerQueuePayload> | undefined) {}
+
+  /**
+   * 公開タスクの投入
+   *
+   * @param job 公開するドラフトと投入時のバージョン
+   * @throws キューが未設定の場合、またはキューへの送信に失敗した場合
+   */
+  async enqueue(job: { draftId: string; version: number }): Promise<void> {
+    if (!this.queue) {
+      throw new Error("PUBLISH_QUEUE is not configured");
+    }
+
+    await this.queue.send({ type: "publish_draft", draftId: job.draftId, version: job.version });
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview インフラストラクチャ層 - R2 画像ストレージ
+ * 
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ImageStoreポートをCloudflare R2（`IMAGES` バケット）で実装する。
+ * 
+ * 設計原則：
+ * - アダプターパターン：R2 APIをドメインポートに適応
+ * - メタデータ：Content-Typeと生成器名をオブジェクトに付与し、後から追跡可能にする
+ */
+
+import type { GeneratedImage, ImageStore, StoredImage } from "../usecases/generateDraftImageUseCase";
+
+/**
+ * R2 画像ストレージ
+ */
+export class R2ImageStore implements ImageStore {
+  constructor(private readonly bucket: R2Bucket) {}
+
+  /**
+   * 画像の保存
+   * 
+   * 同じキーへの再保存は上書きとなるため、ジョブの再配信に対して冪等。
+   * 
+   * @param key オブジェクトキー
+   * @param image 画像のバイナリとContent-Type
+   * @param metadata カスタムメタデータ
+   * @throws R2への書き込みエラー
+   */
+  async put(key: string, image: GeneratedImage, metadata: Record<string, string>): Promise<void> {
+    await this.bucket.put(key, image.data, {
+      httpMetadata: { contentType: image.contentType },
+      customMetadata: metadata,
+    });
+  }
+
+  /**
+   * 画像の取得
+   * 
+   * @param key オブジェクトキー
+   * @returns 画像のストリーム、存在しない場合はnull
+   * @throws R2からの読み取りエラー
+   */
+  async get(key: string): Promise<StoredImage | null> {
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+
+    return {
+      body: object.body,
+      contentType: object.httpMetadata?.contentType ?? "application/octet-stream",
+    };
+  }
+}
@@ -17,6 +17,8 @@ import type {
   ContentGenerator,
   GeneratedContent,
 } from "../workflows/draftGenerationWorkflow";
+import { PLATFORM_RULES, fitToPlatformRules } from "../domain/platformRules";
+import { normalizeHashtags } from "../domain/hashtag";
 
 /**
  * シンプルコンテンツ生成器
@@ -38,8 +40,10 @@ export class SimpleContentGenerator implements ContentGenerator {
   /**
    * コンテンツ生成の実行
    * 
-   * 入力パラメータからInstagram投稿用のコンテンツを生成する。
+   * 入力パラメータから投稿用のコンテンツを生成する。
    * ルールベースのアプローチにより、予測可能な結果を提供。
+   * 出力は投稿先プラットフォームのルール（文字数・ハッシュタグ数）に合わせて切り詰める。
+   * ハッシュタグは指定された規模ごとの配分で上限数までを選ぶ。
    * 
    * @param input コンテンツ生成に必要な入力パラメータ
    * @returns 生成されたキャプション、ハッシュタグ、代替テキスト
@@ -49,7 +53,7 @@ export class SimpleContentGenerator implements ContentGenerator {
     const hashtags = this.buildHashtags(input);
     const altText = this.buildAltText(input);
 
-    return { caption, hashtags, altText };
+    return fitToPlatformRules(input.platform, { caption, hashtags, altText }, { mix: input.hashtagMix });
   }
 
   /**
@@ -57,40 +61,54 @@ export class SimpleContentGenerator implements ContentGenerator {
    * 
    * テンプレートベースでキャプションを構築する。
    * ブランドボイスとターゲットペルソナを組み込んだ文章を生成。
+   * 切り口が指定された場合は切り口ごとの定型文を使う。
    * 
    * @param input コンテンツ生成の入力パラメータ
    * @returns 構築されたキャプション文字列
    */
   private buildCaption(input: ContentGenerationInput): string {
     const persona = input.targetPersona ? `#${input.targetPersona}` : "";
-    const product = input.product ? ` ${input.product}` : "";
-    return `${input.theme}${product}を${input.brandVoice}トーンで紹介。${persona}`.trim();
+    const subject = `${input.theme}${input.product ? ` ${input.product}` : ""}`;
+
+    switch (input.angle) {
+      case "hook-first":
+        return `まだ知らない？${subject}を${input.brandVoice}トーンで紹介。${persona}`.trim();
+      case "story":
+        return `${subject}のある毎日を、${input.brandVoice}トーンでお届け。${persona}`.trim();
+      case "list":
+        return `${subject}のおすすめポイント\n・${input.brandVoice}トーンで紹介\n${persona}`.trim();
+      default:
+        return `${subject}を${input.brandVoice}トーンで紹介。${persona}`.trim();
+    }
   }
 
   /**
    * ハッシュタグ生成
    * 
    * 入力パラメータからハッシュタグを自動抽出・生成する。
-   * 重複除去とInstagram標準タグの自動追加を行う。
+   * 正規化・重複除去（normalizeHashtags）とプラットフォーム標準タグの自動追加を行う。
    * 
    * @param input コンテンツ生成の入力パラメータ
    * @returns 重複なしのハッシュタグ配列
    */
   private buildHashtags(input: ContentGenerationInput): string[] {
-    const tags = new Set<string>();
+    const tags: string[] = [];
     
-    // テーマからハッシュタグを生成（スペース除去・小文字化）
-    tags.add(input.theme.replaceAll(/\s+/g, "").toLowerCase());
+    // テーマからハッシュタグを生成（正規化で空白・記号を除去、英字は小文字化）
+    tags.push(input.theme.toLowerCase());
     
     // 商品名からハッシュタグを生成（存在する場合）
     if (input.product) {
-      tags.add(input.product.replaceAll(/\s+/g, "").toLowerCase());
+      tags.push(input.product.toLowerCase());
     }
     
-    // プラットフォーム標準タグの追加
-    tags.add("instagram");
+    // プラットフォーム標準タグの追加（定義されている場合）
+    const standardHashtag = PLATFORM_RULES[input.platform].standardHashtag;
+    if (standardHashtag) {
+      tags.push(standardHashtag);
+    }
     
-    return Array.from(tags);
+    return normalizeHashtags(tags);
   }
 
   /**
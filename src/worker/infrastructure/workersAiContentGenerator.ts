@@ -0,0 +1,204 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Workers AI コンテンツ生成器
+ *
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ContentGeneratorポートの本番実装として、Cloudflare Workers AI（`AI` バインディング）の
+ * テキスト生成モデルにJSON形式で投稿コンテンツを生成させる。
+ *
+ * 設計原則：
+ * - アダプターパターン：Workers AI APIをドメインポートに適応
+ * - 構造化出力：JSON Schemaを指定し、応答を検証してから採用する
+ * - フォールバック：不正な出力やモデル障害時はルールベース生成器に委ねる
+ * - プラットフォーム適応：投稿先のルールをプロンプトで伝え、出力もルールに合わせて切り詰める
+ */
+
+import type {
+  ContentGenerationInput,
+  ContentGenerator,
+  GeneratedContent,
+} from "../workflows/draftGenerationWorkflow";
+import { SimpleContentGenerator } from "./simpleContentGenerator";
+import { PLATFORM_RULES, fitToPlatformRules, type SocialPlatform } from "../domain/platformRules";
+import { normalizeHashtags } from "../domain/hashtag";
+import type { CaptionAngle } from "../domain/captionVariant";
+
+/**
+ * 既定のテキスト生成モデル
+ */
+const DEFAULT_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
+/**
+ * モデルに指定する出力スキーマ
+ */
+const RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    caption: { type: "string" },
+    hashtags: { type: "array", items: { type: "string" } },
+    altText: { type: "string" },
+  },
+  required: ["caption", "hashtags", "altText"],
+} as const;
+
+/**
+ * キャプションの切り口ごとの指示
+ */
+const ANGLE_INSTRUCTIONS: Record<CaptionAngle, string> = {
+  "hook-first": "キャプションは冒頭の一文で読み手の興味を引く書き出しにしてください。",
+  story: "キャプションは利用シーンや体験を語るストーリー仕立てにしてください。",
+  list: "キャプションはおすすめのポイントを箇条書きで並べてください。",
+};
+
+/**
+ * システムプロンプトの構築
+ *
+ * 投稿先プラットフォームのルールを出力条件として伝える。
+ * 切り口が指定された場合はその書き方も指示する。
+ *
+ * @param platform 投稿先プラットフォーム
+ * @param angle キャプションの切り口
+ * @returns システムプロンプト
+ */
+function buildSystemPrompt(platform: SocialPlatform, angle?: CaptionAngle): string {
+  const rules = PLATFORM_RULES[platform];
+  return [
+    `あなたは${rules.label}投稿のコピーライターです。`,
+    "指定されたテーマとブランドボイスに沿って、日本語の投稿コンテンツを作成してください。",
+    "出力は次のキーを持つJSONオブジェクトのみとし、説明文やコードブロックを含めないでください。",
+    `- caption: 投稿本文（ハッシュタグと合わせて${rules.maxCaptionLength}文字以内${
+      rules.weightedLength ? "、全角文字は2文字として数える" : ""
+    }、ハッシュタグを含めない${rules.links === "forbidden" ? "、URLを含めない" : ""}）`,
+    `- hashtags: ハッシュタグの配列（先頭の#を付けない、最大${rules.maxHashtags}個）`,
+    `- altText: 投稿画像の内容を説明する代替テキスト（${rules.maxAltTextLength}文字以内）`,
+    ...(angle ? [ANGLE_INSTRUCTIONS[angle]] : []),
+  ].join("\n");
+}
+
+/**
+ * Workers AI コンテンツ生成器
+ *
+ * モデルの応答をJSONとして解析・検証し、GeneratedContentに変換する。
+ * 検証に失敗した場合はフォールバック生成器の結果を返すため、
+ * 呼び出し側から見て生成が失敗することはない。
+ */
+export class WorkersAiContentGenerator implements ContentGenerator {
+  constructor(
+    private readonly ai: Ai,
+    private readonly fallback: ContentGenerator = new SimpleContentGenerator(),
+    private readonly model: typeof DEFAULT_MODEL = DEFAULT_MODEL
+  ) {}
+
+  /**
+   * コンテンツ生成の実行
+   *
+   * @param input コンテンツ生成に必要な入力パラメータ
+   * @returns 生成されたキャプション、ハッシュタグ、代替テキスト
+   */
+  async generate(input: ContentGenerationInput): Promise<GeneratedContent> {
+    let response: unknown;
+    try {
+      const output = await this.ai.run(this.model, {
+        messages: [
+          { role: "system", content: buildSystemPrompt(input.platform, input.angle) },
+          { role: "user", content: withBrandGuidelines(input.prompt ?? buildUserPrompt(input), input) },
+        ],
+        response_format: { type: "json_schema", json_schema: RESPONSE_SCHEMA },
+      });
+      response = "response" in output ? output.response : undefined;
+    } catch (error) {
+      console.warn("Workers AI content generation failed, falling back", error);
+      return this.fallback.generate(input);
+    }
+
+    const content = parseGeneratedContent(response);
+    if (!content) {
+      console.warn("Workers AI returned malformed content, falling back");
+      return this.fallback.generate(input);
+    }
+
+    return fitToPlatformRules(input.platform, content, { mix: input.hashtagMix });
+  }
+}
+
+/**
+ * 既定のユーザープロンプトの構築
+ *
+ * プロンプトテンプレートが指定されていない場合に使う。
+ *
+ * @param input コンテンツ生成の入力パラメータ
+ * @returns 指定項目を列挙したプロンプト
+ */
+function buildUserPrompt(input: ContentGenerationInput): string {
+  const lines = [`テーマ: ${input.theme}`, `ブランドボイス: ${input.brandVoice}`];
+  if (input.product) lines.push(`商品: ${input.product}`);
+  if (input.targetPersona) lines.push(`ターゲットペルソナ: ${input.targetPersona}`);
+  return lines.join("\n");
+}
+
+/**
+ * ブランドの指針の追記
+ *
+ * プロンプトテンプレートを使う場合も、ブランドの禁止語と既定のハッシュタグは必ず伝える。
+ *
+ * @param prompt ユーザープロンプト
+ * @param input コンテンツ生成の入力パラメータ
+ * @returns ブランド指定時は指針を追記したプロンプト
+ */
+function withBrandGuidelines(prompt: string, input: ContentGenerationInput): string {
+  const { brand } = input;
+  if (!brand) {
+    return prompt;
+  }
+
+  const lines = [`ブランド: ${brand.name}`];
+  if (brand.defaultHashtags.length > 0) {
+    lines.push(`必ず含めるハッシュタグ: ${brand.defaultHashtags.join(", ")}`);
+  }
+  if (brand.bannedWords.length > 0) {
+    lines.push(`使用しない語句: ${brand.bannedWords.join(", ")}`);
+  }
+  return `${prompt}\n\n${lines.join("\n")}`;
+}
+
+/**
+ * モデル応答の解析・検証
+ *
+ * JSONモードのモデルは解析済みオブジェクトを返す場合と文字列を返す場合があるため両方を受け付ける。
+ * 文字列の場合はコードブロックで囲まれていても取り出す。
+ * ハッシュタグは normalizeHashtags で正規化し、重複を除去する。上限数への絞り込みは呼び出し側で行う。
+ *
+ * @param response モデルの応答
+ * @returns 検証済みのコンテンツ、不正な場合はnull
+ */
+function parseGeneratedContent(response: unknown): GeneratedContent | null {
+  let payload = response;
+  if (typeof payload === "string") {
+    const json = payload.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+    try {
+      payload = JSON.parse(json);
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof payload !== "object" || payload === null) {
+    return null;
+  }
+
+  const { caption, hashtags, altText } = payload as Record<string, unknown>;
+  if (typeof caption !== "string" || caption.trim().length === 0) {
+    return null;
+  }
+  if (typeof altText !== "string" || altText.trim().length === 0) {
+    return null;
+  }
+  if (!Array.isArray(hashtags) || !hashtags.every((tag) => typeof tag === "string")) {
+    return null;
+  }
+
+  return {
+    caption: caption.trim(),
+    hashtags: normalizeHashtags(hashtags as string[]),
+    altText: altText.trim(),
+  };
+}
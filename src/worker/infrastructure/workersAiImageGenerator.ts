@@ -0,0 +1,45 @@
+/**
+ * @fileoverview インフラストラクチャ層 - Workers AI 画像生成器
+ * 
+ * クリーンアーキテクチャにおけるインフラストラクチャ層の実装。
+ * ImageGeneratorポートの本番実装として、Cloudflare Workers AI（`AI` バインディング）の
+ * text-to-imageモデルでPNG画像を生成する。
+ * 
+ * 設計原則：
+ * - アダプターパターン：Workers AI APIをドメインポートに適応
+ * - モデルの差し替え：使用するモデルIDをコンストラクタで指定可能
+ */
+
+import type { GeneratedImage, ImageGenerator } from "../usecases/generateDraftImageUseCase";
+
+/**
+ * 既定のtext-to-imageモデル
+ */
+const DEFAULT_MODEL = "@cf/stabilityai/stable-diffusion-xl-base-1.0";
+
+/**
+ * Workers AI 画像生成器
+ * 
+ * モデルが返すPNGのストリームを読み切ってバイナリとして返却する。
+ */
+export class WorkersAiImageGenerator implements ImageGenerator {
+  readonly name = "workers-ai";
+
+  constructor(
+    private readonly ai: Ai,
+    private readonly model: typeof DEFAULT_MODEL = DEFAULT_MODEL
+  ) {}
+
+  /**
+   * 画像生成の実行
+   * 
+   * @param input 画像生成プロンプト
+   * @returns PNG画像のバイナリ
+   * @throws Workers AIの呼び出しエラー
+   */
+  async generate(input: { prompt: string }): Promise<GeneratedImage> {
+    const stream = await this.ai.run(this.model, { prompt: input.prompt });
+    const data = await new Response(stream).arrayBuffer();
+    return { data, contentType: "image/png" };
+  }
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../../app";
+import type { DraftGenerationWorkflow } from "../../workflows/draftGenerationWorkflow";
+import { GetDraftUseCase } from "../../usecases/getDraftUseCase";
+import { KvDraftRepository } from "../../infrastructure/kvDraftRepository";
+import { PlatformRuleViolationError } from "../../domain/platformRules";
+import { InvalidDraftTransitionError } from "../../domain/postDraft";
+import type { WorkerBindings } from "../../types";
+
+describe("error mapping", () => {
+  const env = {} as WorkerBindings;
+  let workflow: { run: ReturnType<typeof vi.fn> };
+  let kv: { get: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const generate = () =>
+    app.fetch(
+      new Request("http://localhost/api/v1/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ theme: "春の新作", brandVoice: "爽やか" }),
+      }),
+      env
+    );
+
+  beforeEach(() => {
+    workflow = { run: vi.fn() };
+    kv = { get: vi.fn() };
+    const getDraft = new GetDraftUseCase(new KvDraftRepository(kv as unknown as KVNamespace));
+    app = createApp(() => workflow as unknown as DraftGenerationWorkflow, { getDraft: () => getDraft });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // 正常系: ドメインの検証エラーをフィールドごとのエラー付きの422に変換することを検証する
+  it("maps validation errors to 422 with field errors", async () => {
+    workflow.run.mockRejectedValue(
+      new PlatformRuleViolationError("x", "hashtags", "hashtags must be 3 items or fewer for X")
+    );
+
+    const response = await generate();
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: {
+        message: "hashtags must be 3 items or fewer for X",
+        code: "HASHTAG_LIMIT_EXCEEDED",
+        fields: [
+          { field: "hashtags", code: "HASHTAG_LIMIT_EXCEEDED", message: "hashtags must be 3 items or fewer for X" },
+        ],
+      },
+    });
+  });
+
+  // 正常系: 状態による操作の拒否をコード付きの409に変換することを検証する
+  it("maps other domain errors to 409", async () => {
+    workflow.run.mockRejectedValue(new InvalidDraftTransitionError("published", "approved"));
+
+    const response = await generate();
+
+    expect(response.status).toBe(409);
+    expect(await response.json()).toEqual({
+      error: { message: "Cannot transition draft from published to approved", code: "DRAFT_TRANSITION_INVALID" },
+    });
+  });
+
+  // 異常系: 保存先の障害を入力の誤りと区別し、元のエラーを含めずに503で返すことを検証する
+  it("maps storage failures to 503", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    kv.get.mockRejectedValue(new Error("KV GET failed: 500 internal"));
+
+    const response = await app.fetch(new Request("http://localhost/api/v1/drafts/draft-1"), env);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({ error: { message: "Failed to read draft", code: "STORAGE_UNAVAILABLE" } });
+    expect(log).toHaveBeenCalled();
+  });
+
+  // 異常系: 分類できないエラーは汎用のメッセージの500として返し、詳細はログにのみ残すことを検証する
+  it("maps unexpected errors to 500", async () => {
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+    workflow.run.mockRejectedValue(new Error("API_SIGNING_SECRET is not configured"));
+
+    const response = await generate();
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: { message: "Internal Server Error", code: "INTERNAL_ERROR" } });
+    expect(log).toHaveBeenCalledWith("API_SIGNING_SECRET is not configured", expect.any(Error));
+  });
+});
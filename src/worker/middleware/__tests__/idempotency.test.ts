@@ -0,0 +1,149 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../../app";
+import type { DraftGenerationWorkflow } from "../../workflows/draftGenerationWorkflow";
+import { D1IdempotencyStore } from "../../infrastructure/d1IdempotencyStore";
+import { IDEMPOTENCY_TTL_SECONDS } from "../idempotency";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+import type { WorkerBindings } from "../../types";
+
+describe("idempotency middleware on POST /api/v1/generate", () => {
+  const env = {} as WorkerBindings;
+  const payload = { theme: "春の新作", brandVoice: "爽やか" };
+  let now: Date;
+  let db: D1Database;
+  let workflow: { run: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const generate = (body: unknown, key?: string) =>
+    app.fetch(
+      new Request("http://localhost/api/v1/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...(key ? { "Idempotency-Key": key } : {}) },
+        body: JSON.stringify(body),
+      }),
+      env
+    );
+
+  const storedKeys = () =>
+    db.prepare("SELECT key, state, expires_at FROM idempotency_keys").all<{
+      key: string;
+      state: string;
+      expires_at: number;
+    }>();
+
+  beforeEach(async () => {
+    now = new Date("2025-03-01T00:00:00.000Z");
+    db = await createSqliteD1();
+    let sequence = 0;
+    workflow = { run: vi.fn(async () => ({ id: `draft-${++sequence}`, status: "draft" })) };
+    app = createApp(() => workflow as unknown as DraftGenerationWorkflow, {
+      idempotency: () => new D1IdempotencyStore(db, { now: () => now }),
+    });
+  });
+
+  // 正常系: 同じキーでの再送には保存したレスポンスを返し、ドラフトを重複して作成しないことを検証する
+  it("replays the stored response for a retried request", async () => {
+    const first = await generate(payload, "key-1");
+    const retried = await generate(payload, "key-1");
+
+    expect(first.status).toBe(201);
+    expect(retried.status).toBe(201);
+    expect(retried.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await retried.json()).toEqual(await first.json());
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+
+    const { results } = await storedKeys();
+    expect(results).toEqual([
+      {
+        key: expect.stringMatching(/^[0-9a-f]{64}$/),
+        state: "completed",
+        expires_at: now.getTime() + IDEMPOTENCY_TTL_SECONDS * 1000,
+      },
+    ]);
+  });
+
+  // 異常系: 同じキーを別のリクエストボディで使った場合は409を返し、生成しないことを検証する
+  it("rejects a reused key with a different body", async () => {
+    await generate(payload, "key-1");
+    const reused = await generate({ ...payload, theme: "夏の新作" }, "key-1");
+
+    expect(reused.status).toBe(409);
+    expect(await reused.json()).toEqual({
+      error: { message: "Idempotency-Key was already used with a different request body" },
+    });
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 処理中に届いた重複は待たずに409（Retry-After付き）を受け取り、完了後の再送で同じレスポンスを受け取ることを検証する
+  it("rejects concurrent duplicates immediately and replays after completion", async () => {
+    let finish: () => void = () => {};
+    workflow.run.mockImplementationOnce(
+      () => new Promise((resolve) => (finish = () => resolve({ id: "draft-slow", status: "draft" })))
+    );
+
+    const first = generate(payload, "key-1");
+    await vi.waitFor(() => expect(workflow.run).toHaveBeenCalled());
+    const duplicate = await generate(payload, "key-1");
+    finish();
+    const completed = await first;
+    const retried = await generate(payload, "key-1");
+
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.headers.get("Retry-After")).toBe("1");
+    expect(completed.status).toBe(201);
+    expect(retried.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await retried.json()).toEqual(await completed.json());
+  });
+
+  // 正常系: 同時に届いた重複のうち、一意な行を取得した1件だけが生成することを検証する
+  it("lets only one of simultaneous duplicates claim the key", async () => {
+    let finish: () => void = () => {};
+    workflow.run.mockImplementationOnce(
+      () => new Promise((resolve) => (finish = () => resolve({ id: "draft-slow", status: "draft" })))
+    );
+
+    const pending = Promise.all([generate(payload, "key-1"), generate(payload, "key-1")]);
+    await vi.waitFor(() => expect(workflow.run).toHaveBeenCalled());
+    finish();
+    const responses = await pending;
+
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+  });
+
+  // 正常系: 期限切れの記録は未使用のキーとして扱い、改めて生成することを検証する
+  it("treats expired records as unused keys", async () => {
+    await generate(payload, "key-1");
+    now = new Date(now.getTime() + IDEMPOTENCY_TTL_SECONDS * 1000);
+
+    const retried = await generate(payload, "key-1");
+
+    expect(retried.status).toBe(201);
+    expect(retried.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(workflow.run).toHaveBeenCalledTimes(2);
+    expect((await storedKeys()).results).toHaveLength(1);
+  });
+
+  // 異常系: 失敗したレスポンスは保存せず、同じキーでの再送で生成をやり直せることを検証する
+  it("does not store failed responses", async () => {
+    workflow.run.mockRejectedValueOnce(new Error("generator unavailable"));
+
+    const failed = await generate(payload, "key-1");
+    const retried = await generate(payload, "key-1");
+
+    expect(failed.status).toBe(500);
+    expect(retried.status).toBe(201);
+    expect(retried.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(workflow.run).toHaveBeenCalledTimes(2);
+  });
+
+  // 正常系: キーを指定しないリクエストはこれまでどおり毎回生成することを検証する
+  it("passes requests without a key through", async () => {
+    await generate(payload);
+    await generate(payload);
+
+    expect(workflow.run).toHaveBeenCalledTimes(2);
+    expect((await storedKeys()).results).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../../app";
+import type { DraftGenerationWorkflow } from "../../workflows/draftGenerationWorkflow";
+import type { GetDraftUseCase } from "../../usecases/getDraftUseCase";
+import { D1RateLimitStore } from "../../infrastructure/d1RateLimitStore";
+import { KvUsedSignatureStore } from "../../infrastructure/kvUsedSignatureStore";
+import { parseRateLimitTiers, type RateLimitTier } from "../rateLimit";
+import { createMemoryKv, type MemoryKv } from "../../__tests__/support/memoryKv";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+import type { WorkerBindings } from "../../types";
+
+describe("rate limit middleware", () => {
+  const env = {} as WorkerBindings;
+  let now: Date;
+  let memory: MemoryKv;
+  let db: D1Database;
+  let workflow: { run: ReturnType<typeof vi.fn> };
+  let tiers: Record<string, RateLimitTier>;
+  let clientTiers: Record<string, string>;
+  let app: ReturnType<typeof createApp>;
+
+  /** Cloudflare Access で認証したクライアント（JWTの代わりにクライアント名を送り、検証の偽実装がそのまま返す） */
+  const request = (path: string, clientId = "client-1", init: RequestInit = {}) =>
+    app.fetch(
+      new Request(`http://localhost${path}`, {
+        ...init,
+        headers: { "Content-Type": "application/json", "Cf-Access-Jwt-Assertion": clientId, ...init.headers },
+      }),
+      env
+    );
+  /** 認証情報のないリクエスト（開発用に認証を省略した環境） */
+  const unauthenticated = (headers: Record<string, string>) =>
+    app.fetch(new Request("http://localhost/api/v1/drafts/draft-1", { headers }), env);
+  const getDraft = (clientId?: string) => request("/api/v1/drafts/draft-1", clientId);
+  const generate = (clientId?: string) =>
+    request("/api/v1/generate", clientId, {
+      method: "POST",
+      body: JSON.stringify({ theme: "春の新作", brandVoice: "爽やか" }),
+    });
+  const counter = (key: string) =>
+    db.prepare("SELECT count FROM rate_limit_counters WHERE key = ?1").bind(key).first<number>("count");
+
+  beforeEach(async () => {
+    now = new Date("2025-03-01T00:00:00.000Z");
+    memory = createMemoryKv();
+    db = await createSqliteD1();
+    workflow = { run: vi.fn().mockResolvedValue({ id: "draft-1", status: "draft" }) };
+    tiers = {
+      free: { requests: { limit: 2, windowSeconds: 60, algorithm: "fixed" }, dailyGenerations: 1 },
+      pro: { requests: { limit: 5, windowSeconds: 60, algorithm: "sliding" }, dailyGenerations: 10 },
+    };
+    clientTiers = { "access:partner-app": "pro" };
+    app = createApp(() => workflow as unknown as DraftGenerationWorkflow, {
+      signatures: () => ({
+        secret: undefined,
+        allowUnsigned: true,
+        access: { verify: async (token) => token },
+        usedSignatures: new KvUsedSignatureStore(memory.kv),
+        clock: { now: () => now },
+      }),
+      getDraft: () => ({ execute: vi.fn().mockResolvedValue({ id: "draft-1", version: 1 }) }) as unknown as GetDraftUseCase,
+      rateLimits: () => ({
+        store: new D1RateLimitStore(db, { now: () => now }),
+        tiers,
+        tierOf: (clientId) => clientTiers[clientId],
+        clock: { now: () => now },
+      }),
+    });
+  });
+
+  // 正常系: 固定ウィンドウの上限を超えたリクエストを429で拒否し、次のウィンドウで受け付けることを検証する
+  it("enforces a fixed window with RateLimit headers", async () => {
+    const first = await getDraft();
+    await getDraft();
+    now = new Date("2025-03-01T00:00:45.000Z");
+    const limited = await getDraft();
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get("RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(limited.headers.get("Retry-After")).toBe("15");
+    expect(await limited.json()).toEqual({
+      error: { message: "Rate limit of 2 requests per 60 seconds exceeded", code: "rate_limited", retryAfterSeconds: 15 },
+    });
+    expect(await counter("ratelimit:access:client-1:1740787200")).toBe(2);
+
+    now = new Date("2025-03-01T00:01:00.000Z");
+    expect((await getDraft()).status).toBe(200);
+    expect((await getDraft("client-2")).status).toBe(200);
+  });
+
+  // 正常系: ティアに応じた上限を使い、スライディングウィンドウでは直前のウィンドウの件数を按分して数えることを検証する
+  it("applies per-tier limits with a sliding window", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await getDraft("partner-app")).status).toBe(200);
+    }
+    expect((await getDraft("partner-app")).status).toBe(429);
+
+    // 次のウィンドウの半分が経過した時点では、直前の5件のうち2.5件分が残る
+    now = new Date("2025-03-01T00:01:30.000Z");
+    const responses = [];
+    for (let i = 0; i < 4; i++) {
+      responses.push(await getDraft("partner-app"));
+    }
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200, 429]);
+    expect(responses[3].headers.get("Retry-After")).toBe("6");
+  });
+
+  // 異常系: 1日の生成クォータを使い切った場合は明確なエラーで429を返し、翌日（UTC）に戻ることを検証する
+  it("enforces the daily generation quota", async () => {
+    workflow.run.mockRejectedValueOnce(new Error("generator unavailable"));
+    tiers.free.requests.limit = 100;
+
+    expect((await generate()).status).toBe(500);
+    expect((await generate()).status).toBe(201);
+    now = new Date("2025-03-01T18:00:00.000Z");
+    const exhausted = await generate();
+
+    expect(exhausted.status).toBe(429);
+    expect(exhausted.headers.get("Retry-After")).toBe(String(6 * 60 * 60));
+    expect(await exhausted.json()).toEqual({
+      error: {
+        message: "Daily generation quota of 1 has been used up; it resets at 00:00 UTC",
+        code: "quota_exceeded",
+        quota: 1,
+        used: 1,
+        resetsAt: "2025-03-02T00:00:00.000Z",
+      },
+    });
+    expect(workflow.run).toHaveBeenCalledTimes(2);
+    expect((await getDraft()).status).toBe(200);
+
+    now = new Date("2025-03-02T00:00:00.000Z");
+    expect((await generate()).status).toBe(201);
+  });
+
+  // 異常系: 自己申告の X-Client-ID ではティアを与えず、認証されていないリクエストは接続元IPごとに数えることを検証する
+  it("keys unauthenticated clients on the connecting IP without a tier", async () => {
+    const spoofed = await unauthenticated({ "X-Client-ID": "partner-app", "CF-Connecting-IP": "203.0.113.7" });
+    await unauthenticated({ "X-Client-ID": "another-app", "CF-Connecting-IP": "203.0.113.7" });
+    const limited = await unauthenticated({ "X-Client-ID": "third-app", "CF-Connecting-IP": "203.0.113.7" });
+
+    expect(spoofed.headers.get("RateLimit-Limit")).toBe("2");
+    expect(limited.status).toBe(429);
+    expect(await counter("ratelimit:ip:203.0.113.7:1740787200")).toBe(2);
+    expect((await unauthenticated({ "CF-Connecting-IP": "203.0.113.8" })).status).toBe(200);
+  });
+
+  // 異常系: クォータを生成の前に予約し、同時に届いた生成リクエストが上限を超えないことを検証する
+  it("reserves the generation quota before generating", async () => {
+    tiers.free.requests.limit = 100;
+    let finish: () => void = () => {};
+    workflow.run.mockImplementationOnce(
+      () => new Promise((resolve) => (finish = () => resolve({ id: "draft-1", status: "draft" })))
+    );
+
+    const first = generate();
+    await vi.waitFor(() => expect(workflow.run).toHaveBeenCalled());
+    const concurrent = await generate();
+    finish();
+
+    expect(concurrent.status).toBe(429);
+    expect((await first).status).toBe(201);
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+    expect(await counter("quota:access:client-1:2025-03-01")).toBe(1);
+  });
+
+  // 異常系: 同時に届いたリクエストがそれぞれ自分の分を含む件数で判定され、上限を超えて通らないことを検証する
+  it("counts concurrent requests atomically", async () => {
+    const requests = await Promise.all(Array.from({ length: 4 }, () => getDraft()));
+    const generations = await Promise.all([generate("client-2"), generate("client-2")]);
+
+    expect(requests.map((response) => response.status).sort()).toEqual([200, 200, 429, 429]);
+    expect(await counter("ratelimit:access:client-1:1740787200")).toBe(2);
+    expect(generations.map((response) => response.status).sort()).toEqual([201, 429]);
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+    expect(await counter("quota:access:client-2:2025-03-01")).toBe(1);
+  });
+
+  // 異常系: カウンターの保存先の障害では、リクエスト数の制限をせずに通し、生成は503で止めることを検証する
+  it("fails open on requests and closed on generations when the store is unavailable", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(db, "prepare").mockImplementation(() => {
+      throw new Error("D1_ERROR: database is locked");
+    });
+
+    const response = await getDraft();
+    const generation = await generate();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("RateLimit-Limit")).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    expect(generation.status).toBe(503);
+    expect(workflow.run).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  // 異常系: ティア設定の上限が不正な場合は読み込み時にエラーとすることを検証する
+  it("rejects invalid tier configuration", () => {
+    const overridden = parseRateLimitTiers(
+      JSON.stringify({ pro: { requests: { limit: 300, windowSeconds: 60, algorithm: "fixed" }, dailyGenerations: 200 } })
+    );
+
+    expect(overridden.pro.requests.limit).toBe(300);
+    expect(overridden.free).toBeDefined();
+    expect(() =>
+      parseRateLimitTiers(JSON.stringify({ pro: { requests: { limit: 0, windowSeconds: 60, algorithm: "fixed" } } }))
+    ).toThrow("RATE_LIMIT_TIERS has an invalid tier: pro");
+  });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createApp } from "../../app";
+import type { DraftGenerationWorkflow } from "../../workflows/draftGenerationWorkflow";
+import { KvUsedSignatureStore } from "../../infrastructure/kvUsedSignatureStore";
+import { SIGNATURE_TOLERANCE_SECONDS } from "../requestSignature";
+import { signRequest } from "@/shared/requestSigning";
+import { createMemoryKv, type MemoryKv } from "../../__tests__/support/memoryKv";
+import type { WorkerBindings } from "../../types";
+
+describe("request signature middleware", () => {
+  const env = {} as WorkerBindings;
+  const secret = "test-signing-secret";
+  const body = JSON.stringify({ theme: "春の新作", brandVoice: "爽やか" });
+  const nowSeconds = Date.parse("2025-03-01T00:00:00.000Z") / 1000;
+  let memory: MemoryKv;
+  let configuredSecret: string | undefined;
+  let allowUnsigned: boolean;
+  let access: { verify: ReturnType<typeof vi.fn> };
+  let workflow: { run: ReturnType<typeof vi.fn> };
+  let app: ReturnType<typeof createApp>;
+
+  const generate = (headers: Record<string, string>, requestBody = body) =>
+    app.fetch(
+      new Request("http://localhost/api/v1/generate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: requestBody,
+      }),
+      env
+    );
+  const sign = (timestamp = nowSeconds, requestBody = body) =>
+    signRequest(secret, { method: "POST", url: "/api/v1/generate", body: requestBody }, timestamp);
+
+  beforeEach(() => {
+    memory = createMemoryKv();
+    configuredSecret = secret;
+    allowUnsigned = false;
+    access = { verify: vi.fn(async (token: string) => (token === "valid-token" ? "editor@example.com" : null)) };
+    workflow = { run: vi.fn().mockResolvedValue({ id: "draft-1", status: "draft" }) };
+    app = createApp(() => workflow as unknown as DraftGenerationWorkflow, {
+      signatures: () => ({
+        secret: configuredSecret,
+        allowUnsigned,
+        access,
+        usedSignatures: new KvUsedSignatureStore(memory.kv),
+        clock: { now: () => new Date(nowSeconds * 1000) },
+      }),
+    });
+  });
+
+  // 正常系: 署名ヘルパーで署名したリクエストを受け付け、署名をKVに記録することを検証する
+  it("accepts a request signed with the shared helper", async () => {
+    const headers = await sign();
+    const response = await generate(headers);
+
+    expect(response.status).toBe(201);
+    expect(workflow.run).toHaveBeenCalledWith({ theme: "春の新作", brandVoice: "爽やか" });
+    expect(headers["X-Signature"]).toMatch(/^[0-9a-f]{64}$/);
+    expect(memory.ttls.get(`signature:${headers["X-Signature"]}`)).toBe(SIGNATURE_TOLERANCE_SECONDS * 2);
+  });
+
+  // 正常系: 許容範囲内の時刻のずれは受け付け、範囲を超える過去・未来の署名時刻は拒否することを検証する
+  it("tolerates clock skew up to five minutes in either direction", async () => {
+    expect((await generate(await sign(nowSeconds - SIGNATURE_TOLERANCE_SECONDS))).status).toBe(201);
+    expect((await generate(await sign(nowSeconds + SIGNATURE_TOLERANCE_SECONDS))).status).toBe(201);
+
+    const stale = await generate(await sign(nowSeconds - SIGNATURE_TOLERANCE_SECONDS - 1));
+    const future = await generate(await sign(nowSeconds + SIGNATURE_TOLERANCE_SECONDS + 1));
+
+    expect(stale.status).toBe(401);
+    expect(await stale.json()).toEqual({
+      error: { message: "X-Timestamp must be within 300 seconds of the server time", code: "signature_expired" },
+    });
+    expect(future.status).toBe(401);
+    expect(workflow.run).toHaveBeenCalledTimes(2);
+  });
+
+  // 異常系: 署名後にボディや署名時刻を書き換えたリクエストを拒否することを検証する
+  it("rejects a tampered body or timestamp", async () => {
+    const headers = await sign();
+    const tamperedBody = await generate(headers, JSON.stringify({ theme: "夏の新作", brandVoice: "爽やか" }));
+    const tamperedTimestamp = await generate({ ...headers, "X-Timestamp": String(nowSeconds + 1) });
+    const wrongSecret = await generate(
+      await signRequest("another-secret", { method: "POST", url: "/api/v1/generate", body }, nowSeconds)
+    );
+
+    expect(tamperedBody.status).toBe(401);
+    expect(await tamperedBody.json()).toEqual({
+      error: { message: "Request signature does not match", code: "signature_invalid" },
+    });
+    expect(tamperedTimestamp.status).toBe(401);
+    expect(wrongSecret.status).toBe(401);
+    expect(workflow.run).not.toHaveBeenCalled();
+    expect(memory.store.size).toBe(0);
+  });
+
+  // 異常系: 一度使われた署名の再送を拒否することを検証する
+  it("rejects a replayed signature", async () => {
+    const headers = await sign();
+
+    expect((await generate(headers)).status).toBe(201);
+    const replayed = await generate(headers);
+
+    expect(replayed.status).toBe(401);
+    expect(await replayed.json()).toEqual({
+      error: { message: "Request signature has already been used", code: "signature_replayed" },
+    });
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 認証情報のないリクエストは秘密鍵の有無に関わらず拒否し、開発用の設定がある場合だけ通すことを検証する
+  it("rejects unsigned requests unless explicitly allowed", async () => {
+    const unsigned = await generate({});
+
+    expect(unsigned.status).toBe(401);
+    expect(await unsigned.json()).toEqual({
+      error: { message: "X-Signature and X-Timestamp headers are required", code: "signature_missing" },
+    });
+
+    configuredSecret = undefined;
+    expect((await generate({})).status).toBe(401);
+
+    allowUnsigned = true;
+    expect((await generate({})).status).toBe(201);
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 秘密鍵が未設定の環境では署名付きのリクエストを検証せずに通さず、設定エラーにすることを検証する
+  it("fails closed when the signing secret is not configured", async () => {
+    configuredSecret = undefined;
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await generate(await sign());
+
+    expect(response.status).toBe(500);
+    expect(workflow.run).not.toHaveBeenCalled();
+    vi.restoreAllMocks();
+  });
+
+  // 正常系: 署名にクライアントIDを含め、署名後に書き換えたクライアントIDを拒否することを検証する
+  it("covers the client id with the signature", async () => {
+    const headers = await signRequest(
+      secret,
+      { method: "POST", url: "/api/v1/generate", clientId: "partner-app", body },
+      nowSeconds
+    );
+
+    const spoofed = await generate({ ...headers, "X-Client-ID": "another-app" });
+    const signed = await generate({ ...headers, "X-Client-ID": "partner-app" });
+
+    expect(spoofed.status).toBe(401);
+    expect(signed.status).toBe(201);
+  });
+
+  // 正常系: 自前のUIからのリクエストは Cloudflare Access のJWTで認証し、不正なJWTは拒否することを検証する
+  it("authenticates the first-party UI with a Cloudflare Access token", async () => {
+    const accepted = await generate({ "Cf-Access-Jwt-Assertion": "valid-token" });
+    const invalid = await generate({ "Cf-Access-Jwt-Assertion": "forged-token" });
+
+    expect(accepted.status).toBe(201);
+    expect(invalid.status).toBe(401);
+    expect(await invalid.json()).toEqual({
+      error: { message: "Cf-Access-Jwt-Assertion is not a valid Cloudflare Access token", code: "access_invalid" },
+    });
+    expect(access.verify).toHaveBeenCalledWith("valid-token");
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: Accessで認証したリクエストでも、別オリジンのページからの変更は拒否することを検証する
+  it("rejects cross-origin changes authenticated by Cloudflare Access", async () => {
+    const crossOrigin = await generate({ "Cf-Access-Jwt-Assertion": "valid-token", Origin: "https://evil.example" });
+    const sameOrigin = await generate({ "Cf-Access-Jwt-Assertion": "valid-token", Origin: "http://localhost" });
+
+    expect(crossOrigin.status).toBe(403);
+    expect(sameOrigin.status).toBe(201);
+    expect(workflow.run).toHaveBeenCalledTimes(1);
+  });
+});
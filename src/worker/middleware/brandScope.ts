@@ -0,0 +1,176 @@
+/**
+ * @fileoverview アプリケーション層 - ブランドスコープミドルウェア
+ *
+ * X-Brand-ID ヘッダーで指定されたブランドに属さないドラフトへのアクセスを、
+ * 存在しないドラフトと同じ404で拒否するHonoミドルウェア。
+ * 各ルートのユースケースはブランドを意識せず、ドラフトIDだけで処理できる。
+ * X-Brand-ID は自己申告のため、認証済みのクライアントに割り当てたブランドと照合し、それ以外を403で拒否する。
+ *
+ * 設計原則：
+ * - 情報の秘匿：別のブランドのドラフトは「存在しない」として扱い、IDの存在も明かさない
+ * - 依存性逆転：ドラフトの所属ブランドはDraftBrandLookupポートで参照（本番はGetDraftUseCase）
+ * - 設定の外部化：クライアントのブランドと管理者はファクトリー（wrangler vars）から受け取る
+ */
+
+import { createMiddleware } from "hono/factory";
+import type { Context } from "hono";
+import type { WorkerBindings } from "../types";
+import { BRAND_ID_HEADER } from "@/shared/contracts/brand";
+import { authenticatedClientIdOf } from "./requestSignature";
+
+/**
+ * ドラフトの所属ブランド参照ポート
+ */
+export type DraftBrandLookup = {
+  /** 存在しない場合はnullを返す */
+  execute(draftId: string): Promise<{ brandId?: string } | null>;
+};
+
+/**
+ * ブランドの利用権限の設定
+ */
+export type BrandAccessSettings = {
+  /** 認証済みクライアントのIDが利用できるブランドのID（"*" はすべてのブランド、未割り当ての場合はundefined） */
+  brandsOf(clientId: string): readonly string[] | "*" | undefined;
+  /** ブランドを管理（一覧・作成・編集・削除）できるクライアントか */
+  isAdmin(clientId: string): boolean;
+};
+
+/**
+ * リクエストが指定したブランドIDの取得
+ *
+ * @param c Honoのコンテキストオブジェクト
+ * @returns X-Brand-ID ヘッダーの値、未指定の場合はundefined
+ */
+export function requestBrandId(c: Context): string | undefined {
+  return c.req.header(BRAND_ID_HEADER)?.trim() || undefined;
+}
+
+/**
+ * ブランドスコープミドルウェアの作成
+ *
+ * パスパラメーター `id` のドラフトが、リクエストのブランド（未指定の場合はブランドなし）に
+ * 属さない場合は404を返す。ドラフトが存在しない場合は後続のルートに任せる。
+ *
+ * @param factory ドラフト参照ポート構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function draftBrandScope(factory: (env: WorkerBindings) => DraftBrandLookup) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const draft = await factory(c.env).execute(c.req.param("id") ?? "");
+    if (draft && draft.brandId !== requestBrandId(c)) {
+      return c.json({ error: { message: "Draft not found" } }, 404);
+    }
+
+    await next();
+  });
+}
+
+/**
+ * クライアントがブランドを利用できるかの判定
+ *
+ * ブランドを指定しないリクエストと、認証情報なしで通したリクエスト（ALLOW_UNSIGNED_REQUESTS）は判定しない。
+ *
+ * @param c Honoのコンテキストオブジェクト
+ * @param settings ブランドの利用権限の設定
+ * @param brandId 利用するブランドID
+ * @returns 利用できる場合はtrue
+ */
+export function canUseBrand(c: Context, settings: BrandAccessSettings, brandId: string | undefined): boolean {
+  const clientId = authenticatedClientIdOf(c);
+  if (!brandId || !clientId) {
+    return true;
+  }
+  const allowed = settings.brandsOf(clientId);
+  return allowed === "*" || (allowed?.includes(brandId) ?? false);
+}
+
+/**
+ * ブランドの利用拒否のレスポンス
+ *
+ * @param c Honoのコンテキストオブジェクト
+ * @param brandId 利用できないブランドID
+ * @returns 403レスポンス
+ */
+export function brandForbiddenResponse(c: Context, brandId: string): Response {
+  return c.json({ error: { message: `This client is not allowed to use brand ${brandId}` } }, 403);
+}
+
+/**
+ * ブランドの利用権限ミドルウェアの作成
+ *
+ * 署名検証ミドルウェアの後に置き、X-Brand-ID が認証済みのクライアントに割り当てたブランドでない場合は403を返す。
+ * ボディの brandId はルートで canUseBrand により確認する。
+ *
+ * @param factory ブランドの利用権限の設定構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function brandAccess(factory: (env: WorkerBindings) => BrandAccessSettings) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const brandId = requestBrandId(c);
+    if (brandId && !canUseBrand(c, factory(c.env), brandId)) {
+      return brandForbiddenResponse(c, brandId);
+    }
+
+    await next();
+  });
+}
+
+/**
+ * ブランド管理者に限るミドルウェアの作成
+ *
+ * requireAuthenticatedClient の後に置き、管理者として設定していないクライアントを403で拒否する。
+ *
+ * @param factory ブランドの利用権限の設定構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function requireBrandAdmin(factory: (env: WorkerBindings) => BrandAccessSettings) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const clientId = authenticatedClientIdOf(c);
+    if (!clientId || !factory(c.env).isAdmin(clientId)) {
+      return c.json({ error: { message: "Brand administration is limited to admin clients" } }, 403);
+    }
+
+    await next();
+  });
+}
+
+/**
+ * クライアントのブランド割り当て（wrangler vars の CLIENT_BRANDS）の解釈
+ *
+ * @param raw 認証済みクライアントのIDからブランドIDの配列（すべてのブランドは "*"）へのJSON（例: {"partner-app":["acme"],"access:editor@example.com":"*"}）
+ * @returns クライアントIDから利用できるブランドへの対応
+ * @throws エラー JSONとして不正、またはブランドの指定が不正な場合
+ */
+export function parseClientBrands(raw: string | undefined): Record<string, readonly string[] | "*"> {
+  if (!raw) {
+    return {};
+  }
+
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  for (const [clientId, brands] of Object.entries(parsed)) {
+    if (brands !== "*" && !(Array.isArray(brands) && brands.every((brandId) => typeof brandId === "string"))) {
+      throw new Error(`CLIENT_BRANDS has invalid brands for ${clientId}`);
+    }
+  }
+  return parsed as Record<string, readonly string[] | "*">;
+}
+
+/**
+ * ブランド管理者（wrangler vars の BRAND_ADMIN_CLIENTS）の解釈
+ *
+ * @param raw 認証済みクライアントのIDのJSON配列（例: ["access:admin@example.com"]）
+ * @returns ブランド管理者のクライアントID
+ * @throws エラー JSONとして不正、または文字列の配列でない場合
+ */
+export function parseBrandAdminClients(raw: string | undefined): readonly string[] {
+  if (!raw) {
+    return [];
+  }
+
+  const parsed = JSON.parse(raw) as unknown;
+  if (!Array.isArray(parsed) || !parsed.every((clientId) => typeof clientId === "string")) {
+    throw new Error("BRAND_ADMIN_CLIENTS must be a JSON array of client IDs");
+  }
+  return parsed;
+}
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview アプリケーション層 - エラーマッピング
+ *
+ * ルートが処理しなかったエラーを、エラーの種類に応じたステータスコードとエラーコード付きの
+ * レスポンスに変換するHonoのエラーハンドラー。
+ *
+ * - DomainValidationError: 422（フィールドごとのエラーを含む）
+ * - DomainError: 409（現在の状態では実行できない操作）
+ * - InfrastructureError: 503（保存先・キューの障害。入力の誤りと区別し、再試行を促す）
+ * - その他: 500（内部の情報を含みうるため、メッセージはログにのみ残す）
+ *
+ * 設計原則：
+ * - 一元化：各ルートは自身に固有のエラー（404・409 など）だけを扱い、残りはここに委ねる
+ * - 安定したコード：クライアントはメッセージではなくエラーコードで分岐する
+ */
+
+import type { ErrorHandler } from "hono";
+import { HTTPException } from "hono/http-exception";
+import type { WorkerBindings } from "../types";
+import { DomainError, DomainValidationError } from "../domain/errors";
+import { InfrastructureError } from "../usecases/infrastructureError";
+import type { ApiErrorResponse } from "@/shared/contracts/error";
+
+/**
+ * エラーマッピングの作成
+ *
+ * @returns `app.onError` に登録するエラーハンドラー
+ */
+export function errorMapping(): ErrorHandler<{ Bindings: WorkerBindings }> {
+  return (error, c) => {
+    if (error instanceof DomainValidationError) {
+      const body: ApiErrorResponse = {
+        error: { message: error.message, code: error.code, fields: [...error.fields] },
+      };
+      return c.json(body, 422);
+    }
+    if (error instanceof DomainError) {
+      const body: ApiErrorResponse = { error: { message: error.message, code: error.code } };
+      return c.json(body, 409);
+    }
+    if (error instanceof InfrastructureError) {
+      // 障害の詳細はログにのみ残し、レスポンスには含めない
+      console.error(error.message, error.cause);
+      const body: ApiErrorResponse = { error: { message: error.message, code: error.code } };
+      return c.json(body, 503);
+    }
+    if (error instanceof HTTPException) {
+      return error.getResponse();
+    }
+
+    console.error(error.message, error);
+    const body: ApiErrorResponse = { error: { message: "Internal Server Error", code: "INTERNAL_ERROR" } };
+    return c.json(body, 500);
+  };
+}
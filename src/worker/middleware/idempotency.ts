@@ -0,0 +1,184 @@
+/**
+ * @fileoverview アプリケーション層 - 冪等性キーミドルウェア
+ *
+ * `Idempotency-Key` ヘッダー付きのリクエストを一度だけ処理し、
+ * 同じキーでの再送には保存したレスポンスを返すHonoミドルウェア。
+ * 不安定な回線からの再送でドラフトや画像ジョブが重複するのを防ぐ。
+ *
+ * 設計原則：
+ * - 依存性逆転：キーの保存先をIdempotencyStoreポートで抽象化（本番はD1の一意な行）
+ * - 取り違えの防止：キーとともにリクエストボディのハッシュを保存し、別の内容での再利用を409で拒否する
+ * - 失敗の再実行：2xx以外のレスポンスは保存せず、再送で処理をやり直せるようにする
+ * - 待たない重複：処理中の重複はストアを繰り返し読まず、すぐに409（Retry-After付き）を返す
+ */
+
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import type { WorkerBindings } from "../types";
+import { BRAND_ID_HEADER } from "@/shared/contracts/brand";
+
+/**
+ * 冪等性キーのヘッダー名
+ */
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+/**
+ * 保存したレスポンスを返したことを示すヘッダー名
+ */
+export const IDEMPOTENT_REPLAYED_HEADER = "Idempotent-Replayed";
+
+/** 完了したレスポンスの保存期間（秒） */
+export const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+
+/** 処理中の目印の保存期間（秒）。処理中にワーカーが停止しても、この期間後に再送を受け付ける */
+const IN_FLIGHT_TTL_SECONDS = 5 * 60;
+
+/** 冪等性キーの最大長 */
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * 保存したレスポンス
+ */
+export type StoredResponse = {
+  status: number;
+  contentType?: string;
+  body: string;
+};
+
+/**
+ * 冪等性キーの記録
+ *
+ * - in_flight: 最初のリクエストが処理中
+ * - completed: 処理が完了し、レスポンスを保存済み
+ */
+export type IdempotencyRecord =
+  | { state: "in_flight"; fingerprint: string }
+  | { state: "completed"; fingerprint: string; response: StoredResponse };
+
+/**
+ * 冪等性キーストアポート
+ *
+ * キーはメソッド・パス・ブランドID・冪等性キーから導いたハッシュで渡される。
+ * 期限切れの記録は存在しないものとして扱う。
+ */
+export type IdempotencyStore = {
+  get(key: string): Promise<IdempotencyRecord | null>;
+  /**
+   * 処理中の目印の取得
+   *
+   * 記録のないキーにだけ原子的に目印を保存し、同時に呼ばれても1件だけがtrueを受け取る。
+   */
+  claim(key: string, fingerprint: string, ttlSeconds: number): Promise<boolean>;
+  /** 取得したキーへのレスポンスの保存 */
+  complete(key: string, fingerprint: string, response: StoredResponse, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+/** 処理中の重複リクエストに再送を促すまでの秒数（Retry-After） */
+const IN_FLIGHT_RETRY_AFTER_SECONDS = 1;
+
+/**
+ * 冪等性キーミドルウェアの作成
+ *
+ * 処理の流れ：
+ * 1. ヘッダーがなければそのまま処理する（冪等性キーは任意）
+ * 2. 完了済みのキー：ボディのハッシュが一致すれば保存したレスポンスを返し、異なれば409を返す
+ * 3. 処理中のキー：待たずに409（Retry-After付き）を返し、完了後の再送で保存したレスポンスを返す
+ * 4. 未使用のキー：処理中の目印を取得してから処理し、2xxのレスポンスを保存する
+ *
+ * 同時に届いた重複は、ストアの取得（一意な行へのINSERT）で1件に絞り、取得できなかった側は処理中のキーとして扱う。
+ *
+ * @param factory 冪等性キーストア構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function idempotency(factory: (env: WorkerBindings) => IdempotencyStore) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const idempotencyKey = c.req.header(IDEMPOTENCY_KEY_HEADER);
+    if (idempotencyKey === undefined) {
+      return next();
+    }
+    if (idempotencyKey.trim().length === 0 || idempotencyKey.length > MAX_KEY_LENGTH) {
+      return c.json({ error: { message: `${IDEMPOTENCY_KEY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters` } }, 400);
+    }
+
+    const store = factory(c.env);
+    // ブランドごとにキーを分け、別のブランドのレスポンスを再送しない
+    const brandId = c.req.header(BRAND_ID_HEADER)?.trim() ?? "";
+    const key = await sha256Hex(`${c.req.method} ${c.req.path} ${brandId} ${idempotencyKey}`);
+    const fingerprint = await sha256Hex(await c.req.text());
+
+    const existing = await store.get(key);
+    if (existing) {
+      return respondToDuplicate(c, existing, fingerprint);
+    }
+
+    if (!(await store.claim(key, fingerprint, IN_FLIGHT_TTL_SECONDS))) {
+      // 同時に届いた重複に先に取得された（取得後に失敗して削除された場合も処理中として再送を促す）
+      const claimed = await store.get(key);
+      return respondToDuplicate(c, claimed ?? { state: "in_flight", fingerprint }, fingerprint);
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      await store.delete(key);
+      throw error;
+    }
+
+    if (c.res.status < 200 || c.res.status >= 300) {
+      await store.delete(key);
+      return;
+    }
+
+    const response: StoredResponse = {
+      status: c.res.status,
+      contentType: c.res.headers.get("Content-Type") ?? undefined,
+      body: await c.res.clone().text(),
+    };
+    await store.complete(key, fingerprint, response, IDEMPOTENCY_TTL_SECONDS);
+  });
+}
+
+/**
+ * 使用済みのキーへのレスポンス
+ *
+ * 完了済みであれば保存したレスポンスを返す。
+ * 処理中であれば完了を待たずに409を返し、Retry-Afterの経過後の再送を促す。
+ */
+function respondToDuplicate(
+  c: Context<{ Bindings: WorkerBindings }>,
+  record: IdempotencyRecord,
+  fingerprint: string
+): Response {
+  if (record.fingerprint !== fingerprint) {
+    return c.json(
+      { error: { message: `${IDEMPOTENCY_KEY_HEADER} was already used with a different request body` } },
+      409
+    );
+  }
+  if (record.state === "completed") {
+    return replay(record.response);
+  }
+
+  c.header("Retry-After", String(IN_FLIGHT_RETRY_AFTER_SECONDS));
+  return c.json({ error: { message: `A request with the same ${IDEMPOTENCY_KEY_HEADER} is still in progress` } }, 409);
+}
+
+/**
+ * 保存したレスポンスの再現
+ */
+function replay(stored: StoredResponse): Response {
+  const headers = new Headers({ [IDEMPOTENT_REPLAYED_HEADER]: "true" });
+  if (stored.contentType) {
+    headers.set("Content-Type", stored.contentType);
+  }
+  return new Response(stored.body, { status: stored.status, headers });
+}
+
+/**
+ * SHA-256ハッシュの16進文字列
+ */
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
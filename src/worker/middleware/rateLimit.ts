@@ -0,0 +1,453 @@
+/**
+ * @fileoverview アプリケーション層 - レート制限・生成クォータミドルウェア
+ *
+ * クライアントごとのリクエスト数を数え、上限を超えたリクエストを429で拒否するHonoミドルウェア。
+ * 生成はLLMの利用料に直結するため、リクエスト全体の制限とは別に1日あたりの生成回数も制限する。
+ *
+ * 設計原則：
+ * - 依存性逆転：カウンターの保存先をRateLimitStoreポートで抽象化（本番はD1）
+ * - アトミックな計数：先に件数を増やしてから判定し、上限を超えた分は取り消す（同時リクエストが上限を超えない）
+ * - 設定の外部化：ティアごとの上限とクライアントのティアはファクトリー（wrangler vars）から受け取る
+ * - 自己申告を信用しない：認証済みのクライアントはそのID、それ以外は接続元IPごとに数え、ティアは認証済みのクライアントにだけ与える
+ * - 標準ヘッダー：RateLimit-Limit・RateLimit-Remaining・RateLimit-Reset・RateLimit-Policy と Retry-After を返す
+ */
+
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import type { DraftClock } from "../domain/postDraft";
+import type { WorkerBindings } from "../types";
+import { InfrastructureError } from "../usecases/infrastructureError";
+import { authenticatedClientIdOf } from "./requestSignature";
+
+/** カウンターの保持期間の最小値（秒） */
+const MIN_TTL_SECONDS = 60;
+
+/** 1日の秒数 */
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * レート制限の方式
+ *
+ * - fixed: 固定ウィンドウ。ウィンドウの切り替わりで件数が0に戻る
+ * - sliding: スライディングウィンドウ（近似）。直前のウィンドウの件数を経過時間に応じて按分して加える
+ */
+export type RateLimitAlgorithm = "fixed" | "sliding";
+
+/**
+ * リクエスト数の制限
+ */
+export type RateLimitPolicy = {
+  /** ウィンドウあたりの上限件数 */
+  limit: number;
+  /** ウィンドウの長さ（秒） */
+  windowSeconds: number;
+  algorithm: RateLimitAlgorithm;
+};
+
+/**
+ * ティアごとの上限
+ */
+export type RateLimitTier = {
+  requests: RateLimitPolicy;
+  /** 1日（UTC）あたりの生成回数の上限 */
+  dailyGenerations: number;
+};
+
+/**
+ * 既定のティア
+ *
+ * ティアの指定がないクライアントは free として扱う。
+ */
+export const DEFAULT_RATE_LIMIT_TIERS: Record<string, RateLimitTier> = {
+  free: { requests: { limit: 60, windowSeconds: 60, algorithm: "sliding" }, dailyGenerations: 20 },
+  pro: { requests: { limit: 600, windowSeconds: 60, algorithm: "sliding" }, dailyGenerations: 500 },
+};
+
+/** 既定のティア名 */
+export const DEFAULT_TIER = "free";
+
+/**
+ * レート制限カウンターストアポート
+ *
+ * 同時リクエストがそれぞれ自分の分を含む件数を受け取れるよう、増減はアトミックに行う。
+ */
+export type RateLimitStore = {
+  /** 存在しない・期限切れの場合は0を返す */
+  read(key: string): Promise<number>;
+  /**
+   * 件数を増減し、増減後の件数を返す
+   *
+   * 負の値で減らす（0未満にはしない）。期限切れのカウンターは0から数え直す。
+   */
+  increment(key: string, delta: number, ttlSeconds: number): Promise<number>;
+};
+
+/**
+ * レート制限の設定
+ */
+export type RateLimitSettings = {
+  store: RateLimitStore;
+  tiers: Record<string, RateLimitTier>;
+  /** 認証済みクライアントのIDに割り当てられたティア名（未割り当ての場合はundefined） */
+  tierOf(clientId: string): string | undefined;
+  clock: DraftClock;
+};
+
+/**
+ * レート制限の対象のクライアント
+ */
+type RateLimitClient = {
+  /** カウンターのキーに使うID */
+  id: string;
+  /** 署名・Cloudflare Access で認証したクライアントか */
+  authenticated: boolean;
+};
+
+/**
+ * 生成クォータの予約結果
+ *
+ * 予約できた場合は、生成に失敗したときに予約を取り消す release と、
+ * リクエストの後で失敗した生成の分を releaseGenerations で戻すためのカウンターのキーを返す。
+ */
+export type GenerationQuotaReservation =
+  | { ok: true; key: string; release(): Promise<void> }
+  | { ok: false; quota: number; used: number; requested: number; resetSeconds: number; now: number };
+
+/**
+ * 判定結果
+ */
+type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** 件数が戻るまでの秒数 */
+  resetSeconds: number;
+  /** 拒否した場合の再試行までの秒数 */
+  retryAfterSeconds: number;
+};
+
+/**
+ * リクエスト数の制限ミドルウェアの作成
+ *
+ * カウンターのキーは `ratelimit:{clientId}:{window}`（window はウィンドウ開始のUNIX秒）。
+ * 許可したリクエストにも残り件数のヘッダーを付ける。
+ * カウンターの保存先の障害ではAPI全体を止めないよう、制限せずに通してログに残す（生成はクォータで止まる）。
+ *
+ * @param factory レート制限の設定構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function rateLimit(factory: (env: WorkerBindings) => RateLimitSettings) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const settings = factory(c.env);
+    const client = resolveClient(c);
+    const policy = tierFor(settings, client).requests;
+    let decision: RateLimitDecision;
+    try {
+      decision = await consume(settings.store, client.id, policy, settings.clock.now().getTime());
+    } catch (error) {
+      if (!(error instanceof InfrastructureError)) {
+        throw error;
+      }
+      console.warn(`Skipping rate limit for ${client.id}: ${error.message}`, error.cause);
+      await next();
+      return;
+    }
+
+    c.header("RateLimit-Limit", String(decision.limit));
+    c.header("RateLimit-Remaining", String(decision.remaining));
+    c.header("RateLimit-Reset", String(decision.resetSeconds));
+    c.header("RateLimit-Policy", `${policy.limit};w=${policy.windowSeconds}`);
+
+    if (!decision.allowed) {
+      c.header("Retry-After", String(decision.retryAfterSeconds));
+      return c.json(
+        {
+          error: {
+            message: `Rate limit of ${policy.limit} requests per ${policy.windowSeconds} seconds exceeded`,
+            code: "rate_limited",
+            retryAfterSeconds: decision.retryAfterSeconds,
+          },
+        },
+        429
+      );
+    }
+
+    await next();
+  });
+}
+
+/**
+ * 1日あたりの生成クォータミドルウェアの作成
+ *
+ * カウンターのキーは `quota:{clientId}:{YYYY-MM-DD}`（UTCの日付）。
+ * 生成の前にクォータを1回分予約し、生成に失敗した（2xx以外を返した）場合は予約を取り消す。
+ * 生成の完了を待ってから数えないため、同じクライアントの同時リクエストが上限を超えて生成することはない。
+ * 利用料の上限を守れないため、カウンターの保存先の障害では生成せずに503を返す（errorMapping による）。
+ *
+ * @param factory レート制限の設定構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ */
+export function generationQuota(factory: (env: WorkerBindings) => RateLimitSettings) {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    const reservation = await reserveGenerations(c, factory(c.env), 1);
+    if (!reservation.ok) {
+      return quotaExceededResponse(c, reservation);
+    }
+
+    try {
+      await next();
+    } catch (error) {
+      await reservation.release();
+      throw error;
+    }
+
+    if (c.res.status < 200 || c.res.status >= 300) {
+      await reservation.release();
+    }
+  });
+}
+
+/**
+ * 生成クォータの予約
+ *
+ * 残りのクォータが要求した回数に満たない場合は予約せずに拒否する（一部だけの予約はしない）。
+ * 先に要求した回数だけ増やしてから判定し、上限を超えた場合は増やした分を取り消す。
+ *
+ * @param c リクエストのコンテキスト（クライアントの解決に使う）
+ * @param settings レート制限の設定
+ * @param count 予約する生成の回数
+ * @returns 予約結果
+ * @throws InfrastructureError カウンターの保存先が利用できない場合
+ */
+export async function reserveGenerations(
+  c: Context,
+  settings: RateLimitSettings,
+  count: number
+): Promise<GenerationQuotaReservation> {
+  const client = resolveClient(c);
+  const quota = tierFor(settings, client).dailyGenerations;
+
+  const now = settings.clock.now().getTime();
+  const day = new Date(now).toISOString().slice(0, 10);
+  const key = `quota:${client.id}:${day}`;
+  const resetSeconds = Math.max(1, Math.ceil((Date.parse(`${day}T00:00:00.000Z`) + DAY_SECONDS * 1000 - now) / 1000));
+  const ttlSeconds = DAY_SECONDS + MIN_TTL_SECONDS;
+  const reserved = await settings.store.increment(key, count, ttlSeconds);
+
+  if (reserved > quota) {
+    await settings.store.increment(key, -count, ttlSeconds);
+    return { ok: false, quota, used: reserved - count, requested: count, resetSeconds, now };
+  }
+
+  return {
+    ok: true,
+    key,
+    release: () => releaseGenerations(settings.store, key, count),
+  };
+}
+
+/**
+ * 予約した生成クォータの返却
+ *
+ * 一括生成の行のように、予約したリクエストの後（キューコンシューマー）で失敗した生成の分を戻す。
+ *
+ * @param store カウンターストア
+ * @param key 予約結果のカウンターのキー
+ * @param count 戻す生成の回数
+ * @throws InfrastructureError カウンターの保存先が利用できない場合
+ */
+export async function releaseGenerations(store: RateLimitStore, key: string, count: number): Promise<void> {
+  await store.increment(key, -count, DAY_SECONDS + MIN_TTL_SECONDS);
+}
+
+/**
+ * 生成クォータ超過のレスポンス
+ *
+ * @param c リクエストのコンテキスト
+ * @param rejected 拒否された予約結果
+ * @returns 429レスポンス（Retry-After付き）
+ */
+export function quotaExceededResponse(
+  c: Context,
+  rejected: Extract<GenerationQuotaReservation, { ok: false }>
+): Response {
+  const { quota, used, requested, resetSeconds, now } = rejected;
+  c.header("Retry-After", String(resetSeconds));
+  return c.json(
+    {
+      error: {
+        message:
+          used >= quota
+            ? `Daily generation quota of ${quota} has been used up; it resets at 00:00 UTC`
+            : `Daily generation quota of ${quota} has ${quota - used} left, fewer than the ${requested} requested`,
+        code: "quota_exceeded",
+        quota,
+        used,
+        resetsAt: new Date(now + resetSeconds * 1000).toISOString(),
+      },
+    },
+    429
+  );
+}
+
+/**
+ * レート制限の対象のクライアントの解決
+ *
+ * 署名・Cloudflare Access で認証したクライアントはそのID、それ以外は接続元IP（CF-Connecting-IP）、
+ * どちらもない場合は anonymous で数える。自己申告の X-Client-ID は署名の対象としてのみ信用する。
+ */
+function resolveClient(c: Context): RateLimitClient {
+  const authenticated = authenticatedClientIdOf(c);
+  if (authenticated) {
+    return { id: authenticated, authenticated: true };
+  }
+  const ip = c.req.header("CF-Connecting-IP")?.trim();
+  return { id: ip ? `ip:${ip}` : "anonymous", authenticated: false };
+}
+
+/**
+ * クライアントのティアの上限
+ *
+ * ティアの割り当ては認証済みのクライアントにだけ適用し、それ以外と、
+ * 割り当てられたティアが設定にない場合は既定のティアを使う。
+ */
+function tierFor(settings: RateLimitSettings, client: RateLimitClient): RateLimitTier {
+  const name = (client.authenticated ? settings.tierOf(client.id) : undefined) ?? DEFAULT_TIER;
+  return settings.tiers[name] ?? settings.tiers[DEFAULT_TIER] ?? DEFAULT_RATE_LIMIT_TIERS[DEFAULT_TIER];
+}
+
+/**
+ * リクエスト1件分の消費
+ *
+ * 先に件数を増やしてから判定し、拒否したリクエストの分は取り消す（拒否したリクエストは数えない）。
+ *
+ * @param store カウンターストア
+ * @param clientId クライアントID
+ * @param policy リクエスト数の制限
+ * @param now 現在時刻（エポックミリ秒）
+ * @returns 判定結果
+ * @throws InfrastructureError カウンターの保存先が利用できない場合
+ */
+async function consume(
+  store: RateLimitStore,
+  clientId: string,
+  policy: RateLimitPolicy,
+  now: number
+): Promise<RateLimitDecision> {
+  const windowMs = policy.windowSeconds * 1000;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const elapsed = now - windowStart;
+  const keyOf = (start: number) => `ratelimit:${clientId}:${start / 1000}`;
+
+  const ttlSeconds = Math.max(MIN_TTL_SECONDS, policy.windowSeconds * 2);
+
+  const previous = policy.algorithm === "sliding" ? await store.read(keyOf(windowStart - windowMs)) : 0;
+  // このリクエストを含む件数
+  const current = await store.increment(keyOf(windowStart), 1, ttlSeconds);
+  // 直前のウィンドウのうち、現在のスライディングウィンドウに重なる割合だけを数える
+  const carried = previous * (1 - elapsed / windowMs);
+  const used = Math.floor(carried + current);
+  const resetSeconds = Math.max(1, Math.ceil((windowMs - elapsed) / 1000));
+
+  if (used > policy.limit) {
+    await store.increment(keyOf(windowStart), -1, ttlSeconds);
+    return {
+      allowed: false,
+      limit: policy.limit,
+      remaining: 0,
+      resetSeconds,
+      retryAfterSeconds: retryAfter(policy, current - 1, previous, elapsed, resetSeconds),
+    };
+  }
+
+  return {
+    allowed: true,
+    limit: policy.limit,
+    remaining: Math.max(0, policy.limit - used),
+    resetSeconds,
+    retryAfterSeconds: 0,
+  };
+}
+
+/**
+ * 再試行までの秒数
+ *
+ * スライディングウィンドウでは、直前のウィンドウの按分が減って1件分の空きができるまでの時間を求める。
+ * 現在のウィンドウだけで上限に達している場合は、ウィンドウの切り替わりまで待つ。
+ */
+function retryAfter(
+  policy: RateLimitPolicy,
+  current: number,
+  previous: number,
+  elapsed: number,
+  resetSeconds: number
+): number {
+  if (policy.algorithm === "fixed" || current >= policy.limit || previous === 0) {
+    return resetSeconds;
+  }
+
+  const windowMs = policy.windowSeconds * 1000;
+  // previous * (1 - (elapsed + wait) / windowMs) + current < limit を満たす wait
+  const waitMs = windowMs * (1 - (policy.limit - current) / previous) - elapsed;
+  return Math.min(resetSeconds, Math.max(1, Math.ceil(waitMs / 1000)));
+}
+
+/**
+ * ティア設定（wrangler vars の RATE_LIMIT_TIERS）の解釈
+ *
+ * 指定したティアだけを既定のティアに上書きする。
+ *
+ * @param raw ティア名から上限へのJSON（例: {"pro":{"requests":{"limit":300,"windowSeconds":60,"algorithm":"fixed"},"dailyGenerations":200}}）
+ * @returns 既定のティアに上書きを適用した設定
+ * @throws エラー JSONとして不正、または上限の値が不正な場合
+ */
+export function parseRateLimitTiers(raw: string | undefined): Record<string, RateLimitTier> {
+  if (!raw) {
+    return DEFAULT_RATE_LIMIT_TIERS;
+  }
+
+  const parsed = JSON.parse(raw) as Record<string, Partial<RateLimitTier>>;
+  const tiers = { ...DEFAULT_RATE_LIMIT_TIERS };
+  for (const [name, tier] of Object.entries(parsed)) {
+    const requests = tier.requests;
+    if (
+      !requests ||
+      !isPositiveInteger(requests.limit) ||
+      !isPositiveInteger(requests.windowSeconds) ||
+      (requests.algorithm !== "fixed" && requests.algorithm !== "sliding") ||
+      !isPositiveInteger(tier.dailyGenerations)
+    ) {
+      throw new Error(`RATE_LIMIT_TIERS has an invalid tier: ${name}`);
+    }
+    tiers[name] = { requests, dailyGenerations: tier.dailyGenerations };
+  }
+  return tiers;
+}
+
+/**
+ * クライアントのティア割り当て（wrangler vars の CLIENT_TIERS）の解釈
+ *
+ * @param raw 認証済みクライアントのIDからティア名へのJSON（例: {"partner-app":"pro","access:editor@example.com":"pro"}）
+ * @returns クライアントIDからティア名への対応
+ * @throws エラー JSONとして不正、またはティア名が文字列でない場合
+ */
+export function parseClientTiers(raw: string | undefined): Record<string, string> {
+  if (!raw) {
+    return {};
+  }
+
+  const parsed = JSON.parse(raw) as Record<string, unknown>;
+  for (const [clientId, tier] of Object.entries(parsed)) {
+    if (typeof tier !== "string") {
+      throw new Error(`CLIENT_TIERS has an invalid tier for ${clientId}`);
+    }
+  }
+  return parsed as Record<string, string>;
+}
+
+/**
+ * 正の整数の判定
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
@@ -0,0 +1,222 @@
+/**
+ * @fileoverview アプリケーション層 - HMAC署名検証ミドルウェア
+ *
+ * /api/v1/* のリクエストを認証し、認証できないリクエストを401で拒否するHonoミドルウェア。
+ *
+ * 認証の方法：
+ * - サーバー間の呼び出し元：X-Signature・X-Timestamp ヘッダーによるHMAC-SHA256署名。
+ *   署名の組み立ては呼び出し元と共有する `@/shared/requestSigning` に置く
+ * - 自前のUI：秘密鍵をブラウザに置けないため、ワーカーの前段の Cloudflare Access が付ける
+ *   Cf-Access-Jwt-Assertion ヘッダーのJWTを検証する
+ *
+ * 設計原則：
+ * - 依存性逆転：使用済み署名の保存先をUsedSignatureStoreポート、JWTの検証をAccessTokenVerifierポートで抽象化
+ * - 設定の外部化：秘密鍵はファクトリー（wrangler secret の API_SIGNING_SECRET）から受け取る
+ * - 安全側の既定値：認証情報のないリクエストは、開発用の明示的な設定（ALLOW_UNSIGNED_REQUESTS）がない限り拒否する
+ * - リプレイ防止：許容時間内の署名は一度だけ受け付け、許容時間を過ぎた署名は時刻で拒否する
+ */
+
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import type { DraftClock } from "../domain/postDraft";
+import type { WorkerBindings } from "../types";
+import { CLIENT_ID_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, verifyRequestSignature } from "@/shared/requestSigning";
+
+/**
+ * Cloudflare Access が付けるJWTのヘッダー名
+ */
+export const ACCESS_JWT_HEADER = "Cf-Access-Jwt-Assertion";
+
+/**
+ * X-Client-ID なしで署名したクライアントのID
+ */
+export const DEFAULT_SIGNED_CLIENT_ID = "signed";
+
+/**
+ * 署名時刻と現在時刻の差の許容範囲（秒）
+ *
+ * 過去・未来のどちらのずれにも適用する。
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * 使用済み署名ストアポート
+ *
+ * KVは比較交換を持たないため、同じ署名がほぼ同時に届いた場合は両方を受け付けることがある。
+ */
+export type UsedSignatureStore = {
+  /**
+   * 署名の使用の記録
+   *
+   * @param signature 署名
+   * @param ttlSeconds 記録の保持期間（秒）
+   * @returns 初めて使われた署名ならtrue、記録済みならfalse
+   */
+  remember(signature: string, ttlSeconds: number): Promise<boolean>;
+};
+
+/**
+ * Cloudflare Access のJWT検証ポート
+ */
+export type AccessTokenVerifier = {
+  /**
+   * JWTの検証
+   *
+   * @param token Cf-Access-Jwt-Assertion ヘッダーの値
+   * @returns 署名・発行元・対象・有効期限が正しい場合は利用者のメールアドレス、それ以外はnull
+   */
+  verify(token: string): Promise<string | null>;
+};
+
+/**
+ * 署名検証の設定
+ */
+export type RequestSignatureSettings = {
+  /** 署名の秘密鍵（未設定の場合、署名付きのリクエストは検証できないため設定エラーにする） */
+  secret: string | undefined;
+  /** 認証情報のないリクエストを通すか（開発環境専用。認証されていないクライアントとして扱う） */
+  allowUnsigned: boolean;
+  /** 自前のUIの認証（未設定の場合、Cf-Access-Jwt-Assertion ヘッダーは使わない） */
+  access?: AccessTokenVerifier;
+  usedSignatures: UsedSignatureStore;
+  clock: DraftClock;
+};
+
+/**
+ * 認証済みクライアントのコンテキスト変数
+ *
+ * 署名したクライアントは X-Client-ID（署名の対象）、自前のUIは `access:{メールアドレス}` をIDとする。
+ * 認証されていないリクエスト（ALLOW_UNSIGNED_REQUESTS）では未設定のまま。
+ */
+export type AuthenticatedClientVariables = {
+  authenticatedClientId?: string;
+};
+
+/**
+ * 認証済みクライアントのIDの取得
+ *
+ * コンテキスト変数の型を宣言していないルート・ミドルウェアから参照するために使う。
+ *
+ * @param c Honoのコンテキストオブジェクト
+ * @returns 認証したクライアントのID、認証していない場合はundefined
+ */
+export function authenticatedClientIdOf(c: Context): string | undefined {
+  return (c as Context<{ Variables: AuthenticatedClientVariables }>).get("authenticatedClientId");
+}
+
+/** 認証エラーのコード */
+type SignatureErrorCode =
+  | "signature_missing"
+  | "signature_expired"
+  | "signature_invalid"
+  | "signature_replayed"
+  | "access_invalid";
+
+/**
+ * 署名検証ミドルウェアの作成
+ *
+ * 検証の順序：
+ * 1. Cf-Access-Jwt-Assertion ヘッダーがあれば（Accessの検証を設定している場合）JWTを検証して通す
+ * 2. 署名ヘッダーの有無（ない場合と秘密鍵が未設定の場合は、ALLOW_UNSIGNED_REQUESTS の場合だけ通す）
+ * 3. 署名時刻が許容範囲内か（時刻のずれ）
+ * 4. メソッド・パス・クライアントID・ボディに対する署名の一致（改ざん）
+ * 5. 許容時間内に同じ署名が使われていないか（リプレイ）
+ *
+ * 使用済み署名は許容範囲の2倍の期間保持する。それより古い署名は3の時点で拒否される。
+ * 認証したクライアントのIDは `authenticatedClientId` 変数で後続のミドルウェアに渡す。
+ *
+ * @param factory 署名検証の設定構築のためのファクトリー関数
+ * @returns Honoミドルウェア
+ * @throws エラー 署名付きのリクエストを受けたが秘密鍵が未設定の場合（ALLOW_UNSIGNED_REQUESTS を除く）
+ */
+export function requestSignature(factory: (env: WorkerBindings) => RequestSignatureSettings) {
+  return createMiddleware<{ Bindings: WorkerBindings; Variables: AuthenticatedClientVariables }>(async (c, next) => {
+    const settings = factory(c.env);
+    const reject = (message: string, code: SignatureErrorCode) => c.json({ error: { message, code } }, 401);
+
+    const accessToken = c.req.header(ACCESS_JWT_HEADER)?.trim();
+    if (accessToken && settings.access) {
+      const email = await settings.access.verify(accessToken);
+      if (!email) {
+        return reject(`${ACCESS_JWT_HEADER} is not a valid Cloudflare Access token`, "access_invalid");
+      }
+      if (isCrossOrigin(c)) {
+        // Accessの認証はCookieに基づくため、別オリジンのページから送られた変更を受け付けない
+        return c.json({ error: { message: "Cross-origin requests are not allowed" } }, 403);
+      }
+      c.set("authenticatedClientId", `access:${email}`);
+      await next();
+      return;
+    }
+
+    const signature = c.req.header(SIGNATURE_HEADER)?.trim();
+    const timestamp = c.req.header(TIMESTAMP_HEADER)?.trim();
+    if (!signature || !timestamp || !settings.secret) {
+      if (settings.allowUnsigned) {
+        await next();
+        return;
+      }
+      if (signature && timestamp) {
+        throw new Error("API_SIGNING_SECRET is not configured");
+      }
+      return reject(`${SIGNATURE_HEADER} and ${TIMESTAMP_HEADER} headers are required`, "signature_missing");
+    }
+
+    const signedAt = /^\d+$/.test(timestamp) ? Number(timestamp) : Number.NaN;
+    const now = Math.floor(settings.clock.now().getTime() / 1000);
+    if (!Number.isSafeInteger(signedAt) || Math.abs(now - signedAt) > SIGNATURE_TOLERANCE_SECONDS) {
+      return reject(
+        `${TIMESTAMP_HEADER} must be within ${SIGNATURE_TOLERANCE_SECONDS} seconds of the server time`,
+        "signature_expired"
+      );
+    }
+
+    const clientId = c.req.header(CLIENT_ID_HEADER)?.trim() || undefined;
+    const verified = await verifyRequestSignature(settings.secret, signature, timestamp, {
+      method: c.req.method,
+      url: c.req.url,
+      clientId,
+      body: await c.req.text(),
+    });
+    if (!verified) {
+      return reject("Request signature does not match", "signature_invalid");
+    }
+
+    if (!(await settings.usedSignatures.remember(signature.toLowerCase(), SIGNATURE_TOLERANCE_SECONDS * 2))) {
+      return reject("Request signature has already been used", "signature_replayed");
+    }
+
+    c.set("authenticatedClientId", clientId ?? DEFAULT_SIGNED_CLIENT_ID);
+    await next();
+  });
+}
+
+/**
+ * 認証済みクライアントに限るミドルウェアの作成
+ *
+ * 署名検証ミドルウェアの後に置き、認証情報なしで通したリクエスト（ALLOW_UNSIGNED_REQUESTS）も403で拒否する。
+ * 管理APIのように、開発環境でも認証を省略させないエンドポイントに使う。
+ *
+ * @returns Honoミドルウェア
+ */
+export function requireAuthenticatedClient() {
+  return createMiddleware<{ Bindings: WorkerBindings }>(async (c, next) => {
+    if (!authenticatedClientIdOf(c)) {
+      return c.json({ error: { message: "This endpoint requires a signed or Cloudflare Access request" } }, 403);
+    }
+    await next();
+  });
+}
+
+/**
+ * 別オリジンからの変更リクエストの判定
+ *
+ * 読み取り（GET・HEAD）と、Originヘッダーのないリクエストは対象外とする。
+ */
+function isCrossOrigin(c: Context): boolean {
+  if (c.req.method === "GET" || c.req.method === "HEAD") {
+    return false;
+  }
+  const origin = c.req.header("Origin");
+  return origin !== undefined && origin !== new URL(c.req.url).origin;
+}
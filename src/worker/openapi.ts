@@ -0,0 +1,568 @@
+/**
+ * @fileoverview アプリケーション層 - OpenAPIドキュメント
+ *
+ * 共有コントラクトのスキーマから、APIのOpenAPI 3.1ドキュメントを組み立てる。
+ * リクエスト・レスポンスのスキーマはルートの検証・クライアントの検証と同じ定義を使うため、
+ * ドキュメントと実装の検証規則は乖離しない。
+ *
+ * 設計原則：
+ * - 機能ごとの公開：AppServiceFactories に指定されていない機能のエンドポイントは含めない
+ * - 宣言的な定義：エンドポイントの一覧はデータとして持ち、ドキュメントへの変換は1か所で行う
+ */
+
+import type { AppServiceFactories } from "./app";
+import type { JsonSchema, ObjectSchema, Schema, Shape } from "@/shared/schema";
+import { apiErrorResponseSchema } from "@/shared/contracts/error";
+import {
+  BRAND_ID_HEADER,
+  brandListResponseSchema,
+  brandResponseSchema,
+  createBrandRequestSchema,
+  updateBrandRequestSchema,
+} from "@/shared/contracts/brand";
+import {
+  draftDetailResponseSchema,
+  draftGenerationRequestSchema,
+  draftGenerationResponseSchema,
+  draftImageStatusResponseSchema,
+  draftListQuerySchema,
+  draftListResponseSchema,
+  draftScheduleRequestSchema,
+  draftUpdateRequestSchema,
+  selectCaptionVariantRequestSchema,
+} from "@/shared/contracts/draft";
+import {
+  GENERATION_BATCH_CSV_CONTENT_TYPE,
+  generationBatchRequestSchema,
+  generationBatchResponseSchema,
+} from "@/shared/contracts/generationBatch";
+import {
+  createGenerationPresetRequestSchema,
+  generationPresetListQuerySchema,
+  generationPresetListResponseSchema,
+  generationPresetResponseSchema,
+} from "@/shared/contracts/generationPreset";
+import {
+  postWorkflowInstanceResponseSchema,
+  postWorkflowReviewRequestSchema,
+  postWorkflowStartRequestSchema,
+} from "@/shared/contracts/postWorkflow";
+import {
+  activatePromptTemplateRequestSchema,
+  createPromptTemplateVersionRequestSchema,
+  promptTemplateListResponseSchema,
+  promptTemplateResponseSchema,
+} from "@/shared/contracts/promptTemplate";
+import { publishDraftResponseSchema, publishLogListResponseSchema } from "@/shared/contracts/publish";
+import {
+  reviewDecisionRequestSchema,
+  reviewDecisionResponseSchema,
+  reviewHistoryResponseSchema,
+} from "@/shared/contracts/review";
+
+/**
+ * ヘッダーパラメータ
+ */
+type ApiHeader = {
+  name: string;
+  description: string;
+  required?: boolean;
+};
+
+/**
+ * 成功時のレスポンス
+ */
+type ApiSuccessResponse = {
+  status: number;
+  description: string;
+  /** JSONボディのスキーマ（ボディがない・JSONでない場合は省略） */
+  schema?: Schema<unknown>;
+  /** JSON以外のボディのContent-Type */
+  contentType?: string;
+};
+
+/**
+ * エンドポイントの定義
+ */
+type ApiOperation = {
+  method: "get" | "post" | "put" | "patch" | "delete";
+  /** Honoのルートのパス（例: /api/v1/drafts/:id） */
+  path: string;
+  summary: string;
+  /** エンドポイントを登録する機能（常に登録するエンドポイントは省略） */
+  feature?: keyof AppServiceFactories;
+  headers?: ApiHeader[];
+  query?: ObjectSchema<Shape>;
+  body?: Schema<unknown>;
+  /** JSON以外に受け付けるボディのContent-Type（ボディはアップロードしたファイルの内容） */
+  uploadContentTypes?: string[];
+  response: ApiSuccessResponse;
+  /** ルートが返すエラーのステータスコード */
+  errors?: number[];
+};
+
+/**
+ * OpenAPIのパラメータ
+ */
+type OpenApiParameter = {
+  name: string;
+  in: "path" | "header" | "query";
+  description?: string;
+  required: boolean;
+  schema: JsonSchema;
+};
+
+/**
+ * OpenAPIのボディの内容（Content-Typeごと）
+ */
+type OpenApiContent = Record<string, { schema?: JsonSchema }>;
+
+/**
+ * OpenAPIのオペレーション
+ */
+type OpenApiOperation = {
+  summary: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: OpenApiContent };
+  responses: Record<string, { description: string; content?: OpenApiContent }>;
+};
+
+/**
+ * OpenAPI 3.1 ドキュメント
+ */
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  info: { title: string; version: string };
+  paths: Record<string, Partial<Record<ApiOperation["method"], OpenApiOperation>>>;
+};
+
+const IF_MATCH: ApiHeader = {
+  name: "If-Match",
+  description: "確認したドラフトのバージョン（バージョン番号またはGETで返したETag）",
+};
+
+const BRAND_ID: ApiHeader = {
+  name: BRAND_ID_HEADER,
+  description: "操作の対象にするブランドのID（未指定の場合はブランドに属さないリソースが対象）",
+};
+
+/**
+ * エラーのステータスコードの説明
+ */
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "リクエストの形式の誤り",
+  404: "リソースが存在しない",
+  409: "現在の状態では実行できない操作、またはバージョンの競合",
+  422: "入力値の検証エラー（フィールドごとのエラーを含む）",
+  428: "If-Matchヘッダーが必要",
+  429: "レート制限",
+  500: "予期しないエラー",
+  502: "投稿先のエラー",
+  503: "保存先・キューの障害",
+};
+
+/**
+ * APIのエンドポイント一覧
+ */
+const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: "get",
+    path: "/api/",
+    summary: "ヘルスチェック",
+    response: { status: 200, description: "稼働中" },
+  },
+  {
+    method: "post",
+    path: "/api/v1/generate",
+    summary: "ドラフトの生成",
+    headers: [
+      BRAND_ID,
+      { name: "Idempotency-Key", description: "再送されたリクエストに24時間、最初のレスポンスを返すためのキー" },
+    ],
+    body: draftGenerationRequestSchema,
+    response: { status: 201, description: "生成したドラフト", schema: draftGenerationResponseSchema },
+    errors: [400, 422, 429],
+  },
+  {
+    method: "post",
+    path: "/api/v1/generate/batch",
+    summary: "ドラフトの一括生成",
+    feature: "batches",
+    headers: [BRAND_ID],
+    body: generationBatchRequestSchema,
+    uploadContentTypes: [GENERATION_BATCH_CSV_CONTENT_TYPE],
+    response: { status: 202, description: "作成したバッチ（行はキューで生成する）", schema: generationBatchResponseSchema },
+    errors: [400, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/generate/batch/:id",
+    summary: "一括生成の進捗",
+    feature: "batches",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "行ごとの結果を含むバッチ", schema: generationBatchResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts",
+    summary: "ドラフトの一覧",
+    feature: "listDrafts",
+    headers: [BRAND_ID],
+    query: draftListQuerySchema,
+    response: { status: 200, description: "作成日時の降順のドラフト", schema: draftListResponseSchema },
+    errors: [400],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id",
+    summary: "ドラフトの取得",
+    feature: "getDraft",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "ドラフト（ETagヘッダー付き）", schema: draftDetailResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "patch",
+    path: "/api/v1/drafts/:id",
+    summary: "ドラフトの編集",
+    feature: "updateDraft",
+    headers: [{ ...IF_MATCH, required: true }, BRAND_ID],
+    body: draftUpdateRequestSchema,
+    response: { status: 200, description: "編集後のドラフト（ETagヘッダー付き）", schema: draftDetailResponseSchema },
+    errors: [400, 404, 409, 422, 428],
+  },
+  {
+    method: "post",
+    path: "/api/v1/drafts/:id/variants/select",
+    summary: "キャプション案の採用",
+    feature: "selectVariant",
+    headers: [BRAND_ID],
+    body: selectCaptionVariantRequestSchema,
+    response: { status: 200, description: "採用後のドラフト（ETagヘッダー付き）", schema: draftDetailResponseSchema },
+    errors: [400, 404, 409],
+  },
+  ...(["approve", "rework"] as const).map(
+    (action): ApiOperation => ({
+      method: "post",
+      path: `/api/v1/drafts/:id/review/${action}`,
+      summary: action === "approve" ? "ドラフトの承認" : "ドラフトの差し戻し",
+      feature: "reviews",
+      headers: [IF_MATCH, BRAND_ID],
+      body: reviewDecisionRequestSchema,
+      response: {
+        status: 200,
+        description: "判断後のドラフトと記録したフィードバック",
+        schema: reviewDecisionResponseSchema,
+      },
+      errors: [400, 404, 409],
+    })
+  ),
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id/reviews",
+    summary: "レビュー履歴",
+    feature: "reviews",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "記録順のフィードバック", schema: reviewHistoryResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/drafts/:id/publish",
+    summary: "ドラフトの公開",
+    feature: "publishing",
+    headers: [IF_MATCH, BRAND_ID],
+    response: { status: 200, description: "公開後のドラフトと公開の試行記録", schema: publishDraftResponseSchema },
+    errors: [400, 404, 409, 429, 502],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id/publish-logs",
+    summary: "公開ログ",
+    feature: "publishing",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "試行日時の昇順の公開ログ", schema: publishLogListResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "put",
+    path: "/api/v1/drafts/:id/schedule",
+    summary: "予約投稿の設定",
+    feature: "scheduling",
+    headers: [IF_MATCH, BRAND_ID],
+    body: draftScheduleRequestSchema,
+    response: { status: 200, description: "予約後のドラフト（ETagヘッダー付き）", schema: draftDetailResponseSchema },
+    errors: [400, 404, 409],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/drafts/:id/schedule",
+    summary: "予約投稿の取り消し",
+    feature: "scheduling",
+    headers: [IF_MATCH, BRAND_ID],
+    response: { status: 200, description: "取り消し後のドラフト（ETagヘッダー付き）", schema: draftDetailResponseSchema },
+    errors: [400, 404, 409],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id/image-status",
+    summary: "画像生成ジョブの状態",
+    feature: "imageJobs",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "画像生成ジョブの状態", schema: draftImageStatusResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id/image-status/stream",
+    summary: "画像生成ジョブの状態のストリーム",
+    feature: "imageJobs",
+    headers: [BRAND_ID],
+    response: {
+      status: 200,
+      description: "image-status イベント（データは画像生成ジョブの状態と同じ形状）のServer-Sent Events",
+      contentType: "text/event-stream",
+    },
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/drafts/:id/image",
+    summary: "生成画像の取得",
+    feature: "draftImage",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "生成画像", contentType: "image/*" },
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/prompt-templates",
+    summary: "プロンプトテンプレートの一覧",
+    feature: "promptTemplates",
+    response: { status: 200, description: "テンプレートの概要", schema: promptTemplateListResponseSchema },
+  },
+  {
+    method: "get",
+    path: "/api/v1/admin/prompt-templates/:id",
+    summary: "プロンプトテンプレートの取得",
+    feature: "promptTemplates",
+    response: { status: 200, description: "全バージョンを含むテンプレート", schema: promptTemplateResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/prompt-templates/:id/versions",
+    summary: "プロンプトテンプレートのバージョン作成",
+    feature: "promptTemplates",
+    body: createPromptTemplateVersionRequestSchema,
+    response: { status: 201, description: "バージョン作成後のテンプレート", schema: promptTemplateResponseSchema },
+    errors: [400, 404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/prompt-templates/:id/activate",
+    summary: "プロンプトテンプレートのバージョン有効化",
+    feature: "promptTemplates",
+    body: activatePromptTemplateRequestSchema,
+    response: { status: 200, description: "有効化後のテンプレート", schema: promptTemplateResponseSchema },
+    errors: [400, 404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/admin/prompt-templates/:id/rollback",
+    summary: "プロンプトテンプレートのロールバック",
+    feature: "promptTemplates",
+    response: { status: 200, description: "ロールバック後のテンプレート", schema: promptTemplateResponseSchema },
+    errors: [404, 409],
+  },
+  {
+    method: "get",
+    path: "/api/v1/brands",
+    summary: "ブランドの一覧",
+    feature: "brands",
+    response: { status: 200, description: "名前の昇順のブランド", schema: brandListResponseSchema },
+  },
+  {
+    method: "post",
+    path: "/api/v1/brands",
+    summary: "ブランドの作成",
+    feature: "brands",
+    body: createBrandRequestSchema,
+    response: { status: 201, description: "作成したブランド", schema: brandResponseSchema },
+    errors: [400],
+  },
+  {
+    method: "get",
+    path: "/api/v1/brands/:id",
+    summary: "ブランドの取得",
+    feature: "brands",
+    response: { status: 200, description: "ブランド", schema: brandResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "patch",
+    path: "/api/v1/brands/:id",
+    summary: "ブランドの編集",
+    feature: "brands",
+    body: updateBrandRequestSchema,
+    response: { status: 200, description: "編集後のブランド", schema: brandResponseSchema },
+    errors: [400, 404],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/brands/:id",
+    summary: "ブランドの削除",
+    feature: "brands",
+    response: { status: 204, description: "削除した" },
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/presets",
+    summary: "生成プリセットの一覧",
+    feature: "presets",
+    headers: [BRAND_ID],
+    query: generationPresetListQuerySchema,
+    response: { status: 200, description: "種類ごとに名前の昇順のプリセット", schema: generationPresetListResponseSchema },
+    errors: [400],
+  },
+  {
+    method: "post",
+    path: "/api/v1/presets",
+    summary: "生成プリセットの保存",
+    feature: "presets",
+    headers: [BRAND_ID],
+    body: createGenerationPresetRequestSchema,
+    response: { status: 201, description: "保存したプリセット", schema: generationPresetResponseSchema },
+    errors: [400],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/presets/:id",
+    summary: "生成プリセットの削除",
+    feature: "presets",
+    headers: [BRAND_ID],
+    response: { status: 204, description: "削除した" },
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/post-workflows",
+    summary: "投稿ワークフローの開始",
+    feature: "postWorkflows",
+    headers: [BRAND_ID],
+    body: postWorkflowStartRequestSchema,
+    response: { status: 202, description: "開始したワークフローインスタンス", schema: postWorkflowInstanceResponseSchema },
+    errors: [400, 422, 429],
+  },
+  {
+    method: "get",
+    path: "/api/v1/post-workflows/:id",
+    summary: "投稿ワークフローの状態",
+    feature: "postWorkflows",
+    headers: [BRAND_ID],
+    response: { status: 200, description: "ワークフローインスタンスの状態", schema: postWorkflowInstanceResponseSchema },
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/post-workflows/:id/review",
+    summary: "投稿ワークフローへのレビュー判断の送信",
+    feature: "postWorkflows",
+    body: postWorkflowReviewRequestSchema,
+    response: { status: 202, description: "判断を届けた" },
+    errors: [400, 404],
+  },
+];
+
+/**
+ * JSONボディのコンテンツ
+ */
+function jsonContent(schema: Schema<unknown>): OpenApiContent {
+  return { "application/json": { schema: schema.toJSONSchema() } };
+}
+
+/**
+ * リクエストボディのコンテンツ
+ */
+function requestContent(body: Schema<unknown>, uploadContentTypes: string[] = []): OpenApiContent {
+  const uploads = uploadContentTypes.map((contentType) => [contentType, { schema: { type: "string" } }]);
+  return { ...jsonContent(body), ...Object.fromEntries(uploads) };
+}
+
+/**
+ * エンドポイント定義のOpenAPIのオペレーションへの変換
+ */
+function toOperation(operation: ApiOperation): OpenApiOperation {
+  const pathParameters = [...operation.path.matchAll(/:(\w+)/g)].map(
+    ([, name]): OpenApiParameter => ({ name, in: "path", required: true, schema: { type: "string" } })
+  );
+  const headerParameters = (operation.headers ?? []).map(
+    ({ name, description, required }): OpenApiParameter => ({
+      name,
+      in: "header",
+      description,
+      required: required ?? false,
+      schema: { type: "string" },
+    })
+  );
+  const queryParameters = Object.entries(operation.query?.shape ?? {}).map(
+    ([name, schema]): OpenApiParameter => ({
+      name,
+      in: "query",
+      required: !schema.isOptional,
+      schema: schema.toJSONSchema(),
+    })
+  );
+
+  const { response } = operation;
+  const responses: OpenApiOperation["responses"] = {
+    [response.status]: {
+      description: response.description,
+      ...(response.schema
+        ? { content: jsonContent(response.schema) }
+        : response.contentType
+          ? { content: { [response.contentType]: {} } }
+          : {}),
+    },
+  };
+  // 未処理のエラーと保存先・キューの障害はエラーマッピングが全エンドポイントで返す
+  for (const status of [...(operation.errors ?? []), 500, 503]) {
+    responses[status] = {
+      description: ERROR_DESCRIPTIONS[status],
+      content: jsonContent(apiErrorResponseSchema),
+    };
+  }
+
+  const parameters = [...pathParameters, ...headerParameters, ...queryParameters];
+  return {
+    summary: operation.summary,
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.body ? { requestBody: { required: true, content: requestContent(operation.body, operation.uploadContentTypes) } } : {}),
+    responses,
+  };
+}
+
+/**
+ * OpenAPIドキュメントの作成
+ *
+ * @param features 有効な機能（AppServiceFactories に指定されたキー）
+ * @returns OpenAPI 3.1 ドキュメント
+ */
+export function createOpenApiDocument(features: ReadonlyArray<keyof AppServiceFactories>): OpenApiDocument {
+  const enabled = new Set(features);
+  const paths: OpenApiDocument["paths"] = {};
+  for (const operation of API_OPERATIONS) {
+    if (operation.feature && !enabled.has(operation.feature)) continue;
+
+    const path = operation.path.replace(/:(\w+)/g, "{$1}");
+    paths[path] = { ...paths[path], [operation.method]: toOperation(operation) };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "SNS Post Generate API", version: "v1" },
+    paths,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * @fileoverview キューアダプター - Cloudflare Queues コンシューマー
+ * 
+ * `IMAGE_QUEUE`・`PUBLISH_QUEUE`・`BATCH_QUEUE` に投入された非同期タスクをユースケースの呼び出しに変換する。
+ * app.ts がHTTPリクエストに対して果たす役割を、キューメッセージに対して担う。
+ * 
+ * 設計原則：
+ * - インターフェース適応：キューメッセージをユースケース入力に変換
+ * - リトライ制御：一時的な失敗は遅延付きで再配信し、上限到達時のみ失敗を記録
+ * - 責務分離：メッセージの確認応答（ack/retry）のみを担当、処理内容は委譲
+ */
+
+import type { GenerateDraftImageUseCase } from "./usecases/generateDraftImageUseCase";
+import {
+  DraftNotPublishableError,
+  PublishFailedError,
+  type PublishDraftUseCase,
+} from "./usecases/publishDraftUseCase";
+import { DraftVersionConflictError } from "./usecases/updateDraftUseCase";
+import { InvalidDraftTransitionError } from "./domain/postDraft";
+import type { DraftBatchWorkflow } from "./workflows/draftBatchWorkflow";
+import type {
+  GenerateBatchRowPayload,
+  GenerateImagePayload,
+  PublishDraftPayload,
+  WorkerBindings,
+  WorkerQueuePayload,
+} from "./types";
+
+/**
+ * 画像生成ユースケースのファクトリー関数の型定義
+ */
+export type ImageJobFactory = (env: WorkerBindings) => GenerateDraftImageUseCase;
+
+/**
+ * 公開ユースケースのファクトリー関数の型定義
+ */
+export type PublishJobFactory = (env: WorkerBindings) => PublishDraftUseCase;
+
+/**
+ * 一括生成の行の処理のファクトリー関数の型定義
+ */
+export type BatchRowJobFactory = (env: WorkerBindings) => DraftBatchWorkflow;
+
+/**
+ * キューハンドラーの設定
+ */
+export type QueueHandlerOptions = {
+  /** この回数目の配信で失敗した場合に最終失敗として記録する */
+  maxAttempts?: number;
+  /** 再配信までの基準遅延秒数（試行ごとに倍増） */
+  baseRetryDelaySeconds?: number;
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_RETRY_DELAY_SECONDS = 10;
+
+/**
+ * キューハンドラーの作成
+ * 
+ * メッセージを1件ずつ処理し、個別にack/retryする。
+ * 1件の失敗がバッチ内の他のメッセージの再配信を招かないようにする。
+ * 
+ * @param factory 画像生成ユースケース構築のためのファクトリー関数
+ * @param options リトライ設定
+ * @param publishFactory 公開ユースケース構築のためのファクトリー関数（未指定時は公開タスクを破棄）
+ * @param batchFactory 一括生成の行の処理構築のためのファクトリー関数（未指定時は行の生成タスクを破棄）
+ * @returns Cloudflare Workers の queue() ハンドラー
+ */
+export function createQueueHandler(
+  factory: ImageJobFactory,
+  options: QueueHandlerOptions = {},
+  publishFactory?: PublishJobFactory,
+  batchFactory?: BatchRowJobFactory
+) {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelay = options.baseRetryDelaySeconds ?? DEFAULT_BASE_RETRY_DELAY_SECONDS;
+
+  return async (batch: MessageBatch<WorkerQueuePayload>, env: WorkerBindings): Promise<void> => {
+    for (const message of batch.messages) {
+      const job = message.body;
+
+      if (job.type === "generate_image") {
+        await handleImageJob(factory(env), message as Message<GenerateImagePayload>, maxAttempts, baseDelay);
+        continue;
+      }
+      if (job.type === "publish_draft" && publishFactory) {
+        await handlePublishJob(publishFactory(env), message as Message<PublishDraftPayload>, maxAttempts, baseDelay);
+        continue;
+      }
+      if (job.type === "generate_batch_row" && batchFactory) {
+        await handleBatchRowJob(batchFactory(env), message as Message<GenerateBatchRowPayload>, maxAttempts, baseDelay);
+        continue;
+      }
+
+      // 未知のタスク種別は再配信しても処理できないため破棄する
+      console.warn(`Dropping unsupported queue message: ${String((job as { type?: unknown }).type)}`);
+      message.ack();
+    }
+  };
+}
+
+/**
+ * 画像生成タスクの処理
+ */
+async function handleImageJob(
+  useCase: GenerateDraftImageUseCase,
+  message: Message<GenerateImagePayload>,
+  maxAttempts: number,
+  baseDelay: number
+): Promise<void> {
+  const job = message.body;
+  try {
+    await useCase.execute({ draftId: job.draftId, prompt: job.prompt });
+    message.ack();
+  } catch (error) {
+    if (message.attempts >= maxAttempts) {
+      // リトライ上限：失敗をドラフトに記録して打ち切る
+      await useCase.recordFailure(job.draftId, error).catch((recordError) => {
+        console.error("Failed to record image generation failure", recordError);
+      });
+      message.ack();
+    } else {
+      // 一時的な失敗：指数バックオフで再配信
+      message.retry({ delaySeconds: baseDelay * 2 ** (message.attempts - 1) });
+    }
+  }
+}
+
+/**
+ * 予約投稿の公開タスクの処理
+ * 
+ * 投入時のバージョンを照合し、投入後に編集・予約変更・公開されたドラフトは公開しない。
+ * 投稿先のレート制限・障害による公開失敗は、投稿先が示した待機秒数（なければ指数バックオフ）の後に再配信し、
+ * 再配信では失敗後のバージョンのドラフトを公開する。内容を拒否された場合と上限到達時は failed のまま打ち切る。
+ */
+async function handlePublishJob(
+  useCase: PublishDraftUseCase,
+  message: Message<PublishDraftPayload>,
+  maxAttempts: number,
+  baseDelay: number
+): Promise<void> {
+  const job = message.body;
+  try {
+    await useCase.execute({
+      draftId: job.draftId,
+      expectedVersion: job.version,
+      retryingFailure: message.attempts > 1,
+    });
+    message.ack();
+  } catch (error) {
+    if (
+      error instanceof DraftVersionConflictError ||
+      error instanceof InvalidDraftTransitionError ||
+      error instanceof DraftNotPublishableError
+    ) {
+      console.warn(`Skipping scheduled publish of draft ${job.draftId}: ${error.message}`);
+      message.ack();
+    } else if (error instanceof PublishFailedError && error.code !== "rejected" && message.attempts < maxAttempts) {
+      console.warn(`Retrying scheduled publish of draft ${job.draftId}: ${error.message}`);
+      message.retry({ delaySeconds: error.retryAfterSeconds ?? baseDelay * 2 ** (message.attempts - 1) });
+    } else if (error instanceof PublishFailedError) {
+      console.error(`Scheduled publish of draft ${job.draftId} failed: ${error.message}`);
+      message.ack();
+    } else if (message.attempts >= maxAttempts) {
+      console.error(`Giving up scheduled publish of draft ${job.draftId}`, error);
+      message.ack();
+    } else {
+      message.retry({ delaySeconds: baseDelay * 2 ** (message.attempts - 1) });
+    }
+  }
+}
+
+/**
+ * 一括生成の行の生成タスクの処理
+ * 
+ * 入力・ブランドの誤りなど再試行しても解消しない失敗は、行の処理の中で記録済みのためackする。
+ * それ以外の失敗は再配信し、上限到達時に行の失敗として記録する。
+ */
+async function handleBatchRowJob(
+  workflow: DraftBatchWorkflow,
+  message: Message<GenerateBatchRowPayload>,
+  maxAttempts: number,
+  baseDelay: number
+): Promise<void> {
+  const job = { batchId: message.body.batchId, index: message.body.index };
+  try {
+    await workflow.processRow(job);
+    message.ack();
+  } catch (error) {
+    if (message.attempts >= maxAttempts) {
+      await workflow.recordRowFailure(job, error).catch((recordError) => {
+        console.error(`Failed to record failure of row ${job.index} in batch ${job.batchId}`, recordError);
+      });
+      message.ack();
+    } else {
+      message.retry({ delaySeconds: baseDelay * 2 ** (message.attempts - 1) });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @fileoverview Cronアダプター - Cloudflare Workers Cron Triggers ハンドラー
+ *
+ * Cronトリガーの起動をユースケースの呼び出しに変換する。
+ * app.ts がHTTPリクエストに、queue.ts がキューメッセージに対して果たす役割を、定期実行に対して担う。
+ *
+ * 設計原則：
+ * - インターフェース適応：Cronイベントを予約投稿配信・公開処理中のドラフトの回復の実行に変換
+ * - 責務分離：実行の登録と結果のログ出力のみを担当、配信内容は委譲
+ */
+
+import type { DispatchScheduledDraftsUseCase } from "./usecases/dispatchScheduledDraftsUseCase";
+import type { PublishDraftUseCase } from "./usecases/publishDraftUseCase";
+import type { WorkerBindings } from "./types";
+
+/**
+ * 予約投稿配信ユースケースのファクトリー関数の型定義
+ */
+export type DispatchFactory = (env: WorkerBindings) => DispatchScheduledDraftsUseCase;
+
+/**
+ * 公開ユースケースのファクトリー関数の型定義（公開処理中のまま残ったドラフトの回復に使う）
+ */
+export type PublishRecoveryFactory = (env: WorkerBindings) => PublishDraftUseCase;
+
+/**
+ * Cronハンドラーの作成
+ *
+ * 配信の完了をwaitUntilで待ち、結果をログに残す。
+ * 投入に失敗したドラフトは次回の起動で再び配信対象になる。
+ * 配信の後に、公開処理中のまま残ったドラフトを回復する（回復の失敗は配信の結果に影響させない）。
+ *
+ * @param factory 予約投稿配信ユースケース構築のためのファクトリー関数
+ * @param recoveryFactory 公開ユースケース構築のためのファクトリー関数（未指定時は回復しない）
+ * @returns Cloudflare Workers の scheduled() ハンドラー
+ */
+export function createScheduledHandler(factory: DispatchFactory, recoveryFactory?: PublishRecoveryFactory) {
+  return async (controller: ScheduledController, env: WorkerBindings, ctx: ExecutionContext): Promise<void> => {
+    const run = async () => {
+      const result = await factory(env).execute();
+      if (result.dispatched.length > 0 || result.skipped.length > 0) {
+        console.info(
+          `Dispatched ${result.dispatched.length} scheduled drafts (${result.skipped.length} skipped) for ${controller.cron}`
+        );
+      }
+      if (result.failed.length > 0) {
+        console.error(`Failed to enqueue scheduled drafts: ${result.failed.join(", ")}`);
+      }
+
+      if (!recoveryFactory) return;
+      try {
+        const recovered = await recoveryFactory(env).recoverStalePublishing();
+        if (recovered.length > 0) {
+          console.warn(`Recovered drafts left publishing: ${recovered.join(", ")}`);
+        }
+      } catch (error) {
+        console.error("Failed to recover drafts left publishing", error);
+      }
+    };
+
+    ctx.waitUntil(run());
+  };
+}
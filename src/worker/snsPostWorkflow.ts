@@ -0,0 +1,37 @@
+/**
+ * @fileoverview ワークフローアダプター - Cloudflare Workflows エントリーポイント
+ *
+ * wrangler.json の workflows（`POST_WORKFLOW`）に登録する SnsPostWorkflow クラスを構築する。
+ * app.ts がHTTPリクエストに、queue.ts がキューメッセージに対して果たす役割を、永続ワークフローに対して担う。
+ *
+ * 設計原則：
+ * - インターフェース適応：ワークフローイベントとステップをステップ構成（SnsPostPipeline）の呼び出しに変換
+ * - 責務分離：ランタイムへの接続のみを担当し、ステップの内容は SnsPostPipeline に委譲
+ */
+
+import { WorkflowEntrypoint, type WorkflowEvent, type WorkflowStep } from "cloudflare:workers";
+import type { SnsPostPipeline, SnsPostWorkflowParams } from "./workflows/snsPostPipeline";
+import type { PostWorkflowOutput } from "@/shared/contracts/postWorkflow";
+import type { WorkerBindings } from "./types";
+
+/**
+ * 投稿ワークフローのステップ構成のファクトリー関数の型定義
+ */
+export type PostPipelineFactory = (env: WorkerBindings) => SnsPostPipeline;
+
+/**
+ * 永続ワークフロークラスの作成
+ *
+ * インスタンスの開始・再開のたびにステップ構成を組み立て直す。
+ * 完了済みのステップはランタイムが保存した結果を返すため、再開時に再実行されない。
+ *
+ * @param factory ステップ構成構築のためのファクトリー関数
+ * @returns WorkflowEntrypoint を継承したクラス
+ */
+export function createSnsPostWorkflow(factory: PostPipelineFactory) {
+  return class SnsPostWorkflow extends WorkflowEntrypoint<WorkerBindings, SnsPostWorkflowParams> {
+    async run(event: WorkflowEvent<SnsPostWorkflowParams>, step: WorkflowStep): Promise<PostWorkflowOutput> {
+      return factory(this.env).run(event.instanceId, event.payload, step);
+    }
+  };
+}
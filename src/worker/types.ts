@@ -11,14 +11,20 @@
  * - ドキュメント化：型定義自体がシステム仕様として機能
  */
 
+import type { SnsPostWorkflowParams } from "./workflows/snsPostPipeline";
+
 /**
  * ワーカーキューペイロード
  * 
  * Cloudflare Queuesで処理される非同期タスクのペイロード型。
- * 画像生成などの時間のかかる処理をバックグラウンドで実行するために使用。
+ * 画像生成や予約投稿の公開、一括生成の各行などの時間のかかる処理をバックグラウンドで実行するために使用。
+ */
+export type WorkerQueuePayload = GenerateImagePayload | PublishDraftPayload | GenerateBatchRowPayload;
+
+/**
+ * 画像生成タスク（`IMAGE_QUEUE`）
  */
-export type WorkerQueuePayload = {
-  /** タスクの種類：現在は画像生成のみサポート */
+export type GenerateImagePayload = {
   type: "generate_image";
   /** 画像を生成する対象のドラフトID */
   draftId: string;
@@ -26,6 +32,48 @@ export type WorkerQueuePayload = {
   prompt: string;
 };
 
+/**
+ * 予約投稿の公開タスク（`PUBLISH_QUEUE`）
+ */
+export type PublishDraftPayload = {
+  type: "publish_draft";
+  /** 公開する対象のドラフトID */
+  draftId: string;
+  /** 投入時のドラフトのバージョン（投入後に編集・予約変更された場合は公開しない） */
+  version: number;
+};
+
+/**
+ * 一括生成の行の生成タスク（`BATCH_QUEUE`）
+ */
+export type GenerateBatchRowPayload = {
+  type: "generate_batch_row";
+  /** 行が属するバッチのID */
+  batchId: string;
+  /** 行の番号（生成リクエストはD1の行から読み込む） */
+  index: number;
+};
+
+/**
+ * ドラフトの保存先
+ * 
+ * - kv: Workers KVのみ（7日TTL）。保存が無条件の上書きのため、開発環境での生成・取得に限る
+ * - d1: D1の `posts` テーブルのみ
+ * - d1+kv: D1を正本とし、KVを読み出しの高速キャッシュとして使う（書き込み時に無効化）
+ *
+ * 編集・レビューなどバージョン照合を伴う機能と一覧検索は、D1の条件付き更新・インデックスを必要とするため
+ * d1 または d1+kv でのみ動作する。
+ */
+export type DraftStorageMode = "kv" | "d1" | "d1+kv";
+
+/**
+ * コンテンツ生成器の選択
+ * 
+ * - simple: ルールベースのテンプレート生成
+ * - workers-ai: Workers AIによるJSON生成（不正な出力時はsimpleにフォールバック）
+ */
+export type ContentGeneratorMode = "simple" | "workers-ai";
+
 /**
  * Cloudflare Worker バインディング型
  * 
@@ -34,11 +82,69 @@ export type WorkerQueuePayload = {
  * 
  * バインディング構成：
  * - KV: ドラフト永続化用のKey-Valueストレージ
+ * - DB: ドラフトの長期保存用D1データベース
+ * - AI: コンテンツ・画像生成に使用するWorkers AI
+ * - IMAGES: 生成画像を保存するR2バケット
  * - IMAGE_QUEUE: 画像生成の非同期処理用キュー（オプション）
+ * - PUBLISH_QUEUE: 予約投稿の公開用キュー（オプション）
+ * - BATCH_QUEUE: 一括生成の行ごとの生成用キュー（オプション）
+ * - POST_WORKFLOW: 生成からレビューまでを実行する永続ワークフロー（オプション）
+ * - DRAFT_STORAGE: ドラフトの保存先の選択（未設定時はkv）
+ * - CONTENT_GENERATOR: コンテンツ生成器の選択（未設定時はsimple）
+ * - META_*・IMAGES_PUBLIC_URL: Meta Graph APIによる公開の設定（未設定時は公開できない）
+ * - RATE_LIMIT_TIERS・CLIENT_TIERS: レート制限のティアごとの上限と認証済みクライアントのティア（未設定時は既定値）
+ * - CLIENT_BRANDS・BRAND_ADMIN_CLIENTS: 認証済みクライアントが利用できるブランドとブランド管理者（未設定時はどちらもなし）
+ * - API_SIGNING_SECRET: /api/v1/* のHMAC署名の秘密鍵（未設定時は署名付きのリクエストを受け付けない）
+ * - ACCESS_TEAM_DOMAIN・ACCESS_AUD: 自前のUIを認証する Cloudflare Access の設定（未設定時はAccessのJWTを使わない）
+ * - ALLOW_UNSIGNED_REQUESTS: 認証情報のないリクエストを通す開発用の設定（"true" のときだけ有効）
  */
 export type WorkerBindings = Env & {
   /** KVNamespace：ドラフトデータの永続化に使用 */
   KV: KVNamespace;
+  /** D1Database：`posts` テーブルによるドラフトの長期保存 */
+  DB: D1Database;
+  /** Ai：Workers AIによるコンテンツ・画像生成 */
+  AI: Ai;
+  /** R2Bucket：生成画像の保存（drafts/{draftId}/{variant}.png） */
+  IMAGES: R2Bucket;
   /** Queue：画像生成タスクの非同期処理（開発環境では未定義の場合あり） */
   IMAGE_QUEUE?: Queue<WorkerQueuePayload>;
+  /** Queue：予約投稿の公開タスク（未定義の場合は予約投稿を配信できない） */
+  PUBLISH_QUEUE?: Queue<WorkerQueuePayload>;
+  /** Queue：一括生成の行ごとの生成タスク（未定義の場合は一括生成を受け付けられない） */
+  BATCH_QUEUE?: Queue<WorkerQueuePayload>;
+  /** Workflow：投稿ワークフロー（SnsPostWorkflow）のインスタンス操作（未定義の場合は開始できない） */
+  POST_WORKFLOW?: Workflow<SnsPostWorkflowParams>;
+  /** ドラフトの保存先（wrangler vars で指定、未設定時はkv） */
+  DRAFT_STORAGE?: DraftStorageMode;
+  /** コンテンツ生成器（wrangler vars で指定、未設定時はsimple） */
+  CONTENT_GENERATOR?: ContentGeneratorMode;
+  /** Meta Graph APIのアクセストークン（wrangler secret で指定） */
+  META_ACCESS_TOKEN?: string;
+  /** 投稿先のInstagramビジネスアカウントID */
+  META_INSTAGRAM_ACCOUNT_ID?: string;
+  /** Graph APIのベースURL（未設定時は https://graph.facebook.com/v21.0） */
+  META_GRAPH_API_URL?: string;
+  /** `IMAGES` バケットの公開URL（Graph APIが投稿画像を取得する） */
+  IMAGES_PUBLIC_URL?: string;
+  /** ティア名から上限へのJSON（既定のティアを上書きする） */
+  RATE_LIMIT_TIERS?: string;
+  /** 認証済みクライアントのIDからティア名へのJSON（未割り当て・未認証のクライアントは free） */
+  CLIENT_TIERS?: string;
+  /** 認証済みクライアントのIDから利用できるブランドIDの配列（すべてのブランドは "*"）へのJSON（未割り当てのクライアントはブランドを指定できない） */
+  CLIENT_BRANDS?: string;
+  /** ブランドを管理できる認証済みクライアントのIDのJSON配列 */
+  BRAND_ADMIN_CLIENTS?: string;
+  /** HMAC署名（X-Signature）の秘密鍵（wrangler secret で指定、未設定時は署名付きのリクエストを受け付けない） */
+  API_SIGNING_SECRET?: string;
+  /** 自前のUIの前段に置いた Cloudflare Access のチームのドメイン（例: example.cloudflareaccess.com） */
+  ACCESS_TEAM_DOMAIN?: string;
+  /** Cloudflare Access アプリケーションのAUDタグ */
+  ACCESS_AUD?: string;
+  /** "true" の場合、認証情報のないリクエストを認証されていないクライアントとして通す（.dev.vars で指定する開発用の設定） */
+  ALLOW_UNSIGNED_REQUESTS?: string;
+  /** 追加のコンプライアンスルールセットのJSON配列（組み込みと同じIDのセットは置き換える） */
+  COMPLIANCE_RULES?: string;
+  /** ハッシュタグの規模ごとの配分のJSON（例: {"big":2,"mid":5,"niche":3}、未設定時は既定の配分） */
+  HASHTAG_TIER_MIX?: string;
 };
@@ -7,6 +7,9 @@ describe("CreateDraftUseCase", () => {
   it("persists a new draft and returns it with id", async () => {
     const repository = {
       save: vi.fn().mockResolvedValue(void 0),
+      findById: vi.fn().mockResolvedValue(null),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
     };
     const idProvider = { next: vi.fn().mockReturnValue("draft-123") };
     const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
@@ -19,6 +22,7 @@ describe("CreateDraftUseCase", () => {
       product: "AirFlex",
       imagePrompt: "街で歩く若者",
       targetPersona: "20代のアクティブ層",
+      platform: "instagram",
       caption: "最高の履き心地を体験しよう",
       hashtags: ["sneakers", "spring"],
       altText: "街でスニーカーを見せる若者",
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DispatchScheduledDraftsUseCase } from "../dispatchScheduledDraftsUseCase";
+import { ScheduleDraftUseCase } from "../scheduleDraftUseCase";
+import { PostDraft } from "../../domain/postDraft";
+import { D1DraftRepository } from "../../infrastructure/d1DraftRepository";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+
+describe("DispatchScheduledDraftsUseCase", () => {
+  let now: Date;
+  const clock = { now: () => now };
+  let repository: D1DraftRepository;
+  let queue: { enqueue: ReturnType<typeof vi.fn> };
+  let dispatcher: DispatchScheduledDraftsUseCase;
+  let scheduling: ScheduleDraftUseCase;
+
+  /**
+   * 承認済みのドラフトを保存する
+   */
+  const saveApproved = async (id: string) => {
+    const draft = PostDraft.create({ theme: "春の新作", brandVoice: "爽やか" }, clock).assignId(id);
+    await repository.save(draft);
+    await repository.save(draft.approve(clock));
+  };
+
+  beforeEach(async () => {
+    now = new Date("2025-03-01T00:00:00.000Z");
+    repository = new D1DraftRepository(await createSqliteD1());
+    queue = { enqueue: vi.fn().mockResolvedValue(undefined) };
+    dispatcher = new DispatchScheduledDraftsUseCase(repository, queue, clock);
+    scheduling = new ScheduleDraftUseCase(repository, clock);
+  });
+
+  // 正常系: 時刻を進めると予約日時を迎えた承認済みドラフトだけを一度だけ投入することを検証する
+  it("enqueues approved drafts once they are due", async () => {
+    await saveApproved("draft-1");
+    await saveApproved("draft-2");
+    await repository.save(PostDraft.create({ theme: "未承認", brandVoice: "爽やか" }, clock).assignId("draft-3"));
+    await scheduling.schedule({ draftId: "draft-1", scheduledAt: "2025-03-01T10:00", timezone: "Asia/Tokyo" });
+    await scheduling.schedule({ draftId: "draft-2", scheduledAt: "2025-03-01T12:00", timezone: "Asia/Tokyo" });
+    await scheduling.schedule({ draftId: "draft-3", scheduledAt: "2025-03-01T10:00", timezone: "Asia/Tokyo" });
+
+    expect((await dispatcher.execute()).dispatched).toEqual([]);
+
+    now = new Date("2025-03-01T01:00:00.000Z");
+    expect(await dispatcher.execute()).toEqual({ dispatched: ["draft-1"], skipped: [], failed: [] });
+    expect(queue.enqueue).toHaveBeenCalledWith({ draftId: "draft-1", version: 4 });
+    expect((await repository.findById("draft-1"))?.dispatchedAt).toBe("2025-03-01T01:00:00.000Z");
+
+    now = new Date("2025-03-01T01:01:00.000Z");
+    expect((await dispatcher.execute()).dispatched).toEqual([]);
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 同時に実行された配信では一方だけが投入し、他方は見送ることを検証する
+  it("guards against double dispatch", async () => {
+    await saveApproved("draft-1");
+    await scheduling.schedule({ draftId: "draft-1", scheduledAt: "2025-03-01T00:30:00Z", timezone: "UTC" });
+    now = new Date("2025-03-01T00:30:00.000Z");
+
+    const results = await Promise.all([dispatcher.execute(), dispatcher.execute()]);
+
+    expect(results.flatMap((result) => result.dispatched)).toEqual(["draft-1"]);
+    expect(results.flatMap((result) => result.skipped)).toEqual(["draft-1"]);
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: キューへの送信に失敗した場合は投入記録を戻し、次回の配信で再び対象にすることを検証する
+  it("releases the draft when the queue rejects it", async () => {
+    await saveApproved("draft-1");
+    await scheduling.schedule({ draftId: "draft-1", scheduledAt: "2025-03-01T00:30:00Z", timezone: "UTC" });
+    now = new Date("2025-03-01T00:30:00.000Z");
+    queue.enqueue.mockRejectedValueOnce(new Error("PUBLISH_QUEUE is not configured"));
+
+    expect(await dispatcher.execute()).toEqual({ dispatched: [], skipped: [], failed: ["draft-1"] });
+    expect((await repository.findById("draft-1"))?.dispatchedAt).toBeUndefined();
+    expect((await dispatcher.execute()).dispatched).toEqual(["draft-1"]);
+  });
+
+  // 正常系: 予約の変更で投入記録が破棄され、取り消したドラフトは配信されないことを検証する
+  it("follows reschedules and unschedules", async () => {
+    await saveApproved("draft-1");
+    await scheduling.schedule({ draftId: "draft-1", scheduledAt: "2025-03-01T00:30:00Z", timezone: "UTC" });
+    now = new Date("2025-03-01T00:30:00.000Z");
+    await dispatcher.execute();
+
+    const rescheduled = await scheduling.schedule({
+      draftId: "draft-1",
+      scheduledAt: "2025-03-01T18:00",
+      timezone: "Asia/Tokyo",
+    });
+    expect(rescheduled?.schedule).toEqual({ scheduledAt: "2025-03-01T09:00:00.000Z", timezone: "Asia/Tokyo" });
+
+    await scheduling.unschedule({ draftId: "draft-1", expectedVersion: rescheduled!.version });
+    now = new Date("2025-03-01T09:00:00.000Z");
+    expect((await dispatcher.execute()).dispatched).toEqual([]);
+    expect(queue.enqueue).toHaveBeenCalledTimes(1);
+  });
+});
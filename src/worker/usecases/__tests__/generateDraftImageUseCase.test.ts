@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  GenerateDraftImageUseCase,
+  type GeneratedImage,
+  type ImageGenerator,
+} from "../generateDraftImageUseCase";
+import { PostDraft } from "../../domain/postDraft";
+
+/**
+ * プロンプトを埋め込んだ固定バイト列を返すローカルの偽画像生成器
+ */
+class FakeImageGenerator implements ImageGenerator {
+  readonly name = "fake";
+  readonly prompts: string[] = [];
+
+  async generate(input: { prompt: string }): Promise<GeneratedImage> {
+    this.prompts.push(input.prompt);
+    return { data: new TextEncoder().encode(`png:${input.prompt}`).buffer as ArrayBuffer, contentType: "image/png" };
+  }
+}
+
+describe("GenerateDraftImageUseCase", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  const draft = PostDraft.create({ theme: "春の新作スニーカー", brandVoice: "爽やか" }, clock).assignId("draft-123");
+
+  const createRepository = (stored: PostDraft | null) => ({
+    save: vi.fn().mockResolvedValue(undefined),
+    findById: vi.fn().mockResolvedValue(stored),
+    list: vi.fn(),
+    saveImageState: vi.fn().mockResolvedValue(undefined),
+  });
+
+  // 正常系: 生成画像を保存しドラフトに画像キーを記録することを検証する
+  it("stores the generated image and records its key on the draft", async () => {
+    const repository = createRepository(draft);
+    const generator = new FakeImageGenerator();
+    const store = { put: vi.fn().mockResolvedValue(undefined), get: vi.fn() };
+    const useCase = new GenerateDraftImageUseCase(repository, generator, store, clock);
+
+    const result = await useCase.execute({ draftId: "draft-123", prompt: "街を歩く若者" });
+
+    expect(result).toEqual({ status: "generated", imageKey: "drafts/draft-123/original.png" });
+    expect(generator.prompts).toEqual(["街を歩く若者"]);
+    expect(store.put).toHaveBeenCalledWith(
+      "drafts/draft-123/original.png",
+      expect.objectContaining({ contentType: "image/png" }),
+      { draftId: "draft-123", "x-image-generator": "fake" }
+    );
+    const [running, done] = repository.saveImageState.mock.calls.map(([saved]) => saved as PostDraft);
+    expect(running.imageStatus).toBe("running");
+    expect(done.imageStatus).toBe("done");
+    expect(done.imageKey).toBe("drafts/draft-123/original.png");
+    // 画像ジョブの状態はバージョンを進めず、編集中のエディターの If-Match を失効させない
+    expect(done.version).toBe(draft.version);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  // 正常系: ドラフトが存在しない場合は画像を生成せずにスキップすることを検証する
+  it("skips jobs for drafts that no longer exist", async () => {
+    const generator = new FakeImageGenerator();
+    const store = { put: vi.fn(), get: vi.fn() };
+    const useCase = new GenerateDraftImageUseCase(createRepository(null), generator, store, clock);
+
+    await expect(useCase.execute({ draftId: "missing", prompt: "街" })).resolves.toEqual({ status: "skipped" });
+    expect(generator.prompts).toEqual([]);
+    expect(store.put).not.toHaveBeenCalled();
+  });
+
+  // 異常系: 最終的な失敗が理由付きでドラフトに記録されることを検証する
+  it("records the final failure on the draft", async () => {
+    const repository = createRepository(draft);
+    const useCase = new GenerateDraftImageUseCase(repository, new FakeImageGenerator(), { put: vi.fn(), get: vi.fn() }, clock);
+
+    await useCase.recordFailure("draft-123", new Error("model overloaded"));
+
+    const saved = repository.saveImageState.mock.calls[0][0] as PostDraft;
+    expect(saved.imageStatus).toBe("failed");
+    expect(saved.imageError).toBe("model overloaded");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from "vitest";
+import { InvalidDraftCursorError, ListDraftsUseCase } from "../listDraftsUseCase";
+import { PostDraft } from "../../domain/postDraft";
+
+describe("ListDraftsUseCase", () => {
+  const draft = PostDraft.create(
+    { theme: "春の新作スニーカー", brandVoice: "爽やか" },
+    { now: () => new Date("2025-01-01T00:00:00.000Z") }
+  ).assignId("draft-123");
+
+  const createRepository = () => ({
+    save: vi.fn(),
+    findById: vi.fn(),
+    list: vi.fn().mockResolvedValue({ drafts: [draft], next: { createdAt: draft.createdAt, id: "draft-123" } }),
+    saveImageState: vi.fn().mockResolvedValue(undefined),
+  });
+
+  // 正常系: 返却したカーソルを次の呼び出しでページ位置として復元できることを検証する
+  it("round-trips the opaque cursor", async () => {
+    const repository = createRepository();
+    const useCase = new ListDraftsUseCase(repository);
+
+    const first = await useCase.execute({ status: "draft" });
+    await useCase.execute({ status: "draft", cursor: first.nextCursor! });
+
+    expect(first.items).toHaveLength(1);
+    expect(first.items[0]).toMatchObject({ id: "draft-123", theme: "春の新作スニーカー" });
+    expect(repository.list).toHaveBeenNthCalledWith(1, { status: "draft", limit: 20, after: undefined });
+    expect(repository.list).toHaveBeenNthCalledWith(2, {
+      status: "draft",
+      limit: 20,
+      after: { createdAt: "2025-01-01T00:00:00.000Z", id: "draft-123" },
+    });
+  });
+
+  // 異常系: 改変されたカーソルを拒否することを検証する
+  it("rejects a malformed cursor", async () => {
+    const useCase = new ListDraftsUseCase(createRepository());
+
+    await expect(useCase.execute({ cursor: "not-a-cursor" })).rejects.toBeInstanceOf(InvalidDraftCursorError);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { ManagePromptTemplatesUseCase, PromptTemplateNotFoundError } from "../managePromptTemplatesUseCase";
+import { KvPromptTemplateRepository } from "../../infrastructure/kvPromptTemplateRepository";
+import { createMemoryKv } from "../../__tests__/support/memoryKv";
+
+describe("ManagePromptTemplatesUseCase", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  const createUseCase = () => new ManagePromptTemplatesUseCase(new KvPromptTemplateRepository(createMemoryKv().kv), clock);
+
+  // 正常系: 最初のバージョンは即座に有効になり、以降のバージョンは明示的な有効化まで使われないことを検証する
+  it("activates the first version and keeps later versions as candidates", async () => {
+    const useCase = createUseCase();
+
+    await useCase.createVersion({ templateId: "spring", body: "{theme}を紹介して" });
+    const detail = await useCase.createVersion({ templateId: "spring", body: "{theme}を{brandVoice}に", description: "トーン強調" });
+
+    expect(detail).toMatchObject({ id: "spring", activeVersion: 1, latestVersion: 2, canRollback: false });
+    expect(detail.versions.map((version) => version.description)).toEqual([undefined, "トーン強調"]);
+    await expect(useCase.resolve("spring")).resolves.toMatchObject({ version: 1 });
+    await expect(useCase.resolve("spring", 2)).resolves.toMatchObject({ body: "{theme}を{brandVoice}に" });
+  });
+
+  // 正常系: 有効化とロールバックで生成に使うバージョンが切り替わることを検証する
+  it("switches the resolved version on activate and rollback", async () => {
+    const useCase = createUseCase();
+    await useCase.createVersion({ templateId: "spring", body: "v1 {theme}" });
+    await useCase.createVersion({ templateId: "spring", body: "v2 {theme}", activate: true });
+
+    await expect(useCase.resolve("spring")).resolves.toMatchObject({ version: 2 });
+
+    const rolledBack = await useCase.rollback("spring");
+    expect(rolledBack.activeVersion).toBe(1);
+    await expect(useCase.resolve("spring")).resolves.toMatchObject({ version: 1 });
+
+    await useCase.activate("spring", 2);
+    await expect(useCase.list()).resolves.toEqual({
+      items: [expect.objectContaining({ id: "spring", activeVersion: 2, canRollback: true })],
+    });
+  });
+
+  // 異常系: 存在しないテンプレート・バージョンの解決は型付きエラーになることを検証する
+  it("fails to resolve unknown templates and versions", async () => {
+    const useCase = createUseCase();
+    await useCase.createVersion({ templateId: "spring", body: "{theme}" });
+
+    await expect(useCase.resolve("summer")).rejects.toThrowError(PromptTemplateNotFoundError);
+    await expect(useCase.resolve("spring", 5)).rejects.toThrowError(/version 5 not found/);
+  });
+});
@@ -0,0 +1,260 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DraftNotPublishableError,
+  PublishDraftUseCase,
+  PublishFailedError,
+  type Publisher,
+} from "../publishDraftUseCase";
+import { DraftVersionConflictError } from "../updateDraftUseCase";
+import { InvalidDraftTransitionError, PostDraft } from "../../domain/postDraft";
+import { D1DraftRepository } from "../../infrastructure/d1DraftRepository";
+import { D1PublishLogRepository } from "../../infrastructure/d1PublishLogRepository";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+
+describe("PublishDraftUseCase", () => {
+  const clock = { now: () => new Date("2025-01-01T00:00:00.000Z") };
+  let db: D1Database;
+  let drafts: D1DraftRepository;
+  let publisher: { name: string; supports: ReturnType<typeof vi.fn>; publish: ReturnType<typeof vi.fn> };
+  let useCase: PublishDraftUseCase;
+
+  /**
+   * 画像生成済みのドラフトを保存する
+   */
+  const saveDraft = async (prepare: (draft: PostDraft) => PostDraft = (draft) => draft.approve(clock)) => {
+    const draft = PostDraft.create(
+      { theme: "春の新作", brandVoice: "爽やか", caption: "春の街へ", hashtags: ["sneakers", "spring"], altText: "スニーカー" },
+      clock
+    )
+      .assignId("draft-1")
+      .attachImage("drafts/draft-1/original.png", clock);
+    await drafts.save(draft);
+    const prepared = prepare(draft);
+    if (prepared !== draft) {
+      await drafts.save(prepared);
+    }
+    return prepared;
+  };
+
+  /**
+   * 指定した時刻で動くユースケース（公開ログのIDは別の連番にする）
+   */
+  const useCaseAt = (now: string) => {
+    let sequence = 0;
+    return new PublishDraftUseCase(
+      drafts,
+      publisher as unknown as Publisher,
+      new D1PublishLogRepository(db),
+      { next: () => `recovery-${++sequence}` },
+      { now: () => new Date(now) }
+    );
+  };
+
+  beforeEach(async () => {
+    db = await createSqliteD1();
+    drafts = new D1DraftRepository(db);
+    publisher = {
+      name: "fake",
+      supports: vi.fn(() => true),
+      publish: vi.fn(async () => ({ mediaId: "media-1" })),
+    };
+    let sequence = 0;
+    useCase = new PublishDraftUseCase(
+      drafts,
+      publisher as unknown as Publisher,
+      new D1PublishLogRepository(db),
+      { next: () => `log-${++sequence}` },
+      clock
+    );
+  });
+
+  // 正常系: 承認済みのドラフトを本文・ハッシュタグ・画像とともに公開し、結果と公開ログを保存することを検証する
+  it("publishes approved drafts and records the attempt", async () => {
+    await saveDraft();
+
+    const result = await useCase.execute({ draftId: "draft-1", expectedVersion: 2 });
+
+    expect(publisher.publish).toHaveBeenCalledWith({
+      draftId: "draft-1",
+      platform: "instagram",
+      caption: "春の街へ\n\n#sneakers #spring",
+      altText: "スニーカー",
+      imageKey: "drafts/draft-1/original.png",
+    });
+    expect(result?.draft).toMatchObject({
+      status: "published",
+      version: 4,
+      publication: { mediaId: "media-1", publishedAt: "2025-01-01T00:00:00.000Z" },
+    });
+    expect(result?.attempt).toEqual({
+      id: "log-1",
+      draftId: "draft-1",
+      publisher: "fake",
+      outcome: "published",
+      mediaId: "media-1",
+      errorCode: undefined,
+      errorMessage: undefined,
+      draftVersion: 3,
+      attemptedAt: "2025-01-01T00:00:00.000Z",
+    });
+    expect((await drafts.findById("draft-1"))?.publishedMediaId).toBe("media-1");
+  });
+
+  // 異常系: 同じバージョンから始まった2回目の公開は publishing の保存で競合し、投稿しないことを検証する
+  it("refuses a concurrent publish that claimed the same version", async () => {
+    const approved = await saveDraft();
+    const staleReader = new PublishDraftUseCase(
+      // 1回目の公開が始まる前のドラフトを読んだリクエスト
+      { save: (draft) => drafts.save(draft), saveImageState: vi.fn(), list: vi.fn(), findById: async () => approved },
+      publisher as unknown as Publisher,
+      { save: vi.fn(), listByDraft: vi.fn() },
+      { next: () => "log-stale" },
+      clock
+    );
+
+    await useCase.execute({ draftId: "draft-1" });
+    await expect(staleReader.execute({ draftId: "draft-1" })).rejects.toBeInstanceOf(DraftVersionConflictError);
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+  });
+
+  // 異常系: 投稿先のエラーでドラフトを failed として保存し、ログに記録したうえで再送出することを検証する
+  it("marks the draft failed when the publisher rejects it", async () => {
+    await saveDraft();
+    publisher.publish.mockRejectedValueOnce(new PublishFailedError("rate_limited", "Too many calls", 60));
+
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toMatchObject({
+      code: "rate_limited",
+      retryAfterSeconds: 60,
+    });
+
+    const history = await useCase.history("draft-1");
+    expect(history).toMatchObject({
+      status: "failed",
+      publication: { error: "Too many calls" },
+      items: [{ outcome: "failed", errorCode: "rate_limited", errorMessage: "Too many calls" }],
+    });
+
+    // 失敗したドラフトは再度公開できる
+    const retried = await useCase.execute({ draftId: "draft-1" });
+    expect(retried?.draft.status).toBe("published");
+    expect((await useCase.history("draft-1"))?.items.map((item) => item.outcome)).toEqual(["failed", "published"]);
+  });
+
+  // 正常系・異常系: 予約投稿の再試行は失敗した公開で進んだバージョンのドラフトを公開し、失敗後に編集されたドラフトは公開しないことを検証する
+  it("retries failed publishes at the version after the failure", async () => {
+    await saveDraft();
+    publisher.publish
+      .mockRejectedValueOnce(new PublishFailedError("unavailable", "Graph API is down"))
+      .mockRejectedValueOnce(new PublishFailedError("rate_limited", "Too many calls", 60));
+    await expect(useCase.execute({ draftId: "draft-1", expectedVersion: 2 })).rejects.toBeInstanceOf(
+      PublishFailedError
+    );
+
+    await expect(useCase.execute({ draftId: "draft-1", expectedVersion: 2 })).rejects.toBeInstanceOf(
+      DraftVersionConflictError
+    );
+    await expect(
+      useCase.execute({ draftId: "draft-1", expectedVersion: 2, retryingFailure: true })
+    ).rejects.toBeInstanceOf(PublishFailedError);
+    expect(publisher.publish).toHaveBeenCalledTimes(2);
+
+    // 失敗後に編集されたドラフトは、予約し直すまで再試行でも公開しない
+    await drafts.save((await drafts.findById("draft-1"))!.update({ caption: "夏の街へ" }, clock));
+    await expect(
+      useCase.execute({ draftId: "draft-1", expectedVersion: 2, retryingFailure: true })
+    ).rejects.toBeInstanceOf(DraftVersionConflictError);
+    expect(publisher.publish).toHaveBeenCalledTimes(2);
+
+    const retried = await useCase.execute({ draftId: "draft-1", expectedVersion: 7 });
+    expect(retried?.draft).toMatchObject({ status: "published", version: 9 });
+  });
+
+  // 異常系: 公開できない状態・画像未生成・古いバージョンでは投稿しないことを検証する
+  it("refuses drafts that cannot be published", async () => {
+    await saveDraft((draft) => draft);
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toBeInstanceOf(InvalidDraftTransitionError);
+    await expect(useCase.execute({ draftId: "draft-1", expectedVersion: 0 })).rejects.toBeInstanceOf(
+      DraftVersionConflictError
+    );
+
+    const regenerating = (await drafts.findById("draft-1"))!.markImageRunning(clock);
+    await drafts.saveImageState(regenerating);
+    await drafts.save(regenerating.approve(clock));
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toBeInstanceOf(DraftNotPublishableError);
+
+    publisher.supports.mockReturnValue(false);
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toThrowError(/cannot publish to instagram/);
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+    expect(await useCase.execute({ draftId: "missing" })).toBeNull();
+  });
+
+  // 異常系: 修正が必要なコンプライアンス違反が残っているドラフトは投稿せず、状態も変えないことを検証する
+  it("refuses drafts with blocking compliance violations", async () => {
+    await saveDraft((draft) =>
+      draft
+        .approve(clock)
+        .withComplianceViolations([
+          {
+            ruleSetId: "premiums-and-representations",
+            ruleId: "superlative-claim",
+            severity: "error",
+            field: "caption",
+            start: 0,
+            end: 2,
+            text: "最強",
+            message: "最上級表現は根拠を示せない限り使えません",
+            suggestion: "",
+          },
+        ])
+    );
+
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toThrowError(/blocking compliance violations/);
+
+    expect(publisher.publish).not.toHaveBeenCalled();
+    expect((await drafts.findById("draft-1"))?.status).toBe("approved");
+  });
+
+  // 異常系: 投稿の途中で止まり公開処理中のまま残ったドラフトを、期限後に公開失敗として記録し再公開できることを検証する
+  it("fails drafts left publishing without a result", async () => {
+    const publishing = (await saveDraft()).markPublishing(clock);
+    await drafts.save(publishing);
+
+    expect(await useCaseAt("2025-01-01T00:10:00.000Z").recoverStalePublishing()).toEqual([]);
+    const later = useCaseAt("2025-01-01T00:15:00.000Z");
+    expect(await later.recoverStalePublishing()).toEqual(["draft-1"]);
+
+    const history = await later.history("draft-1");
+    expect(history).toMatchObject({
+      status: "failed",
+      publication: { error: expect.stringMatching(/did not finish within 15 minutes/) },
+      items: [{ outcome: "failed", errorCode: "unavailable", draftVersion: publishing.version }],
+    });
+    expect((await later.execute({ draftId: "draft-1" }))?.draft.status).toBe("published");
+  });
+
+  // 異常系: 投稿後のドラフトの保存に失敗した場合、公開ログの投稿IDから公開済みに回復することを検証する
+  it("recovers published drafts from the publish log", async () => {
+    await saveDraft();
+    const save = vi.spyOn(drafts, "save");
+    save.mockImplementation(async (draft) => {
+      if (draft.status === "published") throw new Error("D1 unavailable");
+      return D1DraftRepository.prototype.save.call(drafts, draft);
+    });
+
+    await expect(useCase.execute({ draftId: "draft-1" })).rejects.toThrowError("D1 unavailable");
+    expect((await drafts.findById("draft-1"))?.status).toBe("publishing");
+    save.mockRestore();
+
+    const later = useCaseAt("2025-01-01T01:00:00.000Z");
+    expect(await later.recoverStalePublishing()).toEqual(["draft-1"]);
+    expect(await later.history("draft-1")).toMatchObject({
+      status: "published",
+      publication: { mediaId: "media-1" },
+      items: [{ outcome: "published", mediaId: "media-1" }],
+    });
+    // 公開済みに回復したドラフトは再び投稿しない
+    await expect(later.execute({ draftId: "draft-1" })).rejects.toBeInstanceOf(InvalidDraftTransitionError);
+    expect(publisher.publish).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ReviewDraftUseCase } from "../reviewDraftUseCase";
+import { DraftVersionConflictError } from "../updateDraftUseCase";
+import { InvalidDraftTransitionError, PostDraft } from "../../domain/postDraft";
+import { InvalidReviewFeedbackError } from "../../domain/reviewFeedback";
+import { D1ReviewFeedbackRepository } from "../../infrastructure/d1ReviewFeedbackRepository";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+
+describe("ReviewDraftUseCase", () => {
+  let now: Date;
+  const clock = { now: () => now };
+  let stored: PostDraft;
+  let drafts: {
+    save: ReturnType<typeof vi.fn>;
+    saveImageState: ReturnType<typeof vi.fn>;
+    findById: ReturnType<typeof vi.fn>;
+    list: ReturnType<typeof vi.fn>;
+  };
+  let useCase: ReviewDraftUseCase;
+
+  beforeEach(async () => {
+    now = new Date("2025-01-01T00:00:00.000Z");
+    stored = PostDraft.create({ theme: "春の新作", brandVoice: "爽やか" }, clock).assignId("draft-1");
+    drafts = {
+      save: vi.fn(async (draft: PostDraft) => {
+        stored = draft;
+      }),
+      findById: vi.fn(async (id: string) => (id === stored.id ? stored : null)),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    let sequence = 0;
+    useCase = new ReviewDraftUseCase(
+      drafts,
+      new D1ReviewFeedbackRepository(await createSqliteD1()),
+      { next: () => `review-${++sequence}` },
+      clock
+    );
+  });
+
+  // 正常系: 差し戻しを経て承認されるまでの判断が状態に反映され、履歴に記録順で残ることを検証する
+  it("records rework and approval in the review history", async () => {
+    const rework = await useCase.requestRework({
+      draftId: "draft-1",
+      reviewerId: "editor-1",
+      comments: "CTAを明確に",
+      tags: ["CTA"],
+    });
+    expect(rework?.draft.status).toBe("draft");
+    expect(drafts.save).not.toHaveBeenCalled();
+
+    now = new Date("2025-01-01T01:00:00.000Z");
+    const approved = await useCase.approve({ draftId: "draft-1", reviewerId: "editor-2", expectedVersion: 1 });
+    expect(approved?.draft).toMatchObject({ status: "approved", version: 2 });
+
+    const history = await useCase.history("draft-1");
+    expect(history).toEqual({
+      draftId: "draft-1",
+      status: "approved",
+      items: [
+        {
+          id: "review-1",
+          draftId: "draft-1",
+          reviewerId: "editor-1",
+          comments: "CTAを明確に",
+          tags: ["cta"],
+          resolution: "rework",
+          draftVersion: 1,
+          createdAt: "2025-01-01T00:00:00.000Z",
+        },
+        {
+          id: "review-2",
+          draftId: "draft-1",
+          reviewerId: "editor-2",
+          comments: undefined,
+          tags: [],
+          resolution: "accepted",
+          draftVersion: 1,
+          createdAt: "2025-01-01T01:00:00.000Z",
+        },
+      ],
+    });
+  });
+
+  // 異常系: 不正な判断ではドラフトもフィードバックも保存しないことを検証する
+  it("does not record rejected decisions", async () => {
+    await expect(useCase.requestRework({ draftId: "draft-1", reviewerId: "editor-1" })).rejects.toBeInstanceOf(
+      InvalidReviewFeedbackError
+    );
+    await expect(
+      useCase.approve({ draftId: "draft-1", reviewerId: "editor-1", expectedVersion: 2 })
+    ).rejects.toBeInstanceOf(DraftVersionConflictError);
+    await useCase.approve({ draftId: "draft-1", reviewerId: "editor-1" });
+    await expect(useCase.approve({ draftId: "draft-1", reviewerId: "editor-1" })).rejects.toBeInstanceOf(
+      InvalidDraftTransitionError
+    );
+
+    expect((await useCase.history("draft-1"))?.items).toHaveLength(1);
+    expect(await useCase.history("missing")).toBeNull();
+  });
+
+  // 正常系: 指定したIDの判断は繰り返し呼び出しても一度だけ反映・記録されることを検証する
+  it("applies a decision with a given feedback id only once", async () => {
+    drafts.save.mockImplementationOnce(async (draft: PostDraft) => {
+      stored = draft;
+      throw new Error("connection reset");
+    });
+    const input = { draftId: "draft-1", reviewerId: "editor-1" };
+
+    await expect(useCase.decideOnce("instance-1-review", input, "accepted")).rejects.toThrow("connection reset");
+    const retried = await useCase.decideOnce("instance-1-review", input, "accepted");
+    const replayed = await useCase.decideOnce("instance-1-review", input, "accepted");
+
+    expect(retried?.draft).toMatchObject({ status: "approved", version: 2 });
+    expect(replayed?.feedback).toEqual(retried?.feedback);
+    expect(drafts.save).toHaveBeenCalledTimes(1);
+    expect((await useCase.history("draft-1"))?.items.map((item) => item.id)).toEqual(["instance-1-review"]);
+  });
+});
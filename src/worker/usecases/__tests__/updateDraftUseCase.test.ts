@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import { DraftVersionConflictError, UpdateDraftUseCase } from "../updateDraftUseCase";
+import { DraftNotEditableError, PostDraft } from "../../domain/postDraft";
+import { ComplianceChecker } from "../../domain/compliance";
+import { DEFAULT_COMPLIANCE_RULE_SETS } from "../../domain/complianceRules";
+import { BrandNotFoundError } from "../manageBrandsUseCase";
+
+describe("UpdateDraftUseCase", () => {
+  const clock = { now: () => new Date("2025-01-02T00:00:00.000Z") };
+  const stored = PostDraft.create(
+    { theme: "春の新作スニーカー", brandVoice: "爽やか", caption: "旧キャプション" },
+    { now: () => new Date("2025-01-01T00:00:00.000Z") }
+  ).assignId("draft-123");
+
+  // 正常系: バージョンが一致する場合に編集内容を保存し新しいバージョンを返すことを検証する
+  it("saves edits when the expected version matches", async () => {
+    const repository = {
+      save: vi.fn().mockResolvedValue(undefined),
+      findById: vi.fn().mockResolvedValue(stored),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    const useCase = new UpdateDraftUseCase(repository, clock);
+
+    const result = await useCase.execute({
+      id: "draft-123",
+      expectedVersion: 1,
+      changes: { caption: "新キャプション" },
+    });
+
+    expect(repository.save).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ id: "draft-123", caption: "新キャプション", version: 2 });
+  });
+
+  // 正常系: 編集後の本文をルールセットとブランドの禁止語で検査し直すことを検証する
+  it("rechecks compliance of the edited content", async () => {
+    const repository = {
+      save: vi.fn().mockResolvedValue(undefined),
+      findById: vi.fn().mockResolvedValue(stored),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    const checker = new ComplianceChecker(DEFAULT_COMPLIANCE_RULE_SETS);
+    const brands = { resolve: vi.fn().mockRejectedValue(new BrandNotFoundError("acme")) };
+    const useCase = new UpdateDraftUseCase(repository, clock, checker, brands);
+
+    const result = await useCase.execute({
+      id: "draft-123",
+      expectedVersion: 1,
+      changes: { caption: "最強のグリップ" },
+    });
+
+    expect(result?.complianceViolations).toMatchObject([{ ruleId: "superlative-claim", text: "最強" }]);
+    expect(repository.save.mock.calls[0][0].complianceViolations).toHaveLength(1);
+
+    const branded = new UpdateDraftUseCase(
+      { ...repository, findById: vi.fn().mockResolvedValue(PostDraft.restore({ ...stored.toJSON(), brandId: "acme" })) },
+      clock,
+      checker,
+      { resolve: vi.fn().mockResolvedValue({ bannedWords: ["グリップ"] }) } as never
+    );
+    const brandResult = await branded.execute({ id: "draft-123", expectedVersion: 1, changes: { caption: "最強のグリップ" } });
+    expect(brandResult?.complianceViolations?.map((violation) => violation.ruleId)).toEqual(["superlative-claim", "banned-word"]);
+  });
+
+  // 異常系: 他の編集が先に保存されていた場合に競合エラーとなることを検証する
+  it("throws a conflict error when the version is stale", async () => {
+    const repository = {
+      save: vi.fn(),
+      findById: vi.fn().mockResolvedValue(stored.update({ caption: "先行編集" }, clock)),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    const useCase = new UpdateDraftUseCase(repository, clock);
+
+    await expect(
+      useCase.execute({ id: "draft-123", expectedVersion: 1, changes: { caption: "後続編集" } })
+    ).rejects.toBeInstanceOf(DraftVersionConflictError);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+
+  // 正常系: 承認済みのドラフトの内容を編集した場合はドラフト状態に戻して保存することを検証する
+  it("returns an edited approved draft to review", async () => {
+    const approved = stored.approve(clock);
+    const repository = {
+      save: vi.fn().mockResolvedValue(undefined),
+      findById: vi.fn().mockResolvedValue(approved),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    const useCase = new UpdateDraftUseCase(repository, clock);
+
+    const result = await useCase.execute({ id: "draft-123", expectedVersion: 2, changes: { caption: "新キャプション" } });
+
+    expect(result).toMatchObject({ status: "draft", caption: "新キャプション", version: 3 });
+    expect(repository.save.mock.calls[0][0].status).toBe("draft");
+  });
+
+  // 異常系: 公開処理中・公開済みのドラフトは編集せず、保存もしないことを検証する
+  it.each(["publishing", "published"] as const)("rejects edits of %s drafts", async (status) => {
+    const publishing = stored.approve(clock).markPublishing(clock);
+    const current = status === "publishing" ? publishing : publishing.markPublished("media-1", clock);
+    const repository = {
+      save: vi.fn(),
+      findById: vi.fn().mockResolvedValue(current),
+      list: vi.fn(),
+      saveImageState: vi.fn().mockResolvedValue(undefined),
+    };
+    const useCase = new UpdateDraftUseCase(repository, clock);
+
+    await expect(
+      useCase.execute({ id: "draft-123", expectedVersion: current.version, changes: { caption: "新キャプション" } })
+    ).rejects.toBeInstanceOf(DraftNotEditableError);
+    expect(repository.save).not.toHaveBeenCalled();
+  });
+});
@@ -11,8 +11,58 @@
  * - テスタビリティ：依存性注入によりモックテスト可能
  */
 
-import { PostDraft, type DraftClock } from "../domain/postDraft";
+import { PostDraft, type DraftClock, type DraftStatus } from "../domain/postDraft";
+import type { SocialPlatform } from "../domain/platformRules";
+import type { CaptionVariant } from "../domain/captionVariant";
+import type { ComplianceViolation } from "../domain/compliance";
 import type { DraftSummary } from "@/shared/contracts/draft";
+import { toDraftSummary } from "./draftDto";
+
+/**
+ * ドラフト一覧のページ位置
+ * 
+ * 作成日時の降順（同時刻はID降順）で並べたときの、直前ページ末尾の要素。
+ */
+export type DraftListPosition = {
+  createdAt: string;
+  id: string;
+};
+
+/**
+ * ドラフト一覧の検索条件
+ */
+export type DraftListCriteria = {
+  /**
+   * 所属するブランド（nullの場合はブランドを指定せずに作成したドラフトに限る）。
+   * 未指定の場合はブランドで絞り込まない（予約投稿の配信など、全ブランドを扱う処理のみ）
+   */
+  brandId?: string | null;
+  /** 状態の完全一致 */
+  status?: DraftStatus;
+  /** テーマの部分一致 */
+  theme?: string;
+  /** ブランドボイスの部分一致 */
+  brandVoice?: string;
+  /** 作成日時の下限（ISO 8601、この時刻を含む） */
+  createdFrom?: string;
+  /** 作成日時の上限（ISO 8601、この時刻を含む） */
+  createdTo?: string;
+  /** 指定された場合、この時刻までに予約日時を迎え、まだ公開キューへ投入していない承認済みのドラフトに限る */
+  dueBefore?: string;
+  /** 取得件数の上限 */
+  limit: number;
+  /** 指定された場合、この位置より後ろから取得する */
+  after?: DraftListPosition;
+};
+
+/**
+ * ドラフト一覧の1ページ分の結果
+ */
+export type DraftListPage = {
+  drafts: PostDraft[];
+  /** 続きがある場合の次ページ開始位置 */
+  next?: DraftListPosition;
+};
 
 /**
  * ドラフトリポジトリポート
@@ -22,6 +72,16 @@ import type { DraftSummary } from "@/shared/contracts/draft";
  */
 export type DraftRepository = {
   save(draft: PostDraft): Promise<void>;
+  /**
+   * 画像ジョブの状態（画像の状態・ジョブID・画像のキー・失敗理由）と更新日時だけの保存
+   *
+   * バージョンを照合・更新せず、saveは画像ジョブの状態を上書きしない。存在しない場合は何もしない。
+   */
+  saveImageState(draft: PostDraft): Promise<void>;
+  /** 存在しない場合はnullを返す */
+  findById(id: string): Promise<PostDraft | null>;
+  /** 作成日時の降順で検索条件に合うドラフトを返す */
+  list(criteria: DraftListCriteria): Promise<DraftListPage>;
 };
 
 /**
@@ -41,14 +101,24 @@ export type IdProvider = {
  * この時点でAIによるコンテンツ生成は完了している前提。
  */
 export type CreateDraftInput = {
+  /** 所属するブランドのID（ブランド未指定の場合は省略） */
+  brandId?: string;
   theme: string;
   brandVoice: string;
   product?: string;
   imagePrompt?: string;
   targetPersona?: string;
+  platform: SocialPlatform;
   caption: string;
   hashtags: string[];
   altText: string;
+  /** 生成に使われたプロンプトテンプレート（既定プロンプトの場合は省略） */
+  promptTemplateId?: string;
+  promptTemplateVersion?: number;
+  /** 生成されたキャプション案（案を生成しなかった場合は省略）。先頭の案が採用中になる */
+  variants?: CaptionVariant[];
+  /** 本文のコンプライアンスチェックの結果（チェックしていない場合は省略） */
+  complianceViolations?: ComplianceViolation[];
 };
 
 /**
@@ -90,14 +160,29 @@ export class CreateDraftUseCase {
     await this.repository.save(draft);
 
     // DTOの生成と返却
-    const json = draft.toJSON();
-    return {
-      id: json.id!, // この時点でIDは必ず存在
-      status: json.status,
-      caption: json.caption ?? "",
-      hashtags: json.hashtags ?? [],
-      altText: json.altText ?? "",
-      createdAt: json.createdAt,
-    };
+    return toDraftSummary(draft);
+  }
+
+  /**
+   * IDを指定したドラフト作成の実行
+   *
+   * 同じIDのドラフトが既にあれば作成せずにそれを返す。
+   * 永続ワークフローのステップが保存後に失敗して再試行されても、ドラフトを二重に作成しない。
+   *
+   * @param draftId 割り当てるID
+   * @param input AIが生成したコンテンツを含む入力データ
+   * @returns 作成された、または作成済みのドラフトの情報
+   * @throws ドメインエンティティの生成時にビジネスルール違反があった場合
+   */
+  async executeOnce(draftId: string, input: CreateDraftInput): Promise<DraftSummary> {
+    const existing = await this.repository.findById(draftId);
+    if (existing) {
+      return toDraftSummary(existing);
+    }
+
+    const draft = PostDraft.create(input, this.clock).assignId(draftId);
+    await this.repository.save(draft);
+
+    return toDraftSummary(draft);
   }
 }
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview ユースケース層 - 予約投稿配信ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * Cronトリガーから定期的に呼び出され、予約日時を迎えた承認済みドラフトを公開キューへ投入する。
+ *
+ * 設計原則：
+ * - 二重投入の防止：投入済みの記録（dispatchedAt）を先に保存し、
+ *   同時に実行された配信とは楽観的排他制御で競合させる
+ * - 投入後の変更の検出：投入時のバージョンをタスクに含め、公開時に照合させる
+ * - テスタビリティ：現在時刻はDraftClockから取得し、テストで時刻を進められる
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { DraftVersionConflictError } from "./updateDraftUseCase";
+
+/**
+ * 1回の配信で投入するドラフトの上限
+ * 超過分は次回の配信で投入する
+ */
+export const DEFAULT_DISPATCH_BATCH_SIZE = 50;
+
+/**
+ * 公開キューポート
+ *
+ * 本番ではCloudflare Queues、テストではローカルの偽実装を注入する。
+ */
+export type PublishQueue = {
+  /**
+   * @param job 公開するドラフトと投入時のバージョン
+   * @throws キューへの送信に失敗した場合
+   */
+  enqueue(job: { draftId: string; version: number }): Promise<void>;
+};
+
+/**
+ * 配信結果
+ */
+export type DispatchScheduledDraftsResult = {
+  /** 公開キューへ投入したドラフトID */
+  dispatched: string[];
+  /** 同時に更新されたため投入を見送ったドラフトID */
+  skipped: string[];
+  /** キューへの送信に失敗し、次回の配信に回したドラフトID */
+  failed: string[];
+};
+
+/**
+ * 予約投稿配信ユースケース
+ */
+export class DispatchScheduledDraftsUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly queue: PublishQueue,
+    private readonly clock: DraftClock,
+    private readonly batchSize: number = DEFAULT_DISPATCH_BATCH_SIZE
+  ) {}
+
+  /**
+   * 予約日時を迎えたドラフトの配信
+   *
+   * @returns 投入・見送り・失敗したドラフトID
+   * @throws リポジトリの読み書きエラー（同時更新の競合を除く）
+   */
+  async execute(): Promise<DispatchScheduledDraftsResult> {
+    const result: DispatchScheduledDraftsResult = { dispatched: [], skipped: [], failed: [] };
+    const { drafts } = await this.repository.list({
+      dueBefore: this.clock.now().toISOString(),
+      limit: this.batchSize,
+    });
+
+    for (const draft of drafts) {
+      const id = draft.id!;
+      const dispatched = draft.markDispatched(this.clock);
+      try {
+        await this.repository.save(dispatched);
+      } catch (error) {
+        // 別の配信や編集が先に保存した：今回は投入しない
+        if (error instanceof DraftVersionConflictError) {
+          result.skipped.push(id);
+          continue;
+        }
+        throw error;
+      }
+
+      try {
+        await this.queue.enqueue({ draftId: id, version: dispatched.version });
+        result.dispatched.push(id);
+      } catch {
+        // 投入記録を戻し、次回の配信で再び対象にする
+        await this.repository.save(dispatched.releaseDispatch(this.clock));
+        result.failed.push(id);
+      }
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * @fileoverview ユースケース層 - ドラフトDTO変換
+ *
+ * PostDraftアグリゲートを共有コントラクトのDTOに変換する関数群。
+ * 複数のユースケースで同じ変換規則を共有し、API応答の形状を揃える。
+ */
+
+import type { PostDraft } from "../domain/postDraft";
+import type {
+  DraftDetail,
+  DraftImageState,
+  DraftPublicationState,
+  DraftScheduleState,
+  DraftSummary,
+} from "@/shared/contracts/draft";
+
+/**
+ * ドラフト概要DTOへの変換
+ *
+ * 未生成のコンテンツは空文字列・空配列で補完する。
+ *
+ * @param draft ID割り当て済みのドラフトエンティティ
+ * @returns ドラフト概要DTO
+ */
+export function toDraftSummary(draft: PostDraft): DraftSummary {
+  const json = draft.toJSON();
+  return {
+    id: json.id!, // 永続化済みのドラフトではIDは必ず存在
+    brandId: json.brandId,
+    status: json.status,
+    platform: json.platform,
+    caption: json.caption ?? "",
+    hashtags: json.hashtags ?? [],
+    altText: json.altText ?? "",
+    createdAt: json.createdAt,
+    image: toDraftImageState(draft) ?? undefined,
+    variants: json.variants,
+    selectedVariant: json.selectedVariant,
+    publication: toDraftPublicationState(draft) ?? undefined,
+    schedule: toDraftScheduleState(draft) ?? undefined,
+    complianceViolations: json.complianceViolations,
+  };
+}
+
+/**
+ * 予約投稿の設定DTOへの変換
+ *
+ * @param draft ID割り当て済みのドラフトエンティティ
+ * @returns 予約投稿の設定、予約していない場合はnull
+ */
+export function toDraftScheduleState(draft: PostDraft): DraftScheduleState | null {
+  if (!draft.scheduledAt || !draft.scheduleTimezone) {
+    return null;
+  }
+
+  return { scheduledAt: draft.scheduledAt, timezone: draft.scheduleTimezone, dispatchedAt: draft.dispatchedAt };
+}
+
+/**
+ * 公開結果DTOへの変換
+ *
+ * 失敗理由は直近の公開が失敗している（status が failed）場合のみ含める。
+ *
+ * @param draft ID割り当て済みのドラフトエンティティ
+ * @returns 公開結果、公開を試みていない場合はnull
+ */
+export function toDraftPublicationState(draft: PostDraft): DraftPublicationState | null {
+  const error = draft.status === "failed" ? draft.publishError : undefined;
+  if (!draft.publishedMediaId && !error) {
+    return null;
+  }
+
+  return { mediaId: draft.publishedMediaId, publishedAt: draft.publishedAt, error };
+}
+
+/**
+ * 画像ジョブ状態DTOへの変換
+ *
+ * 生成済みの場合は画像取得エンドポイントのURLを含める。
+ *
+ * @param draft ID割り当て済みのドラフトエンティティ
+ * @returns 画像ジョブ状態、ジョブ未投入の場合はnull
+ */
+export function toDraftImageState(draft: PostDraft): DraftImageState | null {
+  if (!draft.imageStatus) {
+    return null;
+  }
+
+  return {
+    jobId: draft.imageJobId,
+    status: draft.imageStatus,
+    url: draft.imageStatus === "done" && draft.imageKey ? `/api/v1/drafts/${draft.id}/image` : undefined,
+    error: draft.imageStatus === "failed" ? draft.imageError : undefined,
+  };
+}
+
+/**
+ * ドラフト詳細DTOへの変換
+ *
+ * 概要に加えて生成時の入力パラメータを含める。
+ * 空文字列で保存されたオプション項目は省略する。
+ *
+ * @param draft ID割り当て済みのドラフトエンティティ
+ * @returns ドラフト詳細DTO
+ */
+export function toDraftDetail(draft: PostDraft): DraftDetail {
+  return {
+    ...toDraftSummary(draft),
+    theme: draft.theme,
+    brandVoice: draft.brandVoice,
+    product: draft.product || undefined,
+    imagePrompt: draft.imagePrompt || undefined,
+    targetPersona: draft.targetPersona || undefined,
+    updatedAt: draft.updatedAt,
+    version: draft.version,
+    promptTemplate:
+      draft.promptTemplateId && draft.promptTemplateVersion !== undefined
+        ? { id: draft.promptTemplateId, version: draft.promptTemplateVersion }
+        : undefined,
+  };
+}
@@ -0,0 +1,151 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト画像生成ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 画像生成キューのジョブを受け取り、画像の生成・保存・ドラフトへの記録を調整する。
+ *
+ * 設計原則：
+ * - 依存性逆転：画像生成（Workers AI等）と画像保存（R2等）をポートで抽象化
+ * - 冪等性：同じジョブが再配信されても同じキーへ上書き保存する
+ * - リトライ判断の分離：失敗時の再試行はキューの呼び出し側が判断し、
+ *   最終的な失敗のみをドラフトに記録する
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { DraftRepository } from "./createDraftUseCase";
+
+/**
+ * 生成された画像
+ */
+export type GeneratedImage = {
+  data: ArrayBuffer;
+  contentType: string;
+};
+
+/**
+ * 画像生成サービスポート
+ *
+ * プロンプトから画像を生成する機能への抽象インターフェイス。
+ * 本番ではWorkers AI、テストではローカルの偽実装を注入する。
+ */
+export type ImageGenerator = {
+  /** 生成器の識別名（保存時のメタデータに記録） */
+  readonly name: string;
+  generate(input: { prompt: string }): Promise<GeneratedImage>;
+};
+
+/**
+ * 画像ストレージから読み出した画像
+ */
+export type StoredImage = {
+  body: ReadableStream;
+  contentType: string;
+};
+
+/**
+ * 画像ストレージポート
+ *
+ * 生成画像のバイナリを保存・取得する機能への抽象インターフェイス。
+ */
+export type ImageStore = {
+  put(key: string, image: GeneratedImage, metadata: Record<string, string>): Promise<void>;
+  /** 存在しない場合はnullを返す */
+  get(key: string): Promise<StoredImage | null>;
+};
+
+/**
+ * 画像生成ジョブ
+ */
+export type GenerateDraftImageInput = {
+  draftId: string;
+  prompt: string;
+};
+
+/**
+ * 画像生成の結果
+ *
+ * - generated: 画像を保存しドラフトに記録した
+ * - skipped: ドラフトが存在しない（削除済み・TTL切れ）ため処理しなかった
+ */
+export type GenerateDraftImageResult =
+  | { status: "generated"; imageKey: string }
+  | { status: "skipped" };
+
+/**
+ * ドラフト画像のストレージキー
+ *
+ * @param draftId ドラフトID
+ * @param variant 画像のバリエーション名
+ * @returns `drafts/{draftId}/{variant}.png` 形式のキー
+ */
+export function draftImageKey(draftId: string, variant = "original"): string {
+  return `drafts/${draftId}/${variant}.png`;
+}
+
+/**
+ * ドラフト画像生成ユースケース
+ *
+ * 以下の処理を調整：
+ * 1. 対象ドラフトの存在確認とジョブ状態の running への更新
+ * 2. 画像生成
+ * 3. 画像ストレージへの保存
+ * 4. ドラフトへの画像キーの記録
+ */
+export class GenerateDraftImageUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly generator: ImageGenerator,
+    private readonly store: ImageStore,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * 画像生成ジョブの実行
+   *
+   * @param input 画像生成ジョブ
+   * @returns 処理結果
+   * @throws 画像生成・保存・ドラフト更新のいずれかに失敗した場合（呼び出し側で再試行）
+   */
+  async execute(input: GenerateDraftImageInput): Promise<GenerateDraftImageResult> {
+    const draft = await this.repository.findById(input.draftId);
+    if (!draft) {
+      return { status: "skipped" };
+    }
+
+    await this.repository.saveImageState(draft.markImageRunning(this.clock));
+
+    const image = await this.generator.generate({ prompt: input.prompt });
+    const imageKey = draftImageKey(input.draftId);
+    await this.store.put(imageKey, image, {
+      draftId: input.draftId,
+      "x-image-generator": this.generator.name,
+    });
+
+    // 画像生成中に編集されている可能性があるため、最新の状態を読み直して記録する
+    const latest = await this.repository.findById(input.draftId);
+    if (!latest) {
+      return { status: "skipped" };
+    }
+    await this.repository.saveImageState(latest.attachImage(imageKey, this.clock));
+
+    return { status: "generated", imageKey };
+  }
+
+  /**
+   * 最終的な失敗の記録
+   *
+   * リトライ上限に達したジョブについて、失敗理由をドラフトに記録する。
+   *
+   * @param draftId ドラフトID
+   * @param error 最後に発生したエラー
+   */
+  async recordFailure(draftId: string, error: unknown): Promise<void> {
+    const draft = await this.repository.findById(draftId);
+    if (!draft) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await this.repository.saveImageState(draft.markImageFailed(message, this.clock));
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト画像取得ユースケース
+ *
+ * 生成済みのドラフト画像を画像ストレージから読み出す。
+ */
+
+import type { DraftRepository } from "./createDraftUseCase";
+import type { ImageStore, StoredImage } from "./generateDraftImageUseCase";
+
+/**
+ * ドラフト画像取得ユースケース
+ */
+export class GetDraftImageUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly store: ImageStore
+  ) {}
+
+  /**
+   * ドラフト画像の取得
+   *
+   * @param draftId ドラフトID
+   * @returns 画像のストリーム、ドラフトまたは画像が存在しない場合はnull
+   */
+  async execute(draftId: string): Promise<StoredImage | null> {
+    const draft = await this.repository.findById(draftId);
+    if (!draft?.imageKey || draft.imageStatus !== "done") {
+      return null;
+    }
+
+    return this.store.get(draft.imageKey);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト取得ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 保存済みのドラフトをリポジトリポート経由で読み出し、共有DTOとして返却する。
+ *
+ * 設計原則：
+ * - 単一責務：ドラフトの参照のみを担当
+ * - 依存性逆転：DraftRepositoryポートを通じて永続化層に依存
+ * - 不在の明示：見つからない場合は例外ではなくnullで表現
+ */
+
+import type { DraftDetail } from "@/shared/contracts/draft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/**
+ * ドラフト取得ユースケース
+ *
+ * IDを指定してドラフトを取得する。
+ * HTTP層はnullを404レスポンスに変換する。
+ */
+export class GetDraftUseCase {
+  constructor(private readonly repository: DraftRepository) {}
+
+  /**
+   * ドラフト取得の実行
+   *
+   * @param id 取得対象のドラフトID
+   * @returns ドラフト詳細、存在しない場合はnull
+   * @throws 保存データが破損している場合、またはストレージの読み取りエラー
+   */
+  async execute(id: string): Promise<DraftDetail | null> {
+    const draft = await this.repository.findById(id);
+    return draft ? toDraftDetail(draft) : null;
+  }
+}
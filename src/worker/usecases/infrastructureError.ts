@@ -0,0 +1,52 @@
+/**
+ * @fileoverview ユースケース層 - インフラストラクチャの障害
+ *
+ * ポートの実装（KV・D1・Queues など）が外部サービスの障害で処理できなかったことを表すエラー。
+ * 入力値の誤り（DomainValidationError）と区別し、HTTP層では5xxに変換される。
+ * 各アダプターは外部サービスの呼び出しを guardInfrastructure で包み、障害をこのエラーに置き換える。
+ */
+
+/**
+ * インフラストラクチャの障害のコード
+ *
+ * - STORAGE_UNAVAILABLE: ドラフト等の保存先（KV・D1）の読み書きに失敗した
+ * - QUEUE_UNAVAILABLE: 非同期処理のキューへの投入に失敗した
+ */
+export type InfrastructureErrorCode = "STORAGE_UNAVAILABLE" | "QUEUE_UNAVAILABLE";
+
+/**
+ * インフラストラクチャの障害エラー
+ *
+ * 元のエラーは cause に保持する（ログ用。レスポンスには含めない）。
+ */
+export class InfrastructureError extends Error {
+  constructor(
+    readonly code: InfrastructureErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "InfrastructureError";
+  }
+}
+
+/**
+ * 外部サービスの呼び出しの障害の置き換え
+ *
+ * @param code 障害時のエラーコード
+ * @param operation 失敗時のメッセージに使う操作名（例: "read draft"）
+ * @param call 外部サービスの呼び出し
+ * @returns 呼び出しの結果
+ * @throws InfrastructureError 呼び出しが失敗した場合
+ */
+export async function guardInfrastructure<T>(
+  code: InfrastructureErrorCode,
+  operation: string,
+  call: () => Promise<T>
+): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    throw new InfrastructureError(code, `Failed to ${operation}`, { cause: error });
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト一覧ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 検索条件とカーソルを受け取り、保存済みドラフトを作成日時の降順でページングする。
+ *
+ * 設計原則：
+ * - 不透明なカーソル：ページ位置をbase64urlで符号化し、クライアントに構造を見せない
+ * - キーセットページング：オフセットではなく（createdAt, id）で続きを指定し、
+ *   ページ取得中に新規作成があっても重複・欠落が起きない
+ * - 依存性逆転：検索自体はDraftRepositoryポートに委譲
+ */
+
+import type { DraftDetail, DraftListResponse } from "@/shared/contracts/draft";
+import type { DraftListCriteria, DraftListPosition, DraftRepository } from "./createDraftUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/** 1ページあたりの既定件数 */
+export const DEFAULT_DRAFT_PAGE_SIZE = 20;
+
+/** 1ページあたりの最大件数 */
+export const MAX_DRAFT_PAGE_SIZE = 100;
+
+/**
+ * 不正なカーソルエラー
+ *
+ * クライアントが改変した、または別の形式のカーソルを受け取った場合に送出される。
+ * HTTP層では400に変換される。
+ */
+export class InvalidDraftCursorError extends Error {
+  constructor() {
+    super("cursor is invalid");
+    this.name = "InvalidDraftCursorError";
+  }
+}
+
+/**
+ * ドラフト一覧の入力データ
+ */
+export type ListDraftsInput = Omit<DraftListCriteria, "limit" | "after"> & {
+  limit?: number;
+  cursor?: string;
+};
+
+/**
+ * ドラフト一覧ユースケース
+ */
+export class ListDraftsUseCase {
+  constructor(private readonly repository: DraftRepository) {}
+
+  /**
+   * ドラフト一覧の取得
+   *
+   * @param input 検索条件とカーソル
+   * @returns ドラフト詳細の一覧と次ページのカーソル
+   * @throws InvalidDraftCursorError カーソルが不正な場合
+   */
+  async execute(input: ListDraftsInput): Promise<DraftListResponse> {
+    const { cursor, limit, ...filters } = input;
+    const page = await this.repository.list({
+      ...filters,
+      limit: Math.min(Math.max(limit ?? DEFAULT_DRAFT_PAGE_SIZE, 1), MAX_DRAFT_PAGE_SIZE),
+      after: cursor ? decodeCursor(cursor) : undefined,
+    });
+
+    const items: DraftDetail[] = page.drafts.map(toDraftDetail);
+    return { items, nextCursor: page.next ? encodeCursor(page.next) : null };
+  }
+}
+
+/**
+ * ページ位置をカーソル文字列へ符号化
+ *
+ * @param position 次ページの開始位置
+ * @returns base64url形式のカーソル
+ */
+function encodeCursor(position: DraftListPosition): string {
+  const json = JSON.stringify([position.createdAt, position.id]);
+  const bytes = new TextEncoder().encode(json);
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binary).replaceAll("+", "-").replaceAll("/", "_").replace(/=+$/, "");
+}
+
+/**
+ * カーソル文字列からページ位置を復号
+ *
+ * @param cursor クライアントから受け取ったカーソル
+ * @returns ページ位置
+ * @throws InvalidDraftCursorError 復号できない、または形式が不正な場合
+ */
+function decodeCursor(cursor: string): DraftListPosition {
+  try {
+    const binary = atob(cursor.replaceAll("-", "+").replaceAll("_", "/"));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const value: unknown = JSON.parse(new TextDecoder().decode(bytes));
+
+    if (
+      Array.isArray(value) &&
+      value.length === 2 &&
+      typeof value[0] === "string" &&
+      typeof value[1] === "string"
+    ) {
+      return { createdAt: value[0], id: value[1] };
+    }
+  } catch {
+    // 下で共通のエラーに変換する
+  }
+  throw new InvalidDraftCursorError();
+}
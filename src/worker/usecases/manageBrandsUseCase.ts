@@ -0,0 +1,170 @@
+/**
+ * @fileoverview ユースケース層 - ブランド管理ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 管理APIからのブランドの作成・一覧・取得・編集・削除と、
+ * 生成ワークフローからのブランドプロフィールの解決を担当する。
+ *
+ * 設計原則：
+ * - 依存性逆転：BrandRepositoryポートを通じて永続化層に依存
+ * - 不在の明示：取得は見つからない場合にnullを返し、解決・編集は例外を送出する
+ */
+
+import { Brand, type BrandChanges, type BrandProfile } from "../domain/brand";
+import type { DraftClock } from "../domain/postDraft";
+import type { IdProvider } from "./createDraftUseCase";
+import type { BrandDto, BrandListResponse, CreateBrandRequest } from "@/shared/contracts/brand";
+
+/**
+ * ブランドリポジトリポート
+ */
+export type BrandRepository = {
+  /** 存在しない場合はnullを返す */
+  findById(id: string): Promise<Brand | null>;
+  /** 名前の昇順で全ブランドを返す */
+  list(): Promise<Brand[]>;
+  save(brand: Brand): Promise<void>;
+  /** 削除した場合はtrue、存在しない場合はfalseを返す */
+  delete(id: string): Promise<boolean>;
+};
+
+/**
+ * ブランドプロフィール解決ポート
+ *
+ * リクエストで指定されたブランドのプロフィールを読み込む。
+ * ManageBrandsUseCase が実装する。
+ */
+export type BrandProfileResolver = {
+  /** 存在しない場合は例外を送出する */
+  resolve(brandId: string): Promise<BrandProfile>;
+};
+
+/**
+ * ブランド未検出エラー
+ *
+ * 指定されたブランドが存在しない場合に送出される。
+ */
+export class BrandNotFoundError extends Error {
+  constructor(readonly brandId: string) {
+    super(`Brand ${brandId} not found`);
+    this.name = "BrandNotFoundError";
+  }
+}
+
+/**
+ * ブランド管理ユースケース
+ */
+export class ManageBrandsUseCase {
+  constructor(
+    private readonly repository: BrandRepository,
+    private readonly idProvider: IdProvider,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * ブランドの作成
+   *
+   * @param input 作成するブランドの内容
+   * @returns 作成されたブランド
+   * @throws InvalidBrandError ビジネスルールに違反する場合
+   */
+  async create(input: CreateBrandRequest): Promise<BrandDto> {
+    const brand = Brand.create(
+      this.idProvider.next(),
+      {
+        name: input.name,
+        voice: input.voice,
+        defaultHashtags: input.defaultHashtags ?? [],
+        bannedWords: input.bannedWords ?? [],
+        defaultPersona: input.defaultPersona,
+      },
+      this.clock
+    );
+    await this.repository.save(brand);
+    return toBrandDto(brand);
+  }
+
+  /**
+   * ブランド一覧の取得
+   *
+   * @returns 名前の昇順に並んだ全ブランド
+   */
+  async list(): Promise<BrandListResponse> {
+    const brands = await this.repository.list();
+    return { items: brands.map(toBrandDto) };
+  }
+
+  /**
+   * ブランドの取得
+   *
+   * @param brandId ブランドID
+   * @returns ブランド、存在しない場合はnull
+   */
+  async get(brandId: string): Promise<BrandDto | null> {
+    const brand = await this.repository.findById(brandId);
+    return brand ? toBrandDto(brand) : null;
+  }
+
+  /**
+   * ブランドの編集
+   *
+   * @param brandId ブランドID
+   * @param changes 上書きするフィールド
+   * @returns 編集後のブランド
+   * @throws BrandNotFoundError ブランドが存在しない場合
+   * @throws InvalidBrandError ビジネスルールに違反する場合
+   */
+  async update(brandId: string, changes: BrandChanges): Promise<BrandDto> {
+    const updated = (await this.require(brandId)).update(changes, this.clock);
+    await this.repository.save(updated);
+    return toBrandDto(updated);
+  }
+
+  /**
+   * ブランドの削除
+   *
+   * ブランドに属するドラフトは削除しない。削除後も、X-Brand-ID に削除したブランドのIDを指定すれば参照できる。
+   *
+   * @param brandId ブランドID
+   * @returns 削除した場合はtrue、存在しない場合はfalse
+   */
+  async delete(brandId: string): Promise<boolean> {
+    return this.repository.delete(brandId);
+  }
+
+  /**
+   * 生成に使うブランドプロフィールの解決
+   *
+   * @param brandId ブランドID
+   * @returns ブランドのプロフィール
+   * @throws BrandNotFoundError ブランドが存在しない場合
+   */
+  async resolve(brandId: string): Promise<BrandProfile> {
+    return (await this.require(brandId)).profile;
+  }
+
+  private async require(brandId: string): Promise<Brand> {
+    const brand = await this.repository.findById(brandId);
+    if (!brand) {
+      throw new BrandNotFoundError(brandId);
+    }
+    return brand;
+  }
+}
+
+/**
+ * ブランドDTOへの変換
+ */
+function toBrandDto(brand: Brand): BrandDto {
+  const json = brand.toJSON();
+  return {
+    id: json.id,
+    name: json.name,
+    voice: json.voice,
+    defaultHashtags: json.defaultHashtags,
+    bannedWords: json.bannedWords,
+    defaultPersona: json.defaultPersona,
+    createdAt: json.createdAt,
+    updatedAt: json.updatedAt,
+  };
+}
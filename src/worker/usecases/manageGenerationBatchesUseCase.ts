@@ -0,0 +1,261 @@
+/**
+ * @fileoverview ユースケース層 - 一括生成バッチ管理ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * アップロードされたブリーフからのバッチの作成と行のキューへの投入、
+ * キューコンシューマーからの行の結果の記録、進捗の取得を担当する。
+ *
+ * 設計原則：
+ * - 依存性逆転：GenerationBatchRepository・GenerationBatchQueueポートを通じてインフラ層に依存
+ * - 再配信への耐性：結果は生成待ちの行にだけ記録し、処理済みの行は上書きしない
+ * - ブランドの分離：進捗はバッチを作成したリクエストのブランドからだけ参照できる
+ * - クォータの返却：失敗した行の分の生成クォータは、バッチの作成時に予約したカウンターに戻す
+ */
+
+import {
+  GenerationBatch,
+  failBatchRow,
+  succeedBatchRow,
+  type GenerationBatchRow,
+  type GenerationBatchRowError,
+  type GenerationBatchRowInput,
+} from "../domain/generationBatch";
+import type { DraftClock } from "../domain/postDraft";
+import type { IdProvider } from "./createDraftUseCase";
+import type { DraftGenerationRequest } from "@/shared/contracts/draft";
+import type { GenerationBatchDto } from "@/shared/contracts/generationBatch";
+
+/**
+ * 一括生成バッチリポジトリポート
+ */
+export type GenerationBatchRepository = {
+  /**
+   * @param batch 作成したバッチ
+   * @param requests 生成待ちの行の番号から生成リクエストへの対応
+   * @param quotaKey 生成待ちの行の分の生成クォータを予約したカウンターのキー（予約していない場合は未定義）
+   */
+  create(
+    batch: GenerationBatch,
+    requests: ReadonlyMap<number, DraftGenerationRequest>,
+    quotaKey?: string
+  ): Promise<void>;
+  /** 存在しない場合はnullを返す */
+  findById(id: string): Promise<GenerationBatch | null>;
+  /** 存在しない場合はnullを返す（検証に失敗した行は request を、予約なしのバッチの行は quotaKey を持たない） */
+  findRow(
+    batchId: string,
+    index: number
+  ): Promise<{ row: GenerationBatchRow; request?: DraftGenerationRequest; quotaKey?: string } | null>;
+  /** 生成待ちの行だけを更新し、更新した場合はtrue、処理済みの場合はfalseを返す */
+  saveRow(batchId: string, row: GenerationBatchRow): Promise<boolean>;
+};
+
+/**
+ * 一括生成キューポート
+ *
+ * 本番ではCloudflare Queues、テストではローカルの偽実装を注入する。
+ */
+export type GenerationBatchQueue = {
+  /**
+   * @param rows 生成する行
+   * @throws InfrastructureError キューへの送信に失敗した場合
+   */
+  enqueue(rows: { batchId: string; index: number }[]): Promise<void>;
+};
+
+/**
+ * 生成クォータの返却ポート
+ *
+ * 本番ではレート制限カウンターストアの releaseGenerations を注入する。
+ */
+export type GenerationQuotaRefund = {
+  /**
+   * @param quotaKey バッチの作成時に予約したカウンターのキー
+   * @param count 戻す生成の回数
+   */
+  release(quotaKey: string, count: number): Promise<void>;
+};
+
+/**
+ * バッチの行の入力
+ *
+ * 検証に通った行は生成リクエストを、通らなかった行はテーマ（指定されていれば）と失敗理由を持つ。
+ */
+export type GenerationBatchEntry =
+  | { request: DraftGenerationRequest }
+  | { theme?: string; error: GenerationBatchRowError };
+
+/**
+ * 一括生成バッチ管理ユースケース
+ */
+export class ManageGenerationBatchesUseCase {
+  constructor(
+    private readonly repository: GenerationBatchRepository,
+    private readonly queue: GenerationBatchQueue,
+    private readonly idProvider: IdProvider,
+    private readonly clock: DraftClock,
+    private readonly quota?: GenerationQuotaRefund
+  ) {}
+
+  /**
+   * バッチの作成
+   *
+   * 検証に通った行をキューに投入する。投入に失敗した場合は、生成待ちの行を失敗として記録してから送出する。
+   *
+   * @param brandId リクエストのブランド（ブランドなしの場合はnull）
+   * @param entries アップロードした順の行
+   * @param quotaKey 生成待ちの行の分の生成クォータを予約したカウンターのキー（失敗した行の分を戻すために保存する）
+   * @returns 作成したバッチの進捗
+   * @throws InvalidGenerationBatchError 行がない、または上限を超える場合
+   * @throws InfrastructureError キューへの送信に失敗した場合
+   */
+  async create(
+    brandId: string | null,
+    entries: readonly GenerationBatchEntry[],
+    quotaKey?: string
+  ): Promise<GenerationBatchDto> {
+    const requests = new Map<number, DraftGenerationRequest>();
+    const rows = entries.map((entry, index): GenerationBatchRowInput => {
+      if ("error" in entry) {
+        return { theme: entry.theme, error: entry.error };
+      }
+      requests.set(index, entry.request);
+      return { theme: entry.request.theme, draftId: this.idProvider.next() };
+    });
+    const batch = GenerationBatch.create({ id: this.idProvider.next(), brandId: brandId ?? undefined }, rows, this.clock);
+    await this.repository.create(batch, requests, quotaKey);
+
+    const queued = batch.queuedRows.map((row) => ({ batchId: batch.id, index: row.index }));
+    if (queued.length > 0) {
+      try {
+        await this.queue.enqueue(queued);
+      } catch (error) {
+        for (const row of batch.queuedRows) {
+          await this.repository.saveRow(batch.id, failBatchRow(row, { message: "Failed to enqueue row" }, this.clock));
+        }
+        throw error;
+      }
+    }
+
+    return toGenerationBatchDto(batch);
+  }
+
+  /**
+   * バッチの進捗の取得
+   *
+   * @param brandId リクエストのブランド（ブランドなしの場合はnull）
+   * @param batchId バッチID
+   * @returns 存在しない（または別のブランドの）場合はnull
+   */
+  async get(brandId: string | null, batchId: string): Promise<GenerationBatchDto | null> {
+    const batch = await this.repository.findById(batchId);
+    if (!batch || (batch.brandId ?? null) !== brandId) {
+      return null;
+    }
+    return toGenerationBatchDto(batch);
+  }
+
+  /**
+   * 生成待ちの行の取得
+   *
+   * @param batchId バッチID
+   * @param index 行の番号
+   * @returns 行と生成リクエスト、存在しない・処理済みの場合はnull
+   */
+  async findQueuedRow(
+    batchId: string,
+    index: number
+  ): Promise<{ row: GenerationBatchRow; request: DraftGenerationRequest } | null> {
+    const found = await this.repository.findRow(batchId, index);
+    if (!found || found.row.status !== "queued" || !found.request) {
+      return null;
+    }
+    return { row: found.row, request: found.request };
+  }
+
+  /**
+   * 行の成功の記録
+   *
+   * @param batchId バッチID
+   * @param index 行の番号
+   * @param draft 作成したドラフトのキャプションとハッシュタグ
+   * @returns 記録した場合はtrue、存在しない・処理済みの場合はfalse
+   */
+  async recordSuccess(
+    batchId: string,
+    index: number,
+    draft: { caption: string; hashtags: string[] }
+  ): Promise<boolean> {
+    return this.updateQueuedRow(batchId, index, (row) => succeedBatchRow(row, draft, this.clock));
+  }
+
+  /**
+   * 行の失敗の記録
+   *
+   * 記録した行の分の生成クォータを戻す。戻せなかった場合も失敗の記録は取り消さない（ログに残す）。
+   *
+   * @param batchId バッチID
+   * @param index 行の番号
+   * @param error 失敗理由
+   * @returns 記録した場合はtrue、存在しない・処理済みの場合はfalse
+   */
+  async recordFailure(batchId: string, index: number, error: GenerationBatchRowError): Promise<boolean> {
+    const found = await this.repository.findRow(batchId, index);
+    if (!found || found.row.status !== "queued") {
+      return false;
+    }
+    // 処理済みの行は更新されないため、再配信された失敗でクォータを二重に戻すことはない
+    if (!(await this.repository.saveRow(batchId, failBatchRow(found.row, error, this.clock)))) {
+      return false;
+    }
+    if (found.quotaKey && this.quota) {
+      try {
+        await this.quota.release(found.quotaKey, 1);
+      } catch (releaseError) {
+        console.warn(`Failed to release the generation quota for row ${index} of batch ${batchId}`, releaseError);
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 生成待ちの行の更新
+   */
+  private async updateQueuedRow(
+    batchId: string,
+    index: number,
+    update: (row: GenerationBatchRow) => GenerationBatchRow
+  ): Promise<boolean> {
+    const found = await this.repository.findRow(batchId, index);
+    if (!found || found.row.status !== "queued") {
+      return false;
+    }
+    return this.repository.saveRow(batchId, update(found.row));
+  }
+}
+
+/**
+ * バッチの進捗DTOへの変換
+ */
+function toGenerationBatchDto(batch: GenerationBatch): GenerationBatchDto {
+  const json = batch.toJSON();
+  return {
+    id: json.id,
+    status: batch.status,
+    total: json.rows.length,
+    succeeded: batch.count("succeeded"),
+    failed: batch.count("failed"),
+    createdAt: json.createdAt,
+    completedAt: batch.completedAt,
+    rows: json.rows.map((row) => ({
+      index: row.index,
+      theme: row.theme,
+      status: row.status,
+      draftId: row.draftId,
+      caption: row.caption,
+      hashtags: row.hashtags,
+      error: row.error,
+      completedAt: row.completedAt,
+    })),
+  };
+}
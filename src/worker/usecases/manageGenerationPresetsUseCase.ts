@@ -0,0 +1,99 @@
+/**
+ * @fileoverview ユースケース層 - 生成プリセット管理ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 生成フォームからのブランドトーン・ターゲットペルソナのプリセットの一覧・保存・削除を担当する。
+ *
+ * 設計原則：
+ * - 依存性逆転：GenerationPresetRepositoryポートを通じて永続化層に依存
+ * - ブランドの分離：一覧・削除はリクエストのブランドに属するプリセットだけを対象とする
+ */
+
+import { GenerationPreset, type GenerationPresetKind } from "../domain/generationPreset";
+import type { DraftClock } from "../domain/postDraft";
+import type { IdProvider } from "./createDraftUseCase";
+import type {
+  CreateGenerationPresetRequest,
+  GenerationPresetDto,
+  GenerationPresetListResponse,
+} from "@/shared/contracts/generationPreset";
+
+/**
+ * 生成プリセットリポジトリポート
+ *
+ * brandId が null の場合はブランドに属さないプリセットを対象とする。
+ */
+export type GenerationPresetRepository = {
+  /** 種類・名前の昇順で返す（kind 指定時はその種類のみ） */
+  list(brandId: string | null, kind?: GenerationPresetKind): Promise<GenerationPreset[]>;
+  save(preset: GenerationPreset): Promise<void>;
+  /** 削除した場合はtrue、存在しない（または別のブランドの）場合はfalseを返す */
+  delete(id: string, brandId: string | null): Promise<boolean>;
+};
+
+/**
+ * 生成プリセット管理ユースケース
+ */
+export class ManageGenerationPresetsUseCase {
+  constructor(
+    private readonly repository: GenerationPresetRepository,
+    private readonly idProvider: IdProvider,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * プリセット一覧の取得
+   *
+   * @param brandId リクエストのブランド（ブランドなしの場合はnull）
+   * @param kind 絞り込む種類
+   * @returns 種類・名前の昇順に並んだプリセット
+   */
+  async list(brandId: string | null, kind?: GenerationPresetKind): Promise<GenerationPresetListResponse> {
+    const presets = await this.repository.list(brandId, kind);
+    return { items: presets.map(toGenerationPresetDto) };
+  }
+
+  /**
+   * プリセットの保存
+   *
+   * @param brandId リクエストのブランド（ブランドなしの場合はnull）
+   * @param input 保存する内容
+   * @returns 保存されたプリセット
+   * @throws InvalidGenerationPresetError ビジネスルールに違反する場合
+   */
+  async create(brandId: string | null, input: CreateGenerationPresetRequest): Promise<GenerationPresetDto> {
+    const preset = GenerationPreset.create(
+      {
+        id: this.idProvider.next(),
+        brandId: brandId ?? undefined,
+        kind: input.kind,
+        label: input.label,
+        value: input.value,
+      },
+      this.clock
+    );
+    await this.repository.save(preset);
+    return toGenerationPresetDto(preset);
+  }
+
+  /**
+   * プリセットの削除
+   *
+   * 保存済みのドラフトは値をコピーして保持しているため、削除の影響を受けない。
+   *
+   * @param brandId リクエストのブランド（ブランドなしの場合はnull）
+   * @param presetId プリセットID
+   * @returns 削除した場合はtrue、存在しない場合はfalse
+   */
+  async delete(brandId: string | null, presetId: string): Promise<boolean> {
+    return this.repository.delete(presetId, brandId);
+  }
+}
+
+/**
+ * 生成プリセットDTOへの変換
+ */
+function toGenerationPresetDto(preset: GenerationPreset): GenerationPresetDto {
+  const json = preset.toJSON();
+  return { id: json.id, kind: json.kind, label: json.label, value: json.value, createdAt: json.createdAt };
+}
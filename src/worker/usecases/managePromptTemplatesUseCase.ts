@@ -0,0 +1,211 @@
+/**
+ * @fileoverview ユースケース層 - プロンプトテンプレート管理ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 管理APIからのテンプレートの作成・一覧・有効化・ロールバックと、
+ * 生成ワークフローからのテンプレート解決を担当する。
+ *
+ * 設計原則：
+ * - 依存性逆転：PromptTemplateRepositoryポートを通じて永続化層に依存
+ * - 書き込み順序：バージョン本文を先に保存し、存在しないバージョンを参照させない
+ */
+
+import {
+  PromptTemplate,
+  PromptTemplateVersion,
+  assertPromptTemplateId,
+} from "../domain/promptTemplate";
+import type { DraftClock } from "../domain/postDraft";
+import type {
+  PromptTemplateDetail,
+  PromptTemplateListResponse,
+  PromptTemplateSummary,
+} from "@/shared/contracts/promptTemplate";
+
+/**
+ * プロンプトテンプレートリポジトリポート
+ *
+ * テンプレート（有効バージョンの管理情報）と各バージョンの本文を別々に保存する。
+ */
+export type PromptTemplateRepository = {
+  /** 存在しない場合はnullを返す */
+  findById(id: string): Promise<PromptTemplate | null>;
+  /** ID昇順で全テンプレートを返す */
+  list(): Promise<PromptTemplate[]>;
+  save(template: PromptTemplate): Promise<void>;
+  /** 存在しない場合はnullを返す */
+  findVersion(templateId: string, version: number): Promise<PromptTemplateVersion | null>;
+  /** バージョン昇順で返す */
+  listVersions(templateId: string): Promise<PromptTemplateVersion[]>;
+  saveVersion(version: PromptTemplateVersion): Promise<void>;
+};
+
+/**
+ * プロンプトテンプレート未検出エラー
+ *
+ * 指定されたテンプレートまたはバージョンが存在しない場合に送出される。
+ */
+export class PromptTemplateNotFoundError extends Error {
+  constructor(
+    readonly templateId: string,
+    readonly version?: number
+  ) {
+    super(
+      version === undefined
+        ? `Prompt template ${templateId} not found`
+        : `Prompt template ${templateId} version ${version} not found`
+    );
+    this.name = "PromptTemplateNotFoundError";
+  }
+}
+
+/**
+ * バージョン作成の入力データ
+ */
+export type CreatePromptTemplateVersionInput = {
+  templateId: string;
+  body: string;
+  description?: string;
+  /** trueの場合、作成したバージョンを即座に有効にする */
+  activate?: boolean;
+};
+
+/**
+ * プロンプトテンプレート管理ユースケース
+ */
+export class ManagePromptTemplatesUseCase {
+  constructor(
+    private readonly repository: PromptTemplateRepository,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * バージョンの作成
+   *
+   * テンプレートが存在しない場合は作成し、バージョン1を有効にする。
+   * 既存テンプレートでは activate 指定時のみ有効バージョンを切り替える。
+   *
+   * @param input 作成するバージョンの内容
+   * @returns 作成後のテンプレート詳細
+   * @throws InvalidPromptTemplateError IDや本文がビジネスルールに違反する場合
+   */
+  async createVersion(input: CreatePromptTemplateVersionInput): Promise<PromptTemplateDetail> {
+    assertPromptTemplateId(input.templateId);
+    const existing = await this.repository.findById(input.templateId);
+
+    let template = existing ? existing.addVersion(this.clock) : PromptTemplate.create(input.templateId, this.clock);
+    const version = PromptTemplateVersion.create({
+      templateId: input.templateId,
+      version: template.latestVersion,
+      body: input.body,
+      description: input.description,
+      createdAt: this.clock.now().toISOString(),
+    });
+    if (input.activate) {
+      template = template.activate(version.version, this.clock);
+    }
+
+    await this.repository.saveVersion(version);
+    await this.repository.save(template);
+    return this.toDetail(template);
+  }
+
+  /**
+   * テンプレート一覧の取得
+   *
+   * @returns 全テンプレートの概要
+   */
+  async list(): Promise<PromptTemplateListResponse> {
+    const templates = await this.repository.list();
+    return { items: templates.map(toSummary) };
+  }
+
+  /**
+   * テンプレート詳細の取得
+   *
+   * @param templateId テンプレートID
+   * @returns 全バージョンを含むテンプレート詳細、存在しない場合はnull
+   */
+  async get(templateId: string): Promise<PromptTemplateDetail | null> {
+    const template = await this.repository.findById(templateId);
+    return template ? this.toDetail(template) : null;
+  }
+
+  /**
+   * バージョンの有効化
+   *
+   * @param templateId テンプレートID
+   * @param version 有効にするバージョン
+   * @returns 有効化後のテンプレート詳細
+   * @throws PromptTemplateNotFoundError テンプレートが存在しない場合
+   * @throws InvalidPromptTemplateError バージョンが存在しない場合
+   */
+  async activate(templateId: string, version: number): Promise<PromptTemplateDetail> {
+    const template = await this.require(templateId);
+    const activated = template.activate(version, this.clock);
+    await this.repository.save(activated);
+    return this.toDetail(activated);
+  }
+
+  /**
+   * 直前の有効バージョンへのロールバック
+   *
+   * @param templateId テンプレートID
+   * @returns ロールバック後のテンプレート詳細
+   * @throws PromptTemplateNotFoundError テンプレートが存在しない場合
+   * @throws InvalidPromptTemplateError 戻れる履歴がない場合
+   */
+  async rollback(templateId: string): Promise<PromptTemplateDetail> {
+    const template = await this.require(templateId);
+    const rolledBack = template.rollback(this.clock);
+    await this.repository.save(rolledBack);
+    return this.toDetail(rolledBack);
+  }
+
+  /**
+   * 生成に使うバージョンの解決
+   *
+   * @param templateId テンプレートID
+   * @param version バージョン（未指定時は有効バージョン）
+   * @returns 解決されたバージョン
+   * @throws PromptTemplateNotFoundError テンプレートまたはバージョンが存在しない場合
+   */
+  async resolve(templateId: string, version?: number): Promise<PromptTemplateVersion> {
+    const template = await this.require(templateId);
+    const target = version ?? template.activeVersion;
+    const resolved = template.hasVersion(target)
+      ? await this.repository.findVersion(templateId, target)
+      : null;
+    if (!resolved) {
+      throw new PromptTemplateNotFoundError(templateId, target);
+    }
+    return resolved;
+  }
+
+  private async require(templateId: string): Promise<PromptTemplate> {
+    const template = await this.repository.findById(templateId);
+    if (!template) {
+      throw new PromptTemplateNotFoundError(templateId);
+    }
+    return template;
+  }
+
+  private async toDetail(template: PromptTemplate): Promise<PromptTemplateDetail> {
+    const versions = await this.repository.listVersions(template.id);
+    return { ...toSummary(template), versions: versions.map((version) => version.toJSON()) };
+  }
+}
+
+/**
+ * テンプレート概要DTOへの変換
+ */
+function toSummary(template: PromptTemplate): PromptTemplateSummary {
+  return {
+    id: template.id,
+    activeVersion: template.activeVersion,
+    latestVersion: template.latestVersion,
+    canRollback: template.activationHistory.length > 0,
+    createdAt: template.createdAt,
+    updatedAt: template.updatedAt,
+  };
+}
@@ -0,0 +1,388 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト公開ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 承認済みのドラフトと生成画像をSNSへ投稿し、結果をドラフトの状態と公開ログに記録する。
+ *
+ * 設計原則：
+ * - 依存性逆転：投稿先のAPI（Meta Graph API等）をPublisherポートで抽象化
+ * - 二重公開の防止：publishing 状態を先に保存し、同時に公開を始めたリクエストを排他制御で弾く
+ * - 監査証跡：成功・失敗を問わず、公開の試行ごとに1件のログを追記する
+ * - 回復：公開処理中のまま残ったドラフトは、公開ログの結果（なければ公開失敗）で状態を確定させる
+ */
+
+import type { DraftClock, PostDraft } from "../domain/postDraft";
+import { composePostText, type SocialPlatform } from "../domain/platformRules";
+import { hasBlockingViolations } from "../domain/compliance";
+import type { PublishDraftResponse, PublishLogDto, PublishLogListResponse } from "@/shared/contracts/publish";
+import type { DraftRepository, IdProvider } from "./createDraftUseCase";
+import { DraftVersionConflictError } from "./updateDraftUseCase";
+import { toDraftDetail, toDraftPublicationState } from "./draftDto";
+
+/**
+ * 公開失敗の分類
+ *
+ * - rate_limited: 投稿先のレート制限（時間をおいて再試行できる）
+ * - rejected: 投稿内容や認証情報が拒否された（再試行しても成功しない）
+ * - unavailable: 投稿先の障害・通信エラー・想定外の応答
+ */
+export type PublishErrorCode = "rate_limited" | "rejected" | "unavailable";
+
+/**
+ * 公開処理中のまま残ったドラフトを回復するまでの時間（ミリ秒）
+ *
+ * 投稿先の応答待ちより十分に長くし、進行中の公開を回復の対象にしない。
+ */
+const PUBLISHING_TIMEOUT_MS = 15 * 60 * 1000;
+
+/** 定期実行で一度に回復するドラフトの上限 */
+const RECOVERY_BATCH_SIZE = 50;
+
+/**
+ * 公開失敗エラー
+ *
+ * Publisherの実装が投稿先の応答を分類して送出する。
+ */
+export class PublishFailedError extends Error {
+  constructor(
+    readonly code: PublishErrorCode,
+    message: string,
+    /** 再試行までの待機秒数（投稿先が示した場合のみ） */
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = "PublishFailedError";
+  }
+}
+
+/**
+ * 公開できないドラフトエラー
+ *
+ * 画像が未生成の場合や、投稿先が対応していないプラットフォームの場合に送出される。
+ */
+export class DraftNotPublishableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DraftNotPublishableError";
+  }
+}
+
+/**
+ * 投稿先に渡す公開内容
+ */
+export type PublishablePost = {
+  draftId: string;
+  platform: SocialPlatform;
+  /** ハッシュタグを末尾に含めた投稿本文 */
+  caption: string;
+  altText?: string;
+  /** 生成画像のストレージキー（例: drafts/{draftId}/original.png） */
+  imageKey: string;
+};
+
+/**
+ * 公開結果
+ */
+export type PublishResult = {
+  /** 投稿先が発行した投稿ID */
+  mediaId: string;
+};
+
+/**
+ * SNS公開サービスポート
+ *
+ * 本番ではMeta Graph API、テストではローカルの偽実装を注入する。
+ */
+export type Publisher = {
+  /** 公開ログに記録する識別名 */
+  readonly name: string;
+  supports(platform: SocialPlatform): boolean;
+  /**
+   * @throws PublishFailedError 投稿先が公開を受け付けなかった場合
+   */
+  publish(post: PublishablePost): Promise<PublishResult>;
+};
+
+/**
+ * 公開の試行記録
+ */
+export type PublishLog = {
+  id: string;
+  draftId: string;
+  publisher: string;
+  outcome: "published" | "failed";
+  mediaId?: string;
+  errorCode?: PublishErrorCode;
+  errorMessage?: string;
+  /** 公開を試みたドラフトのバージョン（publishing 状態のバージョン） */
+  draftVersion: number;
+  attemptedAt: string;
+};
+
+/**
+ * 公開ログリポジトリポート
+ *
+ * ログは追記のみで、更新・削除は行わない。
+ */
+export type PublishLogRepository = {
+  save(log: PublishLog): Promise<void>;
+  /** 試行日時の昇順でドラフトの公開ログを返す */
+  listByDraft(draftId: string): Promise<PublishLog[]>;
+};
+
+/**
+ * ドラフト公開の入力データ
+ */
+export type PublishDraftInput = {
+  draftId: string;
+  /** 公開を確認したドラフトのバージョン（If-Matchヘッダー由来、未指定時は照合しない） */
+  expectedVersion?: number;
+  /**
+   * 一時的な公開失敗の後の再試行か（予約投稿の再配信）
+   *
+   * 確認したバージョンからの公開が失敗するたびにドラフトは公開処理中・公開失敗の2版進むため、
+   * 公開ログから失敗した公開だけで進んだと確認できる公開失敗のドラフトも受け付ける。
+   */
+  retryingFailure?: boolean;
+};
+
+/**
+ * ドラフト公開ユースケース
+ *
+ * 以下の処理を調整：
+ * 1. 保存済みドラフトの取得と公開可否の確認（公開処理中のまま残ったドラフトの回復を含む）
+ * 2. publishing 状態の保存（同時公開の検出）
+ * 3. Publisherによる投稿
+ * 4. 公開ログの記録と結果（published / failed）の保存
+ *
+ * 同時公開の検出はリポジトリのバージョン条件付き保存に依存するため、D1を正本とするリポジトリを注入する。
+ */
+export class PublishDraftUseCase {
+  constructor(
+    private readonly drafts: DraftRepository,
+    private readonly publisher: Publisher,
+    private readonly logs: PublishLogRepository,
+    private readonly idProvider: IdProvider,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * ドラフト公開の実行
+   *
+   * @param input 公開するドラフト
+   * @returns 公開後のドラフトと公開ログ、ドラフトが存在しない場合はnull
+   * @throws DraftVersionConflictError 確認したバージョンが最新でない場合、または同時に公開が始まった場合
+   * @throws InvalidDraftTransitionError 承認済み・公開失敗以外の状態の場合
+   * @throws DraftNotPublishableError 画像が未生成、投稿先が対応していない、または修正が必要なコンプライアンス違反が残っている場合
+   * @throws PublishFailedError 投稿先が公開を受け付けなかった場合（ドラフトは failed として保存済み）
+   */
+  async execute(input: PublishDraftInput): Promise<PublishDraftResponse | null> {
+    const found = await this.drafts.findById(input.draftId);
+    if (!found) {
+      return null;
+    }
+    if (input.expectedVersion !== undefined && !(await this.matchesExpectedVersion(found, input))) {
+      throw new DraftVersionConflictError(input.expectedVersion, found.version);
+    }
+    const current = await this.recover(found);
+    if (!this.publisher.supports(current.platform)) {
+      throw new DraftNotPublishableError(`${this.publisher.name} cannot publish to ${current.platform}`);
+    }
+    if (current.imageStatus !== "done" || !current.imageKey) {
+      throw new DraftNotPublishableError("draft has no generated image to publish");
+    }
+    // 承認後に検査し直した本文など、修正が必要な違反が残っているドラフトは投稿しない
+    if (hasBlockingViolations(current.complianceViolations)) {
+      throw new DraftNotPublishableError("draft has blocking compliance violations");
+    }
+
+    // 同じバージョンから先に publishing を保存したリクエストだけが投稿に進み、残りはバージョン競合になる
+    const publishing = current.markPublishing(this.clock);
+    await this.drafts.save(publishing);
+
+    let result: PublishResult;
+    try {
+      result = await this.publisher.publish(toPublishablePost(publishing));
+    } catch (error) {
+      const failure =
+        error instanceof PublishFailedError
+          ? error
+          : new PublishFailedError("unavailable", error instanceof Error ? error.message : "Unknown error");
+      await this.logs.save(
+        this.toLog(publishing, { outcome: "failed", errorCode: failure.code, errorMessage: failure.message })
+      );
+      await this.drafts.save(publishing.markFailed(failure.message, this.clock));
+      throw failure;
+    }
+
+    // ログを先に残し、ドラフトの保存に失敗しても投稿IDから公開済みに回復できるようにする
+    const log = this.toLog(publishing, { outcome: "published", mediaId: result.mediaId });
+    await this.logs.save(log);
+    const published = publishing.markPublished(result.mediaId, this.clock);
+    await this.drafts.save(published);
+
+    return { draft: toDraftDetail(published), attempt: toPublishLogDto(log) };
+  }
+
+  /**
+   * 公開処理中のまま残ったドラフトの一括回復
+   *
+   * 定期実行から呼び出し、全ブランドの公開処理中のドラフトのうち期限を過ぎたものの状態を確定させる。
+   * 同時に公開・回復が進んだドラフトは読み飛ばす。
+   *
+   * @returns 回復したドラフトのID
+   */
+  async recoverStalePublishing(): Promise<string[]> {
+    const page = await this.drafts.list({ status: "publishing", limit: RECOVERY_BATCH_SIZE });
+    const recovered: string[] = [];
+    for (const draft of page.drafts) {
+      if (!this.isStale(draft)) {
+        continue;
+      }
+      try {
+        await this.recover(draft);
+        recovered.push(draft.id!);
+      } catch (error) {
+        if (!(error instanceof DraftVersionConflictError)) throw error;
+      }
+    }
+    return recovered;
+  }
+
+  /**
+   * 公開ログの取得
+   *
+   * @param draftId ドラフトID
+   * @returns 試行日時の昇順に並んだ公開ログ、ドラフトが存在しない場合はnull
+   */
+  async history(draftId: string): Promise<PublishLogListResponse | null> {
+    const draft = await this.drafts.findById(draftId);
+    if (!draft) {
+      return null;
+    }
+
+    const items = await this.logs.listByDraft(draftId);
+    return {
+      draftId,
+      status: draft.status,
+      publication: toDraftPublicationState(draft) ?? undefined,
+      items: items.map(toPublishLogDto),
+    };
+  }
+
+  /**
+   * 確認したバージョンとの照合
+   *
+   * 再試行の場合は、確認したバージョンの後に失敗した公開の記録しかない（編集・差し戻しされていない）公開失敗のドラフトも一致とみなす。
+   */
+  private async matchesExpectedVersion(draft: PostDraft, input: PublishDraftInput): Promise<boolean> {
+    const expectedVersion = input.expectedVersion;
+    if (expectedVersion === undefined || draft.version === expectedVersion) {
+      return true;
+    }
+    const steps = draft.version - expectedVersion;
+    if (!input.retryingFailure || draft.status !== "failed" || steps < 0 || steps % 2 !== 0) {
+      return false;
+    }
+    const failedVersions = new Set(
+      (await this.logs.listByDraft(draft.id!)).filter((log) => log.outcome === "failed").map((log) => log.draftVersion)
+    );
+    for (let version = expectedVersion + 1; version < draft.version; version += 2) {
+      if (!failedVersions.has(version)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 公開処理中のまま残ったドラフトの回復
+   *
+   * 公開処理中の保存から PUBLISHING_TIMEOUT_MS を過ぎたドラフトを、その試行の公開ログの結果で公開済み・公開失敗にする。
+   * ワーカーが投稿の途中で停止した場合などログがない場合は、投稿されたかを確かめられないため公開失敗として記録する。
+   *
+   * @param draft 保存済みのドラフト
+   * @returns 回復したドラフト、回復の対象でない場合はそのまま
+   * @throws DraftVersionConflictError 同時に公開・回復が進んだ場合
+   */
+  private async recover(draft: PostDraft): Promise<PostDraft> {
+    if (draft.status !== "publishing" || !this.isStale(draft)) {
+      return draft;
+    }
+
+    const attempt = (await this.logs.listByDraft(draft.id!)).find((log) => log.draftVersion === draft.version);
+    if (attempt) {
+      const resolved =
+        attempt.outcome === "published" && attempt.mediaId
+          ? draft.markPublished(attempt.mediaId, this.clock)
+          : draft.markFailed(attempt.errorMessage ?? "Publishing failed", this.clock);
+      await this.drafts.save(resolved);
+      return resolved;
+    }
+
+    const message =
+      `Publishing did not finish within ${PUBLISHING_TIMEOUT_MS / 60_000} minutes; ` +
+      `check ${this.publisher.name} for the post before publishing again`;
+    const failed = draft.markFailed(message, this.clock);
+    await this.drafts.save(failed);
+    await this.logs.save(this.toLog(draft, { outcome: "failed", errorCode: "unavailable", errorMessage: message }));
+    return failed;
+  }
+
+  /**
+   * 公開処理中の保存から回復までの時間を過ぎたかの判定
+   */
+  private isStale(draft: PostDraft): boolean {
+    const since = Date.parse(draft.updatedAt ?? draft.createdAt);
+    return since + PUBLISHING_TIMEOUT_MS <= this.clock.now().getTime();
+  }
+
+  /**
+   * 公開ログの組み立て
+   */
+  private toLog(
+    publishing: PostDraft,
+    outcome: Pick<PublishLog, "outcome" | "mediaId" | "errorCode" | "errorMessage">
+  ): PublishLog {
+    return {
+      id: this.idProvider.next(),
+      draftId: publishing.id!,
+      publisher: this.publisher.name,
+      ...outcome,
+      draftVersion: publishing.version,
+      attemptedAt: this.clock.now().toISOString(),
+    };
+  }
+}
+
+/**
+ * 投稿内容への変換
+ *
+ * ハッシュタグは # を付けて本文の後に空行を挟んで並べる（composePostText）。
+ */
+function toPublishablePost(draft: PostDraft): PublishablePost {
+  return {
+    draftId: draft.id!,
+    platform: draft.platform,
+    caption: composePostText(draft.caption ?? "", draft.hashtags ?? []),
+    altText: draft.altText || undefined,
+    imageKey: draft.imageKey!,
+  };
+}
+
+/**
+ * 公開ログDTOへの変換
+ */
+function toPublishLogDto(log: PublishLog): PublishLogDto {
+  return {
+    id: log.id,
+    draftId: log.draftId,
+    publisher: log.publisher,
+    outcome: log.outcome,
+    mediaId: log.mediaId,
+    errorCode: log.errorCode,
+    errorMessage: log.errorMessage,
+    draftVersion: log.draftVersion,
+    attemptedAt: log.attemptedAt,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * @fileoverview ユースケース層 - ドラフトレビューユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * レビュアーによる承認・差し戻しの判断をドラフトの状態に反映し、
+ * 判断ごとのフィードバックをレビュー履歴として記録する。
+ *
+ * 設計原則：
+ * - 依存性逆転：DraftRepository・ReviewFeedbackRepositoryポートを通じて永続化層に依存
+ * - 書き込み順序：ドラフトの状態を先に保存し、同時編集で失敗した判断は履歴に残さない
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import { ReviewFeedback, type ReviewResolution } from "../domain/reviewFeedback";
+import type { ReviewDecisionResponse, ReviewFeedbackDto, ReviewHistoryResponse } from "@/shared/contracts/review";
+import type { DraftRepository, IdProvider } from "./createDraftUseCase";
+import { DraftVersionConflictError } from "./updateDraftUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/**
+ * レビューフィードバックリポジトリポート
+ *
+ * フィードバックは追記のみで、更新・削除は行わない。
+ */
+export type ReviewFeedbackRepository = {
+  save(feedback: ReviewFeedback): Promise<void>;
+  /** 記録日時の昇順でドラフトのフィードバックを返す */
+  listByDraft(draftId: string): Promise<ReviewFeedback[]>;
+};
+
+/**
+ * レビュー判断の入力データ
+ */
+export type ReviewDecisionInput = {
+  draftId: string;
+  reviewerId: string;
+  comments?: string;
+  tags?: string[];
+  /** レビューしたドラフトのバージョン（If-Matchヘッダー由来、未指定時は照合しない） */
+  expectedVersion?: number;
+};
+
+/**
+ * ドラフトレビューユースケース
+ *
+ * 以下の処理を調整：
+ * 1. 保存済みドラフトの取得とバージョン照合
+ * 2. ドメインエンティティでの状態遷移（承認：approved、差し戻し：draft）
+ * 3. ドラフトの永続化
+ * 4. フィードバックの記録
+ */
+export class ReviewDraftUseCase {
+  constructor(
+    private readonly drafts: DraftRepository,
+    private readonly feedback: ReviewFeedbackRepository,
+    private readonly idProvider: IdProvider,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * ドラフトの承認
+   *
+   * @param input レビュー対象のドラフトとレビュアーのコメント
+   * @returns 承認後のドラフトと記録したフィードバック、ドラフトが存在しない場合はnull
+   * @throws DraftVersionConflictError レビューしたバージョンが最新でない場合
+   * @throws InvalidDraftTransitionError 承認できない状態の場合
+   * @throws InvalidReviewFeedbackError レビュアーが未指定の場合
+   */
+  async approve(input: ReviewDecisionInput): Promise<ReviewDecisionResponse | null> {
+    return this.decide(input, "accepted");
+  }
+
+  /**
+   * ドラフトの差し戻し
+   *
+   * @param input レビュー対象のドラフトとレビュアーのコメント
+   * @returns 差し戻し後のドラフトと記録したフィードバック、ドラフトが存在しない場合はnull
+   * @throws DraftVersionConflictError レビューしたバージョンが最新でない場合
+   * @throws InvalidDraftTransitionError 公開処理中・公開済みの場合
+   * @throws InvalidReviewFeedbackError レビュアーまたはコメントが未指定の場合
+   */
+  async requestRework(input: ReviewDecisionInput): Promise<ReviewDecisionResponse | null> {
+    return this.decide(input, "rework");
+  }
+
+  /**
+   * フィードバックIDを指定したレビュー判断
+   *
+   * 同じIDのフィードバックが記録済みであれば判断を繰り返さずにそれを返す。
+   * ドラフトが判断後の状態（承認なら approved）に保存済みであれば状態遷移を省き、フィードバックだけを記録する。
+   * 永続ワークフローのステップが保存後に失敗して再試行されても、遷移エラーにせず履歴を二重に記録しない。
+   *
+   * @param feedbackId 記録するフィードバックのID
+   * @param input レビュー対象のドラフトとレビュアーのコメント
+   * @param resolution レビューの判断
+   * @returns 判断後のドラフトと記録した（記録済みの）フィードバック、ドラフトが存在しない場合はnull
+   * @throws DraftVersionConflictError レビューしたバージョンが最新でない場合
+   * @throws InvalidDraftTransitionError 判断を反映できない状態の場合
+   * @throws InvalidReviewFeedbackError フィードバックがビジネスルールに違反した場合
+   */
+  async decideOnce(
+    feedbackId: string,
+    input: ReviewDecisionInput,
+    resolution: ReviewResolution
+  ): Promise<ReviewDecisionResponse | null> {
+    const recorded = (await this.feedback.listByDraft(input.draftId)).find((item) => item.id === feedbackId);
+    if (recorded) {
+      const current = await this.drafts.findById(input.draftId);
+      return current ? { draft: toDraftDetail(current), feedback: toReviewFeedbackDto(recorded) } : null;
+    }
+
+    return this.decide(input, resolution, feedbackId);
+  }
+
+  /**
+   * レビュー履歴の取得
+   *
+   * @param draftId ドラフトID
+   * @returns 記録日時の昇順に並んだフィードバック、ドラフトが存在しない場合はnull
+   */
+  async history(draftId: string): Promise<ReviewHistoryResponse | null> {
+    const draft = await this.drafts.findById(draftId);
+    if (!draft) {
+      return null;
+    }
+
+    const items = await this.feedback.listByDraft(draftId);
+    return { draftId, status: draft.status, items: items.map(toReviewFeedbackDto) };
+  }
+
+  /**
+   * レビュー判断の共通処理
+   *
+   * フィードバックの検証を状態遷移より先に行い、不正な入力でドラフトを変更しない。
+   * フィードバックIDを指定した場合は、承認済みのドラフトへの承認を反映済みとして扱う。
+   */
+  private async decide(
+    input: ReviewDecisionInput,
+    resolution: ReviewResolution,
+    feedbackId?: string
+  ): Promise<ReviewDecisionResponse | null> {
+    const current = await this.drafts.findById(input.draftId);
+    if (!current) {
+      return null;
+    }
+    if (input.expectedVersion !== undefined && current.version !== input.expectedVersion) {
+      throw new DraftVersionConflictError(input.expectedVersion, current.version);
+    }
+
+    const feedback = ReviewFeedback.create(
+      {
+        id: feedbackId ?? this.idProvider.next(),
+        draftId: input.draftId,
+        reviewerId: input.reviewerId,
+        comments: input.comments,
+        tags: input.tags ?? [],
+        resolution,
+        draftVersion: current.version,
+      },
+      this.clock
+    );
+
+    const applied = feedbackId !== undefined && resolution === "accepted" && current.status === "approved";
+    const decided = applied
+      ? current
+      : resolution === "accepted"
+        ? current.approve(this.clock)
+        : current.requestRework(this.clock);
+    if (decided !== current) {
+      await this.drafts.save(decided);
+    }
+    await this.feedback.save(feedback);
+
+    return { draft: toDraftDetail(decided), feedback: toReviewFeedbackDto(feedback) };
+  }
+}
+
+/**
+ * フィードバックDTOへの変換
+ */
+function toReviewFeedbackDto(feedback: ReviewFeedback): ReviewFeedbackDto {
+  const json = feedback.toJSON();
+  return {
+    id: json.id,
+    draftId: json.draftId,
+    reviewerId: json.reviewerId,
+    comments: json.comments,
+    tags: json.tags,
+    resolution: json.resolution,
+    draftVersion: json.draftVersion,
+    createdAt: json.createdAt,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * @fileoverview ユースケース層 - 予約投稿設定ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * ドラフトの予約日時の設定・変更・取り消しを担当する。
+ * 予約日時を迎えたドラフトの公開キューへの投入はDispatchScheduledDraftsUseCaseが行う。
+ *
+ * 設計原則：
+ * - ドメインへの委譲：予約日時・タイムゾーンの検証はPostDraft.scheduleが担う
+ * - 楽観的排他制御：If-Matchで指定されたバージョンと照合し、他の変更を上書きしない
+ */
+
+import type { DraftClock, PostDraft } from "../domain/postDraft";
+import { resolveScheduledAt } from "../domain/draftSchedule";
+import type { DraftDetail } from "@/shared/contracts/draft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { DraftVersionConflictError } from "./updateDraftUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/**
+ * 予約設定の入力データ
+ */
+export type ScheduleDraftInput = {
+  draftId: string;
+  /** 予約日時（オフセット付きのISO 8601、またはtimezoneの壁時計時刻） */
+  scheduledAt: string;
+  /** 予約するタイムゾーン（IANA名、例: Asia/Tokyo） */
+  timezone: string;
+  /** 予約を確認したドラフトのバージョン（If-Matchヘッダー由来、未指定時は照合しない） */
+  expectedVersion?: number;
+};
+
+/**
+ * 予約取り消しの入力データ
+ */
+export type UnscheduleDraftInput = {
+  draftId: string;
+  expectedVersion?: number;
+};
+
+/**
+ * 予約投稿設定ユースケース
+ */
+export class ScheduleDraftUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * 予約の設定・変更
+   *
+   * 予約済みの場合は日時を置き換える。公開キューへ投入済みでも、公開前であれば再度配信対象になる。
+   *
+   * @param input 対象のドラフトと予約日時
+   * @returns 予約後のドラフト詳細、存在しない場合はnull
+   * @throws InvalidDraftScheduleError 日時・タイムゾーンが不正、過去の日時、公開処理中・公開済みの場合
+   * @throws DraftVersionConflictError 確認したバージョンが最新でない場合
+   */
+  async schedule(input: ScheduleDraftInput): Promise<DraftDetail | null> {
+    const scheduledAt = resolveScheduledAt(input.scheduledAt, input.timezone);
+    return this.apply(input, (draft) => draft.schedule(scheduledAt, input.timezone, this.clock));
+  }
+
+  /**
+   * 予約の取り消し
+   *
+   * @param input 対象のドラフト
+   * @returns 取り消し後のドラフト詳細、存在しない場合はnull
+   * @throws InvalidDraftScheduleError 公開処理中・公開済みの場合
+   * @throws DraftVersionConflictError 確認したバージョンが最新でない場合
+   */
+  async unschedule(input: UnscheduleDraftInput): Promise<DraftDetail | null> {
+    return this.apply(input, (draft) => draft.unschedule(this.clock));
+  }
+
+  /**
+   * 取得・バージョン照合・変更・保存の共通処理
+   */
+  private async apply(
+    input: { draftId: string; expectedVersion?: number },
+    change: (draft: PostDraft) => PostDraft
+  ): Promise<DraftDetail | null> {
+    const current = await this.repository.findById(input.draftId);
+    if (!current) {
+      return null;
+    }
+    if (input.expectedVersion !== undefined && current.version !== input.expectedVersion) {
+      throw new DraftVersionConflictError(input.expectedVersion, current.version);
+    }
+
+    const changed = change(current);
+    if (changed !== current) {
+      await this.repository.save(changed);
+    }
+
+    return toDraftDetail(changed);
+  }
+}
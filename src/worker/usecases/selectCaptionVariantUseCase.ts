@@ -0,0 +1,57 @@
+/**
+ * @fileoverview ユースケース層 - キャプション案採用ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 生成時に作られた複数のキャプション案から、レビューで選ばれた案をドラフトの本文に反映する。
+ *
+ * 設計原則：
+ * - 単一責務：キャプション案の採用のみを担当
+ * - ドメインへの委譲：案の存在確認とプラットフォームのルールの再検証はPostDraft.selectVariantが担う
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { DraftDetail } from "@/shared/contracts/draft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/**
+ * キャプション案採用の入力データ
+ */
+export type SelectCaptionVariantInput = {
+  id: string;
+  /** 採用する案の番号 */
+  index: number;
+};
+
+/**
+ * キャプション案採用ユースケース
+ *
+ * 採用は画面上で案を切り替える操作のため、If-Matchによるバージョン照合は行わない。
+ * 同時に保存された場合の検出はリポジトリの排他制御に委ねる。
+ */
+export class SelectCaptionVariantUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * キャプション案採用の実行
+   *
+   * @param input 対象のドラフトIDと採用する案の番号
+   * @returns 採用後のドラフト詳細、存在しない場合はnull
+   * @throws InvalidCaptionVariantError 指定された案が存在しない場合
+   * @throws PlatformRuleViolationError 案が現在のプラットフォームのルールに違反する場合
+   */
+  async execute(input: SelectCaptionVariantInput): Promise<DraftDetail | null> {
+    const current = await this.repository.findById(input.id);
+    if (!current) {
+      return null;
+    }
+
+    const selected = current.selectVariant(input.index, this.clock);
+    await this.repository.save(selected);
+
+    return toDraftDetail(selected);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * @fileoverview ユースケース層 - 画像ジョブ追跡ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * 画像生成ジョブの投入をドラフトに記録し、クライアントが完了を追跡できるよう状態を提供する。
+ *
+ * 設計原則：
+ * - 状態の一元化：ジョブ状態はドラフトアグリゲート上に保持し、別ストアを持たない
+ * - 依存性逆転：DraftRepositoryポートを通じて永続化層に依存
+ */
+
+import type { DraftClock } from "../domain/postDraft";
+import type { DraftImageState } from "@/shared/contracts/draft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { toDraftImageState } from "./draftDto";
+
+/**
+ * 画像ジョブ追跡ユースケース
+ */
+export class TrackImageJobUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly clock: DraftClock
+  ) {}
+
+  /**
+   * ジョブ投入の記録
+   *
+   * @param draftId ドラフトID
+   * @param jobId スケジュールするジョブのID
+   * @returns 記録後の画像ジョブ状態
+   * @throws ドラフトが存在しない場合
+   */
+  async markQueued(draftId: string, jobId: string): Promise<DraftImageState> {
+    const draft = await this.repository.findById(draftId);
+    if (!draft) {
+      throw new Error(`Draft ${draftId} not found`);
+    }
+
+    const queued = draft.queueImage(jobId, this.clock);
+    await this.repository.saveImageState(queued);
+    return toDraftImageState(queued)!;
+  }
+
+  /**
+   * ジョブ投入の失敗の記録
+   *
+   * キューへの送信に失敗したジョブを failed として記録し、queued のまま残さない。
+   *
+   * @param draftId ドラフトID
+   * @param error 送信時に発生したエラー
+   */
+  async markFailed(draftId: string, error: unknown): Promise<void> {
+    const draft = await this.repository.findById(draftId);
+    if (!draft) {
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await this.repository.saveImageState(draft.markImageFailed(message, this.clock));
+  }
+
+  /**
+   * 画像ジョブ状態の取得
+   *
+   * @param draftId ドラフトID
+   * @returns ドラフトが存在しない場合はnull、存在する場合はジョブ状態（未投入ならimageがnull）
+   */
+  async getStatus(draftId: string): Promise<{ image: DraftImageState | null } | null> {
+    const draft = await this.repository.findById(draftId);
+    if (!draft) {
+      return null;
+    }
+
+    return { image: toDraftImageState(draft) };
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * @fileoverview ユースケース層 - ドラフト編集ユースケース
+ *
+ * クリーンアーキテクチャにおけるユースケース層の実装。
+ * エディターによるキャプション・ハッシュタグ・代替テキスト等の手直しを、
+ * バージョン番号による楽観的排他制御のもとで反映する。
+ *
+ * 設計原則：
+ * - 単一責務：ドラフト編集のワークフローのみを担当
+ * - 楽観的排他制御：編集元バージョンと現在のバージョンを照合し、同時編集を検出
+ * - ドメインへの委譲：不変条件の再検証はPostDraft.updateが担う
+ * - 再チェック：チェッカー注入時は編集後の本文をコンプライアンスルールで検査し直す
+ */
+
+import type { DraftClock, DraftChanges, PostDraft } from "../domain/postDraft";
+import type { ComplianceChecker } from "../domain/compliance";
+import type { DraftDetail } from "@/shared/contracts/draft";
+import type { DraftRepository } from "./createDraftUseCase";
+import { BrandNotFoundError, type BrandProfileResolver } from "./manageBrandsUseCase";
+import { toDraftDetail } from "./draftDto";
+
+/**
+ * バージョン競合エラー
+ *
+ * 編集元のバージョンが保存済みの最新バージョンと一致しない場合に送出される。
+ * HTTP層では409 Conflictに変換される。
+ */
+export class DraftVersionConflictError extends Error {
+  constructor(
+    readonly expectedVersion: number,
+    readonly currentVersion: number
+  ) {
+    super(`Draft version conflict: expected ${expectedVersion} but current is ${currentVersion}`);
+    this.name = "DraftVersionConflictError";
+  }
+}
+
+/**
+ * ドラフト編集の入力データ
+ */
+export type UpdateDraftInput = {
+  id: string;
+  /** 編集元のバージョン番号（If-Matchヘッダー由来） */
+  expectedVersion: number;
+  changes: DraftChanges;
+};
+
+/**
+ * ドラフト編集ユースケース
+ *
+ * 以下の処理を調整：
+ * 1. 保存済みドラフトの取得
+ * 2. バージョン照合
+ * 3. ドメインエンティティでの編集（不変条件の再検証）
+ * 4. コンプライアンスの再チェック（チェッカー注入時のみ）
+ * 5. 永続化
+ */
+export class UpdateDraftUseCase {
+  constructor(
+    private readonly repository: DraftRepository,
+    private readonly clock: DraftClock,
+    private readonly compliance?: ComplianceChecker,
+    private readonly brands?: BrandProfileResolver
+  ) {}
+
+  /**
+   * ドラフト編集の実行
+   *
+   * @param input 編集対象のID、編集元バージョン、変更内容
+   * @returns 編集後のドラフト詳細、存在しない場合はnull
+   * @throws DraftVersionConflictError 編集元バージョンが最新でない場合
+   * @throws DraftNotEditableError 公開処理中・公開済みの場合
+   * @throws ドメインエンティティの編集時にビジネスルール違反があった場合
+   */
+  async execute(input: UpdateDraftInput): Promise<DraftDetail | null> {
+    const current = await this.repository.findById(input.id);
+    if (!current) {
+      return null;
+    }
+
+    if (current.version !== input.expectedVersion) {
+      throw new DraftVersionConflictError(input.expectedVersion, current.version);
+    }
+
+    const updated = await this.screen(current.update(input.changes, this.clock));
+    await this.repository.save(updated);
+
+    return toDraftDetail(updated);
+  }
+
+  /**
+   * 編集後の本文のコンプライアンスチェック
+   *
+   * 所属ブランドが削除済みの場合は、禁止語なしで検査する。
+   *
+   * @param draft 編集後のドラフト
+   * @returns チェック結果を記録したドラフト、チェッカー未注入時はそのまま
+   */
+  private async screen(draft: PostDraft): Promise<PostDraft> {
+    if (!this.compliance) {
+      return draft;
+    }
+
+    let bannedWords: string[] = [];
+    if (draft.brandId && this.brands) {
+      try {
+        bannedWords = (await this.brands.resolve(draft.brandId)).bannedWords;
+      } catch (error) {
+        if (!(error instanceof BrandNotFoundError)) throw error;
+      }
+    }
+
+    return draft.withComplianceViolations(
+      this.compliance.check({ caption: draft.caption, hashtags: draft.hashtags, altText: draft.altText }, bannedWords)
+    );
+  }
+}
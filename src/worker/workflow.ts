@@ -11,14 +11,137 @@
  * - テスタビリティ：テスト時には異なる実装を注入可能
  */
 
-import { DraftGenerationWorkflow } from "./workflows/draftGenerationWorkflow";
+import { DraftGenerationWorkflow, type ContentGenerator } from "./workflows/draftGenerationWorkflow";
+import { SnsPostPipeline, type PostWorkflowLauncher } from "./workflows/snsPostPipeline";
+import { DraftBatchWorkflow } from "./workflows/draftBatchWorkflow";
 import { SimpleContentGenerator } from "./infrastructure/simpleContentGenerator";
+import { WorkersAiContentGenerator } from "./infrastructure/workersAiContentGenerator";
 import { QueueImageScheduler } from "./infrastructure/queueImageScheduler";
-import { CreateDraftUseCase } from "./usecases/createDraftUseCase";
+import { QueuePublishScheduler } from "./infrastructure/queuePublishScheduler";
+import { QueueGenerationBatchScheduler } from "./infrastructure/queueGenerationBatchScheduler";
+import { CreateDraftUseCase, type DraftRepository } from "./usecases/createDraftUseCase";
+import { GetDraftUseCase } from "./usecases/getDraftUseCase";
+import { ListDraftsUseCase } from "./usecases/listDraftsUseCase";
+import { UpdateDraftUseCase } from "./usecases/updateDraftUseCase";
+import { SelectCaptionVariantUseCase } from "./usecases/selectCaptionVariantUseCase";
+import { GenerateDraftImageUseCase } from "./usecases/generateDraftImageUseCase";
+import { TrackImageJobUseCase } from "./usecases/trackImageJobUseCase";
+import { GetDraftImageUseCase } from "./usecases/getDraftImageUseCase";
+import { ManagePromptTemplatesUseCase } from "./usecases/managePromptTemplatesUseCase";
+import { ManageBrandsUseCase } from "./usecases/manageBrandsUseCase";
+import { ManageGenerationPresetsUseCase } from "./usecases/manageGenerationPresetsUseCase";
+import { ManageGenerationBatchesUseCase } from "./usecases/manageGenerationBatchesUseCase";
+import { ReviewDraftUseCase } from "./usecases/reviewDraftUseCase";
+import { PublishDraftUseCase, type Publisher } from "./usecases/publishDraftUseCase";
+import { ScheduleDraftUseCase } from "./usecases/scheduleDraftUseCase";
+import { DispatchScheduledDraftsUseCase } from "./usecases/dispatchScheduledDraftsUseCase";
 import { KvDraftRepository } from "./infrastructure/kvDraftRepository";
+import { D1RateLimitStore } from "./infrastructure/d1RateLimitStore";
+import { D1IdempotencyStore } from "./infrastructure/d1IdempotencyStore";
+import { KvUsedSignatureStore } from "./infrastructure/kvUsedSignatureStore";
+import { CloudflareAccessVerifier } from "./infrastructure/cloudflareAccessVerifier";
+import { KvPromptTemplateRepository } from "./infrastructure/kvPromptTemplateRepository";
+import { D1DraftRepository } from "./infrastructure/d1DraftRepository";
+import { D1ReviewFeedbackRepository } from "./infrastructure/d1ReviewFeedbackRepository";
+import { D1PublishLogRepository } from "./infrastructure/d1PublishLogRepository";
+import { D1BrandRepository } from "./infrastructure/d1BrandRepository";
+import { D1GenerationPresetRepository } from "./infrastructure/d1GenerationPresetRepository";
+import { D1GenerationBatchRepository } from "./infrastructure/d1GenerationBatchRepository";
+import { CloudflarePostWorkflowLauncher } from "./infrastructure/cloudflarePostWorkflowLauncher";
+import { MetaGraphPublisher } from "./infrastructure/metaGraphPublisher";
+import { CachedDraftRepository } from "./infrastructure/cachedDraftRepository";
+import { WorkersAiImageGenerator } from "./infrastructure/workersAiImageGenerator";
+import { R2ImageStore } from "./infrastructure/r2ImageStore";
 import { UuidProvider } from "./infrastructure/uuidProvider";
 import { SystemClock } from "./infrastructure/systemClock";
-import type { WorkerBindings } from "./types";
+import { ComplianceChecker, parseComplianceRuleSets } from "./domain/compliance";
+import { DEFAULT_COMPLIANCE_RULE_SETS } from "./domain/complianceRules";
+import { parseHashtagTierMix } from "./domain/hashtag";
+import type { IdempotencyStore } from "./middleware/idempotency";
+import {
+  parseClientTiers,
+  parseRateLimitTiers,
+  releaseGenerations,
+  type RateLimitSettings,
+  type RateLimitStore,
+} from "./middleware/rateLimit";
+import type { RequestSignatureSettings } from "./middleware/requestSignature";
+import { parseBrandAdminClients, parseClientBrands, type BrandAccessSettings } from "./middleware/brandScope";
+import type { ContentGeneratorMode, DraftStorageMode, WorkerBindings } from "./types";
+
+/**
+ * ワークフロー構築オプション
+ */
+export type WorkflowOptions = {
+  /** ドラフトの保存先（未指定時は env.DRAFT_STORAGE、それもなければkv） */
+  storage?: DraftStorageMode;
+  /** コンテンツ生成器（未指定時は env.CONTENT_GENERATOR、それもなければsimple） */
+  contentGenerator?: ContentGeneratorMode;
+};
+
+/**
+ * ドラフトリポジトリの選択
+ * 
+ * 保存先の設定に応じてリポジトリ実装を組み立てる。
+ * 生成・取得・編集のすべてで同じ選択を使い、読み書きの保存先を揃える。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @param storage ドラフトの保存先
+ * @returns 選択されたドラフトリポジトリ
+ */
+export function createDraftRepository(
+  env: WorkerBindings,
+  storage: DraftStorageMode = env.DRAFT_STORAGE ?? "kv"
+): DraftRepository {
+  switch (storage) {
+    case "kv":
+      return new KvDraftRepository(env.KV);
+    case "d1":
+      return new D1DraftRepository(env.DB);
+    case "d1+kv":
+      return new CachedDraftRepository(new D1DraftRepository(env.DB), new KvDraftRepository(env.KV));
+  }
+}
+
+/**
+ * D1を正本とするドラフトリポジトリの選択
+ * 
+ * 次の処理が使う。kvの保存先では正しく動作しないため、保存先がkvの場合は構築時にエラーとする。
+ * - 編集・レビュー・公開・予約投稿の配信など、バージョン照合で同時更新を防ぐ処理：
+ *   D1はバージョンを条件にした更新で照合から保存までの間の競合を検出するが、KVの保存は無条件の上書きで後勝ちになる
+ * - 一覧検索・予約投稿の配信：D1はインデックスで1ページ分だけを読むが、KVは全件のキーを列挙して1件ずつ読み出す
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @param feature エラーメッセージに含める機能名
+ * @returns D1を正本とするドラフトリポジトリ
+ * @throws エラー 保存先がkvの場合
+ */
+export function createD1BackedDraftRepository(env: WorkerBindings, feature: string): DraftRepository {
+  const storage = env.DRAFT_STORAGE ?? "kv";
+  if (storage === "kv") {
+    throw new Error(`${feature} requires DRAFT_STORAGE=d1 or d1+kv`);
+  }
+  return createDraftRepository(env, storage);
+}
+
+/**
+ * コンテンツ生成器の選択
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @param mode コンテンツ生成器の種類
+ * @returns 選択されたコンテンツ生成器
+ */
+export function createContentGenerator(
+  env: WorkerBindings,
+  mode: ContentGeneratorMode = env.CONTENT_GENERATOR ?? "simple"
+): ContentGenerator {
+  switch (mode) {
+    case "simple":
+      return new SimpleContentGenerator();
+    case "workers-ai":
+      return new WorkersAiContentGenerator(env.AI, new SimpleContentGenerator());
+  }
+}
 
 /**
  * ドラフト生成ワークフローファクトリー
@@ -32,26 +155,438 @@ import type { WorkerBindings } from "./types";
  * 3. ワークフロー層：オーケストレーション
  * 
  * 実装選択：
- * - Repository: KvDraftRepository（Cloudflare KV）
- * - ContentGenerator: SimpleContentGenerator（ルールベース）
- * - ImageScheduler: QueueImageScheduler（Cloudflare Queues）
+ * - Repository: 保存先設定に応じて KV / D1 / D1+KVキャッシュ
+ * - ContentGenerator: 生成器設定に応じて SimpleContentGenerator / WorkersAiContentGenerator
+ * - ImageScheduler: QueueImageScheduler（Cloudflare Queues の `IMAGE_QUEUE`、未定義時はなし）
  * 
  * @param env Cloudflare Worker バインディング環境
+ * @param options ワークフロー構築オプション
  * @returns 設定済みのドラフト生成ワークフロー
  */
-export function createDraftGenerationWorkflow(env: WorkerBindings): DraftGenerationWorkflow {
+export function createDraftGenerationWorkflow(
+  env: WorkerBindings,
+  options: WorkflowOptions = {}
+): DraftGenerationWorkflow {
   // インフラストラクチャ層の具象クラス構築
-  const repository = new KvDraftRepository(env.KV);
+  const repository = createDraftRepository(env, options.storage);
   const idProvider = new UuidProvider();
   const clock = new SystemClock();
   
   // ユースケース層の構築（インフラ層への依存を注入）
   const useCase = new CreateDraftUseCase(repository, idProvider, clock);
+  const imageJobs = new TrackImageJobUseCase(repository, clock);
+  const promptTemplates = new ManagePromptTemplatesUseCase(new KvPromptTemplateRepository(env.KV), clock);
+  const brands = new ManageBrandsUseCase(new D1BrandRepository(env.DB), idProvider, clock);
   
   // ワークフロー層の外部サービス依存関係
-  const contentGenerator = new SimpleContentGenerator();
-  const imageScheduler = new QueueImageScheduler(env.IMAGE_QUEUE);
+  const contentGenerator = createContentGenerator(env, options.contentGenerator);
+  // 画像生成キューが未定義の環境では画像を生成せず、ジョブ状態も記録しない
+  const imageScheduler = env.IMAGE_QUEUE ? new QueueImageScheduler(env.IMAGE_QUEUE) : undefined;
 
   // ワークフロー層の構築（全ての依存関係を注入）
-  return new DraftGenerationWorkflow(contentGenerator, imageScheduler, useCase);
+  return new DraftGenerationWorkflow(
+    contentGenerator,
+    imageScheduler,
+    useCase,
+    imageJobs,
+    promptTemplates,
+    brands,
+    createComplianceChecker(env),
+    parseHashtagTierMix(env.HASHTAG_TIER_MIX)
+  );
+}
+
+/**
+ * コンプライアンスチェッカーファクトリー
+ * 
+ * 組み込みのルールセット（薬機法・景表法）に、wrangler vars の COMPLIANCE_RULES で定義したセットを加える。
+ * 組み込みと同じIDのセットは定義した内容で置き換える。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのコンプライアンスチェッカー
+ * @throws InvalidComplianceRuleError COMPLIANCE_RULES が不正な場合
+ */
+export function createComplianceChecker(env: WorkerBindings): ComplianceChecker {
+  const custom = env.COMPLIANCE_RULES ? parseComplianceRuleSets(env.COMPLIANCE_RULES) : [];
+  const customIds = new Set(custom.map((ruleSet) => ruleSet.id));
+  return new ComplianceChecker([
+    ...DEFAULT_COMPLIANCE_RULE_SETS.filter((ruleSet) => !customIds.has(ruleSet.id)),
+    ...custom,
+  ]);
+}
+
+/**
+ * 投稿ワークフローのステップ構成ファクトリー
+ * 
+ * 永続ワークフロー（SnsPostWorkflow）から利用する。
+ * 各ステップはドラフト生成ワークフローとレビューユースケースをそのまま呼び出す。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのステップ構成
+ */
+export function createSnsPostPipeline(env: WorkerBindings): SnsPostPipeline {
+  return new SnsPostPipeline(createDraftGenerationWorkflow(env), createReviewDraftUseCase(env));
+}
+
+/**
+ * 投稿ワークフロー操作ファクトリー
+ * 
+ * 実装選択：
+ * - PostWorkflowLauncher: CloudflarePostWorkflowLauncher（Cloudflare Workflows の `POST_WORKFLOW`）
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの投稿ワークフロー操作
+ */
+export function createPostWorkflowLauncher(env: WorkerBindings): PostWorkflowLauncher {
+  return new CloudflarePostWorkflowLauncher(env.POST_WORKFLOW);
+}
+
+/**
+ * ドラフト取得ユースケースファクトリー
+ * 
+ * 生成ワークフローと同じ保存先を参照するユースケースを構築する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト取得ユースケース
+ */
+export function createGetDraftUseCase(env: WorkerBindings): GetDraftUseCase {
+  return new GetDraftUseCase(createDraftRepository(env));
+}
+
+/**
+ * ドラフト編集ユースケースファクトリー
+ * 
+ * 編集後の本文は生成時と同じルールセットとブランドの禁止語で検査し直す。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト編集ユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createUpdateDraftUseCase(env: WorkerBindings): UpdateDraftUseCase {
+  return new UpdateDraftUseCase(
+    createD1BackedDraftRepository(env, "Draft editing"),
+    new SystemClock(),
+    createComplianceChecker(env),
+    createManageBrandsUseCase(env)
+  );
+}
+
+/**
+ * キャプション案採用ユースケースファクトリー
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのキャプション案採用ユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createSelectCaptionVariantUseCase(env: WorkerBindings): SelectCaptionVariantUseCase {
+  return new SelectCaptionVariantUseCase(
+    createD1BackedDraftRepository(env, "Caption variant selection"),
+    new SystemClock()
+  );
+}
+
+/**
+ * ドラフトレビューユースケースファクトリー
+ * 
+ * レビューフィードバックはドラフトの保存先設定に関わらずD1に記録する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフトレビューユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createReviewDraftUseCase(env: WorkerBindings): ReviewDraftUseCase {
+  return new ReviewDraftUseCase(
+    createD1BackedDraftRepository(env, "Draft review"),
+    new D1ReviewFeedbackRepository(env.DB),
+    new UuidProvider(),
+    new SystemClock()
+  );
+}
+
+/**
+ * パブリッシャーの構築
+ * 
+ * Meta Graph APIの設定が揃っていない環境では公開できないため、構築時にエラーとする。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns Meta Graph API パブリッシャー
+ * @throws エラー アクセストークン・アカウントID・画像の公開URLのいずれかが未設定の場合
+ */
+export function createPublisher(env: WorkerBindings): Publisher {
+  const { META_ACCESS_TOKEN, META_INSTAGRAM_ACCOUNT_ID, IMAGES_PUBLIC_URL } = env;
+  if (!META_ACCESS_TOKEN || !META_INSTAGRAM_ACCOUNT_ID || !IMAGES_PUBLIC_URL) {
+    throw new Error("Publishing requires META_ACCESS_TOKEN, META_INSTAGRAM_ACCOUNT_ID and IMAGES_PUBLIC_URL");
+  }
+
+  return new MetaGraphPublisher({
+    accessToken: META_ACCESS_TOKEN,
+    instagramAccountId: META_INSTAGRAM_ACCOUNT_ID,
+    imageBaseUrl: IMAGES_PUBLIC_URL,
+    apiBaseUrl: env.META_GRAPH_API_URL,
+  });
+}
+
+/**
+ * ドラフト公開ユースケースファクトリー
+ * 
+ * 公開ログはドラフトの保存先設定に関わらずD1に記録する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト公開ユースケース
+ * @throws エラー 公開の設定が揃っていない場合、またはドラフトの保存先がkvの場合
+ */
+export function createPublishDraftUseCase(env: WorkerBindings): PublishDraftUseCase {
+  return new PublishDraftUseCase(
+    createD1BackedDraftRepository(env, "Publishing"),
+    createPublisher(env),
+    new D1PublishLogRepository(env.DB),
+    new UuidProvider(),
+    new SystemClock()
+  );
+}
+
+/**
+ * 予約投稿設定ユースケースファクトリー
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの予約投稿設定ユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createScheduleDraftUseCase(env: WorkerBindings): ScheduleDraftUseCase {
+  return new ScheduleDraftUseCase(createD1BackedDraftRepository(env, "Scheduled publishing"), new SystemClock());
+}
+
+/**
+ * 予約投稿配信ユースケースファクトリー
+ * 
+ * Cronトリガーから利用する。
+ * 
+ * 実装選択：
+ * - PublishQueue: QueuePublishScheduler（Cloudflare Queues の `PUBLISH_QUEUE`）
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの予約投稿配信ユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createDispatchScheduledDraftsUseCase(env: WorkerBindings): DispatchScheduledDraftsUseCase {
+  return new DispatchScheduledDraftsUseCase(
+    createD1BackedDraftRepository(env, "Scheduled publishing"),
+    new QueuePublishScheduler(env.PUBLISH_QUEUE),
+    new SystemClock()
+  );
+}
+
+/**
+ * ドラフト一覧ユースケースファクトリー
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト一覧ユースケース
+ * @throws エラー ドラフトの保存先がkvの場合
+ */
+export function createListDraftsUseCase(env: WorkerBindings): ListDraftsUseCase {
+  return new ListDraftsUseCase(createD1BackedDraftRepository(env, "Draft listing"));
+}
+
+/**
+ * ドラフト画像生成ユースケースファクトリー
+ * 
+ * キューコンシューマーから利用する。
+ * 
+ * 実装選択：
+ * - ImageGenerator: WorkersAiImageGenerator（Workers AI）
+ * - ImageStore: R2ImageStore（Cloudflare R2）
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト画像生成ユースケース
+ */
+export function createGenerateDraftImageUseCase(env: WorkerBindings): GenerateDraftImageUseCase {
+  return new GenerateDraftImageUseCase(
+    createDraftRepository(env),
+    new WorkersAiImageGenerator(env.AI),
+    new R2ImageStore(env.IMAGES),
+    new SystemClock()
+  );
+}
+
+/**
+ * 画像ジョブ追跡ユースケースファクトリー
+ * 
+ * 画像ジョブ状態の取得・SSEストリームから利用する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの画像ジョブ追跡ユースケース
+ */
+export function createTrackImageJobUseCase(env: WorkerBindings): TrackImageJobUseCase {
+  return new TrackImageJobUseCase(createDraftRepository(env), new SystemClock());
+}
+
+/**
+ * ドラフト画像取得ユースケースファクトリー
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのドラフト画像取得ユースケース
+ */
+export function createGetDraftImageUseCase(env: WorkerBindings): GetDraftImageUseCase {
+  return new GetDraftImageUseCase(createDraftRepository(env), new R2ImageStore(env.IMAGES));
+}
+
+/**
+ * プロンプトテンプレート管理ユースケースファクトリー
+ * 
+ * テンプレートはドラフトの保存先設定に関わらずKVに保存する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのプロンプトテンプレート管理ユースケース
+ */
+export function createManagePromptTemplatesUseCase(env: WorkerBindings): ManagePromptTemplatesUseCase {
+  return new ManagePromptTemplatesUseCase(new KvPromptTemplateRepository(env.KV), new SystemClock());
+}
+
+/**
+ * ブランド管理ユースケースファクトリー
+ * 
+ * ブランドはドラフトの保存先設定に関わらずD1に保存する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのブランド管理ユースケース
+ */
+export function createManageBrandsUseCase(env: WorkerBindings): ManageBrandsUseCase {
+  return new ManageBrandsUseCase(new D1BrandRepository(env.DB), new UuidProvider(), new SystemClock());
+}
+
+/**
+ * 生成プリセット管理ユースケースファクトリー
+ * 
+ * プリセットはドラフトの保存先設定に関わらずD1に保存する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの生成プリセット管理ユースケース
+ */
+export function createManageGenerationPresetsUseCase(env: WorkerBindings): ManageGenerationPresetsUseCase {
+  return new ManageGenerationPresetsUseCase(
+    new D1GenerationPresetRepository(env.DB),
+    new UuidProvider(),
+    new SystemClock()
+  );
+}
+
+/**
+ * 一括生成バッチ管理ユースケースファクトリー
+ * 
+ * バッチはドラフトの保存先設定に関わらずD1に保存する。
+ * 
+ * 実装選択：
+ * - GenerationBatchQueue: QueueGenerationBatchScheduler（Cloudflare Queues の `BATCH_QUEUE`）
+ * - GenerationQuotaRefund: レート制限と同じカウンターストアへの releaseGenerations
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの一括生成バッチ管理ユースケース
+ */
+export function createManageGenerationBatchesUseCase(env: WorkerBindings): ManageGenerationBatchesUseCase {
+  return new ManageGenerationBatchesUseCase(
+    new D1GenerationBatchRepository(env.DB),
+    new QueueGenerationBatchScheduler(env.BATCH_QUEUE),
+    new UuidProvider(),
+    new SystemClock(),
+    { release: (quotaKey, count) => releaseGenerations(createRateLimitStore(env), quotaKey, count) }
+  );
+}
+
+/**
+ * 一括生成の行の処理ファクトリー
+ * 
+ * キューコンシューマーから利用する。
+ * 各行はHTTPの生成エンドポイントと同じ構成のドラフト生成ワークフローで生成する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの一括生成の行の処理
+ */
+export function createDraftBatchWorkflow(env: WorkerBindings): DraftBatchWorkflow {
+  return new DraftBatchWorkflow(createDraftGenerationWorkflow(env), createManageGenerationBatchesUseCase(env));
+}
+
+/**
+ * 冪等性キーストアファクトリー
+ * 
+ * 冪等性キーはドラフトの保存先設定に関わらずD1に24時間保存する。
+ * 同時に届いた重複を1件に絞るため、比較交換を持たないKVではなく一意な行で取得する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みの冪等性キーストア
+ */
+export function createIdempotencyStore(env: WorkerBindings): IdempotencyStore {
+  return new D1IdempotencyStore(env.DB, new SystemClock());
+}
+
+/**
+ * 署名検証設定ファクトリー
+ * 
+ * 秘密鍵は wrangler secret の API_SIGNING_SECRET から読み込み、使用済み署名はKVに記録する。
+ * 自前のUIは ACCESS_TEAM_DOMAIN・ACCESS_AUD を設定した場合に Cloudflare Access のJWTで認証する。
+ * 認証情報のないリクエストは ALLOW_UNSIGNED_REQUESTS が "true" の場合（開発環境）だけ通す。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 署名検証の設定
+ */
+export function createRequestSignatureSettings(env: WorkerBindings): RequestSignatureSettings {
+  const clock = new SystemClock();
+  return {
+    secret: env.API_SIGNING_SECRET,
+    allowUnsigned: env.ALLOW_UNSIGNED_REQUESTS === "true",
+    access:
+      env.ACCESS_TEAM_DOMAIN && env.ACCESS_AUD
+        ? new CloudflareAccessVerifier(env.ACCESS_TEAM_DOMAIN, env.ACCESS_AUD, clock)
+        : undefined,
+    usedSignatures: new KvUsedSignatureStore(env.KV),
+    clock,
+  };
+}
+
+/**
+ * ブランドの利用権限設定ファクトリー
+ * 
+ * クライアントのブランドとブランド管理者は wrangler vars（CLIENT_BRANDS・BRAND_ADMIN_CLIENTS）から読み込む。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのブランドの利用権限設定
+ * @throws エラー CLIENT_BRANDS・BRAND_ADMIN_CLIENTS が不正な場合
+ */
+export function createBrandAccessSettings(env: WorkerBindings): BrandAccessSettings {
+  const clientBrands = parseClientBrands(env.CLIENT_BRANDS);
+  const admins = parseBrandAdminClients(env.BRAND_ADMIN_CLIENTS);
+  return {
+    brandsOf: (clientId) => clientBrands[clientId],
+    isAdmin: (clientId) => admins.includes(clientId),
+  };
+}
+
+/**
+ * レート制限カウンターストアファクトリー
+ * 
+ * カウンターはドラフトの保存先設定に関わらず、アトミックに増減できるD1に保存する。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのレート制限カウンターストア
+ */
+export function createRateLimitStore(env: WorkerBindings): RateLimitStore {
+  return new D1RateLimitStore(env.DB, new SystemClock());
+}
+
+/**
+ * レート制限設定ファクトリー
+ * 
+ * ティアごとの上限とクライアントのティアは wrangler vars（RATE_LIMIT_TIERS・CLIENT_TIERS）から読み込む。
+ * 
+ * @param env Cloudflare Worker バインディング環境
+ * @returns 設定済みのレート制限設定
+ * @throws エラー RATE_LIMIT_TIERS・CLIENT_TIERS が不正な場合
+ */
+export function createRateLimitSettings(env: WorkerBindings): RateLimitSettings {
+  const clientTiers = parseClientTiers(env.CLIENT_TIERS);
+  return {
+    store: createRateLimitStore(env),
+    tiers: parseRateLimitTiers(env.RATE_LIMIT_TIERS),
+    tierOf: (clientId) => clientTiers[clientId],
+    clock: new SystemClock(),
+  };
 }
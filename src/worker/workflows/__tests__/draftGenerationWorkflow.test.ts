@@ -1,5 +1,9 @@
 import { describe, expect, it, vi } from "vitest";
 import { DraftGenerationWorkflow } from "../draftGenerationWorkflow";
+import type { CreateDraftUseCase } from "../../usecases/createDraftUseCase";
+import { PromptTemplateVersion } from "../../domain/promptTemplate";
+import { ComplianceChecker } from "../../domain/compliance";
+import { DEFAULT_COMPLIANCE_RULE_SETS } from "../../domain/complianceRules";
 
 describe("DraftGenerationWorkflow", () => {
   // 正常系: ワークフローがコンテンツ生成と画像ジョブ予約を経てドラフト作成まで行う流れを検証する
@@ -13,7 +17,7 @@ describe("DraftGenerationWorkflow", () => {
     };
 
     const imageScheduler = {
-      schedule: vi.fn().mockResolvedValue({ imageJobId: "job-789" }),
+      schedule: vi.fn().mockResolvedValue(undefined),
     };
 
     const createDraftUseCase = {
@@ -23,7 +27,7 @@ describe("DraftGenerationWorkflow", () => {
     const workflow = new DraftGenerationWorkflow(
       contentGenerator,
       imageScheduler,
-      createDraftUseCase
+      createDraftUseCase as unknown as CreateDraftUseCase
     );
 
     const result = await workflow.run({
@@ -39,6 +43,7 @@ describe("DraftGenerationWorkflow", () => {
       brandVoice: "爽やかで親しみやすい",
       product: "AirFlex",
       targetPersona: "20代のアクティブ層",
+      platform: "instagram",
     });
     expect(imageScheduler.schedule).toHaveBeenCalledWith({
       prompt: "街で歩く若者",
@@ -53,7 +58,227 @@ describe("DraftGenerationWorkflow", () => {
       caption: "最高の履き心地を体験しよう",
       hashtags: ["sneakers", "spring"],
       altText: "街でスニーカーを見せる若者",
+      platform: "instagram",
     });
     expect(result).toEqual({ id: "draft-123", status: "draft" });
   });
+
+  // 正常系: トラッカー注入時にジョブIDをキューへの送信前にドラフトへ記録し、画像状態付きで返却することを検証する
+  it("records the image job before enqueueing it when a tracker is provided", async () => {
+    const contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "caption", hashtags: [], altText: "alt" }),
+    };
+    const imageScheduler = { schedule: vi.fn().mockResolvedValue(undefined) };
+    const createDraftUseCase = {
+      execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }),
+    };
+    const imageJobs = {
+      markQueued: vi.fn().mockResolvedValue({ jobId: "draft-123-image", status: "queued" }),
+      markFailed: vi.fn(),
+    };
+
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      imageScheduler,
+      createDraftUseCase as unknown as CreateDraftUseCase,
+      imageJobs
+    );
+
+    const result = await workflow.run({ theme: "春の新作スニーカー", brandVoice: "爽やか" });
+
+    expect(imageJobs.markQueued).toHaveBeenCalledWith("draft-123", "draft-123-image");
+    expect(imageJobs.markQueued.mock.invocationCallOrder[0]).toBeLessThan(
+      imageScheduler.schedule.mock.invocationCallOrder[0]
+    );
+    expect(result).toEqual({
+      id: "draft-123",
+      status: "draft",
+      image: { jobId: "draft-123-image", status: "queued" },
+    });
+  });
+
+  // 異常系: キューへの送信に失敗した場合はジョブを failed として記録し、例外を送出することを検証する
+  it("marks the image job failed when enqueueing fails", async () => {
+    const contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "caption", hashtags: [], altText: "alt" }),
+    };
+    const queueError = new Error("queue down");
+    const imageJobs = {
+      markQueued: vi.fn().mockResolvedValue({ jobId: "draft-123-image", status: "queued" }),
+      markFailed: vi.fn().mockResolvedValue(undefined),
+    };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockRejectedValue(queueError) },
+      { execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }) } as unknown as CreateDraftUseCase,
+      imageJobs
+    );
+
+    await expect(workflow.run({ theme: "春の新作スニーカー", brandVoice: "爽やか" })).rejects.toBe(queueError);
+    expect(imageJobs.markFailed).toHaveBeenCalledWith("draft-123", queueError);
+  });
+
+  // 正常系: 画像生成キューがない環境ではジョブを記録せず、テキストのドラフトだけを返すことを検証する
+  it("skips the image job when no scheduler is configured", async () => {
+    const contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "caption", hashtags: [], altText: "alt" }),
+    };
+    const imageJobs = { markQueued: vi.fn(), markFailed: vi.fn() };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      undefined,
+      { execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }) } as unknown as CreateDraftUseCase,
+      imageJobs
+    );
+
+    const result = await workflow.run({ theme: "春の新作スニーカー", brandVoice: "爽やか" });
+
+    expect(result).toEqual({ id: "draft-123", status: "draft" });
+    expect(imageJobs.markQueued).not.toHaveBeenCalled();
+  });
+
+  // 正常系: 指定されたプロンプトテンプレートを差し込んで生成し、使用したバージョンを記録することを検証する
+  it("renders the requested prompt template and records it on the draft", async () => {
+    const contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "caption", hashtags: [], altText: "alt" }),
+    };
+    const createDraftUseCase = {
+      execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }),
+    };
+    const template = PromptTemplateVersion.create({
+      templateId: "spring",
+      version: 3,
+      body: "{theme}を{brandVoice}に紹介して",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+    const promptTemplates = { resolve: vi.fn().mockResolvedValue(template) };
+
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockResolvedValue(undefined) },
+      createDraftUseCase as unknown as CreateDraftUseCase,
+      undefined,
+      promptTemplates
+    );
+
+    await workflow.run({ theme: "春の新作", brandVoice: "爽やか", promptTemplateId: "spring" });
+
+    expect(promptTemplates.resolve).toHaveBeenCalledWith("spring", undefined);
+    expect(contentGenerator.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: "春の新作を爽やかに紹介して" })
+    );
+    expect(createDraftUseCase.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ promptTemplateId: "spring", promptTemplateVersion: 3 })
+    );
+  });
+
+  // 正常系: 案の数が指定された場合に切り口ごとに生成し、全ての案をドラフトに渡すことを検証する
+  it("generates one caption variant per angle", async () => {
+    const contentGenerator = {
+      generate: vi.fn(async ({ angle }: { angle?: string }) => ({
+        caption: `${angle}のキャプション`,
+        hashtags: [String(angle)],
+        altText: "代替テキスト",
+      })),
+    };
+    const createDraftUseCase = {
+      execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }),
+    };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockResolvedValue(undefined) },
+      createDraftUseCase as unknown as CreateDraftUseCase
+    );
+
+    await workflow.run({ theme: "春", brandVoice: "爽やか", variants: 3 });
+
+    expect(contentGenerator.generate.mock.calls.map(([input]) => input.angle)).toEqual(["hook-first", "story", "list"]);
+    expect(createDraftUseCase.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        caption: "hook-firstのキャプション",
+        hashtags: ["hook-first"],
+        variants: [
+          { angle: "hook-first", caption: "hook-firstのキャプション", hashtags: ["hook-first"], altText: "代替テキスト" },
+          { angle: "story", caption: "storyのキャプション", hashtags: ["story"], altText: "代替テキスト" },
+          { angle: "list", caption: "listのキャプション", hashtags: ["list"], altText: "代替テキスト" },
+        ],
+      })
+    );
+  });
+
+  // 正常系: ブランド指定時にトーン・ペルソナ・既定のハッシュタグを補い、ドラフトにブランドを記録することを検証する
+  it("merges the brand profile into generation", async () => {
+    const brand = {
+      name: "Acme",
+      voice: "親しみやすい",
+      defaultHashtags: ["acme"],
+      bannedWords: ["最安"],
+      defaultPersona: "30代の会社員",
+    };
+    const contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "caption", hashtags: ["spring", "acme"], altText: "alt" }),
+    };
+    const createDraftUseCase = {
+      execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }),
+    };
+    const brands = { resolve: vi.fn().mockResolvedValue(brand) };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockResolvedValue(undefined) },
+      createDraftUseCase as unknown as CreateDraftUseCase,
+      undefined,
+      undefined,
+      brands
+    );
+
+    await workflow.run({ theme: "春", brandId: "brand-1" });
+
+    expect(brands.resolve).toHaveBeenCalledWith("brand-1");
+    expect(contentGenerator.generate).toHaveBeenCalledWith(
+      expect.objectContaining({ brandVoice: "親しみやすい", targetPersona: "30代の会社員", brand })
+    );
+    expect(createDraftUseCase.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        brandId: "brand-1",
+        brandVoice: "親しみやすい",
+        targetPersona: "30代の会社員",
+        hashtags: ["acme", "spring"],
+      })
+    );
+  });
+
+  // 正常系: チェッカー注入時に本文と各案の違反（ブランドの禁止語を含む）をドラフトに添付することを検証する
+  it("attaches compliance violations to the draft and each variant", async () => {
+    const contentGenerator = {
+      generate: vi.fn(async ({ angle }: { angle?: string }) => ({
+        caption: angle === "story" ? "毎日のケアに" : "塗るだけで若返る",
+        hashtags: ["acme"],
+        altText: "美容液",
+      })),
+    };
+    const createDraftUseCase = {
+      execute: vi.fn().mockResolvedValue({ id: "draft-123", status: "draft" }),
+    };
+    const brand = { name: "Acme", voice: "上品", defaultHashtags: [], bannedWords: ["美容液"] };
+    const workflow = new DraftGenerationWorkflow(
+      contentGenerator,
+      { schedule: vi.fn().mockResolvedValue(undefined) },
+      createDraftUseCase as unknown as CreateDraftUseCase,
+      undefined,
+      undefined,
+      { resolve: vi.fn().mockResolvedValue(brand) },
+      new ComplianceChecker(DEFAULT_COMPLIANCE_RULE_SETS)
+    );
+
+    await workflow.run({ theme: "春", brandId: "brand-1", variants: 2 });
+
+    const [input] = createDraftUseCase.execute.mock.calls[0];
+    expect(input.complianceViolations.map((violation: { ruleId: string }) => violation.ruleId)).toEqual([
+      "immediate-effect",
+      "physiological-change",
+      "banned-word",
+    ]);
+    expect(input.variants[0].complianceViolations).toEqual(input.complianceViolations);
+    expect(input.variants[1].complianceViolations).toMatchObject([{ field: "altText", ruleId: "banned-word" }]);
+  });
 });
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  POST_WORKFLOW_STEPS,
+  REVIEW_EVENT_TYPE,
+  SnsPostPipeline,
+  type PostWorkflowStepConfig,
+  type WorkflowStepRunner,
+} from "../snsPostPipeline";
+import { DraftGenerationWorkflow } from "../draftGenerationWorkflow";
+import { CreateDraftUseCase } from "../../usecases/createDraftUseCase";
+import { TrackImageJobUseCase } from "../../usecases/trackImageJobUseCase";
+import { ReviewDraftUseCase } from "../../usecases/reviewDraftUseCase";
+import { D1DraftRepository } from "../../infrastructure/d1DraftRepository";
+import { D1ReviewFeedbackRepository } from "../../infrastructure/d1ReviewFeedbackRepository";
+import { ComplianceChecker } from "../../domain/compliance";
+import { DEFAULT_COMPLIANCE_RULE_SETS } from "../../domain/complianceRules";
+import { createSqliteD1 } from "../../__tests__/support/sqliteD1";
+
+/**
+ * Cloudflare Workflows のステップ実行を模した実行器
+ *
+ * 成功したステップの結果をシリアライズして保存し、同じ名前のステップは再実行しない。
+ * 失敗したステップは設定の上限まで即座に再試行する。
+ */
+function createStepRunner(events: Record<string, unknown> = {}) {
+  const results = new Map<string, unknown>();
+  const attempts: Record<string, number> = {};
+  const configs: Record<string, PostWorkflowStepConfig> = {};
+
+  const runner: WorkflowStepRunner = {
+    async do<T>(name: string, config: PostWorkflowStepConfig, callback: () => Promise<T>): Promise<T> {
+      configs[name] = config;
+      if (results.has(name)) {
+        return results.get(name) as T;
+      }
+      for (let attempt = 0; ; attempt++) {
+        attempts[name] = (attempts[name] ?? 0) + 1;
+        try {
+          results.set(name, JSON.parse(JSON.stringify(await callback())));
+          return results.get(name) as T;
+        } catch (error) {
+          if (attempt >= config.retries.limit) throw error;
+        }
+      }
+    },
+    async waitForEvent(_name, options) {
+      if (!(options.type in events)) {
+        throw new Error("timed out waiting for event");
+      }
+      return { payload: events[options.type] };
+    },
+  };
+
+  return { runner, attempts, configs };
+}
+
+describe("SnsPostPipeline", () => {
+  const now = new Date("2025-03-01T00:00:00.000Z");
+  const clock = { now: () => now };
+  const params = { theme: "春の新作スニーカー", brandVoice: "爽やか", imagePrompt: "街で歩く若者" };
+  let repository: D1DraftRepository;
+  let contentGenerator: { generate: ReturnType<typeof vi.fn> };
+  let imageScheduler: { schedule: ReturnType<typeof vi.fn> };
+  let reviews: ReviewDraftUseCase;
+  let pipeline: SnsPostPipeline;
+
+  beforeEach(async () => {
+    const db = await createSqliteD1();
+    repository = new D1DraftRepository(db);
+    contentGenerator = {
+      generate: vi.fn().mockResolvedValue({ caption: "春を歩こう", hashtags: ["#spring"], altText: "スニーカー" }),
+    };
+    imageScheduler = { schedule: vi.fn().mockResolvedValue(undefined) };
+
+    let sequence = 0;
+    const idProvider = { next: () => `id-${++sequence}` };
+    const generation = new DraftGenerationWorkflow(
+      contentGenerator,
+      imageScheduler,
+      new CreateDraftUseCase(repository, idProvider, clock),
+      new TrackImageJobUseCase(repository, clock)
+    );
+    reviews = new ReviewDraftUseCase(repository, new D1ReviewFeedbackRepository(db), idProvider, clock);
+    pipeline = new SnsPostPipeline(generation, reviews);
+  });
+
+  // 正常系: 失敗した生成ステップだけが再試行され、インスタンスIDのドラフトに画像ジョブが記録されることを検証する
+  it("retries a failed step independently and creates the draft under the instance id", async () => {
+    contentGenerator.generate.mockRejectedValueOnce(new Error("AI unavailable"));
+    const { runner, attempts, configs } = createStepRunner();
+
+    const output = await pipeline.run("instance-1", params, runner);
+
+    expect(attempts).toEqual({ generate: 2, persist: 1, image: 1 });
+    expect(configs.generate).toEqual(POST_WORKFLOW_STEPS.generate);
+    expect(output.review).toBeUndefined();
+    expect(output.draft).toMatchObject({
+      id: "instance-1",
+      status: "draft",
+      caption: "春を歩こう",
+      image: { jobId: "instance-1-image", status: "queued" },
+    });
+    expect(imageScheduler.schedule).toHaveBeenCalledWith({ draftId: "instance-1", prompt: "街で歩く若者" });
+    expect((await repository.findById("instance-1"))?.imageJobId).toBe("instance-1-image");
+  });
+
+  // 正常系: 保存後に失敗した保存ステップを再試行しても、ドラフトが二重に作成されないことを検証する
+  it("does not create a second draft when the persist step is retried after saving", async () => {
+    const save = repository.save.bind(repository);
+    let failed = false;
+    vi.spyOn(repository, "save").mockImplementation(async (draft) => {
+      await save(draft);
+      if (!failed) {
+        failed = true;
+        throw new Error("connection reset");
+      }
+    });
+    const { runner, attempts } = createStepRunner();
+
+    const output = await pipeline.run("instance-1", params, runner);
+
+    expect(attempts.persist).toBe(2);
+    expect(output.draft.id).toBe("instance-1");
+    const page = await repository.list({ limit: 10 });
+    expect(page.drafts.map((draft) => draft.id)).toEqual(["instance-1"]);
+  });
+
+  // 正常系: レビュー待ちに届いた承認がドラフトの状態とレビュー履歴に反映されることを検証する
+  it("applies the review decision delivered to the waiting instance", async () => {
+    const { runner, attempts } = createStepRunner({
+      [REVIEW_EVENT_TYPE]: { decision: "approve", reviewerId: "editor-1", comments: "OK" },
+    });
+
+    const output = await pipeline.run("instance-1", { ...params, awaitReview: true }, runner);
+
+    expect(attempts.review).toBe(1);
+    expect(output.review).toBe("accepted");
+    expect(output.draft).toMatchObject({ id: "instance-1", status: "approved" });
+    expect((await repository.findById("instance-1"))?.status).toBe("approved");
+  });
+
+  // 正常系: 承認の保存後に失敗したレビューステップを再試行しても、遷移エラーにならず履歴を二重に記録しないことを検証する
+  it("treats an already applied decision as success when the review step is retried", async () => {
+    const save = repository.save.bind(repository);
+    let failed = false;
+    vi.spyOn(repository, "save").mockImplementation(async (draft) => {
+      await save(draft);
+      if (draft.status === "approved" && !failed) {
+        failed = true;
+        throw new Error("connection reset");
+      }
+    });
+    const { runner, attempts } = createStepRunner({
+      [REVIEW_EVENT_TYPE]: { decision: "approve", reviewerId: "editor-1", comments: "OK" },
+    });
+
+    const output = await pipeline.run("instance-1", { ...params, awaitReview: true }, runner);
+
+    expect(attempts.review).toBe(2);
+    expect(output.review).toBe("accepted");
+    expect(output.draft).toMatchObject({ id: "instance-1", status: "approved" });
+    const history = await reviews.history("instance-1");
+    expect(history?.items).toMatchObject([{ id: "instance-1-review", resolution: "accepted" }]);
+  });
+
+  // 異常系: 修正が必要なコンプライアンス違反が残るドラフトへの承認は再試行せず、draft のまま完了することを検証する
+  it("completes as blocked when the draft has blocking compliance violations", async () => {
+    contentGenerator.generate.mockResolvedValue({ caption: "履くだけで痩せる", hashtags: [], altText: "スニーカー" });
+    const generation = new DraftGenerationWorkflow(
+      contentGenerator,
+      imageScheduler,
+      new CreateDraftUseCase(repository, { next: () => "unused" }, clock),
+      new TrackImageJobUseCase(repository, clock),
+      undefined,
+      undefined,
+      new ComplianceChecker(DEFAULT_COMPLIANCE_RULE_SETS)
+    );
+    const { runner, attempts } = createStepRunner({
+      [REVIEW_EVENT_TYPE]: { decision: "approve", reviewerId: "editor-1" },
+    });
+
+    const output = await new SnsPostPipeline(generation, reviews).run("instance-1", { ...params, awaitReview: true }, runner);
+
+    expect(output.review).toBe("blocked");
+    expect(attempts.review).toBe(1);
+    expect(output.draft.complianceViolations).toMatchObject([{ ruleId: "physiological-change", text: "痩せる" }]);
+    expect((await repository.findById("instance-1"))?.status).toBe("draft");
+  });
+
+  // 異常系: 期限までにレビュー判断が届かない場合はドラフトを draft のまま残して完了することを検証する
+  it("completes as timed out when no review decision arrives", async () => {
+    const { runner, attempts } = createStepRunner();
+
+    const output = await pipeline.run("instance-1", { ...params, awaitReview: true }, runner);
+
+    expect(output.review).toBe("timed_out");
+    expect(attempts.review).toBeUndefined();
+    expect((await repository.findById("instance-1"))?.status).toBe("draft");
+  });
+
+  // 異常系: 再試行の上限に達したステップの例外でワークフローが失敗し、後続のステップを実行しないことを検証する
+  it("fails without running later steps when a step exhausts its retries", async () => {
+    imageScheduler.schedule.mockRejectedValue(new Error("queue down"));
+    const { runner, attempts } = createStepRunner();
+
+    await expect(pipeline.run("instance-1", { ...params, awaitReview: true }, runner)).rejects.toThrow("queue down");
+    expect(attempts.image).toBe(POST_WORKFLOW_STEPS.image.retries.limit + 1);
+    expect(attempts.review).toBeUndefined();
+    expect((await repository.findById("instance-1"))?.imageStatus).toBe("failed");
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview ワークフロー層 - 一括生成の行の処理
+ *
+ * 一括生成バッチの1行を、キューコンシューマーから受け取って生成する。
+ * 生成はドラフト生成ワークフローの各ステップをそのまま呼び出し、結果をバッチの行に記録する。
+ *
+ * 設計原則：
+ * - 再配信への耐性：ドラフトのIDはバッチ作成時に払い出したものを使い、再配信で二重に作成しない
+ * - 失敗の分類：入力やブランドの誤りなど再試行しても解消しない失敗はすぐに記録し、
+ *   それ以外の失敗はキューの再配信に任せる
+ */
+
+import type { DraftGenerationWorkflow } from "./draftGenerationWorkflow";
+import type { ManageGenerationBatchesUseCase } from "../usecases/manageGenerationBatchesUseCase";
+import { BrandNotFoundError } from "../usecases/manageBrandsUseCase";
+import { PromptTemplateNotFoundError } from "../usecases/managePromptTemplatesUseCase";
+import { InfrastructureError } from "../usecases/infrastructureError";
+import { DomainError, DomainValidationError } from "../domain/errors";
+import type { GenerationBatchRowError } from "../domain/generationBatch";
+
+/**
+ * 処理する行
+ */
+export type GenerationBatchRowJob = {
+  batchId: string;
+  index: number;
+};
+
+/**
+ * 一括生成の行の処理
+ *
+ * 実行フロー：
+ * 1. 生成待ちの行と生成リクエストの読み込み（処理済みの行は何もしない）
+ * 2. テキストコンテンツの生成
+ * 3. 行に払い出したIDでのドラフトの保存と画像生成のスケジューリング
+ * 4. 行への結果の記録
+ */
+export class DraftBatchWorkflow {
+  constructor(
+    private readonly generation: DraftGenerationWorkflow,
+    private readonly batches: ManageGenerationBatchesUseCase
+  ) {}
+
+  /**
+   * 行の生成
+   *
+   * @param job 処理する行
+   * @throws 再試行で解消する可能性のある失敗（コンテンツ生成・保存先・キューの障害など）
+   */
+  async processRow(job: GenerationBatchRowJob): Promise<void> {
+    const queued = await this.batches.findQueuedRow(job.batchId, job.index);
+    if (!queued) {
+      return;
+    }
+
+    const { row, request } = queued;
+    let draft;
+    try {
+      const draftInput = await this.generation.generateContent(request);
+      draft = await this.generation.persistDraft(draftInput, row.draftId);
+      // 前回の配信で保存済みのドラフトには、スケジュール済みの画像ジョブを重ねて投入しない
+      if (!draft.image) {
+        await this.generation.scheduleImage(draft.id, request);
+      }
+    } catch (error) {
+      if (!isPermanentFailure(error)) {
+        throw error;
+      }
+      await this.batches.recordFailure(job.batchId, job.index, toRowError(error));
+      return;
+    }
+
+    await this.batches.recordSuccess(job.batchId, job.index, draft);
+  }
+
+  /**
+   * 再試行の上限に達した行の失敗の記録
+   *
+   * @param job 処理していた行
+   * @param error 最後の試行の失敗
+   */
+  async recordRowFailure(job: GenerationBatchRowJob, error: unknown): Promise<void> {
+    await this.batches.recordFailure(job.batchId, job.index, toRowError(error));
+  }
+}
+
+/**
+ * 再試行しても解消しない失敗か
+ */
+function isPermanentFailure(error: unknown): boolean {
+  return (
+    error instanceof DomainError || error instanceof BrandNotFoundError || error instanceof PromptTemplateNotFoundError
+  );
+}
+
+/**
+ * 失敗の行の失敗理由への変換
+ *
+ * エラーマッピングと同じコードを付け、クライアントが単体の生成と同じように扱えるようにする。
+ */
+function toRowError(error: unknown): GenerationBatchRowError {
+  if (error instanceof DomainValidationError) {
+    return { message: error.message, code: error.code, fields: [...error.fields] };
+  }
+  if (error instanceof DomainError || error instanceof InfrastructureError) {
+    return { message: error.message, code: error.code };
+  }
+  if (error instanceof BrandNotFoundError || error instanceof PromptTemplateNotFoundError) {
+    return { message: error.message };
+  }
+  return { message: error instanceof Error ? error.message : String(error), code: "INTERNAL_ERROR" };
+}
@@ -12,7 +12,15 @@
  */
 
 import type { CreateDraftUseCase, CreateDraftInput } from "../usecases/createDraftUseCase";
-import type { DraftGenerationRequest, DraftSummary } from "@/shared/contracts/draft";
+import type { BrandProfileResolver } from "../usecases/manageBrandsUseCase";
+import type { PromptTemplateVersion } from "../domain/promptTemplate";
+import type { BrandProfile } from "../domain/brand";
+import { DEFAULT_PLATFORM, fitToPlatformRules, type SocialPlatform } from "../domain/platformRules";
+import { captionAnglesFor, type CaptionAngle, type CaptionVariant } from "../domain/captionVariant";
+import type { ComplianceChecker, ComplianceViolation } from "../domain/compliance";
+import type { HashtagTierMix } from "../domain/hashtag";
+import { assertDraftRequirements } from "../domain/postDraft";
+import type { DraftGenerationRequest, DraftImageState, DraftSummary } from "@/shared/contracts/draft";
 
 /**
  * コンテンツ生成の入力データ
@@ -23,8 +31,18 @@ import type { DraftGenerationRequest, DraftSummary } from "@/shared/contracts/dr
 export type ContentGenerationInput = {
   theme: string;
   brandVoice: string;
+  /** 投稿先プラットフォーム。生成器は出力をこのプラットフォームのルールに合わせる */
+  platform: SocialPlatform;
   product?: string;
   targetPersona?: string;
+  /** プロンプトテンプレートを差し込み済みの指示文（未指定時は生成器の既定プロンプト） */
+  prompt?: string;
+  /** キャプションの切り口（キャプション案の生成時のみ） */
+  angle?: CaptionAngle;
+  /** ブランドのプロフィール（ブランド指定時のみ）。生成器は禁止語を避け、既定のハッシュタグを優先する */
+  brand?: BrandProfile;
+  /** ハッシュタグの規模ごとの配分（未指定時は既定の配分）。生成器は上限数に絞る際にこの配分で選ぶ */
+  hashtagMix?: HashtagTierMix;
 };
 
 /**
@@ -44,6 +62,7 @@ export type GeneratedContent = {
  * 
  * AIコンテンツ生成機能への抽象インターフェイス。
  * 実装は LangChain/OpenAI等の具体的サービスによって提供される。
+ * キャプション案の生成時は切り口（angle）ごとに1回ずつ呼び出される。
  */
 export type ContentGenerator = {
   generate(input: ContentGenerationInput): Promise<GeneratedContent>;
@@ -56,7 +75,40 @@ export type ContentGenerator = {
  * Cloudflare Queues等の実装によって非同期画像生成を実現。
  */
 export type ImageScheduler = {
-  schedule(input: { draftId: string; prompt: string }): Promise<{ imageJobId: string }>;
+  /** キューへ送信できない場合は例外を送出する */
+  schedule(input: { draftId: string; prompt: string }): Promise<void>;
+};
+
+/**
+ * 画像ジョブ追跡ポート
+ * 
+ * スケジュールするジョブIDをドラフトに記録し、クライアントが完了を追跡できるようにする。
+ */
+export type ImageJobTracker = {
+  markQueued(draftId: string, jobId: string): Promise<DraftImageState>;
+  markFailed(draftId: string, error: unknown): Promise<void>;
+};
+
+/**
+ * 画像ジョブIDの導出
+ * 
+ * ドラフトごとに画像ジョブは1つで、再生成も同じIDで上書きする。
+ * 
+ * @param draftId ドラフトID
+ * @returns 画像ジョブID
+ */
+export function imageJobIdFor(draftId: string): string {
+  return `${draftId}-image`;
+}
+
+/**
+ * プロンプトテンプレート解決ポート
+ * 
+ * リクエストで指定されたテンプレートを、生成に使うバージョンに解決する。
+ */
+export type PromptTemplateResolver = {
+  /** バージョン未指定時は有効バージョンを返す。存在しない場合は例外を送出する */
+  resolve(templateId: string, version?: number): Promise<PromptTemplateVersion>;
 };
 
 /**
@@ -72,7 +124,7 @@ export type DraftGenerationInput = DraftGenerationRequest;
  * 
  * Instagram投稿ドラフトの生成プロセス全体を調整する。
  * 実行フロー：
- * 1. AIによるテキストコンテンツ生成
+ * 1. AIによるテキストコンテンツ生成とコンプライアンスチェック
  * 2. ドラフトエンティティの作成・永続化
  * 3. 画像生成ジョブのキューイング（非同期）
  * 
@@ -83,8 +135,13 @@ export type DraftGenerationInput = DraftGenerationRequest;
 export class DraftGenerationWorkflow {
   constructor(
     private readonly contentGenerator: ContentGenerator,
-    private readonly imageScheduler: ImageScheduler,
-    private readonly createDraft: CreateDraftUseCase
+    private readonly imageScheduler: ImageScheduler | undefined,
+    private readonly createDraft: CreateDraftUseCase,
+    private readonly imageJobs?: ImageJobTracker,
+    private readonly promptTemplates?: PromptTemplateResolver,
+    private readonly brands?: BrandProfileResolver,
+    private readonly compliance?: ComplianceChecker,
+    private readonly hashtagMix?: HashtagTierMix
   ) {}
 
   /**
@@ -95,44 +152,199 @@ export class DraftGenerationWorkflow {
    * 複数のサービスを適切な順序で呼び出す。
    * 
    * 実行ステップ：
-   * 1. AIによるテキストコンテンツ生成（同期）
+   * 0. ブランドプロフィール・プロンプトテンプレートの解決（指定時のみ）
+   * 1. AIによるテキストコンテンツ生成（同期、案の数の指定時は切り口ごとに生成）と、
+   *    コンプライアンスチェック（チェッカー注入時のみ）
    * 2. 生成されたコンテンツでドラフトエンティティを作成
    * 3. ドラフトの永続化
-   * 4. 画像生成ジョブのスケジューリング（非同期）
+   * 4. ジョブIDのドラフトへの記録（トラッカー注入時のみ）
+   * 5. 画像生成ジョブのスケジューリング（非同期、スケジューラー注入時のみ）
    * 
    * @param input ユーザーが指定した投稿の要求事項
    * @returns 作成されたドラフトの情報（画像生成は非同期で進行中）
    * @throws コンテンツ生成失敗、ドラフト作成失敗、スケジューリング失敗
    */
   async run(input: DraftGenerationInput): Promise<DraftSummary> {
-    // ステップ1: AIによるテキストコンテンツ生成
-    const generated = await this.contentGenerator.generate({
+    // ステップ0〜2: テキストコンテンツの生成とドラフトデータの構築
+    const draftInput = await this.generateContent(input);
+
+    // ステップ3: ドラフトエンティティの作成・永続化
+    const draft = await this.persistDraft(draftInput);
+
+    // ステップ4〜5: ジョブ状態の記録と画像生成の非同期スケジューリング
+    const image = await this.scheduleImage(draft.id, input);
+
+    // 画像生成は非同期で進行中、テキストコンテンツのみ即座に返却
+    return image ? { ...draft, image } : draft;
+  }
+
+  /**
+   * テキストコンテンツの生成
+   * 
+   * ブランドプロフィール・プロンプトテンプレートの解決からドラフトデータの構築までを行う。
+   * ブランド指定時は、リクエストで省略したブランドボイス・ペルソナをブランドのプロフィールで補い、
+   * ブランドの既定のハッシュタグを生成結果の先頭に加える。
+   * チェッカー注入時は、本文と各案をルールセットとブランドの禁止語で検査し、違反をドラフトに添付する。
+   * 永続ワークフロー（SnsPostWorkflow）では、このメソッドを1つのステップとして再試行する。
+   * 
+   * @param input ユーザーが指定した投稿の要求事項
+   * @returns ドラフト作成の入力データ
+   * @throws DomainValidationError テーマ・ブランドボイスの欠落
+   * @throws ブランド・テンプレートの解決失敗、コンテンツ生成失敗
+   */
+  async generateContent(input: DraftGenerationInput): Promise<CreateDraftInput> {
+    // ステップ0: ブランドプロフィールの補完とプロンプトテンプレートの解決・差し込み
+    const brand = await this.resolveBrand(input);
+    const required = { theme: input.theme, brandVoice: input.brandVoice ?? brand?.voice };
+    assertDraftRequirements(required);
+    const template = await this.resolvePromptTemplate(input);
+    const values = {
       theme: input.theme,
-      brandVoice: input.brandVoice,
+      brandVoice: required.brandVoice,
       product: input.product,
-      targetPersona: input.targetPersona,
-    });
+      targetPersona: input.targetPersona ?? brand?.defaultPersona,
+    };
+
+    // ステップ1: AIによるテキストコンテンツ生成
+    const platform = input.platform ?? DEFAULT_PLATFORM;
+    const generationInput: ContentGenerationInput = {
+      ...values,
+      platform,
+      ...(template ? { prompt: template.render(values) } : {}),
+      ...(brand ? { brand } : {}),
+      ...(this.hashtagMix ? { hashtagMix: this.hashtagMix } : {}),
+    };
+    const withBrandHashtags = <T extends GeneratedContent>(content: T): T =>
+      brand
+        ? fitToPlatformRules(platform, content, { mix: this.hashtagMix, required: brand.defaultHashtags })
+        : content;
+    const screen = <T extends GeneratedContent>(content: T): T & { complianceViolations?: ComplianceViolation[] } =>
+      this.compliance ? { ...content, complianceViolations: this.compliance.check(content, brand?.bannedWords) } : content;
+    const variants = (await this.generateVariants(generationInput, input.variants))
+      ?.map(withBrandHashtags)
+      .map(screen);
+    const generated = variants?.[0] ?? screen(withBrandHashtags(await this.contentGenerator.generate(generationInput)));
 
     // ステップ2: ドラフトデータの構築
-    const draftInput: CreateDraftInput = {
+    return {
+      brandId: input.brandId,
       theme: input.theme,
-      brandVoice: input.brandVoice,
+      brandVoice: values.brandVoice,
       product: input.product,
       imagePrompt: input.imagePrompt,
-      targetPersona: input.targetPersona,
+      targetPersona: values.targetPersona,
+      platform,
       caption: generated.caption,
       hashtags: generated.hashtags,
       altText: generated.altText,
+      complianceViolations: generated.complianceViolations,
+      promptTemplateId: template?.templateId,
+      promptTemplateVersion: template?.version,
+      variants,
     };
+  }
 
-    // ステップ3: ドラフトエンティティの作成・永続化
-    const draft = await this.createDraft.execute(draftInput);
+  /**
+   * ドラフトの永続化
+   * 
+   * @param draftInput 生成済みのドラフトデータ
+   * @param draftId 割り当てるID（指定時は同じIDのドラフトが既にあれば作成しない）
+   * @returns 作成された、または作成済みのドラフトの情報
+   */
+  async persistDraft(draftInput: CreateDraftInput, draftId?: string): Promise<DraftSummary> {
+    return draftId === undefined
+      ? this.createDraft.execute(draftInput)
+      : this.createDraft.executeOnce(draftId, draftInput);
+  }
+
+  /**
+   * 画像生成ジョブのスケジューリング
+   * 
+   * キューのコンシューマーがジョブ状態を running に進める前に queued を保存するため、
+   * ジョブ状態を記録してからキューへ送信する。送信に失敗した場合はジョブ状態を failed にして例外を送出する。
+   * 
+   * @param draftId 画像を生成するドラフトのID
+   * @param input ユーザーが指定した投稿の要求事項
+   * @returns 記録したジョブ状態、スケジューラー（画像生成キュー）・トラッカー未注入時はundefined
+   * @throws InfrastructureError キューへの送信に失敗した場合
+   */
+  async scheduleImage(draftId: string, input: DraftGenerationInput): Promise<DraftImageState | undefined> {
+    const scheduler = this.imageScheduler;
+    if (!scheduler) {
+      return undefined;
+    }
+
+    // ステップ4: ジョブ状態の記録（クライアントはこの状態から完了を追跡する）
+    const image = await this.imageJobs?.markQueued(draftId, imageJobIdFor(draftId));
 
-    // ステップ4: 画像生成の非同期スケジューリング
+    // ステップ5: 画像生成の非同期スケジューリング
     const prompt = input.imagePrompt?.trim() || input.theme; // フォールバック戦略
-    await this.imageScheduler.schedule({ draftId: draft.id, prompt });
+    try {
+      await scheduler.schedule({ draftId, prompt });
+    } catch (error) {
+      // 記録の失敗は送信の失敗より優先しない
+      await this.imageJobs?.markFailed(draftId, error).catch(() => undefined);
+      throw error;
+    }
+    return image;
+  }
 
-    // 画像生成は非同期で進行中、テキストコンテンツのみ即座に返却
-    return draft;
+  /**
+   * 切り口ごとのキャプション案の生成
+   * 
+   * 各案は独立しているため並行して生成する。
+   * 
+   * @param input コンテンツ生成の入力パラメータ
+   * @param count 案の数
+   * @returns CAPTION_ANGLES の順に並んだ案、案の数が未指定の場合はundefined
+   * @throws InvalidCaptionVariantError 案の数が範囲外の場合
+   */
+  private async generateVariants(
+    input: ContentGenerationInput,
+    count: number | undefined
+  ): Promise<CaptionVariant[] | undefined> {
+    if (count === undefined) {
+      return undefined;
+    }
+    return Promise.all(
+      captionAnglesFor(count).map(async (angle) => ({
+        angle,
+        ...(await this.contentGenerator.generate({ ...input, angle })),
+      }))
+    );
+  }
+
+  /**
+   * リクエストで指定されたブランドのプロフィールの解決
+   * 
+   * @param input ユーザーが指定した投稿の要求事項
+   * @returns ブランドのプロフィール、未指定の場合はundefined
+   * @throws ブランドが存在しない、またはブランド機能が構成されていない場合
+   */
+  private async resolveBrand(input: DraftGenerationInput): Promise<BrandProfile | undefined> {
+    if (!input.brandId) {
+      return undefined;
+    }
+    if (!this.brands) {
+      throw new Error("Brands are not available");
+    }
+    return this.brands.resolve(input.brandId);
+  }
+
+  /**
+   * リクエストで指定されたプロンプトテンプレートの解決
+   * 
+   * @param input ユーザーが指定した投稿の要求事項
+   * @returns 生成に使うバージョン、未指定の場合はundefined
+   * @throws テンプレートが存在しない、またはテンプレート機能が構成されていない場合
+   */
+  private async resolvePromptTemplate(input: DraftGenerationInput): Promise<PromptTemplateVersion | undefined> {
+    if (!input.promptTemplateId) {
+      return undefined;
+    }
+    if (!this.promptTemplates) {
+      throw new Error("Prompt templates are not available");
+    }
+    return this.promptTemplates.resolve(input.promptTemplateId, input.promptTemplateVersion);
   }
 }
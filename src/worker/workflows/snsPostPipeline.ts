@@ -0,0 +1,179 @@
+/**
+ * @fileoverview ワークフロー層 - 投稿ワークフローのステップ構成
+ *
+ * Cloudflare Workflows の永続ワークフロー（SnsPostWorkflow）が実行するステップを定義する。
+ * 生成・保存・画像スケジューリング・レビュー待ちをそれぞれ独立したステップとし、
+ * 失敗したステップだけを再試行する。完了したステップの結果はランタイムが保存し、再実行しない。
+ *
+ * 設計原則：
+ * - ポートの再利用：各ステップはドラフト生成ワークフロー・レビューユースケースをそのまま呼び出す
+ * - ランタイム非依存：ステップの実行器をポートとして受け取り、cloudflare:workers なしでテスト可能
+ * - 再試行への耐性：ドラフト・フィードバックのIDをインスタンスIDから決め、再試行で二重作成しない
+ */
+
+import type { DraftGenerationWorkflow } from "./draftGenerationWorkflow";
+import { BlockingComplianceViolationError } from "../domain/postDraft";
+import type { ReviewDraftUseCase } from "../usecases/reviewDraftUseCase";
+import type {
+  PostWorkflowInstanceResponse,
+  PostWorkflowOutput,
+  PostWorkflowReviewRequest,
+  PostWorkflowStartRequest,
+} from "@/shared/contracts/postWorkflow";
+
+/**
+ * 投稿ワークフローの入力データ
+ */
+export type SnsPostWorkflowParams = PostWorkflowStartRequest;
+
+/**
+ * レビュー判断のイベント種別
+ */
+export const REVIEW_EVENT_TYPE = "review-decision";
+
+/**
+ * レビュー判断を待つ期間
+ */
+export const REVIEW_TIMEOUT: WorkflowSleepDuration = "7 days";
+
+/**
+ * ワークフローインスタンスが記録するレビューフィードバックのID
+ *
+ * レビューステップの再試行で同じ判断を二重に記録しないよう、インスタンスIDから決める。
+ */
+export function reviewFeedbackIdFor(instanceId: string): string {
+  return `${instanceId}-review`;
+}
+
+/**
+ * ステップの再試行設定
+ * Cloudflare Workflows の WorkflowStepConfig と一致
+ */
+export type PostWorkflowStepConfig = {
+  retries: {
+    limit: number;
+    delay: WorkflowSleepDuration;
+    backoff?: "constant" | "linear" | "exponential";
+  };
+  timeout?: WorkflowSleepDuration;
+};
+
+/**
+ * ステップごとの再試行設定
+ *
+ * - generate: AIの一時的な失敗が多いため、指数バックオフで多めに再試行する
+ * - persist・image・review: ストレージ・キューの一時的な失敗のみを想定し、短い間隔で再試行する
+ */
+export const POST_WORKFLOW_STEPS = {
+  generate: { retries: { limit: 5, delay: "10 seconds", backoff: "exponential" }, timeout: "2 minutes" },
+  persist: { retries: { limit: 3, delay: "5 seconds", backoff: "linear" }, timeout: "30 seconds" },
+  image: { retries: { limit: 3, delay: "5 seconds", backoff: "linear" }, timeout: "30 seconds" },
+  review: { retries: { limit: 3, delay: "5 seconds", backoff: "linear" }, timeout: "30 seconds" },
+} satisfies Record<string, PostWorkflowStepConfig>;
+
+/**
+ * ステップ実行器ポート
+ *
+ * 本番では Cloudflare Workflows の WorkflowStep、テストでは結果を記録する偽実装を注入する。
+ */
+export type WorkflowStepRunner = {
+  /** 名前ごとに1回だけ成功させ、失敗時は設定に従って再試行する */
+  do<T>(name: string, config: PostWorkflowStepConfig, callback: () => Promise<T>): Promise<T>;
+  /** 指定種別のイベントを待つ。期限までに届かない場合は例外を送出する */
+  waitForEvent(name: string, options: { type: string; timeout: WorkflowSleepDuration }): Promise<{ payload: unknown }>;
+};
+
+/**
+ * 投稿ワークフロー操作ポート
+ *
+ * HTTP層からワークフローインスタンスを開始・参照し、レビュー判断を届ける。
+ */
+export type PostWorkflowLauncher = {
+  start(params: SnsPostWorkflowParams): Promise<PostWorkflowInstanceResponse>;
+  /** 存在しない場合はnullを返す */
+  status(instanceId: string): Promise<PostWorkflowInstanceResponse | null>;
+  /** 存在しない場合はfalseを返す */
+  sendReview(instanceId: string, decision: PostWorkflowReviewRequest): Promise<boolean>;
+};
+
+/**
+ * 投稿ワークフローのステップ構成
+ *
+ * 実行フロー：
+ * 1. generate: テキストコンテンツの生成
+ * 2. persist: インスタンスIDをドラフトIDとしてドラフトを保存
+ * 3. image: 画像生成ジョブのスケジューリング
+ * 4. review（awaitReview指定時のみ）: レビュー判断を待ち、ドラフトに反映
+ */
+export class SnsPostPipeline {
+  constructor(
+    private readonly generation: DraftGenerationWorkflow,
+    private readonly reviews: ReviewDraftUseCase
+  ) {}
+
+  /**
+   * ステップの実行
+   *
+   * @param instanceId ワークフローインスタンスのID（作成するドラフトのIDになる）
+   * @param params ユーザーが指定した投稿の要求事項
+   * @param step ステップ実行器
+   * @returns 最後のステップ完了時点のドラフトとレビュー待ちの結果
+   * @throws 再試行の上限に達したステップの例外
+   */
+  async run(instanceId: string, params: SnsPostWorkflowParams, step: WorkflowStepRunner): Promise<PostWorkflowOutput> {
+    const draftInput = await step.do("generate", POST_WORKFLOW_STEPS.generate, () =>
+      this.generation.generateContent(params)
+    );
+
+    const draft = await step.do("persist", POST_WORKFLOW_STEPS.persist, () =>
+      this.generation.persistDraft(draftInput, instanceId)
+    );
+
+    const image = await step.do("image", POST_WORKFLOW_STEPS.image, async () =>
+      (await this.generation.scheduleImage(draft.id, params)) ?? null
+    );
+    const generated = image ? { ...draft, image } : draft;
+
+    if (!params.awaitReview) {
+      return { draft: generated };
+    }
+
+    let decision: PostWorkflowReviewRequest;
+    try {
+      const event = await step.waitForEvent("wait for review", { type: REVIEW_EVENT_TYPE, timeout: REVIEW_TIMEOUT });
+      // ペイロードはレビュー判断エンドポイントで検証済み
+      decision = event.payload as PostWorkflowReviewRequest;
+    } catch {
+      // 期限切れのドラフトは draft のまま残し、通常のレビューエンドポイントから判断できる
+      return { draft: generated, review: "timed_out" };
+    }
+
+    return step.do("review", POST_WORKFLOW_STEPS.review, async () => {
+      const input = {
+        draftId: draft.id,
+        reviewerId: decision.reviewerId,
+        comments: decision.comments,
+        tags: decision.tags,
+      };
+      let result;
+      try {
+        // 保存後の失敗で再試行されても、反映済みの判断を成功として扱う
+        result = await this.reviews.decideOnce(
+          reviewFeedbackIdFor(instanceId),
+          input,
+          decision.decision === "approve" ? "accepted" : "rework"
+        );
+      } catch (error) {
+        // 違反は再試行しても解消しないため、ドラフトを draft のまま残してエディターの修正を待つ
+        if (error instanceof BlockingComplianceViolationError) {
+          return { draft: generated, review: "blocked" as const };
+        }
+        throw error;
+      }
+      if (!result) {
+        throw new Error(`Draft ${draft.id} was not found`);
+      }
+      return { draft: result.draft, review: result.feedback.resolution };
+    });
+  }
+}
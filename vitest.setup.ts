@@ -5,7 +5,8 @@ import { vi } from "vitest";
 Object.defineProperty(window, 'matchMedia', {
   writable: true,
   enumerable: true,
-  value: vi.fn().mockImplementation(query => ({
+  // Plain function so vi.restoreAllMocks() in tests cannot strip the implementation
+  value: (query: string) => ({
     matches: false,
     media: query,
     onchange: null,
@@ -14,7 +15,7 @@ Object.defineProperty(window, 'matchMedia', {
     addEventListener: vi.fn(),
     removeEventListener: vi.fn(),
     dispatchEvent: vi.fn(),
-  })),
+  }),
 });
 
 // Mock ResizeObserver